@@ -0,0 +1,44 @@
+/**
+ * Builds the signature bundle that the app imports into IndexedDB on first
+ * use, from 4byte.directory or openchain dumps, hash-to-signature maps and
+ * signature lists:
+ *
+ *   npm run signatures:bundle -- 4byte-functions.json openchain-events.json
+ *
+ * The output is a JSON map of hashes to signatures, one hash per line so
+ * regenerated bundles diff cleanly.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { SignatureDumpParser } from "../src/lib/signatures/signatureDumpParser";
+
+const OUTPUT = "src/lib/signatures/data/signatureBundle.json";
+
+const files = process.argv.slice(2);
+if (files.length === 0) {
+  console.error("Usage: npm run signatures:bundle -- <dump file>...");
+  process.exit(1);
+}
+
+const bundle = new Map<string, Set<string>>();
+for (const file of files) {
+  const entries = SignatureDumpParser.parse(
+    basename(file),
+    await readFile(file, "utf8"),
+  );
+  for (const { hash, signatures } of entries) {
+    const known = bundle.get(hash) ?? new Set<string>();
+    signatures.forEach((signature) => known.add(signature));
+    bundle.set(hash, known);
+  }
+  console.log(`${file}: ${entries.length} hashes`);
+}
+
+const lines = Array.from(bundle)
+  .sort(([a], [b]) => (a < b ? -1 : 1))
+  .map(
+    ([hash, signatures]) =>
+      `  ${JSON.stringify(hash)}: ${JSON.stringify(Array.from(signatures))}`,
+  );
+await writeFile(OUTPUT, `{\n${lines.join(",\n")}\n}\n`);
+console.log(`${OUTPUT}: ${bundle.size} hashes`);
@@ -39,6 +39,8 @@ const TransactionSimulation = lazy(
   () => import("./pages/TransactionSimulation")
 );
 const NetworkMonitor = lazy(() => import("./pages/NetworkMonitor"));
+const DevnetControl = lazy(() => import("./pages/DevnetControl"));
+const TracerWorkbench = lazy(() => import("./pages/TracerWorkbench"));
 
 const ComparativeTransactionAnalysis = lazy(() =>
   import("./pages/ComparativeTransactionAnalysis").then((module) => ({
@@ -258,6 +260,28 @@ const App = () => (
             </Suspense>
           }
         />
+        <Route
+          path="/devnet"
+          element={
+            <Suspense fallback={<RouteLoader />}>
+              <RouteTransition>
+                <DevnetControl />
+              </RouteTransition>
+            </Suspense>
+          }
+        />
+        <Route
+          path="/tracer-workbench"
+          element={
+            <ProtectedRoute>
+              <Suspense fallback={<RouteLoader />}>
+                <RouteTransition>
+                  <TracerWorkbench />
+                </RouteTransition>
+              </Suspense>
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/block-explorer"
           element={
@@ -0,0 +1,258 @@
+import { useRef, useState } from "react";
+import { isAddress } from "ethers";
+import { Braces, Link2, Loader2, Plus, Trash2, Upload, X } from "lucide-react";
+import { Badge } from "@/components/global/Badge";
+import { Button } from "@/components/global/Button";
+import { Dropdown } from "@/components/global/Dropdown";
+import { Input } from "@/components/global/Input";
+import { useAbiAttachments, useAbiRegistryActions, useAbis } from "@/hooks/abi";
+import { toast } from "@/hooks/global/useToast";
+import { ABI_FILE_EXTENSIONS, type AbiFormat, type StoredAbi } from "@/lib/abi";
+import { shortenAddress } from "@/lib/config";
+import type { NetworkId } from "@/lib/networks";
+
+interface AbiRegistryManagerProps {
+  network: NetworkId;
+}
+
+const FORMAT_LABELS: Record<AbiFormat, string> = {
+  json: "JSON ABI",
+  foundry: "Foundry",
+  hardhat: "Hardhat",
+  solc: "solc output",
+};
+
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+const countFragments = (abi: StoredAbi, type: string) =>
+  abi.abi.filter((fragment) => fragment.type === type).length;
+
+/**
+ * Paste or import ABIs and attach them to addresses. Call trees, event
+ * tables, mempool rows, simulations and replays decode against them.
+ */
+export function AbiRegistryManager({ network }: AbiRegistryManagerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { data: abis = [] } = useAbis();
+  const { data: attachments = [] } = useAbiAttachments();
+  const actions = useAbiRegistryActions();
+  const [pasted, setPasted] = useState("");
+  const [pastedName, setPastedName] = useState("");
+  const [attachAddress, setAttachAddress] = useState("");
+  const [attachAbi, setAttachAbi] = useState("");
+
+  const networkAttachments = attachments.filter(
+    (attachment) => attachment.network === network,
+  );
+
+  const reportError = (title: string) => (error: Error) =>
+    toast.error(title, { description: error.message, duration: 6000 });
+
+  const handlePaste = () =>
+    actions.addAbi.mutate(
+      { text: pasted, name: pastedName },
+      {
+        onSuccess: (added) => {
+          toast.success(`Added ${added.map((abi) => abi.name).join(", ")}`, {
+            duration: 3000,
+          });
+          setPasted("");
+          setPastedName("");
+        },
+        onError: reportError("Could not add ABI"),
+      },
+    );
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    actions.addFiles.mutate(Array.from(files), {
+      onSuccess: ({ added, errors }) => {
+        if (added.length > 0) {
+          toast.success(
+            `Added ${added.length} ABI${added.length === 1 ? "" : "s"}`,
+            { duration: 3000 },
+          );
+        }
+        errors.forEach((message) =>
+          toast.error("Could not import ABI", {
+            description: message,
+            duration: 6000,
+          }),
+        );
+      },
+      onError: reportError("Could not import ABIs"),
+    });
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleAttach = () =>
+    actions.attachAddress.mutate(
+      { network, address: attachAddress.trim(), abiId: attachAbi },
+      { onSuccess: () => setAttachAddress("") },
+    );
+
+  const describeAbi = (id: string) =>
+    abis.find((abi) => abi.id === id)?.name ?? "removed";
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-[#8b9dc3]">
+        Registered ABIs decode function inputs and outputs, events and custom
+        errors everywhere in the app. An ABI attached to an address is used
+        first for that contract; the others are matched by selector. Changes
+        apply to analyses run afterwards.
+      </p>
+
+      <div className="space-y-2">
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder='Paste a JSON ABI or artifact, e.g. [{"type":"function","name":"swap",...}]'
+          className="w-full min-h-[96px] p-3 font-mono text-xs bg-[rgba(25,28,40,0.8)] border border-[rgba(0,191,255,0.2)] text-[#8b9dc3] rounded-lg resize-y focus:outline-none focus:ring-2 focus:ring-[#00bfff] focus:border-transparent"
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="Name (optional)"
+            value={pastedName}
+            onChange={(e) => setPastedName(e.target.value)}
+            className="w-56"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handlePaste}
+            disabled={!pasted.trim() || actions.addAbi.isPending}
+            className={outlineButtonClass}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add ABI
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={ABI_FILE_EXTENSIONS.join(",")}
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={actions.addFiles.isPending}
+            className={outlineButtonClass}
+          >
+            {actions.addFiles.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import artifacts
+          </Button>
+        </div>
+      </div>
+
+      {abis.length === 0 ? (
+        <p className="text-sm text-[#6b7280]">
+          No ABIs registered. Common token functions and events are decoded
+          without one.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {abis.map((abi) => (
+            <li
+              key={abi.id}
+              className="flex items-center justify-between gap-3 rounded border border-[rgba(0,191,255,0.1)] bg-[rgba(15,20,25,0.6)] px-3 py-2 text-sm"
+            >
+              <div className="flex min-w-0 items-center gap-2">
+                <Braces className="h-4 w-4 shrink-0 text-[#00bfff]" />
+                <span className="truncate text-[#8b9dc3]">{abi.name}</span>
+                <Badge variant="outline" className="text-[10px]">
+                  {FORMAT_LABELS[abi.format]}
+                </Badge>
+                <span className="shrink-0 text-xs text-[#6b7280]">
+                  {countFragments(abi, "function")} functions ·{" "}
+                  {countFragments(abi, "event")} events ·{" "}
+                  {countFragments(abi, "error")} errors
+                </span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => actions.removeAbi.mutate(abi.id)}
+                aria-label={`Remove ${abi.name}`}
+                className={outlineButtonClass}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {abis.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm text-[#8b9dc3]">
+            Attach an ABI to a contract address on this network
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              placeholder="0x... contract address"
+              value={attachAddress}
+              onChange={(e) => setAttachAddress(e.target.value)}
+              className="w-72 font-mono"
+            />
+            <Dropdown
+              value={attachAbi}
+              onValueChange={setAttachAbi}
+              options={abis.map((abi) => ({ value: abi.id, label: abi.name }))}
+              placeholder="ABI"
+              className="w-56"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAttach}
+              disabled={!isAddress(attachAddress.trim()) || !attachAbi}
+              className={outlineButtonClass}
+            >
+              <Link2 className="h-4 w-4 mr-2" />
+              Attach
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {networkAttachments.length > 0 && (
+        <ul className="space-y-1">
+          {networkAttachments.map((attachment) => (
+            <li
+              key={attachment.address}
+              className="flex items-center justify-between text-sm font-mono text-[#8b9dc3]"
+            >
+              <span>
+                {shortenAddress(attachment.address)} →{" "}
+                {describeAbi(attachment.abiId)}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  actions.detachAddress.mutate({
+                    network,
+                    address: attachment.address,
+                  })
+                }
+                aria-label="Remove attachment"
+                className={outlineButtonClass}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { ArrowUp, Crosshair } from "lucide-react";
+import { shortenAddress } from "@/lib/config";
+import type { RevertPathFrame } from "@/lib/abi";
+import { RevertSummary } from "./RevertSummary";
+
+interface RevertPathProps {
+  frames: RevertPathFrame[];
+  onSelectFrame?: (frame: RevertPathFrame) => void;
+}
+
+const describeFrame = (frame: RevertPathFrame) =>
+  `${frame.functionName ?? "call"} on ${shortenAddress(frame.to)}`;
+
+/**
+ * How a revert travelled from the call it started in up to the top-level
+ * transaction, deepest frame first.
+ */
+export function RevertPath({ frames, onSelectFrame }: RevertPathProps) {
+  if (frames.length === 0) return null;
+
+  return (
+    <ol className="space-y-2">
+      {frames.map((frame, index) => (
+        <li key={frame.traceAddress.join(".") || "root"}>
+          {index > 0 && (
+            <div className="mb-2 flex items-center gap-2 pl-1 text-xs text-[#6b7280]">
+              <ArrowUp className="h-3 w-3" />
+              {frame.bubbled
+                ? "Bubbled up unchanged"
+                : "Re-raised with different revert data"}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => onSelectFrame?.(frame)}
+            disabled={!onSelectFrame}
+            className={`w-full rounded border p-2 text-left ${
+              index === 0
+                ? "border-[#ef4444] bg-[rgba(239,68,68,0.1)]"
+                : "border-[rgba(239,68,68,0.3)] bg-[rgba(15,20,25,0.6)]"
+            } ${onSelectFrame ? "hover:bg-[rgba(239,68,68,0.15)]" : "cursor-default"}`}
+          >
+            <div className="mb-1 flex items-center gap-2 text-xs text-[#8b9dc3]">
+              {index === 0 && <Crosshair className="h-3 w-3 text-[#ef4444]" />}
+              <span className="font-medium">
+                {index === 0
+                  ? "Revert origin"
+                  : index === frames.length - 1
+                    ? "Top-level call"
+                    : `Depth ${frame.traceAddress.length}`}
+              </span>
+              <span className="font-mono">{describeFrame(frame)}</span>
+              {frame.traceAddress.length > 0 && (
+                <span className="font-mono text-[#6b7280]">
+                  [{frame.traceAddress.join(".")}]
+                </span>
+              )}
+            </div>
+            {!frame.bubbled && <RevertSummary revert={frame.revert} />}
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,50 @@
+import { Badge } from "@/components/global/Badge";
+import type { DecodedRevert, RevertKind } from "@/lib/abi";
+
+interface RevertSummaryProps {
+  revert: DecodedRevert;
+}
+
+const KIND_LABELS: Record<RevertKind, string> = {
+  error: "Error(string)",
+  panic: "Panic",
+  custom: "Custom error",
+  unknown: "Unknown error",
+  empty: "No revert data",
+};
+
+/**
+ * Decoded revert reason with its kind and, for custom errors, the
+ * arguments and where the signature came from.
+ */
+export function RevertSummary({ revert }: RevertSummaryProps) {
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge
+          variant="outline"
+          className="border-[#ef4444] text-[#ef4444] bg-[rgba(239,68,68,0.1)] text-xs"
+        >
+          {KIND_LABELS[revert.kind]}
+        </Badge>
+        <span className="text-red-300">{revert.message}</span>
+      </div>
+      {revert.kind === "custom" && (
+        <div className="space-y-0.5 pl-1 font-mono text-xs text-[#8b9dc3]">
+          <div>
+            {revert.signature}{" "}
+            <span className="text-[#6b7280]">
+              {revert.selector} · {revert.abiName}
+            </span>
+          </div>
+          {revert.args.map((arg) => (
+            <div key={arg.name}>
+              {arg.name} <span className="text-[#6b7280]">({arg.type})</span>:{" "}
+              {arg.value}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
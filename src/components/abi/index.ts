@@ -0,0 +1,3 @@
+export { AbiRegistryManager } from "./AbiRegistryManager";
+export { RevertPath } from "./RevertPath";
+export { RevertSummary } from "./RevertSummary";
@@ -2,6 +2,7 @@ import React from "react";
 import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/lib/auth";
 import { Loader } from "@/components/global";
+import { useNetworkRegistryScope } from "@/hooks/blockchain";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -14,9 +15,11 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   fallback,
   redirectTo = "/signin",
 }) => {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
   const location = useLocation();
 
+  useNetworkRegistryScope(user?.id);
+
   if (isLoading) {
     return (
       fallback || (
@@ -0,0 +1,309 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, Link2, Loader2, Shield, Target } from "lucide-react";
+import { Badge } from "@/components/global";
+import { Button } from "@/components/global/Button";
+import { useBlockMevAnalysis } from "@/hooks/blocktrace/useBlockMevAnalysis";
+import { shortenAddress } from "@/lib/config";
+import type { NetworkId } from "@/lib/networks";
+import type {
+  BlockMevPattern,
+  TransactionCorrelation,
+} from "@/lib/tracetransaction/advancedMevDetector";
+
+interface BlockMevAnalysisPanelProps {
+  blockIdentifier?: string | number;
+  network: NetworkId;
+  className?: string;
+}
+
+const PATTERN_LABELS: Record<BlockMevPattern["type"], string> = {
+  sandwich: "Sandwich",
+  arbitrage: "Arbitrage",
+  mev_bot: "Repeat bot",
+};
+
+const PATTERN_BADGES: Record<
+  BlockMevPattern["type"],
+  "destructive" | "warning" | "secondary"
+> = {
+  sandwich: "destructive",
+  arbitrage: "warning",
+  mev_bot: "secondary",
+};
+
+const CORRELATION_LABELS: Record<
+  TransactionCorrelation["correlationType"],
+  string
+> = {
+  shared_sender: "Same sender",
+  shared_contract: "Same contract",
+  funding: "Funding",
+};
+
+// Correlations rendered before "Show more"; busy blocks link hundreds.
+const CORRELATION_PAGE_SIZE = 50;
+
+const sectionClass =
+  "bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-4";
+
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+const transactionRole = (pattern: BlockMevPattern, index: number) => {
+  if (pattern.type !== "sandwich") return null;
+  if (index === 0) return "front-run";
+  if (index === pattern.transactions.length - 1) return "back-run";
+  return "victim";
+};
+
+const TransactionLink: React.FC<{ hash: string; network: NetworkId }> = ({
+  hash,
+  network,
+}) => (
+  <Link
+    to={`/trace-transaction/${hash}?network=${network}`}
+    className="font-mono text-[#00bfff] hover:underline"
+    title={hash}
+  >
+    {shortenAddress(hash)}
+  </Link>
+);
+
+const PatternCard: React.FC<{
+  pattern: BlockMevPattern;
+  network: NetworkId;
+}> = ({ pattern, network }) => (
+  <div className="rounded-lg border border-[rgba(0,191,255,0.1)] bg-[rgba(25,28,40,0.6)] p-3 space-y-2">
+    <div className="flex flex-wrap items-center gap-2">
+      <Badge variant={PATTERN_BADGES[pattern.type]}>
+        {PATTERN_LABELS[pattern.type]}
+      </Badge>
+      <span className="text-sm text-white">{pattern.description}</span>
+      <span className="ml-auto text-xs text-[#6b7280]">
+        {(pattern.confidence * 100).toFixed(0)}% confidence
+      </span>
+    </div>
+    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+      {pattern.transactions.map((hash, index) => (
+        <span key={hash} className="flex items-center gap-1">
+          <TransactionLink hash={hash} network={network} />
+          {transactionRole(pattern, index) && (
+            <span className="text-[#6b7280]">
+              {transactionRole(pattern, index)}
+            </span>
+          )}
+        </span>
+      ))}
+    </div>
+    {(pattern.profit || pattern.pools) && (
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-[#8b9dc3]">
+        {pattern.pools && (
+          <span>
+            Pools:{" "}
+            <span className="font-mono">
+              {pattern.pools.map((pool) => shortenAddress(pool)).join(", ")}
+            </span>
+          </span>
+        )}
+        {pattern.profit && (
+          <span>
+            Profit:{" "}
+            {pattern.extractedValue !== undefined ? (
+              `${pattern.extractedValue.toFixed(4)} ETH`
+            ) : (
+              <span className="font-mono">
+                {pattern.profit.amount} of{" "}
+                {shortenAddress(pattern.profit.token)}
+              </span>
+            )}
+          </span>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Block-level MEV: sandwiches and cyclic arbitrage read from Swap and
+ * Transfer logs, repeat bots, and transactions linked by sender, contract
+ * or funding.
+ */
+export const BlockMevAnalysisPanel: React.FC<BlockMevAnalysisPanelProps> = ({
+  blockIdentifier,
+  network,
+  className = "",
+}) => {
+  const {
+    data: analysis,
+    isLoading,
+    error,
+  } = useBlockMevAnalysis({ blockIdentifier, network });
+  const [correlationLimit, setCorrelationLimit] = useState(
+    CORRELATION_PAGE_SIZE
+  );
+
+  if (isLoading) {
+    return (
+      <div
+        className={`flex items-center justify-center gap-2 py-12 text-[#8b9dc3] ${className}`}
+      >
+        <Loader2 className="h-5 w-5 animate-spin text-[#00bfff]" />
+        Tracing block and reading receipts for MEV patterns...
+      </div>
+    );
+  }
+
+  if (error || !analysis) {
+    return (
+      <div
+        className={`bg-[rgba(220,38,38,0.1)] border border-[rgba(220,38,38,0.3)] rounded-lg p-4 ${className}`}
+      >
+        <div className="flex items-center gap-2 text-red-400">
+          <AlertTriangle className="h-4 w-4" />
+          <span>
+            {error instanceof Error
+              ? error.message
+              : "Block MEV analysis is unavailable"}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  const counts = analysis.blockPatterns.reduce(
+    (acc, pattern) => ({ ...acc, [pattern.type]: acc[pattern.type] + 1 }),
+    { sandwich: 0, arbitrage: 0, mev_bot: 0 }
+  );
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline">
+          {analysis.mevTransactions} of {analysis.totalTransactions}{" "}
+          transactions in MEV patterns
+        </Badge>
+        {(Object.keys(counts) as BlockMevPattern["type"][]).map((type) => (
+          <Badge
+            key={type}
+            variant={counts[type] > 0 ? PATTERN_BADGES[type] : "outline"}
+          >
+            {counts[type]} {PATTERN_LABELS[type].toLowerCase()}
+          </Badge>
+        ))}
+        {analysis.mevExtraction > 0 && (
+          <Badge variant="warning">
+            {analysis.mevExtraction.toFixed(4)} ETH extracted
+          </Badge>
+        )}
+      </div>
+
+      <div className={sectionClass}>
+        <div className="flex items-center gap-2 mb-3 text-[#00bfff]">
+          <Target className="h-4 w-4" />
+          <h4 className="text-sm font-semibold">Patterns</h4>
+        </div>
+        {analysis.blockPatterns.length > 0 ? (
+          <div className="space-y-2">
+            {analysis.blockPatterns.map((pattern, index) => (
+              <PatternCard key={index} pattern={pattern} network={network} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-[#8b9dc3]">
+            No sandwiches, cyclic arbitrage or repeat bots found in this block.
+          </p>
+        )}
+        <p className="mt-3 text-xs text-[#6b7280]">
+          Swaps are read from Uniswap V2 and V3, Curve and Balancer swap events.
+          Profit is shown in ETH when it is taken in WETH, otherwise in raw
+          token units.
+        </p>
+      </div>
+
+      <div className={sectionClass}>
+        <div className="flex items-center gap-2 mb-3 text-[#00bfff]">
+          <Link2 className="h-4 w-4" />
+          <h4 className="text-sm font-semibold">Correlated transactions</h4>
+        </div>
+        {analysis.correlations.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[#8b9dc3]">
+                  <th className="py-1 pr-4 font-medium">Link</th>
+                  <th className="py-1 pr-4 font-medium">Transactions</th>
+                  <th className="py-1 pr-4 font-medium">Detail</th>
+                  <th className="py-1 pr-4 font-medium">Confidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.correlations
+                  .slice(0, correlationLimit)
+                  .map((correlation, index) => (
+                    <tr
+                      key={index}
+                      className="border-t border-[rgba(0,191,255,0.1)]"
+                    >
+                      <td className="py-1 pr-4 text-[#8b9dc3]">
+                        {CORRELATION_LABELS[correlation.correlationType]}
+                      </td>
+                      <td className="py-1 pr-4">
+                        <TransactionLink
+                          hash={correlation.transaction1}
+                          network={network}
+                        />
+                        <span className="text-[#6b7280]"> → </span>
+                        <TransactionLink
+                          hash={correlation.transaction2}
+                          network={network}
+                        />
+                      </td>
+                      <td className="py-1 pr-4 text-[#8b9dc3]">
+                        {correlation.detail}
+                      </td>
+                      <td className="py-1 pr-4 text-[#6b7280]">
+                        {(correlation.confidence * 100).toFixed(0)}%
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+            {analysis.correlations.length > correlationLimit && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setCorrelationLimit(correlationLimit + CORRELATION_PAGE_SIZE)
+                }
+                className={`mt-3 ${outlineButtonClass}`}
+              >
+                Show more ({analysis.correlations.length - correlationLimit}{" "}
+                left)
+              </Button>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-[#8b9dc3]">
+            No transactions in this block share a sender, a private contract or
+            a funding path.
+          </p>
+        )}
+      </div>
+
+      {analysis.recommendations.length > 0 && (
+        <div className={sectionClass}>
+          <div className="flex items-center gap-2 mb-3 text-[#00bfff]">
+            <Shield className="h-4 w-4" />
+            <h4 className="text-sm font-semibold">Recommendations</h4>
+          </div>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-[#8b9dc3]">
+            {analysis.recommendations.map((recommendation) => (
+              <li key={recommendation}>{recommendation}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
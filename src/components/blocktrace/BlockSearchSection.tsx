@@ -13,9 +13,9 @@ import {
   Settings,
   Zap,
 } from "lucide-react";
-import { Badge, Button, Input } from "@/components/global";
-import { RPC_CONFIG } from "@/lib/config";
+import { Badge, Button, Input, NetworkSelector } from "@/components/global";
 import { useCurrentBlock } from "@/hooks/blockchain/useBlockchainQueries.ts";
+import type { NetworkId } from "@/lib/networks";
 
 interface BlockSearchSectionProps {
   inputBlockId: string;
@@ -24,8 +24,8 @@ interface BlockSearchSectionProps {
   setValidationError: (error: string | null) => void;
   loading: boolean;
   onSearch: () => void;
-  selectedNetwork: "mainnet" | "sepolia";
-  setSelectedNetwork: (network: "mainnet" | "sepolia") => void;
+  selectedNetwork: NetworkId;
+  setSelectedNetwork: (network: NetworkId) => void;
   rpcUrl: string;
   setRpcUrl: (url: string) => void;
   showAdvancedSettings: boolean;
@@ -299,40 +299,14 @@ export const BlockSearchSection: React.FC<BlockSearchSectionProps> = ({
               <Network className="h-4 w-4" />
               Network
             </label>
-            <div className="flex gap-2">
-              <Button
-                variant={selectedNetwork === "mainnet" ? "default" : "outline"}
-                size="sm"
-                onClick={() => {
-                  setSelectedNetwork("mainnet");
-                  setRpcUrl(RPC_CONFIG.mainnet.rpcUrl);
-                }}
-                className={
-                  selectedNetwork === "mainnet"
-                    ? "bg-[#00bfff] text-[#0f1419] hover:bg-[#0099cc]"
-                    : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                }
-              >
-                <div className="w-2 h-2 rounded-full bg-[#10b981] mr-2" />
-                Mainnet
-              </Button>
-              <Button
-                variant={selectedNetwork === "sepolia" ? "default" : "outline"}
-                size="sm"
-                onClick={() => {
-                  setSelectedNetwork("sepolia");
-                  setRpcUrl(RPC_CONFIG.sepolia.rpcUrl);
-                }}
-                className={
-                  selectedNetwork === "sepolia"
-                    ? "bg-[#00bfff] text-[#0f1419] hover:bg-[#0099cc]"
-                    : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                }
-              >
-                <div className="w-2 h-2 rounded-full bg-[#f59e0b] mr-2" />
-                Sepolia
-              </Button>
-            </div>
+            <NetworkSelector
+              value={selectedNetwork}
+              onChange={(network) => {
+                setSelectedNetwork(network.id);
+                setRpcUrl(network.rpcUrl);
+              }}
+              activeClassName="bg-[#00bfff] text-[#0f1419] hover:bg-[#0099cc]"
+            />
           </div>
 
           <div className="space-y-3">
@@ -0,0 +1,33 @@
+import React from "react";
+import { DexSwapsPanel } from "@/components/tracetransaction/DexSwapsPanel";
+import { useBlockSwaps } from "@/hooks/blocktrace/useBlockSwaps";
+import type { NetworkId } from "@/lib/networks";
+
+interface BlockSwapsPanelProps {
+  blockIdentifier?: string | number;
+  network: NetworkId;
+  className?: string;
+}
+
+/** Every DEX swap in a block, priced at the parent block. */
+export const BlockSwapsPanel: React.FC<BlockSwapsPanelProps> = ({
+  blockIdentifier,
+  network,
+  className,
+}) => {
+  const { data, isLoading, error } = useBlockSwaps({
+    blockIdentifier,
+    network,
+  });
+
+  return (
+    <DexSwapsPanel
+      swaps={data}
+      isLoading={isLoading}
+      error={error}
+      network={network}
+      showTransactions
+      className={className}
+    />
+  );
+};
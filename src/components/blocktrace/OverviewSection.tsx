@@ -15,6 +15,7 @@ import {
 } from "lucide-react";
 import { Badge, Button } from "@/components/global";
 import { formatGas, shortenAddress } from "@/lib/config";
+import { getNetworkName, type NetworkId } from "@/lib/networks";
 
 interface OverviewSectionProps {
   blockData: {
@@ -34,7 +35,7 @@ interface OverviewSectionProps {
     size?: number;
     miner?: string;
   };
-  selectedNetwork: "mainnet" | "sepolia";
+  selectedNetwork: NetworkId;
   analysisMetrics?: {
     executionTime: number;
     cacheHitRate: number;
@@ -158,7 +159,7 @@ export const OverviewSection: React.FC<OverviewSectionProps> = ({
               </h3>
             </div>
             <Badge className={`text-xs ${getNetworkColor(selectedNetwork)}`}>
-              {selectedNetwork === "mainnet" ? "Mainnet" : "Sepolia Testnet"}
+              {getNetworkName(selectedNetwork)}
             </Badge>
           </div>
           <div className="space-y-4">
@@ -14,8 +14,11 @@ import {
   XCircle,
 } from "lucide-react";
 import { Badge, Button, Input } from "@/components/global";
+import { TraceQueryInput } from "@/components/tracetransaction/TraceQueryInput";
+import { useTraceQueryParam } from "@/hooks/tracetransaction";
 import { formatGas, shortenAddress } from "@/lib/config";
 import { cn } from "@/lib/utils";
+import type { TraceQueryRecord } from "@/lib/tracetransaction/types";
 import { ExportButton } from "./ExportButton";
 
 interface Transaction {
@@ -31,6 +34,8 @@ interface Transaction {
   blockNumber?: number;
   transactionIndex?: number;
   category?: string;
+  // 4-byte selector of the calldata, for filter expressions.
+  selector?: string;
 }
 
 interface VirtualizedTransactionTableProps {
@@ -44,6 +49,21 @@ interface VirtualizedTransactionTableProps {
 type SortField = "gasUsed" | "value" | "status" | "type" | "index";
 type SortDirection = "asc" | "desc";
 
+const toQueryRecord = (
+  transaction: Transaction,
+  position: number
+): TraceQueryRecord => ({
+  type: transaction.to?.startsWith("0x") ? "CALL" : "CREATE",
+  from: transaction.from,
+  to: transaction.to?.startsWith("0x") ? transaction.to : "",
+  selector: transaction.selector ?? "",
+  value: parseFloat(transaction.value) || 0,
+  gas: transaction.gasUsed,
+  depth: 0,
+  index: transaction.transactionIndex ?? position,
+  error: transaction.status === "failed" ? "failed" : undefined,
+});
+
 interface TransactionRowProps {
   transaction: Transaction;
   index: number;
@@ -284,6 +304,17 @@ export function VirtualizedTransactionTable({
   const [sortField, setSortField] = useState<SortField>("index");
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
   const [showDetails, setShowDetails] = useState<string | null>(null);
+  const {
+    query,
+    setQuery,
+    predicate: matchesQuery,
+    error: queryError,
+  } = useTraceQueryParam();
+
+  const queryRecords = useMemo(
+    () => transactions.map(toQueryRecord),
+    [transactions]
+  );
 
   const handleSort = useCallback(
     (field: SortField) => {
@@ -308,7 +339,8 @@ export function VirtualizedTransactionTable({
   };
 
   const { filteredAndSortedTransactions, highGasTransactions } = useMemo(() => {
-    const filtered = transactions.filter((tx) => {
+    const filtered = transactions.filter((tx, position) => {
+      if (!matchesQuery(queryRecords[position])) return false;
       if (transactionFilter === "success" && tx.status !== "success")
         return false;
       if (transactionFilter === "failed" && tx.status !== "failed")
@@ -378,7 +410,15 @@ export function VirtualizedTransactionTable({
     );
 
     return { filteredAndSortedTransactions: filtered, highGasTransactions };
-  }, [transactions, transactionFilter, searchTerm, sortField, sortDirection]);
+  }, [
+    transactions,
+    transactionFilter,
+    searchTerm,
+    sortField,
+    sortDirection,
+    matchesQuery,
+    queryRecords,
+  ]);
 
   const virtualizer = useVirtualizer({
     count: filteredAndSortedTransactions?.length || 0,
@@ -505,6 +545,13 @@ export function VirtualizedTransactionTable({
             </div>
           </div>
         </div>
+        <TraceQueryInput
+          value={query}
+          onChange={setQuery}
+          records={queryRecords}
+          error={queryError}
+          className="mt-4"
+        />
       </div>
 
       {/* Virtualized Table */}
@@ -2,3 +2,5 @@ export * from "./ProgressiveLoader";
 export * from "./VirtualizedTransactionTable";
 export * from "./BookmarkManager";
 export * from "./ExportButton";
+export * from "./BlockMevAnalysisPanel";
+export * from "./BlockSwapsPanel";
@@ -0,0 +1,99 @@
+import { Code2, Cpu, Trash2 } from "lucide-react";
+import { Badge } from "@/components/global/Badge";
+import {
+  TRACER_PRESETS,
+  type SavedTracer,
+  type TracerPreset,
+} from "@/lib/customtracers";
+
+interface TracerLibraryProps {
+  tracers: SavedTracer[];
+  selectedId: string | null;
+  onSelectPreset: (preset: TracerPreset) => void;
+  onSelectTracer: (tracer: SavedTracer) => void;
+  onRemoveTracer: (tracer: SavedTracer) => void;
+}
+
+const itemClass = (selected: boolean) =>
+  `w-full rounded border p-2 text-left transition-colors ${
+    selected
+      ? "border-[#00bfff] bg-[rgba(0,191,255,0.1)]"
+      : "border-[rgba(0,191,255,0.15)] hover:bg-[rgba(0,191,255,0.05)]"
+  }`;
+
+/**
+ * Built-in tracer presets and the tracers saved in this browser.
+ */
+export function TracerLibrary({
+  tracers,
+  selectedId,
+  onSelectPreset,
+  onSelectTracer,
+  onRemoveTracer,
+}: TracerLibraryProps) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-[#8b9dc3]">
+          Built-in presets
+        </h4>
+        {TRACER_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            type="button"
+            onClick={() => onSelectPreset(preset)}
+            className={itemClass(selectedId === preset.id)}
+          >
+            <div className="flex items-center gap-2 text-sm text-[#00bfff]">
+              <Cpu className="h-3 w-3" />
+              <span className="font-mono">{preset.name}</span>
+            </div>
+            <p className="mt-1 text-xs text-[#6b7280]">{preset.description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-[#8b9dc3]">
+          Saved tracers
+        </h4>
+        {tracers.length === 0 ? (
+          <p className="text-xs text-[#6b7280]">
+            Tracers you save appear here.
+          </p>
+        ) : (
+          tracers.map((tracer) => (
+            <div key={tracer.id} className="flex items-start gap-1">
+              <button
+                type="button"
+                onClick={() => onSelectTracer(tracer)}
+                className={itemClass(selectedId === tracer.id)}
+              >
+                <div className="flex items-center gap-2 text-sm text-[#00bfff]">
+                  <Code2 className="h-3 w-3" />
+                  <span className="truncate">{tracer.name}</span>
+                  {tracer.tracerConfig && (
+                    <Badge variant="outline" className="text-[10px]">
+                      config
+                    </Badge>
+                  )}
+                </div>
+                <p className="mt-1 text-xs text-[#6b7280]">
+                  Saved {new Date(tracer.updatedAt).toLocaleString()}
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemoveTracer(tracer)}
+                className="p-2 text-[#6b7280] hover:text-[#ef4444]"
+                aria-label={`Delete ${tracer.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Badge } from "@/components/global/Badge";
+import { Button } from "@/components/global/Button";
+import {
+  MAX_TABLE_ROWS,
+  toChartEntries,
+  toResultTable,
+  type TracerResultView,
+  type TracerRunResult,
+} from "@/lib/customtracers";
+
+interface TracerResultPanelProps {
+  run: TracerRunResult;
+}
+
+const VIEW_LABELS: Record<TracerResultView, string> = {
+  json: "JSON",
+  table: "Table",
+  chart: "Chart",
+};
+
+/**
+ * A tracer result as formatted JSON, as a table, or as a bar chart when
+ * the result maps names to counts.
+ */
+export function TracerResultPanel({ run }: TracerResultPanelProps) {
+  const [view, setView] = useState<TracerResultView>("json");
+  const json = useMemo(() => JSON.stringify(run.result, null, 2), [run]);
+  const table = useMemo(() => toResultTable(run.result), [run]);
+  const chart = useMemo(() => toChartEntries(run.result), [run]);
+  const activeView = view === "chart" && !chart ? "json" : view;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-[#8b9dc3]">
+          <Badge variant="outline" className="font-mono">
+            {run.method}
+          </Badge>
+          <span>{run.durationMs.toLocaleString()} ms</span>
+          <span>{new Date(run.ranAt).toLocaleTimeString()}</span>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(VIEW_LABELS) as TracerResultView[]).map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={activeView === option ? "default" : "outline"}
+              disabled={option === "chart" && !chart}
+              onClick={() => setView(option)}
+              className={
+                activeView === option
+                  ? "bg-[#00bfff] text-[#0f1419]"
+                  : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+              }
+            >
+              {VIEW_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {activeView === "json" && (
+        <pre className="max-h-[600px] overflow-auto rounded-lg bg-[rgba(15,20,25,0.8)] p-3 font-mono text-xs text-[#8b9dc3]">
+          {json}
+        </pre>
+      )}
+
+      {activeView === "table" && (
+        <div className="max-h-[600px] overflow-auto rounded-lg border border-[rgba(0,191,255,0.2)]">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-[rgba(15,20,25,0.95)]">
+              <tr className="text-left text-[#8b9dc3]">
+                {table.columns.map((column) => (
+                  <th key={column} className="px-3 py-2 font-medium">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {table.rows.map((row, index) => (
+                <tr
+                  key={index}
+                  className="border-t border-[rgba(0,191,255,0.1)] align-top"
+                >
+                  {table.columns.map((column) => (
+                    <td
+                      key={column}
+                      className="max-w-[480px] break-all px-3 py-1 text-white"
+                    >
+                      {row[column]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {table.rows.length === MAX_TABLE_ROWS && (
+            <p className="p-2 text-xs text-[#6b7280]">
+              Showing the first {MAX_TABLE_ROWS} rows.
+            </p>
+          )}
+        </div>
+      )}
+
+      {activeView === "chart" && chart && (
+        <div style={{ height: Math.max(200, chart.length * 24 + 40) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={chart}
+              layout="vertical"
+              margin={{ top: 10, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="rgba(139,157,195,0.1)"
+              />
+              <XAxis type="number" stroke="#8b9dc3" fontSize={12} />
+              <YAxis
+                type="category"
+                dataKey="label"
+                stroke="#8b9dc3"
+                fontSize={11}
+                width={140}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "rgba(25,28,40,0.95)",
+                  border: "1px solid rgba(0,191,255,0.3)",
+                  color: "#8b9dc3",
+                }}
+              />
+              <Bar dataKey="value" fill="#00bfff" radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import { useState, type KeyboardEvent, type ReactNode } from "react";
+import { FilePlus, Loader2, Play, Save } from "lucide-react";
+import { Alert } from "@/components/global/Alert";
+import { Button } from "@/components/global/Button";
+import { Dropdown } from "@/components/global/Dropdown";
+import { Input } from "@/components/global/Input";
+import {
+  useCustomTracerActions,
+  useRunTracer,
+  useSavedTracers,
+} from "@/hooks/customtracers";
+import { toast } from "@/hooks/global/useToast";
+import {
+  customTracerService,
+  DEFAULT_TRACER_CODE,
+  type SavedTracer,
+  type TracerPreset,
+  type TracerTarget,
+} from "@/lib/customtracers";
+import type { NetworkId } from "@/lib/networks";
+import { TracerLibrary } from "./TracerLibrary";
+import { TracerResultPanel } from "./TracerResultPanel";
+
+interface TracerWorkbenchProps {
+  network: NetworkId;
+}
+
+const TARGET_OPTIONS: { value: TracerTarget; label: string }[] = [
+  { value: "transaction", label: "Transaction (debug_traceTransaction)" },
+  { value: "call", label: "Call (debug_traceCall)" },
+  { value: "block", label: "Block (debug_traceBlockByNumber)" },
+];
+
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+const textareaClass =
+  "w-full p-3 font-mono text-xs bg-[rgba(25,28,40,0.8)] border border-[rgba(0,191,255,0.2)] text-[#8b9dc3] rounded-lg resize-y focus:outline-none focus:ring-2 focus:ring-[#00bfff] focus:border-transparent";
+
+const sectionClass =
+  "bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-4";
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className={sectionClass}>
+      <h4 className="text-sm font-semibold text-[#00bfff] mb-3">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Editor for Geth JavaScript tracers with a saved library, built-in
+ * presets, and runs against a transaction, a call or a block.
+ */
+export function TracerWorkbench({ network }: TracerWorkbenchProps) {
+  const { data: tracers = [] } = useSavedTracers();
+  const actions = useCustomTracerActions();
+  const runTracer = useRunTracer(network);
+
+  const [preset, setPreset] = useState<TracerPreset | null>(null);
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [code, setCode] = useState(DEFAULT_TRACER_CODE);
+  const [config, setConfig] = useState("");
+
+  const [target, setTarget] = useState<TracerTarget>("transaction");
+  const [txHash, setTxHash] = useState("");
+  const [block, setBlock] = useState("");
+  const [callTo, setCallTo] = useState("");
+  const [callFrom, setCallFrom] = useState("");
+  const [callData, setCallData] = useState("");
+
+  const missingMethods = preset
+    ? []
+    : customTracerService.getMissingMethods(code);
+
+  const selectPreset = (selected: TracerPreset) => {
+    setPreset(selected);
+    setSavedId(null);
+    setConfig(
+      selected.tracerConfig
+        ? JSON.stringify(selected.tracerConfig, null, 2)
+        : "",
+    );
+  };
+
+  const selectTracer = (tracer: SavedTracer) => {
+    setPreset(null);
+    setSavedId(tracer.id);
+    setName(tracer.name);
+    setCode(tracer.code);
+    setConfig(tracer.tracerConfig);
+  };
+
+  const startNew = () => {
+    setPreset(null);
+    setSavedId(null);
+    setName("");
+    setCode(DEFAULT_TRACER_CODE);
+    setConfig("");
+  };
+
+  const handleSave = () =>
+    actions.save.mutate(
+      { id: savedId ?? undefined, name, code, tracerConfig: config },
+      {
+        onSuccess: (saved) => {
+          setSavedId(saved.id);
+          toast.success(`Saved ${saved.name}`, { duration: 3000 });
+        },
+        onError: (error) =>
+          toast.error("Could not save the tracer", {
+            description: error.message,
+            duration: 6000,
+          }),
+      },
+    );
+
+  const handleRemove = (tracer: SavedTracer) =>
+    actions.remove.mutate(tracer.id, {
+      onSuccess: () => {
+        if (tracer.id === savedId) setSavedId(null);
+        toast.success(`Deleted ${tracer.name}`, { duration: 3000 });
+      },
+    });
+
+  const handleRun = () => {
+    let tracerConfig: Record<string, unknown> | undefined;
+    try {
+      tracerConfig = customTracerService.parseConfig(config);
+    } catch (error) {
+      toast.error("Invalid tracer config", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    runTracer.mutate({
+      target,
+      tracer: preset ? preset.tracer : code,
+      tracerConfig,
+      txHash,
+      block,
+      call: {
+        to: callTo.trim(),
+        from: callFrom.trim() || undefined,
+        data: callData.trim() || undefined,
+      },
+    });
+  };
+
+  // Tab indents instead of leaving the editor; Ctrl/Cmd+Enter runs.
+  const handleEditorKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      handleRun();
+    } else if (event.key === "Tab") {
+      event.preventDefault();
+      const editor = event.currentTarget;
+      const { selectionStart, selectionEnd } = editor;
+      setCode(`${code.slice(0, selectionStart)}  ${code.slice(selectionEnd)}`);
+      requestAnimationFrame(() =>
+        editor.setSelectionRange(selectionStart + 2, selectionStart + 2),
+      );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 lg:grid-cols-4">
+      <div className="space-y-4">
+        <Section title="Library">
+          <TracerLibrary
+            tracers={tracers}
+            selectedId={preset?.id ?? savedId}
+            onSelectPreset={selectPreset}
+            onSelectTracer={selectTracer}
+            onRemoveTracer={handleRemove}
+          />
+        </Section>
+      </div>
+
+      <div className="space-y-4 lg:col-span-3">
+        <Section title={preset ? `Preset: ${preset.name}` : "Tracer"}>
+          <div className="space-y-3">
+            {preset ? (
+              <p className="text-sm text-[#8b9dc3]">
+                {preset.description}. The node runs its built-in{" "}
+                <span className="font-mono text-[#00bfff]">
+                  {preset.tracer}
+                </span>
+                ; only the config below is sent with it.
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    placeholder="Tracer name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="max-w-xs"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSave}
+                    disabled={actions.save.isPending}
+                    className={outlineButtonClass}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {savedId ? "Save" : "Save to library"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={startNew}
+                    className={outlineButtonClass}
+                  >
+                    <FilePlus className="h-4 w-4 mr-2" />
+                    New
+                  </Button>
+                </div>
+                <textarea
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  onKeyDown={handleEditorKeyDown}
+                  spellCheck={false}
+                  className={`${textareaClass} min-h-[360px]`}
+                />
+                {missingMethods.length > 0 && (
+                  <p className="text-xs text-[#f59e0b]">
+                    Geth requires {missingMethods.join(" and ")} on the tracer
+                    object.
+                  </p>
+                )}
+                <p className="text-xs text-[#6b7280]">
+                  An object literal with <code>step(log, db)</code>,{" "}
+                  <code>fault(log, db)</code>, <code>result(ctx, db)</code> and
+                  optionally <code>enter(frame)</code> and{" "}
+                  <code>exit(result)</code>. Ctrl+Enter runs it.
+                </p>
+              </>
+            )}
+            <div className="space-y-1">
+              <label className="text-sm text-[#8b9dc3] font-medium">
+                Tracer config (JSON, optional)
+              </label>
+              <textarea
+                value={config}
+                onChange={(e) => setConfig(e.target.value)}
+                placeholder='{"onlyTopCall": true}'
+                spellCheck={false}
+                className={`${textareaClass} min-h-[64px]`}
+              />
+            </div>
+          </div>
+        </Section>
+
+        <Section title="Run">
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+              <Dropdown
+                title="Target"
+                value={target}
+                onValueChange={(value) => setTarget(value as TracerTarget)}
+                options={TARGET_OPTIONS}
+              />
+              {target === "transaction" && (
+                <div className="space-y-2 md:col-span-2">
+                  <label className="text-sm text-[#8b9dc3] font-medium">
+                    Transaction hash
+                  </label>
+                  <Input
+                    placeholder="0x..."
+                    value={txHash}
+                    onChange={(e) => setTxHash(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+              )}
+              {target !== "transaction" && (
+                <div className="space-y-2">
+                  <label className="text-sm text-[#8b9dc3] font-medium">
+                    Block
+                  </label>
+                  <Input
+                    placeholder={target === "call" ? "latest" : "18500000"}
+                    value={block}
+                    onChange={(e) => setBlock(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+              )}
+            </div>
+            {target === "call" && (
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                <Input
+                  placeholder="To address"
+                  value={callTo}
+                  onChange={(e) => setCallTo(e.target.value)}
+                  className="font-mono"
+                />
+                <Input
+                  placeholder="From address (optional)"
+                  value={callFrom}
+                  onChange={(e) => setCallFrom(e.target.value)}
+                  className="font-mono"
+                />
+                <Input
+                  placeholder="Calldata (optional)"
+                  value={callData}
+                  onChange={(e) => setCallData(e.target.value)}
+                  className="font-mono"
+                />
+              </div>
+            )}
+            <Button
+              onClick={handleRun}
+              disabled={runTracer.isPending}
+              className="bg-[#00bfff] text-[#0f1419] hover:bg-[#00bfff]/90"
+            >
+              {runTracer.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              Run tracer
+            </Button>
+          </div>
+        </Section>
+
+        {runTracer.error ? (
+          <Alert variant="destructive">
+            <div>
+              <div className="font-medium">The tracer failed</div>
+              <div className="text-sm mt-1 whitespace-pre-wrap font-mono">
+                {runTracer.error.message}
+              </div>
+            </div>
+          </Alert>
+        ) : (
+          runTracer.data && (
+            <Section title="Result">
+              <TracerResultPanel run={runTracer.data} />
+            </Section>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
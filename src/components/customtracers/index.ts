@@ -0,0 +1,3 @@
+export { TracerWorkbench } from "./TracerWorkbench";
+export { TracerLibrary } from "./TracerLibrary";
+export { TracerResultPanel } from "./TracerResultPanel";
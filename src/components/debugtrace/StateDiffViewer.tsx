@@ -0,0 +1,238 @@
+import { useMemo } from "react";
+import { Loader2 } from "lucide-react";
+import { Alert } from "@/components/global/Alert";
+import { Badge } from "@/components/global/Badge";
+import { useTransactionStateDiff } from "@/hooks/debugtrace";
+import { formatEther, shortenAddress } from "@/lib/config";
+import type { NetworkId } from "@/lib/networks";
+import type {
+  BalanceChange,
+  CodeChange,
+  NonceChange,
+  StateDiffAnalysis,
+  StorageChange,
+} from "@/lib/replaytransactions/types";
+
+interface StateDiffViewerProps {
+  txHash: string;
+  network: NetworkId;
+}
+
+interface AccountDiff {
+  address: string;
+  contractName?: string;
+  balance?: BalanceChange;
+  nonce?: NonceChange;
+  code?: CodeChange;
+  storage: StorageChange[];
+}
+
+const groupByAccount = (analysis: StateDiffAnalysis): AccountDiff[] => {
+  const accounts = new Map<string, AccountDiff>();
+  const get = (address: string) => {
+    const key = address.toLowerCase();
+    const account = accounts.get(key) ?? { address, storage: [] };
+    accounts.set(key, account);
+    return account;
+  };
+
+  analysis.balanceChanges.forEach((change) => {
+    const account = get(change.address);
+    account.balance = change;
+    account.contractName = change.contractName;
+  });
+  analysis.nonceChanges.forEach((change) => {
+    get(change.address).nonce = change;
+  });
+  analysis.codeChanges.forEach((change) => {
+    get(change.address).code = change;
+  });
+  analysis.storageChanges.forEach((change) => {
+    const account = get(change.address);
+    account.storage.push(change);
+    account.contractName = change.contractName;
+  });
+
+  return Array.from(accounts.values());
+};
+
+const isKnownName = (name?: string) => !!name && !name.startsWith("Contract ");
+
+function ChangeRow({
+  label,
+  from,
+  to,
+  delta,
+}: {
+  label: string;
+  from: string;
+  to: string;
+  delta?: { text: string; positive: boolean };
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="w-16 text-[#8b9dc3]">{label}</span>
+      <span className="font-mono text-[#6b7280]">{from}</span>
+      <span className="text-[#6b7280]">→</span>
+      <span className="font-mono text-white">{to}</span>
+      {delta && (
+        <span
+          className={`font-mono text-xs ${delta.positive ? "text-[#10b981]" : "text-[#ef4444]"}`}
+        >
+          {delta.text}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Per-account balance, nonce, code and storage changes of a transaction.
+ */
+export function StateDiffViewer({ txHash, network }: StateDiffViewerProps) {
+  const {
+    data: analysis,
+    isLoading,
+    error,
+  } = useTransactionStateDiff(txHash, network);
+  const accounts = useMemo(
+    () => (analysis ? groupByAccount(analysis) : []),
+    [analysis],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-[#8b9dc3]">
+        <Loader2 className="h-5 w-5 animate-spin text-[#00bfff]" />
+        Loading state diff...
+      </div>
+    );
+  }
+
+  if (error || !analysis) {
+    return (
+      <Alert variant="destructive">
+        <div>
+          <div className="font-medium">Could not load the state diff</div>
+          <div className="text-sm mt-1">
+            {error instanceof Error
+              ? error.message
+              : "The node returned no state diff."}
+          </div>
+        </div>
+      </Alert>
+    );
+  }
+
+  if (accounts.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-[#8b9dc3]">
+        This transaction did not change any account state.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline">{accounts.length} accounts</Badge>
+        <Badge variant="outline">
+          {analysis.balanceChanges.length} balance changes
+        </Badge>
+        <Badge variant="outline">
+          {analysis.storageChanges.length} storage slots
+        </Badge>
+        {analysis.codeChanges.length > 0 && (
+          <Badge variant="warning">
+            {analysis.codeChanges.length} code changes
+          </Badge>
+        )}
+      </div>
+
+      {accounts.map((account) => (
+        <div
+          key={account.address}
+          className="bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-4 space-y-2"
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <span
+              className="font-mono text-sm text-[#00bfff]"
+              title={account.address}
+            >
+              {account.address}
+            </span>
+            {isKnownName(account.contractName) && (
+              <Badge variant="outline" className="text-xs">
+                {account.contractName}
+              </Badge>
+            )}
+            {account.code && (
+              <Badge variant="warning" className="text-xs">
+                Code {account.code.changeType}
+              </Badge>
+            )}
+          </div>
+
+          {account.balance && (
+            <ChangeRow
+              label="Balance"
+              from={`${formatEther(account.balance.fromBalance)} ETH`}
+              to={`${formatEther(account.balance.toBalance)} ETH`}
+              delta={{
+                text: `${account.balance.change > 0n ? "+" : ""}${formatEther(account.balance.change)}`,
+                positive: account.balance.change > 0n,
+              }}
+            />
+          )}
+          {account.nonce && (
+            <ChangeRow
+              label="Nonce"
+              from={String(account.nonce.fromNonce)}
+              to={String(account.nonce.toNonce)}
+            />
+          )}
+
+          {account.storage.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-[#8b9dc3]">
+                    <th className="py-1 pr-4 font-medium">Slot</th>
+                    <th className="py-1 pr-4 font-medium">Before</th>
+                    <th className="py-1 pr-4 font-medium">After</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {account.storage.map((change) => (
+                    <tr
+                      key={change.slot}
+                      className="border-t border-[rgba(0,191,255,0.1)] align-top"
+                    >
+                      <td className="py-1 pr-4 text-[#00bfff]">
+                        <span title={change.slot}>
+                          {shortenAddress(change.slot)}
+                        </span>
+                        {change.interpretation &&
+                          change.interpretation.type !== "unknown" && (
+                            <div className="font-sans text-[#6b7280]">
+                              {change.interpretation.description}
+                            </div>
+                          )}
+                      </td>
+                      <td className="py-1 pr-4 break-all text-[#6b7280]">
+                        {change.fromValue}
+                      </td>
+                      <td className="py-1 pr-4 break-all text-white">
+                        {change.toValue}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
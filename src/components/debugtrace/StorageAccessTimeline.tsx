@@ -0,0 +1,367 @@
+import { useMemo, useState } from "react";
+import { Loader2, Search } from "lucide-react";
+import { Alert } from "@/components/global/Alert";
+import { Badge } from "@/components/global/Badge";
+import { Button } from "@/components/global/Button";
+import { Dropdown } from "@/components/global/Dropdown";
+import { Input } from "@/components/global/Input";
+import { useDebugSession, useStorageTimeline } from "@/hooks/debugtrace";
+import { formatGas, shortenAddress } from "@/lib/config";
+import {
+  type DebugCallFrame,
+  type StorageAccess,
+  type StorageSlotSummary,
+} from "@/lib/debugtrace";
+import type { NetworkId } from "@/lib/networks";
+
+interface StorageAccessTimelineProps {
+  txHash: string;
+  network: NetworkId;
+}
+
+type KindFilter = "all" | "SLOAD" | "SSTORE";
+
+const KIND_OPTIONS: { value: KindFilter; label: string }[] = [
+  { value: "all", label: "Reads and writes" },
+  { value: "SLOAD", label: "SLOAD only" },
+  { value: "SSTORE", label: "SSTORE only" },
+];
+
+// Timeline rows rendered per page; long transactions touch storage
+// thousands of times.
+const PAGE_SIZE = 500;
+
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+const sectionClass =
+  "bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-4";
+
+// Words are shown without their leading zeros.
+const shortWord = (word: string | null) => {
+  if (word === null) return "?";
+  const trimmed = word.replace(/^0x0*/, "");
+  return `0x${trimmed || "0"}`;
+};
+
+const matchesQuery = (
+  item: { contract: string | null; slot: string; label?: string },
+  query: string,
+) =>
+  !query ||
+  item.slot.includes(query) ||
+  !!item.contract?.toLowerCase().includes(query) ||
+  !!item.label?.toLowerCase().includes(query);
+
+function SlotName({ slot, label }: { slot: string; label?: string }) {
+  return (
+    <>
+      <span title={slot}>{shortWord(slot)}</span>
+      {label && <div className="font-sans text-[#6b7280]">{label}</div>}
+    </>
+  );
+}
+
+function FrameCell({ frame }: { frame: DebugCallFrame }) {
+  const delegated =
+    frame.codeAddress &&
+    frame.storageAddress &&
+    frame.codeAddress.toLowerCase() !== frame.storageAddress.toLowerCase();
+  return (
+    <span title={frame.codeAddress ?? undefined}>
+      #{frame.id} {frame.kind}
+      {delegated && (
+        <div className="font-sans text-[#6b7280]">
+          code {shortenAddress(frame.codeAddress!)}
+        </div>
+      )}
+    </span>
+  );
+}
+
+function ValueCell({ access }: { access: StorageAccess }) {
+  if (access.kind === "SLOAD") {
+    return <span className="text-white">{shortWord(access.value)}</span>;
+  }
+  return (
+    <span>
+      <span className="text-[#6b7280]">{shortWord(access.previousValue)}</span>
+      <span className="text-[#6b7280]"> → </span>
+      <span className="text-white">{shortWord(access.value)}</span>
+    </span>
+  );
+}
+
+function SlotSummaryTable({ slots }: { slots: StorageSlotSummary[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-[#8b9dc3]">
+            <th className="py-1 pr-4 font-medium">Contract</th>
+            <th className="py-1 pr-4 font-medium">Slot</th>
+            <th className="py-1 pr-4 font-medium">Original</th>
+            <th className="py-1 pr-4 font-medium">Final</th>
+            <th className="py-1 pr-4 font-medium">Reads / writes</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {slots.map((slot) => {
+            const changed =
+              slot.originalValue !== null &&
+              slot.finalValue !== null &&
+              slot.originalValue !== slot.finalValue;
+            return (
+              <tr
+                key={`${slot.contract}:${slot.slot}`}
+                className="border-t border-[rgba(0,191,255,0.1)] align-top"
+              >
+                <td className="py-1 pr-4 text-[#00bfff]">
+                  <span title={slot.contract ?? undefined}>
+                    {slot.contract ? shortenAddress(slot.contract) : "unknown"}
+                  </span>
+                </td>
+                <td className="py-1 pr-4 text-[#00bfff]">
+                  <SlotName slot={slot.slot} label={slot.label} />
+                </td>
+                <td className="py-1 pr-4 break-all text-[#6b7280]">
+                  {shortWord(slot.originalValue)}
+                </td>
+                <td
+                  className={`py-1 pr-4 break-all ${changed ? "text-white" : "text-[#6b7280]"}`}
+                >
+                  {shortWord(slot.finalValue)}
+                </td>
+                <td className="py-1 pr-4 text-[#8b9dc3]">
+                  {slot.reads} / {slot.writes}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Every SLOAD and SSTORE of a transaction from its structLog trace, with
+ * the frame that made it, warm or cold access, refunds, and the value each
+ * touched slot started and ended the transaction with.
+ */
+export function StorageAccessTimeline({
+  txHash,
+  network,
+}: StorageAccessTimelineProps) {
+  const {
+    data: session,
+    isLoading: sessionLoading,
+    error: sessionError,
+  } = useDebugSession(txHash, network);
+  const {
+    data: timeline,
+    isLoading: timelineLoading,
+    error: timelineError,
+  } = useStorageTimeline(session);
+  const isLoading = sessionLoading || timelineLoading;
+  const error = sessionError ?? timelineError;
+  const [kind, setKind] = useState<KindFilter>("all");
+  const [query, setQuery] = useState("");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const search = query.trim().toLowerCase();
+  const accesses = useMemo(
+    () =>
+      (timeline?.accesses ?? []).filter(
+        (access) =>
+          (kind === "all" || access.kind === kind) &&
+          matchesQuery(access, search),
+      ),
+    [timeline, kind, search],
+  );
+  const slots = useMemo(
+    () =>
+      (timeline?.slots ?? []).filter(
+        (slot) =>
+          (kind !== "SSTORE" || slot.writes > 0) && matchesQuery(slot, search),
+      ),
+    [timeline, kind, search],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-[#8b9dc3]">
+        <Loader2 className="h-5 w-5 animate-spin text-[#00bfff]" />
+        Loading structLog trace...
+      </div>
+    );
+  }
+
+  if (error || !session || !timeline) {
+    return (
+      <Alert variant="destructive">
+        <div>
+          <div className="font-medium">Could not load the structLog trace</div>
+          <div className="text-sm mt-1">
+            {error instanceof Error
+              ? error.message
+              : "The node returned no structLog trace."}
+          </div>
+        </div>
+      </Alert>
+    );
+  }
+
+  if (timeline.accesses.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-[#8b9dc3]">
+        This transaction did not read or write contract storage.
+      </p>
+    );
+  }
+
+  const reads = timeline.accesses.filter((a) => a.kind === "SLOAD").length;
+  const cold = timeline.accesses.filter((a) => a.cold).length;
+  const reverted = timeline.accesses.filter(
+    (a) => a.kind === "SSTORE" && a.reverted,
+  ).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline">{reads} SLOAD</Badge>
+        <Badge variant="outline">
+          {timeline.accesses.length - reads} SSTORE
+        </Badge>
+        <Badge variant="outline">{timeline.slots.length} slots</Badge>
+        <Badge variant="outline">{cold} cold accesses</Badge>
+        {timeline.refund > 0 && (
+          <Badge variant="success">
+            {formatGas(timeline.refund)} gas refunded
+          </Badge>
+        )}
+        {reverted > 0 && (
+          <Badge variant="warning">{reverted} reverted writes</Badge>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <Dropdown
+          value={kind}
+          onValueChange={(value) => {
+            setKind(value as KindFilter);
+            setLimit(PAGE_SIZE);
+          }}
+          options={KIND_OPTIONS}
+          className="w-48"
+        />
+        <div className="relative w-full max-w-sm">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-[#6b7280]" />
+          <Input
+            placeholder="Filter by contract, slot or label"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setLimit(PAGE_SIZE);
+            }}
+            className="pl-9"
+          />
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <h4 className="text-sm font-semibold text-[#00bfff] mb-3">
+          Slots touched
+        </h4>
+        <SlotSummaryTable slots={slots} />
+        <p className="mt-2 text-xs text-[#6b7280]">
+          Final values have reverted writes undone. "?" marks values the trace
+          does not show, such as the original value of a slot written before it
+          was read.
+        </p>
+      </div>
+
+      <div className={sectionClass}>
+        <h4 className="text-sm font-semibold text-[#00bfff] mb-3">Timeline</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[#8b9dc3]">
+                <th className="py-1 pr-4 font-medium">Step</th>
+                <th className="py-1 pr-4 font-medium">Frame</th>
+                <th className="py-1 pr-4 font-medium">Op</th>
+                <th className="py-1 pr-4 font-medium">Contract</th>
+                <th className="py-1 pr-4 font-medium">Slot</th>
+                <th className="py-1 pr-4 font-medium">Value</th>
+                <th className="py-1 pr-4 font-medium">Access</th>
+                <th className="py-1 pr-4 font-medium">Gas</th>
+                <th className="py-1 pr-4 font-medium">Refund</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {accesses.slice(0, limit).map((access) => (
+                <tr
+                  key={access.step}
+                  className={`border-t border-[rgba(0,191,255,0.1)] align-top ${access.reverted ? "opacity-50" : ""}`}
+                  title={access.reverted ? "Reverted" : undefined}
+                >
+                  <td className="py-1 pr-4 text-[#8b9dc3]">{access.step}</td>
+                  <td className="py-1 pr-4 text-[#8b9dc3]">
+                    <FrameCell frame={session.frames[access.frameId]} />
+                  </td>
+                  <td
+                    className={`py-1 pr-4 ${access.kind === "SSTORE" ? "text-[#ffa500]" : "text-[#00bfff]"}`}
+                  >
+                    {access.kind}
+                  </td>
+                  <td className="py-1 pr-4 text-[#00bfff]">
+                    <span title={access.contract ?? undefined}>
+                      {access.contract
+                        ? shortenAddress(access.contract)
+                        : "unknown"}
+                    </span>
+                  </td>
+                  <td className="py-1 pr-4 text-[#00bfff]">
+                    <SlotName slot={access.slot} label={access.label} />
+                  </td>
+                  <td className="py-1 pr-4 break-all">
+                    <ValueCell access={access} />
+                    {access.formattedValue && (
+                      <div className="font-sans text-[#6b7280]">
+                        {access.formattedValue}
+                      </div>
+                    )}
+                  </td>
+                  <td
+                    className={`py-1 pr-4 ${access.cold ? "text-[#ffa500]" : "text-[#8b9dc3]"}`}
+                  >
+                    {access.cold ? "cold" : "warm"}
+                  </td>
+                  <td className="py-1 pr-4 text-[#8b9dc3]">
+                    {formatGas(access.gasCost)}
+                  </td>
+                  <td
+                    className={`py-1 pr-4 ${access.refund > 0 ? "text-[#10b981]" : access.refund < 0 ? "text-[#ef4444]" : "text-[#6b7280]"}`}
+                  >
+                    {access.refund > 0 ? "+" : ""}
+                    {access.refund !== 0 ? formatGas(access.refund) : "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {accesses.length > limit && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setLimit(limit + PAGE_SIZE)}
+            className={`mt-3 ${outlineButtonClass}`}
+          >
+            Show more ({accesses.length - limit} left)
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -38,6 +38,7 @@ const ChartSkeleton = () => (
 
 export function StructLogAnalytics({
   structLog,
+  processedData: precomputed,
   loading,
   className = "",
 }: StructLogAnalyticsProps) {
@@ -76,7 +77,8 @@ export function StructLogAnalytics({
           // Process in chunks to prevent UI blocking
           requestAnimationFrame(() => {
             try {
-              const processed = StructLogProcessor.processAll(structLog);
+              const processed =
+                precomputed ?? StructLogProcessor.processAll(structLog);
               setProcessedData(processed);
               setError(null);
             } catch (err) {
@@ -97,7 +99,7 @@ export function StructLogAnalytics({
     };
 
     processData();
-  }, [structLog]);
+  }, [structLog, precomputed]);
 
   if (loading || isProcessing) {
     return (
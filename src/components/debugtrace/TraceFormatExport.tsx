@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { Copy, Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/global/Button";
+import { useDebugSession } from "@/hooks/debugtrace";
+import {
+  ExportUtils,
+  FlameGraphProcessor,
+  TraceExporter,
+  type ChromeTraceUnit,
+  type TraceExportEntry,
+} from "@/lib/debugtrace";
+import type { NetworkId } from "@/lib/networks";
+import type { TransactionAnalysis } from "@/lib/transactionTracer";
+
+interface TraceFormatExportProps {
+  filename: string;
+  // Call traces are loaded on click, so pages that only keep processed
+  // traces can fetch the raw frames.
+  loadCallTraces?: () => Promise<TraceExportEntry[]>;
+  // Adds structLog exports of this transaction.
+  structLog?: {
+    txHash: string;
+    network: NetworkId;
+    callTrace?: TransactionAnalysis | null;
+  };
+  className?: string;
+}
+
+type CallExport = "chrome" | "foundry" | "copy";
+
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "An unknown error occurred";
+
+/**
+ * Exports for other tools: Chrome trace events to open in Perfetto or
+ * chrome://tracing, and Foundry-style text traces for reports and issues.
+ */
+export function TraceFormatExport({
+  filename,
+  loadCallTraces,
+  structLog,
+  className = "",
+}: TraceFormatExportProps) {
+  const [busy, setBusy] = useState<CallExport | null>(null);
+  const [pendingUnit, setPendingUnit] = useState<ChromeTraceUnit | null>(null);
+  const { data: session, error: sessionError } = useDebugSession(
+    structLog?.txHash,
+    structLog?.network ?? "mainnet",
+    { enabled: !!structLog && pendingUnit !== null },
+  );
+
+  // The structLog trace is only fetched once an export asks for it.
+  useEffect(() => {
+    if (!pendingUnit || !structLog) return;
+    if (sessionError) {
+      toast.error(`Export failed: ${errorMessage(sessionError)}`);
+      setPendingUnit(null);
+      return;
+    }
+    if (!session) return;
+
+    const labels = FlameGraphProcessor.matchFrameLabels(
+      session,
+      structLog.callTrace ?? undefined,
+    );
+    ExportUtils.exportDataAsJSON(
+      TraceExporter.sessionToChromeTrace(
+        session,
+        pendingUnit,
+        `${structLog.txHash.slice(0, 10)} structLog (${pendingUnit})`,
+        labels,
+      ),
+      `${filename}-structlog-${pendingUnit}.chrome-trace`,
+      false,
+    );
+    toast.success("StructLog trace exported for Perfetto");
+    setPendingUnit(null);
+  }, [pendingUnit, session, sessionError, structLog, filename]);
+
+  const exportCalls = async (kind: CallExport) => {
+    if (!loadCallTraces) return;
+    setBusy(kind);
+    try {
+      const entries = await loadCallTraces();
+      if (entries.length === 0) {
+        throw new Error("There is no call trace to export");
+      }
+
+      if (kind === "chrome") {
+        ExportUtils.exportDataAsJSON(
+          TraceExporter.callTracesToChromeTrace(entries, filename),
+          `${filename}.chrome-trace`,
+          false,
+        );
+        toast.success("Call trace exported for Perfetto");
+      } else if (kind === "foundry") {
+        ExportUtils.exportDataAsText(
+          TraceExporter.toFoundryTrace(entries),
+          `${filename}-foundry`,
+        );
+        toast.success("Foundry trace exported");
+      } else {
+        await navigator.clipboard.writeText(
+          TraceExporter.toFoundryTrace(entries),
+        );
+        toast.success("Foundry trace copied to clipboard");
+      }
+    } catch (error) {
+      console.error("Trace export failed:", error);
+      toast.error(`Export failed: ${errorMessage(error)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const icon = (kind: CallExport) =>
+    busy === kind ? (
+      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+    ) : kind === "copy" ? (
+      <Copy className="h-4 w-4 mr-2" />
+    ) : (
+      <Download className="h-4 w-4 mr-2" />
+    );
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <span className="text-xs text-[#8b9dc3]">Export trace:</span>
+      {loadCallTraces && (
+        <>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={busy !== null}
+            onClick={() => exportCalls("chrome")}
+            className={outlineButtonClass}
+            title="Chrome trace events, one microsecond per gas"
+          >
+            {icon("chrome")}
+            Perfetto
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={busy !== null}
+            onClick={() => exportCalls("foundry")}
+            className={outlineButtonClass}
+          >
+            {icon("foundry")}
+            Foundry
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={busy !== null}
+            onClick={() => exportCalls("copy")}
+            className={outlineButtonClass}
+          >
+            {icon("copy")}
+            Copy Foundry
+          </Button>
+        </>
+      )}
+      {structLog &&
+        (["steps", "gas"] as ChromeTraceUnit[]).map((unit) => (
+          <Button
+            key={unit}
+            size="sm"
+            variant="outline"
+            disabled={pendingUnit !== null}
+            onClick={() => setPendingUnit(unit)}
+            className={outlineButtonClass}
+            title={`StructLog frames as Chrome trace events, one microsecond per ${unit === "gas" ? "gas" : "step"}`}
+          >
+            {pendingUnit === unit ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            StructLog ({unit})
+          </Button>
+        ))}
+    </div>
+  );
+}
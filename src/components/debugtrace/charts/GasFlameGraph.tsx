@@ -0,0 +1,327 @@
+import { useMemo, useState } from "react";
+import { ChevronRight, Download, Loader2, Search } from "lucide-react";
+import { Button } from "@/components/global/Button";
+import { Input } from "@/components/global/Input";
+import { useDebugSession } from "@/hooks/debugtrace";
+import { formatGas } from "@/lib/config";
+import { ExportUtils, FlameGraphProcessor } from "@/lib/debugtrace";
+import type { FlameNode } from "@/lib/debugtrace/types";
+import type { NetworkId } from "@/lib/networks";
+import type { TransactionAnalysis } from "@/lib/transactionTracer";
+
+interface GasFlameGraphProps {
+  callTrace?: TransactionAnalysis | null;
+  txHash?: string | null;
+  network: NetworkId;
+}
+
+type FlameMode = "calls" | "opcodes";
+
+interface FlameRect {
+  node: FlameNode;
+  x: number;
+  width: number;
+  depth: number;
+}
+
+const ROW_HEIGHT = 22;
+// Frames narrower than this share of the zoomed frame are not drawn.
+const MIN_WIDTH = 0.002;
+
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+const activeButtonClass = "bg-[#00bfff] text-[#0f1419] hover:bg-[#00bfff]/90";
+
+const hashName = (name: string) => {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const colorFor = (node: FlameNode) => {
+  if (node.failed) return "rgba(239, 68, 68, 0.75)";
+  const hash = hashName(node.kind === "opcode" ? node.name : node.id);
+  return node.kind === "opcode"
+    ? `hsl(${25 + (hash % 30)}, 80%, ${45 + (hash % 10)}%)`
+    : `hsl(${185 + (hash % 70)}, 70%, ${35 + (hash % 12)}%)`;
+};
+
+const percent = (part: number, whole: number) =>
+  whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : "0%";
+
+const layout = (focus: FlameNode): FlameRect[] => {
+  const rects: FlameRect[] = [];
+  const place = (node: FlameNode, x: number, width: number, depth: number) => {
+    rects.push({ node, x, width, depth });
+    if (node.totalGas <= 0) return;
+    let offset = x;
+    node.children.forEach((child) => {
+      const childWidth = (child.totalGas / node.totalGas) * width;
+      if (childWidth >= MIN_WIDTH) place(child, offset, childWidth, depth + 1);
+      offset += childWidth;
+    });
+  };
+  place(focus, 0, 1, 0);
+  return rects;
+};
+
+const matches = (node: FlameNode, query: string) =>
+  node.name.toLowerCase().includes(query) ||
+  !!node.address?.toLowerCase().includes(query);
+
+// Gas of the outermost matching frames, so nested matches count once.
+const matchedGas = (node: FlameNode, query: string): number =>
+  matches(node, query)
+    ? node.totalGas
+    : node.children.reduce((sum, child) => sum + matchedGas(child, query), 0);
+
+/**
+ * Icicle graph of a transaction's gas: frames are calls sized by inclusive
+ * gas, or, in opcode mode, structLog frames split into opcodes. Clicking a
+ * frame zooms into it.
+ */
+export function GasFlameGraph({
+  callTrace,
+  txHash,
+  network,
+}: GasFlameGraphProps) {
+  const [mode, setMode] = useState<FlameMode>("calls");
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<FlameNode | null>(null);
+  const [query, setQuery] = useState("");
+
+  const session = useDebugSession(txHash, network, {
+    enabled: mode === "opcodes",
+  });
+
+  const root = useMemo(() => {
+    if (mode === "calls") {
+      return callTrace ? FlameGraphProcessor.fromCallTrace(callTrace) : null;
+    }
+    return session.data
+      ? FlameGraphProcessor.fromStructLogs(session.data, callTrace ?? undefined)
+      : null;
+  }, [mode, callTrace, session.data]);
+
+  const parents = useMemo(() => {
+    const byId = new Map<string, FlameNode>();
+    const parentOf = new Map<string, FlameNode>();
+    const visit = (node: FlameNode) => {
+      byId.set(node.id, node);
+      node.children.forEach((child) => {
+        parentOf.set(child.id, node);
+        visit(child);
+      });
+    };
+    if (root) visit(root);
+    return { byId, parentOf };
+  }, [root]);
+
+  const focus = (focusId && parents.byId.get(focusId)) || root;
+  const rects = useMemo(() => (focus ? layout(focus) : []), [focus]);
+
+  const breadcrumb = useMemo(() => {
+    const path: FlameNode[] = [];
+    for (
+      let node = focus ?? undefined;
+      node;
+      node = parents.parentOf.get(node.id)
+    ) {
+      path.unshift(node);
+    }
+    return path;
+  }, [focus, parents]);
+
+  const search = query.trim().toLowerCase();
+  const searchGas = focus && search ? matchedGas(focus, search) : 0;
+
+  const changeMode = (next: FlameMode) => {
+    setMode(next);
+    setFocusId(null);
+    setHovered(null);
+  };
+
+  const handleExport = () => {
+    if (!focus) return;
+    const name = `${txHash ? txHash.slice(0, 10) : "transaction"} ${focus.name} (${mode})`;
+    ExportUtils.exportDataAsJSON(
+      FlameGraphProcessor.toSpeedscope(focus, name),
+      `gas-profile-${mode}-${txHash ? txHash.slice(0, 10) : "transaction"}.speedscope`,
+      false,
+    );
+  };
+
+  const detail = hovered ?? focus;
+  const depth = rects.reduce((max, rect) => Math.max(max, rect.depth), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant={mode === "calls" ? "default" : "outline"}
+          onClick={() => changeMode("calls")}
+          className={mode === "calls" ? activeButtonClass : outlineButtonClass}
+        >
+          Calls
+        </Button>
+        <Button
+          size="sm"
+          variant={mode === "opcodes" ? "default" : "outline"}
+          onClick={() => changeMode("opcodes")}
+          disabled={!txHash}
+          className={
+            mode === "opcodes" ? activeButtonClass : outlineButtonClass
+          }
+        >
+          Opcodes
+        </Button>
+        <div className="relative w-full max-w-xs">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-[#6b7280]" />
+          <Input
+            placeholder="Search contract, function or opcode"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={!focus}
+          title="Exports the frame shown as the top row"
+          className={`ml-auto ${outlineButtonClass}`}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export speedscope
+        </Button>
+      </div>
+
+      {mode === "opcodes" && session.isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-12 text-[#8b9dc3]">
+          <Loader2 className="h-5 w-5 animate-spin text-[#00bfff]" />
+          Loading structLog trace...
+        </div>
+      ) : mode === "opcodes" && session.error ? (
+        <p className="py-8 text-center text-sm text-[#ef4444]">
+          {session.error instanceof Error
+            ? session.error.message
+            : "Could not load the structLog trace."}
+        </p>
+      ) : !root || !focus ? (
+        <p className="py-8 text-center text-sm text-[#8b9dc3]">
+          {mode === "calls"
+            ? "The flame graph needs call trace data."
+            : "The structLog trace has no steps."}
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-1 text-xs">
+            {breadcrumb.map((node, index) => (
+              <span key={node.id} className="flex items-center gap-1">
+                {index > 0 && (
+                  <ChevronRight className="h-3 w-3 text-[#6b7280]" />
+                )}
+                <button
+                  type="button"
+                  onClick={() => setFocusId(node.id)}
+                  className={`font-mono ${node === focus ? "text-white" : "text-[#00bfff] hover:underline"}`}
+                >
+                  {node.name}
+                </button>
+              </span>
+            ))}
+            {search && (
+              <span className="ml-auto text-[#8b9dc3]">
+                Matches: {formatGas(searchGas)} gas (
+                {percent(searchGas, focus.totalGas)})
+              </span>
+            )}
+          </div>
+
+          <div
+            className="relative w-full overflow-hidden rounded border border-[rgba(0,191,255,0.2)] bg-[rgba(25,28,40,0.8)]"
+            style={{ height: (depth + 1) * ROW_HEIGHT }}
+            onMouseLeave={() => setHovered(null)}
+          >
+            {rects.map(({ node, x, width, depth: row }) => {
+              const dimmed = !!search && !matches(node, search);
+              return (
+                <div
+                  key={node.id}
+                  onClick={() => setFocusId(node.id)}
+                  onMouseEnter={() => setHovered(node)}
+                  className={`absolute cursor-pointer overflow-hidden whitespace-nowrap border-r border-b border-[#0f1419] px-1 text-[11px] leading-[21px] text-white ${search && !dimmed ? "ring-1 ring-inset ring-white" : ""}`}
+                  style={{
+                    left: `${x * 100}%`,
+                    width: `${width * 100}%`,
+                    top: row * ROW_HEIGHT,
+                    height: ROW_HEIGHT,
+                    backgroundColor: colorFor(node),
+                    opacity: dimmed ? 0.3 : 1,
+                  }}
+                >
+                  {node.name}
+                </div>
+              );
+            })}
+          </div>
+
+          {detail && (
+            <div className="grid grid-cols-2 gap-3 text-sm md:grid-cols-5">
+              <div className="col-span-2 min-w-0">
+                <div className="text-xs text-[#6b7280]">Frame</div>
+                <div className="truncate font-mono text-[#00bfff]">
+                  {detail.name}
+                </div>
+                {detail.address && (
+                  <div className="truncate font-mono text-xs text-[#6b7280]">
+                    {detail.address}
+                  </div>
+                )}
+              </div>
+              <div>
+                <div className="text-xs text-[#6b7280]">Inclusive gas</div>
+                <div className="font-mono text-white">
+                  {formatGas(detail.totalGas)}
+                </div>
+                <div className="text-xs text-[#8b9dc3]">
+                  {percent(detail.totalGas, root.totalGas)} of total
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-[#6b7280]">Self gas</div>
+                <div className="font-mono text-white">
+                  {formatGas(detail.selfGas)}
+                </div>
+                <div className="text-xs text-[#8b9dc3]">
+                  {percent(detail.selfGas, detail.totalGas)} of frame
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-[#6b7280]">Children</div>
+                <div className="font-mono text-white">
+                  {formatGas(detail.totalGas - detail.selfGas)}
+                </div>
+                <div className="text-xs text-[#8b9dc3]">
+                  {detail.children.filter((c) => c.kind === "call").length}{" "}
+                  subcalls
+                </div>
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-[#6b7280]">
+            {mode === "calls"
+              ? "Width is the gas each call reports including its subcalls; the uncovered part of a frame is its self gas."
+              : "Width is execution gas from the structLog steps, excluding intrinsic gas and refunds. Each frame's own gas is split by opcode, and a CALL is charged only the overhead on top of the callee."}{" "}
+            Click a frame to zoom in and the path above to zoom out.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
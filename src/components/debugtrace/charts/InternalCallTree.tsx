@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   Background,
   ReactFlow,
@@ -13,6 +13,9 @@ import {
 import dagre from "@dagrejs/dagre";
 import "@xyflow/react/dist/style.css";
 import { Badge, Checkbox, Input } from "@/components/global";
+import { TraceQueryInput } from "@/components/tracetransaction/TraceQueryInput";
+import { useTraceQueryParam } from "@/hooks/tracetransaction";
+import { TraceQuery } from "@/lib/tracetransaction/traceQuery";
 import { formatGas, shortenAddress } from "@/lib/config";
 import { TransactionAnalysis } from "@/lib/transactionTracer";
 import {
@@ -92,7 +95,7 @@ const InternalCallNode = ({ data }: { data: any }) => {
             variant="outline"
             className="border-[#ef4444] text-[#ef4444] bg-[rgba(239,68,68,0.1)] text-xs"
           >
-            ERROR: {call.error}
+            ERROR: {call.decoded_error ?? call.error}
           </Badge>
         </div>
       )}
@@ -121,7 +124,17 @@ const InternalCallNode = ({ data }: { data: any }) => {
       {call.input_preview && (
         <div className="mt-2 text-xs text-[#8b9dc3]">
           <span>Input: </span>
-          <span className="font-mono text-[#6b7280]">{call.input_preview}</span>
+          <span className="font-mono text-[#6b7280]">
+            {call.decoded_input ?? call.input_preview}
+          </span>
+          {call.function_candidates && (
+            <div
+              className="mt-1 truncate text-[#6b7280]"
+              title={call.function_candidates.join("\n")}
+            >
+              Also matches: {call.function_candidates.join(", ")}
+            </div>
+          )}
         </div>
       )}
 
@@ -186,6 +199,7 @@ const convertCallsToFlowElements = (
 ) => {
   const nodes: any[] = [];
   const edges: any[] = [];
+  const ids = new Set(calls.map((call) => call.id));
 
   calls.forEach((call) => {
     nodes.push({
@@ -195,7 +209,7 @@ const convertCallsToFlowElements = (
       position: { x: 0, y: 0 }, // Will be set by dagre
     });
 
-    if (call.parent_id) {
+    if (call.parent_id && ids.has(call.parent_id)) {
       edges.push({
         id: `${call.parent_id}-${call.id}`,
         source: call.parent_id,
@@ -225,12 +239,27 @@ export function InternalCallTree({
   const [searchTerm, setSearchTerm] = useState("");
   const [showOnlyErrors, setShowOnlyErrors] = useState(false);
   const [layoutDirection, setLayoutDirection] = useState<"TB" | "LR">("TB");
+  const {
+    query,
+    setQuery,
+    predicate: matchesQuery,
+    error: queryError,
+    isActive: queryActive,
+  } = useTraceQueryParam();
+
+  const queryRecords = useMemo(
+    () =>
+      (data || []).map((call, index) =>
+        TraceQuery.fromCallTraceData(call, index)
+      ),
+    [data]
+  );
 
-  // Filter data based on search and error filter
+  // Filter data based on the filter expression, search and error filter
   const filteredData = useMemo(() => {
     if (!data || data.length === 0) return [];
 
-    let filtered = [...data];
+    let filtered = data.filter((_, index) => matchesQuery(queryRecords[index]));
 
     // Apply search filter
     if (searchTerm) {
@@ -249,7 +278,7 @@ export function InternalCallTree({
     }
 
     return filtered;
-  }, [data, searchTerm, showOnlyErrors]);
+  }, [data, searchTerm, showOnlyErrors, matchesQuery, queryRecords]);
 
   // Convert to flow elements and apply layout
   const { nodes: initialNodes, edges: initialEdges } = useMemo(() => {
@@ -263,6 +292,13 @@ export function InternalCallTree({
   const [nodes, setNodes, onNodesChange] = useNodesState(layoutedNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(layoutedEdges);
 
+  // The flow keeps its own copy of the nodes, so refresh it when the
+  // filters change.
+  useEffect(() => {
+    setNodes(layoutedNodes);
+    setEdges(layoutedEdges);
+  }, [layoutedNodes, layoutedEdges, setNodes, setEdges]);
+
   const onConnect = useCallback(
     (params: any) =>
       setEdges((eds) =>
@@ -373,12 +409,21 @@ export function InternalCallTree({
         </div>
       </div>
 
+      <TraceQueryInput
+        value={query}
+        onChange={setQuery}
+        records={queryRecords}
+        error={queryError}
+        className="mb-4"
+      />
+
       {/* Internal Call Tree */}
       <div
         className="bg-[rgba(15,20,25,0.6)] rounded-lg border border-[rgba(0,191,255,0.2)] overflow-hidden"
         style={{ height: height - 60 }}
       >
-        {filteredData.length === 0 && (searchTerm || showOnlyErrors) ? (
+        {filteredData.length === 0 &&
+        (searchTerm || showOnlyErrors || queryActive) ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-center">
               <Search className="h-12 w-12 text-[rgba(0,191,255,0.3)] mx-auto mb-3" />
@@ -17,3 +17,4 @@ export { GasBreakdownChart } from "./GasBreakdownChart";
 export { EfficiencyMetricsCards } from "./EfficiencyMetricsCards";
 export { CostAnalysisChart } from "./CostAnalysisChart";
 export { OptimizationPanel } from "./OptimizationPanel";
+export { GasFlameGraph } from "./GasFlameGraph";
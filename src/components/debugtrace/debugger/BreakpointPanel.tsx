@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/global/Button";
+import { Checkbox } from "@/components/global/Checkbox";
+import { Dropdown } from "@/components/global/Dropdown";
+import { Input } from "@/components/global/Input";
+import {
+  StepDebugger,
+  type BreakpointKind,
+  type DebugBreakpoint,
+} from "@/lib/debugtrace";
+
+interface BreakpointPanelProps {
+  breakpoints: DebugBreakpoint[];
+  onAdd: (kind: BreakpointKind, value: string) => void;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const KIND_OPTIONS: { value: BreakpointKind; label: string; hint: string }[] = [
+  { value: "opcode", label: "Opcode", hint: "e.g. SSTORE" },
+  { value: "pc", label: "Program counter", hint: "e.g. 1234 or 0x4d2" },
+  { value: "address", label: "Contract address", hint: "0x..." },
+  { value: "depth", label: "Call depth", hint: "e.g. 2" },
+  { value: "sstore", label: "SSTORE to slot", hint: "slot, e.g. 0x0" },
+];
+
+export function BreakpointPanel({
+  breakpoints,
+  onAdd,
+  onToggle,
+  onRemove,
+}: BreakpointPanelProps) {
+  const [kind, setKind] = useState<BreakpointKind>("opcode");
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const validation = StepDebugger.validateBreakpoint(kind, value);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    onAdd(kind, value);
+    setValue("");
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Dropdown
+          value={kind}
+          onValueChange={(next) => {
+            setKind(next as BreakpointKind);
+            setError(null);
+          }}
+          options={KIND_OPTIONS.map(({ value, label }) => ({ value, label }))}
+          className="w-48 shrink-0"
+        />
+        <Input
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          placeholder={
+            KIND_OPTIONS.find((option) => option.value === kind)?.hint
+          }
+          className="font-mono"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAdd}
+          aria-label="Add breakpoint"
+          className="border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {breakpoints.length === 0 ? (
+        <p className="text-sm text-[#6b7280]">
+          No breakpoints. Continue (F8) runs to the next step matching an
+          enabled breakpoint.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {breakpoints.map((breakpoint) => (
+            <li
+              key={breakpoint.id}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              <Checkbox
+                checked={breakpoint.enabled}
+                onCheckedChange={() => onToggle(breakpoint.id)}
+                textClassName="font-mono text-[#8b9dc3]"
+              >
+                {StepDebugger.describeBreakpoint(breakpoint)}
+              </Checkbox>
+              <button
+                type="button"
+                onClick={() => onRemove(breakpoint.id)}
+                aria-label="Remove breakpoint"
+                className="text-[#6b7280] hover:text-red-400"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Badge } from "@/components/global/Badge";
+import type { DebugCallFrame } from "@/lib/debugtrace";
+import { getContractName, shortenAddress } from "@/lib/config";
+import { cn } from "@/lib/utils";
+
+interface CallStackPanelProps {
+  callStack: DebugCallFrame[];
+  onSelect: (step: number) => void;
+}
+
+const describeAddress = (address: string | null) => {
+  if (!address) return "unknown contract";
+  const name = getContractName(address);
+  return name === "Unknown Contract" ? shortenAddress(address) : name;
+};
+
+/**
+ * Frames enclosing the current step, innermost first. Selecting an outer
+ * frame jumps to the step where it made the call.
+ */
+export function CallStackPanel({ callStack, onSelect }: CallStackPanelProps) {
+  const frames = [...callStack].reverse();
+
+  return (
+    <ul className="space-y-1">
+      {frames.map((frame, index) => {
+        const child = index > 0 ? frames[index - 1] : null;
+        const target = child?.callerStep ?? frame.startStep;
+
+        return (
+          <li key={frame.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(target)}
+              className={cn(
+                "flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm transition-colors hover:bg-[rgba(0,191,255,0.05)]",
+                index === 0 ? "text-[#00bfff]" : "text-[#8b9dc3]",
+              )}
+              title={frame.codeAddress ?? undefined}
+            >
+              <Badge variant="outline" className="font-mono text-[10px]">
+                {frame.kind}
+              </Badge>
+              <span className="flex-1 truncate">
+                {describeAddress(frame.codeAddress)}
+                {frame.storageAddress &&
+                  frame.storageAddress !== frame.codeAddress && (
+                    <span className="text-[#6b7280]">
+                      {" "}
+                      in {describeAddress(frame.storageAddress)}
+                    </span>
+                  )}
+              </span>
+              <span className="font-mono text-xs text-[#6b7280]">
+                {frame.startStep}–{frame.endStep}
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,98 @@
+import {
+  CornerLeftUp,
+  CornerRightDown,
+  Redo2,
+  SkipBack,
+  SkipForward,
+  StepBack,
+  StepForward,
+  Undo2,
+} from "lucide-react";
+import { Button } from "@/components/global/Button";
+
+interface DebuggerToolbarProps {
+  disabled?: boolean;
+  onReverseContinue: () => void;
+  onStepOverBack: () => void;
+  onStepBack: () => void;
+  onStepInto: () => void;
+  onStepOver: () => void;
+  onStepOut: () => void;
+  onContinue: () => void;
+  onFrameStart: () => void;
+}
+
+const buttonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+export function DebuggerToolbar({
+  disabled,
+  onReverseContinue,
+  onStepOverBack,
+  onStepBack,
+  onStepInto,
+  onStepOver,
+  onStepOut,
+  onContinue,
+  onFrameStart,
+}: DebuggerToolbarProps) {
+  const actions = [
+    {
+      label: "Reverse to breakpoint",
+      keys: "Shift+F8",
+      icon: SkipBack,
+      onClick: onReverseContinue,
+    },
+    {
+      label: "Step over backwards",
+      keys: "Shift+F10",
+      icon: Undo2,
+      onClick: onStepOverBack,
+    },
+    { label: "Step back", keys: "←", icon: StepBack, onClick: onStepBack },
+    {
+      label: "Step into",
+      keys: "F11 or →",
+      icon: StepForward,
+      onClick: onStepInto,
+    },
+    { label: "Step over", keys: "F10", icon: Redo2, onClick: onStepOver },
+    {
+      label: "Step out",
+      keys: "Shift+F11",
+      icon: CornerLeftUp,
+      onClick: onStepOut,
+    },
+    {
+      label: "Continue to breakpoint",
+      keys: "F8",
+      icon: SkipForward,
+      onClick: onContinue,
+    },
+    {
+      label: "Start of call frame",
+      keys: "Home",
+      icon: CornerRightDown,
+      onClick: onFrameStart,
+    },
+  ];
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {actions.map(({ label, keys, icon: Icon, onClick }) => (
+        <Button
+          key={label}
+          variant="outline"
+          size="sm"
+          onClick={onClick}
+          disabled={disabled}
+          title={`${label} (${keys})`}
+          aria-label={label}
+          className={buttonClass}
+        >
+          <Icon className="h-4 w-4" />
+        </Button>
+      ))}
+    </div>
+  );
+}
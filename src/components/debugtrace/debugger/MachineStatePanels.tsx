@@ -0,0 +1,117 @@
+import type { ReactNode } from "react";
+import { StepDebugger } from "@/lib/debugtrace";
+import type { StructLogStep } from "@/lib/tracing";
+import { cn } from "@/lib/utils";
+
+interface MachineStatePanelsProps {
+  step: StructLogStep;
+  hasMemory: boolean;
+  hasStorage: boolean;
+}
+
+const panelClass =
+  "rounded-lg border border-[rgba(0,191,255,0.2)] bg-[rgba(15,20,25,0.8)] p-3";
+
+function Panel({
+  title,
+  count,
+  children,
+}: {
+  title: string;
+  count?: number;
+  children: ReactNode;
+}) {
+  return (
+    <div className={panelClass}>
+      <div className="mb-2 flex items-center justify-between text-sm font-medium text-[#00bfff]">
+        {title}
+        {count !== undefined && (
+          <span className="text-xs text-[#6b7280]">{count}</span>
+        )}
+      </div>
+      <div className="max-h-64 overflow-auto font-mono text-xs">{children}</div>
+    </div>
+  );
+}
+
+const Empty = ({ children }: { children: ReactNode }) => (
+  <div className="text-[#6b7280] font-sans">{children}</div>
+);
+
+const stripHex = (word: string) =>
+  word.startsWith("0x") ? word.slice(2) : word;
+
+export function MachineStatePanels({
+  step,
+  hasMemory,
+  hasStorage,
+}: MachineStatePanelsProps) {
+  const stack = [...(step.stack || [])].reverse();
+  const memory = StepDebugger.formatMemory(step.memory);
+  const storage = Object.entries(step.storage || {});
+  const writtenSlot =
+    step.op === "SSTORE" && stack.length > 0
+      ? stripHex(stack[0]).padStart(64, "0")
+      : null;
+
+  return (
+    <div className="grid grid-cols-1 gap-4 xl:grid-cols-3">
+      <Panel title="Stack" count={stack.length}>
+        {stack.length === 0 ? (
+          <Empty>Empty</Empty>
+        ) : (
+          stack.map((word, index) => (
+            <div key={index} className="flex gap-2 text-[#8b9dc3]">
+              <span className="w-6 shrink-0 text-right text-[#6b7280]">
+                {index}
+              </span>
+              <span className="break-all">0x{stripHex(word)}</span>
+            </div>
+          ))
+        )}
+      </Panel>
+
+      <Panel title="Memory" count={hasMemory ? memory.length * 64 : undefined}>
+        {!hasMemory ? (
+          <Empty>Enable memory capture to inspect memory.</Empty>
+        ) : memory.length === 0 ? (
+          <Empty>Empty</Empty>
+        ) : (
+          memory.map((row) => (
+            <div key={row.offset} className="flex gap-2 text-[#8b9dc3]">
+              <span className="w-12 shrink-0 text-[#6b7280]">
+                0x{row.offset.toString(16).padStart(4, "0")}
+              </span>
+              <span className="break-all">{row.words.join(" ")}</span>
+              <span className="shrink-0 whitespace-pre text-[#6b7280]">
+                {row.ascii}
+              </span>
+            </div>
+          ))
+        )}
+      </Panel>
+
+      <Panel title="Storage" count={hasStorage ? storage.length : undefined}>
+        {!hasStorage ? (
+          <Empty>The node did not return storage for this trace.</Empty>
+        ) : storage.length === 0 ? (
+          <Empty>No slots touched yet in this contract.</Empty>
+        ) : (
+          storage.map(([slot, value]) => (
+            <div
+              key={slot}
+              className={cn(
+                "mb-1 text-[#8b9dc3]",
+                stripHex(slot).padStart(64, "0") === writtenSlot &&
+                  "text-[#00bfff]",
+              )}
+            >
+              <div className="break-all text-[#6b7280]">0x{stripHex(slot)}</div>
+              <div className="break-all">→ 0x{stripHex(value)}</div>
+            </div>
+          ))
+        )}
+      </Panel>
+    </div>
+  );
+}
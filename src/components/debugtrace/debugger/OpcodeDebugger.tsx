@@ -0,0 +1,275 @@
+import { useState, type KeyboardEvent, type ReactNode } from "react";
+import { Loader2 } from "lucide-react";
+import { Alert } from "@/components/global/Alert";
+import { Badge } from "@/components/global/Badge";
+import { Checkbox } from "@/components/global/Checkbox";
+import {
+  SourceArtifactManager,
+  SourceGasBreakdown,
+  SourceLocationView,
+} from "@/components/sourcemaps";
+import {
+  useDebugSession,
+  useStepDebugger,
+  useStepDetails,
+} from "@/hooks/debugtrace";
+import { toast } from "@/hooks/global/useToast";
+import { useSessionSourceMap } from "@/hooks/sourcemaps";
+import type { NetworkId } from "@/lib/networks";
+import type { SourceLineGas } from "@/lib/sourcemaps";
+import { BreakpointPanel } from "./BreakpointPanel";
+import { CallStackPanel } from "./CallStackPanel";
+import { DebuggerToolbar } from "./DebuggerToolbar";
+import { MachineStatePanels } from "./MachineStatePanels";
+import { StepList } from "./StepList";
+
+interface OpcodeDebuggerProps {
+  txHash: string;
+  network: NetworkId;
+}
+
+const sectionClass =
+  "bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-4";
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className={sectionClass}>
+      <h4 className="text-sm font-semibold text-[#00bfff] mb-3">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Steps through every structLog step of a transaction with the stack,
+ * memory and storage at that step, the enclosing call frames, breakpoints
+ * and, with compiler artifacts uploaded, the Solidity line.
+ */
+export function OpcodeDebugger({ txHash, network }: OpcodeDebuggerProps) {
+  const [captureMemory, setCaptureMemory] = useState(false);
+  const {
+    data: session,
+    isLoading,
+    error,
+  } = useDebugSession(txHash, network, { memory: captureMemory });
+  const debuggerState = useStepDebugger(session);
+  const { position } = debuggerState;
+  const details = useStepDetails(session, position?.index ?? 0);
+  const sourceMap = useSessionSourceMap(session, network);
+  const hasSource = !!sourceMap.attribution;
+
+  const traceAddresses = Array.from(
+    new Set(
+      (session?.frames ?? [])
+        .map((frame) => frame.codeAddress)
+        .filter((address): address is string => !!address),
+    ),
+  );
+
+  // Jumps to the next step on the line, wrapping around to the first.
+  const jumpToLine = (line: SourceLineGas) => {
+    if (!session || !position) return;
+    const onLine = (step: number) => {
+      const location = sourceMap.locate(step);
+      return (
+        !!location &&
+        `${location.contractName}:${location.filePath}:${location.line ?? location.start}` ===
+          line.key
+      );
+    };
+    const count = session.steps.length;
+    for (let offset = 1; offset <= count; offset++) {
+      const step = (position.index + offset) % count;
+      if (onLine(step)) {
+        debuggerState.goTo(step);
+        return;
+      }
+    }
+  };
+
+  const runToBreakpoint = (direction: 1 | -1) => {
+    if (debuggerState.breakpoints.every((breakpoint) => !breakpoint.enabled)) {
+      toast.info("No enabled breakpoints", {
+        description: "Add a breakpoint to run to it.",
+      });
+    } else if (!debuggerState.runToBreakpoint(direction)) {
+      toast.info(
+        direction === 1
+          ? "No breakpoint hit before the end of the trace"
+          : "No breakpoint hit before the start of the trace",
+      );
+    }
+  };
+
+  const jumpToFrameStart = () => {
+    if (position) debuggerState.goTo(position.frame.startStep);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest("input, textarea")) return;
+
+    const actions: Record<string, () => void> = {
+      F8: () => runToBreakpoint(event.shiftKey ? -1 : 1),
+      F10: event.shiftKey ? debuggerState.stepOverBack : debuggerState.stepOver,
+      F11: event.shiftKey ? debuggerState.stepOut : debuggerState.stepInto,
+      ArrowRight: debuggerState.stepInto,
+      ArrowLeft: debuggerState.stepBack,
+      Home: jumpToFrameStart,
+    };
+    const action = actions[event.key];
+    if (action) {
+      event.preventDefault();
+      action();
+    }
+  };
+
+  return (
+    <div
+      className="space-y-4 outline-none"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <DebuggerToolbar
+          disabled={!session}
+          onReverseContinue={() => runToBreakpoint(-1)}
+          onStepOverBack={debuggerState.stepOverBack}
+          onStepBack={debuggerState.stepBack}
+          onStepInto={debuggerState.stepInto}
+          onStepOver={debuggerState.stepOver}
+          onStepOut={debuggerState.stepOut}
+          onContinue={() => runToBreakpoint(1)}
+          onFrameStart={jumpToFrameStart}
+        />
+        <div className="flex flex-wrap items-center gap-4">
+          <Checkbox
+            checked={captureMemory}
+            onCheckedChange={setCaptureMemory}
+            textClassName="text-sm text-[#8b9dc3]"
+          >
+            Capture memory (larger trace)
+          </Checkbox>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-12 text-[#8b9dc3]">
+          <Loader2 className="h-5 w-5 animate-spin text-[#00bfff]" />
+          Loading structLog trace...
+        </div>
+      ) : error || !session || !position ? (
+        <Alert variant="destructive">
+          <div>
+            <div className="font-medium">Could not load the step trace</div>
+            <div className="text-sm mt-1">
+              {error instanceof Error
+                ? error.message
+                : "The node returned no structLog steps."}
+            </div>
+          </div>
+        </Alert>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-[#8b9dc3]">
+            <Badge variant="outline" className="font-mono">
+              Step {position.index.toLocaleString()} /{" "}
+              {(session.steps.length - 1).toLocaleString()}
+            </Badge>
+            <span className="font-mono text-[#00bfff]">
+              {position.entry.op}
+            </span>
+            <span>pc {position.entry.pc}</span>
+            <span>gas {position.entry.gas.toLocaleString()}</span>
+            <span>cost {position.entry.gasCost.toLocaleString()}</span>
+            <span>depth {position.entry.depth}</span>
+            {debuggerState.lastHit === position.index && (
+              <Badge variant="destructive">Breakpoint</Badge>
+            )}
+            {position.entry.error && (
+              <Badge variant="destructive">{position.entry.error}</Badge>
+            )}
+            {session.failed && <Badge variant="warning">Reverted</Badge>}
+          </div>
+
+          {hasSource && (
+            <SourceLocationView location={sourceMap.locate(position.index)} />
+          )}
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+            <div className="lg:col-span-2">
+              <StepList
+                session={session}
+                currentStep={position.index}
+                breakpoints={debuggerState.breakpoints}
+                onSelect={debuggerState.goTo}
+                locate={hasSource ? sourceMap.locate : undefined}
+              />
+            </div>
+            <div className="space-y-4">
+              <Section title="Call Stack">
+                <CallStackPanel
+                  callStack={position.callStack}
+                  onSelect={debuggerState.goTo}
+                />
+              </Section>
+              <Section title="Breakpoints">
+                <BreakpointPanel
+                  breakpoints={debuggerState.breakpoints}
+                  onAdd={debuggerState.addBreakpoint}
+                  onToggle={debuggerState.toggleBreakpoint}
+                  onRemove={debuggerState.removeBreakpoint}
+                />
+              </Section>
+            </div>
+          </div>
+
+          {details.error ? (
+            <p className="text-sm text-[#ef4444]">
+              Stack and memory are no longer available: {details.error.message}.
+              Reload the trace to step with them again.
+            </p>
+          ) : details.isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-[#8b9dc3]">
+              <Loader2 className="h-4 w-4 animate-spin text-[#00bfff]" />
+              Loading stack and memory...
+            </div>
+          ) : (
+            <MachineStatePanels
+              step={details.entry ?? position.entry}
+              hasMemory={session.hasMemory}
+              hasStorage={session.hasStorage}
+            />
+          )}
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            <Section title="Gas by Source">
+              {sourceMap.isLoading ? (
+                <div className="flex items-center gap-2 text-sm text-[#8b9dc3]">
+                  <Loader2 className="h-4 w-4 animate-spin text-[#00bfff]" />
+                  Matching contracts to artifacts...
+                </div>
+              ) : sourceMap.attribution ? (
+                <SourceGasBreakdown
+                  attribution={sourceMap.attribution}
+                  onSelectLine={jumpToLine}
+                />
+              ) : (
+                <p className="text-sm text-[#6b7280]">
+                  {sourceMap.error instanceof Error
+                    ? sourceMap.error.message
+                    : "Upload compiler artifacts for the contracts in this transaction to see Solidity lines and gas per line and function."}
+                </p>
+              )}
+            </Section>
+            <Section title="Compiler Artifacts">
+              <SourceArtifactManager
+                network={network}
+                addresses={traceAddresses}
+              />
+            </Section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
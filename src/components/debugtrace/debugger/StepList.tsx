@@ -0,0 +1,122 @@
+import { useEffect, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { Circle } from "lucide-react";
+import {
+  StepDebugger,
+  type DebugBreakpoint,
+  type DebugSession,
+} from "@/lib/debugtrace";
+import type { SourceLocation } from "@/lib/sourcemaps";
+import { cn } from "@/lib/utils";
+
+interface StepListProps {
+  session: DebugSession;
+  currentStep: number;
+  breakpoints: DebugBreakpoint[];
+  onSelect: (step: number) => void;
+  // Source lookup; adds a Solidity line column when given.
+  locate?: (step: number) => SourceLocation | null;
+  height?: number;
+}
+
+const describeLocation = (location: SourceLocation | null) => {
+  if (!location) return "";
+  const file = location.filePath?.replace(/^.*[\\/]/, "") ?? "?";
+  return location.line !== null ? `${file}:${location.line}` : file;
+};
+
+export function StepList({
+  session,
+  currentStep,
+  breakpoints,
+  onSelect,
+  locate,
+  height = 420,
+}: StepListProps) {
+  const parentRef = useRef<HTMLDivElement>(null);
+  const active = breakpoints.filter((breakpoint) => breakpoint.enabled);
+  const baseDepth = session.steps[0]?.depth ?? 1;
+
+  const virtualizer = useVirtualizer({
+    count: session.steps.length,
+    getScrollElement: () => parentRef.current,
+    estimateSize: () => 28,
+    overscan: 20,
+  });
+
+  useEffect(() => {
+    virtualizer.scrollToIndex(currentStep, { align: "auto" });
+  }, [currentStep, virtualizer]);
+
+  return (
+    <div
+      ref={parentRef}
+      className="overflow-auto rounded-lg border border-[rgba(0,191,255,0.2)] bg-[rgba(15,20,25,0.8)] font-mono text-xs"
+      style={{ height }}
+    >
+      <div
+        style={{
+          height: `${virtualizer.getTotalSize()}px`,
+          width: "100%",
+          position: "relative",
+        }}
+      >
+        {virtualizer.getVirtualItems().map((item) => {
+          const step = session.steps[item.index];
+          const location = locate?.(item.index) ?? null;
+          const isCurrent = item.index === currentStep;
+          const hasBreakpoint = active.some((breakpoint) =>
+            StepDebugger.matches(session, item.index, breakpoint),
+          );
+
+          return (
+            <button
+              key={item.key}
+              type="button"
+              onClick={() => onSelect(item.index)}
+              className={cn(
+                "absolute left-0 flex w-full items-center gap-3 px-3 text-left transition-colors",
+                isCurrent
+                  ? "bg-[rgba(0,191,255,0.2)] text-[#00bfff]"
+                  : "text-[#8b9dc3] hover:bg-[rgba(0,191,255,0.05)]",
+                step.error && "text-red-400",
+              )}
+              style={{
+                height: `${item.size}px`,
+                transform: `translateY(${item.start}px)`,
+              }}
+            >
+              <Circle
+                className={cn(
+                  "h-2 w-2 shrink-0",
+                  hasBreakpoint
+                    ? "fill-red-500 text-red-500"
+                    : "text-transparent",
+                )}
+              />
+              <span className="w-16 shrink-0 text-[#6b7280]">{item.index}</span>
+              <span className="w-14 shrink-0 text-[#6b7280]">{step.pc}</span>
+              <span
+                className="flex-1 truncate"
+                style={{ paddingLeft: `${(step.depth - baseDepth) * 12}px` }}
+              >
+                {step.op}
+              </span>
+              {locate && (
+                <span
+                  className="w-32 shrink-0 truncate text-[#6b7280]"
+                  title={location?.lineText ?? undefined}
+                >
+                  {describeLocation(location)}
+                </span>
+              )}
+              <span className="w-16 shrink-0 text-right text-[#6b7280]">
+                {step.gasCost}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+export { OpcodeDebugger } from "./OpcodeDebugger";
+export { DebuggerToolbar } from "./DebuggerToolbar";
+export { StepList } from "./StepList";
+export { CallStackPanel } from "./CallStackPanel";
+export { MachineStatePanels } from "./MachineStatePanels";
+export { BreakpointPanel } from "./BreakpointPanel";
@@ -1,6 +1,10 @@
 export { BookmarkManager } from "./BookmarkManager";
 export { ChartContainer } from "./ChartContainer";
+export { StateDiffViewer } from "./StateDiffViewer";
+export { StorageAccessTimeline } from "./StorageAccessTimeline";
+export { TraceFormatExport } from "./TraceFormatExport";
 export { StructLogAnalytics } from "./StructLogAnalytics";
 export { TransactionTracerAnalytics } from "./TransactionTracerAnalytics";
 export { UnifiedGasAnalytics } from "./UnifiedGasAnalytics";
 export * from "./charts";
+export * from "./debugger";
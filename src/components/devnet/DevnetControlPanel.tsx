@@ -0,0 +1,372 @@
+import { useState, type ReactNode } from "react";
+import { Link } from "react-router-dom";
+import {
+  Camera,
+  Coins,
+  Hammer,
+  History,
+  Loader2,
+  Send,
+  UserCheck,
+  UserX,
+} from "lucide-react";
+import { Button } from "@/components/global/Button";
+import { Input } from "@/components/global/Input";
+import { useDevnetActions, useDevnetState } from "@/hooks/devnet";
+import { toast } from "@/hooks/global/useToast";
+import type { DevnetInfo } from "@/lib/devnet";
+import type { NetworkId } from "@/lib/networks";
+import { shortenAddress } from "@/lib/config";
+
+interface DevnetControlPanelProps {
+  network: NetworkId;
+  info: DevnetInfo;
+}
+
+const sectionClass =
+  "bg-[rgba(25,28,40,0.8)] backdrop-blur-[10px] border border-[rgba(0,191,255,0.2)] rounded-lg p-6 space-y-4";
+const primaryButtonClass =
+  "bg-[#00bfff] hover:bg-[#0099cc] text-[#0f1419] font-medium";
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+function Section({
+  icon,
+  title,
+  children,
+}: {
+  icon: ReactNode;
+  title: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className={sectionClass}>
+      <h3 className="text-lg font-semibold text-[#00bfff] flex items-center gap-2">
+        {icon}
+        {title}
+      </h3>
+      {children}
+    </div>
+  );
+}
+
+const reportError = (title: string) => (error: Error) =>
+  toast.error(title, { description: error.message, duration: 6000 });
+
+export function DevnetControlPanel({ network, info }: DevnetControlPanelProps) {
+  const actions = useDevnetActions(network);
+  const { data: state } = useDevnetState(network);
+
+  const [blocks, setBlocks] = useState("1");
+  const [miningInterval, setMiningInterval] = useState("");
+  const [balanceAddress, setBalanceAddress] = useState("");
+  const [balanceEther, setBalanceEther] = useState("100");
+  const [impersonateAddress, setImpersonateAddress] = useState("");
+  const [snapshotLabel, setSnapshotLabel] = useState("");
+  const [txFrom, setTxFrom] = useState(info.accounts[0] || "");
+  const [txTo, setTxTo] = useState("");
+  const [txValue, setTxValue] = useState("");
+  const [txData, setTxData] = useState("");
+  const [lastTxHash, setLastTxHash] = useState<string | null>(null);
+
+  const senders = Array.from(
+    new Set([...info.accounts, ...(state?.impersonated || [])]),
+  );
+
+  const handleMine = () =>
+    actions.mine.mutate(
+      {
+        blocks: Number(blocks),
+        intervalSeconds: miningInterval ? Number(miningInterval) : undefined,
+      },
+      {
+        onSuccess: (blockNumber) =>
+          toast.success("Blocks mined", {
+            description: `Chain is now at block ${blockNumber}`,
+            duration: 3000,
+          }),
+        onError: reportError("Mining failed"),
+      },
+    );
+
+  const handleSetBalance = () =>
+    actions.setBalance.mutate(
+      { address: balanceAddress.trim(), ether: balanceEther },
+      {
+        onSuccess: () =>
+          toast.success("Balance updated", {
+            description: `${shortenAddress(balanceAddress)} now holds ${balanceEther} ETH`,
+            duration: 3000,
+          }),
+        onError: reportError("Could not set balance"),
+      },
+    );
+
+  const handleImpersonate = () =>
+    actions.impersonate.mutate(impersonateAddress.trim(), {
+      onSuccess: () => {
+        setTxFrom(impersonateAddress.trim());
+        setImpersonateAddress("");
+      },
+      onError: reportError("Impersonation failed"),
+    });
+
+  const handleSnapshot = () =>
+    actions.snapshot.mutate(snapshotLabel || undefined, {
+      onSuccess: (snapshot) => {
+        setSnapshotLabel("");
+        toast.success("Snapshot taken", {
+          description: `${snapshot.label} at block ${snapshot.blockNumber}`,
+          duration: 3000,
+        });
+      },
+      onError: reportError("Snapshot failed"),
+    });
+
+  const handleRevert = (id: string) =>
+    actions.revert.mutate(id, {
+      onSuccess: (blockNumber) =>
+        toast.success("Reverted", {
+          description: `Chain is back at block ${blockNumber}`,
+          duration: 3000,
+        }),
+      onError: reportError("Revert failed"),
+    });
+
+  const handleSend = () =>
+    actions.sendTransaction.mutate(
+      {
+        from: txFrom,
+        to: txTo.trim() || undefined,
+        value: txValue,
+        data: txData.trim() || undefined,
+      },
+      {
+        onSuccess: (hash) => setLastTxHash(hash),
+        onError: reportError("Transaction failed"),
+      },
+    );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Section icon={<Hammer className="h-5 w-5" />} title="Mine Blocks">
+        <div className="flex gap-3">
+          <Input
+            type="number"
+            min={1}
+            value={blocks}
+            onChange={(e) => setBlocks(e.target.value)}
+            placeholder="Blocks"
+          />
+          <Input
+            type="number"
+            min={0}
+            value={miningInterval}
+            onChange={(e) => setMiningInterval(e.target.value)}
+            placeholder="Seconds between blocks"
+          />
+          <Button
+            onClick={handleMine}
+            disabled={actions.mine.isPending || !blocks}
+            className={primaryButtonClass}
+          >
+            {actions.mine.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Mine"
+            )}
+          </Button>
+        </div>
+      </Section>
+
+      <Section icon={<Coins className="h-5 w-5" />} title="Set Balance">
+        <div className="flex gap-3">
+          <Input
+            value={balanceAddress}
+            onChange={(e) => setBalanceAddress(e.target.value)}
+            placeholder="0x... address"
+            className="font-mono"
+          />
+          <Input
+            value={balanceEther}
+            onChange={(e) => setBalanceEther(e.target.value)}
+            placeholder="ETH"
+            className="w-32"
+          />
+          <Button
+            onClick={handleSetBalance}
+            disabled={actions.setBalance.isPending || !balanceAddress}
+            className={primaryButtonClass}
+          >
+            Set
+          </Button>
+        </div>
+      </Section>
+
+      <Section
+        icon={<UserCheck className="h-5 w-5" />}
+        title="Impersonate Account"
+      >
+        <div className="flex gap-3">
+          <Input
+            value={impersonateAddress}
+            onChange={(e) => setImpersonateAddress(e.target.value)}
+            placeholder="0x... address to send from"
+            className="font-mono"
+          />
+          <Button
+            onClick={handleImpersonate}
+            disabled={actions.impersonate.isPending || !impersonateAddress}
+            className={primaryButtonClass}
+          >
+            Impersonate
+          </Button>
+        </div>
+        {state && state.impersonated.length > 0 && (
+          <ul className="space-y-2">
+            {state.impersonated.map((address) => (
+              <li
+                key={address}
+                className="flex items-center justify-between text-sm font-mono text-[#8b9dc3]"
+              >
+                {address}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    actions.stopImpersonating.mutate(address, {
+                      onError: reportError("Could not stop impersonating"),
+                    })
+                  }
+                  className={outlineButtonClass}
+                >
+                  <UserX className="h-3 w-3 mr-1" />
+                  Stop
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <Section icon={<Camera className="h-5 w-5" />} title="Snapshots">
+        <div className="flex gap-3">
+          <Input
+            value={snapshotLabel}
+            onChange={(e) => setSnapshotLabel(e.target.value)}
+            placeholder="Label (optional)"
+          />
+          <Button
+            onClick={handleSnapshot}
+            disabled={actions.snapshot.isPending}
+            className={primaryButtonClass}
+          >
+            Snapshot
+          </Button>
+        </div>
+        {state && state.snapshots.length > 0 ? (
+          <ul className="space-y-2">
+            {[...state.snapshots].reverse().map((snapshot) => (
+              <li
+                key={snapshot.id}
+                className="flex items-center justify-between text-sm"
+              >
+                <span className="text-[#8b9dc3]">
+                  {snapshot.label}
+                  <span className="text-[#6b7280] ml-2">
+                    block {snapshot.blockNumber} ·{" "}
+                    {new Date(snapshot.createdAt).toLocaleTimeString()}
+                  </span>
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevert(snapshot.id)}
+                  disabled={actions.revert.isPending}
+                  className={outlineButtonClass}
+                >
+                  <History className="h-3 w-3 mr-1" />
+                  Revert
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-[#6b7280]">
+            Take a snapshot before changing state to return to it later.
+            Reverting discards the snapshot and all later ones.
+          </p>
+        )}
+      </Section>
+
+      <div className="lg:col-span-2">
+        <Section icon={<Send className="h-5 w-5" />} title="Send Transaction">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={txFrom}
+              onChange={(e) => setTxFrom(e.target.value)}
+              className="h-10 rounded-md border border-[rgba(0,191,255,0.3)] bg-[rgba(15,20,25,0.8)] px-3 text-sm text-[#8b9dc3] font-mono"
+            >
+              {senders.length === 0 && <option value="">No accounts</option>}
+              {senders.map((account) => (
+                <option key={account} value={account}>
+                  {account}
+                </option>
+              ))}
+            </select>
+            <Input
+              value={txTo}
+              onChange={(e) => setTxTo(e.target.value)}
+              placeholder="To (empty to deploy)"
+              className="font-mono"
+            />
+            <Input
+              value={txValue}
+              onChange={(e) => setTxValue(e.target.value)}
+              placeholder="Value in ETH"
+            />
+          </div>
+          <Input
+            value={txData}
+            onChange={(e) => setTxData(e.target.value)}
+            placeholder="Calldata or bytecode (0x...)"
+            className="font-mono"
+          />
+          <div className="flex items-center justify-between gap-4">
+            <Button
+              onClick={handleSend}
+              disabled={actions.sendTransaction.isPending || !txFrom}
+              className={primaryButtonClass}
+            >
+              {actions.sendTransaction.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 mr-2" />
+              )}
+              Send
+            </Button>
+            {lastTxHash && (
+              <div className="flex items-center gap-3 text-sm">
+                <span className="font-mono text-[#8b9dc3]">
+                  {shortenAddress(lastTxHash)}
+                </span>
+                <Link
+                  to={`/debug-trace/${lastTxHash}?network=${network}`}
+                  className="text-[#00bfff] hover:underline"
+                >
+                  Debug trace
+                </Link>
+                <Link
+                  to={`/trace-transaction/${lastTxHash}?network=${network}`}
+                  className="text-[#00bfff] hover:underline"
+                >
+                  Trace
+                </Link>
+              </div>
+            )}
+          </div>
+        </Section>
+      </div>
+    </div>
+  );
+}
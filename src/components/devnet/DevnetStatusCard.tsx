@@ -0,0 +1,65 @@
+import { Badge } from "@/components/global/Badge";
+import { DEVNET_LABELS, type DevnetInfo } from "@/lib/devnet";
+import { shortenAddress } from "@/lib/config";
+
+interface DevnetStatusCardProps {
+  info: DevnetInfo;
+  rpcUrl: string;
+}
+
+export function DevnetStatusCard({ info, rpcUrl }: DevnetStatusCardProps) {
+  const stats = [
+    { label: "Node", value: DEVNET_LABELS[info.kind] },
+    { label: "Chain ID", value: info.chainId.toString() },
+    { label: "Block", value: info.blockNumber.toLocaleString() },
+    { label: "Dev accounts", value: info.accounts.length.toString() },
+  ];
+
+  return (
+    <div className="bg-[rgba(25,28,40,0.8)] backdrop-blur-[10px] border border-[rgba(0,191,255,0.2)] rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-[#00bfff]">Local Node</h2>
+        <Badge variant="outline" className="font-mono text-xs">
+          {rpcUrl}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            className="bg-[rgba(15,20,25,0.6)] border border-[rgba(0,191,255,0.1)] rounded-lg p-3"
+          >
+            <div className="text-xs text-[#8b9dc3]">{stat.label}</div>
+            <div className="text-lg font-semibold text-[#00bfff]">
+              {stat.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {info.clientVersion && (
+        <p className="text-xs text-[#6b7280] mt-3 font-mono">
+          {info.clientVersion}
+        </p>
+      )}
+
+      {info.accounts.length > 0 && (
+        <div className="mt-4">
+          <div className="text-sm text-[#8b9dc3] mb-2">Unlocked accounts</div>
+          <div className="flex flex-wrap gap-2">
+            {info.accounts.slice(0, 10).map((account) => (
+              <span
+                key={account}
+                title={account}
+                className="px-2 py-1 text-xs font-mono bg-[rgba(0,191,255,0.1)] text-[#8b9dc3] rounded border border-[rgba(0,191,255,0.2)]"
+              >
+                {shortenAddress(account)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { DevnetStatusCard } from "./DevnetStatusCard";
+export { DevnetControlPanel } from "./DevnetControlPanel";
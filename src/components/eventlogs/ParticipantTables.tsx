@@ -2,6 +2,7 @@ import { useMemo, useState, useCallback } from "react";
 import { Button, Badge, Input, Dropdown } from "@/components/global";
 import type { ParsedTransferLog, TopParticipant } from "@/lib/eventlogs";
 import { formatPyusdValue } from "@/lib/eventlogs";
+import { useExplorerUrl } from "@/hooks/blockchain";
 import {
   Activity,
   AlertTriangle,
@@ -72,6 +73,7 @@ export function ParticipantTables({
   const [searchTerm, setSearchTerm] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null);
+  const explorerUrl = useExplorerUrl();
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
 
   const enhancedParticipants = useMemo(() => {
@@ -670,19 +672,21 @@ export function ParticipantTables({
                           <Copy className="h-3 w-3" />
                         )}
                       </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() =>
-                          window.open(
-                            `https://etherscan.io/address/${participant.address}`,
-                            "_blank"
-                          )
-                        }
-                        className="border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                      >
-                        <ExternalLink className="h-3 w-3" />
-                      </Button>
+                      {explorerUrl("address", participant.address) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            window.open(
+                              explorerUrl("address", participant.address)!,
+                              "_blank"
+                            )
+                          }
+                          className="border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                        </Button>
+                      )}
                     </div>
                   </td>
                 </tr>
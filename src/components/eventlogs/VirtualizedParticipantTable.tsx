@@ -30,6 +30,7 @@ import {
   Zap,
 } from "lucide-react";
 import { VirtualizedParticipantTable } from ".";
+import { useExplorerUrl } from "@/hooks/blockchain";
 
 // Define TopParticipant interface
 interface TopParticipant {
@@ -159,6 +160,7 @@ export function VirtualizedParticipantTable({
   const [showPerformancePanel, setShowPerformancePanel] = useState(false);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const explorerUrl = useExplorerUrl();
   const renderStartTime = useRef<number>(0);
   const lastScrollTime = useRef<number>(0);
 
@@ -343,15 +345,17 @@ export function VirtualizedParticipantTable({
                       <Copy className="h-3 w-3" />
                     )}
                   </button>
-                  <a
-                    href={`https://etherscan.io/address/${participant.address}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-[#8b9dc3] hover:text-[#00bfff] transition-colors"
-                    title="View on Etherscan"
-                  >
-                    <ExternalLink className="h-3 w-3" />
-                  </a>
+                  {explorerUrl("address", participant.address) && (
+                    <a
+                      href={explorerUrl("address", participant.address)!}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-[#8b9dc3] hover:text-[#00bfff] transition-colors"
+                      title="View on explorer"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
                 </div>
                 <Badge
                   variant={
@@ -389,7 +393,7 @@ export function VirtualizedParticipantTable({
         </tr>
       );
     },
-    [getParticipantCategory, handleCopyAddress, copiedAddress]
+    [getParticipantCategory, handleCopyAddress, copiedAddress, explorerUrl]
   );
 
   const renderVirtualizedTable = useCallback(
@@ -1,10 +1,12 @@
 import { useEffect, useState } from "react";
 import { Button } from "@/components/global/Button";
 import { Input } from "@/components/global/Input";
+import { NetworkSelector } from "@/components/global/NetworkSelector";
 
 import { Dropdown } from "@/components/global/Dropdown";
 import type { LogsQueryConfig } from "@/lib/eventlogs";
 import { BLOCK_PATTERNS, PYUSD_CONFIG } from "@/lib/eventlogs";
+import type { NetworkId } from "@/lib/networks";
 import { Tooltip } from "@/components/global/Tooltip";
 import {
   AlertCircle,
@@ -20,9 +22,8 @@ import { useBlockchainStatus } from "@/hooks/blockchain";
 interface QueryControlsProps {
   onAnalyze: (config: LogsQueryConfig) => void;
   loading?: boolean;
-  networks: Array<{ value: string; label: string }>;
-  currentNetwork: "mainnet" | "sepolia";
-  onNetworkChange: (network: "mainnet" | "sepolia") => void;
+  currentNetwork: NetworkId;
+  onNetworkChange: (network: NetworkId) => void;
   // BookmarkManager props
   queryParams?: LogsQueryConfig;
   analysisResults?: {
@@ -525,38 +526,10 @@ export function QueryControls({
               <label className="text-sm text-[#8b9dc3] font-medium">
                 Network
               </label>
-              <div className="flex gap-2">
-                <Button
-                  variant={currentNetwork === "mainnet" ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => {
-                    onNetworkChange("mainnet");
-                  }}
-                  className={
-                    currentNetwork === "mainnet"
-                      ? "bg-[#00bfff] text-[#0f1419]"
-                      : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                  }
-                >
-                  <Network className="h-3 w-3 mr-1" />
-                  Mainnet
-                </Button>
-                <Button
-                  variant={currentNetwork === "sepolia" ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => {
-                    onNetworkChange("sepolia");
-                  }}
-                  className={
-                    currentNetwork === "sepolia"
-                      ? "bg-[#00bfff] text-[#0f1419]"
-                      : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                  }
-                >
-                  <Network className="h-3 w-3 mr-1" />
-                  Sepolia
-                </Button>
-              </div>
+              <NetworkSelector
+                value={currentNetwork}
+                onChange={(network) => onNetworkChange(network.id)}
+              />
             </div>
 
             <div className="space-y-2">
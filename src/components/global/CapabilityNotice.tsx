@@ -0,0 +1,47 @@
+import { Alert } from "./Alert";
+import {
+  RPC_CAPABILITIES,
+  type CapabilityRequirement,
+  type RequirementCheck,
+} from "@/lib/capabilities";
+
+interface CapabilityNoticeProps {
+  check: RequirementCheck;
+  className?: string;
+}
+
+const describe = (requirement: CapabilityRequirement) => {
+  const definition = RPC_CAPABILITIES[requirement.capability];
+  return `${requirement.feature} needs ${definition.label.toLowerCase()} (${definition.method})`;
+};
+
+export function CapabilityNotice({ check, className }: CapabilityNoticeProps) {
+  if (!check.ready || (check.satisfied && check.degraded.length === 0)) {
+    return null;
+  }
+
+  const blocked = check.missing.length > 0;
+
+  return (
+    <Alert variant={blocked ? "destructive" : "warning"} className={className}>
+      <div>
+        <div className="font-medium">
+          {blocked
+            ? "The connected RPC endpoint cannot run this analysis"
+            : "Some features are unavailable on the connected RPC endpoint"}
+        </div>
+        <ul className="text-sm mt-1 space-y-1">
+          {[...check.missing, ...check.degraded].map((requirement) => (
+            <li key={requirement.capability}>{describe(requirement)}</li>
+          ))}
+        </ul>
+        {blocked && (
+          <div className="text-sm mt-2">
+            Add an endpoint with tracing enabled in Settings → Network, or
+            switch to a network whose endpoint supports these methods.
+          </div>
+        )}
+      </div>
+    </Alert>
+  );
+}
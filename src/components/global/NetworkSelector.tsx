@@ -0,0 +1,43 @@
+import { Network } from "lucide-react";
+import { Button } from "./Button";
+import { useNetworks } from "@/hooks/blockchain/useNetworks";
+import type { NetworkConfig, NetworkId } from "@/lib/networks";
+import { cn } from "@/lib/utils";
+
+interface NetworkSelectorProps {
+  value: NetworkId;
+  onChange: (network: NetworkConfig) => void;
+  activeClassName?: string;
+  className?: string;
+}
+
+export function NetworkSelector({
+  value,
+  onChange,
+  activeClassName = "bg-[#00bfff] text-[#0f1419]",
+  className,
+}: NetworkSelectorProps) {
+  const { networks } = useNetworks();
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {networks.map((network) => (
+        <Button
+          key={network.id}
+          variant={value === network.id ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(network)}
+          title={`${network.name} (Chain ID ${network.chainId})`}
+          className={
+            value === network.id
+              ? activeClassName
+              : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+          }
+        >
+          <Network className="h-3 w-3 mr-1" />
+          {network.name}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { Alert } from "./Alert";
+import { Button } from "./Button";
+import type { StateAvailability } from "@/lib/capabilities";
+
+interface StateAvailabilityNoticeProps {
+  availability: StateAvailability | null | undefined;
+  // Label of the input the block came from, when a form has several.
+  label?: string;
+  onUseBlock?: (blockNumber: number) => void;
+  className?: string;
+}
+
+export function StateAvailabilityNotice({
+  availability,
+  label,
+  onUseBlock,
+  className,
+}: StateAvailabilityNoticeProps) {
+  if (!availability || availability.available) {
+    return null;
+  }
+
+  const { blockNumber, earliestBlock, suggestedBlock } = availability;
+
+  return (
+    <Alert variant="warning" className={className}>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium">
+            {label ? `${label}: s` : "S"}tate at block{" "}
+            {blockNumber.toLocaleString()} is not available on this node
+          </div>
+          <div className="text-sm mt-1">
+            The connected endpoint is not an archive node and keeps state from
+            about block {earliestBlock.toLocaleString()}. Queries against older
+            blocks will fail; use a later block or add an archive endpoint in
+            Settings → Network.
+          </div>
+        </div>
+        {onUseBlock && suggestedBlock !== null && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onUseBlock(suggestedBlock)}
+            className="shrink-0 border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+          >
+            Use block {suggestedBlock.toLocaleString()}
+          </Button>
+        )}
+      </div>
+    </Alert>
+  );
+}
@@ -3,11 +3,14 @@ export * from "./Avatar";
 export * from "./Badge";
 export * from "./Breadcrumb";
 export * from "./Button";
+export * from "./CapabilityNotice";
+export * from "./StateAvailabilityNotice";
 export * from "./Card";
 export * from "./Checkbox";
 export * from "./Dropdown";
 export * from "./Input";
 export * from "./Label";
+export * from "./NetworkSelector";
 export * from "./Separator";
 export * from "./Tooltip";
 
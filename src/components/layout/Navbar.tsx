@@ -158,6 +158,7 @@ export default function Navbar() {
         { name: "Trace Transaction", href: "/trace-transaction" },
         { name: "Transaction Simulator", href: "/transaction-simulation" },
         { name: "Transaction Replay", href: "/replay-transactions" },
+        { name: "Tracer Workbench", href: "/tracer-workbench" },
       ],
     },
     {
@@ -181,6 +182,10 @@ export default function Navbar() {
       name: "Network Monitor",
       href: "/network-monitor",
     },
+    {
+      name: "Devnet",
+      href: "/devnet",
+    },
   ];
 
   const isActiveLink = (href: string) => {
@@ -0,0 +1,83 @@
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/global/Button";
+import { Alert } from "@/components/global/Alert";
+import { PyusdTransactionTable } from "./PyusdTransactionTable";
+import { LiveStatusBadge } from "./LiveStatusBadge";
+import { useLivePyusdTransactions, useMempoolFilters } from "@/hooks/mempool";
+import { getNetworkName } from "@/lib/networks";
+
+interface LivePyusdTransactionsProps {
+  network: string;
+  enabled?: boolean;
+}
+
+export function LivePyusdTransactions({
+  network,
+  enabled = true,
+}: LivePyusdTransactionsProps) {
+  const live = useLivePyusdTransactions(network, enabled);
+  const filters = useMempoolFilters({
+    initialSort: { field: "timestamp", direction: "desc" },
+  });
+  const page = filters.processedPyusdTransactions(live.transactions);
+
+  if (!live.isSupported) {
+    return (
+      <Alert variant="warning">
+        PYUSD is not deployed on {getNetworkName(network)}, so there is no
+        pending PYUSD activity to stream.
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="bg-[rgba(25,28,40,0.8)] backdrop-blur-[10px] border border-[rgba(0,191,255,0.2)] rounded-lg p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-[#00bfff]">
+            Pending PYUSD Transactions
+          </h3>
+          <p className="text-sm text-[#8b9dc3]">
+            {live.transactions.length.toLocaleString()} pending ·{" "}
+            {live.confirmedCount.toLocaleString()} mined since the stream
+            started
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <LiveStatusBadge state={live.state} />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={live.clear}
+            disabled={live.transactions.length === 0}
+            className="border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+          >
+            <Trash2 className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {live.state.status === "unavailable" ? (
+        <Alert variant="warning">
+          Streaming pending transactions needs a WebSocket endpoint for{" "}
+          {getNetworkName(network)}. Add one in Settings → Network.
+        </Alert>
+      ) : (
+        <PyusdTransactionTable
+          transactions={page.items}
+          totalItems={page.totalItems}
+          currentPage={page.currentPage}
+          totalPages={page.totalPages}
+          pageSize={page.pageSize}
+          sortConfig={filters.sortConfig}
+          searchQuery={filters.searchQuery}
+          onSort={(field) => filters.updateSort(field)}
+          onSearch={filters.setSearchQuery}
+          onPageChange={filters.goToPage}
+          network={network}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Radio, WifiOff } from "lucide-react";
+import { Badge } from "@/components/global/Badge";
+import type { SubscriptionState } from "@/lib/subscriptions";
+
+interface LiveStatusBadgeProps {
+  state: SubscriptionState;
+  label?: string;
+}
+
+export function LiveStatusBadge({ state, label }: LiveStatusBadgeProps) {
+  const prefix = label ? `${label}: ` : "";
+  const skipped = state.skippedBlocks.reduce(
+    (total, range) => total + range.to - range.from + 1,
+    0,
+  );
+
+  switch (state.status) {
+    case "live":
+      return (
+        <Badge
+          variant={skipped > 0 ? "warning" : "success"}
+          title={
+            skipped > 0
+              ? `Not back-filled after reconnecting: ${state.skippedBlocks
+                  .map((range) => `#${range.from}-#${range.to}`)
+                  .join(", ")}`
+              : (state.url ?? undefined)
+          }
+        >
+          <Radio className="h-3 w-3 mr-1" />
+          {prefix}Live
+          {state.lastBlock !== null &&
+            ` · #${state.lastBlock.toLocaleString()}`}
+          {skipped > 0 && ` · ${skipped.toLocaleString()} blocks missed`}
+        </Badge>
+      );
+    case "connecting":
+    case "reconnecting":
+      return (
+        <Badge variant="warning" title={state.error ?? undefined}>
+          <Radio className="h-3 w-3 mr-1 animate-pulse" />
+          {prefix}
+          {state.status === "connecting"
+            ? "Connecting"
+            : `Reconnecting (attempt ${state.reconnectAttempts})`}
+        </Badge>
+      );
+    case "unavailable":
+      return (
+        <Badge variant="secondary" title={state.error ?? undefined}>
+          <WifiOff className="h-3 w-3 mr-1" />
+          {prefix}Polling
+        </Badge>
+      );
+    default:
+      return null;
+  }
+}
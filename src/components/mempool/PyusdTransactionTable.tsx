@@ -20,6 +20,8 @@ import {
 } from "lucide-react";
 import type { PyusdTransaction } from "@/lib/mempool/types";
 import { shortenAddress } from "@/lib/config";
+import { useExplorerUrl } from "@/hooks/blockchain";
+import type { NetworkId } from "@/lib/networks";
 
 interface PyusdTransactionTableProps {
   transactions: PyusdTransaction[];
@@ -35,6 +37,8 @@ interface PyusdTransactionTableProps {
   onPageChange: (page: number) => void;
   onTransactionClick?: (transaction: PyusdTransaction) => void;
   className?: string;
+  // Explorer links point here instead of the connected network.
+  network?: NetworkId;
 }
 
 export const PyusdTransactionTable: React.FC<PyusdTransactionTableProps> = ({
@@ -51,7 +55,10 @@ export const PyusdTransactionTable: React.FC<PyusdTransactionTableProps> = ({
   onPageChange,
   onTransactionClick,
   className,
+  network,
 }) => {
+  const explorerUrl = useExplorerUrl(network);
+
   const getSortIcon = (field: string) => {
     if (sortConfig.field !== field) {
       return <ArrowUpDown className="h-4 w-4 text-[#6b7280]" />;
@@ -89,9 +96,9 @@ export const PyusdTransactionTable: React.FC<PyusdTransactionTableProps> = ({
     return `${value.toFixed(6)} ETH`;
   };
 
-  const openEtherscan = (hash: string) => {
-    const baseUrl = "https://etherscan.io/tx/";
-    window.open(`${baseUrl}${hash}`, "_blank");
+  const openExplorer = (hash: string) => {
+    const url = explorerUrl("tx", hash);
+    if (url) window.open(url, "_blank");
   };
 
   if (loading) {
@@ -216,17 +223,19 @@ export const PyusdTransactionTable: React.FC<PyusdTransactionTableProps> = ({
                       <span className="text-[#00bfff]">
                         {shortenAddress(transaction.hash)}
                       </span>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          openEtherscan(transaction.hash);
-                        }}
-                        className="h-6 w-6 p-0 hover:bg-[rgba(0,191,255,0.1)]"
-                      >
-                        <ExternalLink className="h-3 w-3" />
-                      </Button>
+                      {explorerUrl("tx", transaction.hash) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openExplorer(transaction.hash);
+                          }}
+                          className="h-6 w-6 p-0 hover:bg-[rgba(0,191,255,0.1)]"
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
 
@@ -265,17 +274,19 @@ export const PyusdTransactionTable: React.FC<PyusdTransactionTableProps> = ({
 
                   <TableCell>
                     <div className="flex items-center gap-1">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          openEtherscan(transaction.hash);
-                        }}
-                        className="h-8 w-8 p-0 hover:bg-[rgba(0,191,255,0.1)]"
-                      >
-                        <ExternalLink className="h-4 w-4" />
-                      </Button>
+                      {explorerUrl("tx", transaction.hash) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openExplorer(transaction.hash);
+                          }}
+                          className="h-8 w-8 p-0 hover:bg-[rgba(0,191,255,0.1)]"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
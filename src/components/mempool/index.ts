@@ -2,3 +2,5 @@ export { NetworkStatusCard } from "./NetworkStatusCard";
 export { CongestionGauge } from "./CongestionGauge";
 export { NetworkComparisonChart } from "./NetworkComparisonChart";
 export { PyusdTransactionTable } from "./PyusdTransactionTable";
+export { LiveStatusBadge } from "./LiveStatusBadge";
+export { LivePyusdTransactions } from "./LivePyusdTransactions";
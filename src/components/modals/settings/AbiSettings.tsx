@@ -0,0 +1,97 @@
+import { motion } from "framer-motion";
+import { AbiRegistryManager } from "@/components/abi";
+import { SignatureDatabaseManager } from "@/components/signatures";
+import { useNetworkSwitcher } from "@/hooks/blockchain";
+import { DEFAULT_NETWORK_ID } from "@/lib/networks";
+
+const contentVariants = {
+  hidden: {
+    opacity: 0,
+    x: 10,
+    transition: {
+      duration: 0.15,
+      ease: [0.4, 0, 0.2, 1] as const,
+    },
+  },
+  visible: {
+    opacity: 1,
+    x: 0,
+    transition: {
+      duration: 0.2,
+      ease: [0.4, 0, 0.2, 1] as const,
+    },
+  },
+  exit: {
+    opacity: 0,
+    x: -10,
+    transition: {
+      duration: 0.15,
+      ease: [0.4, 0, 0.6, 1] as const,
+    },
+  },
+};
+
+const itemVariants = {
+  hidden: {
+    opacity: 0,
+    y: 20,
+    scale: 0.95,
+  },
+  visible: {
+    opacity: 1,
+    y: 0,
+    scale: 1,
+    transition: {
+      duration: 0.3,
+      ease: [0.4, 0, 0.2, 1] as const,
+    },
+  },
+};
+
+export const AbiSettings = () => {
+  const { currentNetwork } = useNetworkSwitcher();
+
+  return (
+    <motion.div
+      className="space-y-4"
+      variants={contentVariants}
+      initial="hidden"
+      animate="visible"
+      exit="exit"
+      key="abis"
+    >
+      <motion.div variants={itemVariants}>
+        <h3 className="text-[#00bfff] text-lg font-semibold mb-2">
+          ABI Registry
+        </h3>
+        <p className="text-[#8b9dc3] text-sm mb-4">
+          Contract ABIs and signatures used to decode calls, events and errors.
+        </p>
+      </motion.div>
+
+      <motion.div
+        className="p-4 border border-[rgba(0,191,255,0.2)] rounded-lg"
+        variants={itemVariants}
+        initial="hidden"
+        animate="visible"
+      >
+        <AbiRegistryManager network={currentNetwork ?? DEFAULT_NETWORK_ID} />
+      </motion.div>
+
+      <motion.div variants={itemVariants}>
+        <h4 className="text-[#00bfff] text-base font-semibold mb-2">
+          Signature Database
+        </h4>
+      </motion.div>
+
+      <motion.div
+        className="p-4 border border-[rgba(0,191,255,0.2)] rounded-lg"
+        variants={itemVariants}
+        initial="hidden"
+        animate="visible"
+      >
+        <SignatureDatabaseManager />
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -1,5 +1,6 @@
 import { motion } from "framer-motion";
 import { Button } from "@/components/global";
+import { RpcSessionPanel } from "@/components/rpcsession";
 
 const contentVariants = {
   hidden: {
@@ -80,6 +81,13 @@ export const ExportSettings = () => (
       initial="hidden"
       animate="visible"
     >
+      <motion.div
+        className="p-4 border border-[rgba(0,191,255,0.2)] rounded-lg transition-colors duration-200 ease-out hover:border-[rgba(0,191,255,0.4)] hover:bg-[rgba(0,191,255,0.02)]"
+        variants={itemVariants}
+      >
+        <RpcSessionPanel />
+      </motion.div>
+
       <motion.div
         className="p-4 border border-[rgba(0,191,255,0.2)] rounded-lg transition-colors duration-200 ease-out hover:border-[rgba(0,191,255,0.4)] hover:bg-[rgba(0,191,255,0.02)]"
         variants={itemVariants}
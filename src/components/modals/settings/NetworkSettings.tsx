@@ -1,7 +1,15 @@
 import { useEffect, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
-import { useNetworkSwitcher } from "@/hooks/blockchain";
-import { Check, Loader2 } from "lucide-react";
+import {
+  useExecutionClient,
+  useNetworks,
+  useNetworkSwitcher,
+  useRpcPoolHealth,
+} from "@/hooks/blockchain";
+import { Button, Input } from "@/components/global";
+import type { NetworkId, NetworkInput } from "@/lib/networks";
+import type { EndpointHealth } from "@/lib/rpc";
+import { Check, Loader2, Plus, Trash2 } from "lucide-react";
 
 const contentVariants = {
   hidden: {
@@ -58,6 +66,31 @@ const itemVariants = {
   },
 };
 
+const emptyForm = {
+  name: "",
+  chainId: "",
+  rpcUrl: "",
+  fallbackRpcUrls: "",
+  wsUrl: "",
+  blockExplorer: "",
+  currencySymbol: "ETH",
+  currencyDecimals: "18",
+  isTestnet: false,
+};
+
+const getNetworkColor = (network: { id: NetworkId; isTestnet?: boolean }) => {
+  if (network.id === "mainnet") return "bg-green-500";
+  return network.isTestnet ? "bg-yellow-500" : "bg-purple-500";
+};
+
+const getCircuitColor = (endpoint: EndpointHealth) => {
+  if (endpoint.circuit === "open") return "bg-red-500";
+  if (endpoint.circuit === "half-open" || endpoint.errorRate > 0.2) {
+    return "bg-yellow-500";
+  }
+  return "bg-green-500";
+};
+
 export const NetworkSettings = () => {
   const {
     switchNetwork,
@@ -65,9 +98,17 @@ export const NetworkSettings = () => {
     currentNetwork,
   } = useNetworkSwitcher();
 
-  const [optimisticNetwork, setOptimisticNetwork] = useState<
-    "mainnet" | "sepolia" | null
-  >(null);
+  const { networks, addNetwork, removeNetwork, validateNetwork } =
+    useNetworks();
+
+  const [optimisticNetwork, setOptimisticNetwork] = useState<NetworkId | null>(
+    null,
+  );
+  const { data: endpointHealth = [] } = useRpcPoolHealth();
+  const { data: executionClient } = useExecutionClient(currentNetwork);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
 
   useEffect(() => {
     setOptimisticNetwork(null);
@@ -75,30 +116,56 @@ export const NetworkSettings = () => {
 
   const displayNetwork = optimisticNetwork || currentNetwork;
 
-  const networks = [
-    {
-      id: "mainnet" as const,
-      name: "Ethereum Mainnet",
-      description: "Main Ethereum network with real ETH and live transactions",
-      chainId: 1,
-      color: "bg-green-500",
-      rpc: "https://your-mainnet-rpc-endpoint.com",
-    },
-    {
-      id: "sepolia" as const,
-      name: "Sepolia Testnet",
-      description: "Ethereum test network for development and testing",
-      chainId: 11155111,
-      color: "bg-yellow-500",
-      rpc: "https://your-sepolia-rpc-endpoint.com",
-    },
-  ];
-
-  const handleNetworkSwitch = async (networkId: "mainnet" | "sepolia") => {
+  const handleNetworkSwitch = async (networkId: NetworkId) => {
     setOptimisticNetwork(networkId);
     switchNetwork(networkId);
   };
 
+  const buildNetworkInput = (): NetworkInput => ({
+    name: form.name,
+    chainId: Number(form.chainId),
+    rpcUrl: form.rpcUrl,
+    fallbackRpcUrls: form.fallbackRpcUrls
+      .split(",")
+      .map((url) => url.trim())
+      .filter(Boolean),
+    wsUrl: form.wsUrl.trim() || undefined,
+    blockExplorer: form.blockExplorer || undefined,
+    nativeCurrency: {
+      name: form.currencySymbol,
+      symbol: form.currencySymbol,
+      decimals: Number(form.currencyDecimals),
+    },
+    isTestnet: form.isTestnet,
+  });
+
+  const handleAddNetwork = () => {
+    const input = buildNetworkInput();
+    const validation = validateNetwork(input);
+    if (!validation.isValid) {
+      setFormErrors(validation.errors);
+      return;
+    }
+
+    try {
+      addNetwork(input);
+      setForm(emptyForm);
+      setFormErrors([]);
+      setShowAddForm(false);
+    } catch (error) {
+      setFormErrors([
+        error instanceof Error ? error.message : "Failed to add network",
+      ]);
+    }
+  };
+
+  const handleRemoveNetwork = (networkId: NetworkId) => {
+    if (currentNetwork === networkId) {
+      switchNetwork("mainnet");
+    }
+    removeNetwork(networkId);
+  };
+
   return (
     <motion.div
       className="space-y-4"
@@ -136,7 +203,9 @@ export const NetworkSettings = () => {
           >
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
-                <div className={`w-3 h-3 rounded-full ${network.color}`} />
+                <div
+                  className={`w-3 h-3 rounded-full ${getNetworkColor(network)}`}
+                />
                 <div>
                   <div className="flex items-center gap-2">
                     <h4
@@ -150,20 +219,66 @@ export const NetworkSettings = () => {
                       </span>
                     )}
                   </div>
-                  <p className="text-[#8b9dc3] text-xs mt-1">
-                    {network.description}
+                  <p className="text-[#8b9dc3] text-xs mt-1 font-mono truncate max-w-[320px]">
+                    {network.rpcUrl}
+                    {network.fallbackRpcUrls?.length
+                      ? ` (+${network.fallbackRpcUrls.length} fallback)`
+                      : ""}
                   </p>
                   <div className="flex items-center gap-4 mt-2">
                     <span className="text-[#6b7280] text-xs">
                       Chain ID: {network.chainId}
                     </span>
+                    <span className="text-[#6b7280] text-xs">
+                      {network.nativeCurrency.symbol}
+                    </span>
                     <span className="text-[#6b7280] text-xs">
                       Status:{" "}
                       {displayNetwork === network.id
                         ? "Connected"
                         : "Available"}
                     </span>
+                    {currentNetwork === network.id && executionClient && (
+                      <span
+                        className="text-[#6b7280] text-xs"
+                        title={
+                          executionClient.profile.quirks.join("\n") ||
+                          executionClient.raw ||
+                          undefined
+                        }
+                      >
+                        Client: {executionClient.profile.label}
+                        {executionClient.version &&
+                          ` ${executionClient.version}`}
+                      </span>
+                    )}
                   </div>
+                  {currentNetwork === network.id &&
+                    endpointHealth.length > 1 && (
+                      <ul className="mt-2 space-y-1">
+                        {endpointHealth.map((endpoint) => (
+                          <li
+                            key={endpoint.url}
+                            className="flex items-center gap-2 text-xs"
+                            title={endpoint.lastError || undefined}
+                          >
+                            <span
+                              className={`w-2 h-2 rounded-full ${getCircuitColor(endpoint)}`}
+                            />
+                            <span className="text-[#8b9dc3] font-mono truncate max-w-[220px]">
+                              {endpoint.url}
+                            </span>
+                            <span className="text-[#6b7280]">
+                              {endpoint.latencyMs !== null
+                                ? `${endpoint.latencyMs}ms`
+                                : "untested"}
+                              {endpoint.errorRate > 0 &&
+                                ` · ${Math.round(endpoint.errorRate * 100)}% errors`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                 </div>
               </div>
 
@@ -195,6 +310,19 @@ export const NetworkSettings = () => {
                     </motion.div>
                   ) : null}
                 </AnimatePresence>
+                {!network.isBuiltIn && (
+                  <button
+                    type="button"
+                    className="ml-3 text-[#6b7280] hover:text-red-400 transition-colors"
+                    title={`Remove ${network.name}`}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      handleRemoveNetwork(network.id);
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -205,15 +333,126 @@ export const NetworkSettings = () => {
         className="mt-6 p-4 bg-[rgba(0,191,255,0.05)] border border-[rgba(0,191,255,0.2)] rounded-lg"
         variants={itemVariants}
       >
-        <h4 className="text-[#00bfff] text-sm font-medium mb-2">
-          Custom RPC Endpoint
-        </h4>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-[#00bfff] text-sm font-medium">
+            Custom Networks
+          </h4>
+          {!showAddForm && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowAddForm(true)}
+              className="border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add Network
+            </Button>
+          )}
+        </div>
         <p className="text-[#8b9dc3] text-xs mb-3">
-          You can configure custom RPC endpoints in your environment variables.
+          Add any EVM chain by chain ID and RPC URL. Custom networks are saved
+          to your account on this device and are available on every analysis
+          page.
         </p>
-        <div className="text-[#6b7280] text-xs font-mono">
-          VITE_ETHEREUM_RPC_URL=your_custom_endpoint
-        </div>
+
+        {showAddForm && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                placeholder="Network name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+              <Input
+                placeholder="Chain ID"
+                inputMode="numeric"
+                value={form.chainId}
+                onChange={(e) => setForm({ ...form, chainId: e.target.value })}
+              />
+            </div>
+            <Input
+              placeholder="RPC URL (https://...)"
+              value={form.rpcUrl}
+              onChange={(e) => setForm({ ...form, rpcUrl: e.target.value })}
+            />
+            <Input
+              placeholder="Fallback RPC URLs, comma separated (optional)"
+              value={form.fallbackRpcUrls}
+              onChange={(e) =>
+                setForm({ ...form, fallbackRpcUrls: e.target.value })
+              }
+            />
+            <Input
+              placeholder="WebSocket URL for live data (optional, wss://...)"
+              value={form.wsUrl}
+              onChange={(e) => setForm({ ...form, wsUrl: e.target.value })}
+            />
+            <Input
+              placeholder="Block explorer URL (optional)"
+              value={form.blockExplorer}
+              onChange={(e) =>
+                setForm({ ...form, blockExplorer: e.target.value })
+              }
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                placeholder="Currency symbol"
+                value={form.currencySymbol}
+                onChange={(e) =>
+                  setForm({ ...form, currencySymbol: e.target.value })
+                }
+              />
+              <Input
+                placeholder="Decimals"
+                inputMode="numeric"
+                value={form.currencyDecimals}
+                onChange={(e) =>
+                  setForm({ ...form, currencyDecimals: e.target.value })
+                }
+              />
+            </div>
+            <label className="flex items-center gap-2 text-[#8b9dc3] text-xs">
+              <input
+                type="checkbox"
+                checked={form.isTestnet}
+                onChange={(e) =>
+                  setForm({ ...form, isTestnet: e.target.checked })
+                }
+              />
+              Testnet or development network
+            </label>
+
+            {formErrors.length > 0 && (
+              <ul className="text-red-400 text-xs space-y-1">
+                {formErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setShowAddForm(false);
+                  setFormErrors([]);
+                  setForm(emptyForm);
+                }}
+                className="border-[rgba(0,191,255,0.3)] text-[#8b9dc3]"
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleAddNetwork}
+                className="bg-[#00bfff] text-[#0f1419] hover:bg-[#0099cc]"
+              >
+                Save Network
+              </Button>
+            </div>
+          </div>
+        )}
       </motion.div>
     </motion.div>
   );
@@ -6,13 +6,22 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/Dialog";
-import { Download, Globe, Info, Network, Settings, User } from "lucide-react";
+import {
+  Braces,
+  Download,
+  Globe,
+  Info,
+  Network,
+  Settings,
+  User,
+} from "lucide-react";
 
 import { useModalState } from "@/hooks/shared";
 
 // Import smaller components
 import { ProfileSettings } from "./profile";
 import {
+  AbiSettings,
   AboutSettings,
   ApiSettings,
   ExportSettings,
@@ -28,6 +37,7 @@ interface SettingsModalProps {
     | "network"
     | "preferences"
     | "api"
+    | "abis"
     | "export"
     | "about";
 }
@@ -39,7 +49,7 @@ export default function SettingsModal({
 }: SettingsModalProps) {
   const { modalState, updateModalState } = useModalState();
   const [activeTab, setActiveTab] = useState<
-    "profile" | "network" | "preferences" | "api" | "export" | "about"
+    "profile" | "network" | "preferences" | "api" | "abis" | "export" | "about"
   >(modalState.tab || initialTab || "profile");
 
   // Update active tab when modalState changes
@@ -86,6 +96,7 @@ export default function SettingsModal({
     { id: "network", label: "Network", icon: Network },
     { id: "preferences", label: "Preferences", icon: Settings },
     { id: "api", label: "API Settings", icon: Globe },
+    { id: "abis", label: "ABI Registry", icon: Braces },
     { id: "export", label: "Export Data", icon: Download },
     { id: "about", label: "About", icon: Info },
   ];
@@ -100,6 +111,8 @@ export default function SettingsModal({
         return <PreferencesSettings />;
       case "api":
         return <ApiSettings />;
+      case "abis":
+        return <AbiSettings />;
       case "export":
         return <ExportSettings />;
       case "about":
@@ -3,3 +3,4 @@ export { PreferencesSettings } from "./PreferencesSettings";
 export { ApiSettings } from "./ApiSettings";
 export { ExportSettings } from "./ExportSettings";
 export { AboutSettings } from "./AboutSettings";
+export { AbiSettings } from "./AbiSettings";
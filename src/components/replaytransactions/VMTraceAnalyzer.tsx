@@ -1,6 +1,12 @@
 import React, { useCallback, useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
 import { Badge, Button, Input } from "@/components/global";
+import {
+  SourceGasBreakdown,
+  SourceLocationView,
+} from "@/components/sourcemaps";
+import { useVmTraceSourceMaps } from "@/hooks/sourcemaps";
+import { sourceMapService } from "@/lib/sourcemaps";
 import {
   AlertTriangle,
   Clock,
@@ -8,6 +14,7 @@ import {
   Database,
   Download,
   Eye,
+  FileCode,
   Hash,
   Layers,
   MemoryStick,
@@ -30,7 +37,10 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
-import type { ProcessedReplayData } from "@/lib/replaytransactions/types";
+import type {
+  ProcessedReplayData,
+  VmTraceResult,
+} from "@/lib/replaytransactions/types";
 import { VISUALIZATION_COLORS } from "@/lib/replaytransactions/constants";
 
 interface VMTraceAnalyzerProps {
@@ -49,6 +59,8 @@ interface VMTraceStep {
   stack: string[];
   memory: string[];
   storage: Record<string, string>;
+  // Code of the executing frame, used to find its source map.
+  code: string | null;
   error?: string;
   reason?: string;
 }
@@ -87,7 +99,7 @@ export const VMTraceAnalyzer: React.FC<VMTraceAnalyzerProps> = ({
   onOpcodeSelect,
 }) => {
   const [selectedView, setSelectedView] = useState<
-    "timeline" | "opcodes" | "memory" | "storage" | "bottlenecks"
+    "timeline" | "opcodes" | "memory" | "storage" | "bottlenecks" | "source"
   >("timeline");
   const [currentStep, setCurrentStep] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -97,6 +109,8 @@ export const VMTraceAnalyzer: React.FC<VMTraceAnalyzerProps> = ({
   const [showOnlyErrors, setShowOnlyErrors] = useState(false);
 
   const vmTraceSteps = useMemo((): VMTraceStep[] => {
+    if (processedData.vmTrace) return flattenVmTrace(processedData.vmTrace);
+
     const steps: VMTraceStep[] = [];
 
     const opcodes = [
@@ -213,13 +227,37 @@ export const VMTraceAnalyzer: React.FC<VMTraceAnalyzerProps> = ({
         stack: [...stack],
         memory: [...memory],
         storage: { ...storage },
+        code: null,
         error: hasError ? "OUT_OF_GAS" : undefined,
         reason: hasError ? "Insufficient gas for operation" : undefined,
       });
     }
 
     return steps;
-  }, []);
+  }, [processedData.vmTrace]);
+
+  const { data: sourceMaps } = useVmTraceSourceMaps(
+    processedData.transactionHash,
+    processedData.vmTrace,
+  );
+
+  const getSourceMap = useCallback(
+    (step: VMTraceStep) => (step.code && sourceMaps?.get(step.code)) || null,
+    [sourceMaps],
+  );
+
+  const sourceAttribution = useMemo(() => {
+    if (!sourceMaps || Array.from(sourceMaps.values()).every((map) => !map)) {
+      return null;
+    }
+    return sourceMapService.attributeGas(
+      vmTraceSteps.map((step) => ({
+        pc: step.pc,
+        gas: step.gasCost,
+        contract: getSourceMap(step),
+      })),
+    );
+  }, [sourceMaps, vmTraceSteps, getSourceMap]);
 
   const opcodeAnalysis = useMemo((): OpcodeAnalysis[] => {
     const opcodeMap = new Map<string, { count: number; totalGas: number }>();
@@ -428,6 +466,7 @@ export const VMTraceAnalyzer: React.FC<VMTraceAnalyzerProps> = ({
                 "memory",
                 "storage",
                 "bottlenecks",
+                "source",
               ] as const
             ).map((view) => (
               <Button
@@ -444,6 +483,7 @@ export const VMTraceAnalyzer: React.FC<VMTraceAnalyzerProps> = ({
                 {view === "bottlenecks" && (
                   <AlertTriangle className="h-4 w-4 mr-1" />
                 )}
+                {view === "source" && <FileCode className="h-4 w-4 mr-1" />}
                 {view}
               </Button>
             ))}
@@ -575,6 +615,21 @@ export const VMTraceAnalyzer: React.FC<VMTraceAnalyzerProps> = ({
                 </div>
               </div>
 
+              {sourceAttribution && (
+                <div className="mb-4">
+                  <SourceLocationView
+                    location={
+                      getSourceMap(currentStepData)
+                        ? sourceMapService.locate(
+                            getSourceMap(currentStepData)!,
+                            currentStepData.pc,
+                          )
+                        : null
+                    }
+                  />
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <h4 className="font-medium mb-2">Operation</h4>
@@ -818,6 +873,21 @@ export const VMTraceAnalyzer: React.FC<VMTraceAnalyzerProps> = ({
         </div>
       )}
 
+      {selectedView === "source" && (
+        <div className="bg-card rounded-lg border p-6">
+          <h3 className="text-lg font-semibold mb-4">Gas by Source</h3>
+          {sourceAttribution ? (
+            <SourceGasBreakdown attribution={sourceAttribution} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {processedData.vmTrace
+                ? "No frame of this trace matches an uploaded compiler artifact. Upload artifacts in the Debug Trace step debugger or the Trace Transaction Source Gas tab."
+                : "Source mapping needs the raw vmTrace of the transaction."}
+            </p>
+          )}
+        </div>
+      )}
+
       {selectedView === "bottlenecks" && (
         <div className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -1112,6 +1182,58 @@ function getOptimizationSuggestion(
   return undefined;
 }
 
+/**
+ * Steps of a parity vmTrace in execution order. `ex.used` is the gas left
+ * after an operation, so a call's own cost is the gas it took minus what
+ * its subcall used.
+ */
+function flattenVmTrace(vmTrace: VmTraceResult): VMTraceStep[] {
+  const steps: VMTraceStep[] = [];
+  const storage: Record<string, string> = {};
+
+  const visit = (frame: VmTraceResult, depth: number): number => {
+    let frameGas = 0;
+    let gasBefore: number | null = null;
+
+    frame.ops.forEach((operation) => {
+      const index = steps.length;
+      if (operation.ex?.store) {
+        storage[operation.ex.store.key] = operation.ex.store.val;
+      }
+      steps.push({
+        pc: operation.pc,
+        op: `0x${getOpcodeHex(operation.op)}`,
+        opName: operation.op,
+        gas: operation.ex?.used ?? 0,
+        gasCost: operation.cost,
+        depth,
+        stack: operation.ex?.push ?? [],
+        memory: operation.ex?.mem ? [operation.ex.mem.data] : [],
+        storage: { ...storage },
+        code: frame.code,
+        error: operation.ex ? undefined : "EXECUTION_FAILED",
+        reason: operation.ex ? undefined : "The operation did not complete",
+      });
+
+      if (operation.sub) {
+        const subGas = visit(operation.sub, depth + 1);
+        frameGas += subGas;
+        steps[index].gasCost =
+          gasBefore !== null && operation.ex
+            ? Math.max(0, gasBefore - operation.ex.used - subGas)
+            : operation.cost;
+      }
+      frameGas += steps[index].gasCost;
+      if (operation.ex) gasBefore = operation.ex.used;
+    });
+
+    return frameGas;
+  };
+
+  visit(vmTrace, 0);
+  return steps;
+}
+
 function getOptimalGasCost(opcode: string): number {
   return getOpcodeGasCost(opcode);
 }
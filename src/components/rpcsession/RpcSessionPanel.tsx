@@ -0,0 +1,221 @@
+import { useRef, useState } from "react";
+import { Circle, Download, Play, Square, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/global/Button";
+import { Input } from "@/components/global/Input";
+import { useRpcSession } from "@/hooks/blockchain";
+import { toast } from "@/hooks/global/useToast";
+import {
+  getRpcSessionFilename,
+  serializeRpcSession,
+  type RpcSession,
+} from "@/lib/rpcsession";
+
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+function downloadSession(session: RpcSession): void {
+  const blob = new Blob([serializeRpcSession(session)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getRpcSessionFilename(session);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function RpcSessionPanel() {
+  const {
+    recording,
+    recordedSession,
+    recordedCalls,
+    replay,
+    startRecording,
+    stopRecording,
+    discardRecording,
+    startReplay,
+    stopReplay,
+  } = useRpcSession();
+  const [name, setName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleStop = () => {
+    const session = stopRecording();
+    toast.success("Recording stopped", {
+      description: `${session.entries.length} calls recorded`,
+      duration: 3000,
+    });
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const session = startReplay(await file.text());
+      toast.success("Replaying session", {
+        description: `${session.name}: ${session.entries.length} recorded calls`,
+        duration: 4000,
+      });
+    } catch (error) {
+      toast.error("Could not load session", {
+        description: error instanceof Error ? error.message : String(error),
+        duration: 6000,
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-[#00bfff] text-sm font-medium mb-2">
+          Record RPC Session
+        </h4>
+        <p className="text-[#8b9dc3] text-xs mb-3">
+          Record every JSON-RPC call made while you run an analysis, then
+          download it as an evidence bundle. Endpoint URLs and API keys are not
+          stored.
+        </p>
+        {recording ? (
+          <div className="flex items-center gap-3">
+            <span className="flex items-center gap-2 text-xs text-red-400">
+              <Circle className="h-3 w-3 fill-red-500 animate-pulse" />
+              Recording · {recordedCalls} calls
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleStop}
+              className={outlineButtonClass}
+            >
+              <Square className="h-3 w-3 mr-1" />
+              Stop
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Session name (optional)"
+              className="h-8 text-xs"
+              disabled={!!replay}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                startRecording(name);
+                setName("");
+              }}
+              disabled={!!replay}
+              className={outlineButtonClass}
+            >
+              <Circle className="h-3 w-3 mr-1" />
+              Record
+            </Button>
+          </div>
+        )}
+
+        {!recording && recordedSession && (
+          <div className="flex items-center justify-between gap-3 mt-3 text-xs">
+            <span className="text-[#8b9dc3]">
+              {recordedSession.name} · {recordedSession.entries.length} calls
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadSession(recordedSession)}
+                className={outlineButtonClass}
+              >
+                <Download className="h-3 w-3 mr-1" />
+                Download
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => startReplay(recordedSession)}
+                className={outlineButtonClass}
+              >
+                <Play className="h-3 w-3 mr-1" />
+                Replay
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={discardRecording}
+                className={outlineButtonClass}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-[#00bfff] text-sm font-medium mb-2">
+          Offline Replay
+        </h4>
+        <p className="text-[#8b9dc3] text-xs mb-3">
+          Load a session file to answer every call from the recording instead of
+          a node. Calls that were not recorded fail with a clear error.
+        </p>
+        {replay ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-3 text-xs">
+              <span className="text-[#8b9dc3]">
+                Replaying {replay.session.name}
+                {replay.session.network &&
+                  ` (${replay.session.network.name})`}{" "}
+                · {replay.stats.served} served · {replay.stats.missed} missed
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={stopReplay}
+                className={outlineButtonClass}
+              >
+                <Square className="h-3 w-3 mr-1" />
+                Stop Replay
+              </Button>
+            </div>
+            {replay.stats.misses.length > 0 && (
+              <ul className="max-h-24 overflow-y-auto text-[10px] font-mono text-[#6b7280] space-y-1">
+                {replay.stats.misses.map((miss) => (
+                  <li key={miss} className="truncate" title={miss}>
+                    {miss}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleFile(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className={outlineButtonClass}
+            >
+              <Upload className="h-3 w-3 mr-1" />
+              Load Session File
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { RpcSessionPanel } from "./RpcSessionPanel";
@@ -0,0 +1,156 @@
+import { useRef, useState } from "react";
+import { Database, Loader2, RotateCcw, Search, Upload } from "lucide-react";
+import { Badge } from "@/components/global/Badge";
+import { Button } from "@/components/global/Button";
+import { Input } from "@/components/global/Input";
+import { toast } from "@/hooks/global/useToast";
+import {
+  useSignatureDatabaseActions,
+  useSignatureDatabaseStats,
+  useSignatureLookup,
+} from "@/hooks/signatures";
+import { SIGNATURE_FILE_EXTENSIONS } from "@/lib/signatures";
+
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+/**
+ * Offline function and event signatures: counts, dump imports and a
+ * selector or topic lookup that lists every colliding signature.
+ */
+export function SignatureDatabaseManager() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [hash, setHash] = useState("");
+  const { data: stats, isLoading: statsLoading } = useSignatureDatabaseStats();
+  const lookup = useSignatureLookup(hash);
+  const actions = useSignatureDatabaseActions();
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    actions.importFiles.mutate(Array.from(files), {
+      onSuccess: ({ results, errors }) => {
+        results.forEach((result) =>
+          toast.success(`Imported ${result.fileName}`, {
+            description: `${result.added.toLocaleString()} new signatures for ${result.hashes.toLocaleString()} hashes`,
+            duration: 4000,
+          }),
+        );
+        errors.forEach((message) =>
+          toast.error("Could not import signatures", {
+            description: message,
+            duration: 6000,
+          }),
+        );
+      },
+      onError: (error) =>
+        toast.error("Could not import signatures", {
+          description: error.message,
+          duration: 6000,
+        }),
+    });
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleReset = () =>
+    actions.clear.mutate(undefined, {
+      onSuccess: () =>
+        toast.success("Imported signatures removed", { duration: 3000 }),
+    });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-[#8b9dc3]">
+        Selectors and event topics without a registered ABI are named from this
+        database. Import 4byte.directory or openchain exports, JSON maps of
+        hashes to signatures, or text files with one{" "}
+        <span className="font-mono">hash,signature</span> per line. When several
+        signatures share a selector, the one the calldata decodes against is
+        used and the others are listed next to it.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2 text-sm text-[#8b9dc3]">
+          <Database className="h-4 w-4 text-[#00bfff]" />
+          {statsLoading || !stats ? (
+            <span className="text-[#6b7280]">Loading...</span>
+          ) : (
+            <span>
+              {stats.functions.toLocaleString()} selectors ·{" "}
+              {stats.events.toLocaleString()} event topics
+            </span>
+          )}
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={SIGNATURE_FILE_EXTENSIONS.join(",")}
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={actions.importFiles.isPending}
+          className={outlineButtonClass}
+        >
+          {actions.importFiles.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4 mr-2" />
+          )}
+          Import dump
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleReset}
+          disabled={actions.clear.isPending}
+          className={outlineButtonClass}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset to bundled
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="relative w-full max-w-xl">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-[#6b7280]" />
+          <Input
+            placeholder="0xa9059cbb or a 32-byte event topic"
+            value={hash}
+            onChange={(e) => setHash(e.target.value)}
+            className="pl-9 font-mono"
+          />
+        </div>
+        {lookup.isFetching ? (
+          <div className="flex items-center gap-2 text-sm text-[#8b9dc3]">
+            <Loader2 className="h-4 w-4 animate-spin text-[#00bfff]" />
+            Looking up...
+          </div>
+        ) : lookup.data && lookup.data.length > 0 ? (
+          <ul className="space-y-1">
+            {lookup.data.map((signature, index) => (
+              <li
+                key={signature}
+                className="flex items-center gap-2 font-mono text-sm text-[#8b9dc3]"
+              >
+                {signature}
+                {lookup.data.length > 1 && index === 0 && (
+                  <Badge variant="outline" className="text-[10px]">
+                    {lookup.data.length} candidates
+                  </Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          lookup.data && (
+            <p className="text-sm text-[#6b7280]">No known signature.</p>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { SignatureDatabaseManager } from "./SignatureDatabaseManager";
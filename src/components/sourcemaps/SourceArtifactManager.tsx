@@ -0,0 +1,249 @@
+import { useRef, useState } from "react";
+import { FileCode, Link2, Loader2, Trash2, Upload, X } from "lucide-react";
+import { Badge } from "@/components/global/Badge";
+import { Button } from "@/components/global/Button";
+import { Dropdown } from "@/components/global/Dropdown";
+import {
+  useSourceArtifactActions,
+  useSourceArtifacts,
+  useSourceAttachments,
+} from "@/hooks/sourcemaps";
+import { toast } from "@/hooks/global/useToast";
+import { shortenAddress } from "@/lib/config";
+import type { NetworkId } from "@/lib/networks";
+import {
+  SOURCE_ARTIFACT_EXTENSIONS,
+  type ArtifactFormat,
+} from "@/lib/sourcemaps";
+
+interface SourceArtifactManagerProps {
+  network: NetworkId;
+  // Addresses seen in the current trace, offered for manual attachment.
+  addresses?: string[];
+}
+
+const FORMAT_LABELS: Record<ArtifactFormat, string> = {
+  "build-info": "Build info",
+  "standard-json-output": "solc output",
+  "standard-json-input": "solc input",
+  foundry: "Foundry",
+  source: "Source",
+};
+
+const outlineButtonClass =
+  "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]";
+
+/**
+ * Upload and manage compiler artifacts. Contracts are matched to traced
+ * code by bytecode; attaching an address covers code that does not match.
+ */
+export function SourceArtifactManager({
+  network,
+  addresses = [],
+}: SourceArtifactManagerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { data: artifacts = [], isLoading, error } = useSourceArtifacts();
+  const { data: attachments = [] } = useSourceAttachments();
+  const actions = useSourceArtifactActions();
+  const [attachAddress, setAttachAddress] = useState("");
+  const [attachContract, setAttachContract] = useState("");
+
+  const contracts = artifacts.flatMap((artifact) => artifact.contracts);
+  const networkAttachments = attachments.filter(
+    (attachment) => attachment.network === network,
+  );
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    actions.addFiles.mutate(Array.from(files), {
+      onSuccess: ({ added, errors }) => {
+        if (added.length > 0) {
+          toast.success(
+            `Added ${added.length} artifact${added.length === 1 ? "" : "s"}`,
+            {
+              description: `${added.reduce((sum, artifact) => sum + artifact.contracts.length, 0)} contracts with source maps`,
+              duration: 3000,
+            },
+          );
+        }
+        errors.forEach((message) =>
+          toast.error("Could not read artifact", {
+            description: message,
+            duration: 6000,
+          }),
+        );
+      },
+      onError: (error) =>
+        toast.error("Could not store artifacts", {
+          description: error.message,
+          duration: 6000,
+        }),
+    });
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleAttach = () =>
+    actions.attachAddress.mutate(
+      { network, address: attachAddress, contractKey: attachContract },
+      { onSuccess: () => setAttachAddress("") },
+    );
+
+  const describeContract = (key: string) =>
+    contracts.find((contract) => contract.key === key)?.name ?? "removed";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-[#8b9dc3]">
+          Upload solc standard-JSON output, Hardhat or Foundry build-info files,
+          Foundry contract artifacts, and .sol files for sources the artifacts
+          do not embed. Artifacts stay in this browser.
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={SOURCE_ARTIFACT_EXTENSIONS.join(",")}
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={actions.addFiles.isPending}
+          className={outlineButtonClass}
+        >
+          {actions.addFiles.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4 mr-2" />
+          )}
+          Upload artifacts
+        </Button>
+      </div>
+
+      {error instanceof Error && (
+        <p className="text-sm text-red-400">{error.message}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-[#8b9dc3]">
+          <Loader2 className="h-4 w-4 animate-spin text-[#00bfff]" />
+          Loading artifacts...
+        </div>
+      ) : artifacts.length === 0 ? (
+        <p className="text-sm text-[#6b7280]">No artifacts uploaded yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {artifacts.map((artifact) => {
+            const withText = artifact.sources.filter(
+              (source) => source.content !== null,
+            ).length;
+            return (
+              <li
+                key={artifact.id}
+                className="flex items-center justify-between gap-3 rounded border border-[rgba(0,191,255,0.1)] bg-[rgba(15,20,25,0.6)] px-3 py-2 text-sm"
+              >
+                <div className="flex min-w-0 items-center gap-2">
+                  <FileCode className="h-4 w-4 shrink-0 text-[#00bfff]" />
+                  <span className="truncate text-[#8b9dc3]">
+                    {artifact.fileName}
+                  </span>
+                  <Badge variant="outline" className="text-[10px]">
+                    {FORMAT_LABELS[artifact.format]}
+                  </Badge>
+                  <span className="shrink-0 text-xs text-[#6b7280]">
+                    {artifact.contracts.length} contracts · {withText}/
+                    {artifact.sources.length} sources
+                    {artifact.compilerVersion &&
+                      ` · solc ${artifact.compilerVersion}`}
+                  </span>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => actions.removeArtifact.mutate(artifact.id)}
+                  aria-label={`Remove ${artifact.fileName}`}
+                  className={outlineButtonClass}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {contracts.length > 0 && addresses.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm text-[#8b9dc3]">
+            Attach a contract to an address whose code does not match
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Dropdown
+              value={attachAddress}
+              onValueChange={setAttachAddress}
+              options={addresses.map((address) => ({
+                value: address,
+                label: shortenAddress(address),
+              }))}
+              placeholder="Address"
+              className="w-48"
+            />
+            <Dropdown
+              value={attachContract}
+              onValueChange={setAttachContract}
+              options={contracts.map((contract) => ({
+                value: contract.key,
+                label: `${contract.name} (${contract.sourcePath})`,
+              }))}
+              placeholder="Contract"
+              className="w-72"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAttach}
+              disabled={!attachAddress || !attachContract}
+              className={outlineButtonClass}
+            >
+              <Link2 className="h-4 w-4 mr-2" />
+              Attach
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {networkAttachments.length > 0 && (
+        <ul className="space-y-1">
+          {networkAttachments.map((attachment) => (
+            <li
+              key={attachment.address}
+              className="flex items-center justify-between text-sm font-mono text-[#8b9dc3]"
+            >
+              <span>
+                {shortenAddress(attachment.address)} →{" "}
+                {describeContract(attachment.contractKey)}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  actions.detachAddress.mutate({
+                    network,
+                    address: attachment.address,
+                  })
+                }
+                aria-label="Remove attachment"
+                className={outlineButtonClass}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
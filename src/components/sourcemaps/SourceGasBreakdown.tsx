@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Button } from "@/components/global/Button";
+import {
+  SOURCE_GAS_TOP_LINES,
+  type SourceGasAttribution,
+  type SourceLineGas,
+} from "@/lib/sourcemaps";
+import { cn } from "@/lib/utils";
+
+interface SourceGasBreakdownProps {
+  attribution: SourceGasAttribution;
+  onSelectLine?: (line: SourceLineGas) => void;
+}
+
+const fileName = (path: string | null) =>
+  path ? path.replace(/^.*[\\/]/, "") : "unknown file";
+
+function GasBar({ gas, max }: { gas: number; max: number }) {
+  return (
+    <div className="h-1.5 w-24 shrink-0 rounded-full bg-[rgba(0,191,255,0.1)]">
+      <div
+        className="h-1.5 rounded-full bg-[#00bfff]"
+        style={{ width: `${max > 0 ? (gas / max) * 100 : 0}%` }}
+      />
+    </div>
+  );
+}
+
+/**
+ * Gas attributed to Solidity functions and source lines. Gas forwarded to
+ * calls is counted in the callee, so lines that make calls show only the
+ * cost of the call itself.
+ */
+export function SourceGasBreakdown({
+  attribution,
+  onSelectLine,
+}: SourceGasBreakdownProps) {
+  const [view, setView] = useState<"functions" | "lines">("functions");
+  const coverage =
+    attribution.totalGas > 0
+      ? (attribution.mappedGas / attribution.totalGas) * 100
+      : 0;
+
+  const maxFunctionGas = attribution.functions[0]?.gas ?? 0;
+  const lines = attribution.lines.slice(0, SOURCE_GAS_TOP_LINES);
+  const maxLineGas = lines[0]?.gas ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-[#8b9dc3]">
+          {attribution.mappedGas.toLocaleString()} of{" "}
+          {attribution.totalGas.toLocaleString()} gas ({coverage.toFixed(1)}%)
+          and {attribution.mappedSteps.toLocaleString()} of{" "}
+          {attribution.totalSteps.toLocaleString()} steps mapped to source
+        </p>
+        <div className="flex gap-1">
+          {(["functions", "lines"] as const).map((option) => (
+            <Button
+              key={option}
+              variant={view === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView(option)}
+              className={
+                view === option
+                  ? "bg-[#00bfff] text-[#0f1419] capitalize"
+                  : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)] capitalize"
+              }
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {view === "functions" ? (
+        <ul className="space-y-1">
+          {attribution.functions.map((fn) => (
+            <li
+              key={fn.key}
+              className="flex items-center gap-3 rounded px-2 py-1 text-sm"
+            >
+              <span className="flex-1 truncate font-mono text-[#8b9dc3]">
+                <span className="text-[#6b7280]">{fn.contractName} · </span>
+                {fn.functionName}
+              </span>
+              <GasBar gas={fn.gas} max={maxFunctionGas} />
+              <span className="w-24 shrink-0 text-right font-mono text-[#00bfff]">
+                {fn.gas.toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <ul className="space-y-1">
+          {lines.map((line) => (
+            <li key={line.key}>
+              <button
+                type="button"
+                onClick={() => onSelectLine?.(line)}
+                disabled={!onSelectLine}
+                className={cn(
+                  "flex w-full items-center gap-3 rounded px-2 py-1 text-left text-sm",
+                  onSelectLine && "hover:bg-[rgba(0,191,255,0.05)]",
+                )}
+                title={line.functionName ?? undefined}
+              >
+                <span className="w-40 shrink-0 truncate font-mono text-xs text-[#6b7280]">
+                  {fileName(line.filePath)}
+                  {line.line !== null && `:${line.line}`}
+                </span>
+                <span className="flex-1 truncate font-mono text-xs text-[#8b9dc3]">
+                  {line.lineText ?? "source not uploaded"}
+                </span>
+                <GasBar gas={line.gas} max={maxLineGas} />
+                <span className="w-24 shrink-0 text-right font-mono text-[#00bfff]">
+                  {line.gas.toLocaleString()}
+                </span>
+              </button>
+            </li>
+          ))}
+          {attribution.lines.length > lines.length && (
+            <li className="px-2 text-xs text-[#6b7280]">
+              Showing the {lines.length} most expensive of{" "}
+              {attribution.lines.length} lines
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
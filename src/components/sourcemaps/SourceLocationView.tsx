@@ -0,0 +1,42 @@
+import { FileCode } from "lucide-react";
+import type { SourceLocation } from "@/lib/sourcemaps";
+
+interface SourceLocationViewProps {
+  location: SourceLocation | null;
+}
+
+/**
+ * Solidity line of the current step, or a hint when it has none.
+ */
+export function SourceLocationView({ location }: SourceLocationViewProps) {
+  if (!location) {
+    return (
+      <div className="rounded border border-[rgba(0,191,255,0.1)] bg-[rgba(15,20,25,0.6)] px-3 py-2 text-sm text-[#6b7280]">
+        No source for this step. It runs compiler-generated code or a contract
+        without an uploaded artifact.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded border border-[rgba(0,191,255,0.2)] bg-[rgba(15,20,25,0.6)] px-3 py-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-[#6b7280]">
+        <FileCode className="h-3 w-3 text-[#00bfff]" />
+        <span className="font-mono">
+          {location.filePath ?? `source ${location.fileIndex}`}
+          {location.line !== null
+            ? `:${location.line}:${location.column}`
+            : ` @ byte ${location.start}`}
+        </span>
+        {location.functionName && (
+          <span className="text-[#8b9dc3]">in {location.functionName}</span>
+        )}
+        {location.jump === "i" && <span>→ entering function</span>}
+        {location.jump === "o" && <span>← returning</span>}
+      </div>
+      <pre className="mt-1 overflow-x-auto font-mono text-[#00bfff]">
+        {location.lineText ?? "Upload the .sol file to show the source text"}
+      </pre>
+    </div>
+  );
+}
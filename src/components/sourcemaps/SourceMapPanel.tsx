@@ -0,0 +1,76 @@
+import { useMemo } from "react";
+import { Loader2 } from "lucide-react";
+import { Alert } from "@/components/global/Alert";
+import { useDebugSession } from "@/hooks/debugtrace";
+import { useSessionSourceMap } from "@/hooks/sourcemaps";
+import type { NetworkId } from "@/lib/networks";
+import { SourceArtifactManager } from "./SourceArtifactManager";
+import { SourceGasBreakdown } from "./SourceGasBreakdown";
+
+interface SourceMapPanelProps {
+  txHash: string;
+  network: NetworkId;
+}
+
+const sectionClass =
+  "bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-4 space-y-3";
+
+/**
+ * Gas per Solidity function and line for a transaction, from its structLog
+ * trace and the uploaded compiler artifacts.
+ */
+export function SourceMapPanel({ txHash, network }: SourceMapPanelProps) {
+  const {
+    data: session,
+    isLoading: sessionLoading,
+    error: sessionError,
+  } = useDebugSession(txHash, network);
+  const sourceMap = useSessionSourceMap(session, network);
+
+  const addresses = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          (session?.frames ?? [])
+            .map((frame) => frame.codeAddress)
+            .filter((address): address is string => !!address),
+        ),
+      ),
+    [session],
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className={sectionClass}>
+        <h4 className="text-sm font-semibold text-[#00bfff]">
+          Compiler Artifacts
+        </h4>
+        <SourceArtifactManager network={network} addresses={addresses} />
+      </div>
+
+      <div className={sectionClass}>
+        <h4 className="text-sm font-semibold text-[#00bfff]">Gas by Source</h4>
+        {sessionLoading || sourceMap.isLoading ? (
+          <div className="flex items-center gap-2 py-6 text-sm text-[#8b9dc3]">
+            <Loader2 className="h-4 w-4 animate-spin text-[#00bfff]" />
+            Mapping the structLog trace to source...
+          </div>
+        ) : sessionError || sourceMap.error ? (
+          <Alert variant="destructive">
+            <div className="text-sm">
+              {(sessionError ?? sourceMap.error)?.message ??
+                "Could not map the trace to source"}
+            </div>
+          </Alert>
+        ) : sourceMap.attribution ? (
+          <SourceGasBreakdown attribution={sourceMap.attribution} />
+        ) : (
+          <p className="text-sm text-[#6b7280]">
+            None of the {addresses.length} contracts in this transaction match
+            an uploaded artifact.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { SourceArtifactManager } from "./SourceArtifactManager";
+export { SourceGasBreakdown } from "./SourceGasBreakdown";
+export { SourceLocationView } from "./SourceLocationView";
+export { SourceMapPanel } from "./SourceMapPanel";
@@ -1,5 +1,11 @@
-import { useBlockchainStatus, useNetworkSwitcher } from "@/hooks/blockchain";
+import {
+  useBlockchainStatus,
+  useNetworkSwitcher,
+  useRequestQueue,
+  useRpcSession,
+} from "@/hooks/blockchain";
 import { useIsMobile } from "@/hooks/global";
+import { getNetworkName } from "@/lib/networks";
 import { useEffect, useRef, useState } from "react";
 
 export default function Statusbar() {
@@ -7,6 +13,12 @@ export default function Statusbar() {
     useBlockchainStatus();
 
   const { currentNetwork } = useNetworkSwitcher();
+  const { recording, recordedCalls, replay } = useRpcSession();
+  const { data: queue } = useRequestQueue();
+  const queued = queue ? queue.interactive + queue.background : 0;
+  const throttledFor = queue?.throttledUntil
+    ? Math.max(1, Math.ceil((queue.throttledUntil - Date.now()) / 1000))
+    : null;
   const isMobile = useIsMobile();
 
   const [blockHighlight, setBlockHighlight] = useState(false);
@@ -85,6 +97,7 @@ export default function Statusbar() {
       return isMobile ? "Sepolia" : "Sepolia Testnet";
     if (currentNetwork === "mainnet")
       return isMobile ? "Mainnet" : "Ethereum Mainnet";
+    if (currentNetwork) return getNetworkName(currentNetwork);
     return networkName || "Unknown";
   };
 
@@ -121,6 +134,31 @@ export default function Statusbar() {
             </span>
           </div>
 
+          {(queued > 0 || throttledFor) && (
+            <span
+              className={throttledFor ? "text-yellow-400" : ""}
+              title={
+                throttledFor
+                  ? `Rate limited, resuming in ${throttledFor}s`
+                  : "Queued RPC requests"
+              }
+            >
+              Q{queued}
+            </span>
+          )}
+
+          {recording && (
+            <span className="text-red-400" title="Recording RPC session">
+              REC
+            </span>
+          )}
+
+          {replay && (
+            <span className="text-yellow-400" title={replay.session.name}>
+              REPLAY
+            </span>
+          )}
+
           {error && (
             <div
               className="w-1.5 h-1.5 rounded-full bg-red-500"
@@ -141,13 +179,7 @@ export default function Statusbar() {
 
       <div className="flex items-center gap-1 text-text-secondary">
         <span>Network:</span>
-        <span className="text-text-secondary">
-          {currentNetwork === "sepolia"
-            ? "Sepolia Testnet"
-            : currentNetwork === "mainnet"
-              ? "Ethereum Mainnet"
-              : networkName || "Unknown"}
-        </span>
+        <span className="text-text-secondary">{getNetworkDisplayName()}</span>
       </div>
 
       <div className="flex items-center gap-1 text-text-secondary">
@@ -168,6 +200,38 @@ export default function Statusbar() {
         </span>
       </div>
 
+      {(queued > 0 || throttledFor) && (
+        <div
+          className={`flex items-center gap-1 ${throttledFor ? "text-yellow-400" : "text-text-secondary"}`}
+        >
+          <span>Queue:</span>
+          <span
+            title={`${queue!.interactive} interactive, ${queue!.background} background`}
+          >
+            {queued} pending
+          </span>
+          {throttledFor && (
+            <span>· rate limited, resuming in {throttledFor}s</span>
+          )}
+        </div>
+      )}
+
+      {recording && (
+        <div className="flex items-center gap-1 text-red-400">
+          <div className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"></div>
+          <span>Recording RPC · {recordedCalls} calls</span>
+        </div>
+      )}
+
+      {replay && (
+        <div className="flex items-center gap-1 text-yellow-400">
+          <div className="w-1.5 h-1.5 rounded-full bg-yellow-400"></div>
+          <span title={`${replay.stats.missed} calls not in the recording`}>
+            Offline replay: {replay.session.name}
+          </span>
+        </div>
+      )}
+
       {error && (
         <div className="flex items-center gap-1 text-red-400 text-[10px]">
           <div className="w-1.5 h-1.5 rounded-full bg-red-500"></div>
@@ -14,6 +14,7 @@ import { Card } from "@/components/global/Card";
 import { Button } from "@/components/global/Button";
 import { Input } from "@/components/global/Input";
 import { Badge } from "@/components/global/Badge";
+import { StateAvailabilityNotice } from "@/components/global/StateAvailabilityNotice";
 import {
   Activity,
   BarChart3,
@@ -26,6 +27,7 @@ import {
   useBlockNumberRange,
   useMultipleHistoricalStorage,
 } from "@/hooks/storagerange";
+import { useStateAvailability } from "@/hooks/blockchain";
 
 interface HistoricalComparisonToolProps {
   contractAddress: string;
@@ -85,6 +87,9 @@ export const HistoricalComparisonTool: React.FC<
     "overlay" | "difference" | "normalized"
   >("overlay");
 
+  const { data: period1State } = useStateAvailability(periods[0].startBlock);
+  const { data: period2State } = useStateAvailability(periods[1].startBlock);
+
   const period1Blocks = useBlockNumberRange(
     periods[0].startBlock,
     periods[0].endBlock,
@@ -259,6 +264,16 @@ export const HistoricalComparisonTool: React.FC<
     );
   };
 
+  const moveToAvailableBlock = (periodId: string, block: number) => {
+    setPeriods((prev) =>
+      prev.map((p) =>
+        p.id === periodId
+          ? { ...p, startBlock: block, endBlock: Math.max(p.endBlock, block) }
+          : p
+      )
+    );
+  };
+
   const getTrendIcon = (trend: string) => {
     switch (trend) {
       case "increasing":
@@ -454,6 +469,17 @@ export const HistoricalComparisonTool: React.FC<
             </div>
           ))}
 
+          {[period1State, period2State].map((availability, index) => (
+            <StateAvailabilityNotice
+              key={periods[index].id}
+              availability={availability}
+              label={periods[index].name}
+              onUseBlock={(block) =>
+                moveToAvailableBlock(periods[index].id, block)
+              }
+            />
+          ))}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-[#8b9dc3] mb-1">
@@ -13,6 +13,7 @@ import {
   Users,
 } from "lucide-react";
 import type { ProcessedStorageData } from "@/lib/storagerange/processors/storageProcessor";
+import { useExplorerUrl } from "@/hooks/blockchain";
 
 interface PYUSDContractInfoProps {
   processedData: ProcessedStorageData;
@@ -33,6 +34,8 @@ export const PYUSDContractInfo: React.FC<PYUSDContractInfoProps> = ({
   className = "",
 }) => {
   const { summary, patterns, securityFlags, categories } = processedData;
+  const explorerUrl = useExplorerUrl();
+  const contractExplorerUrl = explorerUrl("address", contractAddress);
 
   const formatPYUSDAmount = (amount: number): string => {
     const formatted = (amount / 1e6).toLocaleString("en-US", {
@@ -115,14 +118,16 @@ export const PYUSDContractInfo: React.FC<PYUSDContractInfoProps> = ({
                 >
                   <Copy className="h-4 w-4" />
                 </button>
-                <a
-                  href={`https://etherscan.io/address/${contractAddress}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-[#8b9dc3] hover:text-[#00bfff] transition-colors"
-                >
-                  <ExternalLink className="h-4 w-4" />
-                </a>
+                {contractExplorerUrl && (
+                  <a
+                    href={contractExplorerUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[#8b9dc3] hover:text-[#00bfff] transition-colors"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
               </div>
             </div>
 
@@ -12,7 +12,10 @@ import {
   Settings,
   X,
 } from "lucide-react";
+import { useTraceQueryParam } from "@/hooks/tracetransaction";
+import { TraceQuery } from "@/lib/tracetransaction/traceQuery";
 import type { ProcessedTraceAction } from "@/lib/tracetransaction/types";
+import { TraceQueryInput } from "./TraceQueryInput";
 
 interface AdvancedFiltersProps {
   traces: ProcessedTraceAction[];
@@ -86,6 +89,18 @@ export function AdvancedFilters({
   const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS);
   const [isExpanded, setIsExpanded] = useState(false);
   const [activePreset, setActivePreset] = useState<string | null>(null);
+  const {
+    query,
+    setQuery,
+    predicate: matchesQuery,
+    error: queryError,
+    isActive: queryActive,
+  } = useTraceQueryParam();
+
+  const queryRecords = useMemo(
+    () => traces.map((trace) => TraceQuery.fromProcessedAction(trace)),
+    [traces]
+  );
 
   const { functions, contracts, types } = useMemo(() => {
     const functions = new Set<string>();
@@ -182,8 +197,14 @@ export function AdvancedFilters({
       }
     }
 
+    if (queryActive) {
+      filtered = filtered.filter((trace) =>
+        matchesQuery(TraceQuery.fromProcessedAction(trace))
+      );
+    }
+
     return filtered;
-  }, [traces, filters]);
+  }, [traces, filters, queryActive, matchesQuery]);
 
   React.useEffect(() => {
     onFilteredResults(filteredTraces);
@@ -202,13 +223,16 @@ export function AdvancedFilters({
   const clearFilters = () => {
     setFilters(DEFAULT_FILTERS);
     setActivePreset(null);
+    setQuery("");
   };
 
-  const hasActiveFilters = Object.keys(filters).some((key) => {
-    const value = filters[key as keyof FilterState];
-    const defaultValue = DEFAULT_FILTERS[key as keyof FilterState];
-    return value !== defaultValue;
-  });
+  const hasActiveFilters =
+    queryActive ||
+    Object.keys(filters).some((key) => {
+      const value = filters[key as keyof FilterState];
+      const defaultValue = DEFAULT_FILTERS[key as keyof FilterState];
+      return value !== defaultValue;
+    });
 
   return (
     <div
@@ -264,6 +288,16 @@ export function AdvancedFilters({
         </div>
       </div>
 
+      <div className="mb-4">
+        <div className="text-sm text-[#8b9dc3] mb-2">Filter Expression:</div>
+        <TraceQueryInput
+          value={query}
+          onChange={setQuery}
+          records={queryRecords}
+          error={queryError}
+        />
+      </div>
+
       <div className="mb-4">
         <div className="text-sm text-[#8b9dc3] mb-2">Quick Filters:</div>
         <div className="flex flex-wrap gap-2">
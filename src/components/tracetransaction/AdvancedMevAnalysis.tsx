@@ -11,25 +11,30 @@ import {
   TrendingUp,
   Zap,
 } from "lucide-react";
-import type { TraceAnalysisResults } from "@/lib/tracetransaction/types";
+import type {
+  PricedDexSwap,
+  TraceAnalysisResults,
+} from "@/lib/tracetransaction/types";
 import { useMevAnalysis } from "@/hooks/tracetransaction";
 
 interface AdvancedMevAnalysisProps {
   traceAnalysis: TraceAnalysisResults;
+  swaps?: PricedDexSwap[];
   className?: string;
 }
 
 export const AdvancedMevAnalysis: React.FC<AdvancedMevAnalysisProps> = ({
   traceAnalysis,
+  swaps,
   className = "",
 }) => {
   const { analysis, isAnalyzing, error, analyzeTransaction } = useMevAnalysis();
 
   React.useEffect(() => {
     if (traceAnalysis) {
-      analyzeTransaction(traceAnalysis);
+      analyzeTransaction(traceAnalysis, swaps);
     }
-  }, [traceAnalysis, analyzeTransaction]);
+  }, [traceAnalysis, swaps, analyzeTransaction]);
 
   if (isAnalyzing) {
     return (
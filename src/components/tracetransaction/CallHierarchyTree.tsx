@@ -14,11 +14,14 @@ import {
 import dagre from "@dagrejs/dagre";
 import "@xyflow/react/dist/style.css";
 import { Badge, Checkbox, Input } from "@/components/global";
+import { RevertPath } from "@/components/abi";
+import { buildRevertPath, type RevertPathFrame } from "@/lib/abi";
 import { formatGas, shortenAddress } from "@/lib/config";
 import type { ProcessedTraceAction } from "@/lib/tracetransaction/types";
 import {
   AlertCircle,
   CheckCircle,
+  Crosshair,
   Search,
   Filter,
   GitBranch,
@@ -33,12 +36,24 @@ interface CallHierarchyTreeProps {
   className?: string;
 }
 
+type RevertRole = "origin" | "bubbled" | "reraised";
+
+const traceKey = (trace: ProcessedTraceAction) => trace.traceAddress.join(",");
+
 // Custom Node Component for Call Hierarchy
 const CallNode = ({ data }: { data: any }) => {
-  const { trace } = data;
+  const { trace, revertRole } = data;
 
   return (
-    <div className="bg-[rgba(25,28,40,0.95)] border-2 border-[rgba(0,191,255,0.3)] rounded-lg p-3 min-w-[320px] shadow-lg backdrop-blur-sm">
+    <div
+      className={`bg-[rgba(25,28,40,0.95)] border-2 ${
+        revertRole === "origin"
+          ? "border-[#ef4444] ring-4 ring-[rgba(239,68,68,0.35)]"
+          : revertRole
+            ? "border-[rgba(239,68,68,0.6)]"
+            : "border-[rgba(0,191,255,0.3)]"
+      } rounded-lg p-3 min-w-[320px] shadow-lg backdrop-blur-sm`}
+    >
       <Handle
         type="target"
         position={Position.Top}
@@ -71,6 +86,24 @@ const CallNode = ({ data }: { data: any }) => {
         </Badge>
 
         {trace.isPyusd && <Zap className="h-4 w-4 text-[#00bfff]" />}
+
+        {revertRole && (
+          <Badge
+            variant="outline"
+            className="border-[#ef4444] text-[#ef4444] bg-[rgba(239,68,68,0.1)] text-xs ml-auto"
+          >
+            {revertRole === "origin" ? (
+              <span className="flex items-center gap-1">
+                <Crosshair className="h-3 w-3" />
+                Revert origin
+              </span>
+            ) : revertRole === "bubbled" ? (
+              "Bubbled revert"
+            ) : (
+              "Re-raised revert"
+            )}
+          </Badge>
+        )}
       </div>
 
       {/* Function and Contract */}
@@ -209,7 +242,10 @@ const getLayoutedElements = (nodes: any[], edges: any[], direction = "TB") => {
 };
 
 // Convert traces to flow elements
-const convertTracesToFlowElements = (traces: ProcessedTraceAction[]) => {
+const convertTracesToFlowElements = (
+  traces: ProcessedTraceAction[],
+  revertRoles: Map<string, RevertRole>
+) => {
   const nodes: any[] = [];
   const edges: any[] = [];
 
@@ -226,7 +262,7 @@ const convertTracesToFlowElements = (traces: ProcessedTraceAction[]) => {
     nodes.push({
       id: nodeId,
       type: "callNode",
-      data: { trace },
+      data: { trace, revertRole: revertRoles.get(traceKey(trace)) },
       position: { x: 0, y: 0 }, // Will be set by dagre
     });
 
@@ -244,14 +280,17 @@ const convertTracesToFlowElements = (traces: ProcessedTraceAction[]) => {
       if (parentTrace) {
         const gasUsed = Number(trace.gasUsed) || 0;
         const maxGas = Math.max(...traces.map((t) => Number(t.gasUsed) || 0));
-        const strokeWidth = Math.max(2, Math.min(6, (gasUsed / maxGas) * 4));
+        const onRevertPath = revertRoles.has(traceKey(trace));
+        const strokeWidth = onRevertPath
+          ? 6
+          : Math.max(2, Math.min(6, (gasUsed / maxGas) * 4));
 
         edges.push({
           id: `${parentId}-${nodeId}`,
           source: parentId,
           target: nodeId,
           type: "smoothstep",
-          animated: trace.isPyusd || trace.error,
+          animated: trace.isPyusd || trace.error || onRevertPath,
           style: {
             stroke: trace.error
               ? "#ef4444"
@@ -296,6 +335,39 @@ export function CallHierarchyTree({
   const [showOnlyPyusd, setShowOnlyPyusd] = useState(false);
   const [layoutDirection, setLayoutDirection] = useState<"TB" | "LR">("TB");
 
+  // Computed over all traces so filters do not break the path.
+  const revertPath = useMemo<RevertPathFrame[]>(() => {
+    if (!traces || traces.length === 0) return [];
+    const byKey = new Map(traces.map((trace) => [traceKey(trace), trace]));
+    return buildRevertPath(
+      traces.map((trace) => ({
+        traceAddress: trace.traceAddress,
+        from: trace.from,
+        to: trace.to,
+        output: trace.revertData,
+        error: trace.error
+      }))
+    ).map((frame) => {
+      const name = byKey.get(frame.traceAddress.join(","))?.function;
+      return {
+        ...frame,
+        functionName:
+          frame.functionName ?? (name && name !== "N/A" ? name : null)
+      };
+    });
+  }, [traces]);
+
+  const revertRoles = useMemo(
+    () =>
+      new Map<string, RevertRole>(
+        revertPath.map((frame, index) => [
+          frame.traceAddress.join(","),
+          index === 0 ? "origin" : frame.bubbled ? "bubbled" : "reraised"
+        ])
+      ),
+    [revertPath]
+  );
+
   // Filter traces based on search and filters
   const filteredTraces = useMemo(() => {
     if (!traces || traces.length === 0) return [];
@@ -328,8 +400,8 @@ export function CallHierarchyTree({
 
   // Convert to flow elements and apply layout
   const { nodes: initialNodes, edges: initialEdges } = useMemo(() => {
-    return convertTracesToFlowElements(filteredTraces);
-  }, [filteredTraces]);
+    return convertTracesToFlowElements(filteredTraces, revertRoles);
+  }, [filteredTraces, revertRoles]);
 
   const { nodes: layoutedNodes, edges: layoutedEdges } = useMemo(() => {
     return getLayoutedElements(initialNodes, initialEdges, layoutDirection);
@@ -466,6 +538,15 @@ export function CallHierarchyTree({
         </div>
       </div>
 
+      {revertPath.length > 0 && (
+        <div className="mb-4 p-3 bg-[rgba(239,68,68,0.05)] rounded-lg border border-[rgba(239,68,68,0.3)]">
+          <h4 className="text-sm font-semibold text-[#ef4444] mb-2">
+            Revert Path
+          </h4>
+          <RevertPath frames={revertPath} />
+        </div>
+      )}
+
       {/* Call Hierarchy Tree */}
       <div
         className="bg-[rgba(15,20,25,0.6)] rounded-lg border border-[rgba(0,191,255,0.2)] overflow-hidden"
@@ -0,0 +1,315 @@
+import React, { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Badge } from "@/components/global";
+import { formatGas, shortenAddress } from "@/lib/config";
+import type {
+  CallDiffStatus,
+  CallFieldDifference,
+  CallTreeDiff,
+  CallTreeDiffNode,
+  EventDiffEntry,
+  ProcessedTraceAction,
+} from "@/lib/tracetransaction/types";
+
+interface CallTreeDiffViewProps {
+  diff: CallTreeDiff;
+}
+
+const STATUS_STYLES: Record<CallDiffStatus, string> = {
+  unchanged: "text-[#8b9dc3]",
+  changed: "bg-yellow-500/10 text-yellow-300",
+  added: "bg-green-500/10 text-green-300",
+  removed: "bg-red-500/10 text-red-300",
+};
+
+const STATUS_BADGES: Record<
+  CallDiffStatus,
+  "outline" | "warning" | "success" | "destructive"
+> = {
+  unchanged: "outline",
+  changed: "warning",
+  added: "success",
+  removed: "destructive",
+};
+
+const callLabel = (call: ProcessedTraceAction) => {
+  const fn =
+    call.function && call.function !== "N/A"
+      ? call.function
+      : call.input.length >= 10
+        ? call.input.slice(0, 10)
+        : "fallback";
+  return `${call.to ? shortenAddress(call.to) : "unknown"} ${fn}`;
+};
+
+// Nodes whose subtree has a difference, so unchanged branches can be hidden.
+const collectChanged = (nodes: CallTreeDiffNode[], changed: Set<string>) =>
+  nodes.reduce((found, node) => {
+    const inside = collectChanged(node.children, changed);
+    if (inside || node.status !== "unchanged") {
+      changed.add(node.id);
+      return true;
+    }
+    return found;
+  }, false);
+
+const findFirstDivergence = (
+  nodes: CallTreeDiffNode[],
+): CallTreeDiffNode | null => {
+  for (const node of nodes) {
+    if (node.status !== "unchanged") return node;
+    const inside = findFirstDivergence(node.children);
+    if (inside) return inside;
+  }
+  return null;
+};
+
+const describeDivergence = (node: CallTreeDiffNode) => {
+  if (node.status === "added") {
+    return `Only transaction 2 makes ${callLabel(node.call2!)}`;
+  }
+  if (node.status === "removed") {
+    return `Only transaction 1 makes ${callLabel(node.call1!)}`;
+  }
+  return `${callLabel(node.call1!)} differs in ${node.differences
+    .map((difference) => difference.field)
+    .join(", ")}`;
+};
+
+const CallCell: React.FC<{
+  call?: ProcessedTraceAction;
+  node: CallTreeDiffNode;
+  collapsed: boolean;
+  onToggle: () => void;
+  gasDelta?: number;
+}> = ({ call, node, collapsed, onToggle, gasDelta }) => {
+  if (!call) {
+    return <div className="px-2 py-1 bg-[rgba(15,20,25,0.4)]" />;
+  }
+  return (
+    <div
+      className={`flex items-center gap-1 px-2 py-1 font-mono text-xs ${STATUS_STYLES[node.status]}`}
+      style={{ paddingLeft: 8 + node.depth * 16 }}
+    >
+      {node.children.length > 0 ? (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggle();
+          }}
+          className="text-[#8b9dc3]"
+        >
+          {collapsed ? (
+            <ChevronRight className="h-3 w-3" />
+          ) : (
+            <ChevronDown className="h-3 w-3" />
+          )}
+        </button>
+      ) : (
+        <span className="w-3" />
+      )}
+      <span className="text-[#6b7280]">{call.type}</span>
+      <span className="truncate" title={call.to}>
+        {callLabel(call)}
+      </span>
+      {call.error && (
+        <Badge variant="destructive" className="text-[10px]">
+          {call.error}
+        </Badge>
+      )}
+      <span className="ml-auto text-[#6b7280]">{formatGas(call.gasUsed)}</span>
+      {!!gasDelta && (
+        <span className={gasDelta > 0 ? "text-red-400" : "text-green-400"}>
+          {gasDelta > 0 ? "+" : ""}
+          {formatGas(gasDelta)}
+        </span>
+      )}
+    </div>
+  );
+};
+
+const DifferenceTable: React.FC<{ differences: CallFieldDifference[] }> = ({
+  differences,
+}) => {
+  return (
+    <table className="w-full text-xs">
+      <tbody className="font-mono">
+        {differences.map((difference, index) => (
+          <tr
+            key={`${difference.field}-${index}`}
+            className="border-t border-[rgba(0,191,255,0.1)] align-top"
+          >
+            <td className="py-1 pr-4 font-sans text-[#8b9dc3] whitespace-nowrap">
+              {difference.field}
+            </td>
+            <td className="py-1 pr-4 break-all text-red-300">
+              {difference.transaction1}
+            </td>
+            <td className="py-1 pr-4 break-all text-green-300">
+              {difference.transaction2}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const EventDiffTable: React.FC<{ events: EventDiffEntry[] }> = ({ events }) => {
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-[#8b9dc3]">
+        Neither transaction emitted events.
+      </p>
+    );
+  }
+  return (
+    <div className="space-y-1">
+      {events.map((event, index) => (
+        <div key={index}>
+          <div className="grid grid-cols-2 gap-px">
+            {[event.log1, event.log2].map((log, side) =>
+              log ? (
+                <div
+                  key={side}
+                  className={`flex items-center gap-2 px-2 py-1 font-mono text-xs ${STATUS_STYLES[event.status]}`}
+                >
+                  <span>{event.name}</span>
+                  <span className="text-[#6b7280]" title={log.address}>
+                    {shortenAddress(log.address)}
+                  </span>
+                </div>
+              ) : (
+                <div key={side} className="bg-[rgba(15,20,25,0.4)]" />
+              ),
+            )}
+          </div>
+          {event.differences.length > 0 && (
+            <div className="px-2 pb-2">
+              <DifferenceTable differences={event.differences} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Side-by-side call trees of two transactions with matched calls on the
+ * same row. Changed calls expand into their differing fields.
+ */
+export const CallTreeDiffView: React.FC<CallTreeDiffViewProps> = ({ diff }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [showUnchanged, setShowUnchanged] = useState(true);
+
+  const changedIds = useMemo(() => {
+    const ids = new Set<string>();
+    collectChanged(diff.roots, ids);
+    return ids;
+  }, [diff]);
+  const firstDivergence = useMemo(
+    () => findFirstDivergence(diff.roots),
+    [diff],
+  );
+
+  const rows = useMemo(() => {
+    const visible: CallTreeDiffNode[] = [];
+    const visit = (nodes: CallTreeDiffNode[]) =>
+      nodes.forEach((node) => {
+        if (!showUnchanged && !changedIds.has(node.id)) return;
+        visible.push(node);
+        if (!collapsed.has(node.id)) visit(node.children);
+      });
+    visit(diff.roots);
+    return visible;
+  }, [diff, collapsed, showUnchanged, changedIds]);
+
+  const toggle = (
+    set: Set<string>,
+    update: (next: Set<string>) => void,
+    id: string,
+  ) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    update(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(Object.keys(diff.counts) as CallDiffStatus[]).map((status) => (
+          <Badge key={status} variant={STATUS_BADGES[status]}>
+            {diff.counts[status]} {status}
+          </Badge>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-xs text-[#8b9dc3]">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+          />
+          Show unchanged calls
+        </label>
+      </div>
+
+      <p className="text-sm text-[#8b9dc3]">
+        {firstDivergence
+          ? `First divergence: ${describeDivergence(firstDivergence)}.`
+          : "Both transactions make the same calls with the same arguments and results."}
+      </p>
+
+      <div className="rounded-lg border border-[rgba(0,191,255,0.2)] overflow-hidden">
+        <div className="grid grid-cols-2 gap-px bg-[rgba(0,191,255,0.1)] text-xs font-medium text-[#00bfff]">
+          <div className="px-2 py-1 bg-[rgba(15,20,25,0.8)]">Transaction 1</div>
+          <div className="px-2 py-1 bg-[rgba(15,20,25,0.8)]">Transaction 2</div>
+        </div>
+        {rows.map((node) => (
+          <div key={node.id} className="border-t border-[rgba(0,191,255,0.1)]">
+            <div
+              className={`grid grid-cols-2 gap-px ${node.status === "changed" ? "cursor-pointer" : ""}`}
+              onClick={() =>
+                node.status === "changed" &&
+                toggle(expanded, setExpanded, node.id)
+              }
+            >
+              {[node.call1, node.call2].map((call, side) => (
+                <CallCell
+                  key={side}
+                  call={call}
+                  node={node}
+                  collapsed={collapsed.has(node.id)}
+                  onToggle={() => toggle(collapsed, setCollapsed, node.id)}
+                  gasDelta={
+                    side === 1 && node.call1 ? node.gasDelta : undefined
+                  }
+                />
+              ))}
+            </div>
+            {expanded.has(node.id) && (
+              <div className="px-4 pb-2 bg-[rgba(15,20,25,0.6)]">
+                <DifferenceTable differences={node.differences} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 mb-2 text-[#00bfff]">
+          <span className="font-semibold">Emitted Events</span>
+        </div>
+        {diff.events ? (
+          <EventDiffTable events={diff.events} />
+        ) : (
+          <p className="text-sm text-[#8b9dc3]">
+            The receipts could not be loaded, so events are not compared.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
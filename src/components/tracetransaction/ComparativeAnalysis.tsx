@@ -16,8 +16,12 @@ import {
   ArrowRight,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useTraceTransactionAnalysis } from "@/hooks/tracetransaction";
+import {
+  useComparativeAnalysis,
+  useTraceTransactionAnalysis,
+} from "@/hooks/tracetransaction";
 import type { TraceAnalysisResults } from "@/lib/tracetransaction/types";
+import { CallTreeDiffView } from "./CallTreeDiffView";
 
 interface ComparativeAnalysisProps {
   primaryTransaction?: TraceAnalysisResults;
@@ -48,20 +52,21 @@ export const ComparativeAnalysis: React.FC<ComparativeAnalysisProps> = ({
   initialTransaction,
   className,
 }) => {
-  const [txHash1, setTxHash1] = useState(initialTransaction || "");
+  const [txHash1, setTxHash1] = useState(
+    initialTransaction || primaryTransaction?.transactionHash || ""
+  );
   const [txHash2, setTxHash2] = useState("");
   const [validationError, setValidationError] = useState<string | null>(null);
-  const [isComparing, setIsComparing] = useState(false);
-  const [comparison, setComparison] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
 
   const {
-    results: secondaryResults,
-    isAnalyzing: isAnalyzingSecondary,
-    error: secondaryError,
-    analyzeTransaction,
-    validateTxHash,
-  } = useTraceTransactionAnalysis();
+    comparison,
+    isComparing,
+    error: comparisonError,
+    compareTransactionHashes,
+    clearComparison: resetComparison,
+  } = useComparativeAnalysis();
+  const { validateTxHash } = useTraceTransactionAnalysis();
 
   const handleCompare = async () => {
     if (!txHash1 || !txHash2) {
@@ -82,110 +87,21 @@ export const ComparativeAnalysis: React.FC<ComparativeAnalysisProps> = ({
       return;
     }
 
-    setIsComparing(true);
     setError(null);
 
     try {
-      // For now, create a mock comparison since we don't have the full comparison logic
-      const mockComparison = {
-        transaction1: {
-          hash: txHash1,
-          summary: {
-            pattern: "DeFi Swap",
-            gasUsed: 150000,
-            actionCount: 5,
-            contractCount: 3,
-            hasErrors: false,
-          },
-        },
-        transaction2: {
-          hash: txHash2,
-          summary: {
-            pattern: "Token Transfer",
-            gasUsed: 21000,
-            actionCount: 1,
-            contractCount: 1,
-            hasErrors: false,
-          },
-        },
-        metrics: {
-          actionCount: {
-            transaction1: 5,
-            transaction2: 1,
-            difference: 4,
-            percentageChange: 400,
-          },
-          gasUsage: {
-            transaction1: 150000,
-            transaction2: 21000,
-            difference: 129000,
-            percentageChange: 614,
-          },
-          contractCount: {
-            transaction1: 3,
-            transaction2: 1,
-            difference: 2,
-            percentageChange: 200,
-          },
-          maxDepth: {
-            transaction1: 3,
-            transaction2: 1,
-            difference: 2,
-            percentageChange: 200,
-          },
-          errorCount: {
-            transaction1: 0,
-            transaction2: 0,
-            difference: 0,
-            percentageChange: 0,
-          },
-        },
-        differences: [
-          {
-            category: "Pattern",
-            impact: "high",
-            description:
-              "Transaction patterns differ significantly - DeFi Swap vs Token Transfer",
-          },
-          {
-            category: "Gas Usage",
-            impact: "high",
-            description:
-              "Gas usage differs by 614% - significantly higher complexity in first transaction",
-          },
-        ],
-        patternComparison: {
-          summary:
-            "Transaction patterns show different use cases - complex DeFi interaction vs simple transfer",
-          typeChanged: true,
-        },
-        gasComparison: {
-          summary:
-            "First transaction uses significantly more gas due to complex DeFi operations",
-        },
-        securityComparison: {
-          summary:
-            "Both transactions appear secure with no major concerns detected",
-          newConcerns: [],
-          resolvedConcerns: [],
-        },
-        recommendations: [
-          "Consider gas optimization for complex DeFi operations",
-          "Monitor for MEV opportunities in high-value swaps",
-        ],
-      };
-
-      setComparison(mockComparison);
+      await compareTransactionHashes(
+        txHash1,
+        txHash2,
+        primaryTransaction ? [primaryTransaction] : []
+      );
     } catch (err) {
       console.error("Failed to compare transactions:", err);
-      setError("Failed to compare transactions. Please try again.");
-    } finally {
-      setIsComparing(false);
     }
   };
 
   const clearComparison = () => {
-    setComparison(null);
+    resetComparison();
     setError(null);
   };
 
@@ -251,10 +167,10 @@ export const ComparativeAnalysis: React.FC<ComparativeAnalysisProps> = ({
             )}
           </div>
 
-          {error && (
+          {(error || comparisonError) && (
             <Alert variant="destructive">
               <AlertTriangle className="h-4 w-4" />
-              <span>{error}</span>
+              <span>{error || comparisonError}</span>
             </Alert>
           )}
         </div>
@@ -323,6 +239,13 @@ export const ComparativeAnalysis: React.FC<ComparativeAnalysisProps> = ({
               </div>
             )}
 
+            <div>
+              <div className="flex items-center gap-2 mb-4 text-[#00bfff]">
+                <span className="font-semibold">Call Tree Diff</span>
+              </div>
+              <CallTreeDiffView diff={comparison.callTreeDiff} />
+            </div>
+
             <div>
               <div className="flex items-center gap-2 mb-4 text-[#00bfff]">
                 <span className="font-semibold">Pattern Analysis</span>
@@ -0,0 +1,232 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import { AlertTriangle, Loader2, Repeat } from "lucide-react";
+import { Badge } from "@/components/global";
+import { shortenAddress } from "@/lib/config";
+import type { NetworkId } from "@/lib/networks";
+import type {
+  DexProtocol,
+  DexTokenInfo,
+  PricedDexSwap,
+} from "@/lib/tracetransaction/types";
+
+interface DexSwapsPanelProps {
+  swaps?: PricedDexSwap[];
+  isLoading?: boolean;
+  error?: unknown;
+  network?: NetworkId;
+  // Adds a transaction column, for swaps from a whole block.
+  showTransactions?: boolean;
+  className?: string;
+}
+
+const PROTOCOL_LABELS: Record<DexProtocol, string> = {
+  "uniswap-v2": "Uniswap V2",
+  "uniswap-v3": "Uniswap V3",
+  curve: "Curve",
+  "balancer-v2": "Balancer V2",
+};
+
+const sectionClass =
+  "bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-4";
+
+const tokenLabel = (token: string | null, info: DexTokenInfo | null) =>
+  info?.symbol ?? (token ? shortenAddress(token) : "unknown");
+
+const formatAmount = (amount: bigint, info: DexTokenInfo | null) => {
+  if (info?.decimals == null) return amount.toString();
+  const value = Number(ethers.formatUnits(amount, info.decimals));
+  return value.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+};
+
+const formatPrice = (price: number | null) =>
+  price === null || !Number.isFinite(price) ? "-" : price.toPrecision(6);
+
+const percentClass = (value: number | null) => {
+  if (value === null) return "text-[#6b7280]";
+  if (value > 5) return "text-red-400";
+  if (value > 1) return "text-yellow-400";
+  return "text-[#8b9dc3]";
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${value.toFixed(2)}%`;
+
+/**
+ * Decoded DEX swaps with the tokens and amounts of each hop, the price it
+ * filled at, and how far it moved the pool price.
+ */
+export const DexSwapsPanel: React.FC<DexSwapsPanelProps> = ({
+  swaps,
+  isLoading,
+  error,
+  network,
+  showTransactions = false,
+  className = "",
+}) => {
+  if (isLoading) {
+    return (
+      <div
+        className={`flex items-center justify-center gap-2 py-12 text-[#8b9dc3] ${className}`}
+      >
+        <Loader2 className="h-5 w-5 animate-spin text-[#00bfff]" />
+        Decoding swaps and reading pool state...
+      </div>
+    );
+  }
+
+  if (error || !swaps) {
+    return (
+      <div
+        className={`bg-[rgba(220,38,38,0.1)] border border-[rgba(220,38,38,0.3)] rounded-lg p-4 ${className}`}
+      >
+        <div className="flex items-center gap-2 text-red-400">
+          <AlertTriangle className="h-4 w-4" />
+          <span>
+            {error instanceof Error
+              ? error.message
+              : "Swaps could not be decoded"}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  const transactions = new Set(swaps.map((swap) => swap.transactionHash));
+  const maxImpact = Math.max(0, ...swaps.map((swap) => swap.priceImpact ?? 0));
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline">
+          {swaps.length} swap{swaps.length === 1 ? "" : "s"}
+        </Badge>
+        {showTransactions && (
+          <Badge variant="outline">{transactions.size} transactions</Badge>
+        )}
+        {(Object.keys(PROTOCOL_LABELS) as DexProtocol[]).map((protocol) => {
+          const count = swaps.filter(
+            (swap) => swap.protocol === protocol,
+          ).length;
+          return count > 0 ? (
+            <Badge key={protocol} variant="secondary">
+              {count} {PROTOCOL_LABELS[protocol]}
+            </Badge>
+          ) : null;
+        })}
+        {maxImpact > 1 && (
+          <Badge variant={maxImpact > 5 ? "destructive" : "warning"}>
+            Up to {maxImpact.toFixed(2)}% price impact
+          </Badge>
+        )}
+      </div>
+
+      <div className={sectionClass}>
+        <div className="flex items-center gap-2 mb-3 text-[#00bfff]">
+          <Repeat className="h-4 w-4" />
+          <h4 className="text-sm font-semibold">Swaps</h4>
+        </div>
+        {swaps.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[#8b9dc3]">
+                  {showTransactions && (
+                    <th className="py-1 pr-4 font-medium">Transaction</th>
+                  )}
+                  <th className="py-1 pr-4 font-medium">Hop</th>
+                  <th className="py-1 pr-4 font-medium">Pool</th>
+                  <th className="py-1 pr-4 font-medium">Sold</th>
+                  <th className="py-1 pr-4 font-medium">Bought</th>
+                  <th className="py-1 pr-4 font-medium">Price</th>
+                  <th className="py-1 pr-4 font-medium">Spot before</th>
+                  <th className="py-1 pr-4 font-medium">Impact</th>
+                  <th className="py-1 pr-4 font-medium">Slippage</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {swaps.map((swap) => (
+                  <tr
+                    key={`${swap.transactionHash}:${swap.logIndex}`}
+                    className="border-t border-[rgba(0,191,255,0.1)] align-top"
+                  >
+                    {showTransactions && (
+                      <td className="py-1 pr-4">
+                        {swap.transactionHash && network ? (
+                          <Link
+                            to={`/trace-transaction/${swap.transactionHash}?network=${network}`}
+                            className="text-[#00bfff] hover:underline"
+                            title={swap.transactionHash}
+                          >
+                            {shortenAddress(swap.transactionHash)}
+                          </Link>
+                        ) : (
+                          <span className="text-[#6b7280]">-</span>
+                        )}
+                      </td>
+                    )}
+                    <td className="py-1 pr-4 text-[#8b9dc3]">{swap.hop + 1}</td>
+                    <td className="py-1 pr-4">
+                      <span
+                        className="text-[#00bfff]"
+                        title={swap.poolId ?? swap.pool}
+                      >
+                        {shortenAddress(swap.poolId ?? swap.pool)}
+                      </span>
+                      <div className="font-sans text-[#6b7280]">
+                        {PROTOCOL_LABELS[swap.protocol]}
+                      </div>
+                    </td>
+                    <td className="py-1 pr-4 text-white">
+                      {formatAmount(swap.amountIn, swap.tokenInInfo)}{" "}
+                      <span
+                        className="text-[#8b9dc3]"
+                        title={swap.tokenIn ?? ""}
+                      >
+                        {tokenLabel(swap.tokenIn, swap.tokenInInfo)}
+                      </span>
+                    </td>
+                    <td className="py-1 pr-4 text-white">
+                      {formatAmount(swap.amountOut, swap.tokenOutInfo)}{" "}
+                      <span
+                        className="text-[#8b9dc3]"
+                        title={swap.tokenOut ?? ""}
+                      >
+                        {tokenLabel(swap.tokenOut, swap.tokenOutInfo)}
+                      </span>
+                    </td>
+                    <td className="py-1 pr-4 text-white">
+                      {formatPrice(swap.effectivePrice)}
+                    </td>
+                    <td className="py-1 pr-4 text-[#8b9dc3]">
+                      {formatPrice(swap.spotPriceBefore)}
+                    </td>
+                    <td
+                      className={`py-1 pr-4 ${percentClass(swap.priceImpact)}`}
+                    >
+                      {formatPercent(swap.priceImpact)}
+                    </td>
+                    <td className={`py-1 pr-4 ${percentClass(swap.slippage)}`}>
+                      {formatPercent(swap.slippage)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-[#8b9dc3]">
+            No Uniswap, Curve or Balancer swaps found.
+          </p>
+        )}
+        <p className="mt-3 text-xs text-[#6b7280]">
+          Prices are bought tokens per sold token. Spot prices come from pool
+          reserves or slot0 read at the parent block and carried through earlier
+          swaps on the same pool, so they need an archive node for older blocks.
+          Curve and Balancer swaps show the fill price only.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -20,6 +20,8 @@ import {
   TokenFlowGraph,
   ExportButton,
 } from "./";
+import { TraceFormatExport } from "@/components/debugtrace";
+import { TraceExporter } from "@/lib/debugtrace";
 import type {
   ExportFormat,
   TraceAnalysisResults,
@@ -103,6 +105,17 @@ export function TraceAnalysisResults({
           </span>
         </div>
 
+        <TraceFormatExport
+          className="mb-4"
+          filename={`calltrace-${results.transactionHash.slice(0, 10)}`}
+          loadCallTraces={async () => {
+            const frame = TraceExporter.fromProcessedActions(
+              results.processedActions
+            );
+            return frame ? [{ frame }] : [];
+          }}
+        />
+
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="text-center">
             <div className="text-2xl font-bold text-[#00bfff]">
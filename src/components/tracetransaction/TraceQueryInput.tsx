@@ -0,0 +1,162 @@
+import React, { useMemo, useRef, useState } from "react";
+import { AlertCircle, Search, X } from "lucide-react";
+import { Input } from "@/components/global/Input";
+import { TraceQuery } from "@/lib/tracetransaction/traceQuery";
+import type {
+  TraceQueryError,
+  TraceQueryRecord,
+  TraceQuerySuggestion,
+} from "@/lib/tracetransaction/types";
+
+interface TraceQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Rows of the view, used to suggest addresses, selectors and labels.
+  records: TraceQueryRecord[];
+  error?: TraceQueryError | null;
+  className?: string;
+}
+
+const KIND_STYLES: Record<TraceQuerySuggestion["kind"], string> = {
+  field: "text-[#00bfff]",
+  operator: "text-yellow-300",
+  keyword: "text-purple-300",
+  value: "text-green-300",
+};
+
+/**
+ * Input for trace filter expressions with completions at the cursor. Tab
+ * takes the first suggestion, the arrow keys and Enter pick another.
+ */
+export function TraceQueryInput({
+  value,
+  onChange,
+  records,
+  error,
+  className = "",
+}: TraceQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(value.length);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const suggestions = useMemo(
+    () => TraceQuery.suggest(value, cursor, records),
+    [value, cursor, records]
+  );
+  const showSuggestions = open && suggestions.items.length > 0;
+
+  const moveCursor = (target: HTMLInputElement) => {
+    setCursor(target.selectionStart ?? target.value.length);
+  };
+
+  const accept = (item: TraceQuerySuggestion) => {
+    const rest = value.slice(suggestions.to).trimStart();
+    const next = `${value.slice(0, suggestions.from)}${item.insert} ${rest}`;
+    const position = suggestions.from + item.insert.length + 1;
+    onChange(next);
+    setCursor(position);
+    setHighlighted(-1);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    const count = suggestions.items.length;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((current) => (current + step + count) % count);
+    } else if (e.key === "Tab" || (e.key === "Enter" && highlighted >= 0)) {
+      e.preventDefault();
+      accept(suggestions.items[Math.max(highlighted, 0)]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-[#8b9dc3]" />
+        <Input
+          ref={inputRef}
+          value={value}
+          placeholder="to == 0x… and selector == transfer and depth > 2 and (error or value > 0)"
+          spellCheck={false}
+          onChange={(e) => {
+            onChange(e.target.value);
+            moveCursor(e.target);
+            setHighlighted(-1);
+            setOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => moveCursor(e.currentTarget)}
+          onClick={(e) => moveCursor(e.currentTarget)}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          className={`pl-10 pr-9 font-mono ${
+            error ? "border-red-400 focus-visible:ring-red-400" : ""
+          }`}
+        />
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange("")}
+            className="absolute right-3 top-1/2 transform -translate-y-1/2 text-[#8b9dc3] hover:text-[#00bfff]"
+            title="Clear filter"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+
+        {showSuggestions && (
+          <ul className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto custom-scrollbar rounded-lg border border-[rgba(0,191,255,0.3)] bg-[rgba(15,20,25,0.98)] py-1 shadow-lg">
+            {suggestions.items.map((item, index) => (
+              <li
+                key={`${item.kind}-${item.insert}`}
+                // Keeps focus in the input so the click lands.
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => accept(item)}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex items-center gap-3 px-3 py-1.5 text-sm cursor-pointer ${
+                  index === highlighted ? "bg-[rgba(0,191,255,0.1)]" : ""
+                }`}
+              >
+                <span
+                  className={`font-mono truncate ${KIND_STYLES[item.kind]}`}
+                >
+                  {item.label}
+                </span>
+                {item.detail && (
+                  <span className="ml-auto text-xs text-[#6b7280] truncate">
+                    {item.detail}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error ? (
+        <div className="flex items-center gap-1 mt-1 text-xs text-red-400">
+          <AlertCircle className="h-3 w-3" />
+          <span>
+            {error.message} (at character {error.position + 1}). Showing all
+            rows until the filter is fixed.
+          </span>
+        </div>
+      ) : (
+        <div className="mt-1 text-xs text-[#6b7280]">
+          Combine conditions with and, or, not and parentheses. Operators: == !=
+          &gt; &gt;= &lt; &lt;= ~ (contains). The filter is kept in the link.
+        </div>
+      )}
+    </div>
+  );
+}
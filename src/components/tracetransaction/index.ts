@@ -13,3 +13,5 @@ export { AnalysisHistory } from "./AnalysisHistory";
 export { PerformanceDashboard } from "./PerformanceDashboard";
 export { BookmarkManager } from "./BookmarkManager";
 export { ExportButton } from "./ExportButton";
+export { DexSwapsPanel } from "./DexSwapsPanel";
+export { TraceQueryInput } from "./TraceQueryInput";
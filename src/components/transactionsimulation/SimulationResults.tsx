@@ -2,6 +2,7 @@ import React, { useMemo, useState } from "react";
 import { Badge } from "@/components/global/Badge";
 import { Button } from "@/components/global/Button";
 import { Alert } from "@/components/global/Alert";
+import { RevertPath, RevertSummary } from "@/components/abi";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/Tabs";
 import {
   Activity,
@@ -354,6 +355,17 @@ export const SimulationResults: React.FC<EnhancedSimulationResultsProps> = ({
               <div>
                 <div className="font-medium">Transaction Error:</div>
                 <div className="mt-1 text-sm">{result.error}</div>
+                {result.revert && result.revert.kind !== "empty" && (
+                  <div className="mt-2">
+                    <RevertSummary revert={result.revert} />
+                  </div>
+                )}
+                {result.revertPath && result.revertPath.length > 1 && (
+                  <div className="mt-3">
+                    <div className="mb-2 text-sm font-medium">Revert Path:</div>
+                    <RevertPath frames={result.revertPath} />
+                  </div>
+                )}
                 {result.note && (
                   <div className="mt-2 text-sm text-yellow-400">
                     {result.note}
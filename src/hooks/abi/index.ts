@@ -0,0 +1,5 @@
+export {
+  useAbis,
+  useAbiAttachments,
+  useAbiRegistryActions,
+} from "./useAbiRegistry";
@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { abiRegistry } from "@/lib/abi";
+import type { NetworkId } from "@/lib/networks";
+
+const ABI_KEYS = {
+  abis: ["abi-registry"],
+  attachments: ["abi-registry", "attachments"],
+};
+
+export function useAbis() {
+  return useQuery({
+    queryKey: ABI_KEYS.abis,
+    queryFn: () => abiRegistry.getAbis(),
+    staleTime: 0,
+  });
+}
+
+export function useAbiAttachments() {
+  return useQuery({
+    queryKey: ABI_KEYS.attachments,
+    queryFn: () => abiRegistry.getAttachments(),
+    staleTime: 0,
+  });
+}
+
+export function useAbiRegistryActions() {
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ABI_KEYS.abis });
+  };
+
+  return {
+    addAbi: useMutation({
+      mutationFn: async ({ text, name }: { text: string; name?: string }) =>
+        abiRegistry.addAbi(text, null, name),
+      onSuccess,
+    }),
+    addFiles: useMutation({
+      mutationFn: (files: File[]) => abiRegistry.addFiles(files),
+      onSuccess,
+    }),
+    removeAbi: useMutation({
+      mutationFn: async (id: string) => abiRegistry.removeAbi(id),
+      onSuccess,
+    }),
+    attachAddress: useMutation({
+      mutationFn: async ({
+        network,
+        address,
+        abiId,
+      }: {
+        network: NetworkId;
+        address: string;
+        abiId: string;
+      }) => abiRegistry.attachAddress(network, address, abiId),
+      onSuccess,
+    }),
+    detachAddress: useMutation({
+      mutationFn: async ({
+        network,
+        address,
+      }: {
+        network: NetworkId;
+        address: string;
+      }) => abiRegistry.detachAddress(network, address),
+      onSuccess,
+    }),
+  };
+}
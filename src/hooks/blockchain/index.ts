@@ -10,3 +10,14 @@ export {
 export { useBlockchainStatus } from "./useBlockchainStatus";
 export { useNetworkSwitcher } from "./useNetworkSwitcher";
 export { useRpcProvider } from "./useRpcProvider";
+export { useNetworks, useNetworkRegistryScope } from "./useNetworks";
+export { useRpcPoolHealth } from "./useRpcPoolHealth";
+export { useRequestQueue } from "./useRequestQueue";
+export { useExecutionClient } from "./useExecutionClient";
+export { useExplorerUrl } from "./useExplorerUrl";
+export { useRpcSession } from "./useRpcSession";
+export {
+  useRpcCapabilityMatrix,
+  useCapabilityRequirements,
+} from "./useRpcCapabilityMatrix";
+export { useStateAvailability } from "./useStateAvailability";
@@ -8,7 +8,7 @@ export function useCurrentBlock() {
       if (!blockchainService.isConnected()) {
         await blockchainService.connect();
       }
-      return blockchainService.getCurrentBlock();
+      return blockchainService.getCurrentBlock("background");
     },
     refetchInterval: 12000,
     refetchIntervalInBackground: true,
@@ -24,7 +24,7 @@ export function useGasPrice() {
       if (!blockchainService.isConnected()) {
         await blockchainService.connect();
       }
-      const gasPrice = await blockchainService.getGasPrice();
+      const gasPrice = await blockchainService.getGasPrice("background");
       return Math.round(gasPrice * 100) / 100;
     },
     refetchInterval: 30000,
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { CLIENT_PROFILES, traceStrategyService } from "@/lib/tracing";
+import type { NetworkId } from "@/lib/networks";
+
+/**
+ * Execution client of the connected endpoint, as reported by
+ * web3_clientVersion, together with its tracing profile.
+ */
+export function useExecutionClient(network: NetworkId | null | undefined) {
+  return useQuery({
+    queryKey: ["execution-client", network],
+    queryFn: async () => {
+      const info = await traceStrategyService.getClientInfo();
+      return { ...info, profile: CLIENT_PROFILES[info.client] };
+    },
+    enabled: !!network,
+    staleTime: 30 * 60 * 1000,
+    retry: 1,
+  });
+}
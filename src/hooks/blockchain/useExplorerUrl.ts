@@ -0,0 +1,31 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import {
+  DEFAULT_NETWORK_ID,
+  getExplorerUrl,
+  type NetworkId,
+} from "@/lib/networks";
+
+/**
+ * Builds block explorer links for the given network, or the connected one.
+ * Returns null for networks without an explorer, such as local devnets, so
+ * callers can hide the link.
+ */
+export function useExplorerUrl(network?: NetworkId) {
+  const { data: currentNetwork } = useQuery({
+    queryKey: ["current-network"],
+    queryFn: () => blockchainService.getCurrentNetworkType(),
+    refetchInterval: 1000,
+    staleTime: 0,
+    enabled: !network,
+  });
+
+  const target = network ?? currentNetwork ?? DEFAULT_NETWORK_ID;
+
+  return useCallback(
+    (type: "tx" | "address" | "block", value: string | number) =>
+      getExplorerUrl(target, type, value),
+    [target],
+  );
+}
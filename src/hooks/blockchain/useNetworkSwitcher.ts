@@ -1,5 +1,7 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { blockchainService } from "@/lib/blockchainService";
+import type { NetworkId } from "@/lib/networks";
 
 export function useNetworkSwitcher() {
   const queryClient = useQueryClient();
@@ -12,7 +14,7 @@ export function useNetworkSwitcher() {
   });
 
   const switchNetworkMutation = useMutation({
-    mutationFn: async (network: "sepolia" | "mainnet") => {
+    mutationFn: async (network: NetworkId) => {
       console.log(`Switching to ${network}...`);
       const success = await blockchainService.switchNetwork(network);
       if (!success) {
@@ -34,6 +36,8 @@ export function useNetworkSwitcher() {
     },
     onError: (error) => {
       console.error("Network switch failed:", error);
+      toast.error(error.message);
+      queryClient.invalidateQueries({ queryKey: ["current-network"] });
     },
   });
 
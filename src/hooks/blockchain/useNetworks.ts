@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  networkRegistry,
+  type NetworkId,
+  type NetworkInput,
+} from "@/lib/networks";
+
+const subscribe = (onChange: () => void) => networkRegistry.subscribe(onChange);
+const getSnapshot = () => networkRegistry.getAll();
+
+export function useNetworks() {
+  const queryClient = useQueryClient();
+  const networks = useSyncExternalStore(subscribe, getSnapshot);
+
+  const invalidateNetworkQueries = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ["current-network"] });
+    queryClient.invalidateQueries({ queryKey: ["network-info"] });
+    queryClient.invalidateQueries({ queryKey: ["connection-status"] });
+  }, [queryClient]);
+
+  const addNetwork = useCallback(
+    (input: NetworkInput) => {
+      const network = networkRegistry.add(input);
+      invalidateNetworkQueries();
+      return network;
+    },
+    [invalidateNetworkQueries],
+  );
+
+  const updateNetwork = useCallback(
+    (id: NetworkId, updates: Partial<NetworkInput>) => {
+      const network = networkRegistry.update(id, updates);
+      invalidateNetworkQueries();
+      return network;
+    },
+    [invalidateNetworkQueries],
+  );
+
+  const removeNetwork = useCallback(
+    (id: NetworkId) => {
+      networkRegistry.remove(id);
+      invalidateNetworkQueries();
+    },
+    [invalidateNetworkQueries],
+  );
+
+  return {
+    networks,
+    getNetwork: (id: NetworkId) => networkRegistry.get(id),
+    validateNetwork: (input: NetworkInput, existingId?: NetworkId) =>
+      networkRegistry.validate(input, existingId),
+    addNetwork,
+    updateNetwork,
+    removeNetwork,
+  };
+}
+
+export function useNetworkRegistryScope(userId: string | null | undefined) {
+  useEffect(() => {
+    networkRegistry.setUserScope(userId);
+  }, [userId]);
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { requestScheduler, type RequestQueueStatus } from "@/lib/rpc";
+
+export function useRequestQueue(enabled: boolean = true) {
+  return useQuery<RequestQueueStatus>({
+    queryKey: ["rpc-request-queue"],
+    queryFn: () => requestScheduler.getStatus(),
+    enabled,
+    refetchInterval: 1000,
+    staleTime: 0,
+  });
+}
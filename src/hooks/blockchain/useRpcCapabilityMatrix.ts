@@ -0,0 +1,61 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import {
+  checkCapabilityRequirements,
+  rpcCapabilityService,
+  type CapabilityPage,
+  type CapabilityRequirement,
+} from "@/lib/capabilities";
+import type { NetworkId } from "@/lib/networks";
+
+/**
+ * Capability matrix of the given network, or of the connected network when
+ * none is given. Probing connects to the network first.
+ */
+export function useRpcCapabilityMatrix(network?: NetworkId) {
+  const { data: currentNetwork } = useQuery({
+    queryKey: ["current-network"],
+    queryFn: () => blockchainService.getCurrentNetworkType(),
+    refetchInterval: 1000,
+    staleTime: 0,
+    enabled: !network,
+  });
+
+  const target = network ?? currentNetwork ?? null;
+
+  return useQuery({
+    queryKey: ["rpc-capabilities", target],
+    queryFn: async () => {
+      if (network) {
+        await blockchainService.connect(network);
+      }
+      return rpcCapabilityService.getCapabilities();
+    },
+    staleTime: 30 * 60 * 1000,
+    gcTime: 60 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+export function useCapabilityRequirements(
+  requirements: CapabilityRequirement[] | CapabilityPage,
+  network?: NetworkId,
+) {
+  const matrix = useRpcCapabilityMatrix(network);
+  const capabilities = matrix.data?.capabilities ?? null;
+
+  const check = useMemo(
+    () => checkCapabilityRequirements(requirements, capabilities),
+    [requirements, capabilities],
+  );
+
+  return {
+    ...check,
+    isProbing: matrix.isLoading,
+    refresh: async () => {
+      await rpcCapabilityService.getCapabilities(true);
+      return matrix.refetch();
+    },
+  };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import type { EndpointHealth } from "@/lib/rpc";
+
+export function useRpcPoolHealth(enabled: boolean = true) {
+  return useQuery<EndpointHealth[]>({
+    queryKey: ["rpc-pool-health"],
+    queryFn: () => blockchainService.getRpcPool()?.getHealth() ?? [],
+    enabled,
+    refetchInterval: 5000,
+    staleTime: 0,
+  });
+}
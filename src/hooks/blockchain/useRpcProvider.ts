@@ -6,6 +6,8 @@ import {
   getAlternativeProviders,
   getRecommendedPages,
 } from "@/lib/mempool/rpcProviders";
+import type { RpcCapability } from "@/lib/capabilities";
+import { useRpcCapabilityMatrix } from "./useRpcCapabilityMatrix";
 
 export function useRpcProvider() {
   const [currentRpcUrl, setCurrentRpcUrl] = useState<string>("");
@@ -52,14 +54,39 @@ export function useRpcProvider() {
   };
 }
 
+/**
+ * Probed capabilities of the connected endpoints. Until the probe finishes,
+ * the static provider table is used as an estimate.
+ */
 export function useRpcCapabilities() {
   const { provider } = useRpcProvider();
+  const matrix = useRpcCapabilityMatrix();
+  const capabilities = matrix.data?.capabilities ?? null;
+
+  const supports = (capability: RpcCapability, estimate?: boolean) =>
+    capabilities
+      ? capabilities[capability].status === "supported"
+      : (estimate ?? false);
 
   return {
-    supportsTxPoolStatus: provider?.capabilities.txpool_status ?? false,
-    supportsTxPoolContent: provider?.capabilities.txpool_content ?? false,
-    supportsTxPoolInspect: provider?.capabilities.txpool_inspect ?? false,
-    supportsDebugTrace: provider?.capabilities.debug_traceTransaction ?? false,
+    supportsTxPoolStatus: supports(
+      "txpool_status",
+      provider?.capabilities.txpool_status,
+    ),
+    supportsTxPoolContent: supports(
+      "txpool_content",
+      provider?.capabilities.txpool_content,
+    ),
+    supportsTxPoolInspect: supports(
+      "txpool_inspect",
+      provider?.capabilities.txpool_inspect,
+    ),
+    supportsDebugTrace: supports(
+      "debug_traceTransaction",
+      provider?.capabilities.debug_traceTransaction,
+    ),
+    capabilities,
+    isProbing: matrix.isLoading,
     provider,
   };
 }
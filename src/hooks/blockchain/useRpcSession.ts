@@ -0,0 +1,80 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import {
+  parseRpcSession,
+  rpcRecorder,
+  type RpcSession,
+} from "@/lib/rpcsession";
+
+const subscribeRecorder = (onChange: () => void) =>
+  rpcRecorder.subscribe(onChange);
+
+let recorderSnapshot = rpcRecorder.getState();
+const getRecorderSnapshot = () => {
+  const state = rpcRecorder.getState();
+  if (
+    state.recording !== recorderSnapshot.recording ||
+    state.session !== recorderSnapshot.session ||
+    state.entryCount !== recorderSnapshot.entryCount
+  ) {
+    recorderSnapshot = state;
+  }
+  return recorderSnapshot;
+};
+
+/**
+ * Recording and offline replay of JSON-RPC sessions. Starting or stopping a
+ * replay refetches every query so pages switch between recorded and live
+ * data.
+ */
+export function useRpcSession() {
+  const queryClient = useQueryClient();
+  const recorder = useSyncExternalStore(subscribeRecorder, getRecorderSnapshot);
+
+  const { data: replay } = useQuery({
+    queryKey: ["rpc-replay"],
+    queryFn: () => {
+      const replayer = blockchainService.getReplayer();
+      return replayer
+        ? { session: replayer.session, stats: replayer.getStats() }
+        : null;
+    },
+    refetchInterval: 2000,
+    staleTime: 0,
+  });
+
+  const refreshAll = useCallback(
+    () => queryClient.invalidateQueries(),
+    [queryClient],
+  );
+
+  const startReplay = useCallback(
+    (session: RpcSession | string) => {
+      const parsed =
+        typeof session === "string" ? parseRpcSession(session) : session;
+      if (rpcRecorder.getState().recording) rpcRecorder.stop();
+      blockchainService.startReplay(parsed);
+      void refreshAll();
+      return parsed;
+    },
+    [refreshAll],
+  );
+
+  const stopReplay = useCallback(() => {
+    blockchainService.stopReplay();
+    void refreshAll();
+  }, [refreshAll]);
+
+  return {
+    recording: recorder.recording,
+    recordedSession: recorder.session,
+    recordedCalls: recorder.entryCount,
+    replay: replay ?? null,
+    startRecording: (name?: string) => rpcRecorder.start(name),
+    stopRecording: () => rpcRecorder.stop(),
+    discardRecording: () => rpcRecorder.discard(),
+    startReplay,
+    stopReplay,
+  };
+}
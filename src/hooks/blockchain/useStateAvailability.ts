@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import { stateHistoryService } from "@/lib/capabilities";
+import type { NetworkId } from "@/lib/networks";
+
+/**
+ * Whether the node still has state for a block, with the nearest block it
+ * can serve. Resolves to null for recent tags and while history is
+ * unknown, so callers only warn on a definite answer.
+ */
+export function useStateAvailability(
+  blockIdentifier: string | number | null | undefined,
+  network?: NetworkId,
+) {
+  const identifier =
+    typeof blockIdentifier === "string"
+      ? blockIdentifier.trim()
+      : blockIdentifier;
+
+  return useQuery({
+    queryKey: ["state-availability", network ?? null, identifier],
+    queryFn: async () => {
+      if (network) {
+        await blockchainService.connect(network);
+      }
+      return stateHistoryService.checkBlock(identifier!);
+    },
+    enabled:
+      identifier !== null && identifier !== undefined && identifier !== "",
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+}
@@ -1,3 +1,5 @@
 export * from "./useBlockTraceData";
 export * from "./useBlockTraceProgressiveLoading";
 export * from "./useBlockTraceBookmarks";
+export * from "./useBlockMevAnalysis";
+export * from "./useBlockSwaps";
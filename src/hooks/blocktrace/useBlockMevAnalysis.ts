@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import type { NetworkId } from "@/lib/networks";
+import { AdvancedMevDetector } from "@/lib/tracetransaction/advancedMevDetector";
+import { traceStrategyService } from "@/lib/tracing";
+
+interface UseBlockMevAnalysisOptions {
+  blockIdentifier?: string | number;
+  network: NetworkId;
+  enabled?: boolean;
+}
+
+/**
+ * Sandwiches, arbitrage, repeat bots and linked transactions in a block,
+ * from its call traces and receipt logs.
+ */
+export function useBlockMevAnalysis({
+  blockIdentifier,
+  network,
+  enabled = true,
+}: UseBlockMevAnalysisOptions) {
+  return useQuery({
+    queryKey: ["block-mev-analysis", blockIdentifier, network],
+    queryFn: async () => {
+      if (!blockchainService.isConnected()) {
+        await blockchainService.connect(network);
+      }
+
+      const traces = await traceStrategyService.traceBlockCalls(
+        blockIdentifier!
+      );
+      const receipts = await blockchainService.getTransactionReceipts(
+        traces.map((item) => item.txHash)
+      );
+
+      return AdvancedMevDetector.analyzeBlock(
+        AdvancedMevDetector.collectBlockTransactions(traces, receipts)
+      );
+    },
+    enabled: enabled && blockIdentifier !== undefined && blockIdentifier !== "",
+    retry: 1,
+    staleTime: 2 * 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
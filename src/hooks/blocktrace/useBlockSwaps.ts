@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import type { NetworkId } from "@/lib/networks";
+import { SwapDecoder } from "@/lib/tracetransaction/swapDecoder";
+
+interface UseBlockSwapsOptions {
+  blockIdentifier?: string | number;
+  network: NetworkId;
+  enabled?: boolean;
+}
+
+/**
+ * Every DEX swap in a block in execution order, priced against the pools'
+ * state at the parent block.
+ */
+export function useBlockSwaps({
+  blockIdentifier,
+  network,
+  enabled = true,
+}: UseBlockSwapsOptions) {
+  return useQuery({
+    queryKey: ["block-swaps", blockIdentifier, network],
+    queryFn: async () => {
+      if (!blockchainService.isConnected()) {
+        await blockchainService.connect(network);
+      }
+
+      const block = await blockchainService.getBlock(blockIdentifier!);
+      const receipts = await blockchainService.getTransactionReceipts(
+        block.transactions
+      );
+
+      return SwapDecoder.analyzeReceipts(
+        receipts.filter((receipt) => receipt !== null)
+      );
+    },
+    enabled: enabled && blockIdentifier !== undefined && blockIdentifier !== "",
+    retry: 1,
+    staleTime: 2 * 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+}
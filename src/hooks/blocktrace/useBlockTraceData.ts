@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { DebugBlockService } from "@/lib/debugblock";
 import { ProcessedDebugBlockData, BlockInfo } from "@/lib/debugblock/types";
 import { blockchainService } from "@/lib/blockchainService";
+import type { NetworkId } from "@/lib/networks";
 
 interface BlockTraceResult {
   data: ProcessedDebugBlockData;
@@ -10,7 +11,7 @@ interface BlockTraceResult {
 
 interface UseBlockTraceDataOptions {
   blockIdentifier?: string;
-  network: "mainnet" | "sepolia";
+  network: NetworkId;
   analysisType: "full" | "summary" | "custom";
   enabled?: boolean;
 }
@@ -251,7 +252,7 @@ function validateBlockIdentifier(identifier: string): string | null {
 // Hook for getting cached block trace data
 export function useCachedBlockTraceData(
   blockIdentifier: string,
-  network: "mainnet" | "sepolia",
+  network: NetworkId,
   analysisType: "full" | "summary" | "custom"
 ) {
   const queryClient = useQueryClient();
@@ -276,7 +277,7 @@ export function useInvalidateBlockTraceCache() {
     },
     invalidateBlock: (
       blockIdentifier: string,
-      network?: "mainnet" | "sepolia",
+      network?: NetworkId,
       analysisType?: "full" | "summary" | "custom"
     ) => {
       const queryKey = ["debug-block-trace", blockIdentifier];
@@ -289,7 +290,7 @@ export function useInvalidateBlockTraceCache() {
     },
     removeBlock: (
       blockIdentifier: string,
-      network: "mainnet" | "sepolia",
+      network: NetworkId,
       analysisType: "full" | "summary" | "custom"
     ) => {
       queryClient.removeQueries({
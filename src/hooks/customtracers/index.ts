@@ -0,0 +1,5 @@
+export {
+  useSavedTracers,
+  useCustomTracerActions,
+  useRunTracer,
+} from "./useCustomTracers";
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import {
+  customTracerService,
+  type TracerRunRequest,
+} from "@/lib/customtracers";
+import type { NetworkId } from "@/lib/networks";
+
+const CUSTOM_TRACER_KEYS = {
+  tracers: ["custom-tracers"],
+};
+
+export function useSavedTracers() {
+  return useQuery({
+    queryKey: CUSTOM_TRACER_KEYS.tracers,
+    queryFn: () => customTracerService.getTracers(),
+    staleTime: 0,
+  });
+}
+
+export function useCustomTracerActions() {
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: CUSTOM_TRACER_KEYS.tracers });
+  };
+
+  return {
+    save: useMutation({
+      mutationFn: async (tracer: {
+        id?: string;
+        name: string;
+        code: string;
+        tracerConfig?: string;
+      }) => customTracerService.saveTracer(tracer),
+      onSuccess,
+    }),
+    remove: useMutation({
+      mutationFn: async (id: string) => customTracerService.removeTracer(id),
+      onSuccess,
+    }),
+  };
+}
+
+/**
+ * Runs a tracer against a transaction, a call or a block on the network.
+ */
+export function useRunTracer(network: NetworkId) {
+  return useMutation({
+    mutationFn: async (request: TracerRunRequest) => {
+      await blockchainService.connect(network);
+      return customTracerService.run(request);
+    },
+  });
+}
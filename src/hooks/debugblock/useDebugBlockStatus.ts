@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { blockchainService } from "@/lib/blockchainService";
 import { DebugBlockService } from "@/lib/debugblock";
+import type { NetworkId } from "@/lib/networks";
 
 interface DebugBlockStatus {
   isConnected: boolean;
@@ -120,7 +121,7 @@ export const useDebugBlockStatus = (
     }
   };
 
-  const switchNetwork = async (network: "sepolia" | "mainnet") => {
+  const switchNetwork = async (network: NetworkId) => {
     try {
       setStatus((prev) => ({ ...prev, loading: true, error: null }));
       await blockchainService.switchNetwork(network);
@@ -1 +1,11 @@
 export * from "./useDebugTraceBookmarks";
+export {
+  buildDebugSession,
+  debugSessionQuery,
+  fetchStructLogTrace,
+  useDebugSession,
+  useStepDebugger,
+} from "./useStepDebugger";
+export { useStepDetails } from "./useStepDetails";
+export { useStorageTimeline } from "./useStorageTimeline";
+export { useTransactionStateDiff } from "./useTransactionStateDiff";
@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { queryOptions, useQuery } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import {
+  StepDebugger,
+  structLogPipeline,
+  type BreakpointKind,
+  type DebugBreakpoint,
+  type DebugSession,
+  type StructLogTraceSource,
+} from "@/lib/debugtrace";
+import type { NetworkId } from "@/lib/networks";
+import { traceStrategyService } from "@/lib/tracing";
+
+const BREAKPOINTS_STORAGE_KEY = "arguschain_debugger_breakpoints";
+
+const loadBreakpoints = (): DebugBreakpoint[] => {
+  try {
+    const stored = localStorage.getItem(BREAKPOINTS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn("Failed to load debugger breakpoints:", error);
+    return [];
+  }
+};
+
+/**
+ * structLog trace of a transaction with the contract it runs in. Not
+ * cached: callers hand the steps to the structLog worker and let go of
+ * the trace.
+ */
+export async function fetchStructLogTrace(
+  txHash: string,
+  network: NetworkId,
+  memory = false,
+): Promise<StructLogTraceSource> {
+  await blockchainService.connect(network);
+  const provider = blockchainService.getProvider();
+
+  const [trace, transaction] = await Promise.all([
+    traceStrategyService.traceTransactionStructLog(txHash, {
+      memory,
+      stack: true,
+      storage: true,
+    }),
+    provider?.getTransaction(txHash) ?? null,
+  ]);
+
+  let rootAddress = transaction?.to ?? null;
+  if (transaction && !rootAddress) {
+    const receipt = await provider?.getTransactionReceipt(txHash);
+    rootAddress = receipt?.contractAddress ?? null;
+  }
+
+  return {
+    trace,
+    rootAddress,
+    isCreation: !!transaction && !transaction.to,
+  };
+}
+
+/**
+ * Windowed debug session built in the structLog worker, which keeps the
+ * stack, memory and storage; see `useStepDetails`.
+ */
+export function buildDebugSession(
+  txHash: string,
+  { trace, rootAddress, isCreation }: StructLogTraceSource,
+): Promise<DebugSession> {
+  if (trace.structLogs.length === 0) {
+    return Promise.reject(
+      new Error(
+        "The trace has no steps; the transaction may be a plain transfer",
+      ),
+    );
+  }
+  return structLogPipeline.buildWindowedSession(
+    txHash,
+    trace,
+    rootAddress,
+    isCreation,
+  );
+}
+
+/**
+ * Debug session of a transaction, shared through the query cache by every
+ * panel built on it. The Debug Trace page seeds it from the trace it
+ * fetched, so the trace is fetched once.
+ */
+export const debugSessionQuery = (
+  txHash: string,
+  network: NetworkId,
+  memory = false,
+) =>
+  queryOptions({
+    queryKey: ["debug-session", network, txHash, memory],
+    queryFn: async () =>
+      buildDebugSession(
+        txHash,
+        await fetchStructLogTrace(txHash, network, memory),
+      ),
+    staleTime: Infinity,
+    gcTime: 10 * 60 * 1000,
+    retry: false,
+  });
+
+/**
+ * structLog trace of a transaction prepared for stepping. Memory capture
+ * is optional because it multiplies the size of the trace.
+ */
+export function useDebugSession(
+  txHash: string | null | undefined,
+  network: NetworkId,
+  {
+    memory = false,
+    enabled = true,
+  }: { memory?: boolean; enabled?: boolean } = {},
+) {
+  const session = useQuery({
+    ...debugSessionQuery(txHash ?? "", network, memory),
+    enabled: enabled && !!txHash,
+  });
+
+  // The worker only keeps a few sessions; a cached one it has dropped is
+  // fetched and built again.
+  const { data, refetch } = session;
+  useEffect(() => {
+    if (data && !structLogPipeline.isRetained(data)) void refetch();
+  }, [data, refetch]);
+
+  return session;
+}
+
+/**
+ * Cursor, navigation and breakpoints for stepping through a session.
+ * Breakpoints are kept across transactions, like in an IDE.
+ */
+export function useStepDebugger(session: DebugSession | undefined) {
+  const [step, setStep] = useState(0);
+  const [breakpoints, setBreakpoints] =
+    useState<DebugBreakpoint[]>(loadBreakpoints);
+  const [lastHit, setLastHit] = useState<number | null>(null);
+
+  // Reloading the same transaction, e.g. with memory, keeps the cursor.
+  useEffect(() => {
+    setStep(0);
+    setLastHit(null);
+  }, [session?.txHash]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(
+        BREAKPOINTS_STORAGE_KEY,
+        JSON.stringify(breakpoints),
+      );
+    } catch (error) {
+      console.warn("Failed to save debugger breakpoints:", error);
+    }
+  }, [breakpoints]);
+
+  const move = useCallback(
+    (navigate: (session: DebugSession, step: number) => number) => {
+      if (!session) return;
+      setLastHit(null);
+      setStep((current) => navigate(session, current));
+    },
+    [session],
+  );
+
+  const goTo = useCallback(
+    (target: number) => {
+      if (!session) return;
+      setLastHit(null);
+      setStep(Math.max(0, Math.min(target, session.steps.length - 1)));
+    },
+    [session],
+  );
+
+  // Returns false when no breakpoint is hit in that direction.
+  const runToBreakpoint = useCallback(
+    (direction: 1 | -1) => {
+      if (!session) return false;
+      const hit = StepDebugger.findBreakpoint(
+        session,
+        step,
+        breakpoints,
+        direction,
+      );
+      if (hit === null) return false;
+      setStep(hit);
+      setLastHit(hit);
+      return true;
+    },
+    [session, step, breakpoints],
+  );
+
+  const addBreakpoint = useCallback((kind: BreakpointKind, value: string) => {
+    setBreakpoints((current) => [
+      ...current,
+      {
+        id: `${kind}-${Date.now()}-${current.length}`,
+        kind,
+        value: value.trim(),
+        enabled: true,
+      },
+    ]);
+  }, []);
+
+  const toggleBreakpoint = useCallback((id: string) => {
+    setBreakpoints((current) =>
+      current.map((breakpoint) =>
+        breakpoint.id === id
+          ? { ...breakpoint, enabled: !breakpoint.enabled }
+          : breakpoint,
+      ),
+    );
+  }, []);
+
+  const removeBreakpoint = useCallback((id: string) => {
+    setBreakpoints((current) =>
+      current.filter((breakpoint) => breakpoint.id !== id),
+    );
+  }, []);
+
+  const position = useMemo(() => {
+    if (!session || session.steps.length === 0) return null;
+    const index = Math.min(step, session.steps.length - 1);
+    return {
+      index,
+      entry: session.steps[index],
+      frame: StepDebugger.getFrame(session, index),
+      callStack: StepDebugger.getCallStack(session, index),
+    };
+  }, [session, step]);
+
+  return {
+    step,
+    position,
+    lastHit,
+    breakpoints,
+    goTo,
+    stepInto: () => move((s, i) => StepDebugger.stepInto(s, i)),
+    stepBack: () => move((s, i) => StepDebugger.stepBack(s, i)),
+    stepOver: () => move((s, i) => StepDebugger.stepOver(s, i)),
+    stepOverBack: () => move((s, i) => StepDebugger.stepOverBack(s, i)),
+    stepOut: () => move((s, i) => StepDebugger.stepOut(s, i)),
+    runToBreakpoint,
+    addBreakpoint,
+    toggleBreakpoint,
+    removeBreakpoint,
+  };
+}
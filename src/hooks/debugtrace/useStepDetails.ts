@@ -0,0 +1,71 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  STEP_DETAILS_RADIUS,
+  structLogPipeline,
+  type DebugSession,
+  type StepDetails,
+} from "@/lib/debugtrace";
+import type { StructLogStep } from "@/lib/tracing";
+
+interface LoadedWindow {
+  session: DebugSession;
+  start: number;
+  details: StepDetails[];
+}
+
+/**
+ * A step with its stack, memory and storage. Windowed sessions keep those
+ * in the structLog worker, so only the steps around the viewed one are
+ * held here; moving past the window replaces it.
+ */
+export function useStepDetails(
+  session: DebugSession | undefined,
+  step: number,
+) {
+  const [loaded, setLoaded] = useState<LoadedWindow | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  const windowed = session?.detailsJob !== undefined;
+  const covered =
+    !!loaded &&
+    loaded.session === session &&
+    step >= loaded.start &&
+    step < loaded.start + loaded.details.length;
+
+  useEffect(() => {
+    if (!session || !windowed || covered) return;
+    let cancelled = false;
+    structLogPipeline
+      .loadDetails(
+        session,
+        Math.max(0, step - STEP_DETAILS_RADIUS),
+        step + STEP_DETAILS_RADIUS + 1,
+      )
+      .then(({ start, details }) => {
+        if (cancelled) return;
+        setLoaded({ session, start, details });
+        setError(null);
+      })
+      .catch((reason: Error) => {
+        if (!cancelled) setError(reason);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [session, windowed, covered, step]);
+
+  const entry = useMemo((): StructLogStep | null => {
+    const base = session?.steps[step];
+    if (!base || !windowed) return base ?? null;
+    return covered
+      ? { ...base, ...loaded!.details[step - loaded!.start] }
+      : base;
+  }, [session, step, windowed, covered, loaded]);
+
+  return {
+    entry,
+    windowed,
+    isLoading: windowed && !covered && !error,
+    error: windowed ? error : null,
+  };
+}
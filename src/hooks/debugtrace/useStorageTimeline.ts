@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { structLogPipeline, type DebugSession } from "@/lib/debugtrace";
+
+/**
+ * Storage reads and writes of a debug session, built in the structLog
+ * worker next to the steps' stack and storage.
+ */
+export function useStorageTimeline(session: DebugSession | undefined) {
+  return useQuery({
+    queryKey: ["storage-timeline", session?.txHash, session?.detailsJob],
+    queryFn: () => structLogPipeline.loadStorageTimeline(session!),
+    enabled: !!session,
+    staleTime: Infinity,
+    gcTime: 10 * 60 * 1000,
+    retry: false,
+  });
+}
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import type { NetworkId } from "@/lib/networks";
+import {
+  StateDiffProcessor,
+  type StateDiffAnalysis,
+} from "@/lib/replaytransactions";
+import { traceStrategyService } from "@/lib/tracing";
+
+/**
+ * Balance, nonce, code and storage changes made by a transaction. Geth
+ * nodes answer through prestateTracer in diffMode, others through
+ * trace_replayTransaction.
+ */
+export function useTransactionStateDiff(
+  txHash: string | null | undefined,
+  network: NetworkId,
+  { enabled = true }: { enabled?: boolean } = {},
+) {
+  return useQuery({
+    queryKey: ["transaction-state-diff", network, txHash],
+    queryFn: async (): Promise<StateDiffAnalysis> => {
+      await blockchainService.connect(network);
+      const stateDiff = await traceStrategyService.traceTransactionStateDiff(
+        txHash!,
+      );
+      return StateDiffProcessor.processStateDiff(stateDiff, txHash!);
+    },
+    enabled: enabled && !!txHash,
+    staleTime: Infinity,
+    gcTime: 10 * 60 * 1000,
+    retry: false,
+  });
+}
@@ -0,0 +1,2 @@
+// Devnet hooks barrel export
+export { useDevnetActions, useDevnetInfo, useDevnetState } from "./useDevnet";
@@ -0,0 +1,92 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import {
+  devnetService,
+  type DevnetSnapshot,
+  type DevnetTransactionRequest,
+} from "@/lib/devnet";
+import type { NetworkId } from "@/lib/networks";
+
+const DEVNET_KEYS = {
+  info: (network: NetworkId) => ["devnet-info", network],
+  state: (network: NetworkId) => ["devnet-state", network],
+};
+
+/**
+ * Node type, chain and dev accounts of a local network, or null when the
+ * network is not an Anvil/Hardhat node.
+ */
+export function useDevnetInfo(network: NetworkId) {
+  return useQuery({
+    queryKey: DEVNET_KEYS.info(network),
+    queryFn: async () => {
+      await blockchainService.connect(network);
+      return devnetService.getInfo();
+    },
+    refetchInterval: 5000,
+    retry: false,
+  });
+}
+
+/**
+ * Snapshots and impersonated accounts tracked for the connected devnet.
+ */
+export function useDevnetState(network: NetworkId) {
+  return useQuery<{ snapshots: DevnetSnapshot[]; impersonated: string[] }>({
+    queryKey: DEVNET_KEYS.state(network),
+    queryFn: () => ({
+      snapshots: devnetService.getSnapshots(),
+      impersonated: devnetService.getImpersonatedAccounts(),
+    }),
+    staleTime: 0,
+  });
+}
+
+export function useDevnetActions(network: NetworkId) {
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: DEVNET_KEYS.info(network) });
+    queryClient.invalidateQueries({ queryKey: DEVNET_KEYS.state(network) });
+    queryClient.invalidateQueries({ queryKey: ["current-block"] });
+  };
+
+  return {
+    mine: useMutation({
+      mutationFn: ({
+        blocks,
+        intervalSeconds,
+      }: {
+        blocks: number;
+        intervalSeconds?: number;
+      }) => devnetService.mine(blocks, intervalSeconds),
+      onSuccess,
+    }),
+    setBalance: useMutation({
+      mutationFn: ({ address, ether }: { address: string; ether: string }) =>
+        devnetService.setBalance(address, ether),
+      onSuccess,
+    }),
+    impersonate: useMutation({
+      mutationFn: (address: string) => devnetService.impersonate(address),
+      onSuccess,
+    }),
+    stopImpersonating: useMutation({
+      mutationFn: (address: string) => devnetService.stopImpersonating(address),
+      onSuccess,
+    }),
+    snapshot: useMutation({
+      mutationFn: (label?: string) => devnetService.snapshot(label),
+      onSuccess,
+    }),
+    revert: useMutation({
+      mutationFn: (id: string) => devnetService.revert(id),
+      onSuccess,
+    }),
+    sendTransaction: useMutation({
+      mutationFn: (request: DevnetTransactionRequest) =>
+        devnetService.sendTransaction(request),
+      onSuccess,
+    }),
+  };
+}
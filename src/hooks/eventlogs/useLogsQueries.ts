@@ -6,6 +6,7 @@ import {
   useLogsCache,
 } from "@/lib/eventlogs";
 import { blockchainService } from "@/lib/blockchainService";
+import type { NetworkId } from "@/lib/networks";
 
 export const logsQueryKeys = {
   all: ["logs"] as const,
@@ -18,7 +19,7 @@ export const logsQueryKeys = {
     [...logsQueryKeys.all, "validation", config] as const,
 };
 
-export function useBlockchainConnection(network: "mainnet" | "sepolia") {
+export function useBlockchainConnection(network: NetworkId) {
   return useQuery({
     queryKey: logsQueryKeys.connection(network),
     queryFn: async () => {
@@ -149,7 +150,7 @@ export function useQueryValidation(config: Partial<LogsQueryConfig>) {
   });
 }
 
-export function usePrefetchCommonQueries(network: "mainnet" | "sepolia") {
+export function usePrefetchCommonQueries(network: NetworkId) {
   const queryClient = useQueryClient();
   const { data: provider } = useBlockchainConnection(network);
 
@@ -158,7 +159,10 @@ export function usePrefetchCommonQueries(network: "mainnet" | "sepolia") {
       queryKey: logsQueryKeys.analysis(config),
       queryFn: async () => {
         if (!provider) return null;
-        const logsService = new LogsService(provider, network);
+        const logsService = new LogsService(
+          blockchainService.getProvider("background") ?? provider,
+          network
+        );
         return await logsService.analyzeLogs(config);
       },
       staleTime: 5 * 60 * 1000,
@@ -1,15 +1,21 @@
+export * from "./abi";
 export * from "./auth";
 export * from "./bookmarks";
 export * from "./global";
 export * from "./blockchain";
 export * from "./blocktrace";
 export * from "./bytecode";
+export * from "./customtracers";
 export * from "./debugblock";
 export * from "./debugtrace";
+export * from "./devnet";
 export * from "./eventlogs";
 export * from "./mempool";
 export * from "./replaytransactions";
+export * from "./signatures";
+export * from "./sourcemaps";
 export * from "./storagerange";
+export * from "./subscriptions";
 export * from "./tracetransaction";
 export * from "./transactionsimulation";
 export * from "./shared";
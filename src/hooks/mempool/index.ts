@@ -9,3 +9,7 @@ export {
   useTriggerPyusdAnalysis,
 } from "./useMempoolData";
 export { useMempoolFilters } from "./useMempoolFilters";
+export {
+  useLiveNetworkConditions,
+  useLivePyusdTransactions,
+} from "./useLiveMempool";
@@ -0,0 +1,122 @@
+import { useCallback, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ethers } from "ethers";
+import { MempoolService, PyusdProcessor } from "@/lib/mempool";
+import type { NetworkConditions, PyusdTransaction } from "@/lib/mempool/types";
+import { CACHE_KEYS, DEFAULTS, PYUSD_CONTRACTS } from "@/lib/mempool/constants";
+import {
+  useLogsSubscription,
+  useNewHeads,
+  usePendingTransactions,
+} from "@/hooks/subscriptions";
+
+const mempoolService = new MempoolService();
+
+/**
+ * Recomputes the network conditions for every new head and writes them to
+ * the `useNetworkConditions` cache, so the status, gas and congestion views
+ * follow the chain without polling. `isLive` is false while the WebSocket
+ * is down or missing; callers keep polling in that case.
+ */
+export function useLiveNetworkConditions(
+  network: string,
+  enabled: boolean = true,
+) {
+  const queryClient = useQueryClient();
+
+  const state = useNewHeads(
+    network,
+    ({ header, backfilled }) => {
+      if (backfilled) return;
+
+      const queryKey = [CACHE_KEYS.TXPOOL_STATUS, network];
+      const previous = queryClient.getQueryData<NetworkConditions>(queryKey);
+      mempoolService
+        .getLiveNetworkConditions(network, header.baseFeePerGas, previous)
+        .then((conditions) => queryClient.setQueryData(queryKey, conditions))
+        .catch((error) =>
+          console.warn(`Live conditions for ${network} failed:`, error),
+        );
+    },
+    enabled,
+  );
+
+  return { state, isLive: enabled && state.status === "live" };
+}
+
+/**
+ * Pending PYUSD transactions as they reach the node's pool. Transactions
+ * leave the list once a PYUSD log shows them mined, or after
+ * `DEFAULTS.LIVE_PENDING_TTL` when they were dropped or replaced.
+ * `confirmedCount` counts PYUSD transactions mined since the stream began.
+ */
+export function useLivePyusdTransactions(
+  network: string = "mainnet",
+  enabled: boolean = true,
+) {
+  const [transactions, setTransactions] = useState<PyusdTransaction[]>([]);
+  const [confirmedCount, setConfirmedCount] = useState(0);
+  const confirmedHashes = useRef(new Set<string>());
+
+  const contract = PYUSD_CONTRACTS[network as keyof typeof PYUSD_CONTRACTS];
+  const active = enabled && !!contract && ethers.isAddress(contract);
+
+  const state = usePendingTransactions(
+    network,
+    (tx) => {
+      const pyusdTx = PyusdProcessor.fromPendingTransaction(tx, network);
+      if (!pyusdTx) return;
+      setTransactions((prev) =>
+        prev.some((existing) => existing.hash === pyusdTx.hash)
+          ? prev
+          : [pyusdTx, ...prev].slice(0, DEFAULTS.MAX_TRANSACTIONS_DISPLAY),
+      );
+    },
+    active,
+  );
+
+  useLogsSubscription(
+    network,
+    active ? { address: contract } : null,
+    ({ log }) => {
+      if (log.removed) return;
+      const hash = log.transactionHash.toLowerCase();
+      if (confirmedHashes.current.has(hash)) return;
+      confirmedHashes.current.add(hash);
+      setConfirmedCount(confirmedHashes.current.size);
+      setTransactions((prev) =>
+        prev.filter((tx) => tx.hash.toLowerCase() !== hash),
+      );
+    },
+    active,
+  );
+
+  useNewHeads(
+    network,
+    ({ backfilled }) => {
+      if (backfilled) return;
+      const cutoff = Date.now() - DEFAULTS.LIVE_PENDING_TTL;
+      setTransactions((prev) =>
+        prev.some((tx) => tx.timestamp < cutoff)
+          ? prev.filter((tx) => tx.timestamp >= cutoff)
+          : prev,
+      );
+    },
+    active,
+  );
+
+  const clear = useCallback(() => {
+    setTransactions([]);
+    confirmedHashes.current.clear();
+    setConfirmedCount(0);
+  }, []);
+
+  return {
+    transactions,
+    confirmedCount,
+    state,
+    isLive: active && state.status === "live",
+    isSupported: !!contract && ethers.isAddress(contract),
+    clear,
+  };
+}
@@ -6,6 +6,7 @@ export type SettingsTab =
   | "network"
   | "preferences"
   | "api"
+  | "abis"
   | "export"
   | "about";
 export type ProfileSection = "info" | "personal" | "security" | "data";
@@ -21,6 +22,7 @@ const VALID_TABS: SettingsTab[] = [
   "network",
   "preferences",
   "api",
+  "abis",
   "export",
   "about",
 ];
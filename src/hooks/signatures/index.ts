@@ -0,0 +1,5 @@
+export {
+  useSignatureDatabaseStats,
+  useSignatureLookup,
+  useSignatureDatabaseActions,
+} from "./useSignatureDatabase";
@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { signatureDatabase } from "@/lib/signatures";
+
+const SIGNATURE_KEYS = {
+  all: ["signature-database"],
+  stats: ["signature-database", "stats"],
+  lookup: (hash: string) => ["signature-database", "lookup", hash],
+};
+
+export function useSignatureDatabaseStats() {
+  return useQuery({
+    queryKey: SIGNATURE_KEYS.stats,
+    queryFn: () => signatureDatabase.getStats(),
+    staleTime: 0,
+  });
+}
+
+/**
+ * Every signature known for a 4-byte selector or 32-byte event topic.
+ */
+export function useSignatureLookup(hash: string) {
+  const normalized = hash.trim().toLowerCase();
+  return useQuery({
+    queryKey: SIGNATURE_KEYS.lookup(normalized),
+    queryFn: async () => {
+      await signatureDatabase.prefetch([normalized]);
+      return signatureDatabase.lookup(normalized);
+    },
+    enabled: /^0x([0-9a-f]{8}|[0-9a-f]{64})$/.test(normalized),
+    staleTime: 0,
+  });
+}
+
+export function useSignatureDatabaseActions() {
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: SIGNATURE_KEYS.all });
+  };
+
+  return {
+    importFiles: useMutation({
+      mutationFn: (files: File[]) => signatureDatabase.importFiles(files),
+      onSuccess,
+    }),
+    clear: useMutation({
+      mutationFn: () => signatureDatabase.clear(),
+      onSuccess,
+    }),
+  };
+}
@@ -0,0 +1,7 @@
+export {
+  useSourceArtifacts,
+  useSourceAttachments,
+  useSourceArtifactActions,
+  useSessionSourceMap,
+  useVmTraceSourceMaps,
+} from "./useSourceMaps";
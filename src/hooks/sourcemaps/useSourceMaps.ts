@@ -0,0 +1,181 @@
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import type { DebugSession } from "@/lib/debugtrace";
+import type { NetworkId } from "@/lib/networks";
+import type { VmTraceResult } from "@/lib/replaytransactions/types";
+import {
+  sourceMapService,
+  type ContractSourceMap,
+  type SourceGasAttribution,
+  type SourceLocation,
+} from "@/lib/sourcemaps";
+
+const SOURCE_MAP_KEYS = {
+  artifacts: ["source-artifacts"],
+  attachments: ["source-attachments"],
+  maps: ["source-maps"],
+  session: (network: NetworkId, txHash: string | undefined) => [
+    "source-maps",
+    "session",
+    network,
+    txHash,
+  ],
+  vmTrace: (txHash: string) => ["source-maps", "vm-trace", txHash],
+};
+
+export function useSourceArtifacts() {
+  return useQuery({
+    queryKey: SOURCE_MAP_KEYS.artifacts,
+    queryFn: () => sourceMapService.getArtifacts(),
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+export function useSourceAttachments() {
+  return useQuery({
+    queryKey: SOURCE_MAP_KEYS.attachments,
+    queryFn: () => sourceMapService.getAttachments(),
+    staleTime: 0,
+  });
+}
+
+export function useSourceArtifactActions() {
+  const queryClient = useQueryClient();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: SOURCE_MAP_KEYS.artifacts });
+    queryClient.invalidateQueries({ queryKey: SOURCE_MAP_KEYS.attachments });
+    queryClient.invalidateQueries({ queryKey: SOURCE_MAP_KEYS.maps });
+  };
+
+  return {
+    addFiles: useMutation({
+      mutationFn: (files: File[]) => sourceMapService.addFiles(files),
+      onSuccess,
+    }),
+    removeArtifact: useMutation({
+      mutationFn: (id: string) => sourceMapService.removeArtifact(id),
+      onSuccess,
+    }),
+    attachAddress: useMutation({
+      mutationFn: async ({
+        network,
+        address,
+        contractKey,
+      }: {
+        network: NetworkId;
+        address: string;
+        contractKey: string;
+      }) => sourceMapService.attachAddress(network, address, contractKey),
+      onSuccess,
+    }),
+    detachAddress: useMutation({
+      mutationFn: async ({
+        network,
+        address,
+      }: {
+        network: NetworkId;
+        address: string;
+      }) => sourceMapService.detachAddress(network, address),
+      onSuccess,
+    }),
+  };
+}
+
+/**
+ * Source maps for every call frame of a debug session, with the source
+ * location of each step and gas per line and function.
+ */
+export function useSessionSourceMap(
+  session: DebugSession | undefined,
+  network: NetworkId,
+) {
+  const query = useQuery({
+    queryKey: SOURCE_MAP_KEYS.session(network, session?.txHash),
+    queryFn: async (): Promise<(ContractSourceMap | null)[]> => {
+      await blockchainService.connect(network);
+      return Promise.all(
+        session!.frames.map((frame) =>
+          frame.codeAddress
+            ? sourceMapService.resolveAddress(
+                network,
+                frame.codeAddress,
+                frame.kind === "CREATE" || frame.kind === "CREATE2",
+              )
+            : null,
+        ),
+      );
+    },
+    enabled: !!session,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const frameMaps = query.data;
+
+  const locate = useCallback(
+    (step: number): SourceLocation | null => {
+      const sourceMap = frameMaps?.[session?.stepFrames[step] ?? -1];
+      return sourceMap
+        ? sourceMapService.locate(sourceMap, session!.steps[step].pc)
+        : null;
+    },
+    [frameMaps, session],
+  );
+
+  const attribution = useMemo((): SourceGasAttribution | null => {
+    if (!session || !frameMaps || frameMaps.every((map) => !map)) return null;
+    const gas = sourceMapService.getStepGas(session.steps);
+    return sourceMapService.attributeGas(
+      session.steps.map((step, index) => ({
+        pc: step.pc,
+        gas: gas[index],
+        contract: frameMaps[session.stepFrames[index]] ?? null,
+      })),
+    );
+  }, [session, frameMaps]);
+
+  return {
+    frameMaps,
+    locate,
+    attribution,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+/**
+ * Source maps for the frames of a parity vmTrace, keyed by their code.
+ * Frames are tried as runtime code first and as init code second.
+ */
+export function useVmTraceSourceMaps(
+  txHash: string,
+  vmTrace: VmTraceResult | undefined,
+) {
+  return useQuery({
+    queryKey: SOURCE_MAP_KEYS.vmTrace(txHash),
+    queryFn: async (): Promise<Map<string, ContractSourceMap | null>> => {
+      const codes = new Set<string>();
+      const collect = (frame: VmTraceResult) => {
+        codes.add(frame.code);
+        frame.ops.forEach((op) => op.sub && collect(op.sub));
+      };
+      collect(vmTrace!);
+
+      const maps = new Map<string, ContractSourceMap | null>();
+      for (const code of codes) {
+        maps.set(
+          code,
+          (await sourceMapService.resolveCode(code)) ??
+            (await sourceMapService.resolveCode(code, true)),
+        );
+      }
+      return maps;
+    },
+    enabled: !!vmTrace,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { StateUnavailableError } from "@/lib/rpc";
 import {
   type StorageComparisonResult,
   storageService,
@@ -39,6 +40,7 @@ export const useStorageComparison = (
       enabled && !!contractAddress && !!blockIdentifier1 && !!blockIdentifier2,
     staleTime: 5 * 60 * 1000,
     gcTime: 30 * 60 * 1000,
-    retry: 2,
+    retry: (failureCount, error) =>
+      !(error instanceof StateUnavailableError) && failureCount < 2,
   });
 };
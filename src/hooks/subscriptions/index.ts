@@ -0,0 +1,7 @@
+// Live subscription hooks barrel export
+export {
+  useLogsSubscription,
+  useNewHeads,
+  usePendingTransactions,
+  useSubscriptionState,
+} from "./useSubscriptions";
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import type { NetworkId } from "@/lib/networks";
+import {
+  subscriptionService,
+  type HeadListener,
+  type LogFilter,
+  type LogListener,
+  type PendingTransactionListener,
+  type SubscriptionState,
+} from "@/lib/subscriptions";
+
+export function useSubscriptionState(network: NetworkId): SubscriptionState {
+  const subscribe = useCallback(
+    (onChange: () => void) => subscriptionService.watchState(network, onChange),
+    [network],
+  );
+  const getSnapshot = useCallback(
+    () => subscriptionService.getState(network),
+    [network],
+  );
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+// Listeners are read through a ref so a new callback on every render does
+// not tear down the subscription.
+function useLatest<T>(value: T) {
+  const ref = useRef(value);
+  useEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+}
+
+export function useNewHeads(
+  network: NetworkId,
+  onHead: HeadListener,
+  enabled: boolean = true,
+) {
+  const listener = useLatest(onHead);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscriptionService.subscribeNewHeads(network, (event) =>
+      listener.current(event),
+    );
+  }, [network, enabled, listener]);
+
+  return useSubscriptionState(network);
+}
+
+export function useLogsSubscription(
+  network: NetworkId,
+  filter: LogFilter | null,
+  onLog: LogListener,
+  enabled: boolean = true,
+) {
+  const listener = useLatest(onLog);
+  const filterKey = filter ? JSON.stringify(filter) : null;
+
+  useEffect(() => {
+    if (!enabled || !filterKey) return;
+    return subscriptionService.subscribeLogs(
+      network,
+      JSON.parse(filterKey) as LogFilter,
+      (event) => listener.current(event),
+    );
+  }, [network, filterKey, enabled, listener]);
+
+  return useSubscriptionState(network);
+}
+
+export function usePendingTransactions(
+  network: NetworkId,
+  onTransaction: PendingTransactionListener,
+  enabled: boolean = true,
+) {
+  const listener = useLatest(onTransaction);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscriptionService.subscribePendingTransactions(network, (tx) =>
+      listener.current(tx),
+    );
+  }, [network, enabled, listener]);
+
+  return useSubscriptionState(network);
+}
@@ -2,6 +2,8 @@
 export { useDataPersistence } from "./useDataPersistence";
 export { useComparativeAnalysis } from "./useComparativeAnalysis";
 export { useMevAnalysis } from "./useMevAnalysis";
+export { useTransactionSwaps } from "./useTransactionSwaps";
+export { useTraceQueryParam } from "./useTraceQueryParam";
 export { useTraceTransactionAnalysis } from "./useTraceTransactionAnalysis";
 export { usePerformanceMonitor } from "./usePerformanceMonitor";
 export {
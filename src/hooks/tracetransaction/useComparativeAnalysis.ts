@@ -1,8 +1,13 @@
 import { useState, useCallback } from "react";
+import { blockchainService } from "@/lib/blockchainService";
+import { signatureDatabase } from "@/lib/signatures";
 import { ComparativeAnalysisService } from "@/lib/tracetransaction/comparativeAnalysis";
+import { traceTransactionService } from "@/lib/tracetransaction/traceTransactionService";
 import type {
   TraceAnalysisResults,
+  ComparisonLogs,
   ComparisonResult,
+  TransactionLogEntry,
 } from "@/lib/tracetransaction/types";
 
 interface ComparativeAnalysisState {
@@ -21,14 +26,16 @@ export function useComparativeAnalysis() {
   const compareTransactions = useCallback(
     async (
       analysis1: TraceAnalysisResults,
-      analysis2: TraceAnalysisResults
+      analysis2: TraceAnalysisResults,
+      logs?: ComparisonLogs
     ) => {
       setState((prev) => ({ ...prev, isComparing: true, error: null }));
 
       try {
         const comparison = ComparativeAnalysisService.compareTransactions(
           analysis1,
-          analysis2
+          analysis2,
+          logs
         );
         setState({
           comparison,
@@ -52,6 +59,61 @@ export function useComparativeAnalysis() {
     []
   );
 
+  // Traces both transactions, reusing analyses already at hand, and loads
+  // their receipts so emitted events can be compared too.
+  const compareTransactionHashes = useCallback(
+    async (
+      txHash1: string,
+      txHash2: string,
+      known: TraceAnalysisResults[] = []
+    ) => {
+      setState((prev) => ({ ...prev, isComparing: true, error: null }));
+
+      let analyses: TraceAnalysisResults[];
+      let logs: ComparisonLogs | undefined;
+      try {
+        const analyze = (txHash: string) =>
+          known.find(
+            (analysis) =>
+              analysis.transactionHash.toLowerCase() === txHash.toLowerCase()
+          ) ?? traceTransactionService.analyzeTransaction(txHash);
+        const [analysis1, analysis2, receipts] = await Promise.all([
+          analyze(txHash1),
+          analyze(txHash2),
+          blockchainService.getTransactionReceipts([txHash1, txHash2]),
+        ]);
+        analyses = [analysis1, analysis2];
+
+        if (receipts.every((receipt) => Array.isArray(receipt?.logs))) {
+          await signatureDatabase.prefetchFrom(receipts);
+          const [logs1, logs2] = receipts.map((receipt) =>
+            receipt.logs.map(
+              (log: TransactionLogEntry): TransactionLogEntry => ({
+                address: log.address,
+                topics: log.topics,
+                data: log.data,
+              })
+            )
+          );
+          logs = { transaction1: logs1, transaction2: logs2 };
+        }
+      } catch (error) {
+        setState({
+          comparison: null,
+          isComparing: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to trace the transactions",
+        });
+        throw error;
+      }
+
+      return compareTransactions(analyses[0], analyses[1], logs);
+    },
+    [compareTransactions]
+  );
+
   const clearComparison = useCallback(() => {
     setState({
       comparison: null,
@@ -65,6 +127,7 @@ export function useComparativeAnalysis() {
     isComparing: state.isComparing,
     error: state.error,
     compareTransactions,
+    compareTransactionHashes,
     clearComparison,
   };
 }
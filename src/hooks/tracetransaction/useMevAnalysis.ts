@@ -1,6 +1,12 @@
 import { useCallback, useState } from "react";
-import { AdvancedMevDetector } from "@/lib/tracetransaction/advancedMevDetector";
-import type { TraceAnalysisResults } from "@/lib/tracetransaction/types";
+import {
+  AdvancedMevDetector,
+  type BlockMevTransaction,
+} from "@/lib/tracetransaction/advancedMevDetector";
+import type {
+  PricedDexSwap,
+  TraceAnalysisResults,
+} from "@/lib/tracetransaction/types";
 
 interface AdvancedMevAnalysisState {
   analysis: any | null;
@@ -18,11 +24,14 @@ export function useMevAnalysis() {
   });
 
   const analyzeTransaction = useCallback(
-    async (traceAnalysis: TraceAnalysisResults) => {
+    async (traceAnalysis: TraceAnalysisResults, swaps?: PricedDexSwap[]) => {
       setState((prev) => ({ ...prev, isAnalyzing: true, error: null }));
 
       try {
-        const analysis = AdvancedMevDetector.analyzeTransaction(traceAnalysis);
+        const analysis = AdvancedMevDetector.analyzeTransaction(
+          traceAnalysis,
+          swaps
+        );
         setState({
           analysis,
           blockAnalysis: null,
@@ -48,7 +57,7 @@ export function useMevAnalysis() {
   );
 
   const analyzeBlock = useCallback(
-    async (transactions: TraceAnalysisResults[]) => {
+    async (transactions: BlockMevTransaction[]) => {
       setState((prev) => ({ ...prev, isAnalyzing: true, error: null }));
 
       try {
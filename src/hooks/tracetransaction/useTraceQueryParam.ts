@@ -0,0 +1,37 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { TraceQuery } from "@/lib/tracetransaction/traceQuery";
+
+/**
+ * Trace filter expression kept in the URL, so a filtered view can be
+ * shared as a link.
+ */
+export function useTraceQueryParam(param = "filter") {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get(param) ?? "";
+
+  const setQuery = useCallback(
+    (next: string) => {
+      setSearchParams(
+        (previous) => {
+          const params = new URLSearchParams(previous);
+          if (next.trim()) {
+            params.set(param, next);
+          } else {
+            params.delete(param);
+          }
+          return params;
+        },
+        { replace: true }
+      );
+    },
+    [param, setSearchParams]
+  );
+
+  const { predicate, error } = useMemo(
+    () => TraceQuery.tryCompile(query),
+    [query]
+  );
+
+  return { query, setQuery, predicate, error, isActive: !!query.trim() };
+}
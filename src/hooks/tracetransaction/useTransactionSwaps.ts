@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { blockchainService } from "@/lib/blockchainService";
+import type { NetworkId } from "@/lib/networks";
+import {
+  SwapDecoder,
+  type SwapReceipt,
+} from "@/lib/tracetransaction/swapDecoder";
+
+/**
+ * DEX swaps of a transaction from its receipt logs, priced against the
+ * pools' state at the parent block.
+ */
+export function useTransactionSwaps(
+  txHash: string | undefined,
+  network: NetworkId,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: ["transaction-swaps", txHash, network],
+    queryFn: async () => {
+      if (!blockchainService.isConnected()) {
+        await blockchainService.connect(network);
+      }
+
+      const receipt = await blockchainService.makeRPCCall<SwapReceipt | null>(
+        "eth_getTransactionReceipt",
+        [txHash]
+      );
+      if (!receipt) {
+        throw new Error(`Receipt not found for ${txHash}`);
+      }
+      return SwapDecoder.analyzeReceipts([receipt]);
+    },
+    enabled: enabled && !!txHash,
+    retry: 1,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+}
@@ -80,7 +80,7 @@ export const useSimulationComparison = (
   const { data: provider } = useQuery({
     queryKey: ["blockchain-connection", network],
     queryFn: async () => {
-      await blockchainService.connect(network as "mainnet" | "sepolia");
+      await blockchainService.connect(network);
       return blockchainService.getProvider();
     },
     enabled,
@@ -53,7 +53,7 @@ export const useTransactionSimulation = (
   const { data: provider, isLoading: isConnecting } = useQuery({
     queryKey: ["blockchain-connection", network],
     queryFn: async () => {
-      await blockchainService.connect(network as "mainnet" | "sepolia");
+      await blockchainService.connect(network);
       return blockchainService.getProvider();
     },
     enabled,
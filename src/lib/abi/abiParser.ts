@@ -0,0 +1,138 @@
+import { Interface } from "ethers";
+import type { AbiFormat, AbiFragmentJson, ParsedAbi } from "./types";
+
+interface ContractJson {
+  abi?: unknown;
+}
+
+interface StandardOutputJson {
+  contracts?: Record<string, Record<string, ContractJson>>;
+}
+
+interface ArtifactJson extends ContractJson, StandardOutputJson {
+  // Build-info files
+  output?: StandardOutputJson;
+  // Hardhat contract artifacts
+  _format?: string;
+  contractName?: string;
+  // Foundry contract artifacts
+  metadata?: {
+    settings?: { compilationTarget?: Record<string, string> };
+  };
+}
+
+const FRAGMENT_TYPES = [
+  "function",
+  "event",
+  "error",
+  "constructor",
+  "fallback",
+  "receive",
+];
+
+const baseName = (fileName: string) =>
+  fileName.replace(/^.*[\\/]/, "").replace(/\.(json|abi)$/i, "");
+
+/**
+ * Reads ABIs from a pasted JSON ABI, Foundry and Hardhat contract
+ * artifacts, solc standard-JSON output and build-info files.
+ */
+export class AbiParser {
+  static parse(fileName: string, text: string): ParsedAbi[] {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error(`${fileName} is not valid JSON`);
+    }
+
+    if (Array.isArray(json)) {
+      return [this.createAbi(fileName, baseName(fileName), "json", json)];
+    }
+    if (!json || typeof json !== "object") {
+      throw new Error(`${fileName} does not contain an ABI`);
+    }
+
+    const artifact = json as ArtifactJson;
+    const contracts = artifact.output?.contracts ?? artifact.contracts;
+    if (contracts) {
+      return this.parseStandardJson(fileName, contracts);
+    }
+
+    if (Array.isArray(artifact.abi)) {
+      if (artifact._format?.startsWith("hh-sol-artifact")) {
+        return [
+          this.createAbi(
+            fileName,
+            artifact.contractName ?? baseName(fileName),
+            "hardhat",
+            artifact.abi,
+          ),
+        ];
+      }
+      const target = Object.values(
+        artifact.metadata?.settings?.compilationTarget ?? {},
+      )[0];
+      return [
+        this.createAbi(
+          fileName,
+          target ?? baseName(fileName),
+          "foundry",
+          artifact.abi,
+        ),
+      ];
+    }
+
+    throw new Error(
+      `${fileName} is not a recognized ABI. Use a JSON ABI array, a Foundry or Hardhat artifact, or solc standard-JSON output.`,
+    );
+  }
+
+  private static parseStandardJson(
+    fileName: string,
+    contracts: Record<string, Record<string, ContractJson>>,
+  ): ParsedAbi[] {
+    const abis: ParsedAbi[] = [];
+    for (const byName of Object.values(contracts)) {
+      for (const [name, contract] of Object.entries(byName)) {
+        if (Array.isArray(contract.abi) && contract.abi.length > 0) {
+          abis.push(this.createAbi(fileName, name, "solc", contract.abi));
+        }
+      }
+    }
+
+    if (abis.length === 0) {
+      throw new Error(
+        `${fileName} has no ABIs. Compile with abi in outputSelection.`,
+      );
+    }
+    return abis;
+  }
+
+  private static createAbi(
+    fileName: string,
+    name: string,
+    format: AbiFormat,
+    entries: unknown[],
+  ): ParsedAbi {
+    const abi = entries.filter(
+      (entry): entry is AbiFragmentJson =>
+        !!entry &&
+        typeof entry === "object" &&
+        FRAGMENT_TYPES.includes((entry as AbiFragmentJson).type),
+    );
+    if (abi.length === 0) {
+      throw new Error(`${fileName} has no functions, events or errors`);
+    }
+
+    try {
+      new Interface(abi);
+    } catch (error) {
+      throw new Error(
+        `${fileName} has an invalid ABI for ${name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return { name, format, abi };
+  }
+}
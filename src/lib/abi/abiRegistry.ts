@@ -0,0 +1,635 @@
+import {
+  AbiCoder,
+  Indexed,
+  Interface,
+  type ErrorFragment,
+  type EventFragment,
+  type FunctionFragment,
+  type ParamType,
+  type Result,
+} from "ethers";
+import { MAX_EVENT_LAYOUTS, signatureDatabase } from "@/lib/signatures";
+import { AbiParser } from "./abiParser";
+import {
+  ABI_ATTACHMENTS_STORAGE_KEY,
+  ABI_REGISTRY_STORAGE_KEY,
+  BUILTIN_ABI_FRAGMENTS,
+  BUILTIN_ABI_NAME,
+  BUILTIN_ERROR_SELECTORS,
+  PANIC_REASONS,
+  SIGNATURE_DATABASE_ABI_NAME,
+} from "./constants";
+import type {
+  AbiAttachment,
+  AbiDecodeContext,
+  AbiImportResult,
+  AbiMatch,
+  DecodedArgument,
+  DecodedCustomError,
+  DecodedEventLog,
+  DecodedFunctionCall,
+  StoredAbi,
+} from "./types";
+
+interface AbiCandidate {
+  name: string;
+  iface: Interface;
+  matchedBy: AbiMatch;
+}
+
+const createAbiId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Indexed) return value.hash ?? "indexed";
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(", ")}]`;
+  return String(value);
+};
+
+const toArguments = (
+  params: readonly ParamType[],
+  values: Result,
+): DecodedArgument[] =>
+  params.map((param, index) => ({
+    name: param.name || `arg${index}`,
+    type: param.type,
+    value: formatValue(values[index]),
+  }));
+
+// Positions of the indexed parameters for every way to pick `indexed` of
+// `count` parameters, leading positions first.
+const indexedLayouts = (count: number, indexed: number): number[][] => {
+  const layouts: number[][] = [];
+  const pick = (start: number, layout: number[]) => {
+    if (layouts.length >= MAX_EVENT_LAYOUTS) return;
+    if (layout.length === indexed) {
+      layouts.push(layout);
+      return;
+    }
+    for (let index = start; index < count; index++) {
+      pick(index + 1, [...layout, index]);
+    }
+  };
+  if (indexed <= count) pick(0, []);
+  return layouts;
+};
+
+export const formatDecodedArguments = (args: DecodedArgument[]) =>
+  args.map((arg) => `${arg.name}: ${arg.value}`).join(", ");
+
+export const formatDecodedCall = (decoded: {
+  name: string;
+  args: DecodedArgument[];
+}) => `${decoded.name}(${formatDecodedArguments(decoded.args)})`;
+
+export const argumentsToRecord = (
+  args: DecodedArgument[],
+): Record<string, string> =>
+  Object.fromEntries(args.map((arg) => [arg.name, arg.value]));
+
+/**
+ * User ABIs and their address attachments, and the decoding of calldata,
+ * return data, logs and revert data against them. An ABI attached to the
+ * called address wins; otherwise every ABI is tried by selector, with the
+ * common token standards as the last resort.
+ */
+export class AbiRegistry {
+  private abis: StoredAbi[] | null = null;
+  private attachments: AbiAttachment[] | null = null;
+  private interfaces = new Map<string, Interface>();
+  private builtin = new Interface(BUILTIN_ABI_FRAGMENTS);
+  private signatureInterfaces = new Map<string, Interface | null>();
+  private eventInterfaces = new Map<string, Interface[]>();
+
+  getAbis(): StoredAbi[] {
+    if (!this.abis) {
+      try {
+        const stored = localStorage.getItem(ABI_REGISTRY_STORAGE_KEY);
+        this.abis = stored ? JSON.parse(stored) : [];
+      } catch (error) {
+        console.warn("Failed to load ABI registry:", error);
+        this.abis = [];
+      }
+    }
+    return this.abis!;
+  }
+
+  /**
+   * Adds every ABI in a pasted JSON ABI or compiler artifact. A name given
+   * for a pasted ABI replaces the one derived from the file.
+   */
+  addAbi(text: string, fileName: string | null, name?: string): StoredAbi[] {
+    const parsed = AbiParser.parse(fileName ?? "Pasted ABI", text);
+    const added = parsed.map(
+      (abi): StoredAbi => ({
+        ...abi,
+        name: parsed.length === 1 && name?.trim() ? name.trim() : abi.name,
+        id: createAbiId(),
+        fileName,
+        addedAt: Date.now(),
+      }),
+    );
+    this.saveAbis([...this.getAbis(), ...added]);
+    return added;
+  }
+
+  /**
+   * Imports the files, keeping the ones that parse when others fail.
+   */
+  async addFiles(files: File[]): Promise<AbiImportResult> {
+    const added: StoredAbi[] = [];
+    const errors: string[] = [];
+
+    for (const file of files) {
+      try {
+        added.push(...this.addAbi(await file.text(), file.name));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return { added, errors };
+  }
+
+  removeAbi(id: string) {
+    this.saveAbis(this.getAbis().filter((abi) => abi.id !== id));
+    this.saveAttachments(
+      this.getAttachments().filter((attachment) => attachment.abiId !== id),
+    );
+    this.interfaces.delete(id);
+  }
+
+  getAttachments(): AbiAttachment[] {
+    if (!this.attachments) {
+      try {
+        const stored = localStorage.getItem(ABI_ATTACHMENTS_STORAGE_KEY);
+        this.attachments = stored ? JSON.parse(stored) : [];
+      } catch (error) {
+        console.warn("Failed to load ABI attachments:", error);
+        this.attachments = [];
+      }
+    }
+    return this.attachments!;
+  }
+
+  attachAddress(network: string, address: string, abiId: string) {
+    const normalized = address.toLowerCase();
+    this.saveAttachments([
+      ...this.getAttachments().filter(
+        (attachment) =>
+          attachment.network !== network || attachment.address !== normalized,
+      ),
+      { network, address: normalized, abiId },
+    ]);
+  }
+
+  detachAddress(network: string, address: string) {
+    const normalized = address.toLowerCase();
+    this.saveAttachments(
+      this.getAttachments().filter(
+        (attachment) =>
+          attachment.network !== network || attachment.address !== normalized,
+      ),
+    );
+  }
+
+  decodeFunction(
+    data: string | null | undefined,
+    context: AbiDecodeContext = {},
+  ): DecodedFunctionCall | null {
+    if (!data || data.length < 10) return null;
+    const selector = data.slice(0, 10).toLowerCase();
+
+    for (const candidate of this.getCandidates(context)) {
+      const fragment = this.findFunction(candidate.iface, selector);
+      if (!fragment) continue;
+      try {
+        const values = candidate.iface.decodeFunctionData(fragment, data);
+        return {
+          name: fragment.name,
+          signature: fragment.format("sighash"),
+          selector,
+          stateMutability: fragment.stateMutability,
+          args: toArguments(fragment.inputs, values),
+          abiName: candidate.name,
+          matchedBy: candidate.matchedBy,
+        };
+      } catch {
+        // Same selector with a different layout; try the next ABI.
+      }
+    }
+    return this.decodeFunctionFromSignatures(data, selector);
+  }
+
+  /**
+   * Function name and signature for a selector, for views that only keep
+   * the first four bytes of the calldata.
+   */
+  lookupFunction(
+    selector: string,
+    context: AbiDecodeContext = {},
+  ): Pick<
+    DecodedFunctionCall,
+    "name" | "signature" | "stateMutability"
+  > | null {
+    const normalized = selector.slice(0, 10).toLowerCase();
+    for (const candidate of this.getCandidates(context)) {
+      const fragment = this.findFunction(candidate.iface, normalized);
+      if (fragment) {
+        return {
+          name: fragment.name,
+          signature: fragment.format("sighash"),
+          stateMutability: fragment.stateMutability,
+        };
+      }
+    }
+
+    for (const signature of signatureDatabase.lookup(normalized)) {
+      const iface = this.getSignatureInterface(`function ${signature}`);
+      const fragment = iface && this.findFunction(iface, normalized);
+      if (fragment) {
+        return {
+          name: fragment.name,
+          signature,
+          stateMutability: fragment.stateMutability,
+        };
+      }
+    }
+    return null;
+  }
+
+  decodeFunctionResult(
+    data: string | null | undefined,
+    output: string | null | undefined,
+    context: AbiDecodeContext = {},
+  ): DecodedArgument[] | null {
+    if (!data || data.length < 10 || !output || output === "0x") return null;
+    const selector = data.slice(0, 10).toLowerCase();
+
+    for (const candidate of this.getCandidates(context)) {
+      const fragment = this.findFunction(candidate.iface, selector);
+      if (!fragment) continue;
+      try {
+        const values = candidate.iface.decodeFunctionResult(fragment, output);
+        return toArguments(fragment.outputs, values);
+      } catch {
+        // Try the next ABI.
+      }
+    }
+    return null;
+  }
+
+  decodeEvent(
+    topics: readonly string[],
+    data: string,
+    context: AbiDecodeContext = {},
+  ): DecodedEventLog | null {
+    if (topics.length === 0) return null;
+    const topic = topics[0].toLowerCase();
+
+    for (const candidate of this.getCandidates(context)) {
+      const fragment = this.attempt(() => candidate.iface.getEvent(topic));
+      if (!fragment) continue;
+      try {
+        const values = candidate.iface.decodeEventLog(fragment, data, topics);
+        return {
+          name: fragment.name,
+          signature: fragment.format("sighash"),
+          topic,
+          args: toArguments(fragment.inputs, values),
+          abiName: candidate.name,
+          matchedBy: candidate.matchedBy,
+        };
+      } catch {
+        // Same topic with different indexed parameters, e.g. ERC-721.
+      }
+    }
+    return this.decodeEventFromSignatures(topics, data);
+  }
+
+  /**
+   * Decodes revert data: Error(string), Panic(uint256) and custom errors
+   * from the registered ABIs.
+   */
+  decodeError(
+    data: string | null | undefined,
+    context: AbiDecodeContext = {},
+  ): DecodedCustomError | null {
+    if (!data || data.length < 10) return null;
+    const selector = data.slice(0, 10).toLowerCase();
+    const candidates: AbiCandidate[] = BUILTIN_ERROR_SELECTORS.includes(
+      selector,
+    )
+      ? [{ name: BUILTIN_ABI_NAME, iface: this.builtin, matchedBy: "builtin" }]
+      : this.getCandidates(context);
+
+    for (const candidate of candidates) {
+      const fragment = this.attempt(() => candidate.iface.getError(selector));
+      if (!fragment) continue;
+      try {
+        const values = candidate.iface.decodeErrorResult(fragment, data);
+        const args = toArguments(fragment.inputs, values);
+        return {
+          name: fragment.name,
+          signature: fragment.format("sighash"),
+          selector,
+          args,
+          message: this.describeError(fragment, args),
+          abiName: candidate.name,
+          matchedBy: candidate.matchedBy,
+        };
+      } catch {
+        // Try the next ABI.
+      }
+    }
+    return this.decodeErrorFromSignatures(data, selector);
+  }
+
+  /**
+   * Tries every signature the database knows for the selector. Calldata
+   * that re-encodes to the same bytes beats one that merely decodes, which
+   * settles most selector collisions.
+   */
+  private decodeFunctionFromSignatures(
+    data: string,
+    selector: string,
+  ): DecodedFunctionCall | null {
+    const signatures = signatureDatabase.lookup(selector);
+    let lenient: DecodedFunctionCall | null = null;
+
+    for (const signature of signatures) {
+      const iface = this.getSignatureInterface(`function ${signature}`);
+      const fragment = iface && this.findFunction(iface, selector);
+      if (!iface || !fragment) continue;
+      try {
+        const values = iface.decodeFunctionData(fragment, data);
+        const decoded: DecodedFunctionCall = {
+          name: fragment.name,
+          signature,
+          selector,
+          stateMutability: fragment.stateMutability,
+          args: toArguments(fragment.inputs, values),
+          abiName: SIGNATURE_DATABASE_ABI_NAME,
+          matchedBy: "signature",
+          candidates: signatures.filter((other) => other !== signature),
+        };
+        if (
+          iface.encodeFunctionData(fragment, values).toLowerCase() ===
+          data.toLowerCase()
+        ) {
+          return decoded;
+        }
+        lenient ??= decoded;
+      } catch {
+        // The calldata does not fit this signature.
+      }
+    }
+    return lenient;
+  }
+
+  /**
+   * Imported event signatures carry no indexed flags, so each layout with
+   * as many indexed parameters as the log has topics is tried. A layout
+   * whose topics and data re-encode exactly is preferred.
+   */
+  private decodeEventFromSignatures(
+    topics: readonly string[],
+    data: string,
+  ): DecodedEventLog | null {
+    const topic = topics[0].toLowerCase();
+    let lenient: DecodedEventLog | null = null;
+
+    for (const signature of signatureDatabase.lookup(topic)) {
+      for (const iface of this.getEventInterfaces(
+        signature,
+        topics.length - 1,
+      )) {
+        const fragment = this.attempt(() => iface.getEvent(topic));
+        if (!fragment) continue;
+        try {
+          const values = iface.decodeEventLog(fragment, data, topics);
+          const decoded: DecodedEventLog = {
+            name: fragment.name,
+            signature: fragment.format("sighash"),
+            topic,
+            args: toArguments(fragment.inputs, values),
+            abiName: SIGNATURE_DATABASE_ABI_NAME,
+            matchedBy: "signature",
+          };
+          if (this.reencodesEventLog(fragment, values, topics, data)) {
+            return decoded;
+          }
+          lenient ??= decoded;
+        } catch {
+          // Wrong parameter layout for this log.
+        }
+      }
+    }
+    return lenient;
+  }
+
+  private decodeErrorFromSignatures(
+    data: string,
+    selector: string,
+  ): DecodedCustomError | null {
+    let lenient: DecodedCustomError | null = null;
+
+    for (const signature of signatureDatabase.lookup(selector)) {
+      const iface = this.getSignatureInterface(`error ${signature}`);
+      const fragment = iface && this.attempt(() => iface.getError(selector));
+      if (!iface || !fragment) continue;
+      try {
+        const values = iface.decodeErrorResult(fragment, data);
+        const args = toArguments(fragment.inputs, values);
+        const decoded: DecodedCustomError = {
+          name: fragment.name,
+          signature,
+          selector,
+          args,
+          message: this.describeError(fragment, args),
+          abiName: SIGNATURE_DATABASE_ABI_NAME,
+          matchedBy: "signature",
+        };
+        if (
+          iface.encodeErrorResult(fragment, values).toLowerCase() ===
+          data.toLowerCase()
+        ) {
+          return decoded;
+        }
+        lenient ??= decoded;
+      } catch {
+        // The revert data does not fit this signature.
+      }
+    }
+    return lenient;
+  }
+
+  private getSignatureInterface(declaration: string): Interface | null {
+    if (!this.signatureInterfaces.has(declaration)) {
+      this.signatureInterfaces.set(
+        declaration,
+        this.attempt(() => new Interface([declaration])),
+      );
+    }
+    return this.signatureInterfaces.get(declaration) ?? null;
+  }
+
+  private getEventInterfaces(signature: string, indexed: number): Interface[] {
+    const key = `${signature}/${indexed}`;
+    let interfaces = this.eventInterfaces.get(key);
+    if (interfaces) return interfaces;
+
+    interfaces = [];
+    const declared = this.getSignatureInterface(`event ${signature}`);
+    const event = declared?.fragments[0] as EventFragment | undefined;
+    if (declared && event) {
+      if (event.inputs.filter((input) => input.indexed).length === indexed) {
+        interfaces.push(declared);
+      } else {
+        for (const layout of indexedLayouts(event.inputs.length, indexed)) {
+          interfaces.push(
+            new Interface([
+              {
+                type: "event",
+                name: event.name,
+                inputs: event.inputs.map((input, index) => ({
+                  ...JSON.parse(input.format("json")),
+                  indexed: layout.includes(index),
+                })),
+              },
+            ]),
+          );
+        }
+      }
+    }
+    this.eventInterfaces.set(key, interfaces);
+    return interfaces;
+  }
+
+  private reencodesEventLog(
+    fragment: EventFragment,
+    values: Result,
+    topics: readonly string[],
+    data: string,
+  ): boolean {
+    const coder = AbiCoder.defaultAbiCoder();
+    const dataInputs = fragment.inputs.filter((input) => !input.indexed);
+    const dataValues = fragment.inputs
+      .map((_, index) => values[index])
+      .filter((_, index) => !fragment.inputs[index].indexed);
+
+    try {
+      if (
+        coder.encode(dataInputs, dataValues).toLowerCase() !==
+        data.toLowerCase()
+      ) {
+        return false;
+      }
+      let topicIndex = 1;
+      return fragment.inputs.every((input, index) => {
+        if (!input.indexed) return true;
+        const topic = topics[topicIndex++].toLowerCase();
+        // Dynamic values are hashed into the topic and cannot be checked.
+        if (values[index] instanceof Indexed) return true;
+        return coder.encode([input], [values[index]]).toLowerCase() === topic;
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  private describeError(fragment: ErrorFragment, args: DecodedArgument[]) {
+    if (fragment.name === "Error" && args.length === 1) return args[0].value;
+    if (fragment.name === "Panic" && args.length === 1) {
+      const code = Number(args[0].value);
+      return `Panic 0x${code.toString(16).padStart(2, "0")}: ${PANIC_REASONS[code] ?? "unknown panic code"}`;
+    }
+    return formatDecodedCall({ name: fragment.name, args });
+  }
+
+  private getCandidates(context: AbiDecodeContext): AbiCandidate[] {
+    const abis = this.getAbis();
+    const address = context.address?.toLowerCase();
+    const attachedIds = new Set(
+      address
+        ? this.getAttachments()
+            .filter(
+              (attachment) =>
+                attachment.address === address &&
+                (!context.network || attachment.network === context.network),
+            )
+            .map((attachment) => attachment.abiId)
+        : [],
+    );
+
+    const candidates: AbiCandidate[] = [];
+    for (const abi of abis.filter((entry) => attachedIds.has(entry.id))) {
+      candidates.push({
+        name: abi.name,
+        iface: this.getInterface(abi),
+        matchedBy: "address",
+      });
+    }
+    for (const abi of abis.filter((entry) => !attachedIds.has(entry.id))) {
+      candidates.push({
+        name: abi.name,
+        iface: this.getInterface(abi),
+        matchedBy: "selector",
+      });
+    }
+    candidates.push({
+      name: BUILTIN_ABI_NAME,
+      iface: this.builtin,
+      matchedBy: "builtin",
+    });
+    return candidates;
+  }
+
+  private getInterface(abi: StoredAbi): Interface {
+    let iface = this.interfaces.get(abi.id);
+    if (!iface) {
+      iface = new Interface(abi.abi);
+      this.interfaces.set(abi.id, iface);
+    }
+    return iface;
+  }
+
+  private findFunction(iface: Interface, selector: string) {
+    return this.attempt<FunctionFragment>(() => iface.getFunction(selector));
+  }
+
+  private attempt<T>(lookup: () => T | null): T | null {
+    try {
+      return lookup();
+    } catch {
+      return null;
+    }
+  }
+
+  private saveAbis(abis: StoredAbi[]) {
+    try {
+      localStorage.setItem(ABI_REGISTRY_STORAGE_KEY, JSON.stringify(abis));
+    } catch (error) {
+      console.warn("Failed to save ABI registry:", error);
+      throw new Error(
+        "Could not save the ABI registry. Browser storage may be full; remove unused ABIs and try again.",
+      );
+    }
+    this.abis = abis;
+  }
+
+  private saveAttachments(attachments: AbiAttachment[]) {
+    try {
+      localStorage.setItem(
+        ABI_ATTACHMENTS_STORAGE_KEY,
+        JSON.stringify(attachments),
+      );
+    } catch (error) {
+      console.warn("Failed to save ABI attachments:", error);
+    }
+    this.attachments = attachments;
+  }
+}
+
+export const abiRegistry = new AbiRegistry();
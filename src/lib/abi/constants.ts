@@ -0,0 +1,47 @@
+export const ABI_REGISTRY_STORAGE_KEY = "arguschain_abi_registry";
+export const ABI_ATTACHMENTS_STORAGE_KEY = "arguschain_abi_attachments";
+
+export const ABI_FILE_EXTENSIONS = [".json", ".abi"];
+
+export const BUILTIN_ABI_NAME = "Standard";
+export const SIGNATURE_DATABASE_ABI_NAME = "Signature database";
+
+// Fallback fragments for contracts without a registered ABI.
+export const BUILTIN_ABI_FRAGMENTS = [
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function totalSupply() view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function owner() view returns (address)",
+  "function paused() view returns (bool)",
+  "function transferOwnership(address newOwner)",
+  "function multicall(bytes[] data) returns (bytes[] results)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event Paused(address account)",
+  "event Unpaused(address account)",
+];
+
+// Error(string) and Panic(uint256), which solc emits for require and assert.
+export const ERROR_STRING_SELECTOR = "0x08c379a0";
+export const PANIC_SELECTOR = "0x4e487b71";
+export const BUILTIN_ERROR_SELECTORS = [ERROR_STRING_SELECTOR, PANIC_SELECTOR];
+
+export const PANIC_REASONS: Record<number, string> = {
+  0x00: "generic compiler panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "corrupted storage byte array",
+  0x31: "pop on empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to uninitialized function",
+};
@@ -0,0 +1,17 @@
+export {
+  AbiRegistry,
+  abiRegistry,
+  argumentsToRecord,
+  formatDecodedArguments,
+  formatDecodedCall,
+} from "./abiRegistry";
+export { AbiParser } from "./abiParser";
+export {
+  buildRevertPath,
+  decodeRevert,
+  findRevertPath,
+  flattenRevertFrames,
+} from "./revertDecoder";
+
+export * from "./types";
+export * from "./constants";
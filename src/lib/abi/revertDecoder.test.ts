@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { findRevertPath, flattenRevertFrames } from "./revertDecoder";
+
+const frame = (traceAddress: number[], error?: string) => ({
+  traceAddress,
+  error,
+});
+
+const addresses = (frames: { traceAddress: number[] }[]) =>
+  frames.map((item) => item.traceAddress);
+
+describe("findRevertPath", () => {
+  it("is empty when the top-level call succeeded", () => {
+    const frames = [frame([]), frame([0], "execution reverted")];
+
+    expect(findRevertPath(frames)).toEqual([]);
+  });
+
+  it("follows the last failed child down to where the revert started", () => {
+    const frames = [
+      frame([], "execution reverted"),
+      // Caught by the caller, which went on to make more calls.
+      frame([0], "execution reverted"),
+      frame([0, 0], "out of gas"),
+      frame([1]),
+      frame([2], "execution reverted"),
+      frame([2, 0]),
+      frame([2, 1], "execution reverted"),
+    ];
+
+    expect(addresses(findRevertPath(frames))).toEqual([[], [2], [2, 1]]);
+  });
+
+  it("does not depend on the order of the frames", () => {
+    const frames = [
+      frame([1, 0], "execution reverted"),
+      frame([1], "execution reverted"),
+      frame([10], "execution reverted"),
+      frame([], "execution reverted"),
+    ];
+
+    expect(addresses(findRevertPath(frames))).toEqual([[], [10]]);
+  });
+
+  it("stops at a failed frame whose children all succeeded", () => {
+    const frames = [
+      frame([], "execution reverted"),
+      frame([0]),
+      frame([0, 0], "execution reverted"),
+    ];
+
+    expect(addresses(findRevertPath(frames))).toEqual([[]]);
+  });
+});
+
+describe("flattenRevertFrames", () => {
+  it("numbers nested calls with parity-style trace addresses", () => {
+    const frames = flattenRevertFrames({
+      from: "0xa",
+      to: "0xb",
+      calls: [
+        { from: "0xb", to: "0xc", calls: [{ from: "0xc", to: "0xd" }] },
+        { from: "0xb", to: "0xe", error: "execution reverted" },
+      ],
+    });
+
+    expect(frames.map((item) => [item.to, item.traceAddress])).toEqual([
+      ["0xb", []],
+      ["0xc", [0]],
+      ["0xd", [0, 0]],
+      ["0xe", [1]],
+    ]);
+    expect(frames[3].error).toBe("execution reverted");
+  });
+});
@@ -0,0 +1,168 @@
+import { abiRegistry } from "./abiRegistry";
+import { ERROR_STRING_SELECTOR, PANIC_SELECTOR } from "./constants";
+import type {
+  AbiDecodeContext,
+  DecodedRevert,
+  RevertKind,
+  RevertPathFrame,
+  RevertPathInput,
+  RevertTraceFrame,
+} from "./types";
+
+const HEX_PATTERN = /^0x[0-9a-fA-F]*$/;
+
+const kindOf = (selector: string): RevertKind =>
+  selector === ERROR_STRING_SELECTOR
+    ? "error"
+    : selector === PANIC_SELECTOR
+      ? "panic"
+      : "custom";
+
+/**
+ * Structured form of revert data: Error(string), Panic(uint256) with the
+ * meaning of its code, or a custom error from the ABI registry and the
+ * signature database.
+ */
+export function decodeRevert(
+  data: string | null | undefined,
+  context: AbiDecodeContext = {},
+): DecodedRevert {
+  const raw = data && HEX_PATTERN.test(data) ? data.toLowerCase() : "0x";
+  if (raw.length < 10) {
+    return {
+      kind: "empty",
+      data: raw,
+      selector: null,
+      name: null,
+      signature: null,
+      args: [],
+      message:
+        raw === "0x"
+          ? "Reverted without a reason"
+          : `Reverted with malformed data ${raw}`,
+    };
+  }
+
+  const selector = raw.slice(0, 10);
+  const decoded = abiRegistry.decodeError(raw, context);
+  if (!decoded) {
+    return {
+      kind: "unknown",
+      data: raw,
+      selector,
+      name: null,
+      signature: null,
+      args: [],
+      message: `Unknown custom error ${selector}`,
+    };
+  }
+
+  const kind = kindOf(selector);
+  return {
+    kind,
+    data: raw,
+    selector,
+    name: decoded.name,
+    signature: decoded.signature,
+    args: decoded.args,
+    message: decoded.message,
+    panicCode: kind === "panic" ? Number(decoded.args[0]?.value) : undefined,
+    abiName: decoded.abiName,
+    matchedBy: decoded.matchedBy,
+  };
+}
+
+/**
+ * Flattens a callTracer tree into frames with parity-style trace
+ * addresses, in the order the calls were made.
+ */
+export function flattenRevertFrames(
+  frame: RevertTraceFrame,
+  traceAddress: number[] = [],
+): RevertPathInput[] {
+  return [
+    {
+      traceAddress,
+      from: frame.from,
+      to: frame.to,
+      input: frame.input,
+      output: frame.output,
+      error: frame.error,
+    },
+    ...(frame.calls ?? []).flatMap((call, index) =>
+      flattenRevertFrames(call, [...traceAddress, index]),
+    ),
+  ];
+}
+
+/**
+ * The failing frames from the top-level call down to where the revert
+ * started, following the last failed child at each level; a parent
+ * reverts after the call that made it fail. Empty when the top-level call
+ * succeeded, since reverts caught on the way did not abort the transaction.
+ */
+export function findRevertPath<
+  T extends { traceAddress: number[]; error?: string | null },
+>(frames: T[]): T[] {
+  const byAddress = new Map(
+    frames.map((frame) => [frame.traceAddress.join(","), frame]),
+  );
+  const path: T[] = [];
+  let current = byAddress.get("");
+
+  while (current?.error) {
+    path.push(current);
+    const parent: T = current;
+    const depth = parent.traceAddress.length;
+    const failedChildren = frames.filter(
+      (frame) =>
+        frame.error &&
+        frame.traceAddress.length === depth + 1 &&
+        parent.traceAddress.every(
+          (value, index) => frame.traceAddress[index] === value,
+        ),
+    );
+    current = failedChildren.sort(
+      (a, b) => b.traceAddress[depth] - a.traceAddress[depth],
+    )[0];
+  }
+  return path;
+}
+
+/**
+ * Decoded revert bubbling path, deepest failing call first.
+ */
+export function buildRevertPath(
+  frames: RevertPathInput[],
+  context: Pick<AbiDecodeContext, "network"> = {},
+): RevertPathFrame[] {
+  const path = findRevertPath(frames).map(
+    (frame): RevertPathFrame => ({
+      traceAddress: frame.traceAddress,
+      from: frame.from,
+      to: frame.to ?? "",
+      functionName: frame.input
+        ? (abiRegistry.lookupFunction(frame.input, {
+            ...context,
+            address: frame.to,
+          })?.name ?? null)
+        : null,
+      error: frame.error ?? "",
+      revert: decodeRevert(frame.output, { ...context, address: frame.to }),
+      bubbled: false,
+    }),
+  );
+
+  return path
+    .map((frame, index) => {
+      const child = path[index + 1];
+      return {
+        ...frame,
+        bubbled:
+          !!child &&
+          frame.revert.kind !== "empty" &&
+          frame.revert.data === child.revert.data,
+      };
+    })
+    .reverse();
+}
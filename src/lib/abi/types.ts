@@ -0,0 +1,137 @@
+export type AbiFormat = "json" | "foundry" | "hardhat" | "solc";
+
+export interface AbiParameter {
+  name?: string;
+  type: string;
+  internalType?: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+}
+
+export interface AbiFragmentJson {
+  type: string;
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: string;
+  anonymous?: boolean;
+}
+
+export interface ParsedAbi {
+  name: string;
+  format: AbiFormat;
+  abi: AbiFragmentJson[];
+}
+
+export interface StoredAbi extends ParsedAbi {
+  id: string;
+  fileName: string | null;
+  addedAt: number;
+}
+
+export interface AbiAttachment {
+  network: string;
+  address: string;
+  abiId: string;
+}
+
+// Where the network is unknown, attachments for the address on any
+// network are used.
+export interface AbiDecodeContext {
+  address?: string | null;
+  network?: string | null;
+}
+
+// "signature" matches come from the offline signature database, without
+// parameter names.
+export type AbiMatch = "address" | "selector" | "builtin" | "signature";
+
+export interface DecodedArgument {
+  name: string;
+  type: string;
+  value: string;
+}
+
+export interface DecodedFunctionCall {
+  name: string;
+  signature: string;
+  selector: string;
+  stateMutability: string;
+  args: DecodedArgument[];
+  abiName: string;
+  matchedBy: AbiMatch;
+  // Other signatures sharing the selector, for signature-database matches.
+  candidates?: string[];
+}
+
+export interface DecodedEventLog {
+  name: string;
+  signature: string;
+  topic: string;
+  args: DecodedArgument[];
+  abiName: string;
+  matchedBy: AbiMatch;
+}
+
+export interface DecodedCustomError {
+  name: string;
+  signature: string;
+  selector: string;
+  args: DecodedArgument[];
+  // Readable summary, e.g. the revert reason or the panic description.
+  message: string;
+  abiName: string;
+  matchedBy: AbiMatch;
+}
+
+export interface AbiImportResult {
+  added: StoredAbi[];
+  errors: string[];
+}
+
+export type RevertKind = "error" | "panic" | "custom" | "unknown" | "empty";
+
+export interface DecodedRevert {
+  kind: RevertKind;
+  // Revert data as returned by the node; "0x" when there was none.
+  data: string;
+  selector: string | null;
+  name: string | null;
+  signature: string | null;
+  args: DecodedArgument[];
+  message: string;
+  panicCode?: number;
+  abiName?: string;
+  matchedBy?: AbiMatch;
+}
+
+// A callTracer frame; only the fields revert analysis reads.
+export interface RevertTraceFrame {
+  from: string;
+  to?: string;
+  input?: string;
+  output?: string;
+  error?: string;
+  calls?: RevertTraceFrame[];
+}
+
+export interface RevertPathInput {
+  traceAddress: number[];
+  from: string;
+  to?: string;
+  input?: string;
+  output?: string;
+  error?: string | null;
+}
+
+export interface RevertPathFrame {
+  traceAddress: number[];
+  from: string;
+  to: string;
+  functionName: string | null;
+  // Error reported by the node, e.g. "execution reverted".
+  error: string;
+  revert: DecodedRevert;
+  // The frame re-threw its failing child's revert data unchanged.
+  bubbled: boolean;
+}
@@ -1,82 +1,264 @@
 import { ethers } from "ethers";
-import { RPC_CONFIG } from "./config";
+import {
+  getNetworkName,
+  getNetworkRpcUrls,
+  isLocalNetwork,
+  NetworkConnectionError,
+  networkRegistry,
+  RPC_URL_PATTERN,
+  type NetworkConfig,
+  type NetworkId,
+} from "./networks";
+import {
+  BatchTransport,
+  PooledJsonRpcProvider,
+  RPC_ERROR_CODES,
+  RpcError,
+  RpcPool,
+  type RequestPriority,
+  type RpcBatchResult,
+  type RpcRequest,
+} from "./rpc";
+import {
+  REPLAY_URL_PREFIX,
+  ReplayJsonRpcProvider,
+  RpcReplayer,
+  rpcRecorder,
+  type RpcSession,
+} from "./rpcsession";
+
+const CONNECTION_TIMEOUT_MS = 8000;
 
 export class BlockchainService {
-  makeRPCCall(method: string, testParams: any[]) {
-    throw new Error("Method not implemented.");
-  }
-  makeBatchRPCCall(batchRequest: { method: string; params: any[] }[]) {
-    throw new Error("Method not implemented.");
-  }
   private provider: ethers.JsonRpcProvider | null = null;
-  private networkConfig:
-    | typeof RPC_CONFIG.sepolia
-    | typeof RPC_CONFIG.mainnet
-    | null = null;
+  private backgroundProvider: ethers.JsonRpcProvider | null = null;
+  private pool: RpcPool | null = null;
+  private networkConfig: NetworkConfig | null = null;
   private connectionPromise: Promise<boolean> | null = null;
+  private replayer: RpcReplayer | null = null;
+
+  async connect(preferredNetwork?: NetworkId): Promise<boolean> {
+    // A replayed session stays connected until it is stopped or the user
+    // switches network.
+    if (this.replayer) return true;
 
-  async connect(preferredNetwork?: "sepolia" | "mainnet"): Promise<boolean> {
     if (this.connectionPromise) {
       return this.connectionPromise;
     }
 
     if (
       this.isConnected() &&
-      (!preferredNetwork ||
-        this.networkConfig?.name.toLowerCase().includes(preferredNetwork))
+      !this.isNetworkConfigStale() &&
+      (!preferredNetwork || this.networkConfig?.id === preferredNetwork)
     ) {
       return true;
     }
 
     this.connectionPromise = this.performConnection(preferredNetwork);
-    const result = await this.connectionPromise;
-    this.connectionPromise = null;
-    return result;
+    try {
+      return await this.connectionPromise;
+    } finally {
+      this.connectionPromise = null;
+    }
+  }
+
+  private isNetworkConfigStale(): boolean {
+    if (!this.networkConfig) return false;
+    const registered = networkRegistry.get(this.networkConfig.id);
+    return (
+      !registered ||
+      getNetworkRpcUrls(registered).join() !==
+        getNetworkRpcUrls(this.networkConfig).join()
+    );
   }
 
   private async performConnection(
-    preferredNetwork?: "sepolia" | "mainnet",
+    preferredNetwork?: NetworkId,
   ): Promise<boolean> {
-    let networks = [RPC_CONFIG.mainnet, RPC_CONFIG.sepolia];
-
-    if (preferredNetwork === "sepolia") {
-      networks = [RPC_CONFIG.sepolia, RPC_CONFIG.mainnet];
+    if (preferredNetwork && !networkRegistry.has(preferredNetwork)) {
+      this.resetConnection();
+      throw new NetworkConnectionError(
+        `Unknown network "${preferredNetwork}"`,
+        preferredNetwork,
+      );
     }
 
+    const networks = networkRegistry.getConnectionCandidates(preferredNetwork);
+    let lastError: unknown = null;
+
     for (const network of networks) {
       try {
         console.log(`Attempting to connect to ${network.name}...`);
-        const testProvider = new ethers.JsonRpcProvider(network.rpcUrl);
+        const httpUrls = getNetworkRpcUrls(network).filter((url) =>
+          RPC_URL_PATTERN.test(url),
+        );
+        if (httpUrls.length === 0) {
+          throw new Error("No http(s) RPC endpoint configured");
+        }
+        // Local nodes report their own chain ID; a fork of mainnet keeps 1.
+        const isLocal = isLocalNetwork(network);
+        let chainId = network.chainId;
 
-        const networkPromise = testProvider.getNetwork();
-        const timeoutPromise = new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error("Connection timeout")), 8000),
+        const pool = new RpcPool(httpUrls);
+        pool.observe((exchange) =>
+          rpcRecorder.record(exchange, this.networkConfig),
+        );
+        const responsive = await pool.probe(
+          isLocal ? null : network.chainId,
+          CONNECTION_TIMEOUT_MS,
+        );
+        if (responsive === 0) {
+          throw new Error("No RPC endpoint responded");
+        }
+        console.log(
+          `${responsive}/${httpUrls.length} RPC endpoints available for ${network.name}`,
         );
 
-        await Promise.race([networkPromise, timeoutPromise]);
+        if (isLocal) {
+          chainId = Number(await pool.request<string>("eth_chainId"));
+        }
 
-        this.provider = testProvider;
-        this.networkConfig = network;
+        const chain = ethers.Network.from(chainId);
+        this.provider = new PooledJsonRpcProvider(pool, chain, {
+          staticNetwork: true,
+        });
+        this.backgroundProvider = new PooledJsonRpcProvider(
+          pool,
+          chain,
+          { staticNetwork: true },
+          "background",
+        );
+        this.pool = pool;
+        this.networkConfig = { ...network, chainId };
         console.log(`Successfully connected to ${network.name}`);
         return true;
       } catch (error) {
         console.warn(`Failed to connect to ${network.name}:`, error);
-        continue;
+        lastError = error;
       }
     }
 
+    // Keeping the previous provider would send this network's requests to
+    // another chain.
+    this.resetConnection();
+
+    if (preferredNetwork) {
+      const reason = lastError instanceof Error ? `: ${lastError.message}` : "";
+      throw new NetworkConnectionError(
+        `Could not connect to ${getNetworkName(preferredNetwork)}${reason}`,
+        preferredNetwork,
+      );
+    }
+
     console.error("Failed to connect to any available network");
     return false;
   }
 
-  async getCurrentBlock(): Promise<number> {
+  private resetConnection(): void {
+    this.provider = null;
+    this.backgroundProvider = null;
+    this.pool = null;
+    this.networkConfig = null;
+  }
+
+  /**
+   * Sends a JSON-RPC call through the endpoint pool. Concurrent calls are
+   * grouped into batch payloads, identical in-flight calls are shared, and
+   * failed calls are retried on another healthy endpoint. Calls are paced
+   * to the provider's rate limit; background calls wait for interactive
+   * ones.
+   */
+  async makeRPCCall<T = unknown>(
+    method: string,
+    params: unknown[] = [],
+    priority: RequestPriority = "interactive",
+  ): Promise<T> {
     if (!this.provider) throw new Error("Not connected");
-    return await this.provider.getBlockNumber();
+
+    if (!this.pool) {
+      return this.provider.send(method, params);
+    }
+    return this.pool.request<T>(method, params, priority);
   }
 
-  async getGasPrice(): Promise<number> {
+  async makeBatchRPCCall(
+    batchRequest: RpcRequest[],
+    priority: RequestPriority = "interactive",
+  ): Promise<RpcBatchResult[]> {
     if (!this.provider) throw new Error("Not connected");
-    const feeData = await this.provider.getFeeData();
+
+    if (!this.pool) {
+      return Promise.all(
+        batchRequest.map(async ({ method, params = [] }) => {
+          try {
+            return {
+              method,
+              result: await this.provider!.send(method, params),
+            };
+          } catch (error) {
+            return {
+              method,
+              error: new RpcError(
+                RPC_ERROR_CODES.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error),
+                method,
+              ),
+            };
+          }
+        }),
+      );
+    }
+    return this.pool.requestBatch(batchRequest, priority);
+  }
+
+  getRpcPool(): RpcPool | null {
+    return this.pool;
+  }
+
+  getTransport(): BatchTransport | null {
+    return this.pool?.getActiveEndpoint().getTransport() ?? null;
+  }
+
+  async getTransactionReceipts(txHashes: string[]): Promise<any[]> {
+    return Promise.all(
+      txHashes.map((hash) =>
+        this.makeRPCCall("eth_getTransactionReceipt", [hash]).catch((error) => {
+          console.warn(`Failed to fetch receipt for ${hash}:`, error);
+          return null;
+        }),
+      ),
+    );
+  }
+
+  async getCodes(
+    addresses: string[],
+    blockTag: string = "latest",
+  ): Promise<Record<string, string>> {
+    const unique = Array.from(new Set(addresses.map((a) => a.toLowerCase())));
+    const codes = await Promise.all(
+      unique.map((address) =>
+        this.makeRPCCall<string>("eth_getCode", [address, blockTag]).catch(
+          () => "0x",
+        ),
+      ),
+    );
+    return Object.fromEntries(unique.map((address, i) => [address, codes[i]]));
+  }
+
+  async getCurrentBlock(
+    priority: RequestPriority = "interactive",
+  ): Promise<number> {
+    const provider = this.getProvider(priority);
+    if (!provider) throw new Error("Not connected");
+    return await provider.getBlockNumber();
+  }
+
+  async getGasPrice(
+    priority: RequestPriority = "interactive",
+  ): Promise<number> {
+    const provider = this.getProvider(priority);
+    if (!provider) throw new Error("Not connected");
+    const feeData = await provider.getFeeData();
     return feeData.gasPrice
       ? parseFloat(ethers.formatUnits(feeData.gasPrice, "gwei"))
       : 0;
@@ -112,7 +294,16 @@ export class BlockchainService {
     }
   }
 
-  getProvider(): ethers.JsonRpcProvider | null {
+  /**
+   * The background provider shares the connection but its requests yield
+   * to interactive ones; use it for polling and prefetching.
+   */
+  getProvider(
+    priority: RequestPriority = "interactive",
+  ): ethers.JsonRpcProvider | null {
+    if (priority === "background") {
+      return this.backgroundProvider ?? this.provider;
+    }
     return this.provider;
   }
 
@@ -170,23 +361,58 @@ export class BlockchainService {
   }
 
   disconnect(): void {
-    this.provider = null;
-    this.networkConfig = null;
+    this.resetConnection();
     this.connectionPromise = null;
+    this.replayer = null;
     console.log("Disconnected from blockchain network");
   }
 
-  async switchNetwork(network: "sepolia" | "mainnet"): Promise<boolean> {
+  /**
+   * Serves all calls from a recorded session instead of a node until
+   * {@link stopReplay} is called or another network is selected.
+   */
+  startReplay(session: RpcSession): RpcReplayer {
+    this.disconnect();
+
+    const registered = session.network
+      ? networkRegistry.get(session.network.id)
+      : undefined;
+    const chainId = session.network?.chainId ?? registered?.chainId ?? 1;
+    const replayer = new RpcReplayer(session);
+
+    this.replayer = replayer;
+    this.provider = new ReplayJsonRpcProvider(replayer, chainId);
+    this.networkConfig = {
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      ...registered,
+      id: session.network?.id ?? registered?.id ?? "replay",
+      name: session.network?.name ?? session.name,
+      chainId,
+      rpcUrl: `${REPLAY_URL_PREFIX}${session.id}`,
+      fallbackRpcUrls: undefined,
+    };
+    console.log(
+      `Replaying session "${session.name}" (${session.entries.length} calls)`,
+    );
+    return replayer;
+  }
+
+  stopReplay(): void {
+    if (this.replayer) this.disconnect();
+  }
+
+  getReplayer(): RpcReplayer | null {
+    return this.replayer;
+  }
+
+  async switchNetwork(network: NetworkId): Promise<boolean> {
     console.log(`Switching to ${network}...`);
     this.disconnect();
     return await this.connect(network);
   }
 
-  getCurrentNetworkType(): "sepolia" | "mainnet" | null {
-    if (!this.networkConfig) return null;
-    return this.networkConfig.name.toLowerCase().includes("sepolia")
-      ? "sepolia"
-      : "mainnet";
+  getCurrentNetworkType(): NetworkId | null {
+    return this.networkConfig?.id ?? null;
   }
 
   async traceTransaction(
@@ -240,28 +466,34 @@ export class BlockchainService {
     return await this.provider.getTransactionReceipt(txHash);
   }
 
-  async traceBlock(blockIdentifier: string | number): Promise<any> {
+  /**
+   * Turns a block number, hex number, block hash or tag into the identifier
+   * trace_block and debug_traceBlockByNumber expect. Transaction hashes are
+   * rejected with guidance, block hashes are resolved to their number.
+   */
+  async resolveBlockIdentifier(
+    blockIdentifier: string | number,
+  ): Promise<string> {
     if (!this.provider) throw new Error("Not connected");
 
-    try {
-      let blockId: string | number;
+    let blockId: string | number;
 
-      if (typeof blockIdentifier === "number") {
-        blockId = blockIdentifier;
-      } else if (typeof blockIdentifier === "string") {
-        if (
-          ["latest", "pending", "earliest"].includes(
-            blockIdentifier.toLowerCase(),
-          )
-        ) {
-          blockId = blockIdentifier.toLowerCase();
-        } else if (blockIdentifier.startsWith("0x")) {
-          if (blockIdentifier.length === 66) {
-            const isLikelyTransactionHash =
-              await this.isTransactionHash(blockIdentifier);
-            if (isLikelyTransactionHash) {
-              throw new Error(
-                `The identifier "${blockIdentifier}" appears to be a transaction hash, not a block identifier.
+    if (typeof blockIdentifier === "number") {
+      blockId = blockIdentifier;
+    } else if (typeof blockIdentifier === "string") {
+      if (
+        ["latest", "pending", "earliest"].includes(
+          blockIdentifier.toLowerCase(),
+        )
+      ) {
+        blockId = blockIdentifier.toLowerCase();
+      } else if (blockIdentifier.startsWith("0x")) {
+        if (blockIdentifier.length === 66) {
+          const isLikelyTransactionHash =
+            await this.isTransactionHash(blockIdentifier);
+          if (isLikelyTransactionHash) {
+            throw new Error(
+              `The identifier "${blockIdentifier}" appears to be a transaction hash, not a block identifier.
 
 For transaction analysis, please use:
 1. The Transaction Trace page (/trace-transaction)
@@ -273,51 +505,51 @@ For block analysis, please provide:
 - A block tag ("latest", "pending", "earliest")
 
 Tip: Transaction hashes identify individual transactions, while block hashes identify entire blocks containing multiple transactions.`,
-              );
-            }
+            );
+          }
+
+          if (!/^0x[a-fA-F0-9]{64}$/.test(blockIdentifier)) {
+            throw new Error(
+              `Invalid block hash format: ${blockIdentifier}. Block hash must be 66 characters long and contain only hexadecimal characters.`,
+            );
+          }
 
-            if (!/^0x[a-fA-F0-9]{64}$/.test(blockIdentifier)) {
+          console.log(
+            `Converting block hash ${blockIdentifier} to block number...`,
+          );
+          try {
+            const blockInfo = await this.provider.getBlock(blockIdentifier);
+            if (!blockInfo) {
               throw new Error(
-                `Invalid block hash format: ${blockIdentifier}. Block hash must be 66 characters long and contain only hexadecimal characters.`,
+                `Block not found for hash: ${blockIdentifier}. Please verify the block hash is correct and exists on the current network.`,
               );
             }
-
+            blockId = blockInfo.number;
             console.log(
-              `Converting block hash ${blockIdentifier} to block number...`,
+              `Block hash ${blockIdentifier} corresponds to block number ${blockId}`,
             );
-            try {
-              const blockInfo = await this.provider.getBlock(blockIdentifier);
-              if (!blockInfo) {
-                throw new Error(
-                  `Block not found for hash: ${blockIdentifier}. Please verify the block hash is correct and exists on the current network.`,
-                );
-              }
-              blockId = blockInfo.number;
-              console.log(
-                `Block hash ${blockIdentifier} corresponds to block number ${blockId}`,
+          } catch (blockError) {
+            const errorMessage =
+              blockError instanceof Error
+                ? blockError.message
+                : "Unknown error";
+            if (
+              errorMessage.includes("could not detect network") ||
+              errorMessage.includes("network")
+            ) {
+              throw new Error(
+                `Network error while resolving block hash ${blockIdentifier}. Please check your network connection and try again.`,
               );
-            } catch (blockError) {
-              const errorMessage =
-                blockError instanceof Error
-                  ? blockError.message
-                  : "Unknown error";
-              if (
-                errorMessage.includes("could not detect network") ||
-                errorMessage.includes("network")
-              ) {
-                throw new Error(
-                  `Network error while resolving block hash ${blockIdentifier}. Please check your network connection and try again.`,
-                );
-              } else if (
-                errorMessage.includes("not found") ||
-                errorMessage.includes("null")
-              ) {
-                const networkInfo = await this.getNetworkInfo().catch(() => ({
-                  name: "unknown",
-                  chainId: 0,
-                }));
-                throw new Error(
-                  `Block hash ${blockIdentifier} not found on ${networkInfo.name} network (Chain ID: ${networkInfo.chainId}).
+            } else if (
+              errorMessage.includes("not found") ||
+              errorMessage.includes("null")
+            ) {
+              const networkInfo = await this.getNetworkInfo().catch(() => ({
+                name: "unknown",
+                chainId: 0,
+              }));
+              throw new Error(
+                `Block hash ${blockIdentifier} not found on ${networkInfo.name} network (Chain ID: ${networkInfo.chainId}).
 
 Please verify:
 1. The block hash is correct and complete (66 characters)
@@ -326,47 +558,56 @@ Please verify:
 4. Try using a block number instead (e.g., "latest" or a specific number)
 
 Tip: You can verify the block hash on a block explorer for your network.`,
-                );
-              } else {
-                throw new Error(
-                  `Failed to resolve block hash ${blockIdentifier}: ${errorMessage}`,
-                );
-              }
-            }
-          } else {
-            const blockNum = parseInt(blockIdentifier, 16);
-            if (isNaN(blockNum)) {
-              throw new Error(`Invalid hex block number: ${blockIdentifier}`);
+              );
+            } else {
+              throw new Error(
+                `Failed to resolve block hash ${blockIdentifier}: ${errorMessage}`,
+              );
             }
-            blockId = blockNum;
           }
         } else {
-          const blockNum = parseInt(blockIdentifier, 10);
+          const blockNum = parseInt(blockIdentifier, 16);
           if (isNaN(blockNum)) {
-            throw new Error(`Invalid block identifier: ${blockIdentifier}`);
+            throw new Error(`Invalid hex block number: ${blockIdentifier}`);
           }
           blockId = blockNum;
         }
       } else {
-        throw new Error(
-          `Invalid block identifier type: ${typeof blockIdentifier}`,
-        );
+        const blockNum = parseInt(blockIdentifier, 10);
+        if (isNaN(blockNum)) {
+          throw new Error(`Invalid block identifier: ${blockIdentifier}`);
+        }
+        blockId = blockNum;
       }
+    } else {
+      throw new Error(
+        `Invalid block identifier type: ${typeof blockIdentifier}`,
+      );
+    }
 
-      let rpcBlockId: string;
-      if (typeof blockId === "number") {
-        rpcBlockId = "0x" + blockId.toString(16);
-      } else if (
-        typeof blockId === "string" &&
-        ["latest", "pending", "earliest"].includes(blockId)
-      ) {
-        rpcBlockId = blockId;
-      } else {
-        rpcBlockId = String(blockId);
-      }
+    let rpcBlockId: string;
+    if (typeof blockId === "number") {
+      rpcBlockId = "0x" + blockId.toString(16);
+    } else if (
+      typeof blockId === "string" &&
+      ["latest", "pending", "earliest"].includes(blockId)
+    ) {
+      rpcBlockId = blockId;
+    } else {
+      rpcBlockId = String(blockId);
+    }
+
+    return rpcBlockId;
+  }
+
+  async traceBlock(blockIdentifier: string | number): Promise<any> {
+    if (!this.provider) throw new Error("Not connected");
+
+    try {
+      const rpcBlockId = await this.resolveBlockIdentifier(blockIdentifier);
 
       console.log(
-        `Calling trace_block with identifier: ${rpcBlockId} (original: ${blockId})`,
+        `Calling trace_block with identifier: ${rpcBlockId} (original: ${blockIdentifier})`,
       );
 
       let blockSize = 0;
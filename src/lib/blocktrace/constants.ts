@@ -1,25 +1,3 @@
-// Network Configuration
-export const NETWORKS = {
-  mainnet: {
-    name: "Ethereum Mainnet",
-    chainId: 1,
-    rpcUrl: "https://eth-mainnet.g.alchemy.com/v2/demo",
-    blockExplorer: "https://etherscan.io",
-  },
-  sepolia: {
-    name: "Sepolia Testnet",
-    chainId: 11155111,
-    rpcUrl: "https://eth-sepolia.g.alchemy.com/v2/demo",
-    blockExplorer: "https://sepolia.etherscan.io",
-  },
-  holesky: {
-    name: "Holesky Testnet",
-    chainId: 17000,
-    rpcUrl: "https://ethereum-holesky.publicnode.com",
-    blockExplorer: "https://holesky.etherscan.io",
-  },
-} as const;
-
 // PYUSD Contract Addresses
 export const PYUSD_CONTRACTS = {
   mainnet: "0x6c3ea9036406852006290770BEdFcAbA0e23A0e8",
@@ -27,6 +5,9 @@ export const PYUSD_CONTRACTS = {
   holesky: "0x6c3ea9036406852006290770BEdFcAbA0e23A0e8", // Same address on testnet
 } as const;
 
+export const getPyusdContract = (network: string): string | null =>
+  PYUSD_CONTRACTS[network as keyof typeof PYUSD_CONTRACTS] ?? null;
+
 // Function Signatures
 export const FUNCTION_SIGNATURES = {
   // ERC-20 Standard
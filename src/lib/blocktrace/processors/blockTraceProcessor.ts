@@ -5,7 +5,7 @@ import {
   formatAddress,
   generateCacheKey,
 } from "../utils";
-import { PYUSD_CONTRACTS, FUNCTION_SIGNATURES } from "../constants";
+import { getPyusdContract, FUNCTION_SIGNATURES } from "../constants";
 import type {
   RawBlockTrace,
   ProcessedBlockTrace,
@@ -164,8 +164,11 @@ export class BlockTraceProcessor {
     }
 
     // Check if this is a PYUSD contract
-    const pyusdAddress = PYUSD_CONTRACTS[this.network];
-    if (action.to.toLowerCase() !== pyusdAddress.toLowerCase()) {
+    const pyusdAddress = getPyusdContract(this.network);
+    if (
+      !pyusdAddress ||
+      action.to.toLowerCase() !== pyusdAddress.toLowerCase()
+    ) {
       return undefined;
     }
 
@@ -6,7 +6,7 @@ import {
   formatAddress,
 } from "../utils";
 import {
-  PYUSD_CONTRACTS,
+  getPyusdContract,
   FUNCTION_SIGNATURES,
   TRANSACTION_CATEGORIES,
   CHART_COLORS,
@@ -524,10 +524,10 @@ export class TransactionCategorizer {
 
   private initializeKnownData(): void {
     // Initialize known contracts (this could be loaded from a database)
-    this.knownContracts.set(
-      PYUSD_CONTRACTS[this.network].toLowerCase(),
-      "PYUSD Token"
-    );
+    const pyusdAddress = getPyusdContract(this.network);
+    if (pyusdAddress) {
+      this.knownContracts.set(pyusdAddress.toLowerCase(), "PYUSD Token");
+    }
 
     // Initialize function signatures
     Object.entries(FUNCTION_SIGNATURES).forEach(([name, sig]) => {
@@ -1,5 +1,6 @@
 import { ethers } from "ethers";
 import { blockchainService } from "@/lib/blockchainService";
+import { traceStrategyService } from "@/lib/tracing";
 import {
   validateBlockIdentifier,
   formatBlockIdentifier,
@@ -9,8 +10,8 @@ import {
   generateCacheKey,
   estimateMemoryUsage,
 } from "../utils";
+import { networkRegistry } from "@/lib/networks";
 import {
-  NETWORKS,
   PERFORMANCE_THRESHOLDS,
   ERROR_MESSAGES,
   CACHE_CONFIG,
@@ -163,7 +164,8 @@ export class BlockTraceService {
   }
 
   /**
-   * Get raw block trace data using trace_block RPC method
+   * Get raw block trace data in trace_block format, derived from
+   * debug_traceBlockByNumber on clients without the trace_* namespace
    */
   async getBlockTrace(
     blockIdentifier: string | number,
@@ -172,17 +174,13 @@ export class BlockTraceService {
     await this.ensureConnection(network);
 
     const formattedBlockId = formatBlockIdentifier(blockIdentifier);
-    const provider = blockchainService.getProvider();
-
-    if (!provider) {
-      throw new Error("Provider not available");
-    }
 
     try {
-      console.log(`Calling trace_block for block: ${formattedBlockId}`);
+      console.log(`Tracing block: ${formattedBlockId}`);
 
-      // Use trace_block RPC method
-      const traces = await provider.send("trace_block", [formattedBlockId]);
+      const traces = (await traceStrategyService.traceBlockParity(
+        formattedBlockId
+      )) as RawBlockTrace[];
 
       if (!Array.isArray(traces)) {
         throw new Error("Invalid trace_block response format");
@@ -193,7 +191,7 @@ export class BlockTraceService {
       );
       return traces;
     } catch (error) {
-      console.error(`trace_block failed for block ${formattedBlockId}:`, error);
+      console.error(`Block trace failed for block ${formattedBlockId}:`, error);
       throw new Error(
         `Failed to trace block: ${error instanceof Error ? error.message : "Unknown error"}`
       );
@@ -578,6 +576,6 @@ export class BlockTraceService {
   }
 
   getSupportedNetworks(): NetworkType[] {
-    return Object.keys(NETWORKS) as NetworkType[];
+    return networkRegistry.getAll().map((network) => network.id);
   }
 }
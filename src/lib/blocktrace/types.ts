@@ -1,3 +1,5 @@
+import type { NetworkId } from "@/lib/networks";
+
 // Core Block Trace Analysis Types
 export interface BlockIdentifier {
   value: string | number;
@@ -385,7 +387,7 @@ export interface NetworkInfo {
   blockExplorer: string;
 }
 
-export type NetworkType = "mainnet" | "sepolia" | "holesky";
+export type NetworkType = NetworkId;
 export type ExportFormat = "csv" | "json" | "google_sheets";
 
 // Error Handling
@@ -1,5 +1,5 @@
 import { ethers } from "ethers";
-import { PYUSD_CONTRACTS, FUNCTION_SIGNATURES, GAS_LIMITS } from "./constants";
+import { getPyusdContract, FUNCTION_SIGNATURES, GAS_LIMITS } from "./constants";
 import type {
   BlockIdentifier,
   ValidationResult,
@@ -195,8 +195,8 @@ export function isPYUSDContract(
     return false;
   }
 
-  const pyusdAddress = PYUSD_CONTRACTS[network];
-  return address.toLowerCase() === pyusdAddress.toLowerCase();
+  const pyusdAddress = getPyusdContract(network);
+  return !!pyusdAddress && address.toLowerCase() === pyusdAddress.toLowerCase();
 }
 
 /**
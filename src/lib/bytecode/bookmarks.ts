@@ -3,11 +3,12 @@ import {
   sanitizeQueryConfig,
   validateQueryConfigSecurity,
 } from "@/lib/security/sanitize";
+import type { NetworkId } from "@/lib/networks";
 
 export interface BytecodeAnalysisBookmark {
   analysisType: string;
   transactionHash: boolean;
-  network: "mainnet" | "sepolia" | "holesky";
+  network: NetworkId;
   contractAddresses: any;
   contractNames: any;
   id: string;
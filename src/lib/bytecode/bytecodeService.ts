@@ -1,3 +1,4 @@
+import { signatureDatabase } from "@/lib/signatures";
 import { ethApi } from "./api";
 import {
   type BytecodeAnalysis,
@@ -45,6 +46,9 @@ export class BytecodeService {
 
     try {
       const bytecode = await ethApi.getCode(address, blockTag);
+      await signatureDatabase.prefetch(
+        this.processor.extractFunctionSignatures(bytecode.replace(/^0x/, "")),
+      );
 
       const analysis = this.processor.analyzeBytecode(
         bytecode,
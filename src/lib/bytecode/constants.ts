@@ -77,24 +77,6 @@ export const EXAMPLE_CONTRACTS = {
   ],
 };
 
-export const RPC_ENDPOINTS = {
-  mainnet: {
-    name: "Ethereum Mainnet",
-    chainId: 1,
-    rpcUrl: "https://eth-mainnet.g.alchemy.com/v2/demo",
-  },
-  sepolia: {
-    name: "Sepolia Testnet",
-    chainId: 11155111,
-    rpcUrl: "https://eth-sepolia.g.alchemy.com/v2/demo",
-  },
-  holesky: {
-    name: "Holesky Testnet",
-    chainId: 17000,
-    rpcUrl: "https://ethereum-holesky.publicnode.com",
-  },
-};
-
 export const ANALYSIS_MODES = {
   SINGLE: "single",
   MULTIPLE: "multiple",
@@ -2,6 +2,7 @@ import {
   EnhancedPatternDetector,
   type PatternAnalysisResult,
 } from "@/lib/bytecode";
+import { signatureDatabase } from "@/lib/signatures";
 
 export const ERC20_SIGNATURES = {
   "0x70a08231": "balanceOf(address)",
@@ -223,7 +224,7 @@ export class BytecodeProcessor {
     };
   }
 
-  private extractFunctionSignatures(code: string): string[] {
+  extractFunctionSignatures(code: string): string[] {
     const signaturePattern = /63([0-9a-f]{8})/gi;
     const matches = code.match(signaturePattern) || [];
 
@@ -243,6 +244,11 @@ export class BytecodeProcessor {
           name: this.allKnownSignatures[signature],
           category,
         });
+      } else {
+        const [name] = signatureDatabase.lookup(signature);
+        if (name) {
+          functions.push({ signature, name, category: "Other" });
+        }
       }
     });
 
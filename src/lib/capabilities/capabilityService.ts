@@ -0,0 +1,451 @@
+import { blockchainService } from "@/lib/blockchainService";
+import { RPC_ERROR_CODES, toRpcError, type RpcEndpoint } from "@/lib/rpc";
+import {
+  CAPABILITY_CACHE_TTL,
+  CAPABILITY_PROBE_TIMEOUT,
+  CAPABILITY_STORAGE_KEY,
+  PAGE_CAPABILITY_REQUIREMENTS,
+  RPC_CAPABILITIES,
+  STATE_OVERRIDE_PROBE_ADDRESS,
+  STATE_OVERRIDE_PROBE_CODE,
+  ZERO_ADDRESS,
+  ZERO_HASH,
+} from "./constants";
+import type {
+  CapabilityMatrix,
+  CapabilityPage,
+  CapabilityProbeResult,
+  CapabilityRequirement,
+  EndpointCapabilities,
+  NetworkCapabilities,
+  RequirementCheck,
+  RpcCapability,
+} from "./types";
+
+type ProbeCall = (method: string, params: unknown[]) => Promise<unknown>;
+
+interface ProbeContext {
+  txHash: string | null;
+  blockHash: string | null;
+}
+
+interface ProbeSpec {
+  capability: RpcCapability;
+  // Returns null when the probe cannot run, e.g. without a sample transaction.
+  params: (context: ProbeContext) => unknown[] | null;
+  evaluate?: (result: unknown) => CapabilityProbeResult;
+}
+
+const UNSUPPORTED_PATTERN =
+  /(method|namespace|api)\b.*(not found|does not exist|not available|not supported|not allowed|not whitelisted|disabled)|unsupported method|unknown method|not supported/i;
+const MISSING_TRACER_PATTERN =
+  /tracer.*(not found|not defined|unknown)|unknown tracer|invalid tracer/i;
+
+const tracerProbe = (
+  capability: RpcCapability,
+  tracer: string,
+  tracerConfig?: Record<string, unknown>,
+): ProbeSpec => ({
+  capability,
+  params: ({ txHash }) =>
+    txHash ? [txHash, { tracer, ...(tracerConfig && { tracerConfig }) }] : null,
+});
+
+const PROBES: ProbeSpec[] = [
+  {
+    capability: "debug_traceTransaction",
+    params: () => [
+      ZERO_HASH,
+      { disableStorage: true, disableMemory: true, disableStack: true },
+    ],
+  },
+  tracerProbe("debug_traceTransaction:callTracer", "callTracer", {
+    onlyTopCall: true,
+  }),
+  tracerProbe("debug_traceTransaction:prestateTracer", "prestateTracer"),
+  tracerProbe("debug_traceTransaction:4byteTracer", "4byteTracer"),
+  {
+    capability: "debug_traceCall",
+    params: () => [
+      { to: ZERO_ADDRESS, data: "0x" },
+      "latest",
+      { tracer: "callTracer" },
+    ],
+  },
+  {
+    capability: "debug_traceBlockByNumber",
+    params: () => ["0x0", { tracer: "callTracer" }],
+  },
+  {
+    capability: "debug_storageRangeAt",
+    params: ({ blockHash }) => [
+      blockHash || ZERO_HASH,
+      0,
+      ZERO_ADDRESS,
+      ZERO_HASH,
+      1,
+    ],
+  },
+  { capability: "trace_transaction", params: () => [ZERO_HASH] },
+  {
+    capability: "trace_replayTransaction",
+    params: () => [ZERO_HASH, ["trace"]],
+  },
+  {
+    capability: "trace_replayBlockTransactions",
+    params: () => ["0x0", ["trace"]],
+  },
+  { capability: "trace_block", params: () => ["0x0"] },
+  { capability: "txpool_status", params: () => [] },
+  { capability: "txpool_content", params: () => [] },
+  { capability: "txpool_inspect", params: () => [] },
+  { capability: "eth_feeHistory", params: () => ["0x1", "latest", [50]] },
+  {
+    capability: "eth_createAccessList",
+    params: () => [{ to: ZERO_ADDRESS, data: "0x" }, "latest"],
+  },
+  {
+    capability: "eth_getProof",
+    params: () => [ZERO_ADDRESS, [], "latest"],
+  },
+  {
+    capability: "eth_call:stateOverrides",
+    params: () => [
+      { to: STATE_OVERRIDE_PROBE_ADDRESS, data: "0x" },
+      "latest",
+      { [STATE_OVERRIDE_PROBE_ADDRESS]: { code: STATE_OVERRIDE_PROBE_CODE } },
+    ],
+    // Nodes without override support ignore the third parameter and run
+    // the call against an empty account.
+    evaluate: (result) =>
+      typeof result === "string" && result !== "0x" && BigInt(result) === 1n
+        ? { status: "supported" }
+        : {
+            status: "unsupported",
+            detail: "State overrides were ignored by the node",
+          },
+  },
+];
+
+/**
+ * Probes what the connected RPC endpoints can serve, once per endpoint, and
+ * answers page requirements from the cached result.
+ */
+export class RpcCapabilityService {
+  private cache = new Map<string, EndpointCapabilities>();
+  private inFlight = new Map<string, Promise<EndpointCapabilities>>();
+
+  constructor() {
+    this.load();
+  }
+
+  async getCapabilities(
+    refresh: boolean = false,
+  ): Promise<NetworkCapabilities> {
+    if (!blockchainService.isConnected()) {
+      await blockchainService.connect();
+    }
+
+    const network = blockchainService.getNetworkConfig();
+    if (!network) {
+      throw new Error("Not connected to any network");
+    }
+
+    const pool = blockchainService.getRpcPool();
+    const targets: { url: string; call: ProbeCall; endpoint?: RpcEndpoint }[] =
+      pool
+        ? pool.getEndpoints().map((endpoint) => ({
+            url: endpoint.url,
+            call: (method, params) => endpoint.request(method, params),
+            endpoint,
+          }))
+        : [
+            {
+              url: network.rpcUrl,
+              call: (method, params) =>
+                blockchainService.makeRPCCall(method, params),
+            },
+          ];
+
+    const endpoints = await Promise.all(
+      targets.map(async ({ url, call, endpoint }) => {
+        const result = await this.getEndpointCapabilities(url, call, refresh);
+        if (endpoint) this.applyToEndpoint(endpoint, result.capabilities);
+        return result;
+      }),
+    );
+
+    return {
+      networkId: network.id,
+      endpoints,
+      capabilities: this.merge(endpoints),
+      probedAt: Math.min(...endpoints.map((e) => e.probedAt)),
+    };
+  }
+
+  /**
+   * Cached capabilities of the connected network, without probing.
+   */
+  getCachedCapabilities(): CapabilityMatrix | null {
+    const network = blockchainService.getNetworkConfig();
+    if (!network) return null;
+
+    const urls = blockchainService.getRpcPool()?.getUrls() || [network.rpcUrl];
+    const endpoints = urls
+      .map((url) => this.getFresh(url))
+      .filter((entry): entry is EndpointCapabilities => entry !== null);
+
+    return endpoints.length > 0 ? this.merge(endpoints) : null;
+  }
+
+  isSupported(capability: RpcCapability): boolean | null {
+    const status = this.getCachedCapabilities()?.[capability]?.status;
+    if (!status || status === "unknown") return null;
+    return status === "supported";
+  }
+
+  checkRequirements(
+    requirements: CapabilityRequirement[] | CapabilityPage,
+    capabilities: CapabilityMatrix | null = this.getCachedCapabilities(),
+  ): RequirementCheck {
+    return checkCapabilityRequirements(requirements, capabilities);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+    this.save();
+  }
+
+  private async getEndpointCapabilities(
+    url: string,
+    call: ProbeCall,
+    refresh: boolean,
+  ): Promise<EndpointCapabilities> {
+    const cached = refresh ? null : this.getFresh(url);
+    if (cached) return cached;
+
+    const pending = this.inFlight.get(url);
+    if (pending) return pending;
+
+    const probe = this.probeEndpoint(url, call)
+      .then((result) => {
+        this.cache.set(url, result);
+        this.save();
+        return result;
+      })
+      .finally(() => this.inFlight.delete(url));
+
+    this.inFlight.set(url, probe);
+    return probe;
+  }
+
+  private async probeEndpoint(
+    url: string,
+    call: ProbeCall,
+  ): Promise<EndpointCapabilities> {
+    const context = await this.getProbeContext(call);
+
+    const results = await Promise.all(
+      PROBES.map(async (spec) => {
+        const params = spec.params(context);
+        if (!params) {
+          return [
+            spec.capability,
+            {
+              status: "unknown",
+              detail: "No recent transaction available to test with",
+            },
+          ] as const;
+        }
+        return [
+          spec.capability,
+          await this.runProbe(spec, params, call),
+        ] as const;
+      }),
+    );
+
+    const capabilities = Object.fromEntries(results) as CapabilityMatrix;
+
+    // Tracers cannot work where the tracing method itself is missing.
+    if (capabilities.debug_traceTransaction.status === "unsupported") {
+      for (const capability of Object.keys(capabilities) as RpcCapability[]) {
+        if (capability.startsWith("debug_traceTransaction:")) {
+          capabilities[capability] = { ...capabilities.debug_traceTransaction };
+        }
+      }
+    }
+
+    return { url, probedAt: Date.now(), capabilities };
+  }
+
+  private async runProbe(
+    spec: ProbeSpec,
+    params: unknown[],
+    call: ProbeCall,
+  ): Promise<CapabilityProbeResult> {
+    const method = RPC_CAPABILITIES[spec.capability].method;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const result = await Promise.race([
+        call(method, params),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error("Probe timed out")),
+            CAPABILITY_PROBE_TIMEOUT,
+          );
+        }),
+      ]);
+      return spec.evaluate ? spec.evaluate(result) : { status: "supported" };
+    } catch (error) {
+      return classifyProbeError(error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async getProbeContext(call: ProbeCall): Promise<ProbeContext> {
+    try {
+      const block = (await call("eth_getBlockByNumber", ["latest", false])) as {
+        hash?: string;
+        transactions?: string[];
+      } | null;
+      return {
+        txHash: block?.transactions?.[0] ?? null,
+        blockHash: block?.hash ?? null,
+      };
+    } catch (error) {
+      console.warn(
+        "Could not load a sample block for capability probes:",
+        error,
+      );
+      return { txHash: null, blockHash: null };
+    }
+  }
+
+  private applyToEndpoint(
+    endpoint: RpcEndpoint,
+    capabilities: CapabilityMatrix,
+  ): void {
+    for (const [capability, result] of Object.entries(capabilities)) {
+      if (capability.includes(":") || result.status === "unknown") continue;
+      endpoint.setMethodSupport(capability, result.status === "supported");
+    }
+  }
+
+  private merge(endpoints: EndpointCapabilities[]): CapabilityMatrix {
+    const capabilities = {} as CapabilityMatrix;
+
+    for (const capability of Object.keys(RPC_CAPABILITIES) as RpcCapability[]) {
+      const results = endpoints.map(
+        (endpoint) =>
+          endpoint.capabilities[capability] || { status: "unknown" as const },
+      );
+      capabilities[capability] =
+        results.find((result) => result.status === "supported") ||
+        results.find((result) => result.status === "unknown") ||
+        results[0];
+    }
+
+    return capabilities;
+  }
+
+  private getFresh(url: string): EndpointCapabilities | null {
+    const entry = this.cache.get(url);
+    if (!entry || Date.now() - entry.probedAt > CAPABILITY_CACHE_TTL) {
+      return null;
+    }
+    return entry;
+  }
+
+  private load(): void {
+    try {
+      const stored = localStorage.getItem(CAPABILITY_STORAGE_KEY);
+      if (stored) {
+        const entries: EndpointCapabilities[] = JSON.parse(stored);
+        entries.forEach((entry) => this.cache.set(entry.url, entry));
+      }
+    } catch (error) {
+      console.warn("Failed to load RPC capability cache:", error);
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(
+        CAPABILITY_STORAGE_KEY,
+        JSON.stringify(Array.from(this.cache.values())),
+      );
+    } catch (error) {
+      console.warn("Failed to save RPC capability cache:", error);
+    }
+  }
+}
+
+export function classifyProbeError(error: unknown): CapabilityProbeResult {
+  const rpcError = toRpcError(error);
+  const message = rpcError.message || "";
+
+  if (
+    rpcError.code === RPC_ERROR_CODES.METHOD_NOT_FOUND ||
+    UNSUPPORTED_PATTERN.test(message) ||
+    MISSING_TRACER_PATTERN.test(message)
+  ) {
+    return { status: "unsupported", detail: message };
+  }
+
+  if (
+    rpcError.code === RPC_ERROR_CODES.TIMEOUT ||
+    rpcError.code === RPC_ERROR_CODES.TRANSPORT_ERROR ||
+    rpcError.code === RPC_ERROR_CODES.LIMIT_EXCEEDED ||
+    /timed out|timeout/i.test(message)
+  ) {
+    return { status: "unknown", detail: message };
+  }
+
+  // Any other error (unknown transaction, invalid block, ...) means the
+  // node recognised the method and rejected the probe's parameters.
+  return { status: "supported" };
+}
+
+export function checkCapabilityRequirements(
+  requirements: CapabilityRequirement[] | CapabilityPage,
+  capabilities: CapabilityMatrix | null,
+): RequirementCheck {
+  const list =
+    typeof requirements === "string"
+      ? PAGE_CAPABILITY_REQUIREMENTS[requirements]
+      : requirements;
+
+  if (!capabilities) {
+    return {
+      ready: false,
+      satisfied: true,
+      missing: [],
+      degraded: [],
+      unknown: list,
+    };
+  }
+
+  const statusOf = (requirement: CapabilityRequirement) => {
+    const statuses = [
+      requirement.capability,
+      ...(requirement.alternatives || []),
+    ].map((capability) => capabilities[capability]?.status ?? "unknown");
+    if (statuses.includes("supported")) return "supported";
+    return statuses.includes("unknown") ? "unknown" : "unsupported";
+  };
+
+  const unsupported = list.filter((r) => statusOf(r) === "unsupported");
+  const missing = unsupported.filter((r) => !r.optional);
+
+  return {
+    ready: true,
+    satisfied: missing.length === 0,
+    missing,
+    degraded: unsupported.filter((r) => r.optional),
+    unknown: list.filter((r) => statusOf(r) === "unknown"),
+  };
+}
+
+export const rpcCapabilityService = new RpcCapabilityService();
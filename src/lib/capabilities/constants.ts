@@ -0,0 +1,225 @@
+import type {
+  CapabilityDefinition,
+  CapabilityPage,
+  CapabilityRequirement,
+  RpcCapability,
+} from "./types";
+
+export const CAPABILITY_STORAGE_KEY = "arguschain_rpc_capabilities";
+export const CAPABILITY_CACHE_TTL = 6 * 60 * 60 * 1000;
+export const CAPABILITY_PROBE_TIMEOUT = 8000;
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+export const ZERO_HASH =
+  "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+// Arbitrary address whose code is replaced by a state override during the
+// probe, and bytecode that returns the word 1.
+export const STATE_OVERRIDE_PROBE_ADDRESS =
+  "0x00000000000000000000000000000000000a4605";
+export const STATE_OVERRIDE_PROBE_CODE = "0x600160005260206000f3";
+
+export const RPC_CAPABILITIES: Record<RpcCapability, CapabilityDefinition> = {
+  debug_traceTransaction: {
+    label: "Opcode tracing",
+    method: "debug_traceTransaction",
+    description: "Step-by-step structLog traces of transactions",
+  },
+  "debug_traceTransaction:callTracer": {
+    label: "Call tracer",
+    method: "debug_traceTransaction",
+    description: "Nested call trees via the built-in callTracer",
+  },
+  "debug_traceTransaction:prestateTracer": {
+    label: "Prestate tracer",
+    method: "debug_traceTransaction",
+    description: "Account state touched by a transaction",
+  },
+  "debug_traceTransaction:4byteTracer": {
+    label: "4byte tracer",
+    method: "debug_traceTransaction",
+    description: "Function selectors called during a transaction",
+  },
+  debug_traceCall: {
+    label: "Call simulation tracing",
+    method: "debug_traceCall",
+    description: "Traces of calls simulated against a block",
+  },
+  debug_traceBlockByNumber: {
+    label: "Block tracing",
+    method: "debug_traceBlockByNumber",
+    description: "Traces of every transaction in a block",
+  },
+  debug_storageRangeAt: {
+    label: "Storage range",
+    method: "debug_storageRangeAt",
+    description: "Enumeration of contract storage slots",
+  },
+  trace_transaction: {
+    label: "Parity traces",
+    method: "trace_transaction",
+    description: "Flat call traces from the trace_ namespace",
+  },
+  trace_replayTransaction: {
+    label: "Transaction replay",
+    method: "trace_replayTransaction",
+    description: "Replayed traces with state and VM diffs",
+  },
+  trace_replayBlockTransactions: {
+    label: "Block replay",
+    method: "trace_replayBlockTransactions",
+    description: "Replayed traces for a whole block",
+  },
+  trace_block: {
+    label: "Block traces",
+    method: "trace_block",
+    description: "Flat call traces for a whole block",
+  },
+  txpool_status: {
+    label: "Mempool status",
+    method: "txpool_status",
+    description: "Pending and queued transaction counts",
+  },
+  txpool_content: {
+    label: "Mempool content",
+    method: "txpool_content",
+    description: "Full pending transactions in the node's mempool",
+  },
+  txpool_inspect: {
+    label: "Mempool summary",
+    method: "txpool_inspect",
+    description: "Textual summary of pending transactions",
+  },
+  eth_feeHistory: {
+    label: "Fee history",
+    method: "eth_feeHistory",
+    description: "Base fees and priority fee percentiles per block",
+  },
+  eth_createAccessList: {
+    label: "Access lists",
+    method: "eth_createAccessList",
+    description: "EIP-2930 access list generation",
+  },
+  eth_getProof: {
+    label: "Merkle proofs",
+    method: "eth_getProof",
+    description: "Account and storage proofs",
+  },
+  "eth_call:stateOverrides": {
+    label: "State overrides",
+    method: "eth_call",
+    description: "Calls simulated with overridden balances, code or storage",
+  },
+};
+
+export const PAGE_CAPABILITY_REQUIREMENTS: Record<
+  CapabilityPage,
+  CapabilityRequirement[]
+> = {
+  debugTrace: [
+    {
+      capability: "debug_traceTransaction:callTracer",
+      feature: "Call tree analysis",
+      alternatives: ["trace_transaction"],
+    },
+    {
+      capability: "debug_traceTransaction",
+      feature: "Opcode-level gas analysis",
+      optional: true,
+    },
+  ],
+  traceTransaction: [
+    {
+      capability: "trace_transaction",
+      feature: "Transaction trace analysis",
+      alternatives: ["debug_traceTransaction:callTracer"],
+    },
+  ],
+  replayTransactions: [
+    {
+      capability: "trace_replayTransaction",
+      feature: "Transaction replay",
+    },
+  ],
+  replayBlock: [
+    {
+      capability: "trace_replayBlockTransactions",
+      feature: "Block replay",
+    },
+  ],
+  debugBlockTrace: [
+    {
+      capability: "debug_traceBlockByNumber",
+      feature: "Block trace analysis",
+      alternatives: ["trace_block"],
+    },
+  ],
+  traceBlock: [
+    {
+      capability: "trace_block",
+      feature: "Block trace analysis",
+      alternatives: ["debug_traceBlockByNumber"],
+    },
+  ],
+  storageAnalysis: [
+    {
+      capability: "debug_storageRangeAt",
+      feature: "Full storage enumeration (falls back to known slots)",
+      optional: true,
+    },
+  ],
+  transactionSimulation: [
+    { capability: "debug_traceCall", feature: "Traced simulations" },
+    {
+      capability: "eth_call:stateOverrides",
+      feature: "Simulations with state overrides",
+      optional: true,
+    },
+  ],
+  comparativeAnalysis: [
+    {
+      capability: "trace_transaction",
+      feature: "Transaction comparison",
+      alternatives: ["debug_traceTransaction:callTracer"],
+    },
+  ],
+  networkMonitor: [
+    {
+      capability: "txpool_status",
+      feature: "Mempool monitoring",
+      optional: true,
+    },
+    {
+      capability: "txpool_content",
+      feature: "Live pending transaction analysis",
+      optional: true,
+    },
+  ],
+  tracerWorkbench: [
+    {
+      capability: "debug_traceTransaction",
+      feature: "Custom tracers on transactions",
+    },
+    {
+      capability: "debug_traceCall",
+      feature: "Custom tracers on calls",
+      optional: true,
+    },
+    {
+      capability: "debug_traceBlockByNumber",
+      feature: "Custom tracers on blocks",
+      optional: true,
+    },
+  ],
+};
+
+export const STATE_HISTORY_STORAGE_KEY = "arguschain_state_history";
+export const STATE_HISTORY_CACHE_TTL = 6 * 60 * 60 * 1000;
+
+// Distances behind the head checked before bisecting. Geth keeps 128
+// blocks by default, Erigon and Reth usually keep much more.
+export const STATE_HISTORY_PROBE_OFFSETS = [
+  128, 1024, 8192, 65536, 524288, 4194304,
+];
+export const STATE_HISTORY_MAX_BISECT_STEPS = 10;
+export const STATE_HISTORY_SUGGESTION_MARGIN = 16;
@@ -0,0 +1,13 @@
+export {
+  RpcCapabilityService,
+  rpcCapabilityService,
+  classifyProbeError,
+  checkCapabilityRequirements,
+} from "./capabilityService";
+export {
+  StateHistoryService,
+  stateHistoryService,
+} from "./stateHistoryService";
+
+export * from "./types";
+export * from "./constants";
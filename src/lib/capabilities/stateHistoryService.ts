@@ -0,0 +1,341 @@
+import { ethers } from "ethers";
+import { blockchainService } from "@/lib/blockchainService";
+import {
+  RPC_ERROR_CODES,
+  StateUnavailableError,
+  toStateUnavailableError,
+} from "@/lib/rpc";
+import {
+  STATE_HISTORY_CACHE_TTL,
+  STATE_HISTORY_MAX_BISECT_STEPS,
+  STATE_HISTORY_PROBE_OFFSETS,
+  STATE_HISTORY_STORAGE_KEY,
+  STATE_HISTORY_SUGGESTION_MARGIN,
+  ZERO_ADDRESS,
+} from "./constants";
+import type {
+  EndpointStateHistory,
+  StateAvailability,
+  StateHistoryInfo,
+} from "./types";
+
+type ProbeCall = (method: string, params: unknown[]) => Promise<unknown>;
+
+/**
+ * Finds how far back each endpoint of the connected network can serve
+ * state, so historical queries can be checked before they are sent and
+ * missing-state errors can name the nearest usable block.
+ */
+export class StateHistoryService {
+  private cache = new Map<string, EndpointStateHistory>();
+  private inFlight = new Map<string, Promise<EndpointStateHistory>>();
+
+  constructor() {
+    this.load();
+  }
+
+  async getInfo(refresh: boolean = false): Promise<StateHistoryInfo> {
+    if (!blockchainService.isConnected()) {
+      await blockchainService.connect();
+    }
+
+    const network = blockchainService.getNetworkConfig();
+    if (!network) {
+      throw new Error("Not connected to any network");
+    }
+
+    const pool = blockchainService.getRpcPool();
+    const targets: { url: string; call: ProbeCall }[] = pool
+      ? pool.getEndpoints().map((endpoint) => ({
+          url: endpoint.url,
+          call: (method, params) =>
+            endpoint.request(method, params, "background"),
+        }))
+      : [
+          {
+            url: network.rpcUrl,
+            call: (method, params) =>
+              blockchainService.makeRPCCall(method, params, "background"),
+          },
+        ];
+
+    const results = await Promise.allSettled(
+      targets.map(({ url, call }) =>
+        this.getEndpointHistory(url, call, refresh),
+      ),
+    );
+    const endpoints = results.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : [],
+    );
+    if (endpoints.length === 0) {
+      const failure = results[0] as PromiseRejectedResult | undefined;
+      throw failure?.reason ?? new Error("No RPC endpoint to probe");
+    }
+
+    const isArchive = endpoints.some((endpoint) => endpoint.isArchive);
+    return {
+      networkId: network.id,
+      endpoints,
+      isArchive,
+      retainedBlocks: isArchive
+        ? null
+        : Math.max(...endpoints.map((endpoint) => endpoint.retainedBlocks!)),
+      probedAt: Math.min(...endpoints.map((endpoint) => endpoint.probedAt)),
+    };
+  }
+
+  /**
+   * Block number an identifier refers to, or null for tags that always
+   * point at recent state.
+   */
+  async toBlockNumber(identifier: string | number): Promise<number | null> {
+    if (typeof identifier === "number") return identifier;
+
+    const trimmed = identifier.trim();
+    if (/^\d+$/.test(trimmed)) return Number(trimmed);
+    if (/^0x[0-9a-f]{1,16}$/i.test(trimmed)) return parseInt(trimmed, 16);
+    if (trimmed.toLowerCase() === "earliest") return 0;
+    if (ethers.isHexString(trimmed, 32)) {
+      const block = await blockchainService.getBlock(trimmed, false);
+      return typeof block?.number === "number" ? block.number : null;
+    }
+    return null;
+  }
+
+  /**
+   * Whether the node still has state for a block. Returns null when the
+   * identifier is a recent tag or the node's history could not be probed.
+   */
+  async checkBlock(
+    identifier: string | number,
+  ): Promise<StateAvailability | null> {
+    const blockNumber = await this.toBlockNumber(identifier);
+    if (blockNumber === null) return null;
+
+    let info: StateHistoryInfo;
+    let latestBlock: number;
+    try {
+      [info, latestBlock] = await Promise.all([
+        this.getInfo(),
+        blockchainService.getCurrentBlock("background"),
+      ]);
+    } catch (error) {
+      console.warn("Could not determine the node's state history:", error);
+      return null;
+    }
+
+    const earliestBlock =
+      info.retainedBlocks === null
+        ? 0
+        : Math.max(0, latestBlock - info.retainedBlocks);
+    const available = blockNumber >= earliestBlock;
+
+    return {
+      blockNumber,
+      available,
+      latestBlock,
+      earliestBlock,
+      suggestedBlock: available
+        ? null
+        : Math.min(
+            latestBlock,
+            earliestBlock + STATE_HISTORY_SUGGESTION_MARGIN,
+          ),
+      info,
+    };
+  }
+
+  /**
+   * Throws a StateUnavailableError before a query is sent for a block the
+   * node has already pruned. Unknown history never blocks the query.
+   */
+  async assertAvailable(
+    identifier: string | number,
+    feature: string,
+  ): Promise<void> {
+    const availability = await this.checkBlock(identifier);
+    if (availability && !availability.available) {
+      throw this.createError(availability, feature);
+    }
+  }
+
+  /**
+   * Turns a missing-state error from any layer into a StateUnavailableError
+   * that names the nearest available block, checking the blocks the query
+   * touched to find the one that was pruned. Other errors are returned
+   * unchanged.
+   */
+  async explainError(
+    error: unknown,
+    identifiers: (string | number)[] = [],
+    feature: string = "This query",
+  ): Promise<unknown> {
+    const stateError = toStateUnavailableError(error);
+    if (!stateError || stateError.blockNumber !== null) {
+      return stateError ?? error;
+    }
+
+    let availability: StateAvailability | null = null;
+    for (const identifier of identifiers) {
+      const candidate = await this.checkBlock(identifier);
+      // Nodes also answer "header not found" for blocks past the head.
+      if (candidate && candidate.blockNumber > candidate.latestBlock) {
+        return error;
+      }
+      if (candidate && !candidate.available) {
+        availability = candidate;
+        break;
+      }
+    }
+    if (!availability) {
+      return new StateUnavailableError(
+        stateError.code,
+        `${feature} needs historical state the node no longer has (${stateError.message}). Use a more recent block or an archive node.`,
+        stateError.method,
+        stateError.data,
+      );
+    }
+    return this.createError(availability, feature, stateError);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+    this.save();
+  }
+
+  private createError(
+    availability: StateAvailability,
+    feature: string,
+    cause?: StateUnavailableError,
+  ): StateUnavailableError {
+    const { blockNumber, earliestBlock, suggestedBlock } = availability;
+    const error = new StateUnavailableError(
+      cause?.code ?? RPC_ERROR_CODES.INTERNAL_ERROR,
+      `${feature} needs state at block ${blockNumber.toLocaleString()}, which is not available on this node. It keeps state from about block ${earliestBlock.toLocaleString()}${
+        suggestedBlock !== null
+          ? `; try block ${suggestedBlock.toLocaleString()} or connect an archive node`
+          : ""
+      }.`,
+      cause?.method,
+      cause?.data,
+    );
+    error.blockNumber = blockNumber;
+    error.earliestAvailableBlock = earliestBlock;
+    error.suggestedBlock = suggestedBlock;
+    return error;
+  }
+
+  private async getEndpointHistory(
+    url: string,
+    call: ProbeCall,
+    refresh: boolean,
+  ): Promise<EndpointStateHistory> {
+    const cached = refresh ? null : this.getFresh(url);
+    if (cached) return cached;
+
+    const pending = this.inFlight.get(url);
+    if (pending) return pending;
+
+    const probe = this.probeEndpoint(url, call)
+      .then((result) => {
+        this.cache.set(url, result);
+        this.save();
+        return result;
+      })
+      .finally(() => this.inFlight.delete(url));
+
+    this.inFlight.set(url, probe);
+    return probe;
+  }
+
+  /**
+   * Reads a balance at growing distances behind the head until the node
+   * reports missing state, then bisects between the last block that
+   * answered and the first that did not.
+   */
+  private async probeEndpoint(
+    url: string,
+    call: ProbeCall,
+  ): Promise<EndpointStateHistory> {
+    const latestBlock = Number(await call("eth_blockNumber", []));
+    const hasState = async (block: number) => {
+      try {
+        await call("eth_getBalance", [ZERO_ADDRESS, ethers.toQuantity(block)]);
+        return true;
+      } catch (error) {
+        if (toStateUnavailableError(error)) return false;
+        throw error;
+      }
+    };
+
+    const result = (retainedBlocks: number | null) => ({
+      url,
+      isArchive: retainedBlocks === null,
+      retainedBlocks,
+      latestBlock,
+      probedAt: Date.now(),
+    });
+
+    if (await hasState(1)) return result(null);
+
+    let available = latestBlock;
+    let missing = 1;
+    for (const offset of STATE_HISTORY_PROBE_OFFSETS) {
+      const block = latestBlock - offset;
+      if (block <= missing) break;
+      if (!(await hasState(block))) {
+        missing = block;
+        break;
+      }
+      available = block;
+    }
+
+    for (
+      let step = 0;
+      step < STATE_HISTORY_MAX_BISECT_STEPS && available - missing > 1;
+      step++
+    ) {
+      const middle = Math.floor((available + missing) / 2);
+      if (await hasState(middle)) {
+        available = middle;
+      } else {
+        missing = middle;
+      }
+    }
+
+    return result(latestBlock - available);
+  }
+
+  private getFresh(url: string): EndpointStateHistory | null {
+    const entry = this.cache.get(url);
+    if (!entry || Date.now() - entry.probedAt > STATE_HISTORY_CACHE_TTL) {
+      return null;
+    }
+    return entry;
+  }
+
+  private load(): void {
+    try {
+      const stored = localStorage.getItem(STATE_HISTORY_STORAGE_KEY);
+      if (stored) {
+        const entries: EndpointStateHistory[] = JSON.parse(stored);
+        entries.forEach((entry) => this.cache.set(entry.url, entry));
+      }
+    } catch (error) {
+      console.warn("Failed to load state history cache:", error);
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(
+        STATE_HISTORY_STORAGE_KEY,
+        JSON.stringify(Array.from(this.cache.values())),
+      );
+    } catch (error) {
+      console.warn("Failed to save state history cache:", error);
+    }
+  }
+}
+
+export const stateHistoryService = new StateHistoryService();
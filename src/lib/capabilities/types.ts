@@ -0,0 +1,111 @@
+import type { NetworkId } from "@/lib/networks";
+
+export type RpcCapability =
+  | "debug_traceTransaction"
+  | "debug_traceTransaction:callTracer"
+  | "debug_traceTransaction:prestateTracer"
+  | "debug_traceTransaction:4byteTracer"
+  | "debug_traceCall"
+  | "debug_traceBlockByNumber"
+  | "debug_storageRangeAt"
+  | "trace_transaction"
+  | "trace_replayTransaction"
+  | "trace_replayBlockTransactions"
+  | "trace_block"
+  | "txpool_status"
+  | "txpool_content"
+  | "txpool_inspect"
+  | "eth_feeHistory"
+  | "eth_createAccessList"
+  | "eth_getProof"
+  | "eth_call:stateOverrides";
+
+export type CapabilityStatus = "supported" | "unsupported" | "unknown";
+
+export interface CapabilityProbeResult {
+  status: CapabilityStatus;
+  detail?: string;
+}
+
+export type CapabilityMatrix = Record<RpcCapability, CapabilityProbeResult>;
+
+export interface CapabilityDefinition {
+  label: string;
+  method: string;
+  description: string;
+}
+
+export interface EndpointCapabilities {
+  url: string;
+  probedAt: number;
+  capabilities: CapabilityMatrix;
+}
+
+export interface NetworkCapabilities {
+  networkId: NetworkId;
+  endpoints: EndpointCapabilities[];
+  // A capability is supported when any endpoint of the network supports it.
+  capabilities: CapabilityMatrix;
+  probedAt: number;
+}
+
+export interface CapabilityRequirement {
+  capability: RpcCapability;
+  // What stops working without the capability, shown to the user.
+  feature: string;
+  // Optional requirements only degrade the page instead of disabling it.
+  optional?: boolean;
+  // Capabilities the tracing strategy can fall back to instead.
+  alternatives?: RpcCapability[];
+}
+
+export interface RequirementCheck {
+  ready: boolean;
+  satisfied: boolean;
+  missing: CapabilityRequirement[];
+  degraded: CapabilityRequirement[];
+  unknown: CapabilityRequirement[];
+}
+
+export type CapabilityPage =
+  | "debugTrace"
+  | "traceTransaction"
+  | "replayTransactions"
+  | "replayBlock"
+  | "debugBlockTrace"
+  | "traceBlock"
+  | "storageAnalysis"
+  | "transactionSimulation"
+  | "comparativeAnalysis"
+  | "networkMonitor"
+  | "tracerWorkbench";
+
+export interface EndpointStateHistory {
+  url: string;
+  isArchive: boolean;
+  // How many blocks behind the head the endpoint still serves state for;
+  // null on archive nodes. Pruned nodes keep a moving window, so the
+  // earliest block is derived from the current head when it is needed.
+  retainedBlocks: number | null;
+  latestBlock: number;
+  probedAt: number;
+}
+
+export interface StateHistoryInfo {
+  networkId: NetworkId;
+  endpoints: EndpointStateHistory[];
+  isArchive: boolean;
+  // Deepest history served by any endpoint of the network.
+  retainedBlocks: number | null;
+  probedAt: number;
+}
+
+export interface StateAvailability {
+  blockNumber: number;
+  available: boolean;
+  latestBlock: number;
+  earliestBlock: number;
+  // Closest block the node can serve, with a margin for the moving window.
+  suggestedBlock: number | null;
+  info: StateHistoryInfo;
+}
@@ -1,4 +1,5 @@
 import { ethers } from "ethers";
+import { abiRegistry } from "./abi";
 
 export const RPC_CONFIG = {
   mainnet: {
@@ -86,6 +87,17 @@ export const EVENT_TOPICS = {
   SWAP_V3: ethers.id(
     "Swap(address,address,int256,int256,uint160,uint128,int24)"
   ),
+
+  // Curve stableswap pools index coins with int128, newer crypto pools
+  // with uint256.
+  TOKEN_EXCHANGE: ethers.id(
+    "TokenExchange(address,int128,uint256,int128,uint256)"
+  ),
+  TOKEN_EXCHANGE_V2: ethers.id(
+    "TokenExchange(address,uint256,uint256,uint256,uint256)"
+  ),
+  // Emitted by the Balancer V2 Vault for every pool.
+  SWAP_BALANCER: ethers.id("Swap(bytes32,address,address,uint256,uint256)"),
 } as const;
 
 export const EVENT_DECODERS = {
@@ -254,7 +266,10 @@ export function getContractName(address: string): string {
 export function getFunctionName(signature: string): string {
   const sig =
     FUNCTION_SIGNATURES[signature as keyof typeof FUNCTION_SIGNATURES];
-  return sig ? sig.name : `Unknown (${signature})`;
+  if (sig) return sig.name;
+  return (
+    abiRegistry.lookupFunction(signature)?.name ?? `Unknown (${signature})`
+  );
 }
 
 export function getFunctionCategory(signature: string): string {
@@ -0,0 +1,66 @@
+import type { TracerPreset, TracerTarget } from "./types";
+
+export const CUSTOM_TRACERS_STORAGE_KEY = "arguschain_custom_tracers";
+
+export const DEFAULT_TRACER_TIMEOUT = "60s";
+
+export const TRACER_TARGET_METHODS: Record<TracerTarget, string> = {
+  transaction: "debug_traceTransaction",
+  call: "debug_traceCall",
+  block: "debug_traceBlockByNumber",
+};
+
+export const TRACER_PRESETS: TracerPreset[] = [
+  {
+    id: "4byteTracer",
+    name: "4byteTracer",
+    description:
+      "Counts calls per selector and calldata size, keyed `selector-size`",
+    tracer: "4byteTracer",
+  },
+  {
+    id: "opcountTracer",
+    name: "opcountTracer",
+    description: "Number of opcodes executed (JavaScript, older Geth)",
+    tracer: "opcountTracer",
+  },
+  {
+    id: "muxTracer",
+    name: "muxTracer",
+    description: "Runs several tracers in one pass; edit the config to choose",
+    tracer: "muxTracer",
+    tracerConfig: { callTracer: { onlyTopCall: false }, "4byteTracer": {} },
+  },
+  {
+    id: "flatCallTracer",
+    name: "flatCallTracer",
+    description: "Call frames as a flat list in Parity's trace format",
+    tracer: "flatCallTracer",
+  },
+];
+
+// Keys Geth requires on a JavaScript tracer object.
+export const REQUIRED_TRACER_METHODS = ["result", "fault"];
+
+export const DEFAULT_TRACER_CODE = `{
+  // Number of times each opcode ran.
+  counts: {},
+
+  step: function (log, db) {
+    var op = log.op.toString();
+    this.counts[op] = (this.counts[op] || 0) + 1;
+  },
+
+  fault: function (log, db) {},
+
+  enter: function (frame) {},
+
+  exit: function (result) {},
+
+  result: function (ctx, db) {
+    return this.counts;
+  }
+}`;
+
+export const MAX_TABLE_ROWS = 500;
+export const MAX_CHART_ENTRIES = 40;
@@ -0,0 +1,198 @@
+import { isAddress } from "ethers";
+import { blockchainService } from "@/lib/blockchainService";
+import {
+  CUSTOM_TRACERS_STORAGE_KEY,
+  DEFAULT_TRACER_TIMEOUT,
+  REQUIRED_TRACER_METHODS,
+  TRACER_PRESETS,
+  TRACER_TARGET_METHODS,
+} from "./constants";
+import type { SavedTracer, TracerRunRequest, TracerRunResult } from "./types";
+
+const createTracerId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Library of user-written JavaScript tracers and the runner that sends a
+ * tracer, saved or built in, to the debug_trace* methods of the node.
+ */
+export class CustomTracerService {
+  private tracers: SavedTracer[] | null = null;
+
+  getTracers(): SavedTracer[] {
+    if (!this.tracers) {
+      try {
+        const stored = localStorage.getItem(CUSTOM_TRACERS_STORAGE_KEY);
+        this.tracers = stored ? JSON.parse(stored) : [];
+      } catch (error) {
+        console.warn("Failed to load custom tracers:", error);
+        this.tracers = [];
+      }
+    }
+    return this.tracers!;
+  }
+
+  /**
+   * Saves a tracer under its name, replacing the one with the same id.
+   */
+  saveTracer(tracer: {
+    id?: string;
+    name: string;
+    code: string;
+    tracerConfig?: string;
+  }): SavedTracer {
+    const name = tracer.name.trim();
+    if (!name) throw new Error("Give the tracer a name before saving it");
+    this.parseConfig(tracer.tracerConfig);
+
+    const tracers = this.getTracers();
+    const existing = tracers.find(
+      (saved) =>
+        saved.id === tracer.id ||
+        (!tracer.id && saved.name.toLowerCase() === name.toLowerCase()),
+    );
+    const now = Date.now();
+    const saved: SavedTracer = {
+      id: existing?.id ?? createTracerId(),
+      name,
+      code: tracer.code,
+      tracerConfig: tracer.tracerConfig?.trim() ?? "",
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this.saveTracers(
+      existing
+        ? tracers.map((item) => (item.id === existing.id ? saved : item))
+        : [...tracers, saved],
+    );
+    return saved;
+  }
+
+  removeTracer(id: string): void {
+    this.saveTracers(this.getTracers().filter((tracer) => tracer.id !== id));
+  }
+
+  /**
+   * Methods Geth requires that the tracer source does not define. This is
+   * a textual check; syntax errors are reported by the node.
+   */
+  getMissingMethods(code: string): string[] {
+    return REQUIRED_TRACER_METHODS.filter(
+      (method) => !new RegExp(`\\b${method}\\s*[:(]`).test(code),
+    );
+  }
+
+  isPreset(tracer: string): boolean {
+    return TRACER_PRESETS.some((preset) => preset.tracer === tracer.trim());
+  }
+
+  /**
+   * Parses the JSON `tracerConfig` text of a tracer; empty means none.
+   */
+  parseConfig(text: string | undefined): Record<string, unknown> | undefined {
+    if (!text?.trim()) return undefined;
+    let config: unknown;
+    try {
+      config = JSON.parse(text);
+    } catch {
+      throw new Error("The tracer config is not valid JSON");
+    }
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      throw new Error("The tracer config must be a JSON object");
+    }
+    return config as Record<string, unknown>;
+  }
+
+  async run(request: TracerRunRequest): Promise<TracerRunResult> {
+    if (!request.tracer.trim()) throw new Error("The tracer is empty");
+    if (!this.isPreset(request.tracer)) {
+      const missing = this.getMissingMethods(request.tracer);
+      if (missing.length > 0) {
+        throw new Error(
+          `The tracer object must define ${missing.join(" and ")}`,
+        );
+      }
+    }
+
+    if (!blockchainService.isConnected()) {
+      await blockchainService.connect();
+    }
+
+    const method = TRACER_TARGET_METHODS[request.target];
+    const config = {
+      tracer: request.tracer.trim(),
+      timeout: request.timeout || DEFAULT_TRACER_TIMEOUT,
+      ...(request.tracerConfig && { tracerConfig: request.tracerConfig }),
+    };
+    const params = await this.buildParams(request, config);
+
+    const started = performance.now();
+    const result = await blockchainService.makeRPCCall<unknown>(method, params);
+    return {
+      target: request.target,
+      method,
+      result,
+      durationMs: Math.round(performance.now() - started),
+      ranAt: Date.now(),
+    };
+  }
+
+  private async buildParams(
+    request: TracerRunRequest,
+    config: Record<string, unknown>,
+  ): Promise<unknown[]> {
+    switch (request.target) {
+      case "transaction": {
+        const txHash = request.txHash?.trim() ?? "";
+        if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+          throw new Error("Enter a 32-byte transaction hash");
+        }
+        return [txHash, config];
+      }
+      case "call": {
+        const call = request.call;
+        if (!call || !isAddress(call.to)) {
+          throw new Error("Enter the address the call is sent to");
+        }
+        if (call.from && !isAddress(call.from)) {
+          throw new Error("The sender is not a valid address");
+        }
+        const blockTag = await blockchainService.resolveBlockIdentifier(
+          request.block?.trim() || "latest",
+        );
+        return [
+          {
+            to: call.to,
+            ...(call.from && { from: call.from }),
+            ...(call.data && { data: call.data }),
+            ...(call.value && { value: call.value }),
+          },
+          blockTag,
+          config,
+        ];
+      }
+      case "block": {
+        if (!request.block?.trim()) throw new Error("Enter a block number");
+        const blockId = await blockchainService.resolveBlockIdentifier(
+          request.block.trim(),
+        );
+        return [blockId, config];
+      }
+    }
+  }
+
+  private saveTracers(tracers: SavedTracer[]) {
+    try {
+      localStorage.setItem(CUSTOM_TRACERS_STORAGE_KEY, JSON.stringify(tracers));
+    } catch (error) {
+      console.warn("Failed to save custom tracers:", error);
+      throw new Error(
+        "Could not save the tracer library. Browser storage may be full.",
+      );
+    }
+    this.tracers = tracers;
+  }
+}
+
+export const customTracerService = new CustomTracerService();
@@ -0,0 +1,8 @@
+export {
+  CustomTracerService,
+  customTracerService,
+} from "./customTracerService";
+export { toResultTable, toChartEntries } from "./tracerResultViews";
+
+export * from "./types";
+export * from "./constants";
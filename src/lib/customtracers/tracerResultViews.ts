@@ -0,0 +1,92 @@
+import { MAX_CHART_ENTRIES, MAX_TABLE_ROWS } from "./constants";
+import type { TracerChartEntry, TracerResultTable } from "./types";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const toCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Rows for a tracer result: one per item of an array, or one per key of
+ * an object. Nested values are shown as JSON.
+ */
+export function toResultTable(result: unknown): TracerResultTable {
+  if (Array.isArray(result)) {
+    const items = result.slice(0, MAX_TABLE_ROWS);
+    if (items.every(isRecord)) {
+      const columns = Array.from(
+        new Set(items.flatMap((item) => Object.keys(item))),
+      );
+      return {
+        columns,
+        rows: items.map((item) =>
+          Object.fromEntries(
+            columns.map((column) => [column, toCell(item[column])]),
+          ),
+        ),
+      };
+    }
+    return {
+      columns: ["index", "value"],
+      rows: items.map((item, index) => ({
+        index: String(index),
+        value: toCell(item),
+      })),
+    };
+  }
+
+  if (isRecord(result)) {
+    return {
+      columns: ["key", "value"],
+      rows: Object.entries(result)
+        .slice(0, MAX_TABLE_ROWS)
+        .map(([key, value]) => ({ key, value: toCell(value) })),
+    };
+  }
+
+  return { columns: ["value"], rows: [{ value: toCell(result) }] };
+}
+
+/**
+ * Numeric entries of a result that maps names to counts, such as opcode
+ * or 4byte counts. Block results are summed across transactions. Null when
+ * the result has no such shape.
+ */
+export function toChartEntries(result: unknown): TracerChartEntry[] | null {
+  const totals = new Map<string, number>();
+
+  const add = (value: unknown): boolean => {
+    if (typeof value === "number") {
+      totals.set("result", (totals.get("result") ?? 0) + value);
+      return true;
+    }
+    if (!isRecord(value)) return false;
+    const entries = Object.entries(value);
+    if (
+      entries.length === 0 ||
+      !entries.every(([, count]) => typeof count === "number")
+    ) {
+      return false;
+    }
+    entries.forEach(([label, count]) =>
+      totals.set(label, (totals.get(label) ?? 0) + (count as number)),
+    );
+    return true;
+  };
+
+  const matched = Array.isArray(result)
+    ? result.length > 0 &&
+      result.every((item) =>
+        add(isRecord(item) && "result" in item ? item.result : item),
+      )
+    : add(result);
+  if (!matched) return null;
+
+  return Array.from(totals, ([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, MAX_CHART_ENTRIES);
+}
@@ -0,0 +1,59 @@
+export type TracerTarget = "transaction" | "call" | "block";
+
+export type TracerResultView = "json" | "table" | "chart";
+
+export interface SavedTracer {
+  id: string;
+  name: string;
+  // JavaScript tracer object, e.g. `{ step(log, db) {...}, result() {...} }`.
+  code: string;
+  // JSON text passed as `tracerConfig`.
+  tracerConfig: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TracerPreset {
+  id: string;
+  name: string;
+  description: string;
+  // Name of a tracer built into the node.
+  tracer: string;
+  tracerConfig?: Record<string, unknown>;
+}
+
+export interface TracerCallRequest {
+  from?: string;
+  to: string;
+  data?: string;
+  value?: string;
+}
+
+export interface TracerRunRequest {
+  target: TracerTarget;
+  // Preset name or JavaScript tracer source.
+  tracer: string;
+  tracerConfig?: Record<string, unknown>;
+  timeout?: string;
+  txHash?: string;
+  call?: TracerCallRequest;
+  block?: string;
+}
+
+export interface TracerRunResult {
+  target: TracerTarget;
+  method: string;
+  result: unknown;
+  durationMs: number;
+  ranAt: number;
+}
+
+export interface TracerResultTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface TracerChartEntry {
+  label: string;
+  value: number;
+}
@@ -1,4 +1,5 @@
 import { blockchainService } from "@/lib/blockchainService";
+import { traceStrategyService } from "@/lib/tracing";
 import {
   BlockInfo,
   DebugBlockError,
@@ -11,7 +12,6 @@ import {
   getBlockIdentifierType,
   isValidBlockTag,
   PERFORMANCE_CONFIG,
-  RPC_METHODS,
 } from "../constants";
 
 export class DebugTraceBlockApi {
@@ -39,11 +39,6 @@ export class DebugTraceBlockApi {
         );
       }
 
-      const provider = blockchainService.getProvider();
-      if (!provider) {
-        throw new Error("Blockchain provider not available");
-      }
-
       const timeoutPromise = new Promise<never>((_, reject) =>
         setTimeout(
           () => reject(new Error("Request timed out")),
@@ -51,9 +46,10 @@ export class DebugTraceBlockApi {
         ),
       );
 
-      const tracePromise = provider.send(
-        RPC_METHODS.DEBUG_TRACE_BLOCK_BY_NUMBER,
-        [formattedBlockNumber, config],
+      // Falls back to trace_block on clients without debug block tracing.
+      const tracePromise = traceStrategyService.traceBlockCalls(
+        formattedBlockNumber,
+        config.tracerConfig,
       );
 
       const result = await Promise.race([tracePromise, timeoutPromise]);
@@ -99,11 +95,6 @@ export class DebugTraceBlockApi {
         );
       }
 
-      const provider = blockchainService.getProvider();
-      if (!provider) {
-        throw new Error("Blockchain provider not available");
-      }
-
       const timeoutPromise = new Promise<never>((_, reject) =>
         setTimeout(
           () => reject(new Error("Request timed out")),
@@ -111,9 +102,9 @@ export class DebugTraceBlockApi {
         ),
       );
 
-      const tracePromise = provider.send(
-        RPC_METHODS.DEBUG_TRACE_BLOCK_BY_HASH,
-        [blockHash, config],
+      const tracePromise = traceStrategyService.traceBlockCalls(
+        blockHash,
+        config.tracerConfig,
       );
 
       const result = await Promise.race([tracePromise, timeoutPromise]);
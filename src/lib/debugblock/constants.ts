@@ -167,7 +167,6 @@ export const PERFORMANCE_CONFIG = {
 };
 
 export const NETWORK_CONFIG = {
-  SUPPORTED_NETWORKS: ["mainnet", "sepolia"],
   DEFAULT_NETWORK: "mainnet",
 
   LARGE_BLOCK_THRESHOLD: 200,
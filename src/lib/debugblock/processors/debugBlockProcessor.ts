@@ -130,6 +130,7 @@ export class DebugBlockProcessor {
     let interactedWithPyusd = false;
     let pyusdFunction: string | undefined;
     let pyusdFunctionCategory = "other";
+    let methodId: string | undefined;
     let isPyusdTransfer = false;
     let isPyusdMint = false;
     let isPyusdBurn = false;
@@ -148,6 +149,7 @@ export class DebugBlockProcessor {
 
         gasUsed = this.parseHexToInt(gasUsedHex);
         valueEthStr = this.formatEthValue(valueWeiHex);
+        if (inputData.length >= 10) methodId = inputData.slice(0, 10);
 
         interactedWithPyusd = toAddr !== "N/A" && isPyusdContract(toAddr);
 
@@ -211,6 +213,7 @@ export class DebugBlockProcessor {
       pyusd_interaction: interactedWithPyusd,
       pyusd_function: pyusdFunction,
       pyusd_function_category: pyusdFunctionCategory,
+      method_id: methodId,
       is_pyusd_transfer: isPyusdTransfer,
       is_pyusd_mint: isPyusdMint,
       is_pyusd_burn: isPyusdBurn,
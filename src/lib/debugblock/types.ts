@@ -78,6 +78,8 @@ export interface BlockTransactionSummary {
   pyusd_interaction: boolean;
   pyusd_function?: string;
   pyusd_function_category: string;
+  // 4-byte selector of the top-level call, when there is calldata.
+  method_id?: string;
   is_pyusd_transfer: boolean;
   is_pyusd_mint: boolean;
   is_pyusd_burn: boolean;
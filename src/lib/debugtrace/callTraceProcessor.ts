@@ -125,7 +125,7 @@ export class CallTraceProcessor {
         parentId: call.parent_id,
         contractAddress: call.to,
         contractName: call.contract || "Unknown",
-        functionName: call.input_preview || call.type,
+        functionName: call.function_name || call.input_preview || call.type,
         gasUsed: call.gasUsed,
         value: call.value_eth,
         success: !call.error,
@@ -0,0 +1,22 @@
+// Steps posted to the structLog worker per message.
+export const STRUCTLOG_INPUT_CHUNK_SIZE = 5000;
+
+// Parsed steps and per-step chart rows posted back per message.
+export const STRUCTLOG_RESULT_CHUNK_SIZE = 10000;
+
+// Windowed debug sessions load stack, memory and storage for this many
+// steps on each side of the viewed step.
+export const STEP_DETAILS_RADIUS = 250;
+
+// Windowed sessions whose details the worker keeps; older ones are dropped.
+export const MAX_WINDOWED_SESSIONS = 3;
+
+// Proxy slots defined by EIP-1967, which any contract may use.
+export const KNOWN_STORAGE_SLOTS: Record<string, string> = {
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc":
+    "EIP-1967 implementation",
+  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103":
+    "EIP-1967 admin",
+  "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50":
+    "EIP-1967 beacon",
+};
@@ -108,6 +108,19 @@ export class ExportUtils {
     }
   }
 
+  static exportDataAsText(
+    content: string,
+    filename: string = "trace",
+    extension: string = "txt"
+  ): void {
+    try {
+      this.downloadFile(content, `${filename}.${extension}`, "text/plain");
+    } catch (error) {
+      console.error("Text export failed:", error);
+      throw new Error("Failed to export data as text");
+    }
+  }
+
   static exportStructLogData(
     structLog: StructLogAnalysis,
     processedData: ProcessedStructLogData,
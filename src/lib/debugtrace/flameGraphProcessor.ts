@@ -0,0 +1,265 @@
+import { shortenAddress } from "@/lib/config";
+import type {
+  CallTraceData,
+  TransactionAnalysis,
+} from "@/lib/transactionTracer";
+import type {
+  DebugSession,
+  FlameNode,
+  SpeedscopeFile,
+  SpeedscopeFrame,
+} from "./types";
+
+const SPEEDSCOPE_SCHEMA = "https://www.speedscope.app/file-format-schema.json";
+
+const contractLabel = (name: string | undefined, address: string | null) => {
+  if (name && name !== "Unknown Contract") return name;
+  return address ? shortenAddress(address) : "unknown";
+};
+
+const callLabel = (call: CallTraceData) => {
+  const selector = call.input_preview.replace(/\.+$/, "");
+  const fn =
+    call.function_name || (selector.length >= 10 ? selector : call.type);
+  return `${contractLabel(call.contract, call.to)}.${fn}`;
+};
+
+const sumChildren = (node: FlameNode) =>
+  node.children.reduce((sum, child) => sum + child.totalGas, 0);
+
+/**
+ * Flame graph trees of a transaction's gas: one built from the call trace
+ * with a frame per call, and one built from structLogs that splits every
+ * frame's own gas by opcode.
+ */
+export class FlameGraphProcessor {
+  /**
+   * Calls sized by the gas the node reports for them, which includes their
+   * subcalls; self gas is what is left after the children.
+   */
+  static fromCallTrace(callTrace: TransactionAnalysis): FlameNode | null {
+    const nodes = new Map<string, FlameNode>();
+    const roots: FlameNode[] = [];
+
+    callTrace.call_data.forEach((call) => {
+      nodes.set(call.id, {
+        id: call.id,
+        name: callLabel(call),
+        kind: "call",
+        address: call.to,
+        totalGas: call.gasUsed,
+        selfGas: 0,
+        failed: !!call.error,
+        children: [],
+      });
+    });
+
+    callTrace.call_data.forEach((call) => {
+      const node = nodes.get(call.id)!;
+      const parent = call.parent_id ? nodes.get(call.parent_id) : undefined;
+      if (parent) parent.children.push(node);
+      else roots.push(node);
+    });
+
+    nodes.forEach((node) => {
+      node.selfGas = Math.max(0, node.totalGas - sumChildren(node));
+    });
+
+    if (roots.length <= 1) return roots[0] ?? null;
+    const totalGas = roots.reduce((sum, root) => sum + root.totalGas, 0);
+    return {
+      id: "transaction",
+      name: "Transaction",
+      kind: "call",
+      totalGas,
+      selfGas: 0,
+      failed: roots.some((root) => root.failed),
+      children: roots,
+    };
+  }
+
+  /**
+   * Frames rebuilt from structLog depth changes, each with its own gas
+   * split into one leaf per opcode. A CALL is charged only what the caller
+   * paid on top of the callee's gas, so forwarded gas is not counted
+   * twice. Intrinsic gas and refunds are not part of the steps.
+   */
+  static fromStructLogs(
+    session: DebugSession,
+    callTrace?: TransactionAnalysis,
+  ): FlameNode | null {
+    const { steps, frames, stepFrames } = session;
+    if (steps.length === 0) return null;
+
+    const childByCaller = new Map<number, number>();
+    const subcallIds: number[][] = frames.map(() => []);
+    frames.forEach((frame) => {
+      if (frame.callerStep !== null) {
+        childByCaller.set(frame.callerStep, frame.id);
+      }
+      if (frame.parentId !== null) subcallIds[frame.parentId].push(frame.id);
+    });
+
+    // Cost of every step that does not enter a child frame; call steps are
+    // settled once their child's total is known.
+    const stepCosts = new Array<number>(steps.length).fill(0);
+    const callSteps: number[][] = frames.map(() => []);
+    steps.forEach((step, i) => {
+      const next = steps[i + 1];
+      if (childByCaller.has(i)) {
+        callSteps[stepFrames[i]].push(i);
+      } else if (next && next.depth === step.depth) {
+        stepCosts[i] = Math.max(0, step.gas - next.gas);
+      } else {
+        stepCosts[i] = step.gasCost;
+      }
+    });
+
+    const opcodeGas = frames.map(() => new Map<string, number>());
+    steps.forEach((step, i) => {
+      if (childByCaller.has(i)) return;
+      const gas = opcodeGas[stepFrames[i]];
+      gas.set(step.op, (gas.get(step.op) ?? 0) + stepCosts[i]);
+    });
+
+    const labels = this.matchFrameLabels(session, callTrace);
+    const nodes: FlameNode[] = frames.map((frame) => ({
+      id: `frame-${frame.id}`,
+      name:
+        labels[frame.id] ??
+        `${contractLabel(undefined, frame.codeAddress)} (${frame.kind})`,
+      kind: "call",
+      address: frame.codeAddress ?? undefined,
+      totalGas: 0,
+      selfGas: 0,
+      failed: false,
+      children: [],
+    }));
+
+    // Children always have higher ids than their parents.
+    for (let id = frames.length - 1; id >= 0; id--) {
+      const gas = opcodeGas[id];
+      callSteps[id].forEach((i) => {
+        const child = frames[childByCaller.get(i)!];
+        const returnStep = steps[child.endStep + 1];
+        const childGas = nodes[child.id].totalGas;
+        const cost = returnStep
+          ? steps[i].gas - returnStep.gas - childGas
+          : steps[i].gasCost - childGas;
+        stepCosts[i] = Math.max(0, cost);
+        gas.set(steps[i].op, (gas.get(steps[i].op) ?? 0) + stepCosts[i]);
+      });
+
+      const node = nodes[id];
+      const subcalls = subcallIds[id].map((childId) => nodes[childId]);
+      const leaves = Array.from(gas.entries())
+        .filter(([, cost]) => cost > 0)
+        .sort((a, b) => b[1] - a[1])
+        .map(
+          ([op, cost]): FlameNode => ({
+            id: `${node.id}-${op}`,
+            name: op,
+            kind: "opcode",
+            totalGas: cost,
+            selfGas: cost,
+            failed: false,
+            children: [],
+          }),
+        );
+
+      node.children = [...subcalls, ...leaves];
+      node.selfGas = leaves.reduce((sum, leaf) => sum + leaf.totalGas, 0);
+      node.totalGas = sumChildren(node);
+      const last = steps[frames[id].endStep];
+      node.failed = last?.op === "REVERT" || !!last?.error;
+    }
+
+    return nodes[0];
+  }
+
+  /**
+   * Profile in speedscope's file format. Every node's self gas becomes one
+   * weighted sample of its stack, so speedscope's left-heavy view merges
+   * repeated calls to the same function.
+   */
+  static toSpeedscope(root: FlameNode, name: string): SpeedscopeFile {
+    const frames: SpeedscopeFrame[] = [];
+    const frameIndex = new Map<string, number>();
+    const samples: number[][] = [];
+    const weights: number[] = [];
+
+    const indexOf = (node: FlameNode) => {
+      const key = `${node.name}\u0000${node.address ?? ""}`;
+      let index = frameIndex.get(key);
+      if (index === undefined) {
+        index = frames.length;
+        frames.push(
+          node.address
+            ? { name: node.name, file: node.address }
+            : { name: node.name },
+        );
+        frameIndex.set(key, index);
+      }
+      return index;
+    };
+
+    const walk = (node: FlameNode, stack: number[]) => {
+      const current = [...stack, indexOf(node)];
+      const uncovered = node.totalGas - sumChildren(node);
+      if (uncovered > 0) {
+        samples.push(current);
+        weights.push(uncovered);
+      }
+      node.children.forEach((child) => walk(child, current));
+    };
+    walk(root, []);
+
+    return {
+      $schema: SPEEDSCOPE_SCHEMA,
+      name,
+      exporter: "arguschain",
+      activeProfileIndex: 0,
+      shared: { frames },
+      profiles: [
+        {
+          type: "sampled",
+          name,
+          unit: "none",
+          startValue: 0,
+          endValue: weights.reduce((sum, weight) => sum + weight, 0),
+          samples,
+          weights,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Call trace labels for structLog frames. Both list frames in execution
+   * order, but the call trace also has calls that run no code (precompiles,
+   * plain transfers), so frames are paired with the next call to the same
+   * address.
+   */
+  static matchFrameLabels(
+    session: DebugSession,
+    callTrace?: TransactionAnalysis,
+  ): (string | undefined)[] {
+    const calls = callTrace?.call_data ?? [];
+    const labels: (string | undefined)[] = [];
+    let cursor = 0;
+
+    session.frames.forEach((frame) => {
+      const address = frame.codeAddress?.toLowerCase();
+      if (!address) return;
+      for (let i = cursor; i < calls.length; i++) {
+        if (calls[i].to?.toLowerCase() === address) {
+          labels[frame.id] = callLabel(calls[i]);
+          cursor = i + 1;
+          return;
+        }
+      }
+    });
+
+    return labels;
+  }
+}
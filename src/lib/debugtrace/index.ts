@@ -9,3 +9,14 @@ export { UnifiedGasProcessor } from "./unifiedGasProcessor";
 export { ExportUtils } from "./exportUtils";
 
 export { DataValidator } from "./dataValidator";
+
+export { StepDebugger } from "./stepDebugger";
+
+export { FlameGraphProcessor } from "./flameGraphProcessor";
+
+export { TraceExporter } from "./traceExporter";
+
+export { StorageAccessProcessor } from "./storageAccessProcessor";
+
+export * from "./constants";
+export { StructLogPipeline, structLogPipeline } from "./structLogPipeline";
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { StructLogStep } from "@/lib/tracing";
+import { StepDebugger } from "./stepDebugger";
+import type { DebugBreakpoint } from "./types";
+
+const ROOT = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const CALLEE = "0xcccccccccccccccccccccccccccccccccccccccc";
+const LIBRARY = "0xdddddddddddddddddddddddddddddddddddddddd";
+
+const step = (
+  pc: number,
+  op: string,
+  depth: number,
+  stack: string[] = [],
+): StructLogStep => ({ pc, op, depth, gas: 100000, gasCost: 3, stack });
+
+// Root calls CALLEE, which writes slot 5, then delegates to LIBRARY.
+const session = StepDebugger.buildSession(
+  "0x01",
+  {
+    gas: 50000,
+    failed: false,
+    returnValue: "",
+    structLogs: [
+      step(0, "PUSH1", 1),
+      step(2, "CALL", 1, ["0x0", "0x0", CALLEE, "0xffff"]),
+      step(0, "PUSH1", 2),
+      step(2, "SSTORE", 2, ["0x2a", "0x5"]),
+      step(3, "RETURN", 2),
+      step(3, "ISZERO", 1),
+      step(4, "DELEGATECALL", 1, ["0x0", LIBRARY, "0xffff"]),
+      step(0, "STOP", 2),
+      step(5, "STOP", 1),
+    ],
+  },
+  ROOT,
+);
+
+const breakpoint = (
+  kind: DebugBreakpoint["kind"],
+  value: string,
+  enabled = true,
+): DebugBreakpoint => ({ id: `${kind}-${value}`, kind, value, enabled });
+
+describe("StepDebugger.buildSession", () => {
+  it("rebuilds call frames from depth changes", () => {
+    expect(session.frames).toMatchObject([
+      {
+        kind: "ROOT",
+        codeAddress: ROOT,
+        storageAddress: ROOT,
+        startStep: 0,
+        endStep: 8,
+      },
+      {
+        kind: "CALL",
+        codeAddress: CALLEE,
+        storageAddress: CALLEE,
+        startStep: 2,
+        endStep: 4,
+      },
+      {
+        kind: "DELEGATECALL",
+        codeAddress: LIBRARY,
+        storageAddress: ROOT,
+        startStep: 7,
+        endStep: 7,
+      },
+    ]);
+    expect(session.stepFrames).toEqual([0, 0, 1, 1, 1, 0, 0, 2, 0]);
+    expect(
+      StepDebugger.getCallStack(session, 3).map((frame) => frame.id),
+    ).toEqual([0, 1]);
+  });
+});
+
+describe("StepDebugger navigation", () => {
+  it("steps into calls and stops at the last step", () => {
+    expect(StepDebugger.stepInto(session, 1)).toBe(2);
+    expect(StepDebugger.stepInto(session, 8)).toBe(8);
+    expect(StepDebugger.stepBack(session, 0)).toBe(0);
+  });
+
+  it("steps over calls in both directions", () => {
+    expect(StepDebugger.stepOver(session, 1)).toBe(5);
+    expect(StepDebugger.stepOver(session, 6)).toBe(8);
+    expect(StepDebugger.stepOver(session, 3)).toBe(4);
+    expect(StepDebugger.stepOverBack(session, 5)).toBe(1);
+  });
+
+  it("steps out to the caller's next step", () => {
+    expect(StepDebugger.stepOut(session, 3)).toBe(5);
+    expect(StepDebugger.stepOut(session, 7)).toBe(8);
+    expect(StepDebugger.stepOut(session, 5)).toBe(8);
+  });
+});
+
+describe("StepDebugger.findBreakpoint", () => {
+  it("finds the next matching step in either direction", () => {
+    expect(
+      StepDebugger.findBreakpoint(session, 0, [breakpoint("opcode", "sstore")]),
+    ).toBe(3);
+    expect(
+      StepDebugger.findBreakpoint(session, 8, [breakpoint("sstore", "5")], -1),
+    ).toBe(3);
+    expect(
+      StepDebugger.findBreakpoint(session, 0, [breakpoint("pc", "0x4")]),
+    ).toBe(6);
+  });
+
+  it("matches frames by code or storage address", () => {
+    expect(
+      StepDebugger.findBreakpoint(session, 0, [breakpoint("address", LIBRARY)]),
+    ).toBe(7);
+    expect(
+      StepDebugger.findBreakpoint(session, 4, [
+        breakpoint("address", ROOT.toUpperCase().replace("0X", "0x")),
+      ]),
+    ).toBe(5);
+  });
+
+  it("ignores disabled breakpoints and the current step", () => {
+    expect(
+      StepDebugger.findBreakpoint(session, 0, [
+        breakpoint("opcode", "SSTORE", false),
+      ]),
+    ).toBeNull();
+    expect(
+      StepDebugger.findBreakpoint(session, 3, [breakpoint("opcode", "SSTORE")]),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,306 @@
+import type { StructLogStep, StructLogTrace } from "@/lib/tracing";
+import type {
+  BreakpointKind,
+  DebugBreakpoint,
+  DebugCallFrame,
+  DebugFrameKind,
+  DebugSession,
+  MemoryRow,
+} from "./types";
+
+const CALL_OPCODES = ["CALL", "CALLCODE", "DELEGATECALL", "STATICCALL"];
+const CREATE_OPCODES = ["CREATE", "CREATE2"];
+const MEMORY_ROW_WORDS = 2;
+
+const stripHex = (value: string) =>
+  value.startsWith("0x") || value.startsWith("0X") ? value.slice(2) : value;
+
+// Stack items are hex words, with or without a 0x prefix depending on the
+// client; the stack array lists the bottom item first.
+const stackItem = (step: StructLogStep, fromTop: number): string | null => {
+  const stack = step.stack;
+  if (!stack || stack.length <= fromTop) return null;
+  return stack[stack.length - 1 - fromTop];
+};
+
+const toAddress = (word: string | null): string | null => {
+  if (!word) return null;
+  const address = `0x${stripHex(word).padStart(40, "0").slice(-40)}`;
+  return /^0x0{40}$/.test(address) ? null : address.toLowerCase();
+};
+
+// User input: decimal, or hex with or without 0x.
+const toWord = (value: string): bigint | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    return BigInt(/^\d+$/.test(trimmed) ? trimmed : `0x${stripHex(trimmed)}`);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Step debugger over a structLog trace: rebuilds call frames from depth
+ * changes and answers navigation and breakpoint queries by step index.
+ */
+export class StepDebugger {
+  static buildSession(
+    txHash: string,
+    trace: StructLogTrace,
+    rootAddress: string | null = null,
+    isCreation = false,
+  ): DebugSession {
+    const steps = trace.structLogs;
+    const root = rootAddress?.toLowerCase() ?? null;
+    const frames: DebugCallFrame[] = [
+      {
+        id: 0,
+        parentId: null,
+        kind: isCreation ? "CREATE" : "ROOT",
+        depth: steps[0]?.depth ?? 1,
+        codeAddress: root,
+        storageAddress: root,
+        callerStep: null,
+        startStep: 0,
+        endStep: Math.max(0, steps.length - 1),
+      },
+    ];
+    const stepFrames: number[] = new Array(steps.length);
+    const open: DebugCallFrame[] = [frames[0]];
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const previous = i > 0 ? steps[i - 1] : null;
+
+      if (previous && step.depth > previous.depth) {
+        const parent = open[open.length - 1];
+        const kind = (
+          [...CALL_OPCODES, ...CREATE_OPCODES].includes(previous.op)
+            ? previous.op
+            : "CALL"
+        ) as DebugFrameKind;
+        const target = CALL_OPCODES.includes(kind)
+          ? toAddress(stackItem(previous, 1))
+          : null;
+        const keepsStorage = kind === "DELEGATECALL" || kind === "CALLCODE";
+
+        const frame: DebugCallFrame = {
+          id: frames.length,
+          parentId: parent.id,
+          kind,
+          depth: step.depth,
+          codeAddress: target,
+          storageAddress: keepsStorage ? parent.storageAddress : target,
+          callerStep: i - 1,
+          startStep: i,
+          endStep: steps.length - 1,
+        };
+        frames.push(frame);
+        open.push(frame);
+      } else if (previous && step.depth < previous.depth) {
+        while (open.length > 1 && open[open.length - 1].depth > step.depth) {
+          const frame = open.pop()!;
+          frame.endStep = i - 1;
+          // CREATE leaves the new contract's address on the caller's stack.
+          if (CREATE_OPCODES.includes(frame.kind)) {
+            frame.codeAddress = toAddress(stackItem(step, 0));
+            frame.storageAddress = frame.codeAddress;
+          }
+        }
+      }
+
+      stepFrames[i] = open[open.length - 1].id;
+    }
+
+    return {
+      txHash,
+      steps,
+      frames,
+      stepFrames,
+      gas: trace.gas,
+      failed: trace.failed,
+      returnValue: trace.returnValue,
+      hasMemory: steps.some((step) => step.memory !== undefined),
+      hasStorage: steps.some((step) => step.storage !== undefined),
+    };
+  }
+
+  static getFrame(session: DebugSession, step: number): DebugCallFrame {
+    return session.frames[session.stepFrames[step] ?? 0];
+  }
+
+  /**
+   * Frames enclosing a step, outermost first.
+   */
+  static getCallStack(session: DebugSession, step: number): DebugCallFrame[] {
+    const stack: DebugCallFrame[] = [];
+    let frame: DebugCallFrame | undefined = this.getFrame(session, step);
+    while (frame) {
+      stack.unshift(frame);
+      frame =
+        frame.parentId === null ? undefined : session.frames[frame.parentId];
+    }
+    return stack;
+  }
+
+  static stepInto(session: DebugSession, step: number): number {
+    return Math.min(step + 1, session.steps.length - 1);
+  }
+
+  static stepBack(_session: DebugSession, step: number): number {
+    return Math.max(step - 1, 0);
+  }
+
+  /**
+   * Next step in the same frame, running any call made by this step to
+   * completion.
+   */
+  static stepOver(session: DebugSession, step: number): number {
+    const { steps } = session;
+    const depth = steps[step].depth;
+    for (let i = step + 1; i < steps.length; i++) {
+      if (steps[i].depth <= depth) return i;
+    }
+    return steps.length - 1;
+  }
+
+  static stepOverBack(session: DebugSession, step: number): number {
+    const { steps } = session;
+    const depth = steps[step].depth;
+    for (let i = step - 1; i >= 0; i--) {
+      if (steps[i].depth <= depth) return i;
+    }
+    return 0;
+  }
+
+  /**
+   * First step back in the calling frame after the current frame returns.
+   */
+  static stepOut(session: DebugSession, step: number): number {
+    const frame = this.getFrame(session, step);
+    return Math.min(frame.endStep + 1, session.steps.length - 1);
+  }
+
+  static findBreakpoint(
+    session: DebugSession,
+    from: number,
+    breakpoints: DebugBreakpoint[],
+    direction: 1 | -1 = 1,
+  ): number | null {
+    const active = breakpoints.filter((breakpoint) => breakpoint.enabled);
+    if (active.length === 0) return null;
+
+    for (
+      let i = from + direction;
+      i >= 0 && i < session.steps.length;
+      i += direction
+    ) {
+      if (active.some((breakpoint) => this.matches(session, i, breakpoint))) {
+        return i;
+      }
+    }
+    return null;
+  }
+
+  static matches(
+    session: DebugSession,
+    step: number,
+    breakpoint: DebugBreakpoint,
+  ): boolean {
+    const entry = session.steps[step];
+    const value = breakpoint.value.trim();
+
+    switch (breakpoint.kind) {
+      case "opcode":
+        return entry.op === value.toUpperCase();
+      case "pc":
+        return entry.pc === Number(toWord(value));
+      case "depth":
+        return entry.depth === Number(value);
+      case "address": {
+        const frame = this.getFrame(session, step);
+        const address = value.toLowerCase();
+        return (
+          frame.codeAddress === address || frame.storageAddress === address
+        );
+      }
+      case "sstore": {
+        if (entry.op !== "SSTORE") return false;
+        const slot = stackItem(entry, 0);
+        return slot !== null && BigInt(`0x${stripHex(slot)}`) === toWord(value);
+      }
+    }
+  }
+
+  /**
+   * Why a breakpoint value cannot be used, or null when it is valid.
+   */
+  static validateBreakpoint(
+    kind: BreakpointKind,
+    value: string,
+  ): string | null {
+    const trimmed = value.trim();
+    if (!trimmed) return "Enter a value";
+
+    switch (kind) {
+      case "opcode":
+        return /^[A-Za-z]+[0-9]*$/.test(trimmed)
+          ? null
+          : "Opcodes are names such as SSTORE or PUSH1";
+      case "pc":
+        return toWord(trimmed) === null
+          ? "Program counters are decimal or hex numbers"
+          : null;
+      case "depth":
+        return /^\d+$/.test(trimmed) ? null : "Depth is a whole number";
+      case "address":
+        return /^0x[0-9a-fA-F]{40}$/.test(trimmed)
+          ? null
+          : "Addresses are 0x followed by 40 hex characters";
+      case "sstore":
+        return toWord(trimmed) === null
+          ? "Slots are decimal or hex numbers"
+          : null;
+    }
+  }
+
+  static describeBreakpoint(breakpoint: DebugBreakpoint): string {
+    const value = breakpoint.value.trim();
+    switch (breakpoint.kind) {
+      case "opcode":
+        return `opcode ${value.toUpperCase()}`;
+      case "pc":
+        return `pc ${value}`;
+      case "depth":
+        return `depth ${value}`;
+      case "address":
+        return `in ${value}`;
+      case "sstore":
+        return `SSTORE to slot ${value}`;
+    }
+  }
+
+  /**
+   * Memory at a step as rows of 32-byte words with an ASCII column.
+   */
+  static formatMemory(memory: string[] | undefined): MemoryRow[] {
+    if (!memory) return [];
+
+    const words = memory.map((word) => stripHex(word).padStart(64, "0"));
+    const rows: MemoryRow[] = [];
+    for (let i = 0; i < words.length; i += MEMORY_ROW_WORDS) {
+      const rowWords = words.slice(i, i + MEMORY_ROW_WORDS);
+      const ascii = rowWords
+        .join("")
+        .match(/.{2}/g)!
+        .map((byte) => {
+          const code = parseInt(byte, 16);
+          return code >= 32 && code < 127 ? String.fromCharCode(code) : ".";
+        })
+        .join("");
+      rows.push({ offset: i * 32, words: rowWords, ascii });
+    }
+    return rows;
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { StructLogStep } from "@/lib/tracing";
+import { StepDebugger } from "./stepDebugger";
+import { StorageAccessProcessor } from "./storageAccessProcessor";
+
+const ROOT = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const CALLEE = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+const word = (value: number) => `0x${value.toString(16).padStart(64, "0")}`;
+
+const step = (
+  op: string,
+  depth: number,
+  gasCost: number,
+  stack: string[] = [],
+  refund = 0,
+): StructLogStep => ({ pc: 0, op, depth, gas: 100000, gasCost, stack, refund });
+
+// Root reads and rewrites slot 1, then calls CALLEE, which sets slot 2 and
+// reverts, and reads slot 1 again.
+const timeline = StorageAccessProcessor.buildTimeline(
+  StepDebugger.buildSession(
+    "0x01",
+    {
+      gas: 80000,
+      failed: false,
+      returnValue: "",
+      structLogs: [
+        step("SLOAD", 1, 2100, ["0x1"]),
+        step("PUSH1", 1, 3, ["0x7"]),
+        step("SSTORE", 1, 2900, ["0x7", "0x9", "0x1"]),
+        step("CALL", 1, 100, ["0x0", "0x0", CALLEE, "0xffff"]),
+        step("SSTORE", 2, 22100, ["0x3", "0x2"]),
+        step("REVERT", 2, 0),
+        step("SLOAD", 1, 100, ["0x0", "0x1"]),
+        step("STOP", 1, 0, ["0x0", "0x9"], 4800),
+      ],
+    },
+    ROOT,
+  ),
+);
+
+describe("StorageAccessProcessor.buildTimeline", () => {
+  it("lists reads and writes with the frame's storage address", () => {
+    expect(
+      timeline.accesses.map(({ step, kind, contract, slot }) => [
+        step,
+        kind,
+        contract,
+        slot,
+      ]),
+    ).toEqual([
+      [0, "SLOAD", ROOT, word(1)],
+      [2, "SSTORE", ROOT, word(1)],
+      [4, "SSTORE", CALLEE, word(2)],
+      [6, "SLOAD", ROOT, word(1)],
+    ]);
+  });
+
+  it("reads loaded values from the next step's stack", () => {
+    const [read, write, , reread] = timeline.accesses;
+
+    expect(read).toMatchObject({ value: word(7), previousValue: word(7) });
+    expect(write).toMatchObject({
+      value: word(9),
+      previousValue: word(7),
+      originalValue: word(7),
+    });
+    expect(reread.value).toBe(word(9));
+  });
+
+  it("tells cold from warm accesses by their gas cost", () => {
+    expect(timeline.accesses.map((access) => access.cold)).toEqual([
+      true,
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it("undoes the writes of reverted frames in the final values", () => {
+    const reverted = timeline.accesses[2];
+
+    expect(reverted).toMatchObject({
+      reverted: true,
+      value: word(3),
+      // A cold SSTORE costing 22100 sets a slot that was zero.
+      originalValue: word(0),
+    });
+    expect(timeline.slots).toMatchObject([
+      { contract: ROOT, reads: 2, writes: 1, finalValue: word(9) },
+      { contract: CALLEE, reads: 0, writes: 1, finalValue: word(0) },
+    ]);
+    expect(timeline.refund).toBe(4800);
+  });
+});
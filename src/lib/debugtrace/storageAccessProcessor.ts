@@ -0,0 +1,197 @@
+import { StorageSlotInterpreter } from "@/lib/replaytransactions/utils/storageSlotInterpreter";
+import type { StructLogStep } from "@/lib/tracing";
+import { KNOWN_STORAGE_SLOTS } from "./constants";
+import type {
+  DebugSession,
+  StorageAccess,
+  StorageSlotSummary,
+  StorageTimeline,
+} from "./types";
+
+// EIP-2929 costs: a cold SLOAD pays 2100 instead of 100, and a cold SSTORE
+// pays 2100 on top of its EIP-2200 cost.
+const COLD_SLOAD_COST = 2100;
+const WARM_STORAGE_READ_COST = 100;
+const WARM_SSTORE_COSTS = [20000, 2900, 100];
+const COLD_SSTORE_COSTS = WARM_SSTORE_COSTS.map((cost) => cost + 2100);
+// Only paid when the slot is zero both now and at the start of the
+// transaction.
+const SSTORE_SET_COST = 20000;
+
+const ZERO_WORD = `0x${"0".repeat(64)}`;
+
+const toWord = (value: string) =>
+  `0x${value.replace(/^0x/i, "").toLowerCase().padStart(64, "0")}`;
+
+const stackTop = (step: StructLogStep | undefined, offset = 0) => {
+  const stack = step?.stack;
+  return stack && stack.length > offset
+    ? toWord(stack[stack.length - 1 - offset])
+    : null;
+};
+
+// Geth keys storage by unprefixed words; other clients prefix them.
+const storageValue = (step: StructLogStep, slot: string) => {
+  const value =
+    step.storage?.[slot.slice(2)] ?? step.storage?.[slot] ?? undefined;
+  return value !== undefined ? toWord(value) : null;
+};
+
+/**
+ * Every SLOAD and SSTORE of a transaction in execution order, read from
+ * the structLog stack and storage. Unlike a storage range at a block, this
+ * shows the reads, the intermediate values and which frame touched what.
+ */
+export class StorageAccessProcessor {
+  static buildTimeline(session: DebugSession): StorageTimeline {
+    const { steps, frames, stepFrames } = session;
+
+    const reverted: boolean[] = [];
+    frames.forEach((frame) => {
+      const last = steps[frame.endStep];
+      reverted[frame.id] =
+        last?.op === "REVERT" ||
+        !!last?.error ||
+        (frame.parentId !== null && reverted[frame.parentId]);
+    });
+
+    const accesses: StorageAccess[] = [];
+    const slots = new Map<string, StorageSlotSummary>();
+    const current = new Map<string, string | null>();
+    const seen = new Set<string>();
+    // Writes of each open frame, undone if the frame reverts.
+    const journals: { key: string; previous: string | null }[][] = frames.map(
+      () => [],
+    );
+
+    steps.forEach((step, i) => {
+      const frameId = stepFrames[i];
+      const frame = frames[frameId];
+
+      if (step.op === "SLOAD" || step.op === "SSTORE") {
+        const slot = stackTop(step);
+        if (slot) {
+          const contract = frame.storageAddress;
+          const key = `${contract?.toLowerCase()}:${slot}`;
+          const isWrite = step.op === "SSTORE";
+          const next = steps[i + 1];
+
+          const value = isWrite
+            ? stackTop(step, 1)
+            : (storageValue(step, slot) ??
+              (next?.depth === step.depth ? stackTop(next) : null));
+
+          const firstAccess = !seen.has(key);
+          seen.add(key);
+          const cold = isWrite
+            ? COLD_SSTORE_COSTS.includes(step.gasCost) ||
+              (!WARM_SSTORE_COSTS.includes(step.gasCost) && firstAccess)
+            : step.gasCost === COLD_SLOAD_COST ||
+              (step.gasCost !== WARM_STORAGE_READ_COST && firstAccess);
+
+          let summary = slots.get(key);
+          if (!summary) {
+            const setsZero =
+              isWrite &&
+              step.gasCost - (cold ? COLD_SLOAD_COST : 0) === SSTORE_SET_COST;
+            summary = {
+              contract,
+              slot,
+              originalValue: isWrite ? (setsZero ? ZERO_WORD : null) : value,
+              finalValue: null,
+              reads: 0,
+              writes: 0,
+            };
+            slots.set(key, summary);
+            if (summary.originalValue !== null) {
+              current.set(key, summary.originalValue);
+            }
+          }
+
+          const previousValue = current.get(key) ?? null;
+          if (isWrite) {
+            summary.writes++;
+            journals[frameId].push({ key, previous: previousValue });
+          } else {
+            summary.reads++;
+          }
+          current.set(key, value);
+
+          const label = this.labelSlot(contract, slot, value);
+          if (label && !summary.label) summary.label = label.label;
+
+          accesses.push({
+            step: i,
+            frameId,
+            kind: isWrite ? "SSTORE" : "SLOAD",
+            contract,
+            slot,
+            value,
+            previousValue,
+            originalValue: summary.originalValue,
+            cold,
+            gasCost: step.gasCost,
+            refund: next ? (next.refund ?? 0) - (step.refund ?? 0) : 0,
+            reverted: reverted[frameId],
+            label: label?.label,
+            formattedValue: label?.formattedValue,
+          });
+        }
+      }
+
+      if (i === frame.endStep) {
+        const journal = journals[frameId];
+        const parentReverted =
+          frame.parentId !== null && reverted[frame.parentId];
+        if (reverted[frameId] && !parentReverted) {
+          for (let j = journal.length - 1; j >= 0; j--) {
+            current.set(journal[j].key, journal[j].previous);
+          }
+        } else if (frame.parentId !== null) {
+          journals[frame.parentId].push(...journal);
+        }
+        journals[frameId] = [];
+      }
+    });
+
+    slots.forEach((summary, key) => {
+      summary.finalValue = current.get(key) ?? summary.originalValue;
+    });
+
+    return {
+      accesses,
+      slots: Array.from(slots.values()),
+      refund: steps[steps.length - 1]?.refund ?? 0,
+    };
+  }
+
+  /**
+   * Name of a slot from the EIP-1967 slots or the known token layouts,
+   * with the value formatted when the layout says what it holds.
+   */
+  static labelSlot(
+    contract: string | null,
+    slot: string,
+    value: string | null,
+  ): { label: string; formattedValue?: string } | null {
+    const known = KNOWN_STORAGE_SLOTS[slot];
+    if (known) {
+      return {
+        label: known,
+        formattedValue: value ? `0x${value.slice(-40)}` : undefined,
+      };
+    }
+    if (!contract) return null;
+
+    const interpretation = StorageSlotInterpreter.interpretPYUSDStorageSlot(
+      slot,
+      value ?? ZERO_WORD,
+      contract,
+    );
+    if (interpretation.type === "unknown") return null;
+    return {
+      label: interpretation.description,
+      formattedValue: value ? interpretation.formattedValue : undefined,
+    };
+  }
+}
@@ -0,0 +1,364 @@
+import {
+  StructLogAccumulator,
+  type StructLogStep as ParsedStructLogStep,
+} from "@/lib/structLogTracer";
+import type { StructLogStep, StructLogTrace } from "@/lib/tracing";
+import { MAX_WINDOWED_SESSIONS, STRUCTLOG_INPUT_CHUNK_SIZE } from "./constants";
+import { StepDebugger } from "./stepDebugger";
+import { StorageAccessProcessor } from "./storageAccessProcessor";
+import { StructLogProcessor } from "./structLogProcessor";
+import type {
+  DebugSession,
+  ExecutionTimelineData,
+  GasHeatmapData,
+  MemoryUsageData,
+  StepDetails,
+  StorageTimeline,
+  StructLogPipelineProgress,
+  StructLogPipelineResult,
+  StructLogWorkerRequest,
+  StructLogWorkerResponse,
+} from "./types";
+
+type ProgressHandler = (progress: StructLogPipelineProgress) => void;
+
+interface AnalysisJob {
+  mode: "analysis";
+  onProgress?: ProgressHandler;
+  resolve: (result: StructLogPipelineResult) => void;
+  reject: (error: Error) => void;
+  steps: ParsedStructLogStep[];
+  executionTimeline: ExecutionTimelineData[];
+  memoryUsage: MemoryUsageData[];
+  gasHeatmap: GasHeatmapData[];
+}
+
+interface SessionJob {
+  mode: "session";
+  onProgress?: ProgressHandler;
+  resolve: (session: DebugSession) => void;
+  reject: (error: Error) => void;
+  steps: StructLogStep[];
+}
+
+// A question about a windowed session, answered from the steps the worker
+// keeps.
+interface SessionRequest {
+  resolve: (response: StructLogWorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+// Lets the browser paint progress between posted chunks.
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Parses structLog traces in a Web Worker so large transactions do not
+ * block the page. Steps are posted in chunks, the worker reports progress
+ * as it goes, and results come back in chunks too. Without Worker support
+ * the same work runs on the main thread.
+ */
+export class StructLogPipeline {
+  private worker: Worker | null = null;
+  private nextJobId = 1;
+  private nextRequestId = 1;
+  private jobs = new Map<number, AnalysisJob | SessionJob>();
+  private sessionRequests = new Map<number, SessionRequest>();
+  private windowedSessions: number[] = [];
+
+  /**
+   * `StructLogTracer.parseStructLog` plus `StructLogProcessor.processAll`,
+   * run in the worker.
+   */
+  async analyze(
+    structLogs: StructLogStep[],
+    onProgress?: ProgressHandler,
+  ): Promise<StructLogPipelineResult> {
+    const worker = this.getWorker();
+    if (!worker) {
+      const accumulator = new StructLogAccumulator();
+      accumulator.add(structLogs);
+      const analysis = accumulator.finish();
+      return { analysis, processed: StructLogProcessor.processAll(analysis) };
+    }
+
+    const jobId = this.nextJobId++;
+    const result = new Promise<StructLogPipelineResult>((resolve, reject) => {
+      this.jobs.set(jobId, {
+        mode: "analysis",
+        onProgress,
+        resolve,
+        reject,
+        steps: [],
+        executionTimeline: [],
+        memoryUsage: [],
+        gasHeatmap: [],
+      });
+    });
+
+    this.post({
+      type: "begin",
+      jobId,
+      mode: "analysis",
+      total: structLogs.length,
+    });
+    await this.postSteps(jobId, structLogs, onProgress);
+    this.post({ type: "end", jobId });
+    return result;
+  }
+
+  /**
+   * A debug session whose steps carry no stack, memory or storage; those
+   * stay in the worker and are read with `loadDetails` for the steps on
+   * screen.
+   */
+  async buildWindowedSession(
+    txHash: string,
+    trace: StructLogTrace,
+    rootAddress: string | null,
+    isCreation: boolean,
+    onProgress?: ProgressHandler,
+  ): Promise<DebugSession> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return StepDebugger.buildSession(txHash, trace, rootAddress, isCreation);
+    }
+
+    const jobId = this.nextJobId++;
+    const session = new Promise<DebugSession>((resolve, reject) => {
+      this.jobs.set(jobId, {
+        mode: "session",
+        onProgress,
+        resolve,
+        reject,
+        steps: [],
+      });
+    });
+
+    this.post({
+      type: "begin",
+      jobId,
+      mode: "session",
+      total: trace.structLogs.length,
+      txHash,
+      rootAddress,
+      isCreation,
+    });
+    await this.postSteps(jobId, trace.structLogs, onProgress);
+    this.post({
+      type: "end",
+      jobId,
+      outcome: {
+        gas: trace.gas,
+        failed: trace.failed,
+        returnValue: trace.returnValue,
+      },
+    });
+
+    const built = await session;
+    this.retain(jobId);
+    return built;
+  }
+
+  /**
+   * Stack, memory and storage of steps `start` to `end` (exclusive) of a
+   * windowed session. Fails once the worker has dropped the session.
+   */
+  loadDetails(
+    session: DebugSession,
+    start: number,
+    end: number,
+  ): Promise<{ start: number; details: StepDetails[] }> {
+    if (session.detailsJob === undefined || !this.worker) {
+      return Promise.reject(new Error("The session is not windowed"));
+    }
+
+    const jobId = session.detailsJob;
+    return this.askSession(
+      (requestId) => ({ type: "details", jobId, requestId, start, end }),
+      (response, resolve) => {
+        if (response.type === "details") {
+          resolve({ start: response.start, details: response.details });
+        }
+      },
+    );
+  }
+
+  /**
+   * Every SLOAD and SSTORE of a session. Windowed sessions are read in the
+   * worker, the only place that still has every step's stack and storage.
+   */
+  loadStorageTimeline(session: DebugSession): Promise<StorageTimeline> {
+    if (session.detailsJob === undefined) {
+      return Promise.resolve(StorageAccessProcessor.buildTimeline(session));
+    }
+    if (!this.worker) {
+      return Promise.reject(new Error("The session is no longer available"));
+    }
+
+    const jobId = session.detailsJob;
+    return this.askSession(
+      (requestId) => ({ type: "storageTimeline", jobId, requestId }),
+      (response, resolve) => {
+        if (response.type === "storageTimeline") resolve(response.timeline);
+      },
+    );
+  }
+
+  /**
+   * Whether the worker still keeps the details of a windowed session.
+   * Sessions built without the worker carry their details themselves.
+   */
+  isRetained(session: DebugSession): boolean {
+    return (
+      session.detailsJob === undefined ||
+      this.windowedSessions.includes(session.detailsJob)
+    );
+  }
+
+  private askSession<T>(
+    request: (requestId: number) => StructLogWorkerRequest,
+    read: (
+      response: StructLogWorkerResponse,
+      resolve: (value: T) => void,
+    ) => void,
+  ): Promise<T> {
+    const requestId = this.nextRequestId++;
+    const answer = new Promise<T>((resolve, reject) =>
+      this.sessionRequests.set(requestId, {
+        resolve: (response) => read(response, resolve),
+        reject,
+      }),
+    );
+    this.post(request(requestId));
+    return answer;
+  }
+
+  private async postSteps(
+    jobId: number,
+    steps: StructLogStep[],
+    onProgress?: ProgressHandler,
+  ) {
+    for (
+      let start = 0;
+      start < steps.length;
+      start += STRUCTLOG_INPUT_CHUNK_SIZE
+    ) {
+      if (!this.jobs.has(jobId)) return;
+      const chunk = steps.slice(start, start + STRUCTLOG_INPUT_CHUNK_SIZE);
+      this.post({ type: "chunk", jobId, steps: chunk });
+      onProgress?.({
+        phase: "transfer",
+        done: start + chunk.length,
+        total: steps.length,
+      });
+      await nextTask();
+    }
+  }
+
+  // The worker keeps a few windowed sessions; the oldest is dropped.
+  private retain(jobId: number) {
+    this.windowedSessions.push(jobId);
+    while (this.windowedSessions.length > MAX_WINDOWED_SESSIONS) {
+      this.post({ type: "release", jobId: this.windowedSessions.shift()! });
+    }
+  }
+
+  private post(request: StructLogWorkerRequest) {
+    this.worker?.postMessage(request);
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || typeof Worker === "undefined") return this.worker;
+    try {
+      this.worker = new Worker(
+        new URL("./structLogWorker.ts", import.meta.url),
+        { type: "module" },
+      );
+      this.worker.onmessage = (event: MessageEvent<StructLogWorkerResponse>) =>
+        this.handleMessage(event.data);
+      this.worker.onerror = (event) => this.fail(event.message);
+    } catch (error) {
+      console.warn("StructLog worker unavailable, parsing inline:", error);
+      this.worker = null;
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: StructLogWorkerResponse) {
+    if (
+      message.type === "details" ||
+      message.type === "storageTimeline" ||
+      message.type === "error"
+    ) {
+      const request =
+        message.requestId !== undefined
+          ? this.sessionRequests.get(message.requestId)
+          : undefined;
+      if (request) {
+        this.sessionRequests.delete(message.requestId!);
+        if (message.type === "error") {
+          request.reject(new Error(message.message));
+        } else {
+          request.resolve(message);
+        }
+        return;
+      }
+    }
+
+    const job = this.jobs.get(message.jobId);
+    if (!job) return;
+
+    switch (message.type) {
+      case "progress":
+        job.onProgress?.(message.progress);
+        break;
+      case "analysisChunk":
+        if (job.mode !== "analysis") break;
+        job.steps.push(...message.steps);
+        job.executionTimeline.push(...message.executionTimeline);
+        job.memoryUsage.push(...message.memoryUsage);
+        job.gasHeatmap.push(...message.gasHeatmap);
+        break;
+      case "analysisDone":
+        if (job.mode !== "analysis") break;
+        this.jobs.delete(message.jobId);
+        job.resolve({
+          analysis: { ...message.analysis, steps: job.steps },
+          processed: {
+            opcodeDistribution: message.opcodeDistribution,
+            executionTimeline: job.executionTimeline,
+            memoryUsage: job.memoryUsage,
+            performanceMetrics: message.performanceMetrics,
+            gasHeatmap: job.gasHeatmap,
+          },
+        });
+        break;
+      case "sessionChunk":
+        if (job.mode === "session") job.steps.push(...message.steps);
+        break;
+      case "sessionDone":
+        if (job.mode !== "session") break;
+        this.jobs.delete(message.jobId);
+        job.resolve({ ...message.session, steps: job.steps });
+        break;
+      case "error":
+        this.jobs.delete(message.jobId);
+        job.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  // A crashed worker loses every job; the next call starts a new one.
+  private fail(reason: string) {
+    const error = new Error(reason || "The structLog worker failed");
+    this.jobs.forEach((job) => job.reject(error));
+    this.sessionRequests.forEach((request) => request.reject(error));
+    this.jobs.clear();
+    this.sessionRequests.clear();
+    this.windowedSessions = [];
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
+
+export const structLogPipeline = new StructLogPipeline();
@@ -138,7 +138,12 @@ export class StructLogProcessor {
   }
 
   static generateGasHeatmap(structLog: StructLogAnalysis): GasHeatmapData[] {
-    const maxGas = Math.max(...structLog.steps.map((step) => step.gasCost));
+    // Spreading hundreds of thousands of steps into Math.max overflows the
+    // call stack.
+    const maxGas = structLog.steps.reduce(
+      (max, step) => Math.max(max, step.gasCost),
+      -Infinity,
+    );
 
     return structLog.steps.map((step) => ({
       step: step.step,
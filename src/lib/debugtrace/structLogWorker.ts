@@ -0,0 +1,206 @@
+import { StructLogAccumulator } from "@/lib/structLogTracer";
+import type { StructLogStep } from "@/lib/tracing";
+import { STRUCTLOG_RESULT_CHUNK_SIZE } from "./constants";
+import { StepDebugger } from "./stepDebugger";
+import { StorageAccessProcessor } from "./storageAccessProcessor";
+import { StructLogProcessor } from "./structLogProcessor";
+import type {
+  DebugSession,
+  StructLogPipelineProgress,
+  StructLogWorkerRequest,
+  StructLogWorkerResponse,
+} from "./types";
+
+interface AnalysisJob {
+  mode: "analysis";
+  total: number;
+  accumulator: StructLogAccumulator;
+}
+
+interface SessionJob {
+  mode: "session";
+  total: number;
+  txHash: string;
+  rootAddress: string | null;
+  isCreation: boolean;
+  steps: StructLogStep[];
+  // The built session, whose steps keep their stack, memory and storage.
+  session?: DebugSession;
+}
+
+const jobs = new Map<number, AnalysisJob | SessionJob>();
+
+const post = (message: StructLogWorkerResponse) => self.postMessage(message);
+
+const progress = (jobId: number, value: StructLogPipelineProgress) =>
+  post({ type: "progress", jobId, progress: value });
+
+// SSTORE keeps its stack so storage breakpoints can read the slot.
+const stripDetails = (step: StructLogStep): StructLogStep => {
+  const { stack, memory, storage, ...rest } = step;
+  return step.op === "SSTORE" ? { ...rest, stack } : rest;
+};
+
+const finishAnalysis = (jobId: number, job: AnalysisJob) => {
+  progress(jobId, { phase: "process", done: 0, total: job.total });
+  const { steps, ...analysis } = job.accumulator.finish();
+  const processed = StructLogProcessor.processAll({ ...analysis, steps });
+
+  for (
+    let start = 0;
+    start < steps.length;
+    start += STRUCTLOG_RESULT_CHUNK_SIZE
+  ) {
+    const end = start + STRUCTLOG_RESULT_CHUNK_SIZE;
+    post({
+      type: "analysisChunk",
+      jobId,
+      steps: steps.slice(start, end),
+      executionTimeline: processed.executionTimeline.slice(start, end),
+      memoryUsage: processed.memoryUsage.slice(start, end),
+      gasHeatmap: processed.gasHeatmap.slice(start, end),
+    });
+  }
+  post({
+    type: "analysisDone",
+    jobId,
+    analysis,
+    opcodeDistribution: processed.opcodeDistribution,
+    performanceMetrics: processed.performanceMetrics,
+  });
+  jobs.delete(jobId);
+};
+
+const finishSession = (
+  jobId: number,
+  job: SessionJob,
+  request: Extract<StructLogWorkerRequest, { type: "end" }>,
+) => {
+  progress(jobId, { phase: "process", done: 0, total: job.total });
+  job.session = StepDebugger.buildSession(
+    job.txHash,
+    {
+      gas: 0,
+      failed: false,
+      returnValue: "",
+      ...request.outcome,
+      structLogs: job.steps,
+    },
+    job.rootAddress,
+    job.isCreation,
+  );
+  const { steps, ...session } = job.session;
+
+  for (
+    let start = 0;
+    start < steps.length;
+    start += STRUCTLOG_RESULT_CHUNK_SIZE
+  ) {
+    post({
+      type: "sessionChunk",
+      jobId,
+      steps: steps
+        .slice(start, start + STRUCTLOG_RESULT_CHUNK_SIZE)
+        .map(stripDetails),
+    });
+  }
+  post({
+    type: "sessionDone",
+    jobId,
+    session: { ...session, detailsJob: jobId },
+  });
+};
+
+const handle = (request: StructLogWorkerRequest) => {
+  if (request.type === "begin") {
+    jobs.set(
+      request.jobId,
+      request.mode === "analysis"
+        ? {
+            mode: "analysis",
+            total: request.total,
+            accumulator: new StructLogAccumulator(),
+          }
+        : {
+            mode: "session",
+            total: request.total,
+            txHash: request.txHash ?? "",
+            rootAddress: request.rootAddress ?? null,
+            isCreation: !!request.isCreation,
+            steps: [],
+          },
+    );
+    return;
+  }
+
+  if (request.type === "release") {
+    jobs.delete(request.jobId);
+    return;
+  }
+
+  const job = jobs.get(request.jobId);
+  if (!job) throw new Error(`Unknown structLog job ${request.jobId}`);
+
+  switch (request.type) {
+    case "chunk": {
+      let done: number;
+      if (job.mode === "analysis") {
+        job.accumulator.add(request.steps);
+        done = job.accumulator.parsedSteps;
+      } else {
+        job.steps.push(...request.steps);
+        done = job.steps.length;
+      }
+      progress(request.jobId, { phase: "parse", done, total: job.total });
+      break;
+    }
+    case "end":
+      if (job.mode === "analysis") finishAnalysis(request.jobId, job);
+      else finishSession(request.jobId, job, request);
+      break;
+    case "details": {
+      if (job.mode !== "session") break;
+      const end = Math.min(request.end, job.steps.length);
+      const start = Math.max(0, Math.min(request.start, end));
+      post({
+        type: "details",
+        jobId: request.jobId,
+        requestId: request.requestId,
+        start,
+        details: job.steps
+          .slice(start, end)
+          .map(({ stack, memory, storage }) => ({ stack, memory, storage })),
+      });
+      break;
+    }
+    case "storageTimeline": {
+      if (job.mode !== "session" || !job.session) break;
+      post({
+        type: "storageTimeline",
+        jobId: request.jobId,
+        requestId: request.requestId,
+        timeline: StorageAccessProcessor.buildTimeline(job.session),
+      });
+      break;
+    }
+  }
+};
+
+self.onmessage = (event: MessageEvent<StructLogWorkerRequest>) => {
+  const request = event.data;
+  try {
+    handle(request);
+  } catch (error) {
+    const requestId =
+      request.type === "details" || request.type === "storageTimeline"
+        ? request.requestId
+        : undefined;
+    if (requestId === undefined) jobs.delete(request.jobId);
+    post({
+      type: "error",
+      jobId: request.jobId,
+      requestId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
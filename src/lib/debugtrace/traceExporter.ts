@@ -0,0 +1,351 @@
+import { ethers } from "ethers";
+import { abiRegistry } from "@/lib/abi";
+import { getContractName, shortenAddress } from "@/lib/config";
+import type { BlockCallTrace, CallFrame } from "@/lib/tracing";
+import type { ProcessedTraceAction } from "@/lib/tracetransaction/types";
+import type {
+  ChromeTraceEvent,
+  ChromeTraceFile,
+  ChromeTraceUnit,
+  DebugSession,
+  TraceExportEntry,
+} from "./types";
+
+const quantity = (value: string | undefined) => {
+  try {
+    return value ? BigInt(value) : 0n;
+  } catch {
+    return 0n;
+  }
+};
+
+const knownName = (address: string | undefined) => {
+  if (!address) return null;
+  const name = getContractName(address);
+  return name !== "Unknown Contract" ? name : null;
+};
+
+const checksum = (address: string) => {
+  try {
+    return ethers.getAddress(address);
+  } catch {
+    return address;
+  }
+};
+
+const isCreate = (frame: CallFrame) =>
+  frame.type.toUpperCase().startsWith("CREATE");
+
+const isEmpty = (data: string | undefined) => !data || data === "0x";
+
+const metadata = (
+  name: "process_name" | "thread_name",
+  value: string,
+): ChromeTraceEvent => ({
+  name,
+  ph: "M",
+  ts: 0,
+  pid: 1,
+  tid: 1,
+  args: { name: value },
+});
+
+/**
+ * Call traces and structLog executions in formats other tools read: Chrome
+ * trace events for Perfetto and chrome://tracing, and Foundry's indented
+ * text trace for reports and issues.
+ */
+export class TraceExporter {
+  /**
+   * Calls as nested durations where one microsecond is one gas. Subcalls
+   * start with their parent and follow each other, since a call trace
+   * does not say when in the parent they ran. Block exports put the
+   * transactions one after another.
+   */
+  static callTracesToChromeTrace(
+    entries: TraceExportEntry[],
+    name: string,
+  ): ChromeTraceFile {
+    const events: ChromeTraceEvent[] = [
+      metadata("process_name", name),
+      metadata("thread_name", "Calls (1 µs = 1 gas)"),
+    ];
+
+    const place = (
+      frame: CallFrame,
+      ts: number,
+      limit: number,
+      transaction?: string,
+    ) => {
+      const dur = Math.min(Number(quantity(frame.gasUsed)), limit - ts);
+      const args: Record<string, string | number> = {
+        type: frame.type,
+        from: frame.from,
+        to: frame.to ?? "",
+        value: quantity(frame.value).toString(),
+        gasUsed: Number(quantity(frame.gasUsed)),
+        selector: frame.input?.slice(0, 10) ?? "0x",
+      };
+      if (frame.error) args.error = frame.error;
+      if (transaction) args.transaction = transaction;
+
+      events.push({
+        name: this.callLabel(frame, true),
+        cat: frame.type.toLowerCase(),
+        ph: "X",
+        ts,
+        dur: Math.max(dur, 0),
+        pid: 1,
+        tid: 1,
+        args,
+      });
+
+      let cursor = ts;
+      (frame.calls ?? []).forEach((child) => {
+        place(child, cursor, ts + dur, transaction);
+        cursor = Math.min(cursor + Number(quantity(child.gasUsed)), ts + dur);
+      });
+    };
+
+    let offset = 0;
+    entries.forEach((entry) => {
+      const gas = Number(quantity(entry.frame.gasUsed));
+      place(entry.frame, offset, offset + gas, entry.label);
+      offset += gas;
+    });
+
+    return {
+      traceEvents: events,
+      displayTimeUnit: "ns",
+      otherData: { exporter: "arguschain", unit: "gas" },
+    };
+  }
+
+  /**
+   * StructLog frames as nested durations in execution order, measured in
+   * steps or in gas spent. Gas follows the flame graph's accounting: a
+   * call step is charged what the caller paid on top of the callee's gas.
+   */
+  static sessionToChromeTrace(
+    session: DebugSession,
+    unit: ChromeTraceUnit,
+    name: string,
+    labels: (string | undefined)[] = [],
+  ): ChromeTraceFile {
+    const { steps, frames, stepFrames } = session;
+    const starts = new Array<number>(frames.length).fill(0);
+    const ends = new Array<number>(frames.length).fill(0);
+
+    if (unit === "steps") {
+      frames.forEach((frame) => {
+        starts[frame.id] = frame.startStep;
+        ends[frame.id] = frame.endStep + 1;
+      });
+    } else {
+      let clock = 0;
+      steps.forEach((step, i) => {
+        const frame = frames[stepFrames[i]];
+        const next = steps[i + 1];
+        if (i === frame.startStep) starts[frame.id] = clock;
+
+        if (next && next.depth > step.depth) {
+          // Settled when the callee returns.
+        } else if (next && next.depth === step.depth) {
+          clock += Math.max(0, step.gas - next.gas);
+        } else {
+          clock += step.gasCost;
+        }
+
+        if (i === frame.endStep) {
+          ends[frame.id] = clock;
+          const returnStep = steps[frame.endStep + 1];
+          if (frame.callerStep !== null && returnStep) {
+            const overhead =
+              steps[frame.callerStep].gas -
+              returnStep.gas -
+              (clock - starts[frame.id]);
+            clock += Math.max(0, overhead);
+          }
+        }
+      });
+    }
+
+    const events: ChromeTraceEvent[] = [
+      metadata("process_name", name),
+      metadata(
+        "thread_name",
+        unit === "steps" ? "Frames (1 µs = 1 step)" : "Frames (1 µs = 1 gas)",
+      ),
+    ];
+    frames.forEach((frame) => {
+      const last = steps[frame.endStep];
+      const args: Record<string, string | number> = {
+        kind: frame.kind,
+        codeAddress: frame.codeAddress ?? "",
+        storageAddress: frame.storageAddress ?? "",
+        firstStep: frame.startStep,
+        steps: frame.endStep - frame.startStep + 1,
+      };
+      if (last?.error) args.error = last.error;
+      else if (last?.op === "REVERT") args.error = "reverted";
+
+      events.push({
+        name:
+          labels[frame.id] ??
+          `${frame.codeAddress ? shortenAddress(frame.codeAddress) : "unknown"} (${frame.kind})`,
+        cat: frame.kind.toLowerCase(),
+        ph: "X",
+        ts: starts[frame.id],
+        dur: Math.max(0, ends[frame.id] - starts[frame.id]),
+        pid: 1,
+        tid: 1,
+        args,
+      });
+    });
+
+    return {
+      traceEvents: events,
+      displayTimeUnit: "ns",
+      otherData: { exporter: "arguschain", unit },
+    };
+  }
+
+  /**
+   * Foundry's trace layout: `[gas] Contract::fn(args)` for every call with
+   * its subcalls indented below and `← [Return] value` closing it.
+   */
+  static toFoundryTrace(entries: TraceExportEntry[]): string {
+    const lines = ["Traces:"];
+
+    const walk = (frame: CallFrame, linePrefix: string, indent: string) => {
+      lines.push(
+        `${linePrefix}[${quantity(frame.gasUsed)}] ${this.callLabel(frame, false)}`,
+      );
+      (frame.calls ?? []).forEach((child) =>
+        walk(child, `${indent}├─ `, `${indent}│   `),
+      );
+      lines.push(`${indent}└─ ← ${this.describeReturn(frame)}`);
+    };
+
+    entries.forEach((entry, index) => {
+      if (entry.label) {
+        if (index > 0) lines.push("");
+        lines.push(`  ${entry.label}`);
+      }
+      walk(entry.frame, "  ", "    ");
+    });
+    return lines.join("\n");
+  }
+
+  /**
+   * Call tree rebuilt from processed parity actions, for views that do not
+   * keep the raw trace. Values are wei as the processor stored them.
+   */
+  static fromProcessedActions(
+    actions: ProcessedTraceAction[],
+  ): CallFrame | null {
+    const frames = new Map<string, CallFrame>();
+    let root: CallFrame | null = null;
+
+    for (const action of actions) {
+      const frame: CallFrame = {
+        type: action.type,
+        from: action.from,
+        to: action.to || undefined,
+        value: ethers.toQuantity(BigInt(Math.trunc(action.value || 0))),
+        gasUsed: ethers.toQuantity(Math.trunc(action.gasUsed || 0)),
+        input: action.input,
+        output: action.error ? (action.revertData ?? "0x") : action.output,
+        error: action.error,
+        calls: [],
+      };
+      frames.set(action.traceAddress.join(","), frame);
+
+      if (action.traceAddress.length === 0) {
+        root = frame;
+        continue;
+      }
+      const parent = frames.get(action.traceAddress.slice(0, -1).join(","));
+      parent?.calls!.push(frame);
+    }
+
+    return root;
+  }
+
+  // Block traces keep failed transactions without a result frame.
+  static fromBlockCallTraces(traces: BlockCallTrace[]): TraceExportEntry[] {
+    return traces
+      .map((trace, index) => ({
+        label: `Transaction ${index} ${trace.txHash}`,
+        frame: trace.result,
+      }))
+      .filter((entry) => !!entry.frame);
+  }
+
+  // `Contract::fn(args)`; Chrome trace names are shortened and leave the
+  // arguments out.
+  private static callLabel(frame: CallFrame, short: boolean): string {
+    const type = frame.type.toUpperCase();
+    const name = knownName(frame.to);
+    const address = frame.to
+      ? short
+        ? shortenAddress(frame.to)
+        : checksum(frame.to)
+      : "unknown";
+
+    if (isCreate(frame)) {
+      return short
+        ? `new ${name ?? address}`
+        : `→ new ${name ?? "<unknown>"}@${address}`;
+    }
+
+    const value = quantity(frame.value);
+    const input = frame.input ?? "0x";
+    const decoded = abiRegistry.decodeFunction(input, { address: frame.to });
+    let fn: string;
+    let args: string;
+    if (isEmpty(input)) {
+      fn = value > 0n ? "receive" : "fallback";
+      args = "";
+    } else if (decoded) {
+      fn = decoded.name;
+      args = decoded.args.map((arg) => arg.value).join(", ");
+    } else {
+      fn = input.slice(0, 10);
+      args = input.length > 10 ? `0x${input.slice(10)}` : "";
+    }
+
+    if (short) return `${name ?? address}::${fn}`;
+
+    const suffix = type === "CALL" ? "" : ` [${type.toLowerCase()}]`;
+    const valuePart = value > 0n ? `{value: ${value}}` : "";
+    return `${name ?? address}::${fn}${valuePart}(${args})${suffix}`;
+  }
+
+  private static describeReturn(frame: CallFrame): string {
+    if (frame.error) {
+      const reason =
+        frame.revertReason ??
+        abiRegistry.decodeError(frame.output, { address: frame.to })?.message;
+      if (/revert/i.test(frame.error)) {
+        return `[Revert] ${reason ?? (isEmpty(frame.output) ? "" : frame.output)}`.trimEnd();
+      }
+      return `[${frame.error}]`;
+    }
+
+    if (isCreate(frame)) {
+      const size = frame.output ? (frame.output.length - 2) / 2 : 0;
+      return `[Return] ${size} bytes of code`;
+    }
+    if (isEmpty(frame.output)) return "[Stop]";
+
+    const decoded = abiRegistry.decodeFunctionResult(
+      frame.input,
+      frame.output,
+      {
+        address: frame.to,
+      },
+    );
+    return `[Return] ${decoded ? decoded.map((arg) => arg.value).join(", ") : frame.output}`;
+  }
+}
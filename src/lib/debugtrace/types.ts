@@ -1,3 +1,5 @@
+import type { CallFrame, StructLogStep, StructLogTrace } from "@/lib/tracing";
+
 export interface OpcodeDistributionData {
   category: string;
   gasUsed: number;
@@ -189,6 +191,8 @@ export interface ProgressiveLoaderProps {
 
 export interface StructLogAnalyticsProps {
   structLog: import("@/lib/structLogTracer").StructLogAnalysis;
+  // Derivations already computed by the structLog worker.
+  processedData?: ProcessedStructLogData | null;
   loading: boolean;
   className?: string;
 }
@@ -249,3 +253,264 @@ export interface ChartConfig {
     formatter?: (value: any, name: string, props: any) => React.ReactNode;
   };
 }
+
+export type DebugFrameKind =
+  | "ROOT"
+  | "CALL"
+  | "CALLCODE"
+  | "DELEGATECALL"
+  | "STATICCALL"
+  | "CREATE"
+  | "CREATE2";
+
+export interface DebugCallFrame {
+  id: number;
+  parentId: number | null;
+  kind: DebugFrameKind;
+  depth: number;
+  // Contract whose code runs in the frame.
+  codeAddress: string | null;
+  // Contract whose storage the frame reads and writes; differs from the
+  // code address under DELEGATECALL and CALLCODE.
+  storageAddress: string | null;
+  // Step in the parent frame that made the call.
+  callerStep: number | null;
+  startStep: number;
+  endStep: number;
+}
+
+export interface DebugSession {
+  txHash: string;
+  steps: StructLogStep[];
+  frames: DebugCallFrame[];
+  // Frame id of every step.
+  stepFrames: number[];
+  gas: number;
+  failed: boolean;
+  returnValue: string;
+  hasMemory: boolean;
+  hasStorage: boolean;
+  // Set for windowed sessions: the worker job that keeps every step's
+  // stack, memory and storage, which the steps only carry around the
+  // viewed step.
+  detailsJob?: number;
+}
+
+// A structLog trace with what a debug session needs to place its root
+// frame.
+export interface StructLogTraceSource {
+  trace: StructLogTrace;
+  rootAddress: string | null;
+  isCreation: boolean;
+}
+
+export type BreakpointKind = "opcode" | "pc" | "address" | "depth" | "sstore";
+
+export interface DebugBreakpoint {
+  id: string;
+  kind: BreakpointKind;
+  value: string;
+  enabled: boolean;
+}
+
+export interface MemoryRow {
+  offset: number;
+  words: string[];
+  ascii: string;
+}
+
+export type FlameNodeKind = "call" | "opcode";
+
+export interface FlameNode {
+  id: string;
+  name: string;
+  kind: FlameNodeKind;
+  // Contract the frame runs in; unset for opcode leaves.
+  address?: string;
+  // Gas of the frame including everything it called.
+  totalGas: number;
+  // Gas spent in the frame itself, outside of its children.
+  selfGas: number;
+  failed: boolean;
+  children: FlameNode[];
+}
+
+export interface SpeedscopeFrame {
+  name: string;
+  file?: string;
+}
+
+export interface SpeedscopeSampledProfile {
+  type: "sampled";
+  name: string;
+  unit: "none";
+  startValue: number;
+  endValue: number;
+  samples: number[][];
+  weights: number[];
+}
+
+export interface SpeedscopeFile {
+  $schema: string;
+  name: string;
+  exporter: string;
+  activeProfileIndex: number;
+  shared: { frames: SpeedscopeFrame[] };
+  profiles: SpeedscopeSampledProfile[];
+}
+
+// Chrome Trace Event format, read by Perfetto and chrome://tracing. Only
+// complete ("X") and metadata ("M") events are written.
+export interface ChromeTraceEvent {
+  name: string;
+  cat?: string;
+  ph: "X" | "M";
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, string | number>;
+}
+
+export interface ChromeTraceFile {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: "ms" | "ns";
+  otherData: Record<string, string>;
+}
+
+// What one microsecond of the exported trace stands for.
+export type ChromeTraceUnit = "gas" | "steps";
+
+export interface TraceExportEntry {
+  // Shown above the call in block exports, e.g. the transaction hash.
+  label?: string;
+  frame: CallFrame;
+}
+
+export type StorageAccessKind = "SLOAD" | "SSTORE";
+
+export interface StorageAccess {
+  step: number;
+  frameId: number;
+  kind: StorageAccessKind;
+  // Storage address of the frame, which differs from the running code
+  // under DELEGATECALL.
+  contract: string | null;
+  slot: string;
+  // Value read by an SLOAD or written by an SSTORE.
+  value: string | null;
+  // Slot value just before the access; null when not seen yet.
+  previousValue: string | null;
+  // Slot value at the start of the transaction, when it can be told.
+  originalValue: string | null;
+  cold: boolean;
+  gasCost: number;
+  // Change of the refund counter made by the step.
+  refund: number;
+  // The frame or one of its callers reverted, so a write was undone.
+  reverted: boolean;
+  label?: string;
+  formattedValue?: string;
+}
+
+export interface StorageSlotSummary {
+  contract: string | null;
+  slot: string;
+  label?: string;
+  originalValue: string | null;
+  // Value after the transaction, with reverted writes undone.
+  finalValue: string | null;
+  reads: number;
+  writes: number;
+}
+
+export interface StorageTimeline {
+  accesses: StorageAccess[];
+  slots: StorageSlotSummary[];
+  // Refund counter when execution ends, before the refund cap.
+  refund: number;
+}
+
+export type StructLogPipelinePhase = "transfer" | "parse" | "process";
+
+export interface StructLogPipelineProgress {
+  phase: StructLogPipelinePhase;
+  done: number;
+  total: number;
+}
+
+export interface StructLogPipelineResult {
+  analysis: import("@/lib/structLogTracer").StructLogAnalysis;
+  processed: ProcessedStructLogData;
+}
+
+export type StepDetails = Pick<StructLogStep, "stack" | "memory" | "storage">;
+
+export type StructLogWorkerRequest =
+  | {
+      type: "begin";
+      jobId: number;
+      mode: "analysis" | "session";
+      total: number;
+      // Session jobs only.
+      txHash?: string;
+      rootAddress?: string | null;
+      isCreation?: boolean;
+    }
+  | { type: "chunk"; jobId: number; steps: StructLogStep[] }
+  | {
+      type: "end";
+      jobId: number;
+      // Session jobs only.
+      outcome?: Omit<StructLogTrace, "structLogs">;
+    }
+  | {
+      type: "details";
+      jobId: number;
+      requestId: number;
+      start: number;
+      end: number;
+    }
+  | { type: "storageTimeline"; jobId: number; requestId: number }
+  | { type: "release"; jobId: number };
+
+export type StructLogWorkerResponse =
+  | { type: "progress"; jobId: number; progress: StructLogPipelineProgress }
+  | {
+      type: "analysisChunk";
+      jobId: number;
+      steps: import("@/lib/structLogTracer").StructLogStep[];
+      executionTimeline: ExecutionTimelineData[];
+      memoryUsage: MemoryUsageData[];
+      gasHeatmap: GasHeatmapData[];
+    }
+  | {
+      type: "analysisDone";
+      jobId: number;
+      analysis: Omit<
+        import("@/lib/structLogTracer").StructLogAnalysis,
+        "steps"
+      >;
+      opcodeDistribution: OpcodeDistributionData[];
+      performanceMetrics: PerformanceMetric[];
+    }
+  | { type: "sessionChunk"; jobId: number; steps: StructLogStep[] }
+  | {
+      type: "sessionDone";
+      jobId: number;
+      session: Omit<DebugSession, "steps">;
+    }
+  | {
+      type: "details";
+      jobId: number;
+      requestId: number;
+      start: number;
+      details: StepDetails[];
+    }
+  | {
+      type: "storageTimeline";
+      jobId: number;
+      requestId: number;
+      timeline: StorageTimeline;
+    }
+  | { type: "error"; jobId: number; requestId?: number; message: string };
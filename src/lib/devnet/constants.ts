@@ -0,0 +1,25 @@
+import type { DevnetKind, DevnetMethods } from "./types";
+
+export const DEVNET_METHODS: Record<DevnetKind, DevnetMethods> = {
+  anvil: {
+    detect: "anvil_nodeInfo",
+    mine: "anvil_mine",
+    setBalance: "anvil_setBalance",
+    impersonate: "anvil_impersonateAccount",
+    stopImpersonating: "anvil_stopImpersonatingAccount",
+  },
+  hardhat: {
+    detect: "hardhat_metadata",
+    mine: "hardhat_mine",
+    setBalance: "hardhat_setBalance",
+    impersonate: "hardhat_impersonateAccount",
+    stopImpersonating: "hardhat_stopImpersonatingAccount",
+  },
+};
+
+export const DEVNET_LABELS: Record<DevnetKind, string> = {
+  anvil: "Anvil",
+  hardhat: "Hardhat Network",
+};
+
+export const MAX_MINE_BLOCKS = 10000;
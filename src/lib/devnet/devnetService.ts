@@ -0,0 +1,266 @@
+import { ethers } from "ethers";
+import { blockchainService } from "@/lib/blockchainService";
+import { classifyProbeError } from "@/lib/capabilities";
+import { isLocalNetwork } from "@/lib/networks";
+import { DEVNET_LABELS, DEVNET_METHODS, MAX_MINE_BLOCKS } from "./constants";
+import {
+  DevnetError,
+  type DevnetInfo,
+  type DevnetKind,
+  type DevnetSnapshot,
+  type DevnetTransactionRequest,
+} from "./types";
+
+const toQuantity = (value: bigint | number) => ethers.toQuantity(value);
+
+/**
+ * Controls a local Anvil or Hardhat node: mining, balances, impersonation
+ * and snapshots. Every call checks that the connected network is local, so
+ * the cheat methods are never sent to a public endpoint.
+ */
+export class DevnetService {
+  private kinds = new Map<string, Promise<DevnetKind | null>>();
+  private snapshots = new Map<string, DevnetSnapshot[]>();
+  private impersonated = new Map<string, Set<string>>();
+
+  async getInfo(refresh: boolean = false): Promise<DevnetInfo | null> {
+    const url = this.getLocalUrl();
+    if (!url) return null;
+
+    if (refresh) this.kinds.delete(url);
+    const kind = await this.detectKind(url);
+    if (!kind) return null;
+
+    const [chainId, blockNumber, accounts, clientVersion] = await Promise.all([
+      blockchainService.makeRPCCall<string>("eth_chainId"),
+      blockchainService.makeRPCCall<string>("eth_blockNumber"),
+      blockchainService
+        .makeRPCCall<string[]>("eth_accounts")
+        .catch(() => [] as string[]),
+      blockchainService
+        .makeRPCCall<string>("web3_clientVersion")
+        .catch(() => null),
+    ]);
+
+    return {
+      kind,
+      chainId: Number(chainId),
+      blockNumber: Number(blockNumber),
+      accounts: accounts || [],
+      clientVersion,
+    };
+  }
+
+  async mine(blocks: number = 1, intervalSeconds: number = 0): Promise<number> {
+    if (!Number.isInteger(blocks) || blocks < 1 || blocks > MAX_MINE_BLOCKS) {
+      throw new DevnetError(
+        `Block count must be between 1 and ${MAX_MINE_BLOCKS}`,
+        "invalid_input",
+      );
+    }
+    const { methods } = await this.requireDevnet();
+
+    const params = [toQuantity(blocks)];
+    if (intervalSeconds > 0) params.push(toQuantity(intervalSeconds));
+    await this.call(methods.mine, params);
+
+    return blockchainService.getCurrentBlock();
+  }
+
+  async setBalance(address: string, etherAmount: string): Promise<void> {
+    this.assertAddress(address);
+    let wei: bigint;
+    try {
+      wei = ethers.parseEther(etherAmount.trim());
+    } catch {
+      throw new DevnetError(
+        `Invalid ether amount: ${etherAmount}`,
+        "invalid_input",
+      );
+    }
+
+    const { methods } = await this.requireDevnet();
+    await this.call(methods.setBalance, [address, toQuantity(wei)]);
+  }
+
+  async impersonate(address: string): Promise<void> {
+    this.assertAddress(address);
+    const { methods, url } = await this.requireDevnet();
+    await this.call(methods.impersonate, [address]);
+    this.getImpersonatedSet(url).add(ethers.getAddress(address));
+  }
+
+  async stopImpersonating(address: string): Promise<void> {
+    this.assertAddress(address);
+    const { methods, url } = await this.requireDevnet();
+    await this.call(methods.stopImpersonating, [address]);
+    this.getImpersonatedSet(url).delete(ethers.getAddress(address));
+  }
+
+  getImpersonatedAccounts(): string[] {
+    const url = this.getLocalUrl();
+    return url ? Array.from(this.getImpersonatedSet(url)) : [];
+  }
+
+  async snapshot(label?: string): Promise<DevnetSnapshot> {
+    const { url } = await this.requireDevnet();
+    const id = await this.call<string>("evm_snapshot", []);
+    const blockNumber = await blockchainService.getCurrentBlock();
+
+    const snapshots = this.snapshots.get(url) || [];
+    const snapshot: DevnetSnapshot = {
+      id,
+      label: label?.trim() || `Snapshot ${snapshots.length + 1}`,
+      blockNumber,
+      createdAt: Date.now(),
+    };
+    this.snapshots.set(url, [...snapshots, snapshot]);
+    return snapshot;
+  }
+
+  /**
+   * Reverts to a snapshot. The node discards that snapshot and every later
+   * one, so they are dropped from the list as well.
+   */
+  async revert(id: string): Promise<number> {
+    const { url } = await this.requireDevnet();
+    const reverted = await this.call<boolean>("evm_revert", [id]);
+    if (!reverted) {
+      throw new DevnetError(
+        `The node has no snapshot ${id}; it may have been restarted`,
+        "rpc_error",
+      );
+    }
+
+    const snapshots = this.snapshots.get(url) || [];
+    const index = snapshots.findIndex((snapshot) => snapshot.id === id);
+    this.snapshots.set(url, index >= 0 ? snapshots.slice(0, index) : []);
+    return blockchainService.getCurrentBlock();
+  }
+
+  getSnapshots(): DevnetSnapshot[] {
+    const url = this.getLocalUrl();
+    return url ? [...(this.snapshots.get(url) || [])] : [];
+  }
+
+  /**
+   * Sends a transaction from an unlocked or impersonated account and returns
+   * its hash. Automining nodes include it in a block right away.
+   */
+  async sendTransaction(request: DevnetTransactionRequest): Promise<string> {
+    this.assertAddress(request.from);
+    if (request.to) this.assertAddress(request.to);
+    if (!request.to && !request.data) {
+      throw new DevnetError(
+        "A contract creation needs bytecode in the data field",
+        "invalid_input",
+      );
+    }
+    if (request.data && !ethers.isHexString(request.data)) {
+      throw new DevnetError("Data must be a hex string", "invalid_input");
+    }
+
+    let value: string | undefined;
+    if (request.value?.trim()) {
+      try {
+        value = toQuantity(ethers.parseEther(request.value.trim()));
+      } catch {
+        throw new DevnetError(
+          `Invalid ether amount: ${request.value}`,
+          "invalid_input",
+        );
+      }
+    }
+
+    await this.requireDevnet();
+    return this.call<string>("eth_sendTransaction", [
+      {
+        from: request.from,
+        ...(request.to && { to: request.to }),
+        ...(value && { value }),
+        ...(request.data && { data: request.data }),
+      },
+    ]);
+  }
+
+  private async requireDevnet() {
+    if (!blockchainService.isConnected()) {
+      await blockchainService.connect();
+    }
+
+    const url = this.getLocalUrl();
+    if (!url) {
+      throw new DevnetError(
+        "Devnet controls are only available on a local network",
+        "not_local",
+      );
+    }
+
+    const kind = await this.detectKind(url);
+    if (!kind) {
+      throw new DevnetError(
+        "The local node does not expose anvil_* or hardhat_* methods",
+        "not_devnet",
+      );
+    }
+
+    return { kind, url, methods: DEVNET_METHODS[kind] };
+  }
+
+  private getLocalUrl(): string | null {
+    const network = blockchainService.getNetworkConfig();
+    return isLocalNetwork(network) ? network!.rpcUrl : null;
+  }
+
+  private detectKind(url: string): Promise<DevnetKind | null> {
+    let detection = this.kinds.get(url);
+    if (!detection) {
+      detection = this.probeKinds();
+      this.kinds.set(url, detection);
+      detection.catch(() => this.kinds.delete(url));
+    }
+    return detection;
+  }
+
+  // Anvil also answers most hardhat_* methods, so it is checked first.
+  private async probeKinds(): Promise<DevnetKind | null> {
+    for (const kind of ["anvil", "hardhat"] as DevnetKind[]) {
+      try {
+        await blockchainService.makeRPCCall(DEVNET_METHODS[kind].detect, []);
+        console.log(`Detected ${DEVNET_LABELS[kind]} devnet`);
+        return kind;
+      } catch (error) {
+        if (classifyProbeError(error).status !== "unsupported") throw error;
+      }
+    }
+    return null;
+  }
+
+  private async call<T = unknown>(method: string, params: unknown[]) {
+    try {
+      return await blockchainService.makeRPCCall<T>(method, params);
+    } catch (error) {
+      throw new DevnetError(
+        `${method} failed: ${error instanceof Error ? error.message : String(error)}`,
+        "rpc_error",
+      );
+    }
+  }
+
+  private getImpersonatedSet(url: string): Set<string> {
+    let accounts = this.impersonated.get(url);
+    if (!accounts) {
+      accounts = new Set();
+      this.impersonated.set(url, accounts);
+    }
+    return accounts;
+  }
+
+  private assertAddress(address: string): void {
+    if (!ethers.isAddress(address)) {
+      throw new DevnetError(`Invalid address: ${address}`, "invalid_input");
+    }
+  }
+}
+
+export const devnetService = new DevnetService();
@@ -0,0 +1,4 @@
+export { DevnetService, devnetService } from "./devnetService";
+
+export * from "./types";
+export * from "./constants";
@@ -0,0 +1,44 @@
+export type DevnetKind = "anvil" | "hardhat";
+
+export interface DevnetMethods {
+  // Cheap method only this node type serves, used for detection.
+  detect: string;
+  mine: string;
+  setBalance: string;
+  impersonate: string;
+  stopImpersonating: string;
+}
+
+export interface DevnetInfo {
+  kind: DevnetKind;
+  chainId: number;
+  blockNumber: number;
+  // Unlocked dev accounts that can send transactions without a signer.
+  accounts: string[];
+  clientVersion: string | null;
+}
+
+export interface DevnetSnapshot {
+  id: string;
+  label: string;
+  blockNumber: number;
+  createdAt: number;
+}
+
+export interface DevnetTransactionRequest {
+  from: string;
+  to?: string;
+  // Amount in ether, e.g. "1.5".
+  value?: string;
+  data?: string;
+}
+
+export class DevnetError extends Error {
+  public code: "not_local" | "not_devnet" | "invalid_input" | "rpc_error";
+
+  constructor(message: string, code: DevnetError["code"]) {
+    super(message);
+    this.name = "DevnetError";
+    this.code = code;
+  }
+}
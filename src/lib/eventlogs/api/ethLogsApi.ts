@@ -1,4 +1,5 @@
 import { ethers } from "ethers";
+import type { NetworkId } from "@/lib/networks";
 import type {
   LogsQueryConfig,
   ParsedTransferLog,
@@ -11,6 +12,7 @@ import {
   ERROR_CODES,
   ERROR_MESSAGES,
   getContractConfig,
+  hasPyusdDeployment,
   getRpcLimits,
   PYUSD_CONFIG,
   shortenAddress,
@@ -18,13 +20,13 @@ import {
 
 export class EthLogsApi {
   private provider: ethers.JsonRpcProvider;
-  private network: "mainnet" | "sepolia";
-  private contractConfig: typeof PYUSD_CONFIG.ethereum;
+  private network: NetworkId;
+  private contractConfig: ReturnType<typeof getContractConfig>;
   private cache: Map<string, any> = new Map();
 
   constructor(
     provider: ethers.JsonRpcProvider,
-    network: "mainnet" | "sepolia" = "mainnet"
+    network: NetworkId = "mainnet"
   ) {
     this.provider = provider;
     this.network = network;
@@ -200,6 +202,11 @@ export class EthLogsApi {
 
       const fromBlock = this.formatBlockIdentifier(config.from_block);
       const toBlock = this.formatBlockIdentifier(config.to_block);
+      if (!config.contract_address && !hasPyusdDeployment(this.network)) {
+        throw new Error(
+          "PYUSD is not deployed on this network. Enter a contract address to query its Transfer logs."
+        );
+      }
       const contractAddress =
         config.contract_address || this.contractConfig.address;
 
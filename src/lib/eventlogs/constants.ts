@@ -1,3 +1,7 @@
+import { blockchainService } from "@/lib/blockchainService";
+import { networkRegistry, type NetworkId } from "@/lib/networks";
+import { getRpcProviderLimits, RPC_PROVIDER_LIMITS } from "@/lib/rpc";
+
 export const PYUSD_CONFIG = {
   ethereum: {
     address: "0x6c3ea9036406852006290770BEdFcAbA0e23A0e8",
@@ -18,34 +22,15 @@ export const PYUSD_CONFIG = {
   },
 } as const;
 
-export const RPC_LIMITS = {
-  google_blockchain_api: {
-    max_block_range: 5,
-    name: "Google Blockchain API",
-    identifier: "blockchain.googleapis.com",
-  },
-  alchemy: {
-    max_block_range: 2000,
-    name: "Alchemy",
-    identifier: "alchemyapi.io",
-  },
-  infura: {
-    max_block_range: 10000,
-    name: "Infura",
-    identifier: "infura.io",
-  },
-  quicknode: {
-    max_block_range: 10000,
-    name: "QuickNode",
-    identifier: "quiknode.pro",
-  },
-  default: {
-    max_block_range: 1000,
-    name: "Default RPC",
-    identifier: "unknown",
-  },
+export const PYUSD_CHAIN_IDS = {
+  ethereum: 1,
+  sepolia: 11155111,
 } as const;
 
+// Provider limits live with the RPC layer, which also enforces their
+// request rates.
+export const RPC_LIMITS = RPC_PROVIDER_LIMITS;
+
 export const ANALYSIS_CONFIG = {
   default_block_range: 5,
   max_display_results: 1000,
@@ -155,19 +140,28 @@ export const CHART_THEMES = {
   },
 } as const;
 
-export const getContractConfig = (network: "mainnet" | "sepolia") => {
-  return network === "mainnet" ? PYUSD_CONFIG.ethereum : PYUSD_CONFIG.sepolia;
+export const getContractConfig = (
+  network: NetworkId,
+): typeof PYUSD_CONFIG.ethereum | typeof PYUSD_CONFIG.sepolia => {
+  const chainId = networkRegistry.get(network)?.chainId;
+  return chainId === PYUSD_CHAIN_IDS.sepolia
+    ? PYUSD_CONFIG.sepolia
+    : PYUSD_CONFIG.ethereum;
 };
 
-export const getRpcLimits = (rpcUrl: string) => {
-  for (const [key, config] of Object.entries(RPC_LIMITS)) {
-    if (key !== "default" && rpcUrl.includes(config.identifier)) {
-      return config;
-    }
-  }
-  return RPC_LIMITS.default;
+// Local forks keep the chain ID of the chain they fork, so the connected
+// chain ID is preferred over the configured one.
+export const hasPyusdDeployment = (network: NetworkId): boolean => {
+  const connected = blockchainService.getNetworkConfig();
+  const chainId =
+    connected?.id === network
+      ? connected.chainId
+      : networkRegistry.get(network)?.chainId;
+  return Object.values(PYUSD_CHAIN_IDS).some((id) => id === chainId);
 };
 
+export const getRpcLimits = (rpcUrl: string) => getRpcProviderLimits(rpcUrl);
+
 export const formatPyusdValue = (
   value: number,
   decimals: number = 6,
@@ -8,6 +8,7 @@ import type {
 import { EthLogsApi } from "./api";
 import { TransferProcessor } from "./processors";
 import { getRpcLimits } from "./constants";
+import type { NetworkId } from "@/lib/networks";
 
 interface ProgressCallback {
   (step: string, progress: number, message?: string): void;
@@ -30,7 +31,7 @@ export class LogsService {
 
   constructor(
     provider: ethers.JsonRpcProvider,
-    network: "mainnet" | "sepolia" = "mainnet",
+    network: NetworkId = "mainnet",
   ) {
     this.api = new EthLogsApi(provider, network);
   }
@@ -156,12 +157,10 @@ export class LogsService {
         }
       });
 
+      // No pause between batches: the request scheduler paces calls to the
+      // provider's rate limit.
       const batchResults = await Promise.all(batchPromises);
       batchResults.forEach((transfers) => allTransfers.push(...transfers));
-
-      if (i + maxConcurrent < chunks.length) {
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
     }
 
     return allTransfers;
@@ -1,3 +1,5 @@
+import type { NetworkId } from "@/lib/networks";
+
 export interface RawLogData {
   blockNumber: number;
   transactionHash: string;
@@ -103,7 +105,7 @@ export interface LogsAnalysisResults {
 export interface LogsQueryConfig {
   from_block: string | number;
   to_block: string | number;
-  network: "mainnet" | "sepolia";
+  network: NetworkId;
   contract_address?: string;
   max_results?: number;
   include_timestamps?: boolean;
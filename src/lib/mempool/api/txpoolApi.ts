@@ -202,47 +202,4 @@ export class TxPoolApi {
       throw new Error("Invalid transaction data: missing or invalid gasPrice");
     }
   }
-
-  async checkTxPoolMethodsAvailability(): Promise<{
-    txpool_status: boolean;
-    txpool_content: boolean;
-    errors: string[];
-  }> {
-    const result = {
-      txpool_status: false,
-      txpool_content: false,
-      errors: [] as string[],
-    };
-
-    if (!this.provider) {
-      result.errors.push("Provider not available");
-      return result;
-    }
-
-    try {
-      await this.provider.send("txpool_status", []);
-      result.txpool_status = true;
-    } catch (error) {
-      result.errors.push(
-        `txpool_status not available: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-
-    try {
-      const timeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error("Timeout")), 5000),
-      );
-
-      const contentPromise = this.provider.send("txpool_content", []);
-
-      await Promise.race([contentPromise, timeoutPromise]);
-      result.txpool_content = true;
-    } catch (error) {
-      result.errors.push(
-        `txpool_content not available: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-
-    return result;
-  }
 }
@@ -85,4 +85,7 @@ export const DEFAULTS = {
   REFRESH_INTERVAL: 30000,
   MAX_TRANSACTIONS_DISPLAY: 1000,
   PAGINATION_SIZE: 50,
+  // Live pending transactions not seen mined within this time are assumed
+  // dropped or replaced.
+  LIVE_PENDING_TTL: 30 * 60 * 1000,
 } as const;
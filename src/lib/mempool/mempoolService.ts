@@ -2,11 +2,14 @@ import { EthApi, TxPoolApi } from "./api";
 import { CongestionProcessor, PyusdProcessor } from "./processors";
 import { RecentTransactionProcessor } from "@/lib/mempool/processors";
 import { blockchainService } from "@/lib/blockchainService";
+import { rpcCapabilityService } from "@/lib/capabilities";
+import { subscriptionService } from "@/lib/subscriptions";
 import type {
   MempoolError,
   NetworkComparison,
   NetworkConditions,
   PyusdAnalysis,
+  TxPoolStatus,
 } from "./types";
 import { DEFAULTS } from "./constants";
 
@@ -70,26 +73,75 @@ export class MempoolService {
       const currentBaseFee =
         baseFee.status === "fulfilled" ? baseFee.value : DEFAULTS.BASE_FEE_GWEI;
 
-      const congestionAnalysis = CongestionProcessor.analyzeCongestion(
-        txPoolStatus.value
-      );
-
-      const gasRecommendations = CongestionProcessor.generateGasRecommendations(
-        currentBaseFee,
-        congestionAnalysis
+      return this.buildNetworkConditions(
+        network,
+        txPoolStatus.value,
+        currentBaseFee
       );
+    } catch (error) {
+      throw this.handleError(error, "getNetworkConditions");
+    }
+  }
 
-      return {
+  /**
+   * Network conditions for a head pushed over the network's WebSocket. The
+   * base fee comes from the header; the pool is read from the same node,
+   * keeping the previous counts when it does not expose txpool_status.
+   */
+  async getLiveNetworkConditions(
+    network: string,
+    baseFeePerGas: bigint | null,
+    previous?: NetworkConditions
+  ): Promise<NetworkConditions> {
+    let txPoolStatus: TxPoolStatus;
+    try {
+      const result = await subscriptionService.request<{
+        pending?: string;
+        queued?: string;
+      }>(network, "txpool_status");
+      const pending = parseInt(result?.pending || "0x0", 16);
+      const queued = parseInt(result?.queued || "0x0", 16);
+      txPoolStatus = {
+        pending,
+        queued,
+        total: pending + queued,
+        timestamp: Date.now(),
         network,
-        txPoolStatus: txPoolStatus.value,
-        congestionAnalysis,
-        baseFee: currentBaseFee,
-        gasRecommendations,
-        lastUpdated: Date.now(),
       };
     } catch (error) {
-      throw this.handleError(error, "getNetworkConditions");
+      if (!previous) throw this.handleError(error, "getLiveNetworkConditions");
+      txPoolStatus = previous.txPoolStatus;
     }
+
+    const baseFee =
+      baseFeePerGas !== null
+        ? Number(baseFeePerGas) / 1e9
+        : previous?.baseFee ?? DEFAULTS.BASE_FEE_GWEI;
+
+    return this.buildNetworkConditions(network, txPoolStatus, baseFee);
+  }
+
+  private buildNetworkConditions(
+    network: string,
+    txPoolStatus: TxPoolStatus,
+    baseFee: number
+  ): NetworkConditions {
+    const congestionAnalysis =
+      CongestionProcessor.analyzeCongestion(txPoolStatus);
+
+    const gasRecommendations = CongestionProcessor.generateGasRecommendations(
+      baseFee,
+      congestionAnalysis
+    );
+
+    return {
+      network,
+      txPoolStatus,
+      congestionAnalysis,
+      baseFee,
+      gasRecommendations,
+      lastUpdated: Date.now(),
+    };
   }
 
   async compareNetworks(
@@ -180,8 +232,17 @@ export class MempoolService {
       // Ensure blockchain connection is established
       await this.ensureConnection();
 
-      const availability =
-        await this.txPoolApi.checkTxPoolMethodsAvailability();
+      const { capabilities } = await rpcCapabilityService.getCapabilities();
+      const availability = {
+        txpool_status: capabilities.txpool_status.status === "supported",
+        txpool_content: capabilities.txpool_content.status === "supported",
+        errors: (["txpool_status", "txpool_content"] as const)
+          .filter((method) => capabilities[method].status !== "supported")
+          .map(
+            (method) =>
+              `${method} not available: ${capabilities[method].detail || capabilities[method].status}`
+          ),
+      };
 
       const recommendations: string[] = [];
 
@@ -8,6 +8,8 @@ import type {
   TxPoolContent,
 } from "../types";
 import { PYUSD_CONTRACTS, PYUSD_SIGNATURES } from "../constants";
+import { abiRegistry, argumentsToRecord } from "@/lib/abi";
+import type { PendingTransaction } from "@/lib/subscriptions";
 
 export class PyusdProcessor {
   static analyzePyusdTransactions(
@@ -60,6 +62,31 @@ export class PyusdProcessor {
     };
   }
 
+  /**
+   * Converts a transaction pushed by a pending-transaction subscription,
+   * or returns null when it is not sent to the network's PYUSD contract.
+   * Selector matches alone are not enough here, as every ERC-20 transfer
+   * on the network would pass.
+   */
+  static fromPendingTransaction(
+    txData: PendingTransaction,
+    network: string = "mainnet",
+  ): PyusdTransaction | null {
+    const contract = PYUSD_CONTRACTS[network as keyof typeof PYUSD_CONTRACTS];
+    if (!txData.to || txData.to.toLowerCase() !== contract) {
+      return null;
+    }
+
+    return this.convertToPyusdTransaction(
+      {
+        ...txData,
+        gasPrice: txData.gasPrice || txData.maxFeePerGas || "0x0",
+      },
+      txData.from,
+      "pending",
+    );
+  }
+
   private static isPyusdTransaction(
     txData: TransactionData,
     network: string,
@@ -93,7 +120,7 @@ export class PyusdProcessor {
       const nonce = parseInt(txData.nonce, 16);
       const valueEth = txData.value ? parseInt(txData.value, 16) / 1e18 : 0;
 
-      const pyusdFunction = this.decodePyusdFunction(txData.input);
+      const pyusdFunction = this.decodePyusdFunction(txData.input, txData.to);
 
       return {
         hash: txData.hash,
@@ -112,7 +139,10 @@ export class PyusdProcessor {
     }
   }
 
-  private static decodePyusdFunction(inputData: string): PyusdFunction {
+  private static decodePyusdFunction(
+    inputData: string,
+    contractAddress?: string | null,
+  ): PyusdFunction {
     if (!inputData || inputData.length < 10) {
       return {
         name: "Unknown",
@@ -132,6 +162,17 @@ export class PyusdProcessor {
       };
     }
 
+    const decoded = abiRegistry.decodeFunction(inputData, {
+      address: contractAddress,
+    });
+    if (decoded) {
+      return {
+        name: decoded.name,
+        signature: methodSignature,
+        parameters: argumentsToRecord(decoded.args),
+      };
+    }
+
     return {
       name: "Unknown",
       signature: methodSignature,
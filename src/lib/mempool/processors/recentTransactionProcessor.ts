@@ -1,5 +1,7 @@
 import { ethers } from "ethers";
+import { abiRegistry, argumentsToRecord } from "@/lib/abi";
 import { blockchainService } from "@/lib/blockchainService";
+import { signatureDatabase } from "@/lib/signatures";
 import { PyusdProcessor } from "./pyusdProcessor";
 import type { PyusdAnalysis, PyusdTransaction } from "../types";
 import { PYUSD_CONTRACTS, PYUSD_SIGNATURES } from "../constants";
@@ -117,7 +119,14 @@ export class RecentTransactionProcessor {
       const nonce = tx.nonce ? parseInt(tx.nonce, 16) : 0;
       const valueEth = tx.value ? parseInt(tx.value, 16) / 1e18 : 0;
 
-      const pyusdFunction = this.decodePyusdFunction(tx.data || tx.input || "");
+      await signatureDatabase.prefetchFrom([
+        { input: tx.data || tx.input },
+        traceResult,
+      ]);
+      const pyusdFunction = this.decodePyusdFunction(
+        tx.data || tx.input || "",
+        tx.to,
+      );
 
       let enhancedFunction = pyusdFunction;
       if (traceResult && traceResult.calls) {
@@ -153,7 +162,10 @@ export class RecentTransactionProcessor {
       const nonce = tx.nonce ? parseInt(tx.nonce, 16) : 0;
       const valueEth = tx.value ? parseInt(tx.value, 16) / 1e18 : 0;
 
-      const pyusdFunction = this.decodePyusdFunction(tx.data || tx.input || "");
+      const pyusdFunction = this.decodePyusdFunction(
+        tx.data || tx.input || "",
+        tx.to,
+      );
 
       return {
         hash: tx.hash,
@@ -172,7 +184,10 @@ export class RecentTransactionProcessor {
     }
   }
 
-  private static decodePyusdFunction(inputData: string): any {
+  private static decodePyusdFunction(
+    inputData: string,
+    contractAddress?: string | null,
+  ): any {
     if (!inputData || inputData.length < 10) {
       return {
         name: "Unknown",
@@ -192,6 +207,17 @@ export class RecentTransactionProcessor {
       };
     }
 
+    const decoded = abiRegistry.decodeFunction(inputData, {
+      address: contractAddress,
+    });
+    if (decoded) {
+      return {
+        name: decoded.name,
+        signature: methodSignature,
+        parameters: argumentsToRecord(decoded.args),
+      };
+    }
+
     return {
       name: "Unknown",
       signature: methodSignature,
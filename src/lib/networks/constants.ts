@@ -0,0 +1,71 @@
+import { RPC_CONFIG } from "@/lib/config";
+import type { NetworkConfig, NetworkId } from "./types";
+
+export const DEFAULT_NETWORK_ID: NetworkId = "mainnet";
+
+export const NETWORK_STORAGE_PREFIX = "arguschain_networks_";
+export const ANONYMOUS_NETWORK_SCOPE = "anonymous";
+
+const parseUrlList = (value?: string): string[] =>
+  (value || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+export const BUILTIN_NETWORKS: NetworkConfig[] = [
+  {
+    id: "mainnet",
+    ...RPC_CONFIG.mainnet,
+    fallbackRpcUrls: parseUrlList(
+      import.meta.env.VITE_MAINNET_FALLBACK_RPC_URLS,
+    ),
+    wsUrl: import.meta.env.VITE_MAINNET_WS_URL || undefined,
+    isTestnet: false,
+    isBuiltIn: true,
+  },
+  {
+    id: "sepolia",
+    ...RPC_CONFIG.sepolia,
+    fallbackRpcUrls: parseUrlList(
+      import.meta.env.VITE_SEPOLIA_FALLBACK_RPC_URLS,
+    ),
+    wsUrl: import.meta.env.VITE_SEPOLIA_WS_URL || undefined,
+    isTestnet: true,
+    isBuiltIn: true,
+  },
+  {
+    id: "holesky",
+    name: "Holesky Testnet",
+    chainId: 17000,
+    rpcUrl:
+      import.meta.env.VITE_HOLESKY_RPC_URL ||
+      "https://ethereum-holesky.publicnode.com",
+    fallbackRpcUrls: parseUrlList(
+      import.meta.env.VITE_HOLESKY_FALLBACK_RPC_URLS,
+    ),
+    wsUrl: import.meta.env.VITE_HOLESKY_WS_URL || undefined,
+    blockExplorer: "https://holesky.etherscan.io",
+    nativeCurrency: { name: "Ethereum", symbol: "ETH", decimals: 18 },
+    isTestnet: true,
+    isBuiltIn: true,
+  },
+  {
+    id: "localhost",
+    name: "Local Devnet",
+    chainId: 31337,
+    rpcUrl: import.meta.env.VITE_LOCAL_RPC_URL || "http://127.0.0.1:8545",
+    nativeCurrency: { name: "Ethereum", symbol: "ETH", decimals: 18 },
+    isTestnet: true,
+    isBuiltIn: true,
+    isLocal: true,
+  },
+];
+
+// Networks tried, in order, when no preferred network is given.
+export const FALLBACK_NETWORK_IDS: NetworkId[] = ["mainnet", "sepolia"];
+
+export const NETWORK_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,47}$/;
+export const RPC_URL_PATTERN = /^https?:\/\/.+/i;
+export const WS_URL_PATTERN = /^wss?:\/\/.+/i;
+export const LOCAL_RPC_URL_PATTERN =
+  /^(https?|wss?):\/\/(localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1\])(:\d+)?(\/|$)/i;
@@ -0,0 +1,13 @@
+export {
+  NetworkRegistry,
+  networkRegistry,
+  getNetworkConfig,
+  getNetworkName,
+  getExplorerUrl,
+  getNetworkRpcUrls,
+  getNetworkWsUrl,
+  isLocalNetwork,
+} from "./networkRegistry";
+
+export * from "./types";
+export * from "./constants";
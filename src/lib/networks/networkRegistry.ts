@@ -0,0 +1,394 @@
+import {
+  ANONYMOUS_NETWORK_SCOPE,
+  BUILTIN_NETWORKS,
+  DEFAULT_NETWORK_ID,
+  FALLBACK_NETWORK_IDS,
+  LOCAL_RPC_URL_PATTERN,
+  NETWORK_ID_PATTERN,
+  NETWORK_STORAGE_PREFIX,
+  RPC_URL_PATTERN,
+  WS_URL_PATTERN,
+} from "./constants";
+import type {
+  NetworkConfig,
+  NetworkId,
+  NetworkInput,
+  NetworkRegistryListener,
+  NetworkValidationResult,
+} from "./types";
+
+type NetworkOverride = Partial<
+  Pick<NetworkConfig, "rpcUrl" | "fallbackRpcUrls" | "blockExplorer">
+>;
+
+interface StoredNetworks {
+  custom: NetworkConfig[];
+  overrides: Record<NetworkId, NetworkOverride>;
+}
+
+export class NetworkRegistry {
+  private scope: string = ANONYMOUS_NETWORK_SCOPE;
+  private custom: NetworkConfig[] = [];
+  private overrides: Record<NetworkId, NetworkOverride> = {};
+  private listeners = new Set<NetworkRegistryListener>();
+  private snapshot: NetworkConfig[] = [];
+
+  constructor() {
+    this.load();
+  }
+
+  setUserScope(userId: string | null | undefined): void {
+    const scope = userId || ANONYMOUS_NETWORK_SCOPE;
+    if (scope === this.scope) return;
+
+    this.scope = scope;
+    this.load();
+  }
+
+  getUserScope(): string {
+    return this.scope;
+  }
+
+  getAll(): NetworkConfig[] {
+    return this.snapshot;
+  }
+
+  get(id: NetworkId): NetworkConfig | null {
+    return this.snapshot.find((network) => network.id === id) || null;
+  }
+
+  getByChainId(chainId: number): NetworkConfig | null {
+    return this.snapshot.find((network) => network.chainId === chainId) || null;
+  }
+
+  has(id: NetworkId): boolean {
+    return this.get(id) !== null;
+  }
+
+  getDefault(): NetworkConfig {
+    return this.get(DEFAULT_NETWORK_ID) || this.snapshot[0];
+  }
+
+  /**
+   * Candidate networks for a connection attempt: only the preferred network
+   * when one is given, so a dead endpoint is never swapped for another
+   * chain, otherwise the built-in fallbacks.
+   */
+  getConnectionCandidates(preferred?: NetworkId): NetworkConfig[] {
+    const ids = preferred ? [preferred] : FALLBACK_NETWORK_IDS;
+
+    return ids
+      .map((id) => this.get(id))
+      .filter((network): network is NetworkConfig => network !== null);
+  }
+
+  validate(
+    input: NetworkInput,
+    existingId?: NetworkId,
+  ): NetworkValidationResult {
+    const errors: string[] = [];
+
+    if (!input.name?.trim()) {
+      errors.push("Network name is required");
+    }
+
+    if (!Number.isInteger(input.chainId) || input.chainId <= 0) {
+      errors.push("Chain ID must be a positive integer");
+    }
+
+    if (!input.rpcUrl || !RPC_URL_PATTERN.test(input.rpcUrl.trim())) {
+      errors.push(
+        "RPC URL must start with http(s)://; put WebSocket endpoints in the WebSocket URL",
+      );
+    }
+
+    const invalidFallback = (input.fallbackRpcUrls || []).find(
+      (url) => !RPC_URL_PATTERN.test(url.trim()),
+    );
+    if (invalidFallback) {
+      errors.push(
+        `Fallback RPC URL must be an http(s) URL: ${invalidFallback}`,
+      );
+    }
+
+    if (input.wsUrl && !WS_URL_PATTERN.test(input.wsUrl.trim())) {
+      errors.push("WebSocket URL must start with ws:// or wss://");
+    }
+
+    if (input.blockExplorer && !/^https?:\/\/.+/i.test(input.blockExplorer)) {
+      errors.push("Block explorer must be an http(s) URL");
+    }
+
+    const currency = input.nativeCurrency;
+    if (!currency?.symbol?.trim()) {
+      errors.push("Native currency symbol is required");
+    }
+    if (
+      !currency ||
+      !Number.isInteger(currency.decimals) ||
+      currency.decimals < 0 ||
+      currency.decimals > 36
+    ) {
+      errors.push("Native currency decimals must be between 0 and 36");
+    }
+
+    const id = input.id ?? this.createId(input.name || "");
+    if (!NETWORK_ID_PATTERN.test(id)) {
+      errors.push(
+        "Network ID may only contain lowercase letters, digits and dashes",
+      );
+    } else if (id !== existingId && this.has(id)) {
+      errors.push(`A network with ID "${id}" already exists`);
+    }
+
+    const sameChain = this.getByChainId(input.chainId);
+    if (sameChain && sameChain.id !== existingId) {
+      errors.push(
+        `Chain ID ${input.chainId} is already registered as ${sameChain.name}`,
+      );
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  add(input: NetworkInput): NetworkConfig {
+    const validation = this.validate(input);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join("; "));
+    }
+
+    const network = this.normalize({
+      ...input,
+      id: input.id ?? this.createId(input.name),
+    });
+
+    this.custom = [...this.custom, network];
+    this.commit();
+    return network;
+  }
+
+  update(id: NetworkId, updates: Partial<NetworkInput>): NetworkConfig {
+    const existing = this.get(id);
+    if (!existing) {
+      throw new Error(`Unknown network: ${id}`);
+    }
+
+    if (existing.isBuiltIn) {
+      const override: NetworkOverride = {
+        ...this.overrides[id],
+        ...(updates.rpcUrl !== undefined && { rpcUrl: updates.rpcUrl.trim() }),
+        ...(updates.fallbackRpcUrls !== undefined && {
+          fallbackRpcUrls: this.normalizeUrls(updates.fallbackRpcUrls),
+        }),
+        ...(updates.blockExplorer !== undefined && {
+          blockExplorer: updates.blockExplorer.trim(),
+        }),
+      };
+
+      const validation = this.validate({ ...existing, ...override }, id);
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join("; "));
+      }
+
+      this.overrides = { ...this.overrides, [id]: override };
+    } else {
+      const merged = { ...existing, ...updates, id };
+      const validation = this.validate(merged, id);
+      if (!validation.isValid) {
+        throw new Error(validation.errors.join("; "));
+      }
+
+      this.custom = this.custom.map((network) =>
+        network.id === id ? this.normalize(merged) : network,
+      );
+    }
+
+    this.commit();
+    return this.get(id)!;
+  }
+
+  remove(id: NetworkId): void {
+    const existing = this.get(id);
+    if (!existing) return;
+
+    if (existing.isBuiltIn) {
+      this.resetBuiltIn(id);
+      return;
+    }
+
+    this.custom = this.custom.filter((network) => network.id !== id);
+    this.commit();
+  }
+
+  resetBuiltIn(id: NetworkId): void {
+    if (!this.overrides[id]) return;
+
+    const { [id]: _removed, ...rest } = this.overrides;
+    this.overrides = rest;
+    this.commit();
+  }
+
+  subscribe(listener: NetworkRegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private createId(name: string): NetworkId {
+    const base =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 40) || "network";
+
+    let id = base;
+    let suffix = 2;
+    while (this.has(id)) {
+      id = `${base}-${suffix++}`;
+    }
+    return id;
+  }
+
+  private normalize(input: NetworkInput & { id: NetworkId }): NetworkConfig {
+    return {
+      id: input.id,
+      name: input.name.trim(),
+      chainId: input.chainId,
+      rpcUrl: input.rpcUrl.trim(),
+      fallbackRpcUrls: this.normalizeUrls(input.fallbackRpcUrls),
+      wsUrl: input.wsUrl?.trim() || undefined,
+      blockExplorer: input.blockExplorer?.trim() || undefined,
+      nativeCurrency: {
+        name: input.nativeCurrency.name?.trim() || input.nativeCurrency.symbol,
+        symbol: input.nativeCurrency.symbol.trim(),
+        decimals: input.nativeCurrency.decimals,
+      },
+      isTestnet: input.isTestnet ?? false,
+      isBuiltIn: false,
+      isLocal: input.isLocal ?? LOCAL_RPC_URL_PATTERN.test(input.rpcUrl.trim()),
+    };
+  }
+
+  private normalizeUrls(urls?: string[]): string[] {
+    return Array.from(
+      new Set((urls || []).map((url) => url.trim()).filter(Boolean)),
+    );
+  }
+
+  private rebuild(): void {
+    const builtIns = BUILTIN_NETWORKS.map((network) => ({
+      ...network,
+      ...this.overrides[network.id],
+    }));
+    this.snapshot = [...builtIns, ...this.custom];
+  }
+
+  private commit(): void {
+    this.rebuild();
+    this.save();
+    this.listeners.forEach((listener) => listener(this.snapshot));
+  }
+
+  private getStorageKey(): string {
+    return `${NETWORK_STORAGE_PREFIX}${this.scope}`;
+  }
+
+  private load(): void {
+    this.custom = [];
+    this.overrides = {};
+
+    try {
+      const stored = localStorage.getItem(this.getStorageKey());
+      if (stored) {
+        const parsed: StoredNetworks = JSON.parse(stored);
+        const builtInIds = new Set(BUILTIN_NETWORKS.map((n) => n.id));
+
+        this.custom = (parsed.custom || []).filter(
+          (network) => network?.id && !builtInIds.has(network.id),
+        );
+        this.overrides = parsed.overrides || {};
+      }
+    } catch (error) {
+      console.warn("Failed to load network registry:", error);
+    }
+
+    this.rebuild();
+    this.listeners.forEach((listener) => listener(this.snapshot));
+  }
+
+  private save(): void {
+    try {
+      const data: StoredNetworks = {
+        custom: this.custom,
+        overrides: this.overrides,
+      };
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(data));
+    } catch (error) {
+      console.warn("Failed to save network registry:", error);
+    }
+  }
+}
+
+export const networkRegistry = new NetworkRegistry();
+
+export function getNetworkConfig(id: NetworkId): NetworkConfig | null {
+  return networkRegistry.get(id);
+}
+
+export function getNetworkName(id: NetworkId): string {
+  return networkRegistry.get(id)?.name || id;
+}
+
+/**
+ * All RPC endpoints of a network, primary first, without duplicates.
+ */
+export function getNetworkRpcUrls(network: NetworkConfig): string[] {
+  return Array.from(
+    new Set([network.rpcUrl, ...(network.fallbackRpcUrls || [])]),
+  );
+}
+
+/**
+ * WebSocket endpoint of a network, configured or derived from its RPC
+ * URLs; null when none is known.
+ */
+export function getNetworkWsUrl(network: NetworkConfig): string | null {
+  if (network.wsUrl) return network.wsUrl;
+
+  const urls = getNetworkRpcUrls(network);
+  const wsUrl = urls.find((url) => WS_URL_PATTERN.test(url));
+  if (wsUrl) return wsUrl;
+
+  for (const url of urls) {
+    if (/\.g\.alchemy\.com\//i.test(url)) {
+      return url.replace(/^http/i, "ws");
+    }
+    const infura = url.match(/^https:\/\/([^/]+\.infura\.io)\/v3\/(.+)$/i);
+    if (infura) return `wss://${infura[1]}/ws/v3/${infura[2]}`;
+    if (LOCAL_RPC_URL_PATTERN.test(url)) return url.replace(/^http/i, "ws");
+  }
+  return null;
+}
+
+/**
+ * Whether the network is a local development node. Networks added before
+ * the flag existed are recognised by a loopback RPC URL.
+ */
+export function isLocalNetwork(
+  network: NetworkConfig | null | undefined,
+): boolean {
+  if (!network) return false;
+  return network.isLocal ?? LOCAL_RPC_URL_PATTERN.test(network.rpcUrl);
+}
+
+export function getExplorerUrl(
+  id: NetworkId,
+  type: "tx" | "address" | "block",
+  value: string | number,
+): string | null {
+  const explorer = networkRegistry.get(id)?.blockExplorer;
+  if (!explorer) return null;
+  return `${explorer.replace(/\/+$/, "")}/${type}/${value}`;
+}
@@ -0,0 +1,47 @@
+export type NetworkId = string;
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  // Extra endpoints for the same chain, used for failover.
+  fallbackRpcUrls?: string[];
+  // WebSocket endpoint for eth_subscribe. Derived from the RPC URL for
+  // providers that serve both when left out.
+  wsUrl?: string;
+  blockExplorer?: string;
+  nativeCurrency: NativeCurrency;
+  isTestnet?: boolean;
+  isBuiltIn?: boolean;
+  // Development node such as Anvil or Hardhat: no explorer, and the chain ID
+  // is taken from the node since forks keep the forked chain's ID.
+  isLocal?: boolean;
+}
+
+export type NetworkInput = Omit<NetworkConfig, "id" | "isBuiltIn"> & {
+  id?: NetworkId;
+};
+
+export interface NetworkValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+export type NetworkRegistryListener = (networks: NetworkConfig[]) => void;
+
+export class NetworkConnectionError extends Error {
+  public networkId: NetworkId;
+
+  constructor(message: string, networkId: NetworkId) {
+    super(message);
+    this.name = "NetworkConnectionError";
+    this.networkId = networkId;
+  }
+}
@@ -1,4 +1,6 @@
 import { blockchainService } from "@/lib/blockchainService";
+import { stateHistoryService } from "@/lib/capabilities";
+import { StateUnavailableError } from "@/lib/rpc";
 import type {
   ReplayBlockRequest,
   ReplayBlockResult,
@@ -35,7 +37,10 @@ export class ReplayApi {
 
       return this.validateReplayTransactionResult(result);
     } catch (error) {
-      throw this.handleRpcError(error, "replayTransaction");
+      throw this.handleRpcError(
+        await stateHistoryService.explainError(error, [], "Transaction replay"),
+        "replayTransaction",
+      );
     }
   }
 
@@ -55,6 +60,10 @@ export class ReplayApi {
         throw new Error("Provider not available");
       }
 
+      await stateHistoryService.assertAvailable(
+        blockIdentifier,
+        "Block replay",
+      );
       const blockParam = this.formatBlockIdentifier(blockIdentifier);
 
       const params = [blockParam, tracers];
@@ -66,7 +75,14 @@ export class ReplayApi {
 
       return this.validateReplayBlockResult(result);
     } catch (error) {
-      throw this.handleRpcError(error, "replayBlockTransactions");
+      throw this.handleRpcError(
+        await stateHistoryService.explainError(
+          error,
+          [blockIdentifier],
+          "Block replay",
+        ),
+        "replayBlockTransactions",
+      );
     }
   }
 
@@ -184,6 +200,10 @@ export class ReplayApi {
         throw new Error("Provider not available");
       }
 
+      await stateHistoryService.assertAvailable(
+        blockIdentifier,
+        "Block replay",
+      );
       const blockParam = this.formatBlockIdentifier(blockIdentifier);
 
       options?.onProgress?.({
@@ -227,7 +247,14 @@ export class ReplayApi {
 
       return this.validateReplayBlockResult(result);
     } catch (error) {
-      throw this.handleRpcError(error, "replayBlockTransactions");
+      throw this.handleRpcError(
+        await stateHistoryService.explainError(
+          error,
+          [blockIdentifier],
+          "Block replay",
+        ),
+        "replayBlockTransactions",
+      );
     }
   }
 
@@ -471,8 +498,14 @@ export class ReplayApi {
     });
   }
 
-  private static handleRpcError(error: any, operation: string): ReplayError {
-    if (error instanceof ReplayError) {
+  private static handleRpcError(
+    error: any,
+    operation: string,
+  ): ReplayError | StateUnavailableError {
+    if (
+      error instanceof ReplayError ||
+      error instanceof StateUnavailableError
+    ) {
       return error;
     }
 
@@ -508,7 +541,9 @@ export class ReplayApi {
     );
   }
 
+  // Missing state will not reappear on retry either.
   private static isValidationError(error: any): boolean {
+    if (error instanceof StateUnavailableError) return true;
     return (
       error instanceof ReplayError &&
       [
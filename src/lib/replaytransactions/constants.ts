@@ -1,3 +1,4 @@
+import { abiRegistry } from "@/lib/abi";
 import type { ReplayTracer, TokenConfig } from "./types";
 
 export const REPLAY_CONFIG = {
@@ -352,8 +353,23 @@ export const getTokenConfig = (address: string): TokenConfig | undefined => {
   );
 };
 
-export const getFunctionSignature = (signature: string) => {
-  return ERC20_SIGNATURES[signature as keyof typeof ERC20_SIGNATURES];
+export const getFunctionSignature = (
+  signature: string,
+  contractAddress?: string,
+): { name: string; category: string } | undefined => {
+  const known = ERC20_SIGNATURES[signature as keyof typeof ERC20_SIGNATURES];
+  if (known) return known;
+
+  const registered = abiRegistry.lookupFunction(signature, {
+    address: contractAddress,
+  });
+  if (!registered) return undefined;
+  return {
+    name: registered.name,
+    category: ["view", "pure"].includes(registered.stateMutability)
+      ? "view"
+      : "other",
+  };
 };
 
 export const getOpcodeCategory = (opcode: string): string => {
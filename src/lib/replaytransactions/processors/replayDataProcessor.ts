@@ -77,6 +77,7 @@ export class ReplayDataProcessor {
       processedData.vmTraceAnalysis = this.processVmTraceData(
         replayResult.vmTrace,
       );
+      processedData.vmTrace = replayResult.vmTrace;
     }
 
     processedData.tokenAnalysis = this.generateTokenAnalysis(processedData);
@@ -125,7 +126,7 @@ export class ReplayDataProcessor {
           existing.gasUsed += gasUsed;
           if (input && input !== "0x") {
             const methodSig = input.slice(0, 10);
-            const functionInfo = getFunctionSignature(methodSig);
+            const functionInfo = getFunctionSignature(methodSig, to);
             if (
               functionInfo &&
               !existing.functions.includes(functionInfo.name)
@@ -137,7 +138,7 @@ export class ReplayDataProcessor {
           const functions: string[] = [];
           if (input && input !== "0x") {
             const methodSig = input.slice(0, 10);
-            const functionInfo = getFunctionSignature(methodSig);
+            const functionInfo = getFunctionSignature(methodSig, to);
             if (functionInfo) {
               functions.push(functionInfo.name);
             }
@@ -156,7 +157,7 @@ export class ReplayDataProcessor {
 
       if (input && input !== "0x" && input.length >= 10) {
         const methodSig = input.slice(0, 10);
-        const functionInfo = getFunctionSignature(methodSig);
+        const functionInfo = getFunctionSignature(methodSig, to);
 
         if (functionInfo) {
           const gasCategory = categorizeGasUsage(gasUsed, functionInfo.name);
@@ -177,10 +177,12 @@ export class StateDiffProcessor {
     codeChange: { from?: string; to?: string },
   ): CodeChange {
     let changeType: "created" | "destroyed" | "modified";
+    const hasFrom = !!codeChange.from && codeChange.from !== "0x";
+    const hasTo = !!codeChange.to && codeChange.to !== "0x";
 
-    if (!codeChange.from && codeChange.to) {
+    if (!hasFrom && hasTo) {
       changeType = "created";
-    } else if (codeChange.from && !codeChange.to) {
+    } else if (hasFrom && !hasTo) {
       changeType = "destroyed";
     } else {
       changeType = "modified";
@@ -190,10 +192,8 @@ export class StateDiffProcessor {
       address,
       contractName,
       changeType,
-      fromCodeHash: codeChange.from
-        ? this.hashCode(codeChange.from)
-        : undefined,
-      toCodeHash: codeChange.to ? this.hashCode(codeChange.to) : undefined,
+      fromCodeHash: hasFrom ? this.hashCode(codeChange.from!) : undefined,
+      toCodeHash: hasTo ? this.hashCode(codeChange.to!) : undefined,
     };
   }
 
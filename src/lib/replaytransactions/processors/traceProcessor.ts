@@ -135,7 +135,7 @@ export class TraceProcessor {
 
       if (input && input.length >= 10) {
         const signature = input.slice(0, 10);
-        const functionInfo = getFunctionSignature(signature);
+        const functionInfo = getFunctionSignature(signature, address);
         if (functionInfo && !existing.functions.includes(functionInfo.name)) {
           existing.functions.push(functionInfo.name);
         }
@@ -144,7 +144,7 @@ export class TraceProcessor {
       const functions: string[] = [];
       if (input && input.length >= 10) {
         const signature = input.slice(0, 10);
-        const functionInfo = getFunctionSignature(signature);
+        const functionInfo = getFunctionSignature(signature, address);
         if (functionInfo) {
           functions.push(functionInfo.name);
         }
@@ -172,7 +172,7 @@ export class TraceProcessor {
     if (input.length < 10) return null;
 
     const signature = input.slice(0, 10);
-    const functionInfo = getFunctionSignature(signature);
+    const functionInfo = getFunctionSignature(signature, to);
 
     if (!functionInfo) {
       return {
@@ -285,7 +285,7 @@ export class TraceProcessor {
     const tokenConfig = getTokenConfig(action.to);
     const functionInfo =
       action.input && action.input.length >= 10
-        ? getFunctionSignature(action.input.slice(0, 10))
+        ? getFunctionSignature(action.input.slice(0, 10), action.to)
         : null;
 
     return {
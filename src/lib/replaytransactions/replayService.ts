@@ -1,3 +1,4 @@
+import { signatureDatabase } from "@/lib/signatures";
 import { ReplayApi } from "./api";
 import {
   ReplayDataProcessor,
@@ -29,6 +30,7 @@ export class ReplayService {
     };
 
     const replayResult = await ReplayApi.replayTransactionWithRetry(request);
+    await signatureDatabase.prefetchFrom(replayResult.trace);
 
     const processedData = ReplayDataProcessor.processReplayResult(
       replayResult,
@@ -72,6 +74,10 @@ export class ReplayService {
       },
     );
 
+    await signatureDatabase.prefetchFrom(
+      Object.values(replayResults).map((result) => result.trace),
+    );
+
     const blockData: ProcessedBlockReplayData = {
       blockIdentifier: blockIdentifier.toString(),
       network,
@@ -108,6 +108,8 @@ export interface ProcessedReplayData {
   stateDiffAnalysis?: StateDiffAnalysis;
 
   vmTraceAnalysis?: VmTraceAnalysis;
+  // Raw vmTrace, kept for step-level views such as source mapping.
+  vmTrace?: VmTraceResult;
 
   securityFlags: SecurityFlag[];
 
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BatchTransport } from "./batchTransport";
+import { RPC_ERROR_CODES } from "./constants";
+import type { JsonRpcPayload } from "./types";
+
+type Handler = (
+  body: JsonRpcPayload | JsonRpcPayload[],
+) => unknown | Promise<unknown>;
+
+const answer = (payload: JsonRpcPayload) => ({
+  jsonrpc: "2.0",
+  id: payload.id,
+  result: payload.method,
+});
+
+const mockFetch = (handler: Handler) => {
+  const bodies: (JsonRpcPayload | JsonRpcPayload[])[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      bodies.push(body);
+      return new Response(JSON.stringify(await handler(body)));
+    }),
+  );
+  return bodies;
+};
+
+describe("BatchTransport", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("does not hold later calls behind a slow trace call", async () => {
+    let finishTrace: () => void = () => {};
+    const traceDone = new Promise<void>((resolve) => (finishTrace = resolve));
+    mockFetch(async (body) => {
+      if (Array.isArray(body)) return body.map(answer);
+      if (body.method.startsWith("debug_")) await traceDone;
+      return answer(body);
+    });
+    const transport = new BatchTransport("http://node", {
+      maxBatchSize: 2,
+      maxConcurrentBatches: 1,
+    });
+
+    const trace = transport.request("debug_traceTransaction", ["0x1"]);
+    const first = transport.request("eth_chainId");
+    const later = transport.request("eth_blockNumber");
+
+    await expect(first).resolves.toBe("eth_chainId");
+    await expect(later).resolves.toBe("eth_blockNumber");
+    finishTrace();
+    await expect(trace).resolves.toBe("debug_traceTransaction");
+  });
+
+  it("resends an explicit batch one by one when batches are rejected", async () => {
+    const bodies = mockFetch((body) =>
+      Array.isArray(body)
+        ? {
+            jsonrpc: "2.0",
+            id: null,
+            error: {
+              code: RPC_ERROR_CODES.INVALID_REQUEST,
+              message: "batch requests are not supported",
+            },
+          }
+        : answer(body),
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const transport = new BatchTransport("http://node");
+
+    const results = await transport.requestBatch([
+      { method: "eth_chainId" },
+      { method: "eth_blockNumber" },
+    ]);
+
+    expect(results).toEqual([
+      { method: "eth_chainId", result: "eth_chainId" },
+      { method: "eth_blockNumber", result: "eth_blockNumber" },
+    ]);
+    expect(transport.isBatchSupported()).toBe(false);
+    expect(bodies.filter(Array.isArray)).toHaveLength(1);
+  });
+
+  it("keeps batching when a batch is answered with a rate limit", async () => {
+    mockFetch(() => ({
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: RPC_ERROR_CODES.LIMIT_EXCEEDED, message: "slow down" },
+    }));
+    const transport = new BatchTransport("http://node");
+
+    await expect(
+      transport.requestBatch([
+        { method: "eth_chainId" },
+        { method: "eth_blockNumber" },
+      ]),
+    ).rejects.toMatchObject({ code: RPC_ERROR_CODES.LIMIT_EXCEEDED });
+    expect(transport.isBatchSupported()).toBe(true);
+  });
+});
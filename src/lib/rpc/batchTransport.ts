@@ -0,0 +1,425 @@
+import {
+  BATCH_UNSUPPORTED_ERROR_CODES,
+  DEFAULT_BATCH_OPTIONS,
+  NON_DEDUPLICATED_METHOD_PREFIXES,
+  RETRYABLE_HTTP_STATUSES,
+  RPC_ERROR_CODES,
+  TRACE_METHOD_PREFIXES,
+} from "./constants";
+import { toStateUnavailableError } from "./stateErrors";
+import {
+  RpcError,
+  type BatchTransportOptions,
+  type BatchTransportStats,
+  type JsonRpcPayload,
+  type JsonRpcResponse,
+  type RpcBatchResult,
+  type RpcRequest,
+} from "./types";
+
+const isTraceMethod = (method: string): boolean =>
+  TRACE_METHOD_PREFIXES.some((prefix) => method.startsWith(prefix));
+
+interface PendingRequest {
+  payload: JsonRpcPayload;
+  resolve: (value: unknown) => void;
+  reject: (error: RpcError) => void;
+}
+
+export class BatchTransport {
+  private readonly url: string;
+  private readonly options: BatchTransportOptions;
+  private queue: PendingRequest[] = [];
+  private inFlight = new Map<string, Promise<unknown>>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private activeBatches = 0;
+  private nextId = 1;
+  private supportsBatch = true;
+  private stats: BatchTransportStats = {
+    requests: 0,
+    deduplicated: 0,
+    batches: 0,
+    errors: 0,
+  };
+
+  constructor(url: string, options: Partial<BatchTransportOptions> = {}) {
+    this.url = url;
+    this.options = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  getStats(): BatchTransportStats {
+    return { ...this.stats };
+  }
+
+  isBatchSupported(): boolean {
+    return this.supportsBatch;
+  }
+
+  /**
+   * Queues a single call. Calls made within the same stall window are sent
+   * together as one JSON-RPC batch, and identical in-flight calls share a
+   * single request.
+   */
+  request<T = unknown>(method: string, params: unknown[] = []): Promise<T> {
+    this.stats.requests++;
+
+    const dedupeKey = this.getDedupeKey(method, params);
+    if (dedupeKey) {
+      const existing = this.inFlight.get(dedupeKey);
+      if (existing) {
+        this.stats.deduplicated++;
+        return existing as Promise<T>;
+      }
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        payload: this.createPayload(method, params),
+        resolve,
+        reject,
+      });
+    });
+
+    if (dedupeKey) {
+      this.inFlight.set(dedupeKey, promise);
+      const release = () => {
+        if (this.inFlight.get(dedupeKey) === promise) {
+          this.inFlight.delete(dedupeKey);
+        }
+      };
+      promise.then(release, release);
+    }
+
+    this.scheduleFlush();
+    return promise;
+  }
+
+  /**
+   * Sends the given calls as one explicit batch and reports the outcome of
+   * every item. Trace calls are sent on their own so their long timeout
+   * does not hold up the rest. Rejects only when the batch as a whole
+   * cannot be delivered.
+   */
+  async requestBatch(requests: RpcRequest[]): Promise<RpcBatchResult[]> {
+    if (requests.length === 0) return [];
+
+    this.stats.requests += requests.length;
+    const payloads = requests.map((request) =>
+      this.createPayload(request.method, request.params || []),
+    );
+    const traces = payloads.filter((payload) => isTraceMethod(payload.method));
+    const others = payloads.filter((payload) => !isTraceMethod(payload.method));
+
+    const [batchResponses, traceResponses] = await Promise.all([
+      this.postBatch(others).then((responses) => Promise.all(responses)),
+      Promise.all(traces.map((payload) => this.postSingle(payload))),
+    ]);
+
+    const byId = new Map<number, JsonRpcResponse | RpcError | undefined>();
+    others.forEach((payload, index) =>
+      byId.set(payload.id, batchResponses[index]),
+    );
+    traces.forEach((payload, index) =>
+      byId.set(payload.id, traceResponses[index]),
+    );
+
+    return payloads.map((payload) => {
+      const response = byId.get(payload.id);
+      if (response instanceof RpcError) {
+        this.stats.errors++;
+        return { method: payload.method, error: response };
+      }
+      if (!response) {
+        return {
+          method: payload.method,
+          error: new RpcError(
+            RPC_ERROR_CODES.INTERNAL_ERROR,
+            "Missing response for batched request",
+            payload.method,
+          ),
+        };
+      }
+      if (response.error) {
+        this.stats.errors++;
+        return {
+          method: payload.method,
+          error: this.toRpcError(response, payload.method),
+        };
+      }
+      return { method: payload.method, result: response.result };
+    });
+  }
+
+  /**
+   * Sends queued calls, up to `maxConcurrentBatches` batches at a time.
+   * Calls left in the queue go out as soon as a batch completes.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const started: Promise<void>[] = [];
+    while (
+      this.queue.length > 0 &&
+      this.activeBatches < this.options.maxConcurrentBatches
+    ) {
+      const batch = this.queue.splice(0, this.options.maxBatchSize);
+      this.activeBatches++;
+      started.push(
+        this.dispatch(batch).finally(() => {
+          this.activeBatches--;
+          if (this.queue.length > 0) void this.flush();
+        }),
+      );
+    }
+    await Promise.all(started);
+  }
+
+  private scheduleFlush(): void {
+    if (this.queue.length >= this.options.maxBatchSize) {
+      void this.flush();
+      return;
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, this.options.batchStallTime);
+    }
+  }
+
+  private async dispatch(batch: PendingRequest[]): Promise<void> {
+    // Trace calls can run for minutes, so they never share a payload with
+    // calls that should return in seconds, and are not waited on before
+    // the next batch is sent.
+    batch
+      .filter((pending) => isTraceMethod(pending.payload.method))
+      .forEach((pending) => void this.dispatchSingle(pending));
+
+    await this.dispatchBatch(
+      batch.filter((pending) => !isTraceMethod(pending.payload.method)),
+    );
+  }
+
+  private async dispatchBatch(batch: PendingRequest[]): Promise<void> {
+    if (batch.length === 0) return;
+
+    let responses: Promise<JsonRpcResponse | RpcError | undefined>[];
+    try {
+      responses = await this.postBatch(batch.map((pending) => pending.payload));
+    } catch (error) {
+      this.rejectAll(batch, error);
+      return;
+    }
+
+    await Promise.all(
+      responses.map(async (response, index) =>
+        this.deliver(batch[index], await response),
+      ),
+    );
+  }
+
+  private async dispatchSingle(pending: PendingRequest): Promise<void> {
+    this.deliver(pending, await this.postSingle(pending.payload));
+  }
+
+  /**
+   * Sends payloads as one batch, or one by one when the endpoint does not
+   * accept batches, with the response of each payload in order. Throws
+   * when the endpoint answers the whole batch with a transient error.
+   */
+  private async postBatch(
+    payloads: JsonRpcPayload[],
+  ): Promise<Promise<JsonRpcResponse | RpcError | undefined>[]> {
+    if (payloads.length > 1 && this.supportsBatch) {
+      const responses = await this.post(payloads);
+      if (Array.isArray(responses)) {
+        this.stats.batches++;
+        const byId = new Map(
+          responses.map((response) => [response.id, response]),
+        );
+        return payloads.map((payload) => Promise.resolve(byId.get(payload.id)));
+      }
+
+      const error = this.toRpcError(responses, "batch");
+      // Rate limits and other transient errors can also arrive as a single
+      // object; they say nothing about batch support.
+      if (!BATCH_UNSUPPORTED_ERROR_CODES.includes(error.code)) throw error;
+
+      // The endpoint does not accept batches; fall back to individual
+      // requests for the rest of the session.
+      console.warn(
+        `RPC endpoint ${this.url} rejected a batch request, sending calls individually`,
+      );
+      this.supportsBatch = false;
+    }
+    return payloads.map((payload) => this.postSingle(payload));
+  }
+
+  /**
+   * Posts one call, resolving with the transport failure instead of
+   * rejecting so callers can report it next to other results.
+   */
+  private async postSingle(
+    payload: JsonRpcPayload,
+  ): Promise<JsonRpcResponse | RpcError> {
+    try {
+      const response = await this.post(payload);
+      if (Array.isArray(response)) {
+        throw new RpcError(
+          RPC_ERROR_CODES.INVALID_REQUEST,
+          "Unexpected batch response for single request",
+          payload.method,
+        );
+      }
+      return response;
+    } catch (error) {
+      return error instanceof RpcError
+        ? error
+        : new RpcError(
+            RPC_ERROR_CODES.TRANSPORT_ERROR,
+            error instanceof Error ? error.message : String(error),
+            payload.method,
+          );
+    }
+  }
+
+  private deliver(
+    pending: PendingRequest,
+    response: JsonRpcResponse | RpcError | undefined,
+  ): void {
+    if (response instanceof RpcError) {
+      this.rejectAll([pending], response);
+    } else if (!response) {
+      this.stats.errors++;
+      pending.reject(
+        new RpcError(
+          RPC_ERROR_CODES.INTERNAL_ERROR,
+          "Missing response for batched request",
+          pending.payload.method,
+        ),
+      );
+    } else {
+      this.settle(pending, response);
+    }
+  }
+
+  private settle(pending: PendingRequest, response: JsonRpcResponse): void {
+    if (response.error) {
+      this.stats.errors++;
+      pending.reject(this.toRpcError(response, pending.payload.method));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  private rejectAll(batch: PendingRequest[], error: unknown): void {
+    this.stats.errors += batch.length;
+    for (const pending of batch) {
+      pending.reject(
+        error instanceof RpcError
+          ? error
+          : new RpcError(
+              RPC_ERROR_CODES.TRANSPORT_ERROR,
+              error instanceof Error ? error.message : String(error),
+              pending.payload.method,
+            ),
+      );
+    }
+  }
+
+  protected async post(
+    body: JsonRpcPayload | JsonRpcPayload[],
+  ): Promise<JsonRpcResponse | JsonRpcResponse[]> {
+    const timeout = this.getTimeout(body);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+      // Throttling and server errors often come with a JSON-RPC error body
+      // that reads like a failed call; report the status so the request is
+      // retried and the scheduler backs off.
+      if (
+        !response.ok &&
+        (!text || RETRYABLE_HTTP_STATUSES.includes(response.status))
+      ) {
+        throw new RpcError(
+          RPC_ERROR_CODES.TRANSPORT_ERROR,
+          `HTTP ${response.status} ${response.statusText}`,
+          undefined,
+          { status: response.status, body: text.slice(0, 200) },
+        );
+      }
+
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new RpcError(
+          RPC_ERROR_CODES.PARSE_ERROR,
+          `Invalid JSON-RPC response (HTTP ${response.status})`,
+          undefined,
+          { status: response.status, body: text.slice(0, 200) },
+        );
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        throw new RpcError(
+          RPC_ERROR_CODES.TIMEOUT,
+          `RPC request timed out after ${timeout / 1000} seconds`,
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getTimeout(body: JsonRpcPayload | JsonRpcPayload[]): number {
+    // Batches never carry trace calls, which are always sent on their own.
+    return !Array.isArray(body) && isTraceMethod(body.method)
+      ? this.options.traceTimeout
+      : this.options.timeout;
+  }
+
+  private createPayload(method: string, params: unknown[]): JsonRpcPayload {
+    return { jsonrpc: "2.0", id: this.nextId++, method, params };
+  }
+
+  private getDedupeKey(method: string, params: unknown[]): string | null {
+    if (!this.options.deduplicate) return null;
+    if (
+      NON_DEDUPLICATED_METHOD_PREFIXES.some((prefix) =>
+        method.startsWith(prefix),
+      )
+    ) {
+      return null;
+    }
+    return `${method}:${JSON.stringify(params)}`;
+  }
+
+  private toRpcError(response: JsonRpcResponse, method: string): RpcError {
+    const error = response?.error;
+    const rpcError = new RpcError(
+      error?.code ?? RPC_ERROR_CODES.INTERNAL_ERROR,
+      error?.message ?? "Unknown JSON-RPC error",
+      method,
+      error?.data,
+    );
+    return toStateUnavailableError(rpcError) ?? rpcError;
+  }
+}
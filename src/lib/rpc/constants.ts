@@ -0,0 +1,122 @@
+import type { BatchTransportOptions, RpcPoolOptions } from "./types";
+
+export const DEFAULT_BATCH_OPTIONS: BatchTransportOptions = {
+  maxBatchSize: 50,
+  batchStallTime: 10,
+  maxConcurrentBatches: 4,
+  timeout: 30000,
+  traceTimeout: 300000,
+  deduplicate: true,
+};
+
+// Methods with side effects must reach the node once per call, even when
+// two callers send identical parameters.
+export const NON_DEDUPLICATED_METHOD_PREFIXES = [
+  "eth_send",
+  "eth_subscribe",
+  "eth_unsubscribe",
+  "personal_",
+  "evm_",
+  "anvil_",
+  "hardhat_",
+] as const;
+
+export const RPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  LIMIT_EXCEEDED: -32005,
+  TRANSPORT_ERROR: -32099,
+  TIMEOUT: -32098,
+} as const;
+
+export const DEFAULT_POOL_OPTIONS: RpcPoolOptions = {
+  maxAttempts: 3,
+  failureThreshold: 3,
+  cooldownMs: 30000,
+  latencyAlpha: 0.3,
+  errorWindow: 20,
+  transport: {},
+};
+
+// Methods that only tracing-enabled nodes serve. They are routed to
+// endpoints whose provider is known to support debug tracing.
+export const TRACE_METHOD_PREFIXES = ["debug_", "trace_"] as const;
+
+// Errors that say nothing about the request itself, so the same call may
+// succeed on another endpoint.
+export const RETRYABLE_RPC_ERROR_CODES: number[] = [
+  RPC_ERROR_CODES.PARSE_ERROR,
+  RPC_ERROR_CODES.METHOD_NOT_FOUND,
+  RPC_ERROR_CODES.LIMIT_EXCEEDED,
+  RPC_ERROR_CODES.TRANSPORT_ERROR,
+  RPC_ERROR_CODES.TIMEOUT,
+];
+
+export const RETRYABLE_HTTP_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Errors a node answers a whole batch with when it does not accept batch
+// payloads at all. Any other batch-level error is passed on to the callers.
+export const BATCH_UNSUPPORTED_ERROR_CODES: number[] = [
+  RPC_ERROR_CODES.INVALID_REQUEST,
+  RPC_ERROR_CODES.METHOD_NOT_FOUND,
+];
+
+// How Geth, Erigon, Nethermind, Besu and hosted providers report state that
+// a pruned node has discarded.
+export const MISSING_STATE_PATTERN =
+  /missing trie node|header not found|historical state (is )?(not available|unavailable)|required historical state|state (is )?not available|world state (is )?(not available|unavailable)|pruned (history|state)|state histor(y|ies).*(not|haven't)/i;
+
+// Request rates are set below the free-tier limits of each provider, since
+// paid plans are rarely rate limited at the rates a single browser reaches.
+export const RPC_PROVIDER_LIMITS = {
+  google_blockchain_api: {
+    max_block_range: 5,
+    requests_per_second: 10,
+    burst: 20,
+    name: "Google Blockchain API",
+    identifier: "blockchain.googleapis.com",
+  },
+  alchemy: {
+    max_block_range: 2000,
+    requests_per_second: 20,
+    burst: 40,
+    name: "Alchemy",
+    identifier: "alchemy",
+  },
+  infura: {
+    max_block_range: 10000,
+    requests_per_second: 10,
+    burst: 20,
+    name: "Infura",
+    identifier: "infura.io",
+  },
+  quicknode: {
+    max_block_range: 10000,
+    requests_per_second: 15,
+    burst: 30,
+    name: "QuickNode",
+    identifier: "quiknode.pro",
+  },
+  default: {
+    max_block_range: 1000,
+    requests_per_second: 10,
+    burst: 20,
+    name: "Default RPC",
+    identifier: "unknown",
+  },
+} as const;
+
+export const THROTTLE_BACKOFF = {
+  baseMs: 1000,
+  maxMs: 30000,
+  // Attempts on the same endpoint before the error is passed on to the
+  // pool, which then fails over to another endpoint.
+  maxRetries: 3,
+} as const;
+
+// -32005 also reports result-size limits, which waiting does not fix.
+export const RESULT_LIMIT_PATTERN =
+  /returned more than|response size|block range|too many results/i;
@@ -0,0 +1,17 @@
+export { BatchTransport } from "./batchTransport";
+export { RpcEndpoint, isRetryableRpcError, toRpcError } from "./rpcEndpoint";
+export { RpcPool } from "./rpcPool";
+export {
+  RequestScheduler,
+  requestScheduler,
+  getRpcProviderLimits,
+  isThrottleError,
+} from "./requestScheduler";
+export { PooledJsonRpcProvider } from "./pooledProvider";
+export {
+  toStateUnavailableError,
+  isStateUnavailableError,
+} from "./stateErrors";
+
+export * from "./types";
+export * from "./constants";
@@ -0,0 +1,65 @@
+import {
+  JsonRpcProvider,
+  type JsonRpcApiProviderOptions,
+  type JsonRpcError,
+  type JsonRpcPayload,
+  type JsonRpcResult,
+  type Networkish,
+} from "ethers";
+import { toRpcError } from "./rpcEndpoint";
+import type { RpcPool } from "./rpcPool";
+import type { RequestPriority } from "./types";
+
+/**
+ * An ethers provider whose requests go through an {@link RpcPool}, so code
+ * holding the provider gets the same failover and rate limiting as direct
+ * RPC calls. All of its requests use the given scheduler priority.
+ */
+export class PooledJsonRpcProvider extends JsonRpcProvider {
+  readonly pool: RpcPool;
+  readonly priority: RequestPriority;
+
+  constructor(
+    pool: RpcPool,
+    network?: Networkish,
+    options?: JsonRpcApiProviderOptions,
+    priority: RequestPriority = "interactive",
+  ) {
+    super(pool.getPrimaryUrl(), network, options);
+    this.pool = pool;
+    this.priority = priority;
+  }
+
+  async _send(
+    payload: JsonRpcPayload | Array<JsonRpcPayload>,
+  ): Promise<Array<JsonRpcResult>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+
+    const responses = await Promise.all(
+      payloads.map(async ({ id, method, params }) => {
+        try {
+          const args = Array.isArray(params) ? params : [params];
+          return {
+            id,
+            result: await this.pool.request(method, args, this.priority),
+          };
+        } catch (error) {
+          const rpcError = toRpcError(error, method);
+          const response: JsonRpcError = {
+            id,
+            error: {
+              code: rpcError.code,
+              message: rpcError.message,
+              data: rpcError.data,
+            },
+          };
+          return response;
+        }
+      }),
+    );
+
+    // ethers reads the error entries itself, like responses from its own
+    // fetch-based transport.
+    return responses as Array<JsonRpcResult>;
+  }
+}
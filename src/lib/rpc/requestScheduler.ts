@@ -0,0 +1,231 @@
+import { LOCAL_RPC_URL_PATTERN } from "@/lib/networks/constants";
+import {
+  RESULT_LIMIT_PATTERN,
+  RPC_ERROR_CODES,
+  RPC_PROVIDER_LIMITS,
+  THROTTLE_BACKOFF,
+} from "./constants";
+import {
+  RpcError,
+  type EndpointQueueStatus,
+  type RequestPriority,
+  type RequestQueueStatus,
+  type RpcProviderLimits,
+} from "./types";
+
+export function getRpcProviderLimits(rpcUrl: string): RpcProviderLimits {
+  for (const [key, config] of Object.entries(RPC_PROVIDER_LIMITS)) {
+    if (key !== "default" && rpcUrl.includes(config.identifier)) {
+      return config;
+    }
+  }
+  return RPC_PROVIDER_LIMITS.default;
+}
+
+/**
+ * Whether the endpoint asked us to slow down, as opposed to rejecting the
+ * request itself.
+ */
+export function isThrottleError(error: unknown): boolean {
+  if (!(error instanceof RpcError)) return false;
+  const status = (error.data as { status?: number } | undefined)?.status;
+  if (error.code === 429 || status === 429) return true;
+  return (
+    error.code === RPC_ERROR_CODES.LIMIT_EXCEEDED &&
+    !RESULT_LIMIT_PATTERN.test(error.message)
+  );
+}
+
+class TokenBucket {
+  private readonly rate: number;
+  private readonly capacity: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(rate: number, capacity: number) {
+    this.rate = rate;
+    this.capacity = capacity;
+    this.tokens = capacity;
+  }
+
+  /**
+   * Milliseconds until `cost` tokens are available. A cost above the
+   * capacity waits for a full bucket and leaves it in debt.
+   */
+  waitTime(cost: number): number {
+    this.refill();
+    const needed = Math.min(cost, this.capacity);
+    return this.tokens >= needed
+      ? 0
+      : Math.ceil(((needed - this.tokens) / this.rate) * 1000);
+  }
+
+  take(cost: number): void {
+    this.refill();
+    this.tokens -= cost;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) / 1000) * this.rate,
+    );
+    this.updatedAt = now;
+  }
+}
+
+interface QueuedRequest {
+  cost: number;
+  start: () => void;
+}
+
+interface EndpointQueue {
+  url: string;
+  bucket: TokenBucket | null;
+  requestsPerSecond: number | null;
+  lanes: Record<RequestPriority, QueuedRequest[]>;
+  throttledUntil: number;
+  throttleLevel: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Paces requests to each endpoint with a token bucket sized from the
+ * provider's limits. Interactive requests leave the queue before background
+ * ones, and a 429 or -32005 answer pauses the endpoint with exponential
+ * backoff before the request is retried. Shared by every pool, so parallel
+ * analyses draw from the same budget.
+ */
+export class RequestScheduler {
+  private queues = new Map<string, EndpointQueue>();
+
+  schedule<T>(
+    url: string,
+    task: () => Promise<T>,
+    priority: RequestPriority = "interactive",
+    cost: number = 1,
+  ): Promise<T> {
+    const queue = this.getQueue(url);
+
+    return new Promise<T>((resolve, reject) => {
+      let retries = 0;
+      const request: QueuedRequest = {
+        cost,
+        start: () => {
+          task().then(
+            (result) => {
+              queue.throttleLevel = 0;
+              resolve(result);
+            },
+            (error) => {
+              if (
+                isThrottleError(error) &&
+                retries < THROTTLE_BACKOFF.maxRetries
+              ) {
+                retries++;
+                this.throttle(queue);
+                queue.lanes[priority].unshift(request);
+                this.pump(queue);
+                return;
+              }
+              reject(error);
+            },
+          );
+        },
+      };
+
+      queue.lanes[priority].push(request);
+      this.pump(queue);
+    });
+  }
+
+  getStatus(): RequestQueueStatus {
+    const now = Date.now();
+    const endpoints: EndpointQueueStatus[] = Array.from(
+      this.queues.values(),
+    ).map((queue) => ({
+      url: queue.url,
+      interactive: queue.lanes.interactive.length,
+      background: queue.lanes.background.length,
+      requestsPerSecond: queue.requestsPerSecond,
+      throttledUntil: queue.throttledUntil > now ? queue.throttledUntil : null,
+    }));
+
+    const throttled = endpoints
+      .map((endpoint) => endpoint.throttledUntil)
+      .filter((until): until is number => until !== null);
+
+    return {
+      interactive: endpoints.reduce((sum, e) => sum + e.interactive, 0),
+      background: endpoints.reduce((sum, e) => sum + e.background, 0),
+      throttledUntil: throttled.length > 0 ? Math.max(...throttled) : null,
+      endpoints,
+    };
+  }
+
+  private getQueue(url: string): EndpointQueue {
+    let queue = this.queues.get(url);
+    if (!queue) {
+      // Local nodes have no rate limit worth enforcing.
+      const limits = LOCAL_RPC_URL_PATTERN.test(url)
+        ? null
+        : getRpcProviderLimits(url);
+      queue = {
+        url,
+        bucket: limits
+          ? new TokenBucket(limits.requests_per_second, limits.burst)
+          : null,
+        requestsPerSecond: limits?.requests_per_second ?? null,
+        lanes: { interactive: [], background: [] },
+        throttledUntil: 0,
+        throttleLevel: 0,
+        timer: null,
+      };
+      this.queues.set(url, queue);
+    }
+    return queue;
+  }
+
+  private throttle(queue: EndpointQueue): void {
+    const delay = Math.min(
+      THROTTLE_BACKOFF.baseMs * 2 ** queue.throttleLevel,
+      THROTTLE_BACKOFF.maxMs,
+    );
+    queue.throttleLevel++;
+    queue.throttledUntil = Math.max(queue.throttledUntil, Date.now() + delay);
+    console.warn(
+      `RPC endpoint ${queue.url} is rate limiting requests, pausing for ${delay / 1000}s`,
+    );
+  }
+
+  private pump(queue: EndpointQueue): void {
+    if (queue.timer) return;
+
+    for (;;) {
+      const lane = queue.lanes.interactive.length
+        ? queue.lanes.interactive
+        : queue.lanes.background;
+      const next = lane[0];
+      if (!next) return;
+
+      const wait = Math.max(
+        queue.throttledUntil - Date.now(),
+        queue.bucket?.waitTime(next.cost) ?? 0,
+      );
+      if (wait > 0) {
+        queue.timer = setTimeout(() => {
+          queue.timer = null;
+          this.pump(queue);
+        }, wait);
+        return;
+      }
+
+      lane.shift();
+      queue.bucket?.take(next.cost);
+      next.start();
+    }
+  }
+}
+
+export const requestScheduler = new RequestScheduler();
@@ -0,0 +1,372 @@
+import {
+  detectRpcProvider,
+  type RpcProvider,
+} from "@/lib/mempool/rpcProviders";
+import { BatchTransport } from "./batchTransport";
+import { requestScheduler } from "./requestScheduler";
+import {
+  RETRYABLE_HTTP_STATUSES,
+  RETRYABLE_RPC_ERROR_CODES,
+  RPC_ERROR_CODES,
+  TRACE_METHOD_PREFIXES,
+} from "./constants";
+import {
+  RpcError,
+  StateUnavailableError,
+  type CircuitState,
+  type EndpointHealth,
+  type RequestPriority,
+  type RpcBatchResult,
+  type RpcExchangeObserver,
+  type RpcPoolOptions,
+  type RpcRequest,
+} from "./types";
+
+// Latency assumed for endpoints that have not answered yet, so untested
+// endpoints rank behind ones that are known to be fast.
+const UNKNOWN_LATENCY_MS = 1000;
+
+export function toRpcError(error: unknown, method?: string): RpcError {
+  if (error instanceof RpcError) return error;
+  return new RpcError(
+    RPC_ERROR_CODES.TRANSPORT_ERROR,
+    error instanceof Error ? error.message : String(error),
+    method,
+  );
+}
+
+/**
+ * Whether a failed call may succeed when sent to a different endpoint.
+ * Execution errors such as reverts are answers from the chain and are
+ * returned as-is. Missing state is retried since another endpoint of the
+ * network may be an archive node.
+ */
+export function isRetryableRpcError(error: RpcError): boolean {
+  if (error instanceof StateUnavailableError) return true;
+  if (RETRYABLE_RPC_ERROR_CODES.includes(error.code) || error.code === 429) {
+    return true;
+  }
+  const status = (error.data as { status?: number } | undefined)?.status;
+  return status !== undefined && RETRYABLE_HTTP_STATUSES.includes(status);
+}
+
+function isEndpointFailure(error: RpcError): boolean {
+  return (
+    isRetryableRpcError(error) &&
+    error.code !== RPC_ERROR_CODES.METHOD_NOT_FOUND &&
+    !(error instanceof StateUnavailableError)
+  );
+}
+
+export class RpcEndpoint {
+  readonly url: string;
+  readonly provider: RpcProvider | null;
+  private readonly transport: BatchTransport;
+  private readonly options: RpcPoolOptions;
+  private circuit: CircuitState = "closed";
+  private openedAt = 0;
+  private probeInFlight = false;
+  private latency: number | null = null;
+  private outcomes: boolean[] = [];
+  private consecutiveFailures = 0;
+  private totalRequests = 0;
+  private totalFailures = 0;
+  private lastError: string | null = null;
+  private lastErrorAt: number | null = null;
+  private unsupported = new Set<string>();
+  private supported = new Set<string>();
+  private readonly onExchange?: RpcExchangeObserver;
+
+  constructor(
+    url: string,
+    options: RpcPoolOptions,
+    onExchange?: RpcExchangeObserver,
+  ) {
+    this.url = url;
+    this.options = options;
+    this.onExchange = onExchange;
+    this.provider = detectRpcProvider(url);
+    this.transport = new BatchTransport(url, options.transport);
+  }
+
+  getTransport(): BatchTransport {
+    return this.transport;
+  }
+
+  /**
+   * Whether this endpoint can take traffic right now. An open circuit
+   * admits a single probe request once the cooldown has passed.
+   */
+  isAvailable(): boolean {
+    if (this.circuit === "closed") return true;
+    if (this.circuit === "open") {
+      return Date.now() - this.openedAt >= this.options.cooldownMs;
+    }
+    return !this.probeInFlight;
+  }
+
+  /**
+   * Method support as far as it is known: `true` when the provider is known
+   * to serve the method, `false` when it is known not to (or the endpoint
+   * answered "method not found" before), `null` when unknown.
+   */
+  supportsMethod(method: string): boolean | null {
+    if (this.unsupported.has(method)) return false;
+    if (this.supported.has(method)) return true;
+    if (!this.provider) return null;
+
+    const capabilities = this.provider.capabilities;
+    if (method in capabilities) {
+      return capabilities[method as keyof RpcProvider["capabilities"]];
+    }
+    if (TRACE_METHOD_PREFIXES.some((prefix) => method.startsWith(prefix))) {
+      return capabilities.debug_traceTransaction;
+    }
+    return true;
+  }
+
+  /**
+   * Records probed method support, which takes precedence over the static
+   * provider table.
+   */
+  setMethodSupport(method: string, supported: boolean): void {
+    if (supported) {
+      this.supported.add(method);
+      this.unsupported.delete(method);
+    } else {
+      this.unsupported.add(method);
+      this.supported.delete(method);
+    }
+  }
+
+  /**
+   * Lower is better: smoothed latency inflated by the recent error rate.
+   */
+  getScore(): number {
+    const latency = this.latency ?? UNKNOWN_LATENCY_MS;
+    const penalty = this.circuit === "closed" ? 1 : 2;
+    return latency * (1 + 4 * this.getErrorRate()) * penalty;
+  }
+
+  async request<T = unknown>(
+    method: string,
+    params: unknown[],
+    priority: RequestPriority = "interactive",
+  ): Promise<T> {
+    const started = this.beginRequest();
+    const startedAt = Date.now();
+    try {
+      const result = await requestScheduler.schedule(
+        this.url,
+        () => this.transport.request<T>(method, params),
+        priority,
+      );
+      this.recordSuccess(started);
+      this.report(startedAt, { method, params, result });
+      return result;
+    } catch (error) {
+      const rpcError = toRpcError(error, method);
+      this.recordFailure(rpcError, started);
+      this.report(startedAt, { method, params, error: rpcError });
+      throw rpcError;
+    }
+  }
+
+  /**
+   * Health check used when connecting. Resolves with the endpoint's chain ID,
+   * or null when it does not answer within the timeout.
+   */
+  async probe(timeoutMs: number): Promise<number | null> {
+    const started = this.beginRequest();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new RpcError(
+              RPC_ERROR_CODES.TIMEOUT,
+              `No response within ${timeoutMs / 1000} seconds`,
+              "eth_chainId",
+            ),
+          ),
+        timeoutMs,
+      );
+    });
+
+    try {
+      const chainId = await Promise.race([
+        this.transport.request<string>("eth_chainId", []),
+        timeout,
+      ]);
+      this.recordSuccess(started);
+      return Number(chainId);
+    } catch (error) {
+      this.recordFailure(toRpcError(error, "eth_chainId"), started);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async requestBatch(
+    requests: RpcRequest[],
+    priority: RequestPriority = "interactive",
+  ): Promise<RpcBatchResult[]> {
+    const started = this.beginRequest();
+    const startedAt = Date.now();
+    try {
+      const results = await requestScheduler.schedule(
+        this.url,
+        () => this.transport.requestBatch(requests),
+        priority,
+        requests.length,
+      );
+      results.forEach((item, index) =>
+        this.report(startedAt, {
+          method: item.method,
+          params: requests[index].params || [],
+          result: item.result,
+          error: item.error,
+        }),
+      );
+      const failure = results.find(
+        (item) => item.error && isEndpointFailure(item.error),
+      );
+      if (failure?.error) {
+        this.recordFailure(failure.error, started);
+      } else {
+        this.recordSuccess(started);
+      }
+      results.forEach((item) => {
+        if (item.error?.code === RPC_ERROR_CODES.METHOD_NOT_FOUND) {
+          this.setMethodSupport(item.method, false);
+        }
+      });
+      return results;
+    } catch (error) {
+      const rpcError = toRpcError(error, "batch");
+      this.recordFailure(rpcError, started);
+      requests.forEach(({ method, params = [] }) =>
+        this.report(startedAt, { method, params, error: rpcError }),
+      );
+      throw rpcError;
+    }
+  }
+
+  getHealth(): EndpointHealth {
+    return {
+      url: this.url,
+      providerName: this.provider?.name ?? null,
+      circuit: this.circuit,
+      latencyMs: this.latency === null ? null : Math.round(this.latency),
+      errorRate: this.getErrorRate(),
+      consecutiveFailures: this.consecutiveFailures,
+      totalRequests: this.totalRequests,
+      totalFailures: this.totalFailures,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      unsupportedMethods: Array.from(this.unsupported),
+      score: Math.round(this.getScore()),
+    };
+  }
+
+  private report(
+    startedAt: number,
+    outcome: {
+      method: string;
+      params: unknown[];
+      result?: unknown;
+      error?: RpcError;
+    },
+  ): void {
+    if (!this.onExchange) return;
+    const { method, params, result, error } = outcome;
+    this.onExchange({
+      url: this.url,
+      method,
+      params,
+      ...(error
+        ? {
+            error: {
+              code: error.code,
+              message: error.message,
+              ...(error.data !== undefined && { data: error.data }),
+            },
+          }
+        : { result }),
+      startedAt,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+
+  private getErrorRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    const failures = this.outcomes.filter((ok) => !ok).length;
+    return failures / this.outcomes.length;
+  }
+
+  private beginRequest(): number {
+    this.totalRequests++;
+    if (this.circuit === "open" && this.isAvailable()) {
+      this.circuit = "half-open";
+    }
+    if (this.circuit === "half-open") {
+      this.probeInFlight = true;
+    }
+    return performance.now();
+  }
+
+  private recordSuccess(started: number): void {
+    const elapsed = performance.now() - started;
+    this.latency =
+      this.latency === null
+        ? elapsed
+        : this.latency + this.options.latencyAlpha * (elapsed - this.latency);
+
+    this.pushOutcome(true);
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+    this.circuit = "closed";
+  }
+
+  private recordFailure(error: RpcError, started: number): void {
+    if (error.code === RPC_ERROR_CODES.METHOD_NOT_FOUND && error.method) {
+      this.setMethodSupport(error.method, false);
+    }
+
+    if (!isEndpointFailure(error)) {
+      // The endpoint answered; the failure belongs to the request.
+      this.recordSuccess(started);
+      return;
+    }
+
+    this.pushOutcome(false);
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastError = error.message;
+    this.lastErrorAt = Date.now();
+    this.probeInFlight = false;
+
+    if (
+      this.circuit === "half-open" ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      if (this.circuit !== "open") {
+        console.warn(
+          `RPC endpoint ${this.url} marked unhealthy:`,
+          error.message,
+        );
+      }
+      this.circuit = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  private pushOutcome(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.options.errorWindow) {
+      this.outcomes.shift();
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import { DEFAULT_POOL_OPTIONS, RPC_ERROR_CODES } from "./constants";
+import { isRetryableRpcError, RpcEndpoint, toRpcError } from "./rpcEndpoint";
+import {
+  RpcError,
+  type EndpointHealth,
+  type RequestPriority,
+  type RpcBatchResult,
+  type RpcExchange,
+  type RpcExchangeObserver,
+  type RpcPoolListener,
+  type RpcPoolOptions,
+  type RpcRequest,
+} from "./types";
+
+/**
+ * A set of interchangeable endpoints for one chain. Calls go to the
+ * healthiest endpoint that can serve the method and are retried on the next
+ * one when an endpoint fails.
+ */
+export class RpcPool {
+  private endpoints: RpcEndpoint[];
+  private readonly options: RpcPoolOptions;
+  private listeners = new Set<RpcPoolListener>();
+  private observers = new Set<RpcExchangeObserver>();
+
+  constructor(urls: string[], options: Partial<RpcPoolOptions> = {}) {
+    if (urls.length === 0) {
+      throw new Error("RPC pool requires at least one endpoint");
+    }
+    this.options = { ...DEFAULT_POOL_OPTIONS, ...options };
+    this.endpoints = urls.map(
+      (url) =>
+        new RpcEndpoint(url, this.options, (exchange) => this.report(exchange)),
+    );
+  }
+
+  getUrls(): string[] {
+    return this.endpoints.map((endpoint) => endpoint.url);
+  }
+
+  getEndpoints(): RpcEndpoint[] {
+    return [...this.endpoints];
+  }
+
+  getPrimaryUrl(): string {
+    return this.endpoints[0].url;
+  }
+
+  /**
+   * The endpoint that would currently receive general traffic.
+   */
+  getActiveEndpoint(): RpcEndpoint {
+    return this.selectEndpoints("eth_blockNumber")[0] || this.endpoints[0];
+  }
+
+  getHealth(): EndpointHealth[] {
+    return this.endpoints.map((endpoint) => endpoint.getHealth());
+  }
+
+  subscribe(listener: RpcPoolListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reports every call an endpoint answers, including failed attempts that
+   * were retried elsewhere. Connection probes are not reported.
+   */
+  observe(observer: RpcExchangeObserver): () => void {
+    this.observers.add(observer);
+    return () => {
+      this.observers.delete(observer);
+    };
+  }
+
+  /**
+   * Checks every endpoint concurrently. Endpoints serving a different chain
+   * are dropped from the pool; the rest keep their measured health. Without
+   * an expected chain ID the first endpoint that answers sets it. Returns
+   * the number of endpoints that answered.
+   */
+  async probe(
+    expectedChainId: number | null,
+    timeoutMs: number,
+  ): Promise<number> {
+    const chainIds = await Promise.all(
+      this.endpoints.map((endpoint) => endpoint.probe(timeoutMs)),
+    );
+    if (expectedChainId === null) {
+      expectedChainId = chainIds.find((chainId) => chainId !== null) ?? null;
+      if (expectedChainId === null) return 0;
+    }
+
+    const wrongChain = this.endpoints.filter((endpoint, index) => {
+      const chainId = chainIds[index];
+      if (chainId === null || chainId === expectedChainId) return false;
+      console.warn(
+        `RPC endpoint ${endpoint.url} serves chain ${chainId}, expected ${expectedChainId}; ignoring it`,
+      );
+      return true;
+    });
+
+    if (wrongChain.length < this.endpoints.length) {
+      this.endpoints = this.endpoints.filter(
+        (endpoint) => !wrongChain.includes(endpoint),
+      );
+    }
+    this.notify();
+
+    return chainIds.filter((chainId) => chainId === expectedChainId).length;
+  }
+
+  async request<T = unknown>(
+    method: string,
+    params: unknown[] = [],
+    priority: RequestPriority = "interactive",
+  ): Promise<T> {
+    const candidates = this.selectEndpoints(method);
+    if (candidates.length === 0) {
+      throw this.noEndpointError(method);
+    }
+
+    let lastError: RpcError | null = null;
+    for (const endpoint of candidates.slice(0, this.options.maxAttempts)) {
+      try {
+        const result = await endpoint.request<T>(method, params, priority);
+        this.notify();
+        return result;
+      } catch (error) {
+        lastError = toRpcError(error, method);
+        this.notify();
+        if (!isRetryableRpcError(lastError)) throw lastError;
+      }
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Sends the calls as one batch to the best endpoint that serves all of
+   * them. Items that fail for endpoint reasons are retried individually.
+   */
+  async requestBatch(
+    requests: RpcRequest[],
+    priority: RequestPriority = "interactive",
+  ): Promise<RpcBatchResult[]> {
+    if (requests.length === 0) return [];
+
+    const methods = Array.from(new Set(requests.map((r) => r.method)));
+    const candidates = this.selectEndpoints(...methods);
+
+    let results: RpcBatchResult[] | null = null;
+    for (const endpoint of candidates.slice(0, this.options.maxAttempts)) {
+      try {
+        results = await endpoint.requestBatch(requests, priority);
+        break;
+      } catch (error) {
+        if (!isRetryableRpcError(toRpcError(error))) break;
+      }
+    }
+    this.notify();
+
+    if (!results) {
+      return Promise.all(
+        requests.map(({ method, params = [] }) =>
+          this.settle(method, params, priority),
+        ),
+      );
+    }
+
+    return Promise.all(
+      results.map((item, index) =>
+        item.error && isRetryableRpcError(item.error)
+          ? this.settle(item.method, requests[index].params || [], priority)
+          : item,
+      ),
+    );
+  }
+
+  /**
+   * Candidate endpoints for the given methods, best first. Endpoints with an
+   * open circuit go last, endpoints known to serve every method come before
+   * ones whose support is unknown, and endpoints known not to serve a method
+   * are never used for it.
+   */
+  private selectEndpoints(...methods: string[]): RpcEndpoint[] {
+    const rank = (entry: { available: boolean; known: boolean }) =>
+      (entry.available ? 0 : 2) + (entry.known ? 0 : 1);
+
+    return this.endpoints
+      .map((endpoint) => {
+        const support = methods.map((method) =>
+          endpoint.supportsMethod(method),
+        );
+        return {
+          endpoint,
+          supported: !support.includes(false),
+          known: support.every((value) => value === true),
+          available: endpoint.isAvailable(),
+          score: endpoint.getScore(),
+        };
+      })
+      .filter((entry) => entry.supported)
+      .sort((a, b) => rank(a) - rank(b) || a.score - b.score)
+      .map((entry) => entry.endpoint);
+  }
+
+  private async settle(
+    method: string,
+    params: unknown[],
+    priority: RequestPriority,
+  ): Promise<RpcBatchResult> {
+    try {
+      return { method, result: await this.request(method, params, priority) };
+    } catch (error) {
+      return { method, error: toRpcError(error, method) };
+    }
+  }
+
+  private noEndpointError(method: string): RpcError {
+    return new RpcError(
+      RPC_ERROR_CODES.METHOD_NOT_FOUND,
+      `No configured RPC endpoint supports ${method}`,
+      method,
+    );
+  }
+
+  private report(exchange: RpcExchange): void {
+    this.observers.forEach((observer) => observer(exchange));
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const health = this.getHealth();
+    this.listeners.forEach((listener) => listener(health));
+  }
+}
@@ -0,0 +1,46 @@
+import { MISSING_STATE_PATTERN, RPC_ERROR_CODES } from "./constants";
+import { RpcError, StateUnavailableError } from "./types";
+
+interface WrappedError {
+  message?: string;
+  shortMessage?: string;
+  code?: unknown;
+  info?: { error?: { message?: string; code?: number } };
+  error?: { message?: string; code?: number };
+}
+
+/**
+ * Recognises a missing-state error however it reached the caller: as an
+ * RpcError from the pool, or wrapped by ethers when sent through a
+ * provider. Returns null for any other error.
+ */
+export function toStateUnavailableError(
+  error: unknown,
+  method?: string,
+): StateUnavailableError | null {
+  if (error instanceof StateUnavailableError) return error;
+  if (!error || typeof error !== "object") return null;
+
+  const wrapped = error as WrappedError;
+  const inner = wrapped.info?.error || wrapped.error;
+  const message = [inner?.message, wrapped.shortMessage, wrapped.message].find(
+    (candidate) => candidate && MISSING_STATE_PATTERN.test(candidate),
+  );
+  if (!message) return null;
+
+  const code =
+    inner?.code ??
+    (typeof wrapped.code === "number"
+      ? wrapped.code
+      : RPC_ERROR_CODES.INTERNAL_ERROR);
+  return new StateUnavailableError(
+    code,
+    message,
+    method ?? (error instanceof RpcError ? error.method : undefined),
+    error instanceof RpcError ? error.data : undefined,
+  );
+}
+
+export function isStateUnavailableError(error: unknown): boolean {
+  return toStateUnavailableError(error) !== null;
+}
@@ -0,0 +1,147 @@
+export interface RpcRequest {
+  method: string;
+  params?: unknown[];
+}
+
+export interface JsonRpcPayload {
+  jsonrpc: "2.0";
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: number | null;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+export interface RpcBatchResult<T = unknown> {
+  method: string;
+  result?: T;
+  error?: RpcError;
+}
+
+export interface BatchTransportOptions {
+  maxBatchSize: number;
+  batchStallTime: number;
+  // Batches sent at the same time; further calls wait in the queue.
+  maxConcurrentBatches: number;
+  timeout: number;
+  // Applied instead of `timeout` to debug_* and trace_* calls, which can
+  // take minutes on large transactions and blocks.
+  traceTimeout: number;
+  deduplicate: boolean;
+}
+
+export interface BatchTransportStats {
+  requests: number;
+  deduplicated: number;
+  batches: number;
+  errors: number;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface RpcPoolOptions {
+  maxAttempts: number;
+  failureThreshold: number;
+  cooldownMs: number;
+  latencyAlpha: number;
+  errorWindow: number;
+  transport: Partial<BatchTransportOptions>;
+}
+
+export interface EndpointHealth {
+  url: string;
+  providerName: string | null;
+  circuit: CircuitState;
+  latencyMs: number | null;
+  errorRate: number;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  unsupportedMethods: string[];
+  score: number;
+}
+
+export type RpcPoolListener = (health: EndpointHealth[]) => void;
+
+// Interactive calls serve what a page is showing; background calls are
+// polling and prefetching, and wait while interactive calls are queued.
+export type RequestPriority = "interactive" | "background";
+
+export interface RpcProviderLimits {
+  max_block_range: number;
+  requests_per_second: number;
+  burst: number;
+  name: string;
+  identifier: string;
+}
+
+export interface EndpointQueueStatus {
+  url: string;
+  interactive: number;
+  background: number;
+  requestsPerSecond: number | null;
+  throttledUntil: number | null;
+}
+
+export interface RequestQueueStatus {
+  interactive: number;
+  background: number;
+  throttledUntil: number | null;
+  endpoints: EndpointQueueStatus[];
+}
+
+// One call as an endpoint answered it, reported to pool observers.
+export interface RpcExchange {
+  url: string;
+  method: string;
+  params: unknown[];
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+  startedAt: number;
+  durationMs: number;
+}
+
+export type RpcExchangeObserver = (exchange: RpcExchange) => void;
+
+export class RpcError extends Error {
+  public code: number;
+  public method?: string;
+  public data?: unknown;
+
+  constructor(code: number, message: string, method?: string, data?: unknown) {
+    super(message);
+    this.name = "RpcError";
+    this.code = code;
+    this.method = method;
+    this.data = data;
+  }
+}
+
+/**
+ * The node no longer keeps the state a call needs, as pruned (non-archive)
+ * nodes only hold recent blocks. The block fields are filled in when the
+ * node's history depth is known.
+ */
+export class StateUnavailableError extends RpcError {
+  public blockNumber: number | null = null;
+  public earliestAvailableBlock: number | null = null;
+  public suggestedBlock: number | null = null;
+
+  constructor(code: number, message: string, method?: string, data?: unknown) {
+    super(code, message, method, data);
+    this.name = "StateUnavailableError";
+  }
+}
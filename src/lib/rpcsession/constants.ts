@@ -0,0 +1,12 @@
+export const RPC_SESSION_FORMAT = "arguschain-rpc-session";
+export const RPC_SESSION_VERSION = 1;
+
+// Replaying a session connects to this pseudo URL so caches keyed by
+// endpoint URL never mix recorded and live results.
+export const REPLAY_URL_PREFIX = "replay://";
+
+// Recording stops adding entries past this count to keep the page
+// responsive; long struct log traces are already several MB each.
+export const MAX_SESSION_ENTRIES = 20000;
+
+export const MAX_REPORTED_MISSES = 50;
@@ -0,0 +1,12 @@
+export { RpcRecorder, rpcRecorder } from "./rpcRecorder";
+export { RpcReplayer } from "./rpcReplayer";
+export { ReplayJsonRpcProvider } from "./replayProvider";
+export {
+  getRpcCallKey,
+  getRpcSessionFilename,
+  parseRpcSession,
+  serializeRpcSession,
+} from "./sessionFile";
+
+export * from "./types";
+export * from "./constants";
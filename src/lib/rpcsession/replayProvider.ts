@@ -0,0 +1,50 @@
+import {
+  JsonRpcProvider,
+  Network,
+  type JsonRpcError,
+  type JsonRpcPayload,
+  type JsonRpcResult,
+} from "ethers";
+import { toRpcError } from "@/lib/rpc";
+import type { RpcReplayer } from "./rpcReplayer";
+
+/**
+ * An ethers provider that never touches the network: every request is
+ * answered by an {@link RpcReplayer}.
+ */
+export class ReplayJsonRpcProvider extends JsonRpcProvider {
+  readonly replayer: RpcReplayer;
+
+  constructor(replayer: RpcReplayer, chainId: number) {
+    super(undefined, Network.from(chainId), { staticNetwork: true });
+    this.replayer = replayer;
+  }
+
+  async _send(
+    payload: JsonRpcPayload | Array<JsonRpcPayload>,
+  ): Promise<Array<JsonRpcResult>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+
+    const responses = await Promise.all(
+      payloads.map(async ({ id, method, params }) => {
+        try {
+          const args = Array.isArray(params) ? params : [params];
+          return { id, result: await this.replayer.request(method, args) };
+        } catch (error) {
+          const rpcError = toRpcError(error, method);
+          const response: JsonRpcError = {
+            id,
+            error: {
+              code: rpcError.code,
+              message: rpcError.message,
+              data: rpcError.data,
+            },
+          };
+          return response;
+        }
+      }),
+    );
+
+    return responses as Array<JsonRpcResult>;
+  }
+}
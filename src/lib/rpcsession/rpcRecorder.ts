@@ -0,0 +1,115 @@
+import type { NetworkConfig } from "@/lib/networks";
+import type { RpcExchange } from "@/lib/rpc";
+import {
+  MAX_SESSION_ENTRIES,
+  RPC_SESSION_FORMAT,
+  RPC_SESSION_VERSION,
+} from "./constants";
+import {
+  RpcSessionError,
+  type RpcRecorderListener,
+  type RpcRecorderState,
+  type RpcSession,
+} from "./types";
+
+/**
+ * Collects the JSON-RPC traffic of the connected endpoint pool into a
+ * session. The blockchain service forwards every exchange; nothing is kept
+ * unless a recording is running.
+ */
+export class RpcRecorder {
+  private session: RpcSession | null = null;
+  private recording = false;
+  private truncated = false;
+  private listeners = new Set<RpcRecorderListener>();
+
+  start(name?: string): RpcSession {
+    const createdAt = Date.now();
+    this.session = {
+      format: RPC_SESSION_FORMAT,
+      version: RPC_SESSION_VERSION,
+      id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name?.trim() || `Session ${new Date(createdAt).toLocaleString()}`,
+      createdAt,
+      endedAt: null,
+      network: null,
+      entries: [],
+    };
+    this.recording = true;
+    this.truncated = false;
+    this.notify();
+    return this.session;
+  }
+
+  stop(): RpcSession {
+    if (!this.session || !this.recording) {
+      throw new RpcSessionError("No recording is running", "not_recording");
+    }
+    this.recording = false;
+    this.session = { ...this.session, endedAt: Date.now() };
+    this.notify();
+    return this.session;
+  }
+
+  discard(): void {
+    this.session = null;
+    this.recording = false;
+    this.notify();
+  }
+
+  record(exchange: RpcExchange, network: NetworkConfig | null): void {
+    const session = this.session;
+    if (!this.recording || !session) return;
+
+    if (session.entries.length >= MAX_SESSION_ENTRIES) {
+      if (!this.truncated) {
+        this.truncated = true;
+        console.warn(
+          `RPC session reached ${MAX_SESSION_ENTRIES} calls; later calls are not recorded`,
+        );
+      }
+      return;
+    }
+
+    if (!session.network && network) {
+      session.network = {
+        id: network.id,
+        name: network.name,
+        chainId: network.chainId,
+      };
+    }
+
+    session.entries.push({
+      method: exchange.method,
+      params: exchange.params,
+      ...(exchange.error
+        ? { error: exchange.error }
+        : { result: exchange.result ?? null }),
+      offsetMs: exchange.startedAt - session.createdAt,
+      durationMs: exchange.durationMs,
+    });
+    this.notify();
+  }
+
+  getState(): RpcRecorderState {
+    return {
+      recording: this.recording,
+      session: this.session,
+      entryCount: this.session?.entries.length ?? 0,
+    };
+  }
+
+  subscribe(listener: RpcRecorderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+export const rpcRecorder = new RpcRecorder();
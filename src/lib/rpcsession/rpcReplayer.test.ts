@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { buildRevertPath, flattenRevertFrames } from "@/lib/abi";
+import type { RevertTraceFrame } from "@/lib/abi";
+import { blockchainService } from "@/lib/blockchainService";
+import { RpcError } from "@/lib/rpc";
+import fixture from "./fixtures/reverted-swap.json?raw";
+import { RpcReplayer } from "./rpcReplayer";
+import { parseRpcSession } from "./sessionFile";
+
+const TX_HASH =
+  "0x5f2e0c8a0a1f4d7e3b9c6a2d8e1f0b4c7a3d9e6f2b5c8a1d4e7f0a3b6c9d2e5f";
+
+describe("RpcReplayer", () => {
+  const session = parseRpcSession(fixture);
+
+  it("skips failed attempts that were retried successfully", async () => {
+    const replayer = new RpcReplayer(session);
+    const trace = await replayer.request<RevertTraceFrame>(
+      "debug_traceTransaction",
+      [TX_HASH, { tracer: "callTracer" }],
+    );
+
+    expect(trace.error).toBe("execution reverted");
+    expect(replayer.getStats()).toMatchObject({ served: 1, missed: 0 });
+  });
+
+  it("answers repeated calls in recorded order, then repeats the last", async () => {
+    const replayer = new RpcReplayer(session);
+    const answers = [
+      await replayer.request("eth_blockNumber"),
+      await replayer.request("eth_blockNumber"),
+      await replayer.request("eth_blockNumber"),
+    ];
+
+    expect(answers).toEqual(["0x1519a3c", "0x1519a3d", "0x1519a3d"]);
+    replayer.reset();
+    expect(await replayer.request("eth_blockNumber")).toBe("0x1519a3c");
+  });
+
+  it("matches hex parameters regardless of case", async () => {
+    const replayer = new RpcReplayer(session);
+    await expect(
+      replayer.request("debug_traceTransaction", [
+        TX_HASH.toUpperCase().replace("0X", "0x"),
+        { tracer: "callTracer" },
+      ]),
+    ).resolves.toBeTruthy();
+  });
+
+  it("reports calls the session has no answer for", async () => {
+    const replayer = new RpcReplayer(session);
+    await expect(
+      replayer.request("eth_getBalance", [TX_HASH.slice(0, 42), "latest"]),
+    ).rejects.toBeInstanceOf(RpcError);
+
+    expect(replayer.getStats().misses).toEqual([
+      `eth_getBalance:["${TX_HASH.slice(0, 42)}","latest"]`,
+    ]);
+  });
+});
+
+describe("replayed revert path", () => {
+  afterEach(() => blockchainService.stopReplay());
+
+  it("decodes the bubbled revert of the recorded trace", async () => {
+    blockchainService.startReplay(parseRpcSession(fixture));
+    const trace = await blockchainService.makeRPCCall<RevertTraceFrame>(
+      "debug_traceTransaction",
+      [TX_HASH, { tracer: "callTracer" }],
+    );
+
+    const path = buildRevertPath(flattenRevertFrames(trace));
+
+    expect(path.map((frame) => frame.traceAddress)).toEqual([[1], []]);
+    expect(path[0]).toMatchObject({
+      to: "0x6c3ea9036406852006290770bedfcaba0e23a0e8",
+      bubbled: false,
+    });
+    expect(path[0].revert).toMatchObject({
+      kind: "error",
+      message: "ERC20: transfer amount exceeds balance",
+    });
+    expect(path[1].bubbled).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { RPC_ERROR_CODES, RpcError } from "@/lib/rpc";
+import { MAX_REPORTED_MISSES } from "./constants";
+import { getRpcCallKey } from "./sessionFile";
+import type { RpcReplayStats, RpcSession, RpcSessionEntry } from "./types";
+
+/**
+ * Answers JSON-RPC calls from a recorded session. Calls recorded several
+ * times are answered in recorded order and then keep returning the last
+ * answer. Failed attempts are only replayed when no endpoint answered the
+ * call successfully, since the recording includes attempts that were
+ * retried elsewhere.
+ */
+export class RpcReplayer {
+  readonly session: RpcSession;
+  private responses = new Map<string, RpcSessionEntry[]>();
+  private cursors = new Map<string, number>();
+  private stats: RpcReplayStats = { served: 0, missed: 0, misses: [] };
+
+  constructor(session: RpcSession) {
+    this.session = session;
+
+    const byKey = new Map<string, RpcSessionEntry[]>();
+    for (const entry of session.entries) {
+      const key = getRpcCallKey(entry.method, entry.params);
+      byKey.set(key, [...(byKey.get(key) || []), entry]);
+    }
+    for (const [key, entries] of byKey) {
+      const answered = entries.filter((entry) => !entry.error);
+      this.responses.set(key, answered.length > 0 ? answered : entries);
+    }
+  }
+
+  async request<T = unknown>(
+    method: string,
+    params: unknown[] = [],
+  ): Promise<T> {
+    const key = getRpcCallKey(method, params);
+    const entries = this.responses.get(key);
+
+    if (!entries) {
+      this.stats.missed++;
+      if (
+        this.stats.misses.length < MAX_REPORTED_MISSES &&
+        !this.stats.misses.includes(key)
+      ) {
+        this.stats.misses.push(key);
+      }
+      throw new RpcError(
+        RPC_ERROR_CODES.TRANSPORT_ERROR,
+        `No recorded response for ${method} in session "${this.session.name}"`,
+        method,
+      );
+    }
+
+    const cursor = this.cursors.get(key) ?? 0;
+    this.cursors.set(key, cursor + 1);
+    const entry = entries[Math.min(cursor, entries.length - 1)];
+    this.stats.served++;
+
+    if (entry.error) {
+      throw new RpcError(
+        entry.error.code,
+        entry.error.message,
+        method,
+        entry.error.data,
+      );
+    }
+    return entry.result as T;
+  }
+
+  getStats(): RpcReplayStats {
+    return { ...this.stats, misses: [...this.stats.misses] };
+  }
+
+  /**
+   * Starts every call's sequence from the first recorded answer again.
+   */
+  reset(): void {
+    this.cursors.clear();
+    this.stats = { served: 0, missed: 0, misses: [] };
+  }
+}
@@ -0,0 +1,91 @@
+import { RPC_SESSION_FORMAT, RPC_SESSION_VERSION } from "./constants";
+import { RpcSessionError, type RpcSession } from "./types";
+
+const HEX_PATTERN = /^0x[0-9a-f]*$/i;
+
+function canonicalize(value: unknown): unknown {
+  if (typeof value === "string") {
+    return HEX_PATTERN.test(value) ? value.toLowerCase() : value;
+  }
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [
+          key,
+          canonicalize((value as Record<string, unknown>)[key]),
+        ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Lookup key for a call. Object keys are sorted and hex strings lowercased,
+ * so a checksummed address matches the same address typed in lowercase.
+ */
+export function getRpcCallKey(method: string, params: unknown[]): string {
+  return `${method}:${JSON.stringify(canonicalize(params))}`;
+}
+
+export function serializeRpcSession(session: RpcSession): string {
+  return JSON.stringify(session);
+}
+
+export function parseRpcSession(text: string): RpcSession {
+  let data: Partial<RpcSession>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RpcSessionError("The file is not valid JSON", "invalid_file");
+  }
+
+  if (!data || data.format !== RPC_SESSION_FORMAT) {
+    throw new RpcSessionError(
+      "The file is not an Arguschain RPC session",
+      "invalid_file",
+    );
+  }
+  if (data.version !== RPC_SESSION_VERSION) {
+    throw new RpcSessionError(
+      `Session format version ${data.version} is not supported`,
+      "unsupported_version",
+    );
+  }
+  if (
+    typeof data.id !== "string" ||
+    !Array.isArray(data.entries) ||
+    data.entries.some(
+      (entry) =>
+        !entry ||
+        typeof entry.method !== "string" ||
+        !Array.isArray(entry.params),
+    )
+  ) {
+    throw new RpcSessionError(
+      "The session file is missing or has malformed entries",
+      "invalid_file",
+    );
+  }
+
+  return {
+    format: data.format,
+    version: data.version,
+    id: data.id,
+    name: data.name || "Recorded session",
+    createdAt: data.createdAt ?? 0,
+    endedAt: data.endedAt ?? null,
+    network: data.network ?? null,
+    entries: data.entries,
+  };
+}
+
+export function getRpcSessionFilename(session: RpcSession): string {
+  const slug = session.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const date = new Date(session.createdAt).toISOString().slice(0, 10);
+  return `arguschain-session-${slug || session.id}-${date}.json`;
+}
@@ -0,0 +1,62 @@
+import type { JsonRpcErrorObject } from "@/lib/rpc";
+
+export interface RpcSessionNetwork {
+  id: string;
+  name: string;
+  chainId: number;
+}
+
+export interface RpcSessionEntry {
+  method: string;
+  params: unknown[];
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+  // Milliseconds since the session started.
+  offsetMs: number;
+  durationMs: number;
+}
+
+/**
+ * Recorded JSON-RPC traffic. Endpoint URLs are left out because they often
+ * carry API keys, so a session can be attached to a report as-is.
+ */
+export interface RpcSession {
+  format: string;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  endedAt: number | null;
+  network: RpcSessionNetwork | null;
+  entries: RpcSessionEntry[];
+}
+
+export interface RpcRecorderState {
+  recording: boolean;
+  session: RpcSession | null;
+  entryCount: number;
+}
+
+export type RpcRecorderListener = (state: RpcRecorderState) => void;
+
+export interface RpcReplayStats {
+  served: number;
+  missed: number;
+  // Distinct calls the session has no response for, as lookup keys.
+  misses: string[];
+}
+
+export type RpcSessionErrorCode =
+  | "invalid_file"
+  | "unsupported_version"
+  | "not_recording";
+
+export class RpcSessionError extends Error {
+  public code: RpcSessionErrorCode;
+
+  constructor(message: string, code: RpcSessionErrorCode) {
+    super(message);
+    this.name = "RpcSessionError";
+    this.code = code;
+  }
+}
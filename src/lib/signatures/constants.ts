@@ -0,0 +1,16 @@
+export const SIGNATURE_DB_NAME = "arguschain_signatures";
+export const SIGNATURE_DB_VERSION = 1;
+export const SIGNATURE_STORE = "signatures";
+export const SIGNATURE_KIND_INDEX = "kind";
+
+// Holds the URL of the last imported signature bundle.
+export const BUNDLED_SIGNATURES_STORAGE_KEY = "arguschain_signature_bundle";
+
+export const SIGNATURE_FILE_EXTENSIONS = [".json", ".txt", ".csv", ".tsv"];
+export const SIGNATURE_IMPORT_BATCH_SIZE = 5000;
+
+export const SIGNATURE_PATTERN = /^[A-Za-z_$][\w$]*\(.*\)$/;
+
+// Cap on the indexed-parameter layouts tried for an event signature that
+// does not mark them.
+export const MAX_EVENT_LAYOUTS = 64;
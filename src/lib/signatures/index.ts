@@ -0,0 +1,6 @@
+export { SignatureDatabase, signatureDatabase } from "./signatureDatabase";
+export { SignatureDumpParser } from "./signatureDumpParser";
+export { SignatureStore } from "./signatureStore";
+
+export * from "./types";
+export * from "./constants";
@@ -0,0 +1,193 @@
+import {
+  BUNDLED_SIGNATURES_STORAGE_KEY,
+  SIGNATURE_IMPORT_BATCH_SIZE,
+} from "./constants";
+import signatureBundleUrl from "./data/signatureBundle.json?url";
+import { SignatureDumpParser } from "./signatureDumpParser";
+import { SignatureStore } from "./signatureStore";
+import type {
+  SignatureDatabaseStats,
+  SignatureEntry,
+  SignatureImportResult,
+} from "./types";
+
+/**
+ * Offline selector and topic database: the bundled signatures, generated by
+ * `npm run signatures:bundle` and imported on first use, plus any imported
+ * 4byte-style dumps. Decoders are synchronous, so lookups read a cache that
+ * `prefetch` fills from IndexedDB before a result is processed.
+ */
+export class SignatureDatabase {
+  private store = new SignatureStore();
+  private cache: Map<string, string[]> | null = null;
+  private fetched = new Set<string>();
+  private seeding: Promise<void> | null = null;
+
+  /**
+   * Every known signature for a selector or topic, oldest first. More than
+   * one means a hash collision; callers pick the one whose data decodes.
+   */
+  lookup(hash: string): string[] {
+    return this.getCache().get(hash.toLowerCase()) ?? [];
+  }
+
+  async prefetch(hashes: Iterable<string>): Promise<void> {
+    const pending = Array.from(
+      new Set(Array.from(hashes, (hash) => hash.toLowerCase())),
+    ).filter((hash) => !this.fetched.has(hash));
+    if (pending.length === 0) return;
+
+    try {
+      await this.seed();
+      const entries = await this.store.getMany(pending);
+      const cache = this.getCache();
+      entries.forEach((entry) => cache.set(entry.hash, entry.signatures));
+      pending.forEach((hash) => this.fetched.add(hash));
+    } catch (error) {
+      console.warn("Failed to load signatures:", error);
+    }
+  }
+
+  /**
+   * Prefetches the selectors and topics found in a trace, transaction or
+   * log list: call inputs, revert data next to an error, and log topics.
+   */
+  prefetchFrom(value: unknown): Promise<void> {
+    const hashes = new Set<string>();
+    const stack: unknown[] = [value];
+
+    while (stack.length > 0) {
+      const current = stack.pop();
+      if (!current || typeof current !== "object") continue;
+      if (Array.isArray(current)) {
+        stack.push(...current);
+        continue;
+      }
+
+      const record = current as Record<string, unknown>;
+      if (typeof record.input === "string" && record.input.length >= 10) {
+        hashes.add(record.input.slice(0, 10));
+      }
+      if (
+        record.error &&
+        typeof record.output === "string" &&
+        record.output.length >= 10
+      ) {
+        hashes.add(record.output.slice(0, 10));
+      }
+      if (
+        Array.isArray(record.topics) &&
+        typeof record.topics[0] === "string"
+      ) {
+        hashes.add(record.topics[0]);
+      }
+      for (const child of Object.values(record)) {
+        if (child && typeof child === "object") stack.push(child);
+      }
+    }
+
+    return this.prefetch(hashes);
+  }
+
+  /**
+   * Imports dump files, merging their signatures with the known ones.
+   */
+  async importFiles(
+    files: File[],
+  ): Promise<{ results: SignatureImportResult[]; errors: string[] }> {
+    await this.seed();
+    const results: SignatureImportResult[] = [];
+    const errors: string[] = [];
+
+    for (const file of files) {
+      try {
+        const entries = SignatureDumpParser.parse(file.name, await file.text());
+        const added = await this.merge(entries);
+        this.forget(entries);
+        results.push({ fileName: file.name, hashes: entries.length, added });
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return { results, errors };
+  }
+
+  async getStats(): Promise<SignatureDatabaseStats> {
+    await this.seed();
+    const [functions, events] = await Promise.all([
+      this.store.count("function"),
+      this.store.count("event"),
+    ]);
+    return { functions, events };
+  }
+
+  /**
+   * Drops imported signatures, keeping the bundled ones.
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+    localStorage.removeItem(BUNDLED_SIGNATURES_STORAGE_KEY);
+    this.cache = null;
+    this.fetched.clear();
+    this.seeding = null;
+    await this.seed();
+  }
+
+  private seed(): Promise<void> {
+    if (!this.seeding) {
+      this.seeding = (async () => {
+        // Built asset URLs carry a content hash, so a regenerated bundle is
+        // imported again.
+        const imported = localStorage.getItem(BUNDLED_SIGNATURES_STORAGE_KEY);
+        if (imported === signatureBundleUrl) return;
+        const response = await fetch(signatureBundleUrl);
+        if (!response.ok) {
+          throw new Error(
+            `Failed to load the signature bundle: HTTP ${response.status}`,
+          );
+        }
+        await this.merge(
+          SignatureDumpParser.parse(
+            "signatureBundle.json",
+            await response.text(),
+          ),
+        );
+        localStorage.setItem(
+          BUNDLED_SIGNATURES_STORAGE_KEY,
+          signatureBundleUrl,
+        );
+      })().catch((error) => {
+        this.seeding = null;
+        throw error;
+      });
+    }
+    return this.seeding;
+  }
+
+  private getCache(): Map<string, string[]> {
+    if (!this.cache) this.cache = new Map();
+    return this.cache;
+  }
+
+  private async merge(entries: SignatureEntry[]): Promise<number> {
+    let added = 0;
+    for (
+      let start = 0;
+      start < entries.length;
+      start += SIGNATURE_IMPORT_BATCH_SIZE
+    ) {
+      added += await this.store.merge(
+        entries.slice(start, start + SIGNATURE_IMPORT_BATCH_SIZE),
+      );
+    }
+    return added;
+  }
+
+  // Imported hashes are re-read from IndexedDB on the next prefetch.
+  private forget(entries: SignatureEntry[]) {
+    entries.forEach((entry) => this.fetched.delete(entry.hash));
+  }
+}
+
+export const signatureDatabase = new SignatureDatabase();
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { SignatureDumpParser } from "./signatureDumpParser";
+
+const TRANSFER_SELECTOR = "0xa9059cbb";
+const TRANSFER_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+describe("SignatureDumpParser.parse", () => {
+  it("reads 4byte.directory API pages", () => {
+    const entries = SignatureDumpParser.parse(
+      "4byte.json",
+      JSON.stringify({
+        count: 2,
+        results: [
+          {
+            hex_signature: "0xA9059CBB",
+            text_signature: "transfer(address,uint256)",
+          },
+          {
+            hex_signature: TRANSFER_SELECTOR,
+            text_signature: "many_msg_babbage(bytes1)",
+          },
+        ],
+      }),
+    );
+
+    expect(entries).toEqual([
+      {
+        hash: TRANSFER_SELECTOR,
+        kind: "function",
+        signatures: ["transfer(address,uint256)", "many_msg_babbage(bytes1)"],
+      },
+    ]);
+  });
+
+  it("reads openchain lookups with function and event sections", () => {
+    const entries = SignatureDumpParser.parse(
+      "openchain.json",
+      JSON.stringify({
+        ok: true,
+        result: {
+          function: {
+            [TRANSFER_SELECTOR]: [{ name: "transfer(address,uint256)" }],
+            "0x00000000": null,
+          },
+          event: {
+            [TRANSFER_TOPIC]: [{ name: "Transfer(address,address,uint256)" }],
+          },
+        },
+      }),
+    );
+
+    expect(entries.map(({ hash, kind }) => [hash, kind])).toEqual([
+      [TRANSFER_SELECTOR, "function"],
+      [TRANSFER_TOPIC, "event"],
+    ]);
+  });
+
+  it("hashes plain signature lists, keeping indexed event parameters", () => {
+    const entries = SignatureDumpParser.parse(
+      "signatures.json",
+      JSON.stringify([
+        "function transfer(address, uint256)",
+        "event Transfer(address indexed, address indexed, uint256)",
+      ]),
+    );
+
+    expect(entries).toEqual([
+      {
+        hash: TRANSFER_SELECTOR,
+        kind: "function",
+        signatures: ["transfer(address,uint256)"],
+      },
+      {
+        hash: TRANSFER_TOPIC,
+        kind: "event",
+        signatures: ["Transfer(address indexed,address indexed,uint256)"],
+      },
+    ]);
+  });
+
+  it("reads hash and signature lines, skipping comments", () => {
+    const entries = SignatureDumpParser.parse(
+      "signatures.csv",
+      [
+        "# selector,signature",
+        `"a9059cbb","transfer(address,uint256)"`,
+        `${TRANSFER_TOPIC}\tTransfer(address,address,uint256)`,
+        "approve(address,uint256)",
+      ].join("\r\n"),
+    );
+
+    expect(
+      entries.map(({ hash, signatures }) => [hash, ...signatures]),
+    ).toEqual([
+      [TRANSFER_SELECTOR, "transfer(address,uint256)"],
+      [TRANSFER_TOPIC, "Transfer(address,address,uint256)"],
+      ["0x095ea7b3", "approve(address,uint256)"],
+    ]);
+  });
+
+  it("rejects invalid JSON and files without signatures", () => {
+    expect(() => SignatureDumpParser.parse("broken.json", "{ nope")).toThrow(
+      "broken.json is not valid JSON",
+    );
+    expect(() =>
+      SignatureDumpParser.parse("notes.txt", "not a signature\n# comment"),
+    ).toThrow("notes.txt has no signatures");
+  });
+});
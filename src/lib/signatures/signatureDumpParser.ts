@@ -0,0 +1,177 @@
+import { id } from "ethers";
+import { SIGNATURE_PATTERN } from "./constants";
+import type { SignatureEntry, SignatureKind } from "./types";
+
+interface FourByteRecord {
+  hex_signature?: string;
+  text_signature?: string;
+  bytes_signature?: string;
+}
+
+interface OpenChainRecord {
+  name?: string;
+}
+
+type OpenChainSection = Record<string, OpenChainRecord[] | null>;
+
+interface SignatureDumpJson {
+  // 4byte.directory API pages
+  results?: FourByteRecord[];
+  // openchain.xyz lookup and export responses
+  result?: { function?: OpenChainSection; event?: OpenChainSection };
+}
+
+const HASH_PATTERN = /^(?:0x)?([0-9a-f]{8}|[0-9a-f]{64})$/i;
+const LINE_PATTERN =
+  /^["']?(?:0x)?([0-9a-f]{8}|[0-9a-f]{64})["']?\s*[,;:\t ]\s*["']?(.+?)["']?$/i;
+
+const normalizeHash = (hash: string) => {
+  const match = HASH_PATTERN.exec(hash.trim());
+  return match ? `0x${match[1].toLowerCase()}` : null;
+};
+
+const kindOf = (hash: string): SignatureKind =>
+  hash.length === 10 ? "function" : "event";
+
+// Drops whitespace but keeps ` indexed` on event parameters, which the log
+// decoder uses and the topic hash leaves out.
+const normalizeSignature = (signature: string) =>
+  signature
+    .trim()
+    .split(/\s+indexed\b/)
+    .map((part) => part.replace(/\s+/g, ""))
+    .join(" indexed");
+
+/**
+ * Reads selector and topic signatures from 4byte.directory and openchain
+ * exports, hash-to-signature JSON maps, plain signature lists and
+ * `hash,signature` text or CSV lines.
+ */
+export class SignatureDumpParser {
+  static parse(fileName: string, text: string): SignatureEntry[] {
+    const collected = new Map<string, Set<string>>();
+    const add = (hash: string | null, signature: unknown) => {
+      if (!hash || typeof signature !== "string") return;
+      const normalized = normalizeSignature(signature);
+      if (!SIGNATURE_PATTERN.test(normalized)) return;
+      const signatures = collected.get(hash) ?? new Set<string>();
+      signatures.add(normalized);
+      collected.set(hash, signatures);
+    };
+
+    const trimmed = text.trim();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      let json: unknown;
+      try {
+        json = JSON.parse(trimmed);
+      } catch {
+        throw new Error(`${fileName} is not valid JSON`);
+      }
+      this.parseJson(json, add);
+    } else {
+      for (const line of trimmed.split(/\r?\n/)) {
+        this.parseLine(line.trim(), add);
+      }
+    }
+
+    if (collected.size === 0) {
+      throw new Error(
+        `${fileName} has no signatures. Use a 4byte or openchain export, a JSON map of hashes to signatures, or one "hash,signature" per line.`,
+      );
+    }
+
+    return Array.from(collected, ([hash, signatures]) => ({
+      hash,
+      kind: kindOf(hash),
+      signatures: Array.from(signatures),
+    }));
+  }
+
+  /**
+   * Selector or topic for a text signature. Lines prefixed with `event`
+   * are hashed as events, everything else as functions.
+   */
+  static hashSignature(signature: string): string | null {
+    const match = /^(event|function|error)\s+(.+)$/.exec(signature.trim());
+    const text = normalizeSignature(match ? match[2] : signature);
+    if (!SIGNATURE_PATTERN.test(text)) return null;
+    const topic = id(text.replace(/ indexed/g, ""));
+    return match?.[1] === "event" ? topic : topic.slice(0, 10);
+  }
+
+  private static parseJson(
+    json: unknown,
+    add: (hash: string | null, signature: unknown) => void,
+  ) {
+    if (Array.isArray(json)) {
+      for (const item of json) {
+        if (typeof item === "string") {
+          add(this.hashSignature(item), this.stripKeyword(item));
+        } else if (item && typeof item === "object") {
+          this.parseRecord(item as FourByteRecord, add);
+        }
+      }
+      return;
+    }
+    if (!json || typeof json !== "object") return;
+
+    const dump = json as SignatureDumpJson;
+    if (Array.isArray(dump.results)) {
+      dump.results.forEach((record) => this.parseRecord(record, add));
+      return;
+    }
+    if (dump.result && typeof dump.result === "object") {
+      for (const section of [dump.result.function, dump.result.event]) {
+        for (const [hash, records] of Object.entries(section ?? {})) {
+          records?.forEach((record) => add(normalizeHash(hash), record.name));
+        }
+      }
+      return;
+    }
+
+    for (const [hash, value] of Object.entries(json)) {
+      const normalized = normalizeHash(hash);
+      const values = Array.isArray(value) ? value : [value];
+      for (const item of values) {
+        add(
+          normalized,
+          item && typeof item === "object"
+            ? (item as OpenChainRecord).name
+            : item,
+        );
+      }
+    }
+  }
+
+  private static parseRecord(
+    record: FourByteRecord,
+    add: (hash: string | null, signature: unknown) => void,
+  ) {
+    const signature = record.text_signature;
+    if (typeof signature !== "string") return;
+    const hash = record.hex_signature ?? record.bytes_signature;
+    add(
+      typeof hash === "string"
+        ? normalizeHash(hash)
+        : this.hashSignature(signature),
+      signature,
+    );
+  }
+
+  private static parseLine(
+    line: string,
+    add: (hash: string | null, signature: unknown) => void,
+  ) {
+    if (!line || line.startsWith("#")) return;
+    const match = LINE_PATTERN.exec(line);
+    if (match) {
+      add(`0x${match[1].toLowerCase()}`, match[2]);
+    } else {
+      add(this.hashSignature(line), this.stripKeyword(line));
+    }
+  }
+
+  private static stripKeyword(signature: string) {
+    return signature.trim().replace(/^(event|function|error)\s+/, "");
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  SIGNATURE_DB_NAME,
+  SIGNATURE_DB_VERSION,
+  SIGNATURE_KIND_INDEX,
+  SIGNATURE_STORE,
+} from "./constants";
+import type { SignatureEntry, SignatureKind } from "./types";
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const complete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * IndexedDB store for selector and topic signatures, keyed by hash. Full
+ * 4byte dumps run to hundreds of thousands of entries.
+ */
+export class SignatureStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(
+        new Error("This browser does not support IndexedDB"),
+      );
+    }
+
+    if (!this.database) {
+      const request = indexedDB.open(SIGNATURE_DB_NAME, SIGNATURE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(SIGNATURE_STORE)) {
+          request.result
+            .createObjectStore(SIGNATURE_STORE, { keyPath: "hash" })
+            .createIndex(SIGNATURE_KIND_INDEX, "kind");
+        }
+      };
+      this.database = toPromise(request).catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  private async transaction(mode: IDBTransactionMode) {
+    const database = await this.open();
+    return database.transaction(SIGNATURE_STORE, mode);
+  }
+
+  async getMany(hashes: string[]): Promise<SignatureEntry[]> {
+    const transaction = await this.transaction("readonly");
+    const store = transaction.objectStore(SIGNATURE_STORE);
+    const entries = await Promise.all(
+      hashes.map((hash) =>
+        toPromise<SignatureEntry | undefined>(store.get(hash)),
+      ),
+    );
+    return entries.filter((entry): entry is SignatureEntry => !!entry);
+  }
+
+  /**
+   * Adds the signatures to the stored entries in one transaction and
+   * returns how many were new.
+   */
+  async merge(entries: SignatureEntry[]): Promise<number> {
+    const transaction = await this.transaction("readwrite");
+    const store = transaction.objectStore(SIGNATURE_STORE);
+    let added = 0;
+
+    for (const entry of entries) {
+      const request = store.get(entry.hash);
+      request.onsuccess = () => {
+        const existing = request.result as SignatureEntry | undefined;
+        const signatures = existing?.signatures ?? [];
+        const fresh = entry.signatures.filter(
+          (signature) => !signatures.includes(signature),
+        );
+        if (fresh.length === 0) return;
+        added += fresh.length;
+        store.put({ ...entry, signatures: [...signatures, ...fresh] });
+      };
+    }
+
+    await complete(transaction);
+    return added;
+  }
+
+  async count(kind: SignatureKind): Promise<number> {
+    const transaction = await this.transaction("readonly");
+    return toPromise(
+      transaction
+        .objectStore(SIGNATURE_STORE)
+        .index(SIGNATURE_KIND_INDEX)
+        .count(kind),
+    );
+  }
+
+  async clear(): Promise<void> {
+    const transaction = await this.transaction("readwrite");
+    await toPromise(transaction.objectStore(SIGNATURE_STORE).clear());
+  }
+}
@@ -0,0 +1,19 @@
+export type SignatureKind = "function" | "event";
+
+export interface SignatureEntry {
+  // 4-byte selector for functions and errors, 32-byte topic for events
+  hash: string;
+  kind: SignatureKind;
+  signatures: string[];
+}
+
+export interface SignatureImportResult {
+  fileName: string;
+  hashes: number;
+  added: number;
+}
+
+export interface SignatureDatabaseStats {
+  functions: number;
+  events: number;
+}
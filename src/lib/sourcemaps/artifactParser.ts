@@ -0,0 +1,375 @@
+import { SourceMapDecoder } from "./sourceMapDecoder";
+import type {
+  ArtifactFormat,
+  ByteRange,
+  CompiledBytecode,
+  FunctionRange,
+  SourceArtifact,
+  SourceFile,
+} from "./types";
+
+interface EvmBytecodeJson {
+  object?: string;
+  sourceMap?: string;
+  immutableReferences?: Record<string, ByteRange[]>;
+}
+
+interface SourceJson {
+  id?: number;
+  ast?: unknown;
+  content?: string;
+}
+
+interface StandardOutputJson {
+  contracts?: Record<
+    string,
+    Record<
+      string,
+      {
+        evm?: {
+          bytecode?: EvmBytecodeJson;
+          deployedBytecode?: EvmBytecodeJson;
+        };
+      }
+    >
+  >;
+  sources?: Record<string, SourceJson>;
+}
+
+interface StandardInputJson {
+  language?: string;
+  sources?: Record<string, SourceJson>;
+}
+
+interface ArtifactJson extends StandardOutputJson {
+  // Build-info files
+  input?: StandardInputJson;
+  output?: StandardOutputJson;
+  solcVersion?: string;
+  solcLongVersion?: string;
+  // Standard-JSON input
+  language?: string;
+  // Foundry and Hardhat contract artifacts
+  bytecode?: EvmBytecodeJson;
+  deployedBytecode?: EvmBytecodeJson;
+  id?: number;
+  ast?: { absolutePath?: string };
+  metadata?: {
+    compiler?: { version?: string };
+    settings?: { compilationTarget?: Record<string, string> };
+    sources?: Record<string, SourceJson>;
+  };
+  _format?: string;
+}
+
+interface AstNode {
+  nodeType?: string;
+  name?: string;
+  kind?: string;
+  src?: string;
+}
+
+const FUNCTION_NODE_TYPES = ["FunctionDefinition", "ModifierDefinition"];
+
+const FUNCTION_PATTERN =
+  /\b(?:function\s+([A-Za-z_$][\w$]*)|modifier\s+([A-Za-z_$][\w$]*)|(constructor|fallback|receive))\s*\(/g;
+const CONTRACT_PATTERN =
+  /\b(?:contract|library|interface)\s+([A-Za-z_$][\w$]*)/g;
+
+const createArtifactId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toBytecode = (
+  evmBytecode: EvmBytecodeJson | undefined,
+): CompiledBytecode | null => {
+  const object = evmBytecode?.object;
+  if (!object || !evmBytecode.sourceMap) return null;
+
+  const immutableReferences = Object.values(
+    evmBytecode.immutableReferences ?? {},
+  ).flat();
+
+  return {
+    object: object.replace(/^0x/i, "").toLowerCase(),
+    sourceMap: evmBytecode.sourceMap,
+    immutableReferences,
+  };
+};
+
+/**
+ * Reads compiler output into SourceArtifacts: solc standard-JSON input and
+ * output, Hardhat and Foundry build-info files, Foundry contract artifacts
+ * and plain Solidity sources.
+ */
+export class ArtifactParser {
+  static parse(fileName: string, text: string): SourceArtifact {
+    if (fileName.toLowerCase().endsWith(".sol")) {
+      return this.createArtifact(fileName, "source", null, [
+        { id: null, path: fileName, content: text },
+      ]);
+    }
+
+    let json: ArtifactJson;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error(`${fileName} is not valid JSON`);
+    }
+
+    if (json.input && json.output) {
+      return this.parseStandardJson(
+        fileName,
+        "build-info",
+        json.output,
+        json.input,
+        json.solcLongVersion ?? json.solcVersion ?? null,
+      );
+    }
+    if (json.contracts && json.sources && !json.language) {
+      return this.parseStandardJson(
+        fileName,
+        "standard-json-output",
+        json,
+        null,
+        null,
+      );
+    }
+    if (json.language && json.sources) {
+      const sources = Object.entries(json.sources).map(([path, source]) => ({
+        id: null,
+        path,
+        content: typeof source.content === "string" ? source.content : null,
+      }));
+      return this.createArtifact(
+        fileName,
+        "standard-json-input",
+        null,
+        sources,
+      );
+    }
+    if (json.deployedBytecode?.object !== undefined) {
+      return this.parseFoundryArtifact(fileName, json);
+    }
+    if (
+      typeof json._format === "string" &&
+      json._format.startsWith("hh-sol-artifact")
+    ) {
+      throw new Error(
+        `${fileName} is a Hardhat contract artifact, which has no source maps. Upload the matching file from artifacts/build-info instead.`,
+      );
+    }
+    throw new Error(
+      `${fileName} is not a recognized compiler artifact. Use solc standard-JSON output, a build-info file or a Foundry artifact.`,
+    );
+  }
+
+  private static parseStandardJson(
+    fileName: string,
+    format: ArtifactFormat,
+    output: StandardOutputJson,
+    input: StandardInputJson | null,
+    compilerVersion: string | null,
+  ): SourceArtifact {
+    const sourceOutput = output.sources ?? {};
+    const inputSources = input?.sources ?? {};
+    const paths = new Set([
+      ...Object.keys(sourceOutput),
+      ...Object.keys(inputSources),
+    ]);
+
+    const sources: SourceFile[] = Array.from(paths).map((path) => ({
+      id:
+        typeof sourceOutput[path]?.id === "number"
+          ? sourceOutput[path].id
+          : null,
+      path,
+      content:
+        typeof inputSources[path]?.content === "string"
+          ? inputSources[path].content
+          : null,
+    }));
+
+    const artifact = this.createArtifact(
+      fileName,
+      format,
+      compilerVersion,
+      sources,
+    );
+
+    for (const [path, contracts] of Object.entries(output.contracts ?? {})) {
+      for (const [name, contract] of Object.entries(contracts)) {
+        const deployed = toBytecode(contract.evm?.deployedBytecode);
+        const creation = toBytecode(contract.evm?.bytecode);
+        if (!deployed && !creation) continue;
+        artifact.contracts.push({
+          key: `${artifact.id}:${path}:${name}`,
+          name,
+          sourcePath: path,
+          deployed,
+          creation,
+        });
+      }
+    }
+
+    for (const source of Object.values(sourceOutput)) {
+      if (source.ast) this.collectFunctions(source.ast, artifact.functions);
+    }
+    this.addMissingFunctions(artifact);
+
+    if (artifact.contracts.length === 0) {
+      throw new Error(
+        `${fileName} has no bytecode source maps. Compile with evm.deployedBytecode.sourceMap in outputSelection.`,
+      );
+    }
+    return artifact;
+  }
+
+  private static parseFoundryArtifact(
+    fileName: string,
+    json: ArtifactJson,
+  ): SourceArtifact {
+    const compilationTarget = json.metadata?.settings?.compilationTarget ?? {};
+    const [targetPath, targetName] = Object.entries(compilationTarget)[0] ?? [];
+    const path: string = json.ast?.absolutePath ?? targetPath ?? fileName;
+    const name: string =
+      targetName ?? fileName.replace(/^.*[\\/]/, "").replace(/\.json$/i, "");
+
+    const deployed = toBytecode(json.deployedBytecode);
+    const creation = toBytecode(json.bytecode);
+    if (!deployed && !creation) {
+      throw new Error(
+        `${fileName} has no source map. Foundry writes one unless the contract is an interface.`,
+      );
+    }
+
+    const metadataSource = json.metadata?.sources?.[path];
+    const artifact = this.createArtifact(
+      fileName,
+      "foundry",
+      json.metadata?.compiler?.version ?? null,
+      [
+        {
+          id: typeof json.id === "number" ? json.id : null,
+          path,
+          content:
+            typeof metadataSource?.content === "string"
+              ? metadataSource.content
+              : null,
+        },
+      ],
+    );
+    artifact.contracts.push({
+      key: `${artifact.id}:${path}:${name}`,
+      name,
+      sourcePath: path,
+      deployed,
+      creation,
+    });
+
+    if (json.ast) this.collectFunctions(json.ast, artifact.functions);
+    this.addMissingFunctions(artifact);
+    return artifact;
+  }
+
+  private static createArtifact(
+    fileName: string,
+    format: ArtifactFormat,
+    compilerVersion: string | null,
+    sources: SourceFile[],
+  ): SourceArtifact {
+    return {
+      id: createArtifactId(),
+      fileName,
+      format,
+      compilerVersion,
+      sources,
+      contracts: [],
+      functions: [],
+      uploadedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Function and modifier ranges from a compact JSON AST.
+   */
+  private static collectFunctions(
+    node: unknown,
+    functions: FunctionRange[],
+    contractName: string | null = null,
+  ) {
+    if (Array.isArray(node)) {
+      node.forEach((child) =>
+        this.collectFunctions(child, functions, contractName),
+      );
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+
+    const astNode = node as AstNode;
+    let currentContract = contractName;
+    if (astNode.nodeType === "ContractDefinition") {
+      currentContract = astNode.name;
+    }
+    if (
+      FUNCTION_NODE_TYPES.includes(astNode.nodeType) &&
+      typeof astNode.src === "string"
+    ) {
+      const [start, length, fileIndex] = astNode.src.split(":").map(Number);
+      functions.push({
+        name: astNode.name || astNode.kind || "function",
+        contractName: currentContract,
+        fileIndex,
+        start,
+        length,
+      });
+    }
+
+    for (const value of Object.values(astNode)) {
+      if (value && typeof value === "object") {
+        this.collectFunctions(value, functions, currentContract);
+      }
+    }
+  }
+
+  /**
+   * Sources without an AST get function ranges from a text scan, matching
+   * braces without parsing strings or comments.
+   */
+  private static addMissingFunctions(artifact: SourceArtifact) {
+    const covered = new Set(artifact.functions.map((fn) => fn.fileIndex));
+
+    for (const source of artifact.sources) {
+      if (source.id === null || !source.content || covered.has(source.id)) {
+        continue;
+      }
+      const content = source.content;
+      const contracts = Array.from(content.matchAll(CONTRACT_PATTERN));
+
+      for (const match of content.matchAll(FUNCTION_PATTERN)) {
+        const bodyStart = content.slice(match.index).search(/[{;]/);
+        if (bodyStart === -1 || content[match.index + bodyStart] === ";") {
+          continue;
+        }
+
+        let depth = 0;
+        let end = match.index + bodyStart;
+        for (; end < content.length; end++) {
+          if (content[end] === "{") depth++;
+          else if (content[end] === "}" && --depth === 0) break;
+        }
+
+        const start = SourceMapDecoder.toByteOffset(content, match.index);
+        const contract = contracts
+          .filter((candidate) => candidate.index < match.index)
+          .pop();
+        artifact.functions.push({
+          name: match[1] ?? match[2] ?? match[3],
+          contractName: contract?.[1] ?? null,
+          fileIndex: source.id,
+          start,
+          length: SourceMapDecoder.toByteOffset(content, end + 1) - start,
+        });
+      }
+    }
+  }
+}
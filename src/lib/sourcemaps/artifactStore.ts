@@ -0,0 +1,75 @@
+import {
+  SOURCE_ARTIFACT_DB_NAME,
+  SOURCE_ARTIFACT_DB_VERSION,
+  SOURCE_ARTIFACT_STORE,
+} from "./constants";
+import type { SourceArtifact } from "./types";
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * IndexedDB store for uploaded artifacts; build-info files easily exceed
+ * what localStorage can hold.
+ */
+export class ArtifactStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(
+        new Error("This browser does not support IndexedDB"),
+      );
+    }
+
+    if (!this.database) {
+      const request = indexedDB.open(
+        SOURCE_ARTIFACT_DB_NAME,
+        SOURCE_ARTIFACT_DB_VERSION,
+      );
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(SOURCE_ARTIFACT_STORE)) {
+          request.result.createObjectStore(SOURCE_ARTIFACT_STORE, {
+            keyPath: "id",
+          });
+        }
+      };
+      this.database = toPromise(request).catch((error) => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  private async transaction(mode: IDBTransactionMode) {
+    const database = await this.open();
+    return database
+      .transaction(SOURCE_ARTIFACT_STORE, mode)
+      .objectStore(SOURCE_ARTIFACT_STORE);
+  }
+
+  async getAll(): Promise<SourceArtifact[]> {
+    const store = await this.transaction("readonly");
+    const artifacts = await toPromise<SourceArtifact[]>(store.getAll());
+    return artifacts.sort((a, b) => a.uploadedAt - b.uploadedAt);
+  }
+
+  async put(artifact: SourceArtifact): Promise<void> {
+    const store = await this.transaction("readwrite");
+    await toPromise(store.put(artifact));
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.transaction("readwrite");
+    await toPromise(store.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.transaction("readwrite");
+    await toPromise(store.clear());
+  }
+}
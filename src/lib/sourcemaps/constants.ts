@@ -0,0 +1,13 @@
+export const SOURCE_ARTIFACT_DB_NAME = "arguschain_source_artifacts";
+export const SOURCE_ARTIFACT_DB_VERSION = 1;
+export const SOURCE_ARTIFACT_STORE = "artifacts";
+
+export const SOURCE_ATTACHMENTS_STORAGE_KEY = "arguschain_source_attachments";
+
+export const SOURCE_ARTIFACT_EXTENSIONS = [".json", ".sol"];
+
+// Library placeholders are `__$<34 hex chars>$__`, or the padded library
+// name before solc 0.5; both take the 40 hex characters of an address.
+export const LIBRARY_PLACEHOLDER_PATTERN = /__.{36}__/g;
+
+export const SOURCE_GAS_TOP_LINES = 50;
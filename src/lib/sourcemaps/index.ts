@@ -0,0 +1,7 @@
+export { SourceMapService, sourceMapService } from "./sourceMapService";
+export { SourceMapDecoder } from "./sourceMapDecoder";
+export { ArtifactParser } from "./artifactParser";
+export { ArtifactStore } from "./artifactStore";
+
+export * from "./types";
+export * from "./constants";
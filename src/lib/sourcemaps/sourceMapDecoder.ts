@@ -0,0 +1,122 @@
+import type { SourceFile, SourceMapEntry } from "./types";
+
+const PUSH1 = 0x60;
+const PUSH32 = 0x7f;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const lineCache = new WeakMap<
+  SourceFile,
+  { bytes: Uint8Array; starts: number[] }
+>();
+
+export const stripHexPrefix = (value: string) =>
+  value.startsWith("0x") || value.startsWith("0X") ? value.slice(2) : value;
+
+/**
+ * Decoding of solc source maps and the pc and byte-offset lookups they need.
+ */
+export class SourceMapDecoder {
+  /**
+   * Expands the compressed `s:l:f:j:m;...` form, where empty fields repeat
+   * the previous entry, into one entry per instruction.
+   */
+  static decode(sourceMap: string): SourceMapEntry[] {
+    const entries: SourceMapEntry[] = [];
+    let previous: SourceMapEntry = {
+      start: -1,
+      length: -1,
+      fileIndex: -1,
+      jump: "-",
+      modifierDepth: 0,
+    };
+
+    if (!sourceMap) return entries;
+
+    for (const item of sourceMap.split(";")) {
+      const [start, length, fileIndex, jump, modifierDepth] = item.split(":");
+      const entry: SourceMapEntry = {
+        start: start ? Number(start) : previous.start,
+        length: length ? Number(length) : previous.length,
+        fileIndex: fileIndex ? Number(fileIndex) : previous.fileIndex,
+        jump: jump ? (jump as SourceMapEntry["jump"]) : previous.jump,
+        modifierDepth: modifierDepth
+          ? Number(modifierDepth)
+          : previous.modifierDepth,
+      };
+      entries.push(entry);
+      previous = entry;
+    }
+    return entries;
+  }
+
+  /**
+   * Instruction index for every byte of the code. Source maps count
+   * instructions, while traces report byte offsets, and PUSH data bytes
+   * belong to the preceding instruction.
+   */
+  static buildInstructionIndex(code: string): Int32Array {
+    const hex = stripHexPrefix(code);
+    const size = Math.floor(hex.length / 2);
+    const index = new Int32Array(size).fill(-1);
+
+    let instruction = 0;
+    for (let pc = 0; pc < size; pc++) {
+      const opcode = parseInt(hex.substr(pc * 2, 2), 16);
+      index[pc] = instruction++;
+      if (opcode >= PUSH1 && opcode <= PUSH32) {
+        pc += opcode - PUSH1 + 1;
+      }
+    }
+    return index;
+  }
+
+  /**
+   * UTF-8 bytes of the source and the byte offset at which each line starts.
+   */
+  static getLines(source: SourceFile): { bytes: Uint8Array; starts: number[] } {
+    const cached = lineCache.get(source);
+    if (cached) return cached;
+
+    const bytes = encoder.encode(source.content ?? "");
+    const starts = [0];
+    for (let i = 0; i < bytes.length; i++) {
+      if (bytes[i] === 0x0a) starts.push(i + 1);
+    }
+    const lines = { bytes, starts };
+    lineCache.set(source, lines);
+    return lines;
+  }
+
+  /**
+   * 1-based line and column of a byte offset.
+   */
+  static toLineColumn(
+    source: SourceFile,
+    offset: number,
+  ): { line: number; column: number } {
+    const { starts } = this.getLines(source);
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (starts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return { line: low + 1, column: offset - starts[low] + 1 };
+  }
+
+  static getLineText(source: SourceFile, line: number): string | null {
+    if (source.content === null) return null;
+    const { bytes, starts } = this.getLines(source);
+    const end = line < starts.length ? starts[line] : bytes.length;
+    return decoder.decode(bytes.subarray(starts[line - 1], end)).trim();
+  }
+
+  /**
+   * Byte offset of a character index, for ranges found by text search.
+   */
+  static toByteOffset(content: string, charIndex: number): number {
+    return encoder.encode(content.slice(0, charIndex)).length;
+  }
+}
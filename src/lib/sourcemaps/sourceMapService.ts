@@ -0,0 +1,480 @@
+import { blockchainService } from "@/lib/blockchainService";
+import type { StructLogStep } from "@/lib/tracing";
+import { ArtifactParser } from "./artifactParser";
+import { ArtifactStore } from "./artifactStore";
+import {
+  LIBRARY_PLACEHOLDER_PATTERN,
+  SOURCE_ATTACHMENTS_STORAGE_KEY,
+} from "./constants";
+import { SourceMapDecoder, stripHexPrefix } from "./sourceMapDecoder";
+import type {
+  ByteRange,
+  CompiledBytecode,
+  CompiledContract,
+  ContractSourceMap,
+  ResolvedContract,
+  SourceAddressAttachment,
+  SourceArtifact,
+  SourceFile,
+  SourceFunctionGas,
+  SourceGasAttribution,
+  SourceGasStep,
+  SourceLineGas,
+  SourceLocation,
+} from "./types";
+
+const OUTSIDE_FUNCTIONS = "(dispatcher and other code)";
+
+const samePath = (a: string, b: string) =>
+  a === b || a.endsWith(`/${b}`) || b.endsWith(`/${a}`);
+
+/**
+ * Hex-character ranges that legitimately differ between compiled and
+ * deployed code: the CBOR metadata tail, immutables and library addresses.
+ */
+const getIgnoredRanges = (compiled: CompiledBytecode): ByteRange[] => {
+  const { object } = compiled;
+  const ranges = compiled.immutableReferences.map((reference) => ({
+    start: reference.start * 2,
+    length: reference.length * 2,
+  }));
+
+  for (const match of object.matchAll(LIBRARY_PLACEHOLDER_PATTERN)) {
+    ranges.push({ start: match.index, length: match[0].length });
+  }
+
+  const metadataLength = parseInt(object.slice(-4), 16);
+  const tailLength = (metadataLength + 2) * 2;
+  if (Number.isFinite(metadataLength) && tailLength < object.length) {
+    ranges.push({ start: object.length - tailLength, length: tailLength });
+  }
+
+  return ranges.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Uploaded compiler artifacts and the lookups from traced code to Solidity
+ * source lines and functions.
+ */
+export class SourceMapService {
+  private store = new ArtifactStore();
+  private artifacts: Promise<SourceArtifact[]> | null = null;
+  private sourceMaps = new Map<string, ContractSourceMap | null>();
+  private locations = new WeakMap<
+    ContractSourceMap,
+    Map<number, SourceLocation | null>
+  >();
+  private codeCache = new Map<string, Promise<string>>();
+
+  async getArtifacts(): Promise<SourceArtifact[]> {
+    if (!this.artifacts) {
+      this.artifacts = this.store.getAll().catch((error) => {
+        this.artifacts = null;
+        throw error;
+      });
+    }
+    return this.artifacts;
+  }
+
+  /**
+   * Parses and stores the files, keeping the ones that parse when others
+   * fail.
+   */
+  async addFiles(
+    files: File[],
+  ): Promise<{ added: SourceArtifact[]; errors: string[] }> {
+    const added: SourceArtifact[] = [];
+    const errors: string[] = [];
+
+    for (const file of files) {
+      try {
+        const artifact = ArtifactParser.parse(file.name, await file.text());
+        await this.store.put(artifact);
+        added.push(artifact);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (added.length > 0) this.invalidate();
+    return { added, errors };
+  }
+
+  async removeArtifact(id: string): Promise<void> {
+    await this.store.delete(id);
+    this.saveAttachments(
+      this.getAttachments().filter(
+        (attachment) => !attachment.contractKey.startsWith(`${id}:`),
+      ),
+    );
+    this.invalidate();
+  }
+
+  async getContracts(): Promise<CompiledContract[]> {
+    const artifacts = await this.getArtifacts();
+    return artifacts.flatMap((artifact) => artifact.contracts);
+  }
+
+  getAttachments(): SourceAddressAttachment[] {
+    try {
+      const stored = localStorage.getItem(SOURCE_ATTACHMENTS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn("Failed to load source attachments:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Maps an address to a contract when its code does not match the
+   * artifact byte for byte, e.g. after a compiler settings change.
+   */
+  attachAddress(network: string, address: string, contractKey: string) {
+    const normalized = address.toLowerCase();
+    this.saveAttachments([
+      ...this.getAttachments().filter(
+        (attachment) =>
+          attachment.network !== network || attachment.address !== normalized,
+      ),
+      { network, address: normalized, contractKey },
+    ]);
+    this.sourceMaps.clear();
+  }
+
+  detachAddress(network: string, address: string) {
+    const normalized = address.toLowerCase();
+    this.saveAttachments(
+      this.getAttachments().filter(
+        (attachment) =>
+          attachment.network !== network || attachment.address !== normalized,
+      ),
+    );
+    this.sourceMaps.clear();
+  }
+
+  /**
+   * Source map for the code at an address, or null when no uploaded
+   * contract matches it. Frames running a constructor use the creation
+   * source map of the contract they deploy.
+   */
+  async resolveAddress(
+    network: string,
+    address: string,
+    isCreation = false,
+  ): Promise<ContractSourceMap | null> {
+    const normalized = address.toLowerCase();
+    const cacheKey = `${network}:${normalized}:${isCreation}`;
+    if (this.sourceMaps.has(cacheKey)) return this.sourceMaps.get(cacheKey)!;
+
+    const artifacts = await this.getArtifacts();
+    let resolved: ResolvedContract | null = null;
+
+    const attachment = this.getAttachments().find(
+      (candidate) =>
+        candidate.network === network && candidate.address === normalized,
+    );
+    if (attachment) {
+      resolved = this.findContract(artifacts, attachment.contractKey, {
+        isCreation,
+        matchedBy: "attachment",
+      });
+    }
+
+    if (!resolved && artifacts.some((artifact) => artifact.contracts.length)) {
+      const code = await this.getCode(network, normalized);
+      resolved = this.matchCode(artifacts, code, isCreation);
+    }
+
+    const sourceMap = resolved
+      ? this.buildSourceMap(artifacts, resolved)
+      : null;
+    this.sourceMaps.set(cacheKey, sourceMap);
+    return sourceMap;
+  }
+
+  /**
+   * Source map for runtime or creation code taken from a trace, such as
+   * parity vmTrace frames.
+   */
+  async resolveCode(
+    code: string,
+    isCreation = false,
+  ): Promise<ContractSourceMap | null> {
+    const cacheKey = `code:${isCreation}:${code}`;
+    if (this.sourceMaps.has(cacheKey)) return this.sourceMaps.get(cacheKey)!;
+
+    const artifacts = await this.getArtifacts();
+    const resolved = this.matchCode(artifacts, code, isCreation, isCreation);
+    const sourceMap = resolved
+      ? this.buildSourceMap(artifacts, resolved)
+      : null;
+    this.sourceMaps.set(cacheKey, sourceMap);
+    return sourceMap;
+  }
+
+  locate(sourceMap: ContractSourceMap, pc: number): SourceLocation | null {
+    const instruction = sourceMap.instructionIndex[pc] ?? -1;
+    if (instruction < 0) return null;
+
+    let cache = this.locations.get(sourceMap);
+    if (!cache) {
+      cache = new Map();
+      this.locations.set(sourceMap, cache);
+    }
+    if (cache.has(instruction)) return cache.get(instruction)!;
+
+    const entry = sourceMap.entries[instruction];
+    let location: SourceLocation | null = null;
+    if (entry && entry.fileIndex >= 0 && entry.start >= 0) {
+      const source = sourceMap.sources.get(entry.fileIndex);
+      const position = source?.content
+        ? SourceMapDecoder.toLineColumn(source, entry.start)
+        : null;
+
+      const enclosing = sourceMap.functions
+        .filter(
+          (fn) =>
+            fn.fileIndex === entry.fileIndex &&
+            fn.start <= entry.start &&
+            entry.start + entry.length <= fn.start + fn.length,
+        )
+        .sort((a, b) => a.length - b.length)[0];
+
+      location = {
+        contractName: sourceMap.resolved.contract.name,
+        filePath: source?.path ?? null,
+        fileIndex: entry.fileIndex,
+        line: position?.line ?? null,
+        column: position?.column ?? null,
+        start: entry.start,
+        length: entry.length,
+        jump: entry.jump,
+        functionName: enclosing
+          ? enclosing.contractName
+            ? `${enclosing.contractName}.${enclosing.name}`
+            : enclosing.name
+          : null,
+        lineText:
+          source && position
+            ? SourceMapDecoder.getLineText(source, position.line)
+            : null,
+      };
+    }
+
+    cache.set(instruction, location);
+    return location;
+  }
+
+  /**
+   * Gas spent by each step of a structLog trace, excluding gas forwarded to
+   * calls, which is counted on the callee's steps instead.
+   */
+  getStepGas(steps: StructLogStep[]): number[] {
+    return steps.map((step, index) => {
+      const next = steps[index + 1];
+      if (!next || next.depth < step.depth) return step.gasCost;
+      if (next.depth > step.depth) return Math.max(0, step.gasCost - next.gas);
+      // Covers calls that returned immediately, e.g. to precompiles.
+      return Math.max(0, step.gas - next.gas);
+    });
+  }
+
+  attributeGas(steps: SourceGasStep[]): SourceGasAttribution {
+    const lines = new Map<string, SourceLineGas>();
+    const functions = new Map<string, SourceFunctionGas>();
+    let totalGas = 0;
+    let mappedGas = 0;
+    let mappedSteps = 0;
+
+    for (const step of steps) {
+      totalGas += step.gas;
+      const location = step.contract
+        ? this.locate(step.contract, step.pc)
+        : null;
+      if (!location) continue;
+
+      mappedGas += step.gas;
+      mappedSteps++;
+
+      const lineKey = `${location.contractName}:${location.filePath}:${location.line ?? location.start}`;
+      const line = lines.get(lineKey) ?? {
+        key: lineKey,
+        contractName: location.contractName,
+        filePath: location.filePath,
+        line: location.line,
+        lineText: location.lineText,
+        functionName: location.functionName,
+        gas: 0,
+        steps: 0,
+      };
+      line.gas += step.gas;
+      line.steps++;
+      lines.set(lineKey, line);
+
+      const functionName = location.functionName ?? OUTSIDE_FUNCTIONS;
+      const functionKey = `${location.contractName}:${functionName}`;
+      const fn = functions.get(functionKey) ?? {
+        key: functionKey,
+        contractName: location.contractName,
+        functionName,
+        gas: 0,
+        steps: 0,
+      };
+      fn.gas += step.gas;
+      fn.steps++;
+      functions.set(functionKey, fn);
+    }
+
+    return {
+      lines: Array.from(lines.values()).sort((a, b) => b.gas - a.gas),
+      functions: Array.from(functions.values()).sort((a, b) => b.gas - a.gas),
+      totalGas,
+      mappedGas,
+      totalSteps: steps.length,
+      mappedSteps,
+    };
+  }
+
+  private async getCode(network: string, address: string): Promise<string> {
+    const key = `${network}:${address}`;
+    if (!this.codeCache.has(key)) {
+      this.codeCache.set(
+        key,
+        blockchainService
+          .makeRPCCall<string>("eth_getCode", [address, "latest"])
+          .catch((error) => {
+            this.codeCache.delete(key);
+            throw error;
+          }),
+      );
+    }
+    return this.codeCache.get(key)!;
+  }
+
+  private findContract(
+    artifacts: SourceArtifact[],
+    contractKey: string,
+    {
+      isCreation,
+      matchedBy,
+    }: { isCreation: boolean; matchedBy: ResolvedContract["matchedBy"] },
+  ): ResolvedContract | null {
+    for (const artifact of artifacts) {
+      const contract = artifact.contracts.find(
+        (candidate) => candidate.key === contractKey,
+      );
+      if (contract && (isCreation ? contract.creation : contract.deployed)) {
+        return { contract, artifactId: artifact.id, isCreation, matchedBy };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds the contract whose bytecode matches. Creation frames are matched
+   * by the runtime code they deployed unless the init code itself is known.
+   */
+  private matchCode(
+    artifacts: SourceArtifact[],
+    code: string,
+    isCreation: boolean,
+    codeIsInitCode = false,
+  ): ResolvedContract | null {
+    const actual = stripHexPrefix(code).toLowerCase();
+    if (!actual) return null;
+
+    for (const artifact of artifacts) {
+      for (const contract of artifact.contracts) {
+        const compiled = codeIsInitCode ? contract.creation : contract.deployed;
+        const target = isCreation ? contract.creation : contract.deployed;
+        if (!compiled || !target) continue;
+
+        const expected = compiled.object;
+        // Init code carries constructor arguments after the bytecode.
+        const candidate = codeIsInitCode
+          ? actual.slice(0, expected.length)
+          : actual;
+        if (
+          candidate.length === expected.length &&
+          this.bytecodeMatches(compiled, candidate)
+        ) {
+          return {
+            contract,
+            artifactId: artifact.id,
+            isCreation,
+            matchedBy: "bytecode",
+          };
+        }
+      }
+    }
+    return null;
+  }
+
+  private bytecodeMatches(compiled: CompiledBytecode, actual: string) {
+    const expected = compiled.object;
+    let position = 0;
+    for (const range of getIgnoredRanges(compiled)) {
+      if (
+        expected.slice(position, range.start) !==
+        actual.slice(position, range.start)
+      ) {
+        return false;
+      }
+      position = Math.max(position, range.start + range.length);
+    }
+    return expected.slice(position) === actual.slice(position);
+  }
+
+  private buildSourceMap(
+    artifacts: SourceArtifact[],
+    resolved: ResolvedContract,
+  ): ContractSourceMap {
+    const artifact = artifacts.find((item) => item.id === resolved.artifactId)!;
+    const compiled = resolved.isCreation
+      ? resolved.contract.creation!
+      : resolved.contract.deployed!;
+
+    // Sources without text pick it up from separately uploaded files.
+    const sources = new Map<number, SourceFile>();
+    for (const source of artifact.sources) {
+      if (source.id === null) continue;
+      const content =
+        source.content ??
+        artifacts
+          .flatMap((item) => item.sources)
+          .find(
+            (candidate) =>
+              candidate.content !== null &&
+              samePath(candidate.path, source.path),
+          )?.content ??
+        null;
+      sources.set(source.id, { ...source, content });
+    }
+
+    return {
+      resolved,
+      entries: SourceMapDecoder.decode(compiled.sourceMap),
+      instructionIndex: SourceMapDecoder.buildInstructionIndex(compiled.object),
+      sources,
+      functions: artifact.functions,
+    };
+  }
+
+  private invalidate() {
+    this.artifacts = null;
+    this.sourceMaps.clear();
+  }
+
+  private saveAttachments(attachments: SourceAddressAttachment[]) {
+    try {
+      localStorage.setItem(
+        SOURCE_ATTACHMENTS_STORAGE_KEY,
+        JSON.stringify(attachments),
+      );
+    } catch (error) {
+      console.warn("Failed to save source attachments:", error);
+    }
+  }
+}
+
+export const sourceMapService = new SourceMapService();
@@ -0,0 +1,139 @@
+export type ArtifactFormat =
+  | "build-info"
+  | "standard-json-output"
+  | "standard-json-input"
+  | "foundry"
+  | "source";
+
+export interface SourceFile {
+  // Source index used by the compiler in source maps, null when unknown.
+  id: number | null;
+  path: string;
+  content: string | null;
+}
+
+export interface FunctionRange {
+  name: string;
+  contractName: string | null;
+  fileIndex: number;
+  // Byte offsets into the UTF-8 source, as used by solc.
+  start: number;
+  length: number;
+}
+
+export interface ByteRange {
+  start: number;
+  length: number;
+}
+
+export interface CompiledBytecode {
+  // Hex without 0x; may contain `__$...$__` library placeholders.
+  object: string;
+  sourceMap: string;
+  // Byte ranges the deployer or linker fills in after compilation.
+  immutableReferences: ByteRange[];
+}
+
+export interface CompiledContract {
+  // `<artifactId>:<sourcePath>:<name>`, unique across the store.
+  key: string;
+  name: string;
+  sourcePath: string;
+  deployed: CompiledBytecode | null;
+  creation: CompiledBytecode | null;
+}
+
+export interface SourceArtifact {
+  id: string;
+  fileName: string;
+  format: ArtifactFormat;
+  compilerVersion: string | null;
+  sources: SourceFile[];
+  contracts: CompiledContract[];
+  functions: FunctionRange[];
+  uploadedAt: number;
+}
+
+export interface SourceMapEntry {
+  start: number;
+  length: number;
+  fileIndex: number;
+  jump: "i" | "o" | "-";
+  modifierDepth: number;
+}
+
+export interface SourceLocation {
+  contractName: string;
+  filePath: string | null;
+  fileIndex: number;
+  // Null when the source text was not uploaded.
+  line: number | null;
+  column: number | null;
+  start: number;
+  length: number;
+  jump: SourceMapEntry["jump"];
+  functionName: string | null;
+  // Source text of the line, trimmed; null when the source is not loaded.
+  lineText: string | null;
+}
+
+export interface ResolvedContract {
+  contract: CompiledContract;
+  artifactId: string;
+  // Whether the frame runs the creation code instead of the runtime code.
+  isCreation: boolean;
+  matchedBy: "bytecode" | "attachment";
+}
+
+export interface SourceAddressAttachment {
+  network: string;
+  address: string;
+  contractKey: string;
+}
+
+export interface SourceGasStep {
+  pc: number;
+  gas: number;
+  // Contract running this step, or null when no artifact matched.
+  contract: ContractSourceMap | null;
+}
+
+export interface SourceLineGas {
+  key: string;
+  contractName: string;
+  filePath: string | null;
+  line: number | null;
+  lineText: string | null;
+  functionName: string | null;
+  gas: number;
+  steps: number;
+}
+
+export interface SourceFunctionGas {
+  key: string;
+  contractName: string;
+  functionName: string;
+  gas: number;
+  steps: number;
+}
+
+export interface SourceGasAttribution {
+  lines: SourceLineGas[];
+  functions: SourceFunctionGas[];
+  totalGas: number;
+  mappedGas: number;
+  totalSteps: number;
+  mappedSteps: number;
+}
+
+/**
+ * Decoded source map of one contract's bytecode, ready to look up pcs.
+ */
+export interface ContractSourceMap {
+  resolved: ResolvedContract;
+  entries: SourceMapEntry[];
+  // Instruction index for each byte offset of the code; -1 inside push data.
+  instructionIndex: Int32Array;
+  sources: Map<number, SourceFile>;
+  functions: FunctionRange[];
+}
@@ -1,14 +1,30 @@
 import { blockchainService } from "@/lib/blockchainService";
+import {
+  classifyProbeError,
+  RPC_CAPABILITIES,
+  rpcCapabilityService,
+  type RpcCapability,
+} from "@/lib/capabilities";
 
 const featureCache = new Map<string, boolean>();
 const capabilityCache = new Map<string, any>();
 
+/**
+ * Method availability backed by the shared RPC capability matrix. Methods
+ * outside the matrix are probed individually and remembered.
+ */
 export class RPCAvailabilityManager {
-  private static checkedMethods = new Set<string>();
   private static availableMethods = new Set<string>();
   private static unavailableMethods = new Set<string>();
 
   static async checkMethodAvailability(method: string): Promise<boolean> {
+    if (method in RPC_CAPABILITIES) {
+      const { capabilities } = await rpcCapabilityService.getCapabilities();
+      const status = capabilities[method as RpcCapability].status;
+      this.remember(method, status === "supported");
+      return status === "supported";
+    }
+
     if (this.availableMethods.has(method)) {
       return true;
     }
@@ -17,12 +33,6 @@ export class RPCAvailabilityManager {
       return false;
     }
 
-    if (this.checkedMethods.has(method)) {
-      return false;
-    }
-
-    this.checkedMethods.add(method);
-
     try {
       const testParams = this.getTestParameters(method);
 
@@ -34,40 +44,29 @@ export class RPCAvailabilityManager {
 
       await Promise.race([testPromise, timeoutPromise]);
 
-      this.availableMethods.add(method);
+      this.remember(method, true);
       return true;
-    } catch (error: any) {
-      if (
-        error.message?.includes("method not found") ||
-        error.message?.includes("not supported") ||
-        error.message?.includes("unknown method")
-      ) {
-        this.unavailableMethods.add(method);
-        return false;
+    } catch (error) {
+      const { status } = classifyProbeError(error);
+      if (status !== "unknown") {
+        this.remember(method, status === "supported");
       }
+      return status === "supported";
+    }
+  }
 
-      return false;
-    } finally {
-      this.checkedMethods.delete(method);
+  private static remember(method: string, available: boolean): void {
+    if (available) {
+      this.availableMethods.add(method);
+      this.unavailableMethods.delete(method);
+    } else {
+      this.unavailableMethods.add(method);
+      this.availableMethods.delete(method);
     }
   }
 
   private static getTestParameters(method: string): any[] {
     switch (method) {
-      case "debug_storageRangeAt":
-        return [
-          "latest",
-          0,
-          "0x0000000000000000000000000000000000000000",
-          "0x0",
-          1,
-        ];
-      case "debug_traceTransaction":
-        return [
-          "0x0000000000000000000000000000000000000000000000000000000000000000",
-        ];
-      case "debug_traceCall":
-        return [{ to: "0x0000000000000000000000000000000000000000" }, "latest"];
       case "eth_getStorageAt":
         return ["0x0000000000000000000000000000000000000000", "0x0", "latest"];
       case "eth_call":
@@ -88,7 +87,7 @@ export class RPCAvailabilityManager {
   static clearCache(): void {
     this.availableMethods.clear();
     this.unavailableMethods.clear();
-    this.checkedMethods.clear();
+    rpcCapabilityService.clearCache();
   }
 }
 
@@ -107,21 +106,19 @@ export class CapabilityDetector {
       return capabilityCache.get(cacheKey);
     }
 
+    const { capabilities: matrix } =
+      await rpcCapabilityService.getCapabilities();
+
     const capabilities = {
       hasDebugStorageRangeAt:
-        await RPCAvailabilityManager.checkMethodAvailability(
-          "debug_storageRangeAt",
-        ),
+        matrix.debug_storageRangeAt.status === "supported",
       hasEthGetStorageAt:
         await RPCAvailabilityManager.checkMethodAvailability(
           "eth_getStorageAt",
         ),
       hasDebugTraceTransaction:
-        await RPCAvailabilityManager.checkMethodAvailability(
-          "debug_traceTransaction",
-        ),
-      hasDebugTraceCall:
-        await RPCAvailabilityManager.checkMethodAvailability("debug_traceCall"),
+        matrix.debug_traceTransaction.status === "supported",
+      hasDebugTraceCall: matrix.debug_traceCall.status === "supported",
       supportsBatchRequests: await this.testBatchRequestSupport(),
       maxBatchSize: await this.detectMaxBatchSize(),
     };
@@ -137,8 +134,8 @@ export class CapabilityDetector {
         { method: "eth_gasPrice", params: [] },
       ];
 
-      await blockchainService.makeBatchRPCCall(batchRequest);
-      return true;
+      const results = await blockchainService.makeBatchRPCCall(batchRequest);
+      return results.every((result) => !result.error);
     } catch (error) {
       return false;
     }
@@ -156,7 +153,8 @@ export class CapabilityDetector {
             params: [],
           }));
 
-        await blockchainService.makeBatchRPCCall(batchRequest);
+        const results = await blockchainService.makeBatchRPCCall(batchRequest);
+        if (results.some((result) => result.error)) break;
         maxSize = testSize;
       }
     } catch (error) {}
@@ -309,11 +307,10 @@ export class FallbackImplementations {
 
     for (const slot of knownSlots) {
       try {
-        const value = await blockchainService.makeRPCCall("eth_getStorageAt", [
-          contractAddress,
-          slot,
-          blockHash,
-        ]);
+        const value = await blockchainService.makeRPCCall<string>(
+          "eth_getStorageAt",
+          [contractAddress, slot, blockHash],
+        );
 
         if (
           value &&
@@ -1,4 +1,6 @@
 import { ethers } from "ethers";
+import { stateHistoryService } from "@/lib/capabilities";
+import { StateUnavailableError } from "@/lib/rpc";
 
 export interface HistoricalStorageData {
   blockNumber: number;
@@ -113,8 +115,16 @@ export class HistoricalStorageTracker {
     formatValues: boolean,
   ): Promise<HistoricalStorageData[]> {
     const dataPoints: HistoricalStorageData[] = [];
+    const sortedBlocks = blockNumbers.sort((a, b) => a - b);
 
-    for (const blockNumber of blockNumbers.sort((a, b) => a - b)) {
+    if (sortedBlocks.length > 0) {
+      await stateHistoryService.assertAvailable(
+        sortedBlocks[0],
+        "Historical storage tracking",
+      );
+    }
+
+    for (const blockNumber of sortedBlocks) {
       try {
         const cacheKey = `${contractAddress}-${slot}-${blockNumber}`;
 
@@ -162,6 +172,12 @@ export class HistoricalStorageTracker {
 
         await new Promise((resolve) => setTimeout(resolve, 50));
       } catch (error) {
+        const explained = await stateHistoryService.explainError(
+          error,
+          [blockNumber],
+          "Historical storage tracking",
+        );
+        if (explained instanceof StateUnavailableError) throw explained;
         console.error(
           `Error retrieving storage for block ${blockNumber}:`,
           error,
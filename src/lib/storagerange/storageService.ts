@@ -4,6 +4,8 @@ import type {
   StorageSlot,
 } from "./api/storageApi";
 import { createStorageApi, type StorageApi } from "./api/storageApi";
+import { stateHistoryService } from "@/lib/capabilities";
+import { StateUnavailableError } from "@/lib/rpc";
 import {
   type ProcessedStorageData,
   storageProcessor,
@@ -277,6 +279,17 @@ export class StorageService {
     const { slotCount = 20, startSlot = "0x0" } = options;
 
     try {
+      await Promise.all([
+        stateHistoryService.assertAvailable(
+          blockIdentifier1,
+          "Storage comparison",
+        ),
+        stateHistoryService.assertAvailable(
+          blockIdentifier2,
+          "Storage comparison",
+        ),
+      ]);
+
       const [blockHash1, blockHash2] = await Promise.all([
         typeof blockIdentifier1 === "string" &&
         blockIdentifier1.startsWith("0x") &&
@@ -323,6 +336,12 @@ export class StorageService {
       };
     } catch (error) {
       console.error("Error in compareStorageBetweenBlocks:", error);
+      const explained = await stateHistoryService.explainError(
+        error,
+        [blockIdentifier1, blockIdentifier2],
+        "Storage comparison",
+      );
+      if (explained instanceof StateUnavailableError) throw explained;
       throw new Error(
         `Storage comparison failed: ${error instanceof Error ? error.message : "Unknown error"}`,
       );
@@ -388,6 +407,13 @@ export class StorageService {
     const api = this.ensureApi();
 
     try {
+      if (blockNumbers.length > 0) {
+        await stateHistoryService.assertAvailable(
+          Math.min(...blockNumbers),
+          "Storage history tracking",
+        );
+      }
+
       const history = [];
 
       for (const blockNumber of blockNumbers) {
@@ -429,6 +455,12 @@ export class StorageService {
             });
           }
         } catch (error) {
+          const explained = await stateHistoryService.explainError(
+            error,
+            [blockNumber],
+            "Storage history tracking",
+          );
+          if (explained instanceof StateUnavailableError) throw explained;
           console.warn(`Error reading block ${blockNumber}:`, error);
         }
       }
@@ -439,6 +471,7 @@ export class StorageService {
       };
     } catch (error) {
       console.error("Error in trackStorageHistory:", error);
+      if (error instanceof StateUnavailableError) throw error;
       throw new Error(
         `Storage history tracking failed: ${error instanceof Error ? error.message : "Unknown error"}`,
       );
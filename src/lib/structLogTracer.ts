@@ -5,6 +5,7 @@ import {
   shortenAddress,
   TRACE_CONFIG,
 } from "./config";
+import type { StructLogStep as RawStructLogStep } from "./tracing";
 
 export interface StructLogStep {
   step: number;
@@ -57,61 +58,51 @@ export interface StructLogAnalysis {
   };
 }
 
-export class StructLogTracer {
-  private provider: ethers.Provider;
-
-  constructor(provider: ethers.Provider) {
-    this.provider = provider;
-  }
-
-  private getOpcodeCategory(opcode: string): string {
-    for (const [category, opcodes] of Object.entries(OPCODE_CATEGORIES)) {
-      if (opcodes.includes(opcode)) {
-        return category;
-      }
+const getOpcodeCategory = (opcode: string): string => {
+  for (const [category, opcodes] of Object.entries(OPCODE_CATEGORIES)) {
+    if (opcodes.includes(opcode)) {
+      return category;
     }
-    return "other";
   }
-
-  async makeRpcRequest(method: string, params: any[]): Promise<any> {
-    try {
-      const result = await (this.provider as any).send(method, params);
-      return result;
-    } catch (error) {
-      console.error(`RPC Error (${method}):`, error);
-      return null;
-    }
+  return "other";
+};
+
+/**
+ * Incremental form of `parseStructLog` for traces that arrive in chunks;
+ * feed every chunk in order to `add`, then call `finish`.
+ */
+export class StructLogAccumulator {
+  private logData: StructLogStep[] = [];
+  private totalGasCost = 0;
+  private lastGas = 0;
+  private started = false;
+  private nextIndex = 0;
+  private currentContracts: Record<number, string> = {};
+  private pyusdExecutionSteps = 0;
+  private maxDepth = -Infinity;
+  private maxStackDepth = -Infinity;
+  private maxMemoryBytes = -Infinity;
+
+  get parsedSteps(): number {
+    return this.nextIndex;
   }
 
-  async traceTransactionStructLog(txHash: string): Promise<any> {
-    return await this.makeRpcRequest("debug_traceTransaction", [
-      txHash,
-      TRACE_CONFIG.structLog,
-    ]);
-  }
-
-  parseStructLog(structLogs: any[], txHash: string): StructLogAnalysis {
-    if (!structLogs || !Array.isArray(structLogs)) {
-      throw new Error("No structLog data provided or invalid format");
-    }
-
-    const logData: StructLogStep[] = [];
-    let totalGasCost = 0;
-    let lastGas = 0;
-    const currentContracts: Record<number, string> = {};
-    let pyusdExecutionSteps = 0;
-
-    if (structLogs.length > 0 && structLogs[0].gas) {
-      lastGas = structLogs[0].gas;
+  add(structLogs: RawStructLogStep[]): void {
+    if (!this.started && structLogs.length > 0) {
+      this.started = true;
+      if (structLogs[0]?.gas) {
+        this.lastGas = structLogs[0].gas;
+      }
     }
 
-    for (let i = 0; i < structLogs.length; i++) {
-      const step = structLogs[i];
+    for (let j = 0; j < structLogs.length; j++) {
+      const i = this.nextIndex++;
+      const step = structLogs[j];
       if (!step || typeof step !== "object") continue;
 
-      const currentGas = step.gas || lastGas;
-      const gasCost = Math.max(0, lastGas - currentGas);
-      totalGasCost += gasCost;
+      const currentGas = step.gas || this.lastGas;
+      const gasCost = Math.max(0, this.lastGas - currentGas);
+      this.totalGasCost += gasCost;
 
       const depth = step.depth || 0;
       const op = step.op || "N/A";
@@ -139,7 +130,7 @@ export class StructLogTracer {
             }
 
             if (address) {
-              currentContracts[depth + 1] = address.toLowerCase();
+              this.currentContracts[depth + 1] = address.toLowerCase();
               const contractName = getContractName(address);
               isPyusdRelated = contractName !== "Unknown Contract";
             }
@@ -147,42 +138,52 @@ export class StructLogTracer {
         } catch (error) {}
       }
 
-      const currentContract = currentContracts[depth];
+      const currentContract = this.currentContracts[depth];
       const contractName = currentContract
         ? getContractName(currentContract)
         : "Unknown Contract";
       const isInKnownContract = contractName !== "Unknown Contract";
 
       if (isInKnownContract) {
-        pyusdExecutionSteps++;
+        this.pyusdExecutionSteps++;
       }
 
-      const opcodeCategory = this.getOpcodeCategory(op);
+      const stackDepth = (step.stack || []).length;
+      const memSizeBytes = (step.memory || []).length * 32;
+      this.maxDepth = Math.max(this.maxDepth, depth);
+      this.maxStackDepth = Math.max(this.maxStackDepth, stackDepth);
+      this.maxMemoryBytes = Math.max(this.maxMemoryBytes, memSizeBytes);
 
-      logData.push({
+      this.logData.push({
         step: i,
         pc: step.pc || 0,
         op,
-        opcode_category: opcodeCategory,
+        opcode_category: getOpcodeCategory(op),
         gas: currentGas,
         gasCost,
         depth,
-        stack_depth: (step.stack || []).length,
-        mem_size_bytes: (step.memory || []).length * 32,
+        stack_depth: stackDepth,
+        mem_size_bytes: memSizeBytes,
         current_contract: currentContract,
         is_pyusd_contract: isInKnownContract,
         is_pyusd_related: isPyusdRelated || isInKnownContract,
       });
 
-      lastGas = currentGas;
+      this.lastGas = currentGas;
     }
+  }
+
+  finish(): StructLogAnalysis {
+    const logData = this.logData;
+    const totalGasCost = this.totalGasCost;
+    const pyusdExecutionSteps = this.pyusdExecutionSteps;
 
     const summary = {
       total_steps: logData.length,
       total_gas_cost: totalGasCost,
-      max_depth: Math.max(...logData.map((step) => step.depth)),
-      max_stack_depth: Math.max(...logData.map((step) => step.stack_depth)),
-      max_memory_bytes: Math.max(...logData.map((step) => step.mem_size_bytes)),
+      max_depth: this.maxDepth,
+      max_stack_depth: this.maxStackDepth,
+      max_memory_bytes: this.maxMemoryBytes,
       pyusd_steps: pyusdExecutionSteps,
       pyusd_percentage:
         logData.length > 0 ? (pyusdExecutionSteps / logData.length) * 100 : 0,
@@ -273,6 +274,41 @@ export class StructLogTracer {
       pyusd_analysis: pyusdAnalysis,
     };
   }
+}
+
+export class StructLogTracer {
+  private provider: ethers.Provider;
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  async makeRpcRequest(method: string, params: any[]): Promise<any> {
+    try {
+      const result = await (this.provider as any).send(method, params);
+      return result;
+    } catch (error) {
+      console.error(`RPC Error (${method}):`, error);
+      return null;
+    }
+  }
+
+  async traceTransactionStructLog(txHash: string): Promise<any> {
+    return await this.makeRpcRequest("debug_traceTransaction", [
+      txHash,
+      TRACE_CONFIG.structLog,
+    ]);
+  }
+
+  parseStructLog(structLogs: any[], txHash: string): StructLogAnalysis {
+    if (!structLogs || !Array.isArray(structLogs)) {
+      throw new Error("No structLog data provided or invalid format");
+    }
+
+    const accumulator = new StructLogAccumulator();
+    accumulator.add(structLogs);
+    return accumulator.finish();
+  }
 
   generateOverview(analysis: StructLogAnalysis, txHash: string): string {
     const { summary } = analysis;
@@ -0,0 +1,15 @@
+export const RECONNECT_BACKOFF = {
+  baseMs: 1000,
+  maxMs: 30000,
+} as const;
+
+export const WS_REQUEST_TIMEOUT_MS = 15000;
+export const WS_CONNECT_TIMEOUT_MS = 10000;
+
+// Larger gaps are only back-filled for their most recent blocks.
+export const MAX_BACKFILL_BLOCKS = 32;
+
+// Nodes that only push pending hashes need one lookup per transaction.
+// Hashes beyond the queue limit are dropped rather than delaying the stream.
+export const MAX_PENDING_LOOKUPS = 6;
+export const MAX_PENDING_QUEUE = 200;
@@ -0,0 +1,8 @@
+export {
+  SubscriptionService,
+  subscriptionService,
+} from "./subscriptionService";
+export { WsRpcConnection } from "./wsConnection";
+
+export * from "./types";
+export * from "./constants";
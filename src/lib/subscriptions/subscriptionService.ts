@@ -0,0 +1,427 @@
+import { ethers } from "ethers";
+import {
+  getNetworkWsUrl,
+  networkRegistry,
+  type NetworkId,
+} from "@/lib/networks";
+import { RpcError } from "@/lib/rpc";
+import {
+  MAX_BACKFILL_BLOCKS,
+  MAX_PENDING_LOOKUPS,
+  MAX_PENDING_QUEUE,
+} from "./constants";
+import { WsRpcConnection, type WsConnectionStatus } from "./wsConnection";
+import {
+  SubscriptionError,
+  type BlockHeader,
+  type HeadListener,
+  type LogFilter,
+  type LogListener,
+  type PendingTransaction,
+  type PendingTransactionListener,
+  type RawBlockHeader,
+  type RawLog,
+  type SubscriptionState,
+  type SubscriptionStateListener,
+  type SubscriptionStatus,
+} from "./types";
+
+interface LogSubscription {
+  filter: LogFilter;
+  listener: LogListener;
+  release: () => void;
+}
+
+interface Channel {
+  connection: WsRpcConnection;
+  heads: Set<HeadListener>;
+  logs: Set<LogSubscription>;
+  pending: Set<PendingTransactionListener>;
+  lastBlock: number | null;
+  // Heads are handled one at a time so back-filled blocks stay in order.
+  headQueue: Promise<void>;
+  releasePending: (() => void) | null;
+  pendingHashes: string[];
+  pendingLookups: number;
+}
+
+const STATUS_BY_CONNECTION: Record<WsConnectionStatus, SubscriptionStatus> = {
+  connecting: "connecting",
+  open: "live",
+  reconnecting: "reconnecting",
+  closed: "idle",
+};
+
+function toBlockHeader(raw: RawBlockHeader): BlockHeader {
+  return {
+    number: Number(raw.number),
+    hash: raw.hash,
+    parentHash: raw.parentHash,
+    timestamp: Number(raw.timestamp),
+    gasUsed: BigInt(raw.gasUsed),
+    gasLimit: BigInt(raw.gasLimit),
+    baseFeePerGas: raw.baseFeePerGas ? BigInt(raw.baseFeePerGas) : null,
+  };
+}
+
+/**
+ * Live chain data over `eth_subscribe`, one WebSocket per network shared by
+ * every listener. Each channel follows new heads itself; when a head skips
+ * ahead of the last one seen, after a reconnect or a dropped notification,
+ * the missing blocks and their logs are fetched and delivered first, marked
+ * as back-filled. Pending transactions cannot be recovered after a gap.
+ */
+export class SubscriptionService {
+  private channels = new Map<NetworkId, Channel>();
+  private states = new Map<NetworkId, SubscriptionState>();
+  private stateListeners = new Map<NetworkId, Set<SubscriptionStateListener>>();
+
+  getWsUrl(network: NetworkId): string | null {
+    const config = networkRegistry.get(network);
+    return config ? getNetworkWsUrl(config) : null;
+  }
+
+  getState(network: NetworkId): SubscriptionState {
+    let state = this.states.get(network);
+    if (!state) {
+      state = {
+        network,
+        status: "idle",
+        url: null,
+        lastBlock: null,
+        reconnectAttempts: 0,
+        backfilledBlocks: 0,
+        skippedBlocks: [],
+        error: null,
+      };
+      this.states.set(network, state);
+    }
+    return state;
+  }
+
+  watchState(
+    network: NetworkId,
+    listener: SubscriptionStateListener,
+  ): () => void {
+    let listeners = this.stateListeners.get(network);
+    if (!listeners) {
+      listeners = new Set();
+      this.stateListeners.set(network, listeners);
+    }
+    listeners.add(listener);
+    return () => listeners!.delete(listener);
+  }
+
+  subscribeNewHeads(network: NetworkId, listener: HeadListener): () => void {
+    const channel = this.acquire(network);
+    if (!channel) return () => undefined;
+
+    channel.heads.add(listener);
+    return () => {
+      channel.heads.delete(listener);
+      this.release(network, channel);
+    };
+  }
+
+  subscribeLogs(
+    network: NetworkId,
+    filter: LogFilter,
+    listener: LogListener,
+  ): () => void {
+    const channel = this.acquire(network);
+    if (!channel) return () => undefined;
+
+    const subscription: LogSubscription = {
+      filter,
+      listener,
+      release: channel.connection.subscribe(
+        ["logs", filter],
+        (log) => listener({ log: log as RawLog, backfilled: false }),
+        (error) => this.reportError(network, "logs", error),
+      ),
+    };
+    channel.logs.add(subscription);
+
+    return () => {
+      subscription.release();
+      channel.logs.delete(subscription);
+      this.release(network, channel);
+    };
+  }
+
+  subscribePendingTransactions(
+    network: NetworkId,
+    listener: PendingTransactionListener,
+  ): () => void {
+    const channel = this.acquire(network);
+    if (!channel) return () => undefined;
+
+    channel.pending.add(listener);
+    if (!channel.releasePending) this.startPending(network, channel, true);
+
+    return () => {
+      channel.pending.delete(listener);
+      if (channel.pending.size === 0) {
+        channel.releasePending?.();
+        channel.releasePending = null;
+        channel.pendingHashes = [];
+      }
+      this.release(network, channel);
+    };
+  }
+
+  /**
+   * Sends a request over the network's open WebSocket, so the answer comes
+   * from the same node as the pushed data.
+   */
+  async request<T = unknown>(
+    network: NetworkId,
+    method: string,
+    params: unknown[] = [],
+  ): Promise<T> {
+    const channel = this.channels.get(network);
+    if (!channel) {
+      throw new SubscriptionError(`No live connection to ${network}`, "closed");
+    }
+    return channel.connection.request<T>(method, params);
+  }
+
+  private acquire(network: NetworkId): Channel | null {
+    const existing = this.channels.get(network);
+    if (existing) return existing;
+
+    const url = this.getWsUrl(network);
+    if (!url) {
+      this.setState(network, {
+        status: "unavailable",
+        url: null,
+        error: `No WebSocket endpoint is configured for ${network}`,
+      });
+      return null;
+    }
+
+    const connection = new WsRpcConnection(
+      url,
+      (status, reconnectAttempts, error) =>
+        this.setState(network, {
+          status: STATUS_BY_CONNECTION[status],
+          reconnectAttempts,
+          error,
+        }),
+    );
+    const channel: Channel = {
+      connection,
+      heads: new Set(),
+      logs: new Set(),
+      pending: new Set(),
+      lastBlock: null,
+      headQueue: Promise.resolve(),
+      releasePending: null,
+      pendingHashes: [],
+      pendingLookups: 0,
+    };
+    this.channels.set(network, channel);
+    this.setState(network, {
+      url,
+      lastBlock: null,
+      backfilledBlocks: 0,
+      skippedBlocks: [],
+    });
+
+    connection.subscribe(
+      ["newHeads"],
+      (header) => {
+        channel.headQueue = channel.headQueue.then(() =>
+          this.handleHead(network, channel, header as RawBlockHeader),
+        );
+      },
+      (error) => this.reportError(network, "newHeads", error),
+    );
+    connection.open();
+    return channel;
+  }
+
+  private release(network: NetworkId, channel: Channel): void {
+    if (
+      channel.heads.size > 0 ||
+      channel.logs.size > 0 ||
+      channel.pending.size > 0 ||
+      this.channels.get(network) !== channel
+    ) {
+      return;
+    }
+    this.channels.delete(network);
+    channel.connection.close();
+  }
+
+  private async handleHead(
+    network: NetworkId,
+    channel: Channel,
+    raw: RawBlockHeader,
+  ): Promise<void> {
+    const header = toBlockHeader(raw);
+    const previous = channel.lastBlock;
+
+    if (previous !== null && header.number > previous + 1) {
+      await this.backfill(network, channel, previous + 1, header.number - 1);
+    }
+    channel.lastBlock = header.number;
+    this.setState(network, { lastBlock: header.number });
+    channel.heads.forEach((listener) =>
+      listener({ header, backfilled: false }),
+    );
+  }
+
+  private async backfill(
+    network: NetworkId,
+    channel: Channel,
+    from: number,
+    to: number,
+  ): Promise<void> {
+    const start = Math.max(from, to - MAX_BACKFILL_BLOCKS + 1);
+    if (start > from) {
+      this.setState(network, {
+        skippedBlocks: [
+          ...this.getState(network).skippedBlocks,
+          { from, to: start - 1 },
+        ],
+      });
+    }
+
+    try {
+      const numbers = Array.from(
+        { length: to - start + 1 },
+        (_, i) => start + i,
+      );
+      const [headers, logs] = await Promise.all([
+        Promise.all(
+          numbers.map((number) =>
+            channel.connection.request<RawBlockHeader | null>(
+              "eth_getBlockByNumber",
+              [ethers.toQuantity(number), false],
+            ),
+          ),
+        ),
+        Promise.all(
+          Array.from(channel.logs).map(async (subscription) => ({
+            subscription,
+            logs: await channel.connection.request<RawLog[]>("eth_getLogs", [
+              {
+                ...subscription.filter,
+                fromBlock: ethers.toQuantity(start),
+                toBlock: ethers.toQuantity(to),
+              },
+            ]),
+          })),
+        ),
+      ]);
+
+      headers.forEach((raw) => {
+        if (!raw) return;
+        const header = toBlockHeader(raw);
+        channel.heads.forEach((listener) =>
+          listener({ header, backfilled: true }),
+        );
+      });
+      logs.forEach(({ subscription, logs }) => {
+        if (!channel.logs.has(subscription)) return;
+        (logs || []).forEach((log) =>
+          subscription.listener({ log, backfilled: true }),
+        );
+      });
+
+      this.setState(network, {
+        backfilledBlocks:
+          this.getState(network).backfilledBlocks + numbers.length,
+      });
+    } catch (error) {
+      this.reportError(network, "back-fill", error);
+    }
+  }
+
+  // Geth and Nethermind send whole transactions when asked; other nodes
+  // reject the extra parameter and only push hashes, which are looked up.
+  private startPending(
+    network: NetworkId,
+    channel: Channel,
+    fullTransactions: boolean,
+  ): void {
+    channel.releasePending = channel.connection.subscribe(
+      fullTransactions
+        ? ["newPendingTransactions", true]
+        : ["newPendingTransactions"],
+      (result) => {
+        if (typeof result === "string") {
+          this.queuePendingLookup(network, channel, result);
+        } else {
+          this.emitPending(channel, result as PendingTransaction);
+        }
+      },
+      (error) => {
+        if (
+          fullTransactions &&
+          channel.pending.size > 0 &&
+          error instanceof RpcError
+        ) {
+          channel.releasePending?.();
+          this.startPending(network, channel, false);
+          return;
+        }
+        this.reportError(network, "newPendingTransactions", error);
+      },
+    );
+  }
+
+  private queuePendingLookup(
+    network: NetworkId,
+    channel: Channel,
+    hash: string,
+  ): void {
+    if (channel.pendingHashes.length >= MAX_PENDING_QUEUE) return;
+    channel.pendingHashes.push(hash);
+    this.drainPendingLookups(network, channel);
+  }
+
+  private drainPendingLookups(network: NetworkId, channel: Channel): void {
+    while (
+      channel.pendingLookups < MAX_PENDING_LOOKUPS &&
+      channel.pendingHashes.length > 0
+    ) {
+      const hash = channel.pendingHashes.shift()!;
+      channel.pendingLookups++;
+      channel.connection
+        .request<PendingTransaction | null>("eth_getTransactionByHash", [hash])
+        .then((tx) => {
+          if (tx) this.emitPending(channel, tx);
+        })
+        .catch(() => undefined)
+        .finally(() => {
+          channel.pendingLookups--;
+          if (this.channels.get(network) === channel) {
+            this.drainPendingLookups(network, channel);
+          }
+        });
+    }
+  }
+
+  private emitPending(channel: Channel, tx: PendingTransaction): void {
+    channel.pending.forEach((listener) => listener(tx));
+  }
+
+  private reportError(network: NetworkId, what: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`Live ${what} on ${network} failed:`, message);
+    this.setState(network, { error: `${what}: ${message}` });
+  }
+
+  private setState(
+    network: NetworkId,
+    update: Partial<Omit<SubscriptionState, "network">>,
+  ): void {
+    const state = { ...this.getState(network), ...update };
+    this.states.set(network, state);
+    this.stateListeners.get(network)?.forEach((listener) => listener(state));
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
@@ -0,0 +1,112 @@
+import type { NetworkId } from "@/lib/networks";
+
+export type SubscriptionKind = "newHeads" | "logs" | "newPendingTransactions";
+
+export type SubscriptionStatus =
+  | "idle"
+  | "connecting"
+  | "live"
+  | "reconnecting"
+  | "unavailable";
+
+export interface SubscriptionState {
+  network: NetworkId;
+  status: SubscriptionStatus;
+  url: string | null;
+  lastBlock: number | null;
+  reconnectAttempts: number;
+  // Blocks fetched after a reconnect or a skipped head notification.
+  backfilledBlocks: number;
+  // Missed blocks older than the back-fill limit, which were not fetched.
+  skippedBlocks: BlockRange[];
+  error: string | null;
+}
+
+export interface BlockRange {
+  from: number;
+  to: number;
+}
+
+export type SubscriptionStateListener = (state: SubscriptionState) => void;
+
+export interface RawBlockHeader {
+  number: string;
+  hash: string;
+  parentHash: string;
+  timestamp: string;
+  gasUsed: string;
+  gasLimit: string;
+  baseFeePerGas?: string | null;
+}
+
+export interface BlockHeader {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  gasUsed: bigint;
+  gasLimit: bigint;
+  baseFeePerGas: bigint | null;
+}
+
+export interface HeadEvent {
+  header: BlockHeader;
+  // True for heads fetched to fill a gap rather than pushed by the node.
+  backfilled: boolean;
+}
+
+export interface LogFilter {
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+}
+
+export interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: string;
+  logIndex: string;
+  removed?: boolean;
+}
+
+export interface LogEvent {
+  log: RawLog;
+  backfilled: boolean;
+}
+
+export interface PendingTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  value: string;
+  gas: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  input: string;
+  nonce: string;
+  type?: string;
+}
+
+export type HeadListener = (event: HeadEvent) => void;
+export type LogListener = (event: LogEvent) => void;
+export type PendingTransactionListener = (tx: PendingTransaction) => void;
+
+export type SubscriptionErrorCode =
+  | "no_endpoint"
+  | "closed"
+  | "timeout"
+  | "rpc_error";
+
+export class SubscriptionError extends Error {
+  code: SubscriptionErrorCode;
+
+  constructor(message: string, code: SubscriptionErrorCode) {
+    super(message);
+    this.name = "SubscriptionError";
+    this.code = code;
+  }
+}
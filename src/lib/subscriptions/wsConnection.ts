@@ -0,0 +1,323 @@
+import { RpcError, type JsonRpcResponse } from "@/lib/rpc";
+import {
+  RECONNECT_BACKOFF,
+  WS_CONNECT_TIMEOUT_MS,
+  WS_REQUEST_TIMEOUT_MS,
+} from "./constants";
+import { SubscriptionError } from "./types";
+
+export type WsConnectionStatus =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "closed";
+
+export type WsStatusListener = (
+  status: WsConnectionStatus,
+  reconnectAttempts: number,
+  error: string | null,
+) => void;
+
+interface PendingRequest {
+  method: string;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface ActiveSubscription {
+  params: unknown[];
+  onMessage: (result: unknown) => void;
+  onError?: (error: Error) => void;
+  serverId: string | null;
+}
+
+interface SubscriptionNotification {
+  method: "eth_subscription";
+  params: { subscription: string; result: unknown };
+}
+
+/**
+ * JSON-RPC over one WebSocket that reconnects with exponential backoff.
+ * The node forgets subscriptions when the socket closes, so they are kept
+ * here and sent again after every reconnect.
+ */
+export class WsRpcConnection {
+  readonly url: string;
+  private onStatus: WsStatusListener;
+  private socket: WebSocket | null = null;
+  private status: WsConnectionStatus = "closed";
+  private nextId = 1;
+  private nextKey = 1;
+  private requests = new Map<number, PendingRequest>();
+  private subscriptions = new Map<number, ActiveSubscription>();
+  private serverIds = new Map<string, number>();
+  private waiters = new Set<{
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closedByUser = false;
+
+  constructor(url: string, onStatus: WsStatusListener) {
+    this.url = url;
+    this.onStatus = onStatus;
+  }
+
+  open(): void {
+    if (this.socket || this.reconnectTimer) return;
+    this.closedByUser = false;
+    this.connect();
+  }
+
+  close(): void {
+    this.closedByUser = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const error = new SubscriptionError("Connection closed", "closed");
+    this.failRequests(error);
+    this.waiters.forEach((waiter) => waiter.reject(error));
+    this.waiters.clear();
+    this.subscriptions.clear();
+    this.serverIds.clear();
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setStatus("closed", null);
+  }
+
+  async request<T = unknown>(
+    method: string,
+    params: unknown[] = [],
+  ): Promise<T> {
+    await this.whenOpen();
+    return this.send<T>(method, params);
+  }
+
+  /**
+   * Registers an `eth_subscribe` call and returns a function that removes
+   * it. Notifications keep arriving across reconnects.
+   */
+  subscribe(
+    params: unknown[],
+    onMessage: (result: unknown) => void,
+    onError?: (error: Error) => void,
+  ): () => void {
+    const key = this.nextKey++;
+    const subscription: ActiveSubscription = {
+      params,
+      onMessage,
+      onError,
+      serverId: null,
+    };
+    this.subscriptions.set(key, subscription);
+    if (this.status === "open") void this.activate(key, subscription);
+
+    return () => {
+      this.subscriptions.delete(key);
+      const { serverId } = subscription;
+      if (!serverId) return;
+      this.serverIds.delete(serverId);
+      if (this.status === "open") {
+        this.send("eth_unsubscribe", [serverId]).catch(() => undefined);
+      }
+    };
+  }
+
+  private connect(): void {
+    this.setStatus(
+      this.reconnectAttempts > 0 ? "reconnecting" : "connecting",
+      null,
+    );
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      this.scheduleReconnect(
+        error instanceof Error ? error.message : String(error),
+      );
+      return;
+    }
+    this.socket = socket;
+
+    const connectTimer = setTimeout(
+      () => socket.close(),
+      WS_CONNECT_TIMEOUT_MS,
+    );
+
+    socket.onopen = () => {
+      clearTimeout(connectTimer);
+      this.reconnectAttempts = 0;
+      this.setStatus("open", null);
+      this.waiters.forEach((waiter) => waiter.resolve());
+      this.waiters.clear();
+
+      this.serverIds.clear();
+      this.subscriptions.forEach((subscription, key) => {
+        subscription.serverId = null;
+        void this.activate(key, subscription);
+      });
+    };
+
+    socket.onmessage = (event) => this.handleMessage(event.data);
+
+    socket.onclose = (event) => {
+      clearTimeout(connectTimer);
+      if (this.socket !== socket) return;
+      this.socket = null;
+
+      const reason = event.reason || `WebSocket closed with code ${event.code}`;
+      this.failRequests(new SubscriptionError(reason, "closed"));
+      if (!this.closedByUser) this.scheduleReconnect(reason);
+    };
+  }
+
+  private scheduleReconnect(error: string): void {
+    this.reconnectAttempts++;
+    const delay = Math.min(
+      RECONNECT_BACKOFF.maxMs,
+      RECONNECT_BACKOFF.baseMs * 2 ** (this.reconnectAttempts - 1),
+    );
+    this.setStatus("reconnecting", error);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private async activate(
+    key: number,
+    subscription: ActiveSubscription,
+  ): Promise<void> {
+    try {
+      const serverId = await this.send<string>(
+        "eth_subscribe",
+        subscription.params,
+      );
+      if (this.subscriptions.get(key) !== subscription) {
+        this.send("eth_unsubscribe", [serverId]).catch(() => undefined);
+        return;
+      }
+      subscription.serverId = serverId;
+      this.serverIds.set(serverId, key);
+    } catch (error) {
+      if (error instanceof SubscriptionError && error.code === "closed") {
+        return;
+      }
+      subscription.onError?.(
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+
+  private whenOpen(): Promise<void> {
+    if (this.status === "open") return Promise.resolve();
+    if (this.closedByUser || this.status === "closed") {
+      return Promise.reject(
+        new SubscriptionError("Connection closed", "closed"),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error: Error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(waiter);
+        reject(
+          new SubscriptionError(`Could not connect to ${this.url}`, "timeout"),
+        );
+      }, WS_REQUEST_TIMEOUT_MS);
+      this.waiters.add(waiter);
+    });
+  }
+
+  private send<T>(method: string, params: unknown[]): Promise<T> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(
+        new SubscriptionError("Connection closed", "closed"),
+      );
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.requests.delete(id);
+        reject(new SubscriptionError(`${method} timed out`, "timeout"));
+      }, WS_REQUEST_TIMEOUT_MS);
+
+      this.requests.set(id, {
+        method,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        timer,
+      });
+      socket.send(JSON.stringify({ jsonrpc: "2.0", id, method, params }));
+    });
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: JsonRpcResponse | SubscriptionNotification;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      console.warn("Ignoring malformed WebSocket message from", this.url);
+      return;
+    }
+
+    if ("method" in message && message.method === "eth_subscription") {
+      const key = this.serverIds.get(message.params.subscription);
+      const subscription = key !== undefined && this.subscriptions.get(key);
+      if (subscription) subscription.onMessage(message.params.result);
+      return;
+    }
+
+    const response = message as JsonRpcResponse;
+    const request =
+      typeof response.id === "number" && this.requests.get(response.id);
+    if (!request) return;
+
+    this.requests.delete(response.id as number);
+    clearTimeout(request.timer);
+    if (response.error) {
+      request.reject(
+        new RpcError(
+          response.error.code,
+          response.error.message,
+          request.method,
+          response.error.data,
+        ),
+      );
+    } else {
+      request.resolve(response.result);
+    }
+  }
+
+  private failRequests(error: Error): void {
+    this.requests.forEach((request) => {
+      clearTimeout(request.timer);
+      request.reject(error);
+    });
+    this.requests.clear();
+  }
+
+  private setStatus(status: WsConnectionStatus, error: string | null): void {
+    this.status = status;
+    this.onStatus(status, this.reconnectAttempts, error);
+  }
+}
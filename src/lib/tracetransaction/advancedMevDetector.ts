@@ -1,13 +1,52 @@
-import type { ProcessedTraceAction, TraceAnalysisResults } from "./types";
+import { shortenAddress } from "@/lib/config";
+import type { BlockCallTrace, CallFrame } from "@/lib/tracing";
+import { WRAPPED_ETHER_ADDRESSES } from "./constants";
+import { SwapDecoder } from "./swapDecoder";
+import type {
+  DexSwap,
+  PricedDexSwap,
+  ProcessedTraceAction,
+  LogTokenTransfer,
+  TraceAnalysisResults,
+  TransactionLogEntry,
+} from "./types";
+
+// Contracts called by more senders than this are treated as public (routers,
+// tokens) and do not link the transactions that call them.
+const MAX_PRIVATE_CONTRACT_SENDERS = 2;
+
+// Percentages above which a decoded swap moved the pool price, or filled
+// worse than its spot price, enough to be worth flagging.
+const PRICE_IMPACT_THRESHOLD = 1;
+const SLIPPAGE_THRESHOLD = 2;
+
+const parseWei = (value: string | undefined) => {
+  try {
+    return value ? BigInt(value) : 0n;
+  } catch {
+    return 0n;
+  }
+};
+
+// Profits are only priced when they are taken in WETH.
+const wethValue = (token: string | null, amount: bigint) =>
+  token && WRAPPED_ETHER_ADDRESSES.includes(token) && amount > 0n
+    ? Number(amount) / 1e18
+    : undefined;
 
 export class AdvancedMevDetector {
+  /**
+   * Priced swaps from `SwapDecoder` replace the value heuristics for price
+   * impact and slippage when they are given.
+   */
   static analyzeTransaction(
     analysis: TraceAnalysisResults,
+    swaps?: PricedDexSwap[],
   ): AdvancedMevAnalysis {
     const indicators: AdvancedMevIndicator[] = [];
     const patterns: MevPattern[] = [];
 
-    const sandwichAnalysis = this.detectSandwichAttack(analysis);
+    const sandwichAnalysis = this.detectSandwichAttack(analysis, swaps);
     if (sandwichAnalysis.detected) {
       indicators.push(...sandwichAnalysis.indicators);
       patterns.push(sandwichAnalysis.pattern);
@@ -45,26 +84,42 @@ export class AdvancedMevDetector {
     };
   }
 
-  static analyzeBlock(transactions: TraceAnalysisResults[]): BlockMevAnalysis {
+  static analyzeBlock(transactions: BlockMevTransaction[]): BlockMevAnalysis {
     const blockPatterns: BlockMevPattern[] = [];
     const correlations: TransactionCorrelation[] = [];
 
-    const sandwichPatterns = this.detectBlockSandwichAttacks(transactions);
+    const flows = transactions.map((tx) => this.readFlows(tx));
+    const contractSenders = this.collectContractSenders(transactions);
+
+    const sandwichPatterns = this.detectBlockSandwichAttacks(
+      flows,
+      contractSenders,
+    );
     blockPatterns.push(...sandwichPatterns);
 
-    const arbitrageChains = this.detectArbitrageChains(transactions);
+    const arbitrageChains = this.detectArbitrageChains(flows);
     blockPatterns.push(...arbitrageChains);
 
-    const botActivity = this.detectMevBotActivity(transactions);
+    const botActivity = this.detectMevBotActivity(
+      flows,
+      contractSenders,
+      blockPatterns,
+    );
     blockPatterns.push(...botActivity);
 
-    correlations.push(...this.analyzeTransactionCorrelations(transactions));
+    correlations.push(
+      ...this.analyzeTransactionCorrelations(
+        transactions,
+        contractSenders,
+        blockPatterns,
+      ),
+    );
 
     return {
       totalTransactions: transactions.length,
-      mevTransactions: transactions.filter(
-        (tx) => this.analyzeTransaction(tx).mevDetected,
-      ).length,
+      mevTransactions: new Set(
+        blockPatterns.flatMap((pattern) => pattern.transactions),
+      ).size,
       blockPatterns,
       correlations,
       mevExtraction: this.calculateMevExtraction(blockPatterns),
@@ -72,8 +127,56 @@ export class AdvancedMevDetector {
     };
   }
 
+  /**
+   * Block transactions for `analyzeBlock` from `debug_traceBlock` call
+   * traces (or their `trace_block` equivalent) and the block's receipts.
+   */
+  static collectBlockTransactions(
+    traces: BlockCallTrace[],
+    receipts: (BlockMevReceipt | null)[],
+  ): BlockMevTransaction[] {
+    const receiptsByHash = new Map(
+      receipts
+        .filter((receipt): receipt is BlockMevReceipt => !!receipt)
+        .map((receipt) => [receipt.transactionHash.toLowerCase(), receipt]),
+    );
+
+    return traces.flatMap((item, index) => {
+      const root = item.result;
+      if (!root || !item.txHash) return [];
+
+      const calls: BlockMevCall[] = [];
+      const visit = (frame: CallFrame) => {
+        calls.push({
+          from: frame.from.toLowerCase(),
+          to: frame.to?.toLowerCase() ?? null,
+          value: parseWei(frame.value),
+          input: frame.input ?? "0x",
+        });
+        frame.calls?.forEach(visit);
+      };
+      visit(root);
+
+      const receipt = receiptsByHash.get(item.txHash.toLowerCase());
+      return [
+        {
+          hash: item.txHash,
+          index,
+          from: root.from.toLowerCase(),
+          to: root.to?.toLowerCase() ?? null,
+          calls,
+          logs: receipt?.logs ?? [],
+          failed: receipt
+            ? Number(receipt.status) === 0
+            : !!(item.error || root.error),
+        },
+      ];
+    });
+  }
+
   private static detectSandwichAttack(
     analysis: TraceAnalysisResults,
+    swaps?: PricedDexSwap[],
   ): MevDetectionResult {
     const indicators: AdvancedMevIndicator[] = [];
     const traces = analysis.processedActions;
@@ -82,16 +185,20 @@ export class AdvancedMevDetector {
       this.isDexInteraction(trace),
     );
 
-    if (dexInteractions.length === 0) {
+    if (dexInteractions.length === 0 && !swaps?.length) {
       return { detected: false, indicators: [], pattern: null };
     }
 
-    const priceImpactIndicator = this.analyzePriceImpact(dexInteractions);
+    const priceImpactIndicator = swaps
+      ? this.analyzeSwapPriceImpact(swaps)
+      : this.analyzePriceImpact(dexInteractions);
     if (priceImpactIndicator) {
       indicators.push(priceImpactIndicator);
     }
 
-    const slippageIndicator = this.analyzeSlippage(dexInteractions);
+    const slippageIndicator = swaps
+      ? this.analyzeSwapSlippage(swaps)
+      : this.analyzeSlippage(dexInteractions);
     if (slippageIndicator) {
       indicators.push(slippageIndicator);
     }
@@ -324,6 +431,50 @@ export class AdvancedMevDetector {
     return null;
   }
 
+  private static analyzeSwapPriceImpact(
+    swaps: PricedDexSwap[],
+  ): AdvancedMevIndicator | null {
+    const moved = swaps.filter(
+      (swap) =>
+        swap.priceImpact !== null && swap.priceImpact > PRICE_IMPACT_THRESHOLD,
+    );
+    if (moved.length === 0) return null;
+
+    const maxImpact = Math.max(...moved.map((swap) => swap.priceImpact!));
+    return {
+      type: "high_price_impact",
+      confidence: 0.9,
+      description: `${moved.length} swap${moved.length === 1 ? "" : "s"} moved the pool price by up to ${maxImpact.toFixed(2)}%`,
+      severity: maxImpact > 5 ? "high" : "medium",
+      evidence: {
+        swapCount: moved.length,
+        maxPriceImpact: maxImpact,
+        pools: moved.map(SwapDecoder.poolKey),
+      },
+    };
+  }
+
+  private static analyzeSwapSlippage(
+    swaps: PricedDexSwap[],
+  ): AdvancedMevIndicator | null {
+    const slipped = swaps.filter(
+      (swap) => swap.slippage !== null && swap.slippage > SLIPPAGE_THRESHOLD,
+    );
+    if (slipped.length === 0) return null;
+
+    const maxSlippage = Math.max(...slipped.map((swap) => swap.slippage!));
+    return {
+      type: "unusual_slippage",
+      confidence: 0.85,
+      description: `${slipped.length} swap${slipped.length === 1 ? "" : "s"} filled up to ${maxSlippage.toFixed(2)}% below the pool's spot price`,
+      severity: maxSlippage > 5 ? "high" : "medium",
+      evidence: {
+        swapCount: slipped.length,
+        maxSlippage,
+      },
+    };
+  }
+
   private static analyzeMevBotSignature(
     traces: ProcessedTraceAction[],
   ): AdvancedMevIndicator | null {
@@ -493,28 +644,418 @@ export class AdvancedMevDetector {
     return null;
   }
 
+  private static readFlows(tx: BlockMevTransaction): BlockTransactionFlows {
+    return {
+      tx,
+      transfers: SwapDecoder.decodeTransfers(tx.logs),
+      swaps: SwapDecoder.decodeSwaps(tx.logs),
+    };
+  }
+
+  private static collectContractSenders(
+    transactions: BlockMevTransaction[],
+  ): Map<string, Set<string>> {
+    const senders = new Map<string, Set<string>>();
+    transactions.forEach((tx) => {
+      if (!tx.to) return;
+      if (!senders.has(tx.to)) senders.set(tx.to, new Set());
+      senders.get(tx.to)!.add(tx.from);
+    });
+    return senders;
+  }
+
+  // A transaction acts for its sender and, when few senders call it, for
+  // the contract it calls; MEV bots usually trade through their own contract.
+  private static actorKeys(
+    tx: BlockMevTransaction,
+    contractSenders: Map<string, Set<string>>,
+  ): string[] {
+    const keys = [`sender:${tx.from}`];
+    const senders = tx.to ? contractSenders.get(tx.to) : undefined;
+    if (senders && senders.size <= MAX_PRIVATE_CONTRACT_SENDERS) {
+      keys.push(`contract:${tx.to}`);
+    }
+    return keys;
+  }
+
+  private static sameActor(
+    a: BlockMevTransaction,
+    b: BlockMevTransaction,
+    contractSenders: Map<string, Set<string>>,
+  ): boolean {
+    const keys = this.actorKeys(b, contractSenders);
+    return this.actorKeys(a, contractSenders).some((key) => keys.includes(key));
+  }
+
+  // Tokens match when both sides are known; unknown tokens fall back to the
+  // swap direction on the pool.
+  private static sameToken(a: string | null, b: string | null): boolean {
+    return !a || !b || a === b;
+  }
+
+  // Uniswap swaps say which way they go; other pools only by their tokens.
+  private static direction(swap: DexSwap): string | null {
+    if (swap.zeroForOne !== null) return String(swap.zeroForOne);
+    return swap.tokenIn && swap.tokenOut
+      ? String(swap.tokenIn < swap.tokenOut)
+      : null;
+  }
+
+  /**
+   * A front-run swap, one or more victim swaps in the same direction on the
+   * same pool, then a back-run swap the other way by the front-runner.
+   */
   private static detectBlockSandwichAttacks(
-    transactions: TraceAnalysisResults[],
+    flows: BlockTransactionFlows[],
+    contractSenders: Map<string, Set<string>>,
   ): BlockMevPattern[] {
-    return [];
+    const patterns: BlockMevPattern[] = [];
+    const swapsByPool = new Map<
+      string,
+      { flow: BlockTransactionFlows; swap: DexSwap }[]
+    >();
+    flows.forEach((flow) =>
+      flow.swaps.forEach((swap) => {
+        if (this.direction(swap) === null) return;
+        const pool = SwapDecoder.poolKey(swap);
+        if (!swapsByPool.has(pool)) swapsByPool.set(pool, []);
+        swapsByPool.get(pool)!.push({ flow, swap });
+      }),
+    );
+
+    swapsByPool.forEach((entries, pool) => {
+      const used = new Set<string>();
+
+      entries.forEach((front, i) => {
+        if (used.has(front.flow.tx.hash)) return;
+
+        for (let k = i + 1; k < entries.length; k++) {
+          const back = entries[k];
+          if (
+            back.flow.tx.index <= front.flow.tx.index ||
+            used.has(back.flow.tx.hash) ||
+            this.direction(back.swap) === this.direction(front.swap) ||
+            !this.sameActor(front.flow.tx, back.flow.tx, contractSenders) ||
+            !this.sameToken(back.swap.tokenIn, front.swap.tokenOut) ||
+            !this.sameToken(back.swap.tokenOut, front.swap.tokenIn)
+          ) {
+            continue;
+          }
+
+          const victims = entries
+            .slice(i + 1, k)
+            .filter(
+              (victim) =>
+                victim.flow.tx.index > front.flow.tx.index &&
+                victim.flow.tx.index < back.flow.tx.index &&
+                this.direction(victim.swap) === this.direction(front.swap) &&
+                this.sameToken(victim.swap.tokenIn, front.swap.tokenIn) &&
+                this.sameToken(victim.swap.tokenOut, front.swap.tokenOut) &&
+                !this.sameActor(front.flow.tx, victim.flow.tx, contractSenders),
+            );
+          if (victims.length === 0) continue;
+
+          const victimHashes = Array.from(
+            new Set(victims.map((victim) => victim.flow.tx.hash)),
+          );
+          const token = front.swap.tokenIn ?? back.swap.tokenOut;
+          const profit = back.swap.amountOut - front.swap.amountIn;
+          const tokensKnown = !!(
+            front.swap.tokenIn &&
+            front.swap.tokenOut &&
+            back.swap.tokenIn &&
+            back.swap.tokenOut
+          );
+
+          used.add(front.flow.tx.hash);
+          used.add(back.flow.tx.hash);
+          patterns.push({
+            type: "sandwich",
+            transactions: [
+              front.flow.tx.hash,
+              ...victimHashes,
+              back.flow.tx.hash,
+            ],
+            extractedValue: wethValue(token, profit),
+            description: `${shortenAddress(front.flow.tx.from)} swapped on ${shortenAddress(pool)} before and after ${victimHashes.length} victim transaction${victimHashes.length === 1 ? "" : "s"}`,
+            confidence: tokensKnown ? 0.9 : 0.7,
+            actor: front.flow.tx.to ?? front.flow.tx.from,
+            pools: [pool],
+            tokens: [front.swap.tokenIn, front.swap.tokenOut].filter(
+              (token): token is string => !!token,
+            ),
+            profit: token ? { token, amount: profit.toString() } : undefined,
+          });
+          return;
+        }
+      });
+    });
+
+    return patterns;
   }
 
+  /**
+   * Transactions whose swaps form a cycle that ends in the token it started
+   * with, or whose sender sends a token out and gets more of it back after
+   * it passes through other tokens.
+   */
   private static detectArbitrageChains(
-    transactions: TraceAnalysisResults[],
+    flows: BlockTransactionFlows[],
   ): BlockMevPattern[] {
-    return [];
+    const patterns: BlockMevPattern[] = [];
+
+    flows.forEach((flow) => {
+      const cycle = this.findSwapCycle(flow.swaps);
+      if (cycle) {
+        const first = cycle[0];
+        const last = cycle[cycle.length - 1];
+        const profit = last.amountOut - first.amountIn;
+        if (profit <= 0n) return;
+
+        const tokens = cycle.map((swap) => swap.tokenIn!);
+        patterns.push({
+          type: "arbitrage",
+          transactions: [flow.tx.hash],
+          extractedValue: wethValue(first.tokenIn, profit),
+          description: `Cyclic swap path ${[...tokens, first.tokenIn!]
+            .map((token) => shortenAddress(token))
+            .join(
+              " → ",
+            )} across ${new Set(cycle.map(SwapDecoder.poolKey)).size} pools`,
+          confidence: 0.9,
+          actor: flow.tx.to ?? flow.tx.from,
+          pools: Array.from(new Set(cycle.map(SwapDecoder.poolKey))),
+          tokens,
+          profit: { token: first.tokenIn!, amount: profit.toString() },
+        });
+        return;
+      }
+
+      const loop = this.findTransferCycle(flow);
+      if (loop) {
+        patterns.push({
+          type: "arbitrage",
+          transactions: [flow.tx.hash],
+          extractedValue: wethValue(loop.token, loop.profit),
+          description: `Sent ${shortenAddress(loop.token)} through ${loop.tokens.length - 1} other token${loop.tokens.length === 2 ? "" : "s"} and received more of it back`,
+          confidence: 0.7,
+          actor: flow.tx.to ?? flow.tx.from,
+          tokens: loop.tokens,
+          profit: { token: loop.token, amount: loop.profit.toString() },
+        });
+      }
+    });
+
+    return patterns;
+  }
+
+  private static findSwapCycle(swaps: DexSwap[]): DexSwap[] | null {
+    for (let start = 0; start < swaps.length; start++) {
+      const first = swaps[start];
+      if (!first.tokenIn) continue;
+
+      for (let end = start + 1; end < swaps.length; end++) {
+        const current = swaps[end];
+        if (!current.tokenIn || current.tokenIn !== swaps[end - 1].tokenOut) {
+          break;
+        }
+        const cycle = swaps.slice(start, end + 1);
+        if (
+          current.tokenOut === first.tokenIn &&
+          new Set(cycle.map(SwapDecoder.poolKey)).size > 1
+        ) {
+          return cycle;
+        }
+      }
+    }
+    return null;
+  }
+
+  private static findTransferCycle(
+    flow: BlockTransactionFlows,
+  ): { token: string; profit: bigint; tokens: string[] } | null {
+    const actors = new Set(
+      [flow.tx.from, flow.tx.to].filter((actor): actor is string => !!actor),
+    );
+    const outgoing = flow.transfers.filter(
+      (transfer) => actors.has(transfer.from) && !actors.has(transfer.to),
+    );
+    const incoming = flow.transfers.filter(
+      (transfer) => actors.has(transfer.to) && !actors.has(transfer.from),
+    );
+    if (outgoing.length === 0 || incoming.length === 0) return null;
+
+    const token = outgoing[0].token;
+    if (incoming[incoming.length - 1].token !== token) return null;
+
+    const total = (transfers: LogTokenTransfer[]) =>
+      transfers
+        .filter((transfer) => transfer.token === token)
+        .reduce((sum, transfer) => sum + transfer.amount, 0n);
+    const profit = total(incoming) - total(outgoing);
+
+    const tokens = Array.from(
+      new Set(flow.transfers.map((transfer) => transfer.token)),
+    );
+    const counterparties = new Set(
+      flow.transfers
+        .flatMap((transfer) => [transfer.from, transfer.to])
+        .filter((address) => !actors.has(address)),
+    );
+    if (profit <= 0n || tokens.length < 2 || counterparties.size < 2) {
+      return null;
+    }
+    return { token, profit, tokens };
   }
 
+  /**
+   * Senders or private contracts that send several swapping transactions
+   * in the block, or whose transactions already appear in other patterns.
+   */
   private static detectMevBotActivity(
-    transactions: TraceAnalysisResults[],
+    flows: BlockTransactionFlows[],
+    contractSenders: Map<string, Set<string>>,
+    detected: BlockMevPattern[],
   ): BlockMevPattern[] {
-    return [];
+    const patterned = new Set(
+      detected.flatMap((pattern) => pattern.transactions),
+    );
+    const groups = new Map<string, BlockTransactionFlows[]>();
+
+    flows.forEach((flow) => {
+      const keys = this.actorKeys(flow.tx, contractSenders);
+      const key = keys[keys.length - 1];
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(flow);
+    });
+
+    const patterns: BlockMevPattern[] = [];
+    groups.forEach((members, key) => {
+      const byContract = key.startsWith("contract:");
+      if (members.length < (byContract ? 2 : 3)) return;
+
+      const trading = members.filter(
+        (member) => member.swaps.length > 0 || patterned.has(member.tx.hash),
+      );
+      const inPatterns = members.filter((member) =>
+        patterned.has(member.tx.hash),
+      ).length;
+      if (trading.length < 2) return;
+
+      const actor = key.slice(key.indexOf(":") + 1);
+      const failed = members.filter((member) => member.tx.failed).length;
+      patterns.push({
+        type: "mev_bot",
+        transactions: members.map((member) => member.tx.hash),
+        description: `${byContract ? "Contract" : "Sender"} ${shortenAddress(actor)} sent ${members.length} transactions, ${trading.length} trading${inPatterns > 0 ? `, ${inPatterns} in sandwich or arbitrage patterns` : ""}${failed > 0 ? `, ${failed} reverted` : ""}`,
+        confidence: Math.min(0.5 + inPatterns * 0.15 + failed * 0.05, 0.95),
+        actor,
+      });
+    });
+
+    return patterns;
   }
 
+  /**
+   * Links transactions from the same sender, to the same private contract,
+   * or where one funds the sender of a later pattern transaction. Groups are
+   * linked as a chain of neighbours rather than every pair.
+   */
   private static analyzeTransactionCorrelations(
-    transactions: TraceAnalysisResults[],
+    transactions: BlockMevTransaction[],
+    contractSenders: Map<string, Set<string>>,
+    detected: BlockMevPattern[],
   ): TransactionCorrelation[] {
-    return [];
+    const correlations: TransactionCorrelation[] = [];
+    const patterned = new Set(
+      detected.flatMap((pattern) => pattern.transactions),
+    );
+
+    const chain = (
+      groups: Map<string, BlockMevTransaction[]>,
+      correlationType: TransactionCorrelation["correlationType"],
+      confidence: number,
+      detail: (key: string) => string,
+    ) =>
+      groups.forEach((members, key) => {
+        for (let i = 1; i < members.length; i++) {
+          if (
+            correlationType === "shared_contract" &&
+            members[i - 1].from === members[i].from
+          ) {
+            continue;
+          }
+          correlations.push({
+            transaction1: members[i - 1].hash,
+            transaction2: members[i].hash,
+            correlationType,
+            confidence,
+            detail: detail(key),
+          });
+        }
+      });
+
+    const bySender = new Map<string, BlockMevTransaction[]>();
+    const byContract = new Map<string, BlockMevTransaction[]>();
+    transactions.forEach((tx) => {
+      if (!bySender.has(tx.from)) bySender.set(tx.from, []);
+      bySender.get(tx.from)!.push(tx);
+
+      const senders = tx.to ? contractSenders.get(tx.to) : undefined;
+      if (
+        tx.to &&
+        senders &&
+        senders.size > 1 &&
+        senders.size <= MAX_PRIVATE_CONTRACT_SENDERS
+      ) {
+        if (!byContract.has(tx.to)) byContract.set(tx.to, []);
+        byContract.get(tx.to)!.push(tx);
+      }
+    });
+
+    chain(
+      bySender,
+      "shared_sender",
+      0.9,
+      (sender) => `Both sent by ${shortenAddress(sender)}`,
+    );
+    chain(
+      byContract,
+      "shared_contract",
+      0.6,
+      (contract) =>
+        `Both call ${shortenAddress(contract)}, which few senders use`,
+    );
+
+    // ETH or tokens sent to an address that later acts as a searcher in the
+    // block. Plain payments to accounts that merely transact afterwards are
+    // everyday traffic, not funding.
+    transactions.forEach((funder) => {
+      const recipients = new Set<string>();
+      funder.calls.forEach((call) => {
+        if (call.to && call.value > 0n) recipients.add(call.to);
+      });
+      this.readFlows(funder).transfers.forEach((transfer) =>
+        recipients.add(transfer.to),
+      );
+      recipients.delete(funder.from);
+
+      recipients.forEach((recipient) => {
+        const funded = bySender
+          .get(recipient)
+          ?.find((tx) => tx.index > funder.index && patterned.has(tx.hash));
+        if (!funded) return;
+        correlations.push({
+          transaction1: funder.hash,
+          transaction2: funded.hash,
+          correlationType: "funding",
+          confidence: 0.8,
+          detail: `Funds ${shortenAddress(recipient)} before it sends an MEV transaction`,
+        });
+      });
+    });
+
+    return correlations;
   }
 
   private static calculateMevScore(
@@ -638,6 +1179,12 @@ export class AdvancedMevDetector {
       );
     }
 
+    if (patterns.some((p) => p.type === "sandwich")) {
+      recommendations.push(
+        "Sandwiched swaps should set tighter slippage limits or use a private mempool",
+      );
+    }
+
     return recommendations;
   }
 }
@@ -674,25 +1221,64 @@ interface MevDetectionResult {
   pattern: MevPattern | null;
 }
 
-interface BlockMevAnalysis {
+export interface BlockMevAnalysis {
   totalTransactions: number;
   mevTransactions: number;
   blockPatterns: BlockMevPattern[];
   correlations: TransactionCorrelation[];
+  // ETH, from profits taken in WETH.
   mevExtraction: number;
   recommendations: string[];
 }
 
-interface BlockMevPattern {
-  type: string;
+export interface BlockMevPattern {
+  type: "sandwich" | "arbitrage" | "mev_bot";
+  // In block order; a sandwich lists front-run, victims, then back-run.
   transactions: string[];
   extractedValue?: number;
   description: string;
+  confidence: number;
+  actor?: string;
+  pools?: string[];
+  tokens?: string[];
+  // Raw token units.
+  profit?: { token: string; amount: string };
 }
 
-interface TransactionCorrelation {
+export interface TransactionCorrelation {
   transaction1: string;
   transaction2: string;
-  correlationType: string;
+  correlationType: "shared_sender" | "shared_contract" | "funding";
   confidence: number;
+  detail: string;
+}
+
+export interface BlockMevCall {
+  from: string;
+  to: string | null;
+  value: bigint;
+  input: string;
+}
+
+export interface BlockMevTransaction {
+  hash: string;
+  index: number;
+  from: string;
+  to: string | null;
+  // Every call frame, the top-level call first.
+  calls: BlockMevCall[];
+  logs: TransactionLogEntry[];
+  failed: boolean;
+}
+
+export interface BlockMevReceipt {
+  transactionHash: string;
+  status?: string | number | null;
+  logs: TransactionLogEntry[];
+}
+
+interface BlockTransactionFlows {
+  tx: BlockMevTransaction;
+  transfers: LogTokenTransfer[];
+  swaps: DexSwap[];
 }
@@ -1,17 +1,44 @@
+import { signatureDatabase } from "@/lib/signatures";
 import type {
+  CallDiffStatus,
+  CallFieldDifference,
+  CallTreeDiff,
+  CallTreeDiffNode,
   ComparisonDifference,
+  ComparisonLogs,
   ComparisonMetrics,
   ComparisonResult,
+  EventDiffEntry,
   GasAnalysisData,
   PatternAnalysisData,
+  ProcessedTraceAction,
   SecurityConcern,
   TraceAnalysisResults,
+  TransactionLogEntry,
 } from "./types";
 
+interface CallTreeNode {
+  action: ProcessedTraceAction;
+  children: CallTreeNode[];
+}
+
+const callKey = (action: ProcessedTraceAction) =>
+  `${action.to.toLowerCase()}:${action.input.length >= 10 ? action.input.slice(0, 10).toLowerCase() : ""}`;
+
+const eventKey = (log: TransactionLogEntry) =>
+  `${log.address.toLowerCase()}:${log.topics[0]?.toLowerCase() ?? ""}`;
+
+const argumentWords = (input: string) =>
+  input.slice(10).match(/.{1,64}/g) ?? [];
+
+const formatParameter = (value: unknown) =>
+  typeof value === "string" ? value : (JSON.stringify(value) ?? "undefined");
+
 export class ComparativeAnalysisService {
   static compareTransactions(
     analysis1: TraceAnalysisResults,
     analysis2: TraceAnalysisResults,
+    logs?: ComparisonLogs,
   ): ComparisonResult {
     const metrics = this.calculateComparisonMetrics(analysis1, analysis2);
     const differences = this.identifyDifferences(analysis1, analysis2);
@@ -42,6 +69,11 @@ export class ComparativeAnalysisService {
       patternComparison,
       gasComparison,
       securityComparison,
+      callTreeDiff: this.diffCallTrees(
+        analysis1.processedActions,
+        analysis2.processedActions,
+        logs,
+      ),
       recommendations: this.generateComparisonRecommendations(
         analysis1,
         analysis2,
@@ -50,6 +82,266 @@ export class ComparativeAnalysisService {
     };
   }
 
+  /**
+   * Structural diff of two call trees. Sibling calls are aligned by
+   * contract and selector in order, so a call present in only one
+   * transaction does not shift the rest; matched calls are compared by
+   * arguments, return data, value and error, and their subcalls the same
+   * way.
+   */
+  static diffCallTrees(
+    actions1: ProcessedTraceAction[],
+    actions2: ProcessedTraceAction[],
+    logs?: ComparisonLogs,
+  ): CallTreeDiff {
+    const counts: Record<CallDiffStatus, number> = {
+      unchanged: 0,
+      changed: 0,
+      added: 0,
+      removed: 0,
+    };
+    const roots = this.diffCallLists(
+      this.buildCallTree(actions1),
+      this.buildCallTree(actions2),
+      "",
+      0,
+      counts,
+    );
+
+    return {
+      roots,
+      counts,
+      events: logs
+        ? this.diffEvents(logs.transaction1, logs.transaction2)
+        : undefined,
+    };
+  }
+
+  /**
+   * Emitted events aligned by contract and topic0; matched events with
+   * other indexed topics or data are marked changed.
+   */
+  static diffEvents(
+    logs1: TransactionLogEntry[],
+    logs2: TransactionLogEntry[],
+  ): EventDiffEntry[] {
+    return this.align(logs1, logs2, eventKey).map(([log1, log2]) => {
+      const log = (log1 ?? log2)!;
+      const differences: CallFieldDifference[] = [];
+      if (log1 && log2) {
+        const topics = Math.max(log1.topics.length, log2.topics.length);
+        for (let i = 1; i < topics; i++) {
+          if (log1.topics[i]?.toLowerCase() !== log2.topics[i]?.toLowerCase()) {
+            differences.push({
+              field: `topic ${i}`,
+              transaction1: log1.topics[i] ?? "none",
+              transaction2: log2.topics[i] ?? "none",
+            });
+          }
+        }
+        if (log1.data.toLowerCase() !== log2.data.toLowerCase()) {
+          differences.push({
+            field: "data",
+            transaction1: log1.data,
+            transaction2: log2.data,
+          });
+        }
+      }
+
+      const [signature] = log.topics[0]
+        ? signatureDatabase.lookup(log.topics[0])
+        : [];
+      return {
+        status: !log1
+          ? "added"
+          : !log2
+            ? "removed"
+            : differences.length > 0
+              ? "changed"
+              : "unchanged",
+        name: signature
+          ? signature.split("(")[0]
+          : (log.topics[0]?.slice(0, 10) ?? "anonymous"),
+        address: log.address,
+        log1,
+        log2,
+        differences,
+      };
+    });
+  }
+
+  private static buildCallTree(
+    actions: ProcessedTraceAction[],
+  ): CallTreeNode[] {
+    const nodes = new Map<string, CallTreeNode>();
+    const roots: CallTreeNode[] = [];
+
+    actions.forEach((action) => {
+      const node = { action, children: [] };
+      nodes.set(action.traceAddress.join(","), node);
+      const parent = action.traceAddress.length
+        ? nodes.get(action.traceAddress.slice(0, -1).join(","))
+        : undefined;
+      if (parent) parent.children.push(node);
+      else roots.push(node);
+    });
+
+    return roots;
+  }
+
+  private static diffCallLists(
+    list1: CallTreeNode[],
+    list2: CallTreeNode[],
+    parentId: string,
+    depth: number,
+    counts: Record<CallDiffStatus, number>,
+  ): CallTreeDiffNode[] {
+    return this.align(list1, list2, (node) => callKey(node.action)).map(
+      ([node1, node2], index) => {
+        const id = parentId ? `${parentId}.${index}` : `${index}`;
+
+        if (!node1 || !node2) {
+          const status = node1 ? "removed" : "added";
+          return this.markSubtree((node1 ?? node2)!, status, id, depth, counts);
+        }
+
+        const differences = this.diffCall(node1.action, node2.action);
+        const status = differences.length > 0 ? "changed" : "unchanged";
+        counts[status]++;
+        return {
+          id,
+          status,
+          depth,
+          call1: node1.action,
+          call2: node2.action,
+          gasDelta: node2.action.gasUsed - node1.action.gasUsed,
+          differences,
+          children: this.diffCallLists(
+            node1.children,
+            node2.children,
+            id,
+            depth + 1,
+            counts,
+          ),
+        };
+      },
+    );
+  }
+
+  private static markSubtree(
+    node: CallTreeNode,
+    status: "added" | "removed",
+    id: string,
+    depth: number,
+    counts: Record<CallDiffStatus, number>,
+  ): CallTreeDiffNode {
+    counts[status]++;
+    return {
+      id,
+      status,
+      depth,
+      call1: status === "removed" ? node.action : undefined,
+      call2: status === "added" ? node.action : undefined,
+      gasDelta: status === "added" ? node.action.gasUsed : -node.action.gasUsed,
+      differences: [],
+      children: node.children.map((child, index) =>
+        this.markSubtree(child, status, `${id}.${index}`, depth + 1, counts),
+      ),
+    };
+  }
+
+  private static diffCall(
+    call1: ProcessedTraceAction,
+    call2: ProcessedTraceAction,
+  ): CallFieldDifference[] {
+    const differences: CallFieldDifference[] = [];
+    const add = (field: string, value1: string, value2: string) =>
+      differences.push({ field, transaction1: value1, transaction2: value2 });
+
+    if (call1.type !== call2.type) add("call type", call1.type, call2.type);
+    if (call1.value !== call2.value) {
+      add("value", `${call1.valueEth} ETH`, `${call2.valueEth} ETH`);
+    }
+
+    if (call1.input.toLowerCase() !== call2.input.toLowerCase()) {
+      const found = differences.length;
+      const names = Object.keys(call1.parameters ?? {});
+      const decoded =
+        names.length > 0 &&
+        names.length === Object.keys(call2.parameters ?? {}).length;
+      if (decoded) {
+        names.forEach((name) => {
+          const value1 = formatParameter(call1.parameters[name]);
+          const value2 = formatParameter(call2.parameters[name]);
+          if (value1 !== value2) add(`argument ${name}`, value1, value2);
+        });
+      }
+      // Decoded parameters may leave out some arguments.
+      if (!decoded || differences.length === found) {
+        const words1 = argumentWords(call1.input);
+        const words2 = argumentWords(call2.input);
+        for (let i = 0; i < Math.max(words1.length, words2.length); i++) {
+          if (words1[i]?.toLowerCase() !== words2[i]?.toLowerCase()) {
+            add(
+              `argument word ${i}`,
+              words1[i] ? `0x${words1[i]}` : "none",
+              words2[i] ? `0x${words2[i]}` : "none",
+            );
+          }
+        }
+      }
+    }
+
+    if (call1.output.toLowerCase() !== call2.output.toLowerCase()) {
+      add("return data", call1.output, call2.output);
+    }
+    if (call1.error !== call2.error) {
+      add("error", call1.error ?? "none", call2.error ?? "none");
+    }
+
+    return differences;
+  }
+
+  /**
+   * Longest common subsequence of two lists by key, as pairs in order;
+   * an item without a partner is paired with undefined.
+   */
+  private static align<T>(
+    list1: T[],
+    list2: T[],
+    key: (item: T) => string,
+  ): [T | undefined, T | undefined][] {
+    const keys1 = list1.map(key);
+    const keys2 = list2.map(key);
+    const lengths = Array.from({ length: list1.length + 1 }, () =>
+      new Array<number>(list2.length + 1).fill(0),
+    );
+    for (let i = list1.length - 1; i >= 0; i--) {
+      for (let j = list2.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          keys1[i] === keys2[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const pairs: [T | undefined, T | undefined][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < list1.length && j < list2.length) {
+      if (keys1[i] === keys2[j]) {
+        pairs.push([list1[i++], list2[j++]]);
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        pairs.push([list1[i++], undefined]);
+      } else {
+        pairs.push([undefined, list2[j++]]);
+      }
+    }
+    while (i < list1.length) pairs.push([list1[i++], undefined]);
+    while (j < list2.length) pairs.push([undefined, list2[j++]]);
+    return pairs;
+  }
+
   private static calculateComparisonMetrics(
     analysis1: TraceAnalysisResults,
     analysis2: TraceAnalysisResults,
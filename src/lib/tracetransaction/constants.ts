@@ -142,6 +142,26 @@ export const MEV_PATTERNS = {
   },
 } as const;
 
+// View functions read from pools and tokens to resolve and price swaps.
+export const DEX_CALL_SELECTORS = {
+  token0: "0x0dfe1681",
+  token1: "0xd21220a7",
+  getReserves: "0x0902f1ac",
+  slot0: "0x3850c7bd",
+  coins: "0xc6610657",
+  coinsInt128: "0x23746eb8",
+  decimals: "0x313ce567",
+  symbol: "0x95d89b41",
+} as const;
+
+// WETH on mainnet, Sepolia and Holesky; profits taken in it are counted as
+// extracted ETH.
+export const WRAPPED_ETHER_ADDRESSES = [
+  "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2",
+  "0xfff9976782d46cc05630d1f6ebab18b2324d6b14",
+  "0x94373a4919b3240d86ea41593d5eba789fef3848",
+];
+
 export const SECURITY_RISK_LEVELS = {
   "transferOwnership(address)": "high",
   "pause()": "medium",
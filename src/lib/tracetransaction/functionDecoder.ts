@@ -1,3 +1,4 @@
+import { abiRegistry, argumentsToRecord } from "@/lib/abi";
 import { PYUSD_SIGNATURES } from "./constants";
 import type { DecodedFunction, FunctionParameters } from "./types";
 
@@ -166,6 +167,37 @@ export function getFunctionDescription(
   return "Unknown Interaction";
 }
 
+/**
+ * Decodes calldata with the ABI registry, for contracts outside the
+ * built-in PYUSD signatures.
+ */
+export function decodeRegisteredFunction(
+  inputData: string,
+  contractAddress: string,
+): DecodedFunction | null {
+  const decoded = abiRegistry.decodeFunction(inputData, {
+    address: contractAddress,
+  });
+  if (!decoded) return null;
+
+  return {
+    name: decoded.name,
+    category: categorizeFunctionCall(decoded.name, contractAddress).category,
+    params: argumentsToRecord(decoded.args),
+  };
+}
+
+export function describeTraceError(
+  error: string,
+  outputData: string,
+  contractAddress: string,
+): string {
+  const decoded = abiRegistry.decodeError(outputData, {
+    address: contractAddress,
+  });
+  return decoded ? `${error}: ${decoded.message}` : error;
+}
+
 export function categorizeFunctionCall(
   functionName: string,
   contractAddress: string,
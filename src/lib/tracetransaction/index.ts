@@ -7,4 +7,6 @@ export * from "./gasAnalyzer";
 export * from "./visualizationData";
 export * from "./constants";
 export * from "./comparativeAnalysis";
+export * from "./swapDecoder";
 export * from "./bookmarks";
+export * from "./traceQuery";
@@ -0,0 +1,174 @@
+import { ethers } from "ethers";
+import { afterEach, describe, expect, it } from "vitest";
+import { blockchainService } from "@/lib/blockchainService";
+import { EVENT_TOPICS } from "@/lib/config";
+import {
+  RPC_SESSION_FORMAT,
+  RPC_SESSION_VERSION,
+  type RpcSessionEntry,
+} from "@/lib/rpcsession";
+import { DEX_CALL_SELECTORS } from "./constants";
+import { SwapDecoder, type SwapLogEntry } from "./swapDecoder";
+
+const POOL = "0x0d4a11d5eeaac28ec3f61d100daf4d40471f1852";
+const TOKEN_A = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const TOKEN_B = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const TRADER = "0x1111111111111111111111111111111111111111";
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+const topic = (address: string) => ethers.zeroPadValue(address, 32);
+const words = (types: string[], values: unknown[]) =>
+  coder.encode(types, values);
+
+const transfer = (
+  token: string,
+  from: string,
+  to: string,
+  amount: bigint,
+): SwapLogEntry => ({
+  address: token,
+  topics: [EVENT_TOPICS.TRANSFER, topic(from), topic(to)],
+  data: words(["uint256"], [amount]),
+});
+
+const swapV2 = (amounts: bigint[]): SwapLogEntry => ({
+  address: POOL,
+  topics: [EVENT_TOPICS.SWAP, topic(TRADER), topic(TRADER)],
+  data: words(["uint256", "uint256", "uint256", "uint256"], amounts),
+});
+
+describe("SwapDecoder.decodeSwaps", () => {
+  it("takes the tokens of a V2 swap from the transfers around the pool", () => {
+    const [swap] = SwapDecoder.decodeSwaps([
+      transfer(TOKEN_A, TRADER, POOL, 10n),
+      transfer(TOKEN_B, POOL, TRADER, 19n),
+      swapV2([10n, 0n, 0n, 19n]),
+    ]);
+
+    expect(swap).toMatchObject({
+      protocol: "uniswap-v2",
+      logIndex: 2,
+      pool: POOL,
+      zeroForOne: true,
+      amountIn: 10n,
+      amountOut: 19n,
+      tokenIn: TOKEN_A,
+      tokenOut: TOKEN_B,
+    });
+  });
+
+  it("reads signed V3 amounts and the price after the swap", () => {
+    const [swap] = SwapDecoder.decodeSwaps([
+      {
+        address: POOL,
+        topics: [EVENT_TOPICS.SWAP_V3, topic(TRADER), topic(TRADER)],
+        data: words(
+          ["int256", "int256", "uint160", "uint128", "int24"],
+          [-500n, 250n, 2n ** 96n, 1n, 0n],
+        ),
+      },
+    ]);
+
+    expect(swap).toMatchObject({
+      protocol: "uniswap-v3",
+      zeroForOne: false,
+      amountIn: 250n,
+      amountOut: 500n,
+      sqrtPriceX96After: 2n ** 96n,
+    });
+  });
+
+  it("keys Balancer swaps by pool id and Curve swaps by coin index", () => {
+    const poolId = `0x${"12".repeat(32)}`;
+    const swaps = SwapDecoder.decodeSwaps([
+      {
+        address: POOL,
+        topics: [
+          EVENT_TOPICS.SWAP_BALANCER,
+          poolId,
+          topic(TOKEN_A),
+          topic(TOKEN_B),
+        ],
+        data: words(["uint256", "uint256"], [7n, 3n]),
+      },
+      {
+        address: POOL,
+        topics: [EVENT_TOPICS.TOKEN_EXCHANGE, topic(TRADER)],
+        data: words(
+          ["int128", "uint256", "int128", "uint256"],
+          [1n, 100n, 0n, 99n],
+        ),
+      },
+    ]);
+
+    expect(swaps.map((swap) => SwapDecoder.poolKey(swap))).toEqual([
+      poolId,
+      POOL,
+    ]);
+    expect(swaps[0]).toMatchObject({ tokenIn: TOKEN_A, tokenOut: TOKEN_B });
+    expect(swaps[1]).toMatchObject({
+      protocol: "curve",
+      coinIn: 1,
+      coinOut: 0,
+    });
+  });
+
+  it("skips logs that are not swaps or are too short", () => {
+    expect(
+      SwapDecoder.decodeSwaps([
+        transfer(TOKEN_A, TRADER, POOL, 10n),
+        { ...swapV2([10n, 0n, 0n, 19n]), data: "0x" },
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe("SwapDecoder.priceSwaps", () => {
+  afterEach(() => blockchainService.stopReplay());
+
+  const poolCall = (data: string, result: string): RpcSessionEntry => ({
+    method: "eth_call",
+    params: [{ to: POOL, data }, "0x63"],
+    result,
+    offsetMs: 0,
+    durationMs: 1,
+  });
+
+  it("prices consecutive swaps on a pool against its carried reserves", async () => {
+    blockchainService.startReplay({
+      format: RPC_SESSION_FORMAT,
+      version: RPC_SESSION_VERSION,
+      id: "swap-pricing",
+      name: "Swap pricing",
+      createdAt: 0,
+      endedAt: 0,
+      network: null,
+      entries: [
+        poolCall(DEX_CALL_SELECTORS.token0, words(["address"], [TOKEN_A])),
+        poolCall(DEX_CALL_SELECTORS.token1, words(["address"], [TOKEN_B])),
+        poolCall(
+          DEX_CALL_SELECTORS.getReserves,
+          words(["uint112", "uint112", "uint32"], [1000n, 2000n, 0n]),
+        ),
+      ],
+    });
+
+    const swaps = SwapDecoder.decodeSwaps([
+      swapV2([10n, 0n, 0n, 19n]),
+      swapV2([10n, 0n, 0n, 19n]),
+    ]);
+    const [first, second] = await SwapDecoder.priceSwaps(swaps, 100);
+
+    expect(first).toMatchObject({
+      tokenIn: TOKEN_A,
+      tokenOut: TOKEN_B,
+      effectivePrice: 1.9,
+      spotPriceBefore: 2,
+      spotPriceAfter: 1981 / 1010,
+    });
+    expect(first.slippage).toBeCloseTo(5);
+    expect(first.priceImpact).toBeCloseTo((1 - 1981 / 1010 / 2) * 100);
+    expect(second.spotPriceBefore).toBe(1981 / 1010);
+    expect(second.spotPriceAfter).toBe(1962 / 1020);
+  });
+});
@@ -0,0 +1,521 @@
+import { ethers } from "ethers";
+import { blockchainService } from "@/lib/blockchainService";
+import { EVENT_TOPICS } from "@/lib/config";
+import { DEX_CALL_SELECTORS } from "./constants";
+import type {
+  DexSwap,
+  DexTokenInfo,
+  PricedDexSwap,
+  LogTokenTransfer,
+  TransactionLogEntry,
+} from "./types";
+
+export interface SwapLogEntry extends TransactionLogEntry {
+  logIndex?: string | number;
+  transactionHash?: string;
+}
+
+export interface SwapReceipt {
+  transactionHash: string;
+  transactionIndex?: string | number;
+  blockNumber: string | number;
+  logs: SwapLogEntry[];
+}
+
+interface PoolState {
+  token0: string | null;
+  token1: string | null;
+  reserve0: bigint | null;
+  reserve1: bigint | null;
+  sqrtPriceX96: bigint | null;
+}
+
+const INT256_SIGN = 1n << 255n;
+const INT256_RANGE = 1n << 256n;
+const Q96 = 2 ** 96;
+
+const dataWord = (data: string, index: number) => {
+  const hex = data.replace(/^0x/, "").slice(index * 64, (index + 1) * 64);
+  return hex.length === 64 ? BigInt(`0x${hex}`) : null;
+};
+
+const signedDataWord = (data: string, index: number) => {
+  const value = dataWord(data, index);
+  return value !== null && value >= INT256_SIGN ? value - INT256_RANGE : value;
+};
+
+const topicAddress = (topic: string | undefined) =>
+  topic ? `0x${topic.slice(-40)}`.toLowerCase() : null;
+
+const wordAddress = (result: string | null) =>
+  result && result.length >= 66
+    ? `0x${result.slice(26, 66)}`.toLowerCase()
+    : null;
+
+const logIndexOf = (log: SwapLogEntry, position: number) =>
+  log.logIndex !== undefined ? Number(log.logIndex) : position;
+
+// ERC-20 symbols are strings, but some early tokens return bytes32.
+const decodeSymbol = (result: string | null) => {
+  if (!result) return null;
+  try {
+    return result.length > 66
+      ? (ethers.AbiCoder.defaultAbiCoder().decode(
+          ["string"],
+          result,
+        )[0] as string)
+      : ethers.decodeBytes32String(result);
+  } catch {
+    return null;
+  }
+};
+
+// Token metadata does not change, so it is kept for the session.
+const tokenInfoCache = new Map<string, Promise<DexTokenInfo>>();
+
+/**
+ * Decodes Uniswap V2/V3, Curve and Balancer V2 swap events and prices them
+ * against pool state read with `eth_call` at the parent block.
+ */
+export class SwapDecoder {
+  static decodeTransfers(logs: SwapLogEntry[]): LogTokenTransfer[] {
+    return logs.flatMap((log, position) => {
+      if (
+        log.topics[0]?.toLowerCase() !== EVENT_TOPICS.TRANSFER ||
+        log.topics.length !== 3
+      ) {
+        return [];
+      }
+      const from = topicAddress(log.topics[1]);
+      const to = topicAddress(log.topics[2]);
+      const amount = dataWord(log.data, 0);
+      if (!from || !to || amount === null) return [];
+      return [
+        {
+          logIndex: logIndexOf(log, position),
+          token: log.address.toLowerCase(),
+          from,
+          to,
+          amount,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Swaps of one transaction in log order. Tokens the event does not name
+   * are taken from the Transfers into and out of the pool until
+   * `priceSwaps` reads them from the pool itself.
+   */
+  static decodeSwaps(logs: SwapLogEntry[]): DexSwap[] {
+    const transfers = this.decodeTransfers(logs);
+    const swaps = logs.flatMap((log, position) => {
+      const swap = this.decodeSwap(log, logIndexOf(log, position));
+      return swap ? [swap] : [];
+    });
+
+    swaps.forEach((swap) => {
+      if (!swap.tokenIn) {
+        swap.tokenIn = this.matchPoolTransfer(
+          transfers,
+          swap.pool,
+          "in",
+          swap.amountIn,
+        );
+      }
+      if (!swap.tokenOut) {
+        swap.tokenOut = this.matchPoolTransfer(
+          transfers,
+          swap.pool,
+          "out",
+          swap.amountOut,
+        );
+      }
+    });
+    return swaps;
+  }
+
+  // Balancer swaps all come from the Vault, so its pools are told apart
+  // by pool id.
+  static poolKey(swap: DexSwap): string {
+    return swap.poolId ?? swap.pool;
+  }
+
+  /**
+   * Resolves tokens from the pools, then prices each swap against the pool
+   * state at the parent block, carried forward through earlier swaps on the
+   * same pool. Swaps must be in execution order and from one block.
+   */
+  static async priceSwaps(
+    swaps: DexSwap[],
+    blockNumber: number,
+  ): Promise<PricedDexSwap[]> {
+    const parent = ethers.toQuantity(Math.max(blockNumber - 1, 0));
+    const [states, coins] = await Promise.all([
+      this.readPoolStates(swaps, parent),
+      this.readCurveCoins(swaps, parent),
+    ]);
+
+    const resolved = swaps.map((swap): DexSwap => {
+      const state = states.get(swap.pool);
+      if (state && swap.zeroForOne !== null) {
+        return {
+          ...swap,
+          tokenIn:
+            (swap.zeroForOne ? state.token0 : state.token1) ?? swap.tokenIn,
+          tokenOut:
+            (swap.zeroForOne ? state.token1 : state.token0) ?? swap.tokenOut,
+        };
+      }
+      if (swap.coinIn !== null && swap.coinOut !== null) {
+        return {
+          ...swap,
+          tokenIn: coins.get(`${swap.pool}:${swap.coinIn}`) ?? swap.tokenIn,
+          tokenOut: coins.get(`${swap.pool}:${swap.coinOut}`) ?? swap.tokenOut,
+        };
+      }
+      return swap;
+    });
+
+    const tokens = await this.loadTokens(
+      resolved
+        .flatMap((swap) => [swap.tokenIn, swap.tokenOut])
+        .filter((token): token is string => !!token),
+    );
+
+    const hops = new Map<string, number>();
+    return resolved.map((swap) => {
+      const hop = hops.get(swap.transactionHash ?? "") ?? 0;
+      hops.set(swap.transactionHash ?? "", hop + 1);
+
+      const tokenInInfo = (swap.tokenIn && tokens.get(swap.tokenIn)) || null;
+      const tokenOutInfo = (swap.tokenOut && tokens.get(swap.tokenOut)) || null;
+      const scale =
+        tokenInInfo?.decimals != null && tokenOutInfo?.decimals != null
+          ? 10 ** (tokenInInfo.decimals - tokenOutInfo.decimals)
+          : 1;
+
+      const { before, after } = this.advancePool(swap, states.get(swap.pool));
+      const effective =
+        swap.amountIn > 0n
+          ? Number(swap.amountOut) / Number(swap.amountIn)
+          : null;
+
+      return {
+        ...swap,
+        hop,
+        tokenInInfo,
+        tokenOutInfo,
+        effectivePrice: effective !== null ? effective * scale : null,
+        spotPriceBefore: before !== null ? before * scale : null,
+        spotPriceAfter: after !== null ? after * scale : null,
+        priceImpact:
+          before && after !== null ? (1 - after / before) * 100 : null,
+        slippage:
+          before && effective !== null ? (1 - effective / before) * 100 : null,
+      };
+    });
+  }
+
+  /** Decoded and priced swaps of receipts from one block. */
+  static async analyzeReceipts(
+    receipts: SwapReceipt[],
+  ): Promise<PricedDexSwap[]> {
+    const ordered = [...receipts].sort(
+      (a, b) =>
+        Number(a.transactionIndex ?? 0) - Number(b.transactionIndex ?? 0),
+    );
+    const swaps = ordered.flatMap((receipt) =>
+      this.decodeSwaps(
+        receipt.logs.map((log) => ({
+          ...log,
+          transactionHash: receipt.transactionHash,
+        })),
+      ),
+    );
+    if (swaps.length === 0) return [];
+    return this.priceSwaps(swaps, Number(ordered[0].blockNumber));
+  }
+
+  static async loadTokens(
+    addresses: string[],
+  ): Promise<Map<string, DexTokenInfo>> {
+    const network = blockchainService.getCurrentNetworkType() ?? "unknown";
+    const infos = await Promise.all(
+      Array.from(new Set(addresses)).map((address) => {
+        const key = `${network}:${address}`;
+        if (!tokenInfoCache.has(key)) {
+          tokenInfoCache.set(key, this.readToken(address));
+        }
+        return tokenInfoCache.get(key)!;
+      }),
+    );
+    return new Map(infos.map((info) => [info.address, info]));
+  }
+
+  private static decodeSwap(
+    log: SwapLogEntry,
+    logIndex: number,
+  ): DexSwap | null {
+    const base = {
+      transactionHash: log.transactionHash ?? null,
+      logIndex,
+      pool: log.address.toLowerCase(),
+      poolId: null,
+      sender: null,
+      recipient: null,
+      zeroForOne: null,
+      coinIn: null,
+      coinOut: null,
+      tokenIn: null,
+      tokenOut: null,
+      sqrtPriceX96After: null,
+    };
+
+    switch (log.topics[0]?.toLowerCase()) {
+      case EVENT_TOPICS.SWAP: {
+        const [in0, in1, out0, out1] = [0, 1, 2, 3].map((i) =>
+          dataWord(log.data, i),
+        );
+        if (in0 === null || in1 === null || out0 === null || out1 === null) {
+          return null;
+        }
+        const zeroForOne = out1 > 0n;
+        return {
+          ...base,
+          protocol: "uniswap-v2",
+          sender: topicAddress(log.topics[1]),
+          recipient: topicAddress(log.topics[2]),
+          zeroForOne,
+          amountIn: zeroForOne ? in0 : in1,
+          amountOut: zeroForOne ? out1 : out0,
+        };
+      }
+      case EVENT_TOPICS.SWAP_V3: {
+        const amount0 = signedDataWord(log.data, 0);
+        const amount1 = signedDataWord(log.data, 1);
+        const sqrtPriceX96 = dataWord(log.data, 2);
+        if (amount0 === null || amount1 === null) return null;
+        const zeroForOne = amount0 > 0n;
+        return {
+          ...base,
+          protocol: "uniswap-v3",
+          sender: topicAddress(log.topics[1]),
+          recipient: topicAddress(log.topics[2]),
+          zeroForOne,
+          amountIn: zeroForOne ? amount0 : amount1,
+          amountOut: -(zeroForOne ? amount1 : amount0),
+          sqrtPriceX96After: sqrtPriceX96,
+        };
+      }
+      case EVENT_TOPICS.TOKEN_EXCHANGE:
+      case EVENT_TOPICS.TOKEN_EXCHANGE_V2: {
+        const [sold, amountIn, bought, amountOut] = [0, 1, 2, 3].map((i) =>
+          dataWord(log.data, i),
+        );
+        if (
+          sold === null ||
+          amountIn === null ||
+          bought === null ||
+          amountOut === null
+        ) {
+          return null;
+        }
+        const buyer = topicAddress(log.topics[1]);
+        return {
+          ...base,
+          protocol: "curve",
+          sender: buyer,
+          recipient: buyer,
+          coinIn: Number(sold),
+          coinOut: Number(bought),
+          amountIn,
+          amountOut,
+        };
+      }
+      case EVENT_TOPICS.SWAP_BALANCER: {
+        const amountIn = dataWord(log.data, 0);
+        const amountOut = dataWord(log.data, 1);
+        if (
+          log.topics.length !== 4 ||
+          amountIn === null ||
+          amountOut === null
+        ) {
+          return null;
+        }
+        return {
+          ...base,
+          protocol: "balancer-v2",
+          poolId: log.topics[1].toLowerCase(),
+          tokenIn: topicAddress(log.topics[2]),
+          tokenOut: topicAddress(log.topics[3]),
+          amountIn,
+          amountOut,
+        };
+      }
+    }
+    return null;
+  }
+
+  private static matchPoolTransfer(
+    transfers: LogTokenTransfer[],
+    pool: string,
+    side: "in" | "out",
+    amount: bigint,
+  ): string | null {
+    const candidates = transfers.filter(
+      (transfer) =>
+        transfer.token !== pool &&
+        (side === "in" ? transfer.to === pool : transfer.from === pool),
+    );
+    const exact = candidates.find((transfer) => transfer.amount === amount);
+    return (exact ?? candidates[0])?.token ?? null;
+  }
+
+  // Raw tokenOut per tokenIn before and after the swap. Moves the pool
+  // state on so the next swap on the pool starts from it.
+  private static advancePool(
+    swap: DexSwap,
+    state: PoolState | undefined,
+  ): { before: number | null; after: number | null } {
+    if (!state || swap.zeroForOne === null) {
+      return { before: null, after: null };
+    }
+
+    if (swap.protocol === "uniswap-v2") {
+      if (state.reserve0 === null || state.reserve1 === null) {
+        return { before: null, after: null };
+      }
+      const [reserveIn, reserveOut] = swap.zeroForOne
+        ? [state.reserve0, state.reserve1]
+        : [state.reserve1, state.reserve0];
+      const nextIn = reserveIn + swap.amountIn;
+      const nextOut = reserveOut - swap.amountOut;
+      if (swap.zeroForOne) {
+        state.reserve0 = nextIn;
+        state.reserve1 = nextOut;
+      } else {
+        state.reserve1 = nextIn;
+        state.reserve0 = nextOut;
+      }
+      return {
+        before: reserveIn > 0n ? Number(reserveOut) / Number(reserveIn) : null,
+        after: nextIn > 0n ? Number(nextOut) / Number(nextIn) : null,
+      };
+    }
+
+    const price = (sqrtPriceX96: bigint | null) => {
+      if (!sqrtPriceX96) return null;
+      const root = Number(sqrtPriceX96) / Q96;
+      const token1PerToken0 = root * root;
+      return swap.zeroForOne ? token1PerToken0 : 1 / token1PerToken0;
+    };
+    const before = price(state.sqrtPriceX96);
+    state.sqrtPriceX96 = swap.sqrtPriceX96After ?? state.sqrtPriceX96;
+    return { before, after: price(swap.sqrtPriceX96After) };
+  }
+
+  private static async readPoolStates(
+    swaps: DexSwap[],
+    blockTag: string,
+  ): Promise<Map<string, PoolState>> {
+    const pools = new Map<string, DexSwap["protocol"]>();
+    swaps.forEach((swap) => {
+      if (swap.protocol === "uniswap-v2" || swap.protocol === "uniswap-v3") {
+        pools.set(swap.pool, swap.protocol);
+      }
+    });
+
+    const entries = await Promise.all(
+      Array.from(pools).map(async ([pool, protocol]) => {
+        const isV2 = protocol === "uniswap-v2";
+        const [token0, token1, state] = await Promise.all([
+          this.call(pool, DEX_CALL_SELECTORS.token0, blockTag),
+          this.call(pool, DEX_CALL_SELECTORS.token1, blockTag),
+          this.call(
+            pool,
+            isV2 ? DEX_CALL_SELECTORS.getReserves : DEX_CALL_SELECTORS.slot0,
+            blockTag,
+          ),
+        ]);
+        const poolState: PoolState = {
+          token0: wordAddress(token0),
+          token1: wordAddress(token1),
+          reserve0: isV2 && state ? dataWord(state, 0) : null,
+          reserve1: isV2 && state ? dataWord(state, 1) : null,
+          sqrtPriceX96: !isV2 && state ? dataWord(state, 0) : null,
+        };
+        return [pool, poolState] as const;
+      }),
+    );
+    return new Map(entries);
+  }
+
+  private static async readCurveCoins(
+    swaps: DexSwap[],
+    blockTag: string,
+  ): Promise<Map<string, string>> {
+    const keys = new Set<string>();
+    swaps.forEach((swap) => {
+      if (swap.coinIn !== null) keys.add(`${swap.pool}:${swap.coinIn}`);
+      if (swap.coinOut !== null) keys.add(`${swap.pool}:${swap.coinOut}`);
+    });
+
+    const entries = await Promise.all(
+      Array.from(keys).map(async (key) => {
+        const [pool, index] = key.split(":");
+        const argument = ethers.toBeHex(BigInt(index), 32).slice(2);
+        const coin =
+          (await this.call(
+            pool,
+            `${DEX_CALL_SELECTORS.coins}${argument}`,
+            blockTag,
+          )) ??
+          (await this.call(
+            pool,
+            `${DEX_CALL_SELECTORS.coinsInt128}${argument}`,
+            blockTag,
+          ));
+        return [key, wordAddress(coin)] as const;
+      }),
+    );
+    return new Map(
+      entries.filter(
+        (entry): entry is readonly [string, string] => entry[1] !== null,
+      ),
+    );
+  }
+
+  private static async readToken(address: string): Promise<DexTokenInfo> {
+    const [decimals, symbol] = await Promise.all([
+      this.call(address, DEX_CALL_SELECTORS.decimals, "latest"),
+      this.call(address, DEX_CALL_SELECTORS.symbol, "latest"),
+    ]);
+    const decimalsValue = decimals ? dataWord(decimals, 0) : null;
+    return {
+      address,
+      symbol: decodeSymbol(symbol),
+      decimals:
+        decimalsValue !== null && decimalsValue <= 255n
+          ? Number(decimalsValue)
+          : null,
+    };
+  }
+
+  private static async call(
+    to: string,
+    data: string,
+    blockTag: string,
+  ): Promise<string | null> {
+    try {
+      const result = await blockchainService.makeRPCCall<string>(
+        "eth_call",
+        [{ to, data }, blockTag],
+        "background",
+      );
+      return result && result !== "0x" ? result : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import { PYUSD_CONFIG, PYUSD_CONTRACTS } from "./constants";
-import { decodePyusdFunction, getFunctionDescription } from "./functionDecoder";
+import {
+  decodePyusdFunction,
+  decodeRegisteredFunction,
+  describeTraceError,
+  getFunctionDescription,
+} from "./functionDecoder";
 import type {
   AnalysisSummary,
   ContractInteraction,
@@ -71,11 +76,10 @@ export function processTraceActions(
       if (isPyusdCall) {
         functionDecoded = decodePyusdFunction(callData);
       } else {
-        functionDecoded.name = getFunctionDescription(
-          callData,
-          isPyusdCall,
-          contractName,
-        );
+        functionDecoded = decodeRegisteredFunction(callData, toAddr) ?? {
+          ...functionDecoded,
+          name: getFunctionDescription(callData, isPyusdCall, contractName),
+        };
       }
     }
 
@@ -94,10 +98,13 @@ export function processTraceActions(
       function: functionDecoded.name,
       category: functionDecoded.category,
       parameters: functionDecoded.params,
-      error: error || undefined,
+      error: error ? describeTraceError(error, outputData, toAddr) : undefined,
+      revertData: error ? outputData : undefined,
       inputPreview: callData.slice(0, 10) + (callData.length > 10 ? "..." : ""),
       outputPreview:
         outputData.slice(0, 10) + (outputData.length > 10 ? "..." : ""),
+      input: callData,
+      output: outputData,
     };
 
     processedActions.push(processedAction);
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { TraceQuery } from "./traceQuery";
+import { TraceQueryError, type TraceQueryRecord } from "./types";
+
+const TOKEN = "0x6c3ea9036406852006290770bedfcaba0e23a0e8";
+
+const record = (
+  overrides: Partial<TraceQueryRecord> = {},
+): TraceQueryRecord => ({
+  type: "CALL",
+  from: "0x1111111111111111111111111111111111111111",
+  to: TOKEN,
+  selector: "0xa9059cbb",
+  function: "transfer",
+  value: 0,
+  gas: 21000,
+  depth: 1,
+  index: 0,
+  ...overrides,
+});
+
+const parseError = (source: string) => {
+  try {
+    TraceQuery.parse(source);
+  } catch (error) {
+    return error as TraceQueryError;
+  }
+  throw new Error(`"${source}" parsed without an error`);
+};
+
+describe("TraceQuery.parse", () => {
+  it("binds and tighter than or and not tighter than and", () => {
+    expect(TraceQuery.parse("error or not depth > 2 and value > 0")).toEqual({
+      kind: "or",
+      left: { kind: "field", field: "error" },
+      right: {
+        kind: "and",
+        left: {
+          kind: "not",
+          operand: {
+            kind: "compare",
+            field: "depth",
+            operator: ">",
+            value: "2",
+          },
+        },
+        right: {
+          kind: "compare",
+          field: "value",
+          operator: ">",
+          value: "0",
+        },
+      },
+    });
+  });
+
+  it("accepts symbolic operators, a single = and quoted values", () => {
+    expect(TraceQuery.parse(`!(to = "PYUSD Token" || error)`)).toEqual({
+      kind: "not",
+      operand: {
+        kind: "or",
+        left: {
+          kind: "compare",
+          field: "to",
+          operator: "==",
+          value: "PYUSD Token",
+        },
+        right: { kind: "field", field: "error" },
+      },
+    });
+  });
+
+  it("returns null for an empty filter", () => {
+    expect(TraceQuery.parse("   ")).toBeNull();
+  });
+
+  it.each([
+    ['to == "abc', "Unterminated string", 6],
+    ["(depth > 1", 'Missing ")"', 10],
+    ["depth > 1 value", 'Expected "and" or "or" before "value"', 10],
+    ["color == red", 'Unknown field "color"', 0],
+    ["depth ~ 2", '"~" does not apply to the number field "depth"', 6],
+    ["gas > lots", '"gas" compares with numbers, not "lots"', 6],
+    ["type > CALL", '">" only applies to value, gas, depth and index', 5],
+    ["depth >", "Unexpected end of filter", 7],
+  ])("reports %s at the offending position", (source, message, position) => {
+    const error = parseError(source);
+    expect(error).toBeInstanceOf(TraceQueryError);
+    expect(error.message).toContain(message);
+    expect(error.position).toBe(position);
+  });
+});
+
+describe("TraceQuery.compile", () => {
+  it("filters records on numbers, including hex values", () => {
+    const matches = TraceQuery.compile("gas >= 0x5208 and depth < 2");
+
+    expect(matches(record())).toBe(true);
+    expect(matches(record({ gas: 20999 }))).toBe(false);
+    expect(matches(record({ depth: 2 }))).toBe(false);
+  });
+
+  it("matches selectors by function name and addresses in any case", () => {
+    expect(TraceQuery.compile("selector == transfer")(record())).toBe(true);
+    expect(
+      TraceQuery.compile(`to == ${TOKEN.toUpperCase().replace("0X", "0x")}`)(
+        record(),
+      ),
+    ).toBe(true);
+    expect(TraceQuery.compile("selector != 0xa9059cbb")(record())).toBe(false);
+  });
+
+  it("treats a bare field as a presence check", () => {
+    const failed = TraceQuery.compile("error and error ~ balance");
+
+    expect(failed(record())).toBe(false);
+    expect(failed(record({ error: "transfer amount exceeds balance" }))).toBe(
+      true,
+    );
+    expect(TraceQuery.compile("not value")(record({ value: 0.5 }))).toBe(false);
+  });
+
+  it("keeps every row while a half-typed filter has an error", () => {
+    const { predicate, error } = TraceQuery.tryCompile("depth >");
+
+    expect(error?.position).toBe(7);
+    expect(predicate(record())).toBe(true);
+  });
+});
+
+describe("TraceQuery.suggest", () => {
+  it("offers fields at the start of a condition", () => {
+    const suggestions = TraceQuery.suggest("depth > 1 and se", 16, []);
+
+    expect(suggestions).toMatchObject({ from: 14, to: 16 });
+    expect(suggestions.items.map((item) => item.insert)).toEqual(["selector"]);
+  });
+
+  it("offers only the operators that apply to the field", () => {
+    const inserts = TraceQuery.suggest("depth ", 6, []).items.map(
+      (item) => item.insert,
+    );
+
+    expect(inserts).toEqual(["==", "!=", ">", ">=", "<", "<=", "and", "or"]);
+  });
+
+  it("offers values from the records, most frequent first", () => {
+    const records = [
+      record(),
+      record({ selector: "0x095ea7b3", function: "approve" }),
+      record({ selector: "0x095ea7b3", function: "approve" }),
+    ];
+    const labels = TraceQuery.suggest("selector == ", 12, records).items.map(
+      (item) => item.label,
+    );
+
+    expect(labels).toEqual(["0x095ea7b3", "approve", "0xa9059cbb", "transfer"]);
+  });
+});
@@ -0,0 +1,595 @@
+import { abiRegistry } from "@/lib/abi";
+import { getContractName, KNOWN_CONTRACTS } from "@/lib/config";
+import type { CallTraceData } from "@/lib/transactionTracer";
+import {
+  TraceQueryError,
+  type ProcessedTraceAction,
+  type TraceQueryField,
+  type TraceQueryNode,
+  type TraceQueryOperator,
+  type TraceQueryRecord,
+  type TraceQuerySuggestion,
+  type TraceQuerySuggestions,
+} from "./types";
+
+type FieldKind = "address" | "selector" | "text" | "number";
+
+interface Token {
+  kind: "word" | "string" | "operator" | "lparen" | "rparen";
+  text: string;
+  start: number;
+}
+
+export type TraceQueryPredicate = (record: TraceQueryRecord) => boolean;
+
+export const TRACE_QUERY_FIELDS: Record<
+  TraceQueryField,
+  { kind: FieldKind; description: string }
+> = {
+  type: { kind: "text", description: "Call type, e.g. CALL or DELEGATECALL" },
+  from: { kind: "address", description: "Caller address or label" },
+  to: { kind: "address", description: "Callee address or label" },
+  contract: { kind: "text", description: "Label of the callee" },
+  selector: { kind: "selector", description: "4-byte selector or name" },
+  function: { kind: "text", description: "Decoded function name" },
+  value: { kind: "number", description: "Value sent, in ETH" },
+  gas: { kind: "number", description: "Gas used" },
+  depth: { kind: "number", description: "Call depth, 0 at the top" },
+  index: { kind: "number", description: "Position in the trace or block" },
+  error: {
+    kind: "text",
+    description: "Error message to match; a bare error matches failed calls",
+  },
+};
+
+const COMPARISONS: TraceQueryOperator[] = [
+  "==",
+  "!=",
+  ">",
+  ">=",
+  "<",
+  "<=",
+  "~",
+  "!~",
+];
+
+const OPERATOR_HELP: Record<TraceQueryOperator, string> = {
+  "==": "equals",
+  "!=": "does not equal",
+  ">": "greater than",
+  ">=": "at least",
+  "<": "less than",
+  "<=": "at most",
+  "~": "contains",
+  "!~": "does not contain",
+};
+
+const OPERATOR_PATTERN = /^(==|!=|>=|<=|&&|\|\||!~|=|>|<|~|!)/;
+const WORD_PATTERN = /^[^\s()=!<>~"'&|]+/;
+const HEX_PATTERN = /^0x[0-9a-f]*$/i;
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/i;
+
+const isField = (word: string): word is TraceQueryField =>
+  Object.prototype.hasOwnProperty.call(TRACE_QUERY_FIELDS, word);
+
+const isKeyword = (token: Token | undefined, keyword: string) =>
+  token?.kind === "word" && token.text.toLowerCase() === keyword;
+
+const label = (address: string) => {
+  if (!address) return "";
+  const name = getContractName(address);
+  return name !== "Unknown Contract" ? name : "";
+};
+
+const bareName = (name: string) => name.split("(")[0];
+
+const selectorOf = (input: string | undefined) => {
+  const selector = input?.slice(0, 10) ?? "";
+  return /^0x[0-9a-f]{8}$/i.test(selector) ? selector.toLowerCase() : "";
+};
+
+const quote = (value: string) =>
+  WORD_PATTERN.exec(value)?.[0] === value
+    ? value
+    : `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+
+    if (rest[0] === "(" || rest[0] === ")") {
+      tokens.push({
+        kind: rest[0] === "(" ? "lparen" : "rparen",
+        text: rest[0],
+        start: i,
+      });
+      i += 1;
+      continue;
+    }
+
+    if (rest[0] === '"' || rest[0] === "'") {
+      let text = "";
+      let j = 1;
+      while (j < rest.length && rest[j] !== rest[0]) {
+        if (rest[j] === "\\" && j + 1 < rest.length) j += 1;
+        text += rest[j];
+        j += 1;
+      }
+      if (j >= rest.length) {
+        throw new TraceQueryError("Unterminated string", i);
+      }
+      tokens.push({ kind: "string", text, start: i });
+      i += j + 1;
+      continue;
+    }
+
+    const operator = OPERATOR_PATTERN.exec(rest);
+    if (operator) {
+      const text = operator[0] === "=" ? "==" : operator[0];
+      tokens.push({ kind: "operator", text, start: i });
+      i += operator[0].length;
+      continue;
+    }
+
+    const word = WORD_PATTERN.exec(rest);
+    if (!word) throw new TraceQueryError(`Unexpected "${rest[0]}"`, i);
+    tokens.push({ kind: "word", text: word[0], start: i });
+    i += word[0].length;
+  }
+  return tokens;
+};
+
+const parseNumber = (value: string) =>
+  HEX_PATTERN.test(value) && value.length > 2
+    ? Number(BigInt(value))
+    : Number(value);
+
+class Parser {
+  private position = 0;
+
+  constructor(
+    private tokens: Token[],
+    private length: number,
+  ) {}
+
+  parse(): TraceQueryNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new TraceQueryError(
+        `Expected "and" or "or" before "${extra.text}"`,
+        extra.start,
+      );
+    }
+    return node;
+  }
+
+  private peek() {
+    return this.tokens[this.position] as Token | undefined;
+  }
+
+  private next() {
+    const token = this.peek();
+    if (!token) {
+      throw new TraceQueryError("Unexpected end of filter", this.length);
+    }
+    this.position += 1;
+    return token;
+  }
+
+  private accept(keyword: string, symbol: string) {
+    const token = this.peek();
+    if (
+      isKeyword(token, keyword) ||
+      (token?.kind === "operator" && token.text === symbol)
+    ) {
+      this.position += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private parseOr(): TraceQueryNode {
+    let left = this.parseAnd();
+    while (this.accept("or", "||")) {
+      left = { kind: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): TraceQueryNode {
+    let left = this.parseNot();
+    while (this.accept("and", "&&")) {
+      left = { kind: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): TraceQueryNode {
+    if (this.accept("not", "!")) {
+      return { kind: "not", operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): TraceQueryNode {
+    const token = this.next();
+    if (token.kind === "lparen") {
+      const node = this.parseOr();
+      const close = this.peek();
+      if (close?.kind !== "rparen") {
+        throw new TraceQueryError(
+          'Missing ")"',
+          close ? close.start : this.length,
+        );
+      }
+      this.position += 1;
+      return node;
+    }
+
+    const field = token.text.toLowerCase();
+    if (token.kind !== "word" || !isField(field)) {
+      throw new TraceQueryError(
+        `Unknown field "${token.text}", expected one of ${Object.keys(TRACE_QUERY_FIELDS).join(", ")}`,
+        token.start,
+      );
+    }
+
+    const operator = this.peek();
+    if (
+      operator?.kind !== "operator" ||
+      !COMPARISONS.includes(operator.text as TraceQueryOperator)
+    ) {
+      return { kind: "field", field };
+    }
+    this.position += 1;
+
+    const value = this.next();
+    if (value.kind !== "word" && value.kind !== "string") {
+      throw new TraceQueryError(
+        `Expected a value after "${operator.text}"`,
+        value.start,
+      );
+    }
+
+    const kind = TRACE_QUERY_FIELDS[field].kind;
+    if (kind === "number") {
+      if (operator.text === "~" || operator.text === "!~") {
+        throw new TraceQueryError(
+          `"${operator.text}" does not apply to the number field "${field}"`,
+          operator.start,
+        );
+      }
+      if (value.kind !== "word" || Number.isNaN(parseNumber(value.text))) {
+        throw new TraceQueryError(
+          `"${field}" compares with numbers, not "${value.text}"`,
+          value.start,
+        );
+      }
+    } else if (/[<>]/.test(operator.text)) {
+      throw new TraceQueryError(
+        `"${operator.text}" only applies to value, gas, depth and index`,
+        operator.start,
+      );
+    }
+
+    return {
+      kind: "compare",
+      field,
+      operator: operator.text as TraceQueryOperator,
+      value: value.text,
+    };
+  }
+}
+
+/**
+ * A small filter language for call frames, e.g.
+ * `to == 0x… and selector == transfer and depth > 2 and (error or value > 0)`.
+ * Views map their rows to `TraceQueryRecord`s and filter with the compiled
+ * predicate.
+ */
+export class TraceQuery {
+  static parse(source: string): TraceQueryNode | null {
+    const tokens = tokenize(source);
+    return tokens.length > 0 ? new Parser(tokens, source.length).parse() : null;
+  }
+
+  static compile(source: string): TraceQueryPredicate {
+    const node = this.parse(source);
+    return node ? (record) => this.evaluate(node, record) : () => true;
+  }
+
+  // For inputs: a half-typed filter keeps every row and reports the error.
+  static tryCompile(source: string): {
+    predicate: TraceQueryPredicate;
+    error: TraceQueryError | null;
+  } {
+    try {
+      return { predicate: this.compile(source), error: null };
+    } catch (error) {
+      if (!(error instanceof TraceQueryError)) throw error;
+      return { predicate: () => true, error };
+    }
+  }
+
+  static evaluate(node: TraceQueryNode, record: TraceQueryRecord): boolean {
+    switch (node.kind) {
+      case "and":
+        return (
+          this.evaluate(node.left, record) && this.evaluate(node.right, record)
+        );
+      case "or":
+        return (
+          this.evaluate(node.left, record) || this.evaluate(node.right, record)
+        );
+      case "not":
+        return !this.evaluate(node.operand, record);
+      case "field": {
+        const value = this.fieldValue(record, node.field);
+        return typeof value === "number" ? value !== 0 : value !== "";
+      }
+      case "compare":
+        return this.compare(record, node.field, node.operator, node.value);
+    }
+  }
+
+  static fromProcessedAction(action: ProcessedTraceAction): TraceQueryRecord {
+    return {
+      type: action.type,
+      from: action.from,
+      to: action.to,
+      selector: selectorOf(action.input),
+      function:
+        action.function && action.function !== "N/A"
+          ? bareName(action.function)
+          : undefined,
+      value: action.valueEth,
+      gas: action.gasUsed,
+      depth: action.depth,
+      index: action.index,
+      error: action.error,
+    };
+  }
+
+  static fromCallTraceData(
+    call: CallTraceData,
+    index: number,
+  ): TraceQueryRecord {
+    return {
+      type: call.type,
+      from: call.from,
+      to: call.to,
+      selector: selectorOf(call.input_preview),
+      function: call.function_name,
+      value: call.value_eth,
+      gas: call.gasUsed,
+      depth: call.depth,
+      index,
+      error: call.error,
+    };
+  }
+
+  /**
+   * Completions at the cursor: fields at the start of a condition,
+   * operators after a field, the addresses, selectors and labels found in
+   * `records` after an operator, and `and`/`or` after a condition.
+   */
+  static suggest(
+    source: string,
+    cursor: number,
+    records: TraceQueryRecord[],
+    limit = 12,
+  ): TraceQuerySuggestions {
+    const partial = /[^\s()=!<>~&|]*$/.exec(source.slice(0, cursor))![0];
+    const from = cursor - partial.length;
+    const empty = { from, to: cursor, items: [] };
+
+    let tokens: Token[];
+    try {
+      tokens = tokenize(source.slice(0, from));
+    } catch {
+      return empty;
+    }
+    const last = tokens[tokens.length - 1];
+    const beforeLast = tokens[tokens.length - 2];
+    const isComparison = (token: Token | undefined) =>
+      token?.kind === "operator" &&
+      COMPARISONS.includes(token.text as TraceQueryOperator);
+    const fieldOf = (token: Token | undefined) =>
+      token?.kind === "word" && isField(token.text.toLowerCase())
+        ? (token.text.toLowerCase() as TraceQueryField)
+        : null;
+
+    let items: TraceQuerySuggestion[];
+    if (isComparison(last) && fieldOf(beforeLast)) {
+      items = this.valueSuggestions(fieldOf(beforeLast)!, records);
+    } else if (
+      last?.kind === "rparen" ||
+      (last && isComparison(beforeLast)) ||
+      (fieldOf(last) && !isComparison(beforeLast))
+    ) {
+      const operators = fieldOf(last)
+        ? COMPARISONS.filter((operator) =>
+            TRACE_QUERY_FIELDS[fieldOf(last)!].kind === "number"
+              ? !operator.includes("~")
+              : !/[<>]/.test(operator),
+          ).map(
+            (operator): TraceQuerySuggestion => ({
+              kind: "operator",
+              label: operator,
+              insert: operator,
+              detail: OPERATOR_HELP[operator],
+            }),
+          )
+        : [];
+      items = [
+        ...operators,
+        ...["and", "or"].map(
+          (keyword): TraceQuerySuggestion => ({
+            kind: "keyword",
+            label: keyword,
+            insert: keyword,
+          }),
+        ),
+      ];
+    } else {
+      items = [
+        ...(Object.keys(TRACE_QUERY_FIELDS) as TraceQueryField[]).map(
+          (field): TraceQuerySuggestion => ({
+            kind: "field",
+            label: field,
+            insert: field,
+            detail: TRACE_QUERY_FIELDS[field].description,
+          }),
+        ),
+        { kind: "keyword", label: "not", insert: "not" },
+      ];
+    }
+
+    const needle = partial.replace(/^["']/, "").toLowerCase();
+    return {
+      from,
+      to: cursor,
+      items: items
+        .filter(
+          (item) =>
+            !needle ||
+            item.insert.replace(/^"/, "").toLowerCase().startsWith(needle) ||
+            (item.kind === "value" &&
+              `${item.label} ${item.detail ?? ""}`
+                .toLowerCase()
+                .includes(needle)),
+        )
+        .slice(0, limit),
+    };
+  }
+
+  private static functionName(record: TraceQueryRecord) {
+    if (record.function) return record.function;
+    if (!record.selector) return "";
+    // Looked up on every evaluation so newly imported ABIs and signatures
+    // apply to the filter without reloading the page.
+    return abiRegistry.lookupFunction(record.selector)?.name ?? "";
+  }
+
+  private static fieldValue(
+    record: TraceQueryRecord,
+    field: TraceQueryField,
+  ): string | number {
+    switch (field) {
+      case "contract":
+        return label(record.to);
+      case "function":
+        return this.functionName(record);
+      case "error":
+        return record.error ?? "";
+      default:
+        return record[field];
+    }
+  }
+
+  private static compare(
+    record: TraceQueryRecord,
+    field: TraceQueryField,
+    operator: TraceQueryOperator,
+    value: string,
+  ): boolean {
+    const actual = this.fieldValue(record, field);
+    if (typeof actual === "number") {
+      const expected = parseNumber(value);
+      switch (operator) {
+        case "==":
+          return actual === expected;
+        case "!=":
+          return actual !== expected;
+        case ">":
+          return actual > expected;
+        case ">=":
+          return actual >= expected;
+        case "<":
+          return actual < expected;
+        case "<=":
+          return actual <= expected;
+        default:
+          return false;
+      }
+    }
+
+    // Addresses also match their labels and selectors their function
+    // names, so `to == "PYUSD Token"` and `selector == transfer` work.
+    const expected = value.toLowerCase();
+    const kind = TRACE_QUERY_FIELDS[field].kind;
+    const candidates = [actual.toLowerCase()];
+    if (kind === "address") candidates.push(label(actual).toLowerCase());
+    if (kind === "selector") {
+      candidates.push(bareName(this.functionName(record)).toLowerCase());
+    }
+
+    const matches =
+      operator === "==" || operator === "!="
+        ? candidates.some(
+            (candidate) =>
+              candidate !== "" &&
+              candidate ===
+                (kind === "selector" ? bareName(expected) : expected),
+          )
+        : candidates.some((candidate) => candidate.includes(expected));
+    return operator.startsWith("!") ? !matches : matches;
+  }
+
+  private static valueSuggestions(
+    field: TraceQueryField,
+    records: TraceQueryRecord[],
+  ): TraceQuerySuggestion[] {
+    const counts = new Map<string, { count: number; detail?: string }>();
+    const add = (value: string, detail?: string) => {
+      if (!value) return;
+      const entry = counts.get(value);
+      counts.set(value, {
+        count: (entry?.count ?? 0) + 1,
+        detail: entry?.detail || detail,
+      });
+    };
+
+    records.forEach((record) => {
+      switch (TRACE_QUERY_FIELDS[field].kind) {
+        case "address": {
+          const address = field === "from" ? record.from : record.to;
+          if (ADDRESS_PATTERN.test(address)) {
+            add(address.toLowerCase(), label(address) || undefined);
+            add(label(address));
+          }
+          break;
+        }
+        case "selector":
+          add(record.selector, this.functionName(record) || undefined);
+          add(this.functionName(record));
+          break;
+        case "text":
+          add(String(this.fieldValue(record, field)));
+          break;
+      }
+    });
+    if (field === "to" || field === "contract") {
+      Object.values(KNOWN_CONTRACTS).forEach((name) => {
+        if (!counts.has(name)) counts.set(name, { count: 0 });
+      });
+    }
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1].count - a[1].count)
+      .map(([value, { detail }]) => ({
+        kind: "value",
+        label: value,
+        insert: quote(value),
+        detail,
+      }));
+  }
+}
@@ -1,4 +1,4 @@
-import { blockchainService } from "../blockchainService";
+import { traceStrategyService } from "@/lib/tracing";
 import {
   extractContractInteractions,
   extractPyusdTransfers,
@@ -44,7 +44,8 @@ export class TraceTransactionService {
 
     try {
       console.log(`Fetching trace data for transaction: ${txHash}`);
-      const rawTraceData = await blockchainService.traceTransactionRaw(txHash);
+      const rawTraceData =
+        await traceStrategyService.traceTransactionParity(txHash);
 
       if (!rawTraceData || !Array.isArray(rawTraceData)) {
         throw new Error("Invalid trace data received from RPC");
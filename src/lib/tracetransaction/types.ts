@@ -1,3 +1,5 @@
+import type { NetworkId } from "@/lib/networks";
+
 export interface RawTraceAction {
   action: {
     from: string;
@@ -35,9 +37,14 @@ export interface ProcessedTraceAction {
   category: string;
   parameters: FunctionParameters;
   error?: string;
+  // Raw output of a failed call, kept for revert decoding.
+  revertData?: string;
   gasEfficiency?: GasEfficiency;
   inputPreview: string;
   outputPreview: string;
+  // Full calldata and return data, kept for call-tree diffs.
+  input: string;
+  output: string;
 }
 
 export interface FunctionParameters {
@@ -498,7 +505,7 @@ export interface NetworkInfo {
   blockExplorer: string;
 }
 
-export type NetworkType = "mainnet" | "sepolia";
+export type NetworkType = NetworkId;
 
 export interface TraceAnalysisResultsProps {
   results: TraceAnalysisResults;
@@ -621,6 +628,111 @@ export interface TransactionSummary {
   hasErrors: boolean;
 }
 
+export type CallDiffStatus = "unchanged" | "changed" | "added" | "removed";
+
+export interface CallFieldDifference {
+  field: string;
+  transaction1: string;
+  transaction2: string;
+}
+
+export interface CallTreeDiffNode {
+  id: string;
+  status: CallDiffStatus;
+  depth: number;
+  // The call in each transaction; added calls have no call1 and removed
+  // calls no call2.
+  call1?: ProcessedTraceAction;
+  call2?: ProcessedTraceAction;
+  gasDelta: number;
+  differences: CallFieldDifference[];
+  children: CallTreeDiffNode[];
+}
+
+export interface TransactionLogEntry {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export interface ComparisonLogs {
+  transaction1: TransactionLogEntry[];
+  transaction2: TransactionLogEntry[];
+}
+
+export interface EventDiffEntry {
+  status: CallDiffStatus;
+  name: string;
+  address: string;
+  log1?: TransactionLogEntry;
+  log2?: TransactionLogEntry;
+  differences: CallFieldDifference[];
+}
+
+export interface CallTreeDiff {
+  roots: CallTreeDiffNode[];
+  counts: Record<CallDiffStatus, number>;
+  // Only set when the receipts of both transactions were loaded.
+  events?: EventDiffEntry[];
+}
+
+export type DexProtocol = "uniswap-v2" | "uniswap-v3" | "curve" | "balancer-v2";
+
+export interface LogTokenTransfer {
+  logIndex: number;
+  token: string;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+export interface DexSwap {
+  transactionHash: string | null;
+  logIndex: number;
+  protocol: DexProtocol;
+  // The contract that emitted the event; for Balancer this is the Vault and
+  // the pool is `poolId`.
+  pool: string;
+  poolId: string | null;
+  sender: string | null;
+  recipient: string | null;
+  // Token0 in and token1 out, for Uniswap style pools.
+  zeroForOne: boolean | null;
+  // Curve coin indices.
+  coinIn: number | null;
+  coinOut: number | null;
+  tokenIn: string | null;
+  tokenOut: string | null;
+  // Raw token units.
+  amountIn: bigint;
+  amountOut: bigint;
+  // Uniswap V3 pool price after the swap.
+  sqrtPriceX96After: bigint | null;
+}
+
+export interface DexTokenInfo {
+  address: string;
+  symbol: string | null;
+  decimals: number | null;
+}
+
+export interface PricedDexSwap extends DexSwap {
+  // Position among the swaps of its transaction.
+  hop: number;
+  tokenInInfo: DexTokenInfo | null;
+  tokenOutInfo: DexTokenInfo | null;
+  // Prices are tokenOut per tokenIn, in whole tokens when both decimals
+  // are known and in raw units otherwise.
+  effectivePrice: number | null;
+  spotPriceBefore: number | null;
+  spotPriceAfter: number | null;
+  // Percent the swap moved the pool price.
+  priceImpact: number | null;
+  // Percent the execution price fell short of the pool price before the
+  // swap, fees included.
+  slippage: number | null;
+}
+
 export interface ComparisonResult {
   transaction1: {
     hash: string;
@@ -635,5 +747,82 @@ export interface ComparisonResult {
   patternComparison: PatternComparison;
   gasComparison: GasComparison;
   securityComparison: SecurityComparison;
+  callTreeDiff: CallTreeDiff;
   recommendations: string[];
 }
+
+export type TraceQueryField =
+  | "type"
+  | "from"
+  | "to"
+  | "contract"
+  | "selector"
+  | "function"
+  | "value"
+  | "gas"
+  | "depth"
+  | "index"
+  | "error";
+
+export type TraceQueryOperator =
+  | "=="
+  | "!="
+  | ">"
+  | ">="
+  | "<"
+  | "<="
+  | "~"
+  | "!~";
+
+export type TraceQueryNode =
+  | { kind: "and" | "or"; left: TraceQueryNode; right: TraceQueryNode }
+  | { kind: "not"; operand: TraceQueryNode }
+  | { kind: "field"; field: TraceQueryField }
+  | {
+      kind: "compare";
+      field: TraceQueryField;
+      operator: TraceQueryOperator;
+      value: string;
+    };
+
+// One call frame, or one transaction in block tables, as the query
+// language sees it.
+export interface TraceQueryRecord {
+  type: string;
+  from: string;
+  to: string;
+  // 4-byte selector, empty for plain transfers and creations.
+  selector: string;
+  // Decoded function name; looked up from the selector when missing.
+  function?: string;
+  // In ETH.
+  value: number;
+  gas: number;
+  depth: number;
+  index: number;
+  error?: string;
+}
+
+export interface TraceQuerySuggestion {
+  kind: "field" | "operator" | "keyword" | "value";
+  label: string;
+  insert: string;
+  detail?: string;
+}
+
+export interface TraceQuerySuggestions {
+  // Range of the source the chosen suggestion replaces.
+  from: number;
+  to: number;
+  items: TraceQuerySuggestion[];
+}
+
+export class TraceQueryError extends Error {
+  public position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "TraceQueryError";
+    this.position = position;
+  }
+}
@@ -0,0 +1,37 @@
+import { CLIENT_VERSION_PATTERNS } from "./constants";
+import type { ClientInfo } from "./types";
+
+/**
+ * Parses a web3_clientVersion string such as
+ * "erigon/2.55.1/linux-amd64/go1.20.7" or "HardhatNetwork/2.19.1/@ethereumjs/vm/6.0.0".
+ */
+export function parseClientVersion(raw: string | null | undefined): ClientInfo {
+  if (!raw || typeof raw !== "string") {
+    return { client: "unknown", version: null, raw: raw ?? null };
+  }
+
+  const [name = "", version] = raw.trim().split("/");
+  const match = CLIENT_VERSION_PATTERNS.find(([pattern]) => pattern.test(name));
+
+  return {
+    client: match ? match[1] : "unknown",
+    version: version ? version.replace(/^v/i, "").split("-")[0] : null,
+    raw,
+  };
+}
+
+/**
+ * Asks a node for its client version. Nodes behind providers that hide
+ * web3_clientVersion are reported as unknown rather than failing.
+ */
+export async function detectExecutionClient(
+  call: (method: string, params: unknown[]) => Promise<unknown>,
+): Promise<ClientInfo> {
+  try {
+    const raw = await call("web3_clientVersion", []);
+    return parseClientVersion(typeof raw === "string" ? raw : null);
+  } catch (error) {
+    console.warn("web3_clientVersion failed, client unknown:", error);
+    return { client: "unknown", version: null, raw: null };
+  }
+}
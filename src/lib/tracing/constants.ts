@@ -0,0 +1,131 @@
+import type { RpcCapability } from "@/lib/capabilities";
+import type {
+  ClientProfile,
+  ExecutionClient,
+  TraceFamily,
+  TraceKind,
+} from "./types";
+
+export const CLIENT_PROFILES: Record<ExecutionClient, ClientProfile> = {
+  geth: {
+    label: "Geth",
+    families: ["debug"],
+    nativeTracers: true,
+    structLogStyle: "enable",
+    tracerAliases: { callTracer: ["callTracerLegacy"] },
+    quirks: [
+      "No trace_* namespace; block and Parity-style traces are derived from callTracer",
+      "Releases before 1.11 only ship the JavaScript callTracerLegacy",
+    ],
+  },
+  erigon: {
+    label: "Erigon",
+    families: ["parity", "debug"],
+    nativeTracers: true,
+    structLogStyle: "disable",
+    tracerAliases: {},
+    quirks: [
+      "trace_* is served from Erigon's own index and is faster than debug_*",
+      "structLogs include memory unless disableMemory is set",
+    ],
+  },
+  reth: {
+    label: "Reth",
+    families: ["debug", "parity"],
+    nativeTracers: true,
+    structLogStyle: "enable",
+    tracerAliases: {},
+    quirks: [],
+  },
+  nethermind: {
+    label: "Nethermind",
+    families: ["parity", "debug"],
+    nativeTracers: true,
+    structLogStyle: "disable",
+    tracerAliases: {},
+    quirks: [
+      "Native callTracer is only available in recent releases; trace_* is preferred",
+      "structLog stack values are zero-padded and may lack the 0x prefix",
+    ],
+  },
+  besu: {
+    label: "Besu",
+    families: ["parity", "debug"],
+    nativeTracers: true,
+    structLogStyle: "disable",
+    tracerAliases: {},
+    quirks: [
+      "callTracer support arrived late; trace_* is preferred",
+      "structLog stack values are zero-padded to 32 bytes",
+    ],
+  },
+  anvil: {
+    label: "Anvil",
+    families: ["debug", "parity"],
+    nativeTracers: true,
+    structLogStyle: "enable",
+    tracerAliases: {},
+    quirks: [],
+  },
+  hardhat: {
+    label: "Hardhat Network",
+    families: ["debug"],
+    nativeTracers: false,
+    structLogStyle: "disable",
+    tracerAliases: {},
+    quirks: [
+      "Only the default structLog tracer is available; call trees are unavailable",
+      "No trace_* namespace",
+    ],
+  },
+  unknown: {
+    label: "Unknown client",
+    families: ["debug", "parity"],
+    nativeTracers: true,
+    structLogStyle: "both",
+    tracerAliases: {},
+    quirks: [],
+  },
+};
+
+// Matched against the first segment of web3_clientVersion,
+// e.g. "Geth/v1.13.5-stable/linux-amd64/go1.21.4".
+export const CLIENT_VERSION_PATTERNS: [RegExp, ExecutionClient][] = [
+  [/^geth\b/i, "geth"],
+  [/^erigon\b/i, "erigon"],
+  [/^reth\b/i, "reth"],
+  [/^nethermind\b/i, "nethermind"],
+  [/^besu\b/i, "besu"],
+  [/^anvil\b/i, "anvil"],
+  [/^hardhat/i, "hardhat"],
+];
+
+// Capability that has to be available for a family to serve a kind of trace.
+export const TRACE_KIND_CAPABILITIES: Record<
+  TraceKind,
+  Partial<Record<TraceFamily, RpcCapability>>
+> = {
+  transactionCalls: {
+    debug: "debug_traceTransaction:callTracer",
+    parity: "trace_transaction",
+  },
+  transactionParity: {
+    debug: "debug_traceTransaction:callTracer",
+    parity: "trace_transaction",
+  },
+  transactionStructLog: {
+    debug: "debug_traceTransaction",
+  },
+  blockCalls: {
+    debug: "debug_traceBlockByNumber",
+    parity: "trace_block",
+  },
+  blockParity: {
+    debug: "debug_traceBlockByNumber",
+    parity: "trace_block",
+  },
+  transactionStateDiff: {
+    debug: "debug_traceTransaction:prestateTracer",
+    parity: "trace_replayTransaction",
+  },
+};
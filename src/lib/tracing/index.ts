@@ -0,0 +1,13 @@
+export { TraceStrategyService, traceStrategyService } from "./traceStrategy";
+export { parseClientVersion, detectExecutionClient } from "./clientDetection";
+export {
+  flattenCallFrame,
+  nestParityTraces,
+  groupParityTracesByTransaction,
+  normalizeStructLogTrace,
+  prestateDiffToStateDiff,
+  normalizeParityStateDiff,
+} from "./traceConverters";
+
+export * from "./types";
+export * from "./constants";
@@ -0,0 +1,388 @@
+import type { StateDiffResult } from "@/lib/replaytransactions/types";
+import type {
+  BlockCallTrace,
+  CallFrame,
+  ParityTrace,
+  PrestateAccount,
+  PrestateDiff,
+  StructLogStep,
+  StructLogTrace,
+} from "./types";
+
+interface ParityTraceContext {
+  transactionHash?: string;
+  transactionPosition?: number;
+  blockHash?: string;
+  blockNumber?: number;
+}
+
+const CREATE_TYPES = ["CREATE", "CREATE2"];
+const SELFDESTRUCT_TYPES = ["SELFDESTRUCT", "SUICIDE"];
+
+/**
+ * Converts a callTracer frame into the flat list trace_transaction returns,
+ * numbering frames with Parity's traceAddress scheme.
+ */
+export function flattenCallFrame(
+  frame: CallFrame,
+  context: ParityTraceContext = {},
+  traceAddress: number[] = [],
+): ParityTrace[] {
+  const type = (frame.type || "CALL").toUpperCase();
+  const calls = frame.calls || [];
+  const trace: ParityTrace = {
+    ...toParityAction(frame, type),
+    subtraces: calls.length,
+    traceAddress,
+    ...context,
+  };
+  if (frame.error) {
+    trace.error = frame.error;
+  }
+
+  return [
+    trace,
+    ...calls.flatMap((call, index) =>
+      flattenCallFrame(call, context, [...traceAddress, index]),
+    ),
+  ];
+}
+
+function toParityAction(
+  frame: CallFrame,
+  type: string,
+): Pick<ParityTrace, "action" | "result" | "type"> {
+  const value = frame.value || "0x0";
+
+  if (CREATE_TYPES.includes(type)) {
+    return {
+      type: "create",
+      action: { from: frame.from, value, gas: frame.gas, init: frame.input },
+      result: frame.error
+        ? null
+        : { gasUsed: frame.gasUsed, address: frame.to, code: frame.output },
+    };
+  }
+
+  if (SELFDESTRUCT_TYPES.includes(type)) {
+    return {
+      type: "suicide",
+      action: {
+        from: frame.from,
+        address: frame.from,
+        refundAddress: frame.to,
+        balance: value,
+      },
+      result: null,
+    };
+  }
+
+  return {
+    type: "call",
+    action: {
+      callType: type.toLowerCase(),
+      from: frame.from,
+      to: frame.to,
+      value,
+      gas: frame.gas,
+      input: frame.input,
+    },
+    // A reverted call keeps its output, which carries the revert data.
+    result:
+      frame.error && !frame.output
+        ? null
+        : { gasUsed: frame.gasUsed, output: frame.output },
+  };
+}
+
+/**
+ * Rebuilds the callTracer tree of one transaction from its trace_transaction
+ * entries. Entries may arrive in any order.
+ */
+export function nestParityTraces(traces: ParityTrace[]): CallFrame | null {
+  const sorted = [...traces].sort((a, b) =>
+    compareTraceAddress(a.traceAddress || [], b.traceAddress || []),
+  );
+  const frames = new Map<string, CallFrame>();
+  let root: CallFrame | null = null;
+
+  for (const trace of sorted) {
+    const address = trace.traceAddress || [];
+    const frame = toCallFrame(trace);
+    frames.set(address.join(","), frame);
+
+    if (address.length === 0) {
+      root = frame;
+      continue;
+    }
+
+    const parent = frames.get(address.slice(0, -1).join(","));
+    if (parent) {
+      parent.calls = [...(parent.calls || []), frame];
+    }
+  }
+
+  return root;
+}
+
+function toCallFrame(trace: ParityTrace): CallFrame {
+  const { action, result } = trace;
+  const frame: CallFrame =
+    trace.type === "create"
+      ? {
+          type: "CREATE",
+          from: action.from,
+          to: result?.address,
+          value: action.value,
+          gas: action.gas,
+          gasUsed: result?.gasUsed,
+          input: action.init,
+          output: result?.code,
+        }
+      : trace.type === "suicide"
+        ? {
+            type: "SELFDESTRUCT",
+            from: action.address || action.from,
+            to: action.refundAddress,
+            value: action.balance,
+          }
+        : {
+            type: (action.callType || "call").toUpperCase(),
+            from: action.from,
+            to: action.to,
+            value: action.value,
+            gas: action.gas,
+            gasUsed: result?.gasUsed,
+            input: action.input,
+            output: result?.output,
+          };
+
+  if (trace.error) {
+    frame.error = trace.error;
+  }
+  return frame;
+}
+
+function compareTraceAddress(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Splits trace_block output into per-transaction call trees, dropping the
+ * block and uncle reward entries that belong to no transaction.
+ */
+export function groupParityTracesByTransaction(
+  traces: ParityTrace[],
+): BlockCallTrace[] {
+  const byTransaction = new Map<string, ParityTrace[]>();
+  const positions = new Map<string, number>();
+
+  for (const trace of traces) {
+    if (!trace.transactionHash) continue;
+    const list = byTransaction.get(trace.transactionHash) || [];
+    list.push(trace);
+    byTransaction.set(trace.transactionHash, list);
+    positions.set(trace.transactionHash, trace.transactionPosition ?? 0);
+  }
+
+  return Array.from(byTransaction.entries())
+    .sort(([a], [b]) => positions.get(a)! - positions.get(b)!)
+    .map(([txHash, entries]) => {
+      const result = nestParityTraces(entries);
+      return result
+        ? { txHash, result }
+        : {
+            txHash,
+            result: { type: "CALL", from: "" },
+            error: "Trace has no top-level call",
+          };
+    });
+}
+
+/**
+ * Brings structLog output from any client into Geth's shape: numeric
+ * gas fields, 0x-prefixed minimal stack words and unprefixed 32-byte
+ * memory and storage words.
+ */
+export function normalizeStructLogTrace(raw: unknown): StructLogTrace {
+  const trace = (raw || {}) as Record<string, unknown>;
+  const logs = (trace.structLogs ??
+    trace.structLog ??
+    trace.entries ??
+    []) as Record<string, unknown>[];
+
+  return {
+    gas: toNumber(trace.gas),
+    failed: Boolean(trace.failed),
+    returnValue: typeof trace.returnValue === "string" ? trace.returnValue : "",
+    structLogs: Array.isArray(logs) ? logs.map(normalizeStructLogStep) : [],
+  };
+}
+
+type StateDiffField = "balance" | "nonce" | "code";
+
+const ZERO_WORD = `0x${"0".repeat(64)}`;
+const EMPTY_VALUES: Record<StateDiffField, string> = {
+  balance: "0x0",
+  nonce: "0x0",
+  code: "0x",
+};
+
+const toStorageWord = (word: string) => `0x${toWord(word).toLowerCase()}`;
+
+const changed = (from: string, to: string, numeric: boolean) =>
+  numeric
+    ? BigInt(from) !== BigInt(to)
+    : from.toLowerCase() !== to.toLowerCase();
+
+/**
+ * Converts prestateTracer output in diffMode into the Parity stateDiff
+ * shape. Geth leaves unchanged fields out of `post`, drops storage slots
+ * that were zeroed and omits `post` entirely for destroyed accounts.
+ */
+export function prestateDiffToStateDiff(diff: PrestateDiff): StateDiffResult {
+  const result: StateDiffResult = {};
+  const addresses = new Set([
+    ...Object.keys(diff.pre ?? {}),
+    ...Object.keys(diff.post ?? {}),
+  ]);
+
+  for (const address of addresses) {
+    const pre = diff.pre?.[address];
+    const post = diff.post?.[address];
+    const destroyed = !!pre && !post;
+    const entry: StateDiffResult[string] = {};
+
+    const value = (
+      account: PrestateAccount | undefined,
+      field: StateDiffField,
+    ) => {
+      const raw = account?.[field];
+      if (raw === undefined) return undefined;
+      return typeof raw === "number" ? `0x${raw.toString(16)}` : raw;
+    };
+
+    for (const field of ["balance", "nonce", "code"] as const) {
+      const from = value(pre, field) ?? EMPTY_VALUES[field];
+      const to = destroyed ? EMPTY_VALUES[field] : (value(post, field) ?? from);
+      if (changed(from, to, field !== "code")) {
+        entry[field] = { "*": { from, to } };
+      }
+    }
+
+    const slots = new Set([
+      ...Object.keys(pre?.storage ?? {}),
+      ...Object.keys(post?.storage ?? {}),
+    ]);
+    const storage: NonNullable<StateDiffResult[string]["storage"]> = {};
+    for (const slot of slots) {
+      const from = toStorageWord(pre?.storage?.[slot] ?? ZERO_WORD);
+      const to = toStorageWord(post?.storage?.[slot] ?? ZERO_WORD);
+      if (from !== to) storage[toStorageWord(slot)] = { "*": { from, to } };
+    }
+    if (Object.keys(storage).length > 0) entry.storage = storage;
+
+    if (Object.keys(entry).length > 0) result[address.toLowerCase()] = entry;
+  }
+
+  return result;
+}
+
+type ParityDiffValue =
+  | "="
+  | { "*": { from: string; to: string } }
+  | { "+": string }
+  | { "-": string };
+
+/**
+ * Rewrites the `+` (created) and `-` (removed) markers of
+ * trace_replayTransaction state diffs as from/to changes and drops
+ * unchanged `=` fields.
+ */
+export function normalizeParityStateDiff(raw: unknown): StateDiffResult {
+  const result: StateDiffResult = {};
+  const toChange = (value: ParityDiffValue | undefined, empty: string) => {
+    if (!value || value === "=") return undefined;
+    if ("*" in value) return value;
+    if ("+" in value) return { "*": { from: empty, to: value["+"] } };
+    return { "*": { from: value["-"], to: empty } };
+  };
+
+  for (const [address, account] of Object.entries(
+    (raw || {}) as Record<string, Record<string, unknown>>,
+  )) {
+    const entry: StateDiffResult[string] = {};
+    for (const field of ["balance", "nonce", "code"] as const) {
+      const change = toChange(
+        account[field] as ParityDiffValue | undefined,
+        EMPTY_VALUES[field],
+      );
+      if (change) entry[field] = change;
+    }
+
+    const storage: NonNullable<StateDiffResult[string]["storage"]> = {};
+    for (const [slot, value] of Object.entries(
+      (account.storage || {}) as Record<string, ParityDiffValue>,
+    )) {
+      const change = toChange(value, ZERO_WORD);
+      if (change) storage[slot] = change;
+    }
+    if (Object.keys(storage).length > 0) entry.storage = storage;
+
+    if (Object.keys(entry).length > 0) result[address] = entry;
+  }
+
+  return result;
+}
+
+function normalizeStructLogStep(step: Record<string, unknown>): StructLogStep {
+  const normalized: StructLogStep = {
+    pc: toNumber(step.pc),
+    op: String(step.op ?? ""),
+    gas: toNumber(step.gas),
+    gasCost: toNumber(step.gasCost),
+    depth: toNumber(step.depth),
+  };
+
+  if (Array.isArray(step.stack)) {
+    normalized.stack = step.stack.map((word) => toStackWord(String(word)));
+  }
+  if (Array.isArray(step.memory)) {
+    normalized.memory = step.memory.map((word) => toWord(String(word)));
+  }
+  if (step.storage && typeof step.storage === "object") {
+    normalized.storage = Object.fromEntries(
+      Object.entries(step.storage as Record<string, unknown>).map(
+        ([slot, value]) => [toWord(slot), toWord(String(value))],
+      ),
+    );
+  }
+  if (step.refund !== undefined) {
+    normalized.refund = toNumber(step.refund);
+  }
+  if (typeof step.error === "string" && step.error) {
+    normalized.error = step.error;
+  }
+
+  return normalized;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value) {
+    return value.startsWith("0x") ? parseInt(value, 16) : Number(value);
+  }
+  return 0;
+}
+
+function toStackWord(word: string): string {
+  const digits = word.replace(/^0x/i, "").replace(/^0+/, "");
+  return `0x${digits || "0"}`;
+}
+
+function toWord(word: string): string {
+  return word.replace(/^0x/i, "").padStart(64, "0");
+}
@@ -0,0 +1,359 @@
+import { blockchainService } from "@/lib/blockchainService";
+import { classifyProbeError, rpcCapabilityService } from "@/lib/capabilities";
+import type { StateDiffResult } from "@/lib/replaytransactions/types";
+import { signatureDatabase } from "@/lib/signatures";
+import { detectExecutionClient } from "./clientDetection";
+import { CLIENT_PROFILES, TRACE_KIND_CAPABILITIES } from "./constants";
+import {
+  flattenCallFrame,
+  groupParityTracesByTransaction,
+  nestParityTraces,
+  normalizeParityStateDiff,
+  normalizeStructLogTrace,
+  prestateDiffToStateDiff,
+} from "./traceConverters";
+import {
+  TraceStrategyError,
+  type BlockCallTrace,
+  type CallFrame,
+  type ClientInfo,
+  type ClientProfile,
+  type ExecutionClient,
+  type ParityTrace,
+  type PrestateDiff,
+  type StructLogOptions,
+  type StructLogTrace,
+  type TraceFamily,
+  type TraceKind,
+  type TracePlan,
+} from "./types";
+
+type FamilyHandlers<T> = Partial<Record<TraceFamily, () => Promise<T>>>;
+
+const ALL_FAMILIES: TraceFamily[] = ["debug", "parity"];
+
+/**
+ * Picks the tracing method for the connected node. The client reported by
+ * web3_clientVersion decides which family is tried first; probed
+ * capabilities remove families the endpoint cannot serve and add ones a
+ * hosted provider exposes on top of the client. Results are converted so
+ * callers get the same shape whichever method answered.
+ */
+export class TraceStrategyService {
+  private clients = new Map<string, Promise<ClientInfo>>();
+
+  async getClientInfo(refresh: boolean = false): Promise<ClientInfo> {
+    if (!blockchainService.isConnected()) {
+      await blockchainService.connect();
+    }
+
+    const endpoint = blockchainService.getRpcPool()?.getActiveEndpoint();
+    const url = endpoint?.url ?? blockchainService.getNetworkConfig()?.rpcUrl;
+    if (!url) {
+      return { client: "unknown", version: null, raw: null };
+    }
+
+    if (refresh) this.clients.delete(url);
+
+    let detection = this.clients.get(url);
+    if (!detection) {
+      detection = detectExecutionClient((method, params) =>
+        endpoint
+          ? endpoint.request(method, params)
+          : blockchainService.makeRPCCall(method, params),
+      );
+      this.clients.set(url, detection);
+    }
+    return detection;
+  }
+
+  getProfile(client: ExecutionClient): ClientProfile {
+    return CLIENT_PROFILES[client];
+  }
+
+  async getPlan(kind: TraceKind): Promise<TracePlan> {
+    const client = await this.getClientInfo();
+    const profile = this.getProfile(client.client);
+    const capabilities = TRACE_KIND_CAPABILITIES[kind];
+
+    const supportOf = (family: TraceFamily) => {
+      const capability = capabilities[family];
+      if (!capability) return false;
+      if (
+        family === "debug" &&
+        kind !== "transactionStructLog" &&
+        !profile.nativeTracers
+      ) {
+        return false;
+      }
+      return rpcCapabilityService.isSupported(capability);
+    };
+
+    const candidates = [
+      ...profile.families,
+      ...ALL_FAMILIES.filter(
+        (family) =>
+          !profile.families.includes(family) && supportOf(family) === true,
+      ),
+    ];
+
+    // Probed support outranks the client's preference; untested families
+    // are kept as a fallback.
+    const families = candidates
+      .filter((family) => supportOf(family) !== false)
+      .sort(
+        (a, b) => Number(supportOf(b) === true) - Number(supportOf(a) === true),
+      );
+
+    return { client, kind, families };
+  }
+
+  async traceTransactionCalls(txHash: string): Promise<CallFrame> {
+    return this.run<CallFrame>("transactionCalls", {
+      debug: () =>
+        this.callWithTracer("debug_traceTransaction", txHash, "callTracer"),
+      parity: async () => {
+        const traces = await blockchainService.makeRPCCall<ParityTrace[]>(
+          "trace_transaction",
+          [txHash],
+        );
+        const root = nestParityTraces(traces || []);
+        if (!root) {
+          throw new Error(`trace_transaction returned no calls for ${txHash}`);
+        }
+        return root;
+      },
+    });
+  }
+
+  async traceTransactionParity(txHash: string): Promise<ParityTrace[]> {
+    return this.run<ParityTrace[]>("transactionParity", {
+      parity: () =>
+        blockchainService.makeRPCCall<ParityTrace[]>("trace_transaction", [
+          txHash,
+        ]),
+      debug: async () => {
+        const frame = await this.callWithTracer<CallFrame>(
+          "debug_traceTransaction",
+          txHash,
+          "callTracer",
+        );
+        return flattenCallFrame(frame, { transactionHash: txHash });
+      },
+    });
+  }
+
+  async traceTransactionStructLog(
+    txHash: string,
+    options: StructLogOptions = {},
+  ): Promise<StructLogTrace> {
+    const { client } = await this.getClientInfo();
+    const config = this.getStructLogConfig(client, options);
+
+    return this.run<StructLogTrace>("transactionStructLog", {
+      debug: async () =>
+        normalizeStructLogTrace(
+          await blockchainService.makeRPCCall("debug_traceTransaction", [
+            txHash,
+            config,
+          ]),
+        ),
+    });
+  }
+
+  /**
+   * Account changes made by a transaction, from prestateTracer in diffMode
+   * or trace_replayTransaction, in Parity's stateDiff shape.
+   */
+  async traceTransactionStateDiff(txHash: string): Promise<StateDiffResult> {
+    return this.run<StateDiffResult>("transactionStateDiff", {
+      debug: async () =>
+        prestateDiffToStateDiff(
+          await this.callWithTracer<PrestateDiff>(
+            "debug_traceTransaction",
+            txHash,
+            "prestateTracer",
+            { diffMode: true },
+          ),
+        ),
+      parity: async () => {
+        const replay = await blockchainService.makeRPCCall<{
+          stateDiff?: unknown;
+        }>("trace_replayTransaction", [txHash, ["stateDiff"]]);
+        return normalizeParityStateDiff(replay?.stateDiff);
+      },
+    });
+  }
+
+  /**
+   * `tracerConfig` is passed to callTracer; the trace_block fallback cannot
+   * honour options such as `withLog`.
+   */
+  async traceBlockCalls(
+    blockIdentifier: string | number,
+    tracerConfig?: Record<string, unknown>,
+  ): Promise<BlockCallTrace[]> {
+    return this.run<BlockCallTrace[]>("blockCalls", {
+      debug: async () => {
+        const blockId =
+          await blockchainService.resolveBlockIdentifier(blockIdentifier);
+        const items = await this.callWithTracer<BlockCallTrace[]>(
+          "debug_traceBlockByNumber",
+          blockId,
+          "callTracer",
+          tracerConfig,
+        );
+        return this.withTransactionHashes(items, blockId);
+      },
+      parity: async () =>
+        groupParityTracesByTransaction(
+          await blockchainService.traceBlock(blockIdentifier),
+        ),
+    });
+  }
+
+  async traceBlockParity(
+    blockIdentifier: string | number,
+  ): Promise<ParityTrace[]> {
+    return this.run<ParityTrace[]>("blockParity", {
+      parity: () => blockchainService.traceBlock(blockIdentifier),
+      debug: async () => {
+        const blockId =
+          await blockchainService.resolveBlockIdentifier(blockIdentifier);
+        const block = await blockchainService.getBlock(blockId, false);
+        const items = await this.callWithTracer<BlockCallTrace[]>(
+          "debug_traceBlockByNumber",
+          blockId,
+          "callTracer",
+        );
+
+        return items.flatMap((item, index) =>
+          item.result
+            ? flattenCallFrame(item.result, {
+                transactionHash: item.txHash || block?.transactions[index],
+                transactionPosition: index,
+                blockHash: block?.hash ?? undefined,
+                blockNumber: block?.number,
+              })
+            : [],
+        );
+      },
+    });
+  }
+
+  clearCache(): void {
+    this.clients.clear();
+  }
+
+  private async run<T>(
+    kind: TraceKind,
+    handlers: FamilyHandlers<T>,
+  ): Promise<T> {
+    const plan = await this.getPlan(kind);
+    const profile = this.getProfile(plan.client.client);
+    const attempts: string[] = [];
+
+    for (const family of plan.families) {
+      const handler = handlers[family];
+      if (!handler) continue;
+
+      try {
+        const result = await handler();
+        // Decoders look selectors up synchronously once the trace is back.
+        if (
+          kind !== "transactionStructLog" &&
+          kind !== "transactionStateDiff"
+        ) {
+          await signatureDatabase.prefetchFrom(result);
+        }
+        return result;
+      } catch (error) {
+        if (classifyProbeError(error).status !== "unsupported") throw error;
+
+        const message = error instanceof Error ? error.message : String(error);
+        attempts.push(`${family}: ${message}`);
+        console.warn(
+          `${family} tracing is not available on this ${profile.label} node, trying the next method:`,
+          message,
+        );
+      }
+    }
+
+    throw new TraceStrategyError(
+      `None of the tracing methods for this request are available on the connected ${profile.label} node.${
+        profile.quirks.length > 0
+          ? ` Known limits: ${profile.quirks.join("; ")}.`
+          : ""
+      }`,
+      kind,
+      plan.client.client,
+      attempts,
+    );
+  }
+
+  /**
+   * Runs a named tracer, retrying the client's alternative names for it
+   * when the node does not know the tracer.
+   */
+  private async callWithTracer<T>(
+    method: string,
+    target: string,
+    tracer: string,
+    tracerConfig?: Record<string, unknown>,
+  ): Promise<T> {
+    const { client } = await this.getClientInfo();
+    const names = [
+      tracer,
+      ...(this.getProfile(client).tracerAliases[tracer] || []),
+    ];
+
+    for (let i = 0; ; i++) {
+      try {
+        return await blockchainService.makeRPCCall<T>(method, [
+          target,
+          { tracer: names[i], ...(tracerConfig && { tracerConfig }) },
+        ]);
+      } catch (error) {
+        const isLast = i === names.length - 1;
+        if (isLast || classifyProbeError(error).status !== "unsupported") {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private getStructLogConfig(
+    client: ExecutionClient,
+    { memory = false, stack = true, storage = true }: StructLogOptions,
+  ): Record<string, boolean> {
+    const style = this.getProfile(client).structLogStyle;
+    const enable = { enableMemory: memory, enableReturnData: true };
+    const disable = {
+      disableMemory: !memory,
+      disableStack: !stack,
+      disableStorage: !storage,
+    };
+
+    if (style === "enable") {
+      return { ...enable, disableStack: !stack, disableStorage: !storage };
+    }
+    if (style === "disable") return disable;
+    return { ...enable, ...disable };
+  }
+
+  // Older Geth releases leave txHash out of debug_traceBlockByNumber items.
+  private async withTransactionHashes(
+    items: BlockCallTrace[],
+    blockId: string,
+  ): Promise<BlockCallTrace[]> {
+    if (items.every((item) => item.txHash)) return items;
+
+    const block = await blockchainService.getBlock(blockId, false);
+    return items.map((item, index) => ({
+      ...item,
+      txHash: item.txHash || block?.transactions[index] || `tx_${index}`,
+    }));
+  }
+}
+
+export const traceStrategyService = new TraceStrategyService();
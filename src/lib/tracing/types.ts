@@ -0,0 +1,159 @@
+export type ExecutionClient =
+  | "geth"
+  | "erigon"
+  | "reth"
+  | "nethermind"
+  | "besu"
+  | "anvil"
+  | "hardhat"
+  | "unknown";
+
+export interface ClientInfo {
+  client: ExecutionClient;
+  version: string | null;
+  // Unparsed web3_clientVersion response, null when the node does not answer.
+  raw: string | null;
+}
+
+// Geth-style debug_* tracing or Parity/OpenEthereum-style trace_* tracing.
+export type TraceFamily = "debug" | "parity";
+
+// Which structLog config flags a client honours: Geth's opt-in
+// `enableMemory`/`enableReturnData`, or the older opt-out `disable*` flags.
+export type StructLogConfigStyle = "enable" | "disable" | "both";
+
+export interface ClientProfile {
+  label: string;
+  // Families the client implements, most reliable first.
+  families: TraceFamily[];
+  // Whether debug_trace* accepts named tracers such as callTracer.
+  nativeTracers: boolean;
+  structLogStyle: StructLogConfigStyle;
+  // Names to retry, in order, when the node rejects a tracer as unknown.
+  tracerAliases: Partial<Record<string, string[]>>;
+  quirks: string[];
+}
+
+export type TraceKind =
+  | "transactionCalls"
+  | "transactionParity"
+  | "transactionStructLog"
+  | "blockCalls"
+  | "blockParity"
+  | "transactionStateDiff";
+
+export interface TracePlan {
+  client: ClientInfo;
+  kind: TraceKind;
+  // Families that will be attempted, in order.
+  families: TraceFamily[];
+}
+
+export interface CallFrame {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  gas?: string;
+  gasUsed?: string;
+  input?: string;
+  output?: string;
+  error?: string;
+  revertReason?: string;
+  calls?: CallFrame[];
+}
+
+export interface ParityTraceAction {
+  callType?: string;
+  from: string;
+  to?: string;
+  value?: string;
+  gas?: string;
+  input?: string;
+  init?: string;
+  address?: string;
+  refundAddress?: string;
+  balance?: string;
+}
+
+export interface ParityTrace {
+  action: ParityTraceAction;
+  result?: {
+    gasUsed?: string;
+    output?: string;
+    address?: string;
+    code?: string;
+  } | null;
+  error?: string;
+  type: string;
+  subtraces: number;
+  traceAddress: number[];
+  transactionHash?: string;
+  transactionPosition?: number;
+  blockHash?: string;
+  blockNumber?: number;
+}
+
+// prestateTracer account state; diffMode only lists fields that changed.
+export interface PrestateAccount {
+  balance?: string;
+  nonce?: number;
+  code?: string;
+  storage?: Record<string, string>;
+}
+
+export interface PrestateDiff {
+  pre: Record<string, PrestateAccount>;
+  post: Record<string, PrestateAccount>;
+}
+
+export interface BlockCallTrace {
+  txHash: string;
+  result: CallFrame;
+  error?: string;
+}
+
+export interface StructLogStep {
+  pc: number;
+  op: string;
+  gas: number;
+  gasCost: number;
+  depth: number;
+  stack?: string[];
+  memory?: string[];
+  storage?: Record<string, string>;
+  refund?: number;
+  error?: string;
+}
+
+export interface StructLogTrace {
+  gas: number;
+  failed: boolean;
+  returnValue: string;
+  structLogs: StructLogStep[];
+}
+
+export interface StructLogOptions {
+  memory?: boolean;
+  stack?: boolean;
+  storage?: boolean;
+}
+
+export class TraceStrategyError extends Error {
+  public kind: TraceKind;
+  public client: ExecutionClient;
+  public attempts: string[];
+
+  constructor(
+    message: string,
+    kind: TraceKind,
+    client: ExecutionClient,
+    attempts: string[] = [],
+  ) {
+    super(message);
+    this.name = "TraceStrategyError";
+    this.kind = kind;
+    this.client = client;
+    this.attempts = attempts;
+  }
+}
@@ -1,4 +1,6 @@
 import { ethers } from "ethers";
+import { abiRegistry, formatDecodedArguments, formatDecodedCall } from "./abi";
+import { signatureDatabase } from "./signatures";
 import {
   EVENT_DECODERS,
   formatEther,
@@ -22,7 +24,12 @@ export interface CallTraceData {
   is_pyusd: boolean;
   contract: string;
   function_category: string;
+  function_name?: string;
+  decoded_input?: string;
+  // Other signatures sharing the selector when it was resolved offline
+  function_candidates?: string[];
   error?: string;
+  decoded_error?: string;
   input_preview: string;
   output_preview: string;
 }
@@ -100,10 +107,12 @@ export class TransactionTracer {
   }
 
   async traceTransaction(txHash: string): Promise<any> {
-    return await this.makeRpcRequest("debug_traceTransaction", [
+    const trace = await this.makeRpcRequest("debug_traceTransaction", [
       txHash,
       TRACE_CONFIG.callTracer,
     ]);
+    await signatureDatabase.prefetchFrom(trace);
+    return trace;
   }
 
   private getFunctionDescription(
@@ -161,6 +170,9 @@ export class TransactionTracer {
 
       const inputData = call.input || "0x";
       let functionCategory = "other";
+      const decodedCall = abiRegistry.decodeFunction(inputData, {
+        address: toAddr
+      });
 
       if (inputData !== "0x") {
         const methodSig = inputData.slice(0, 10);
@@ -199,7 +211,15 @@ export class TransactionTracer {
         is_pyusd: contractName.includes("PYUSD"),
         contract: contractName,
         function_category: functionCategory,
+        function_name: decodedCall?.name,
+        decoded_input: decodedCall ? formatDecodedCall(decodedCall) : undefined,
+        function_candidates: decodedCall?.candidates?.length
+          ? decodedCall.candidates
+          : undefined,
         error: call.error,
+        decoded_error: call.error
+          ? abiRegistry.decodeError(call.output, { address: toAddr })?.message
+          : undefined,
         input_preview:
           inputData.length > 10 ? inputData.slice(0, 10) + "..." : inputData,
         output_preview:
@@ -382,6 +402,18 @@ export class TransactionTracer {
               } catch (decodeErr) {
                 logEntry.details = `Event (Decode Error: ${decodeErr})`;
               }
+            } else {
+              const decodedEvent = abiRegistry.decodeEvent(
+                logDetails.topics,
+                logDetails.data,
+                { address: logDetails.address }
+              );
+              if (decodedEvent) {
+                logEntry.event_name = decodedEvent.name;
+                logEntry.details = `${decodedEvent.name}: ${formatDecodedArguments(
+                  decodedEvent.args
+                )}`;
+              }
             }
           }
 
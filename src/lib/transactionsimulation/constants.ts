@@ -164,17 +164,4 @@ export const DEFAULT_GAS_LIMITS = {
   unpause: 45000,
 };
 
-export const SIMULATION_NETWORKS = {
-  mainnet: {
-    name: "Ethereum Mainnet",
-    chainId: 1,
-    rpcUrl: "https://eth-mainnet.g.alchemy.com/v2/demo",
-  },
-  sepolia: {
-    name: "Sepolia Testnet",
-    chainId: 11155111,
-    rpcUrl: "https://eth-sepolia.g.alchemy.com/v2/demo",
-  },
-};
-
 import type { FunctionSignature } from "./types";
@@ -1,10 +1,44 @@
+import {
+  buildRevertPath,
+  decodeRevert,
+  flattenRevertFrames,
+  type AbiDecodeContext,
+  type RevertPathFrame,
+} from "@/lib/abi";
+import { signatureDatabase } from "@/lib/signatures";
+import type { DebugApi } from "../api";
 import { KNOWN_ERROR_CODES } from "../constants";
 import type { SimulationError } from "../types";
 
+type TraceCallParams = Parameters<DebugApi["traceCall"]>[0];
+
 export class ErrorProcessor {
-  static decodeError(errorCode: string): SimulationError {
-    const cleanCode = errorCode.startsWith("0x") ? errorCode : `0x${errorCode}`;
+  static decodeError(
+    errorCode: string,
+    context: AbiDecodeContext = {},
+  ): SimulationError {
+    const revertData = this.extractRevertData(errorCode);
+    if (revertData) {
+      const revert = decodeRevert(revertData, context);
+      // Selectors neither the registry nor the signature database know
+      const message =
+        revert.kind === "unknown"
+          ? (KNOWN_ERROR_CODES[
+              revert.selector as keyof typeof KNOWN_ERROR_CODES
+            ] ?? revert.message)
+          : revert.message;
+      return {
+        code: revert.selector ?? revertData,
+        message: errorCode,
+        decodedMessage: message,
+        severity:
+          revert.kind === "panic" ? "high" : this.getErrorSeverity(message),
+        suggestion: this.getErrorSuggestion(message),
+        revert,
+      };
+    }
 
+    const cleanCode = errorCode.startsWith("0x") ? errorCode : `0x${errorCode}`;
     const knownError =
       KNOWN_ERROR_CODES[cleanCode as keyof typeof KNOWN_ERROR_CODES];
 
@@ -18,17 +52,6 @@ export class ErrorProcessor {
       };
     }
 
-    const revertString = this.tryDecodeRevertString(errorCode);
-    if (revertString) {
-      return {
-        code: cleanCode,
-        message: errorCode,
-        decodedMessage: revertString,
-        severity: "medium",
-        suggestion: this.getErrorSuggestion(revertString),
-      };
-    }
-
     return {
       code: cleanCode,
       message: errorCode,
@@ -37,36 +60,34 @@ export class ErrorProcessor {
     };
   }
 
-  private static tryDecodeRevertString(errorData: string): string | null {
-    try {
-      const cleanData = errorData.startsWith("0x")
-        ? errorData.slice(2)
-        : errorData;
-
-      if (cleanData.startsWith("08c379a0")) {
-        const stringData = cleanData.slice(8);
-
-        const offset = stringData.slice(0, 64);
-
-        const lengthHex = stringData.slice(64, 128);
-        const length = parseInt(lengthHex, 16);
-
-        const stringHex = stringData.slice(128, 128 + length * 2);
-
-        let result = "";
-        for (let i = 0; i < stringHex.length; i += 2) {
-          const byte = parseInt(stringHex.substr(i, 2), 16);
-          if (byte !== 0) {
-            result += String.fromCharCode(byte);
-          }
-        }
-
-        return result || null;
-      }
+  /**
+   * Revert data from raw hex or from an ethers CALL_EXCEPTION message,
+   * which carries it as data="0x...".
+   */
+  static extractRevertData(errorData: string): string | null {
+    if (/^0x[0-9a-fA-F]{8,}$/.test(errorData)) return errorData;
+    return errorData.match(/\bdata="(0x[0-9a-fA-F]{8,})"/)?.[1] ?? null;
+  }
 
-      return null;
-    } catch {
-      return null;
+  /**
+   * Re-runs a failed call with callTracer to find the frame the revert
+   * started in and how it bubbled up. Nodes without debug_traceCall give
+   * no path.
+   */
+  static async traceRevertPath(
+    debugApi: DebugApi,
+    txParams: TraceCallParams,
+    blockNumber: string | number,
+    context: Pick<AbiDecodeContext, "network"> = {},
+  ): Promise<RevertPathFrame[] | undefined> {
+    try {
+      const trace = await debugApi.traceCall(txParams, blockNumber);
+      if (!trace?.error) return undefined;
+      await signatureDatabase.prefetchFrom(trace);
+      return buildRevertPath(flattenRevertFrames(trace), context);
+    } catch (error) {
+      console.warn("Could not trace the failed call:", error);
+      return undefined;
     }
   }
 
@@ -1,4 +1,6 @@
 import { ethers } from "ethers";
+import { abiRegistry, argumentsToRecord } from "@/lib/abi";
+import { signatureDatabase } from "@/lib/signatures";
 import { DebugApi, EthApi } from "../api";
 import { type ContractConfig, ContractRegistry } from "../contracts";
 import { ErrorProcessor, GasProcessor } from "../processors";
@@ -99,13 +101,30 @@ export class MultiContractSimulationService {
         );
         if (decodedOutput !== null && decodedOutput !== callResult) {
           result.decodedOutput = decodedOutput;
+        } else {
+          const registryOutput = abiRegistry.decodeFunctionResult(
+            callData,
+            callResult,
+            { address: contractAddress, network },
+          );
+          if (registryOutput) {
+            result.decodedOutput = argumentsToRecord(registryOutput);
+          }
         }
       } catch (callError) {
         const errorMessage =
           callError instanceof Error ? callError.message : String(callError);
-        const decodedError = ErrorProcessor.decodeError(errorMessage);
+        const revertData = ErrorProcessor.extractRevertData(errorMessage);
+        if (revertData) {
+          await signatureDatabase.prefetch([revertData.slice(0, 10)]);
+        }
+        const decodedError = ErrorProcessor.decodeError(errorMessage, {
+          address: contractAddress,
+          network,
+        });
 
         result.error = ErrorProcessor.formatErrorForDisplay(decodedError);
+        result.revert = decodedError.revert;
         result.success = false;
 
         result.hypotheticalSuccess =
@@ -114,6 +133,13 @@ export class MultiContractSimulationService {
         if (result.hypotheticalSuccess) {
           result.note =
             "This transaction would likely succeed with sufficient balance/allowance";
+        } else {
+          result.revertPath = await ErrorProcessor.traceRevertPath(
+            this.debugApi,
+            txParams,
+            blockNumber,
+            { network },
+          );
         }
       }
 
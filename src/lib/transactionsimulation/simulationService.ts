@@ -1,4 +1,8 @@
 import { ethers } from "ethers";
+import { abiRegistry, argumentsToRecord } from "@/lib/abi";
+import { stateHistoryService } from "@/lib/capabilities";
+import { signatureDatabase } from "@/lib/signatures";
+import { StateUnavailableError } from "@/lib/rpc";
 import { DebugApi, EthApi } from "./api";
 import { CallDataProcessor, ErrorProcessor, GasProcessor } from "./processors";
 import { PYUSD_CONFIG } from "./constants";
@@ -73,6 +77,8 @@ export class SimulationService {
       parameters,
     };
 
+    await stateHistoryService.assertAvailable(blockNumber, "Simulation");
+
     try {
       console.log("Executing eth_call simulation...");
 
@@ -87,13 +93,37 @@ export class SimulationService {
         );
         if (decodedOutput !== null && decodedOutput !== callResult) {
           result.decodedOutput = decodedOutput;
+        } else {
+          const registryOutput = abiRegistry.decodeFunctionResult(
+            callData,
+            callResult,
+            { address: txParams.to },
+          );
+          if (registryOutput) {
+            result.decodedOutput = argumentsToRecord(registryOutput);
+          }
         }
       } catch (callError) {
+        // A node without the block's state has not run the call at all.
+        const stateError = await stateHistoryService.explainError(
+          callError,
+          [blockNumber],
+          "Simulation",
+        );
+        if (stateError instanceof StateUnavailableError) throw stateError;
+
         const errorMessage =
           callError instanceof Error ? callError.message : String(callError);
-        const decodedError = ErrorProcessor.decodeError(errorMessage);
+        const revertData = ErrorProcessor.extractRevertData(errorMessage);
+        if (revertData) {
+          await signatureDatabase.prefetch([revertData.slice(0, 10)]);
+        }
+        const decodedError = ErrorProcessor.decodeError(errorMessage, {
+          address: txParams.to,
+        });
 
         result.error = ErrorProcessor.formatErrorForDisplay(decodedError);
+        result.revert = decodedError.revert;
         result.success = false;
 
         result.hypotheticalSuccess =
@@ -102,6 +132,13 @@ export class SimulationService {
         if (result.hypotheticalSuccess) {
           result.note =
             "This transaction would likely succeed with sufficient balance/allowance";
+        } else {
+          result.revertPath = await ErrorProcessor.traceRevertPath(
+            this.debugApi,
+            txParams,
+            blockNumber,
+            { network },
+          );
         }
       }
 
@@ -155,6 +192,7 @@ export class SimulationService {
 
       return result;
     } catch (error) {
+      if (error instanceof StateUnavailableError) throw error;
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       result.error = errorMessage;
@@ -1,4 +1,5 @@
 import { ethers } from "ethers";
+import { networkRegistry } from "@/lib/networks";
 import { FUNCTION_SIGNATURES } from "./constants";
 import type {
   BatchOperation,
@@ -68,8 +69,8 @@ export class SimulationValidator {
       }
     }
 
-    if (params.network && !["mainnet", "sepolia"].includes(params.network)) {
-      warnings.push("Unknown network, using mainnet as default");
+    if (params.network && !networkRegistry.has(params.network)) {
+      errors.push(`Unknown network: ${params.network}`);
     }
 
     return {
@@ -352,12 +353,14 @@ export class SimulationValidator {
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    const supportedNetworks = ["mainnet", "sepolia"];
-
     if (!network) {
-      warnings.push("No network specified, using mainnet as default");
-    } else if (!supportedNetworks.includes(network.toLowerCase())) {
-      warnings.push(`Unknown network '${network}', using mainnet as default`);
+      warnings.push(
+        `No network specified, using ${networkRegistry.getDefault().name}`,
+      );
+    } else if (!networkRegistry.has(network.toLowerCase())) {
+      errors.push(
+        `Unknown network '${network}'. Add it under Settings → Network first.`,
+      );
     }
 
     return {
@@ -1,3 +1,5 @@
+import type { DecodedRevert, RevertPathFrame } from "@/lib/abi";
+
 export interface SimulationParams {
   functionName: string;
   fromAddress: string;
@@ -24,6 +26,9 @@ export interface SimulationResult {
   functionName: string;
   parameters: any[];
   note?: string;
+  revert?: DecodedRevert;
+  // Failing frames, deepest first, when the failed call could be traced
+  revertPath?: RevertPathFrame[];
 }
 
 export interface StateChange {
@@ -108,6 +113,7 @@ export interface SimulationError {
   decodedMessage?: string;
   severity: "low" | "medium" | "high";
   suggestion?: string;
+  revert?: DecodedRevert;
 }
 
 export interface GasComparisonChartData {
@@ -1,4 +1,6 @@
 import { blockchainService } from "./blockchainService";
+import { traceStrategyService } from "@/lib/tracing";
+import type { NetworkId } from "@/lib/networks";
 
 export interface UnifiedAnalysisResult {
   type: "transaction" | "block";
@@ -12,7 +14,7 @@ export interface UnifiedAnalysisResult {
 }
 
 export interface AnalysisOptions {
-  network?: "mainnet" | "sepolia";
+  network?: NetworkId;
   includeAdvancedAnalytics?: boolean;
   timeout?: number;
 }
@@ -70,8 +72,10 @@ export class UnifiedAnalyzer {
       const [transaction, receipt, callTrace, structLog] = await Promise.all([
         blockchainService.getTransaction(txHash),
         blockchainService.getTransactionReceipt(txHash),
-        blockchainService.traceTransactionCallTracer(txHash).catch(() => null),
-        blockchainService.traceTransactionStructLog(txHash).catch(() => null),
+        traceStrategyService.traceTransactionCalls(txHash).catch(() => null),
+        traceStrategyService
+          .traceTransactionStructLog(txHash)
+          .catch(() => null),
       ]);
 
       return {
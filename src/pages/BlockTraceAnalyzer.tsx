@@ -9,22 +9,29 @@ import {
   TabsTrigger,
 } from "../components/ui/Tabs";
 import { blockchainService } from "@/lib/blockchainService";
-import { formatGas, RPC_CONFIG, shortenAddress } from "@/lib/config";
+import { traceStrategyService } from "@/lib/tracing";
+import { formatGas, shortenAddress } from "@/lib/config";
+import { networkRegistry } from "@/lib/networks";
 import Statusbar from "../components/status/Statusbar";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import { Button } from "@/components/global";
 import { Input } from "@/components/global";
 import { Dropdown } from "@/components/global";
+import { NetworkSelector } from "@/components/global";
+import { CapabilityNotice } from "@/components/global";
 import { Badge } from "@/components/global/Badge";
 import { VirtualizedTransactionTable } from "@/components/blocktrace/VirtualizedTransactionTable";
 import { ExportButton } from "@/components/blocktrace/ExportButton";
 import { BookmarkManager } from "@/components/blocktrace/BookmarkManager";
+import { BlockMevAnalysisPanel } from "@/components/blocktrace/BlockMevAnalysisPanel";
+import { BlockSwapsPanel } from "@/components/blocktrace/BlockSwapsPanel";
+import { TraceFormatExport } from "@/components/debugtrace";
+import { TraceExporter } from "@/lib/debugtrace";
 import { ProtectedRoute } from "@/components/auth";
 import {
   BlockGasDistributionChart,
   GasEfficiencyMetrics,
-  MEVAnalysisChart,
   TransactionHeatmapChart,
   ContractInteractionFlowChart,
 } from "@/components/blocktrace/charts";
@@ -49,6 +56,10 @@ import {
   Eye,
   Network as Networks,
 } from "lucide-react";
+import type { NetworkId } from "@/lib/networks";
+import type { BlockMevAnalysis } from "@/lib/tracetransaction/advancedMevDetector";
+import { useCapabilityRequirements } from "@/hooks/blockchain";
+import { useBlockMevAnalysis } from "@/hooks/blocktrace/useBlockMevAnalysis";
 
 interface BlockTraceState {
   loading: boolean;
@@ -757,6 +768,15 @@ const detectSuspiciousPatterns = (
   return patterns;
 };
 
+// Highest confidence of the block MEV patterns a transaction is part of.
+const mevRiskOf = (analysis: BlockMevAnalysis | undefined, txHash: string) =>
+  Math.max(
+    0,
+    ...(analysis?.blockPatterns ?? [])
+      .filter((pattern) => pattern.transactions.includes(txHash))
+      .map((pattern) => pattern.confidence * 100)
+  );
+
 // Helper function to generate MEV opportunities from transaction data
 const generateMEVOpportunities = (transactions: any[], blockId: string) => {
   return transactions
@@ -895,14 +915,28 @@ export default function BlockTraceAnalyzer() {
   });
 
   const [inputBlockId, setInputBlockId] = useState(urlBlockId || "");
-  const [selectedNetwork, setSelectedNetwork] = useState<"mainnet" | "sepolia">(
+  const [selectedNetwork, setSelectedNetwork] = useState<NetworkId>(
     "mainnet"
   );
+  const capabilityCheck = useCapabilityRequirements(
+    "traceBlock",
+    selectedNetwork
+  );
   const [validationError, setValidationError] = useState<string | null>(null);
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
-  const [rpcUrl, setRpcUrl] = useState(RPC_CONFIG.mainnet.rpcUrl);
-  const [selectedTab, setSelectedTab] = useState("overview");
+  const [rpcUrl, setRpcUrl] = useState(
+    networkRegistry.getDefault().rpcUrl
+  );
+  // Shared links with a filter expression open on the filtered table.
+  const [selectedTab, setSelectedTab] = useState(() =>
+    searchParams.has("filter") ? "transactions" : "overview"
+  );
   const [transactionFilter, setTransactionFilter] = useState("all");
+  const { data: blockMev } = useBlockMevAnalysis({
+    blockIdentifier: state.blockData?.blockNumber,
+    network: selectedNetwork,
+    enabled: selectedTab === "gas" || selectedTab === "mev",
+  });
 
   const validateBlockIdentifier = (blockId: string): string | null => {
     if (!blockId || blockId.trim() === "") {
@@ -996,7 +1030,7 @@ export default function BlockTraceAnalyzer() {
               message: "Tracing block transactions...",
             },
           }));
-          blockTraces = await blockchainService.traceBlock(blockId);
+          blockTraces = await traceStrategyService.traceBlockParity(blockId);
         } catch (traceError) {
           console.warn(
             "Block tracing failed, continuing with basic analysis:",
@@ -1027,36 +1061,37 @@ export default function BlockTraceAnalyzer() {
         const processedTransactions = [];
         const maxTxsToProcess = Math.min(transactions.length, 50);
 
-        for (let i = 0; i < maxTxsToProcess; i++) {
-          const tx = transactions[i];
-          let txData;
-
-          if (typeof tx === "string") {
-            // If transactions are just hashes, fetch full transaction data
+        // Fetch transactions and receipts concurrently so they go out as a
+        // few JSON-RPC batches instead of one request per call
+        const txDataList = await Promise.all(
+          transactions.slice(0, maxTxsToProcess).map(async (tx) => {
+            if (typeof tx !== "string") return tx;
             try {
-              txData = await blockchainService.getTransaction(tx);
+              return await blockchainService.getTransaction(tx);
             } catch (txError) {
               console.warn(`Failed to fetch transaction ${tx}:`, txError);
-              continue;
+              return null;
             }
-          } else {
-            txData = tx;
-          }
+          })
+        );
+        const receipts = await blockchainService.getTransactionReceipts(
+          txDataList.filter(Boolean).map((txData) => txData.hash)
+        );
+        const receiptsByHash = new Map(
+          receipts
+            .filter(Boolean)
+            .map((receipt) => [receipt.transactionHash, receipt])
+        );
+
+        for (let i = 0; i < maxTxsToProcess; i++) {
+          const txData = txDataList[i];
 
           if (txData) {
-            let receipt;
-            try {
-              receipt = await blockchainService.getTransactionReceipt(
-                txData.hash
-              );
-            } catch (receiptError) {
-              console.warn(
-                `Failed to fetch receipt for ${txData.hash}:`,
-                receiptError
-              );
-              // Assume success if we can't get receipt
-              receipt = { status: 1, gasUsed: txData.gasLimit || "21000" };
-            }
+            const rawReceipt = receiptsByHash.get(txData.hash);
+            // Assume success if we can't get receipt
+            const receipt = rawReceipt
+              ? { status: Number(rawReceipt.status), gasUsed: rawReceipt.gasUsed }
+              : { status: 1, gasUsed: txData.gasLimit || "21000" };
 
             const isSuccess = receipt && receipt.status === 1;
 
@@ -1091,6 +1126,10 @@ export default function BlockTraceAnalyzer() {
                 ethers.formatEther(txData.value || "0")
               ).toFixed(4),
               gasUsed: Number(gasUsed),
+              selector:
+                txData.data && txData.data.length >= 10
+                  ? txData.data.slice(0, 10)
+                  : undefined,
               status: isSuccess ? "success" : "failed",
               type: txData.to
                 ? isPyusdTx
@@ -1566,6 +1605,8 @@ export default function BlockTraceAnalyzer() {
                   </div>
                 </div>
 
+                <CapabilityNotice check={capabilityCheck} className="mb-4" />
+
                 <div className="space-y-4">
                   <div className="space-y-2">
                     <div className="flex gap-3">
@@ -1597,7 +1638,7 @@ export default function BlockTraceAnalyzer() {
                       </div>
                       <Button
                         onClick={handleSearch}
-                        disabled={state.loading}
+                        disabled={state.loading || !capabilityCheck.satisfied}
                         className="bg-[#00bfff] hover:bg-[#0099cc] text-[#0f1419] font-medium px-6 transition-all duration-200 hover:shadow-[0_0_12px_rgba(0,191,255,0.5)]"
                       >
                         {state.loading ? (
@@ -1615,48 +1656,13 @@ export default function BlockTraceAnalyzer() {
                       <label className="text-sm text-[#8b9dc3] font-medium">
                         Network
                       </label>
-                      <div className="flex gap-2">
-                        <Button
-                          variant={
-                            selectedNetwork === "mainnet"
-                              ? "default"
-                              : "outline"
-                          }
-                          size="sm"
-                          onClick={() => {
-                            setSelectedNetwork("mainnet");
-                            setRpcUrl(RPC_CONFIG.mainnet.rpcUrl);
-                          }}
-                          className={
-                            selectedNetwork === "mainnet"
-                              ? "bg-[#00bfff] text-[#0f1419]"
-                              : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                          }
-                        >
-                          <Networks className="h-3 w-3 mr-1" />
-                          Mainnet
-                        </Button>
-                        <Button
-                          variant={
-                            selectedNetwork === "sepolia"
-                              ? "default"
-                              : "outline"
-                          }
-                          size="sm"
-                          onClick={() => {
-                            setSelectedNetwork("sepolia");
-                            setRpcUrl(RPC_CONFIG.sepolia.rpcUrl);
-                          }}
-                          className={
-                            selectedNetwork === "sepolia"
-                              ? "bg-[#00bfff] text-[#0f1419]"
-                              : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                          }
-                        >
-                          <Networks className="h-3 w-3 mr-1" />
-                          Sepolia
-                        </Button>
-                      </div>
+                      <NetworkSelector
+                        value={selectedNetwork}
+                        onChange={(network) => {
+                          setSelectedNetwork(network.id);
+                          setRpcUrl(network.rpcUrl);
+                        }}
+                      />
                     </div>
 
                     <div className="space-y-2">
@@ -2105,7 +2111,7 @@ export default function BlockTraceAnalyzer() {
                                     : tx.gasUsed > 100000
                                       ? "medium"
                                       : "low",
-                                mevRisk: Math.random() * 100, // Placeholder - would be calculated from actual MEV analysis
+                                mevRisk: mevRiskOf(blockMev, tx.hash),
                               })
                             )}
                             className="mb-8"
@@ -2120,55 +2126,10 @@ export default function BlockTraceAnalyzer() {
                   </TabsContent>
 
                   <TabsContent value="mev" className="space-y-8 mt-8">
-                    {state.transactions && (
-                      <MEVAnalysisChart
-                        opportunities={[
-                          // Generate sample MEV opportunities from transaction data
-                          ...state.transactions
-                            .filter(
-                              (tx: any) =>
-                                tx.gasUsed > 200000 || parseFloat(tx.value) > 1
-                            )
-                            .slice(0, 5)
-                            .map((tx: any, index: number) => ({
-                              type: [
-                                "arbitrage",
-                                "sandwich",
-                                "liquidation",
-                                "frontrun",
-                                "backrun",
-                              ][index % 5] as any,
-                              txHash: tx.hash,
-                              blockNumber: parseInt(state.blockId) || 0,
-                              timestamp: Date.now(),
-                              profitUSD: Math.random() * 10000 + 100,
-                              gasUsed: tx.gasUsed,
-                              gasPrice: tx.gasPrice || 20000000000,
-                              miner:
-                                "0x0000000000000000000000000000000000000000",
-                              victim: Math.random() > 0.5 ? tx.from : undefined,
-                              tokens: ["ETH", "USDC", "WETH"].slice(
-                                0,
-                                Math.floor(Math.random() * 3) + 1
-                              ),
-                              protocols: ["Uniswap", "1inch", "Curve"].slice(
-                                0,
-                                Math.floor(Math.random() * 2) + 1
-                              ),
-                              riskScore: Math.random() * 100,
-                              confidence: 70 + Math.random() * 30,
-                              details: {
-                                description: `Detected ${["arbitrage", "sandwich", "liquidation", "frontrun", "backrun"][index % 5]} opportunity with high confidence`,
-                                impact: `Potential profit of $${(Math.random() * 10000 + 100).toFixed(2)} extracted from transaction`,
-                                methodology:
-                                  "Pattern analysis using gas usage, value transfers, and contract interactions",
-                              },
-                            })),
-                        ]}
-                        className="mb-8"
-                        onOpportunityClick={(opportunity) => {
-                          console.log("MEV opportunity clicked:", opportunity);
-                        }}
+                    {state.blockData && (
+                      <BlockMevAnalysisPanel
+                        blockIdentifier={state.blockData.blockNumber}
+                        network={selectedNetwork}
                       />
                     )}
                   </TabsContent>
@@ -2284,9 +2245,24 @@ export default function BlockTraceAnalyzer() {
                         </div>
                       </>
                     )}
+
+                    <BlockSwapsPanel
+                      blockIdentifier={state.blockData?.blockNumber}
+                      network={selectedNetwork}
+                    />
                   </TabsContent>
 
                   <TabsContent value="transactions" className="space-y-6">
+                    <TraceFormatExport
+                      filename={`block-${state.blockData.blockNumber}-calls`}
+                      loadCallTraces={async () =>
+                        TraceExporter.fromBlockCallTraces(
+                          await traceStrategyService.traceBlockCalls(
+                            state.blockData.blockNumber
+                          )
+                        )
+                      }
+                    />
                     <VirtualizedTransactionTable
                       transactions={filteredTransactions}
                       transactionFilter={transactionFilter}
@@ -4,6 +4,7 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/global/Button";
 import { Input } from "@/components/global/Input";
 import { Alert } from "@/components/global/Alert";
+import { NetworkSelector } from "@/components/global/NetworkSelector";
 import {
   AlertCircle,
   BookOpen,
@@ -15,11 +16,7 @@ import {
   Settings,
   Trash2,
 } from "lucide-react";
-import {
-  bytecodeService,
-  EXAMPLE_CONTRACTS,
-  RPC_ENDPOINTS,
-} from "@/lib/bytecode";
+import { bytecodeService, EXAMPLE_CONTRACTS } from "@/lib/bytecode";
 import {
   BytecodeAnalytics,
   BytecodeBookmarkManager,
@@ -28,6 +25,7 @@ import Statusbar from "@/components/status/Statusbar";
 import Navbar from "@/components/layout/Navbar";
 import Footer from "@/components/layout/Footer";
 import { cn } from "@/lib/utils";
+import { networkRegistry, type NetworkId } from "@/lib/networks";
 
 interface ContractInput {
   id: string;
@@ -46,9 +44,9 @@ export default function BytecodeAnalysis() {
     { id: "2", address: "", name: "Contract B" },
   ]);
   const [transactionHash, setTransactionHash] = useState("");
-  const [selectedNetwork, setSelectedNetwork] = useState<
-    "mainnet" | "sepolia" | "holesky"
-  >("mainnet");
+  const [selectedNetwork, setSelectedNetwork] = useState<NetworkId>(
+    networkRegistry.getDefault().id
+  );
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
   const [validationErrors, setValidationErrors] = useState<
     Record<string, string>
@@ -78,11 +76,8 @@ export default function BytecodeAnalysis() {
       setContracts(newContracts);
     }
 
-    if (
-      networkParam &&
-      ["mainnet", "sepolia", "holesky"].includes(networkParam)
-    ) {
-      setSelectedNetwork(networkParam as "mainnet" | "sepolia" | "holesky");
+    if (networkParam && networkRegistry.has(networkParam)) {
+      setSelectedNetwork(networkParam);
     }
   }, [searchParams]);
 
@@ -330,12 +325,7 @@ export default function BytecodeAnalysis() {
                     ) {
                       setAnalysisMode("transaction");
                       setTransactionHash(bookmark.query_config.transactionHash);
-                      setSelectedNetwork(
-                        bookmark.query_config.network as
-                          | "mainnet"
-                          | "sepolia"
-                          | "holesky"
-                      );
+                      setSelectedNetwork(bookmark.query_config.network);
                     } else {
                       setAnalysisMode("contracts");
                       const newContracts =
@@ -349,12 +339,7 @@ export default function BytecodeAnalysis() {
                           })
                         ) || [];
                       setContracts(newContracts);
-                      setSelectedNetwork(
-                        bookmark.query_config.network as
-                          | "mainnet"
-                          | "sepolia"
-                          | "holesky"
-                      );
+                      setSelectedNetwork(bookmark.query_config.network);
                     }
                   }}
                 />
@@ -414,27 +399,10 @@ export default function BytecodeAnalysis() {
                 <label className="text-sm text-[#8b9dc3] font-medium min-w-[80px]">
                   Network:
                 </label>
-                <div className="flex gap-2">
-                  {(["mainnet", "sepolia", "holesky"] as const).map(
-                    (network) => (
-                      <Button
-                        key={network}
-                        variant={
-                          selectedNetwork === network ? "default" : "outline"
-                        }
-                        size="sm"
-                        onClick={() => setSelectedNetwork(network)}
-                        className={
-                          selectedNetwork === network
-                            ? "bg-[#00bfff] text-[#0f1419]"
-                            : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                        }
-                      >
-                        {RPC_ENDPOINTS[network].name}
-                      </Button>
-                    )
-                  )}
-                </div>
+                <NetworkSelector
+                  value={selectedNetwork}
+                  onChange={(network) => setSelectedNetwork(network.id)}
+                />
               </div>
 
               {analysisMode === "transaction" && (
@@ -767,7 +735,7 @@ export default function BytecodeAnalysis() {
                         • <strong>Transaction Mode:</strong> Extract contracts
                         from transaction hash
                       </li>
-                      <li>• Choose your network (Mainnet, Sepolia, Holesky)</li>
+                      <li>• Choose a network (add more under Settings → Network)</li>
                       <li>• Try example contracts to get started</li>
                       <li>• Compare multiple contracts side-by-side</li>
                       <li>• Export results for further analysis</li>
@@ -1,10 +1,13 @@
 import React from "react";
 import { ComparativeAnalysis } from "@/components/tracetransaction";
+import { CapabilityNotice } from "@/components/global";
+import { useCapabilityRequirements } from "@/hooks/blockchain";
 import { useSearchParams } from "react-router-dom";
 
 export const ComparativeTransactionAnalysis: React.FC = () => {
   const [searchParams] = useSearchParams();
   const initialTransaction = searchParams.get("tx1") || undefined;
+  const capabilityCheck = useCapabilityRequirements("comparativeAnalysis");
 
   return (
     <div className="min-h-screen bg-[#0a0a0a] text-white">
@@ -15,10 +18,13 @@ export const ComparativeTransactionAnalysis: React.FC = () => {
           </h1>
           <p className="text-gray-400">
             Compare two Ethereum transactions side-by-side to identify
-            differences in patterns, gas usage, security, and performance.
+            differences in call trees, emitted events, patterns, gas usage,
+            security, and performance.
           </p>
         </div>
 
+        <CapabilityNotice check={capabilityCheck} className="mb-6" />
+
         <ComparativeAnalysis initialTransaction={initialTransaction} />
       </div>
     </div>
@@ -1,6 +1,12 @@
 import { useEffect, useState } from "react";
 import { useParams, useSearchParams } from "react-router-dom";
-import { Badge, Button, Input } from "@/components/global";
+import {
+  Badge,
+  Button,
+  CapabilityNotice,
+  Input,
+  NetworkSelector,
+} from "@/components/global";
 import {
   Tabs,
   TabsContent,
@@ -19,18 +25,25 @@ import {
   Settings,
 } from "lucide-react";
 import { Dropdown } from "@/components/global/Dropdown";
-import { formatGas, RPC_CONFIG, shortenAddress } from "@/lib/config";
+import { formatGas, shortenAddress } from "@/lib/config";
 import Statusbar from "../components/status/Statusbar";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import { BookmarkManager } from "@/components/debugblock/BookmarkManager";
 import { VirtualizedTransactionTable } from "@/components/blocktrace/VirtualizedTransactionTable";
+import { BlockMevAnalysisPanel } from "@/components/blocktrace/BlockMevAnalysisPanel";
+import { BlockSwapsPanel } from "@/components/blocktrace/BlockSwapsPanel";
+import { TraceFormatExport } from "@/components/debugtrace";
+import { TraceExporter } from "@/lib/debugtrace";
+import { traceStrategyService } from "@/lib/tracing";
 import { ExportButton } from "@/components/debugblock/ExportButton";
 import { ProtectedRoute } from "@/components/auth";
+import { networkRegistry, type NetworkId } from "@/lib/networks";
 
 import { ProgressiveLoader } from "@/components/blocktrace/ProgressiveLoader";
 import { useDefaultBlockTraceProgressiveLoading } from "@/hooks/blocktrace/useBlockTraceProgressiveLoading";
 import { useBlockTraceData } from "@/hooks/blocktrace/useBlockTraceData";
+import { useCapabilityRequirements } from "@/hooks/blockchain";
 
 import {
   RetryMechanism,
@@ -55,8 +68,12 @@ export default function DebugBlockTrace() {
   const [searchParams] = useSearchParams();
 
   const [inputBlockId, setInputBlockId] = useState(urlBlockId || "");
-  const [selectedNetwork, setSelectedNetwork] = useState<"mainnet" | "sepolia">(
-    (searchParams.get("network") as "mainnet" | "sepolia") || "mainnet"
+  const [selectedNetwork, setSelectedNetwork] = useState<NetworkId>(
+    (searchParams.get("network") as NetworkId) || "mainnet"
+  );
+  const capabilityCheck = useCapabilityRequirements(
+    "debugBlockTrace",
+    selectedNetwork
   );
   const [validationError, setValidationError] = useState<string | null>(null);
   const [selectedAnalysisDepth, setSelectedAnalysisDepth] = useState<
@@ -65,7 +82,7 @@ export default function DebugBlockTrace() {
   const [transactionFilter, setTransactionFilter] = useState("all");
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
   const [rpcUrl, setRpcUrl] = useState(
-    searchParams.get("rpc") || RPC_CONFIG.mainnet.rpcUrl
+    searchParams.get("rpc") || networkRegistry.getDefault().rpcUrl
   );
 
   // Progressive loading hook
@@ -370,6 +387,8 @@ export default function DebugBlockTrace() {
                   </div>
                 </div>
 
+                <CapabilityNotice check={capabilityCheck} className="mb-4" />
+
                 <div className="space-y-4">
                   <div className="space-y-2">
                     <div className="flex gap-3">
@@ -418,7 +437,9 @@ export default function DebugBlockTrace() {
                       </div>
                       <Button
                         onClick={handleSearch}
-                        disabled={isLoading || isTracing}
+                        disabled={
+                          isLoading || isTracing || !capabilityCheck.satisfied
+                        }
                         className="bg-[#00bfff] hover:bg-[#0099cc] text-[#0f1419] font-medium px-6 transition-all duration-200 hover:shadow-[0_0_12px_rgba(0,191,255,0.5)]"
                       >
                         {isLoading || isTracing ? (
@@ -436,48 +457,13 @@ export default function DebugBlockTrace() {
                       <label className="text-sm text-[#8b9dc3] font-medium">
                         Network
                       </label>
-                      <div className="flex gap-2">
-                        <Button
-                          variant={
-                            selectedNetwork === "mainnet"
-                              ? "default"
-                              : "outline"
-                          }
-                          size="sm"
-                          onClick={() => {
-                            setSelectedNetwork("mainnet");
-                            setRpcUrl(RPC_CONFIG.mainnet.rpcUrl);
-                          }}
-                          className={
-                            selectedNetwork === "mainnet"
-                              ? "bg-[#00bfff] text-[#0f1419]"
-                              : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                          }
-                        >
-                          <Network className="h-3 w-3 mr-1" />
-                          Mainnet
-                        </Button>
-                        <Button
-                          variant={
-                            selectedNetwork === "sepolia"
-                              ? "default"
-                              : "outline"
-                          }
-                          size="sm"
-                          onClick={() => {
-                            setSelectedNetwork("sepolia");
-                            setRpcUrl(RPC_CONFIG.sepolia.rpcUrl);
-                          }}
-                          className={
-                            selectedNetwork === "sepolia"
-                              ? "bg-[#00bfff] text-[#0f1419]"
-                              : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                          }
-                        >
-                          <Network className="h-3 w-3 mr-1" />
-                          Sepolia
-                        </Button>
-                      </div>
+                      <NetworkSelector
+                        value={selectedNetwork}
+                        onChange={(network) => {
+                          setSelectedNetwork(network.id);
+                          setRpcUrl(network.rpcUrl);
+                        }}
+                      />
                     </div>
 
                     <Dropdown
@@ -513,7 +499,11 @@ export default function DebugBlockTrace() {
                               setInputBlockId(example.value);
                               executeBlockTrace(example.value);
                             }}
-                            disabled={isLoading || isTracing}
+                            disabled={
+                              isLoading ||
+                              isTracing ||
+                              !capabilityCheck.satisfied
+                            }
                             className="border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)] text-xs"
                           >
                             {example.label}
@@ -687,8 +677,13 @@ export default function DebugBlockTrace() {
 
               {data && blockInfo && (
                 <div className="bg-[rgba(25,28,40,0.8)] backdrop-blur-[10px] border border-[rgba(0,191,255,0.2)] rounded-lg p-6">
-                  <Tabs defaultValue="summary" className="w-full">
-                    <TabsList className="grid w-full grid-cols-3 bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)]">
+                  <Tabs
+                    defaultValue={
+                      searchParams.has("filter") ? "transactions" : "summary"
+                    }
+                    className="w-full"
+                  >
+                    <TabsList className="grid w-full grid-cols-4 bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)]">
                       <TabsTrigger
                         value="summary"
                         className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
@@ -707,6 +702,12 @@ export default function DebugBlockTrace() {
                       >
                         Analytics
                       </TabsTrigger>
+                      <TabsTrigger
+                        value="mev"
+                        className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
+                      >
+                        MEV
+                      </TabsTrigger>
                     </TabsList>
 
                     <TabsContent value="summary" className="space-y-6 mt-6">
@@ -721,6 +722,16 @@ export default function DebugBlockTrace() {
                       value="transactions"
                       className="space-y-6 mt-6"
                     >
+                      <TraceFormatExport
+                        filename={`block-${blockInfo.number}-calls`}
+                        loadCallTraces={async () =>
+                          TraceExporter.fromBlockCallTraces(
+                            await traceStrategyService.traceBlockCalls(
+                              blockInfo.number
+                            )
+                          )
+                        }
+                      />
                       {data && data.transactions && (
                         <VirtualizedTransactionTable
                           transactions={data.transactions.map((tx) => ({
@@ -729,6 +740,7 @@ export default function DebugBlockTrace() {
                             to: tx.to,
                             value: tx.value_eth,
                             gasUsed: tx.gas_used,
+                            selector: tx.method_id,
                             status: tx.failed ? "failed" : "success",
                             type: tx.pyusd_interaction
                               ? "PYUSD Transaction"
@@ -799,6 +811,18 @@ export default function DebugBlockTrace() {
                             className="bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-6"
                           />
                         )}
+
+                      <BlockSwapsPanel
+                        blockIdentifier={blockInfo.number}
+                        network={selectedNetwork}
+                      />
+                    </TabsContent>
+
+                    <TabsContent value="mev" className="space-y-6 mt-6">
+                      <BlockMevAnalysisPanel
+                        blockIdentifier={blockInfo.number}
+                        network={selectedNetwork}
+                      />
                     </TabsContent>
                   </Tabs>
                 </div>
@@ -2,7 +2,13 @@ import { useEffect, useState, useMemo } from "react";
 import { useParams, useSearchParams } from "react-router-dom";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { ethers } from "ethers";
-import { Badge, Button, Input } from "@/components/global";
+import {
+  Badge,
+  Button,
+  CapabilityNotice,
+  Input,
+  NetworkSelector,
+} from "@/components/global";
 import { OpcodeAnalyticsLoader } from "@/components/global/Loader";
 import {
   Tabs,
@@ -25,13 +31,23 @@ import {
   TransactionTracer,
 } from "@/lib/transactionTracer";
 import { type StructLogAnalysis, StructLogTracer } from "@/lib/structLogTracer";
+import {
+  type ProcessedStructLogData,
+  structLogPipeline,
+} from "@/lib/debugtrace";
 import { blockchainService } from "@/lib/blockchainService";
-import { formatGas, RPC_CONFIG, shortenAddress } from "@/lib/config";
+import { traceStrategyService } from "@/lib/tracing";
+import { formatGas, shortenAddress } from "@/lib/config";
 import Statusbar from "../components/status/Statusbar";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
 import {
+  GasFlameGraph,
+  OpcodeDebugger,
+  StateDiffViewer,
+  StorageAccessTimeline,
   StructLogAnalytics,
+  TraceFormatExport,
   TransactionTracerAnalytics,
   UnifiedGasAnalytics,
 } from "@/components/debugtrace";
@@ -40,16 +56,24 @@ import { VirtualizedChart } from "@/components/debugtrace/VirtualizedChart";
 import { InternalCallTree } from "@/components/debugtrace/charts/InternalCallTree";
 import ProgressiveLoader from "@/components/debugtrace/ProgressiveLoader";
 import useProgressiveLoading from "@/hooks/debugtrace/useProgressiveLoading";
+import {
+  buildDebugSession,
+  debugSessionQuery,
+  fetchStructLogTrace,
+} from "@/hooks/debugtrace";
+import { useCapabilityRequirements } from "@/hooks/blockchain";
 import {
   RetryMechanism,
   useRetryMechanism,
 } from "@/components/debugtrace/RetryMechanism";
+import { networkRegistry, type NetworkId } from "@/lib/networks";
 
 interface TraceState {
   loading: boolean;
   error: string | null;
   callTrace: TransactionAnalysis | null;
   structLog: StructLogAnalysis | null;
+  structLogProcessed: ProcessedStructLogData | null;
   txHash: string;
   provider: ethers.JsonRpcProvider | null;
 }
@@ -63,13 +87,19 @@ export default function DebugTrace() {
     error: null,
     callTrace: null,
     structLog: null,
+    structLogProcessed: null,
     txHash: urlTxHash || "",
     provider: null,
   });
 
   const [inputTxHash, setInputTxHash] = useState(urlTxHash || "");
-  const [selectedNetwork, setSelectedNetwork] = useState<"mainnet" | "sepolia">(
-    "mainnet"
+  const [selectedNetwork, setSelectedNetwork] = useState<NetworkId>(() => {
+    const network = searchParams.get("network");
+    return network && networkRegistry.has(network) ? network : "mainnet";
+  });
+  const capabilityCheck = useCapabilityRequirements(
+    "debugTrace",
+    selectedNetwork
   );
   const [validationError, setValidationError] = useState<string | null>(null);
   const [selectedTraceMethod, setSelectedTraceMethod] = useState<
@@ -231,6 +261,7 @@ export default function DebugTrace() {
         ...prev,
         callTrace: traceData.callTrace,
         structLog: traceData.structLog,
+        structLogProcessed: traceData.structLogProcessed,
         loading: false,
         error: null,
         txHash: urlTxHash || prev.txHash,
@@ -243,6 +274,7 @@ export default function DebugTrace() {
         error: traceError.message,
         callTrace: null,
         structLog: null,
+        structLogProcessed: null,
       }));
     }
   }, [traceData, traceError, urlTxHash]);
@@ -267,6 +299,7 @@ export default function DebugTrace() {
         txHash,
         callTrace: null,
         structLog: null,
+        structLogProcessed: null,
       }));
     },
     onSuccess: (data, txHash) => {
@@ -275,6 +308,7 @@ export default function DebugTrace() {
         loading: false,
         callTrace: data.callTrace,
         structLog: data.structLog,
+        structLogProcessed: data.structLogProcessed,
         error:
           !data.callTrace && !data.structLog
             ? "Failed to trace transaction"
@@ -322,6 +356,7 @@ export default function DebugTrace() {
       txHash,
       callTrace: null,
       structLog: null,
+      structLogProcessed: null,
     }));
 
     try {
@@ -342,6 +377,7 @@ export default function DebugTrace() {
 
       let callTrace: TransactionAnalysis | null = null;
       let structLog: StructLogAnalysis | null = null;
+      let structLogProcessed: ProcessedStructLogData | null = null;
 
       const shouldRunCallTrace =
         selectedTraceMethod === "both" || selectedTraceMethod === "callTracer";
@@ -352,6 +388,7 @@ export default function DebugTrace() {
         | { type: "callTrace"; result: unknown; tracer: TransactionTracer }
         | { type: "structLog"; result: unknown; tracer: StructLogTracer }
       >[] = [];
+      let debugSessionSeeded: Promise<unknown> = Promise.resolve();
 
       if (shouldRunCallTrace) {
         startStep("trace-calls");
@@ -359,8 +396,8 @@ export default function DebugTrace() {
 
         const tracer = new TransactionTracer(provider);
         tracePromises.push(
-          blockchainService
-            .traceTransactionCallTracer(txHash)
+          traceStrategyService
+            .traceTransactionCalls(txHash)
             .then((result) => {
               updateProgress("trace-calls", 75);
               return { type: "callTrace" as const, result, tracer };
@@ -374,9 +411,25 @@ export default function DebugTrace() {
 
         const structTracer = new StructLogTracer(provider);
         tracePromises.push(
-          blockchainService.traceTransactionStructLog(txHash).then((result) => {
+          fetchStructLogTrace(txHash, selectedNetwork).then((source) => {
+            // Seeds the session of the debugger and the storage, source and
+            // export panels, so they do not fetch the trace again. Only the
+            // session is cached; the trace is dropped once parsed.
+            debugSessionSeeded = buildDebugSession(txHash, source).then(
+              (session) =>
+                queryClient.setQueryData(
+                  debugSessionQuery(txHash, selectedNetwork).queryKey,
+                  session
+                ),
+              () => undefined
+            );
+            const result = source.trace;
             updateProgress("trace-opcodes", 75);
-            return { type: "structLog" as const, result, tracer: structTracer };
+            return {
+              type: "structLog" as const,
+              result,
+              tracer: structTracer,
+            };
           })
         );
       }
@@ -404,10 +457,23 @@ export default function DebugTrace() {
               Array.isArray((traceResult as any).structLogs) &&
               tracer instanceof StructLogTracer
             ) {
-              structLog = tracer.parseStructLog(
+              // Parsed in the structLog worker so large traces do not block the page.
+              const parsed = await structLogPipeline.analyze(
                 (traceResult as any).structLogs,
-                txHash
+                ({ phase, done, total }) => {
+                  if (phase === "parse") {
+                    updateProgress(
+                      "trace-opcodes",
+                      75 + Math.round((done / Math.max(total, 1)) * 20)
+                    );
+                  } else if (phase === "process") {
+                    updateProgress("trace-opcodes", 95);
+                  }
+                }
               );
+              structLog = parsed.analysis;
+              structLogProcessed = parsed.processed;
+              await debugSessionSeeded;
               completeStep("trace-opcodes", 2000);
             }
           } catch (error) {
@@ -435,7 +501,7 @@ export default function DebugTrace() {
       await new Promise((resolve) => setTimeout(resolve, 500));
       completeStep("process-trace", 500);
 
-      return { callTrace, structLog };
+      return { callTrace, structLog, structLogProcessed };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error occurred";
@@ -531,7 +597,7 @@ export default function DebugTrace() {
               </span>
               {call.error && (
                 <Badge className="text-xs bg-red-500/20 border-red-500/50 text-red-400">
-                  ERROR: {call.error}
+                  ERROR: {call.decoded_error ?? call.error}
                 </Badge>
               )}
             </div>
@@ -539,7 +605,15 @@ export default function DebugTrace() {
               <span>Value: {call.value_eth.toFixed(6)} ETH</span>
               <span>Gas: {formatGas(call.gasUsed)}</span>
               <span>Contract: {call.contract}</span>
-              {call.input_preview && <span>Input: {call.input_preview}</span>}
+              {call.input_preview && (
+                <span>Input: {call.decoded_input ?? call.input_preview}</span>
+              )}
+              {call.function_candidates && (
+                <span title={call.function_candidates.join("\n")}>
+                  Also matches: {call.function_candidates.length} signature
+                  {call.function_candidates.length === 1 ? "" : "s"}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -600,7 +674,7 @@ export default function DebugTrace() {
                       </span>
                       {call.error && (
                         <Badge className="text-xs bg-red-500/20 border-red-500/50 text-red-400">
-                          ERROR: {call.error}
+                          ERROR: {call.decoded_error ?? call.error}
                         </Badge>
                       )}
                     </div>
@@ -609,7 +683,9 @@ export default function DebugTrace() {
                       <span>Gas: {formatGas(call.gasUsed)}</span>
                       <span>Contract: {call.contract}</span>
                       {call.input_preview && (
-                        <span>Input: {call.input_preview}</span>
+                        <span>
+                          Input: {call.decoded_input ?? call.input_preview}
+                        </span>
                       )}
                     </div>
                   </div>
@@ -641,7 +717,7 @@ export default function DebugTrace() {
         name: call.contract || "Unknown Contract",
         contractAddress: call.to,
         contractName: call.contract || "Unknown Contract",
-        functionName: call.type || "Unknown Function",
+        functionName: call.function_name || call.type || "Unknown Function",
         gasUsed: call.gasUsed,
         value: call.value_eth,
         success: !call.error,
@@ -705,7 +781,7 @@ export default function DebugTrace() {
                     onLoadBookmark={(bookmark) => {
                       setInputTxHash(bookmark.query_config.tx_hash);
                       setSelectedNetwork(
-                        bookmark.query_config.network as "mainnet" | "sepolia"
+                        bookmark.query_config.network as NetworkId
                       );
                       setSelectedTraceMethod(
                         bookmark.query_config.trace_method
@@ -744,6 +820,8 @@ export default function DebugTrace() {
                 </div>
               </div>
 
+              <CapabilityNotice check={capabilityCheck} className="mb-4" />
+
               <div className="space-y-4">
                 <div className="space-y-2">
                   <div className="flex gap-3">
@@ -772,7 +850,11 @@ export default function DebugTrace() {
                     </div>
                     <Button
                       onClick={handleSearch}
-                      disabled={traceTransactionMutation.isPending || isTracing}
+                      disabled={
+                        traceTransactionMutation.isPending ||
+                        isTracing ||
+                        !capabilityCheck.satisfied
+                      }
                       className="flex items-center gap-2 bg-[#00bfff] hover:bg-[#0099cc] text-[#0f1419] font-medium px-6 transition-all duration-200 hover:shadow-[0_0_12px_rgba(0,191,255,0.5)]"
                     >
                       {traceTransactionMutation.isPending || isTracing ? (
@@ -790,48 +872,15 @@ export default function DebugTrace() {
                     <label className="text-sm text-[#8b9dc3] font-medium">
                       Network
                     </label>
-                    <div className="flex gap-2">
-                      <Button
-                        variant={
-                          selectedNetwork === "mainnet" ? "default" : "outline"
-                        }
-                        size="sm"
-                        onClick={() => {
-                          setSelectedNetwork("mainnet");
-                          if (!rpcUrl) {
-                            setRpcUrl("");
-                          }
-                        }}
-                        className={
-                          selectedNetwork === "mainnet"
-                            ? "bg-[#00bfff] text-[#0f1419]"
-                            : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+                    <NetworkSelector
+                      value={selectedNetwork}
+                      onChange={(network) => {
+                        setSelectedNetwork(network.id);
+                        if (!rpcUrl) {
+                          setRpcUrl("");
                         }
-                      >
-                        <Network className="h-3 w-3 mr-1" />
-                        Mainnet
-                      </Button>
-                      <Button
-                        variant={
-                          selectedNetwork === "sepolia" ? "default" : "outline"
-                        }
-                        size="sm"
-                        onClick={() => {
-                          setSelectedNetwork("sepolia");
-                          if (!rpcUrl) {
-                            setRpcUrl("");
-                          }
-                        }}
-                        className={
-                          selectedNetwork === "sepolia"
-                            ? "bg-[#00bfff] text-[#0f1419]"
-                            : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                        }
-                      >
-                        <Network className="h-3 w-3 mr-1" />
-                        Sepolia
-                      </Button>
-                    </div>
+                      }}
+                    />
                   </div>
 
                   <Dropdown
@@ -1017,8 +1066,13 @@ export default function DebugTrace() {
 
             {(state.callTrace || state.structLog) && (
               <div className="bg-[rgba(25,28,40,0.8)] backdrop-blur-[10px] border border-[rgba(0,191,255,0.2)] rounded-lg p-6 relative">
-                <Tabs defaultValue="analytics" className="w-full relative">
-                  <TabsList className="grid w-full grid-cols-3 bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)]">
+                <Tabs
+                  defaultValue={
+                    searchParams.has("filter") ? "call-trace" : "analytics"
+                  }
+                  className="w-full relative"
+                >
+                  <TabsList className="grid w-full grid-cols-6 bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)]">
                     <TabsTrigger
                       value="analytics"
                       className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
@@ -1037,11 +1091,40 @@ export default function DebugTrace() {
                     >
                       Opcode Analysis (structLog)
                     </TabsTrigger>
+                    <TabsTrigger
+                      value="debugger"
+                      className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
+                    >
+                      Step Debugger
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="state-diff"
+                      className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
+                    >
+                      State Diff (prestateTracer)
+                    </TabsTrigger>
+                    <TabsTrigger
+                      value="storage-timeline"
+                      className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
+                    >
+                      Storage Timeline
+                    </TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="call-trace" className="space-y-6 mt-6">
                     {state.callTrace ? (
                       <>
+                        <TraceFormatExport
+                          filename={`calltrace-${state.txHash.slice(0, 10)}`}
+                          loadCallTraces={async () => [
+                            {
+                              frame:
+                                await traceStrategyService.traceTransactionCalls(
+                                  state.txHash
+                                ),
+                            },
+                          ]}
+                        />
                         <div className="bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-6">
                           <h3 className="text-lg font-semibold text-[#00bfff] mb-4">
                             Transaction Statistics
@@ -1200,6 +1283,14 @@ export default function DebugTrace() {
                   <TabsContent value="struct-log" className="space-y-6 mt-6">
                     {state.structLog ? (
                       <>
+                        <TraceFormatExport
+                          filename={`structlog-${state.txHash.slice(0, 10)}`}
+                          structLog={{
+                            txHash: state.txHash,
+                            network: selectedNetwork,
+                            callTrace: state.callTrace,
+                          }}
+                        />
                         <div className="bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-6">
                           <h3 className="text-lg font-semibold text-[#00bfff] mb-4">
                             Opcode Execution Summary
@@ -1356,6 +1447,33 @@ export default function DebugTrace() {
                     )}
                   </TabsContent>
 
+                  <TabsContent value="debugger" className="mt-6">
+                    {state.txHash && (
+                      <OpcodeDebugger
+                        txHash={state.txHash}
+                        network={selectedNetwork}
+                      />
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="state-diff" className="mt-6">
+                    {state.txHash && (
+                      <StateDiffViewer
+                        txHash={state.txHash}
+                        network={selectedNetwork}
+                      />
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="storage-timeline" className="mt-6">
+                    {state.txHash && (
+                      <StorageAccessTimeline
+                        txHash={state.txHash}
+                        network={selectedNetwork}
+                      />
+                    )}
+                  </TabsContent>
+
                   <TabsContent value="analytics" className="space-y-6 mt-6">
                     <div className="bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)] rounded-lg p-4">
                       <Tabs
@@ -1381,6 +1499,12 @@ export default function DebugTrace() {
                           >
                             Contract Analytics
                           </TabsTrigger>
+                          <TabsTrigger
+                            value="flame-graph"
+                            className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
+                          >
+                            Gas Flame Graph
+                          </TabsTrigger>
                         </TabsList>
 
                         <TabsContent value="unified-analytics" className="mt-4">
@@ -1412,6 +1536,7 @@ export default function DebugTrace() {
 
                               <StructLogAnalytics
                                 structLog={opcodeAnalyticsData.structLog}
+                                processedData={state.structLogProcessed}
                                 loading={state.loading}
                               />
                             </>
@@ -1451,6 +1576,14 @@ export default function DebugTrace() {
                             </div>
                           )}
                         </TabsContent>
+
+                        <TabsContent value="flame-graph" className="mt-4">
+                          <GasFlameGraph
+                            callTrace={state.callTrace}
+                            txHash={state.txHash}
+                            network={selectedNetwork}
+                          />
+                        </TabsContent>
                       </Tabs>
                     </div>
                   </TabsContent>
@@ -0,0 +1,118 @@
+import { useSearchParams } from "react-router-dom";
+import { Loader2, Network, RefreshCw } from "lucide-react";
+import { Button } from "@/components/global/Button";
+import { Alert } from "@/components/global/Alert";
+import { DevnetControlPanel, DevnetStatusCard } from "@/components/devnet";
+import Navbar from "@/components/layout/Navbar";
+import Footer from "@/components/layout/Footer";
+import Statusbar from "@/components/status/Statusbar";
+import { useNetworks } from "@/hooks/blockchain";
+import { useDevnetInfo } from "@/hooks/devnet";
+import { isLocalNetwork } from "@/lib/networks";
+
+const DEFAULT_DEVNET_ID = "localhost";
+
+export default function DevnetControl() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { networks } = useNetworks();
+  const localNetworks = networks.filter((network) => isLocalNetwork(network));
+
+  const requested = searchParams.get("network");
+  const selected =
+    localNetworks.find((network) => network.id === requested) ||
+    localNetworks.find((network) => network.id === DEFAULT_DEVNET_ID) ||
+    localNetworks[0];
+
+  const {
+    data: info,
+    error,
+    isLoading,
+    refetch,
+    isFetching,
+  } = useDevnetInfo(selected?.id ?? DEFAULT_DEVNET_ID);
+
+  return (
+    <div className="bg-bg-dark-primary text-text-primary min-h-screen overflow-x-hidden flex flex-col bg-gradient-to-br from-bg-dark-primary to-bg-dark-secondary">
+      <header className="fixed top-0 left-0 w-full z-20 border-b border-border-color bg-[repeating-linear-gradient(90deg,transparent,transparent_2px,rgba(0,191,255,0.03)_2px,rgba(0,191,255,0.03)_4px)]">
+        <Statusbar />
+        <Navbar />
+      </header>
+
+      <main className="flex-1 pt-40 pb-16 px-6">
+        <div className="container mx-auto space-y-6">
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl font-bold text-[#00bfff] tracking-wide">
+              Local Devnet
+            </h1>
+            <p className="text-[#8b9dc3] text-lg">
+              Set up state on an Anvil or Hardhat node, then trace the result
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-2">
+              {localNetworks.map((network) => (
+                <Button
+                  key={network.id}
+                  variant={network.id === selected?.id ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSearchParams({ network: network.id })}
+                  title={network.rpcUrl}
+                  className={
+                    network.id === selected?.id
+                      ? "bg-[#00bfff] text-[#0f1419]"
+                      : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+                  }
+                >
+                  <Network className="h-3 w-3 mr-1" />
+                  {network.name}
+                </Button>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refetch()}
+              disabled={isFetching}
+              className="border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+            >
+              <RefreshCw
+                className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`}
+              />
+              Refresh
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-[#8b9dc3]">
+              <Loader2 className="h-5 w-5 animate-spin text-[#00bfff]" />
+              Connecting to {selected?.rpcUrl}...
+            </div>
+          ) : error || !info ? (
+            <Alert variant="warning">
+              <div>
+                <div className="font-medium">
+                  No Anvil or Hardhat node found at{" "}
+                  {selected?.rpcUrl ?? "a local network"}
+                </div>
+                <div className="text-sm mt-1">
+                  Start one with <code className="font-mono">anvil</code> or{" "}
+                  <code className="font-mono">npx hardhat node</code>, or add a
+                  network with a localhost RPC URL in Settings → Network.
+                  {error instanceof Error && ` (${error.message})`}
+                </div>
+              </div>
+            </Alert>
+          ) : (
+            <>
+              <DevnetStatusCard info={info} rpcUrl={selected!.rpcUrl} />
+              <DevnetControlPanel network={selected!.id} info={info} />
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -787,10 +787,6 @@ function LogsAnalyzerContent({ className = "" }: LogsAnalyzerProps) {
           <QueryControls
             onAnalyze={handleQuery}
             loading={isLoading}
-            networks={[
-              { value: "mainnet", label: "Ethereum Mainnet" },
-              { value: "sepolia", label: "Sepolia Testnet" },
-            ]}
             currentNetwork={queryParams.network}
             onNetworkChange={(network) =>
               setQueryParams((prev) => ({ ...prev, network }))
@@ -3,12 +3,14 @@ import { useSearchParams } from "react-router-dom";
 import { Button } from "@/components/global/Button";
 import { Alert } from "@/components/global/Alert";
 import { Badge } from "@/components/global/Badge";
+import { CapabilityNotice } from "@/components/global/CapabilityNotice";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/Tabs";
 import {
   CheckCircle,
   Network,
   Pause,
   Play,
+  Radio,
   RefreshCw,
   Settings,
 } from "lucide-react";
@@ -17,16 +19,19 @@ import Footer from "@/components/layout/Footer";
 import Statusbar from "@/components/status/Statusbar";
 import {
   CongestionGauge,
+  LivePyusdTransactions,
+  LiveStatusBadge,
   NetworkComparisonChart,
   NetworkStatusCard,
 } from "@/components/mempool";
 import {
   useAutoRefresh,
-  useMempoolMethodAvailability,
+  useLiveNetworkConditions,
   useNetworkComparison,
   useNetworkConditions,
   useRefreshNetworkConditions,
 } from "@/hooks/mempool";
+import { useCapabilityRequirements } from "@/hooks/blockchain";
 import { DEFAULTS } from "@/lib/mempool/constants";
 
 export default function NetworkMonitor() {
@@ -43,16 +48,32 @@ export default function NetworkMonitor() {
       searchParams.get("interval") || DEFAULTS.REFRESH_INTERVAL.toString(),
     ),
   );
+  const [liveEnabled, setLiveEnabled] = useState(
+    searchParams.get("live") !== "false",
+  );
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
 
+  const mainnetLive = useLiveNetworkConditions(
+    "mainnet",
+    liveEnabled && selectedNetworks.includes("mainnet"),
+  );
+  const sepoliaLive = useLiveNetworkConditions(
+    "sepolia",
+    liveEnabled && selectedNetworks.includes("sepolia"),
+  );
+
+  // Networks with a live stream stop polling; the others fall back to the
+  // auto-refresh interval.
   const mainnetConditions = useNetworkConditions("mainnet", {
     enabled: selectedNetworks.includes("mainnet"),
-    refetchInterval: autoRefreshEnabled ? refreshInterval : false,
+    refetchInterval:
+      autoRefreshEnabled && !mainnetLive.isLive ? refreshInterval : false,
   });
 
   const sepoliaConditions = useNetworkConditions("sepolia", {
     enabled: selectedNetworks.includes("sepolia"),
-    refetchInterval: autoRefreshEnabled ? refreshInterval : false,
+    refetchInterval:
+      autoRefreshEnabled && !sepoliaLive.isLive ? refreshInterval : false,
   });
 
   const networkComparison = useNetworkComparison(selectedNetworks, {
@@ -60,18 +81,34 @@ export default function NetworkMonitor() {
     refetchInterval: autoRefreshEnabled ? refreshInterval : false,
   });
 
-  const methodAvailability = useMempoolMethodAvailability();
+  const capabilityCheck = useCapabilityRequirements("networkMonitor");
   const refreshMutation = useRefreshNetworkConditions();
 
-  useAutoRefresh(autoRefreshEnabled, refreshInterval, selectedNetworks);
+  const polledNetworks = selectedNetworks.filter(
+    (network) =>
+      !(network === "mainnet" && mainnetLive.isLive) &&
+      !(network === "sepolia" && sepoliaLive.isLive),
+  );
+  useAutoRefresh(
+    autoRefreshEnabled && polledNetworks.length > 0,
+    refreshInterval,
+    polledNetworks,
+  );
 
   useEffect(() => {
     const params = new URLSearchParams();
     params.set("networks", selectedNetworks.join(","));
     params.set("autoRefresh", autoRefreshEnabled.toString());
     params.set("interval", refreshInterval.toString());
+    params.set("live", liveEnabled.toString());
     setSearchParams(params);
-  }, [selectedNetworks, autoRefreshEnabled, refreshInterval, setSearchParams]);
+  }, [
+    selectedNetworks,
+    autoRefreshEnabled,
+    refreshInterval,
+    liveEnabled,
+    setSearchParams,
+  ]);
 
   const toggleNetwork = (network: string) => {
     setSelectedNetworks((prev) => {
@@ -209,6 +246,31 @@ export default function NetworkMonitor() {
                 )}
               </div>
 
+              <div className="flex items-center gap-4">
+                <span className="text-sm font-medium text-[#8b9dc3]">
+                  Live updates:
+                </span>
+                <Button
+                  variant={liveEnabled ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setLiveEnabled(!liveEnabled)}
+                  className={
+                    liveEnabled
+                      ? "bg-[#00bfff] text-[#0f1419]"
+                      : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
+                  }
+                >
+                  <Radio className="h-3 w-3 mr-1" />
+                  {liveEnabled ? "Enabled" : "Disabled"}
+                </Button>
+                {liveEnabled && selectedNetworks.includes("mainnet") && (
+                  <LiveStatusBadge state={mainnetLive.state} label="Mainnet" />
+                )}
+                {liveEnabled && selectedNetworks.includes("sepolia") && (
+                  <LiveStatusBadge state={sepoliaLive.state} label="Sepolia" />
+                )}
+              </div>
+
               {showAdvancedSettings && (
                 <div className="border-t border-[rgba(0,191,255,0.1)] pt-4 space-y-3">
                   <h3 className="text-sm font-medium text-[#00bfff]">
@@ -238,20 +300,7 @@ export default function NetworkMonitor() {
             </div>
           </div>
 
-          {methodAvailability.data &&
-            !methodAvailability.data.txpool_status && (
-              <Alert variant="destructive">
-                <div>
-                  <div className="font-medium">
-                    Mempool Methods Not Available
-                  </div>
-                  <div className="text-sm mt-1">
-                    The current RPC endpoint doesn't support txpool methods.
-                    Network monitoring features will be limited.
-                  </div>
-                </div>
-              </Alert>
-            )}
+          <CapabilityNotice check={capabilityCheck} />
 
           {hasError && (
             <Alert variant="destructive">
@@ -267,7 +316,7 @@ export default function NetworkMonitor() {
           )}
 
           <Tabs defaultValue="overview" className="w-full">
-            <TabsList className="grid w-full grid-cols-3 bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)]">
+            <TabsList className="grid w-full grid-cols-4 bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)]">
               <TabsTrigger
                 value="overview"
                 className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff]"
@@ -286,6 +335,12 @@ export default function NetworkMonitor() {
               >
                 Congestion
               </TabsTrigger>
+              <TabsTrigger
+                value="pyusd"
+                className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff]"
+              >
+                PYUSD Live
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-6 mt-6">
@@ -443,6 +498,10 @@ export default function NetworkMonitor() {
                 ))}
               </div>
             </TabsContent>
+
+            <TabsContent value="pyusd" className="space-y-6 mt-6">
+              <LivePyusdTransactions network="mainnet" enabled={liveEnabled} />
+            </TabsContent>
           </Tabs>
         </div>
       </main>
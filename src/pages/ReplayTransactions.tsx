@@ -1,6 +1,13 @@
 import React, { useEffect, useState } from "react";
 import { useParams, useSearchParams } from "react-router-dom";
-import { Button, Card, Input } from "@/components/global";
+import {
+  Button,
+  CapabilityNotice,
+  Card,
+  Input,
+  NetworkSelector,
+  StateAvailabilityNotice,
+} from "@/components/global";
 import {
   Activity,
   AlertCircle,
@@ -37,7 +44,12 @@ import {
   useReplayTransaction,
   useReplayTransactionMutation,
 } from "@/hooks/replaytransactions";
+import {
+  useCapabilityRequirements,
+  useStateAvailability,
+} from "@/hooks/blockchain";
 import { type ReplayTracer } from "@/lib/replaytransactions";
+import type { NetworkId } from "@/lib/networks";
 
 export default function ReplayTransactions() {
   const { txHash: urlTxHash } = useParams<{ txHash: string }>();
@@ -63,6 +75,16 @@ export default function ReplayTransactions() {
     resetTracers,
   } = useReplayAnalysisState();
 
+  const capabilityCheck = useCapabilityRequirements(
+    analysisMode === "transaction" ? "replayTransactions" : "replayBlock",
+    selectedNetwork
+  );
+
+  const { data: blockState } = useStateAvailability(
+    analysisMode === "block" ? inputBlockId : null,
+    selectedNetwork
+  );
+
   const { estimateTransactionCost, estimateBlockCost, checkCostWarning } =
     useReplayCostEstimation();
 
@@ -306,7 +328,7 @@ export default function ReplayTransactions() {
                         setAnalysisMode("block");
                       }
                       setSelectedNetwork(
-                        bookmark.queryConfig.network as "mainnet" | "sepolia"
+                        bookmark.queryConfig.network as NetworkId
                       );
                       setSelectedTracers(
                         bookmark.queryConfig.tracers as ReplayTracer[]
@@ -365,6 +387,8 @@ export default function ReplayTransactions() {
                   </div>
                 </div>
 
+                <CapabilityNotice check={capabilityCheck} />
+
                 <div className="space-y-2">
                   <label className="text-sm text-[#8b9dc3] font-medium">
                     {analysisMode === "transaction"
@@ -405,7 +429,7 @@ export default function ReplayTransactions() {
                     </div>
                     <Button
                       onClick={handleAnalyze}
-                      disabled={isLoading}
+                      disabled={isLoading || !capabilityCheck.satisfied}
                       className="bg-[#00bfff] hover:bg-[#0099cc] text-[#0f1419] font-medium px-6 transition-all duration-200 hover:shadow-[0_0_12px_rgba(0,191,255,0.5)]"
                     >
                       {isLoading ? (
@@ -418,6 +442,13 @@ export default function ReplayTransactions() {
                   </div>
                 </div>
 
+                {analysisMode === "block" && (
+                  <StateAvailabilityNotice
+                    availability={blockState}
+                    onUseBlock={(block) => handleInputChange(block.toString())}
+                  />
+                )}
+
                 <div className="space-y-2">
                   <label className="text-sm text-[#8b9dc3] font-medium">
                     Analysis Tracers
@@ -473,38 +504,12 @@ export default function ReplayTransactions() {
                   <label className="text-sm text-[#8b9dc3] font-medium">
                     Network
                   </label>
-                  <div className="flex gap-2">
-                    <Button
-                      variant={
-                        selectedNetwork === "mainnet" ? "default" : "outline"
-                      }
-                      size="sm"
-                      onClick={() => setSelectedNetwork("mainnet")}
-                      className={
-                        selectedNetwork === "mainnet"
-                          ? "bg-[#00bfff] text-[#0f1419]"
-                          : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                      }
-                    >
-                      <Network className="h-3 w-3 mr-1" />
-                      Mainnet
-                    </Button>
-                    <Button
-                      variant={
-                        selectedNetwork === "sepolia" ? "default" : "outline"
-                      }
-                      size="sm"
-                      onClick={() => setSelectedNetwork("sepolia")}
-                      className={
-                        selectedNetwork === "sepolia"
-                          ? "bg-[#00bfff] text-[#0f1419]"
-                          : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                      }
-                    >
-                      <Network className="h-3 w-3 mr-1" />
-                      Sepolia
-                    </Button>
-                  </div>
+                  <NetworkSelector
+                    value={selectedNetwork}
+                    onChange={(network) => {
+                      setSelectedNetwork(network.id);
+                    }}
+                  />
                 </div>
 
                 {showAdvancedSettings && (
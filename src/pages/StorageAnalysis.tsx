@@ -1,7 +1,14 @@
 import { useState } from "react";
 import { useParams, useSearchParams } from "react-router-dom";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { Badge, Button, Input } from "@/components/global";
+import {
+  Badge,
+  Button,
+  CapabilityNotice,
+  Input,
+  NetworkSelector,
+  StateAvailabilityNotice,
+} from "@/components/global";
 import { Dropdown } from "@/components/global/Dropdown";
 import {
   AlertCircle,
@@ -17,7 +24,7 @@ import {
   X,
 } from "lucide-react";
 import { blockchainService } from "@/lib/blockchainService";
-import { RPC_CONFIG, shortenAddress } from "@/lib/config";
+import { shortenAddress } from "@/lib/config";
 import Statusbar from "../components/status/Statusbar";
 import Navbar from "../components/layout/Navbar";
 import Footer from "../components/layout/Footer";
@@ -27,6 +34,11 @@ import {
   StorageComparatorDashboard,
 } from "@/components/storagerange";
 import { BookmarkManager } from "@/components/storagerange";
+import {
+  getNetworkConfig,
+  networkRegistry,
+  type NetworkId,
+} from "@/lib/networks";
 
 import {
   useMappingAnalysis,
@@ -35,6 +47,10 @@ import {
   useStorageAnalysisMutation,
   useStorageComparison,
 } from "@/hooks/storagerange";
+import {
+  useCapabilityRequirements,
+  useStateAvailability,
+} from "@/hooks/blockchain";
 
 const useCommonERC20Addresses = () => {
   return [
@@ -49,7 +65,7 @@ const useCommonERC20Addresses = () => {
 interface StorageAnalysisState {
   contractAddress: string;
   blockIdentifier: string;
-  selectedNetwork: "mainnet" | "sepolia";
+  selectedNetwork: NetworkId;
   analysisType: "storage" | "mapping" | "comparison";
   mappingSlot: string;
   mappingKeys: string[];
@@ -78,9 +94,13 @@ export default function StorageAnalysis() {
 
   const [validationError, setValidationError] = useState<string | null>(null);
   const [rpcUrl, setRpcUrl] = useState(
-    searchParams.get("rpc") || RPC_CONFIG.mainnet.rpcUrl
+    searchParams.get("rpc") || networkRegistry.getDefault().rpcUrl
   );
   const [newMappingKey, setNewMappingKey] = useState("");
+  const capabilityCheck = useCapabilityRequirements(
+    "storageAnalysis",
+    state.selectedNetwork
+  );
 
   const queryClient = useQueryClient();
   const commonERC20Addresses = useCommonERC20Addresses();
@@ -134,6 +154,16 @@ export default function StorageAnalysis() {
     gcTime: 10 * 60 * 1000,
   });
 
+  const { data: blockState } = useStateAvailability(
+    state.blockIdentifier,
+    state.selectedNetwork
+  );
+  const { data: comparisonBlockState } = useStateAvailability(
+    state.analysisType === "comparison" ? state.comparisonBlock2 : null,
+    state.selectedNetwork
+  );
+  const blockUnavailable = blockState?.available === false;
+
   const {
     data: storageAnalysis,
     isLoading: isAnalyzingStorage,
@@ -146,7 +176,8 @@ export default function StorageAnalysis() {
     state.analysisType === "storage" &&
       !!provider &&
       !isConnecting &&
-      !!state.contractAddress
+      !!state.contractAddress &&
+      !blockUnavailable
   );
 
   const {
@@ -165,7 +196,8 @@ export default function StorageAnalysis() {
         !!provider &&
         !isConnecting &&
         !!state.contractAddress &&
-        state.mappingKeys.length > 0,
+        state.mappingKeys.length > 0 &&
+        !blockUnavailable,
     }
   );
 
@@ -183,7 +215,9 @@ export default function StorageAnalysis() {
       !!provider &&
       !isConnecting &&
       !!state.contractAddress &&
-      !!state.comparisonBlock2
+      !!state.comparisonBlock2 &&
+      !blockUnavailable &&
+      comparisonBlockState?.available !== false
   );
 
   const storageAnalysisMutation = useStorageAnalysisMutation();
@@ -367,7 +401,7 @@ export default function StorageAnalysis() {
                       );
                       handleInputChange(
                         "selectedNetwork",
-                        bookmark.query_config.network as "mainnet" | "sepolia"
+                        bookmark.query_config.network as NetworkId
                       );
                       handleInputChange(
                         "analysisType",
@@ -385,10 +419,11 @@ export default function StorageAnalysis() {
                       }
 
                       // Update RPC URL based on network
-                      if (bookmark.query_config.network === "mainnet") {
-                        setRpcUrl(RPC_CONFIG.mainnet.rpcUrl);
-                      } else if (bookmark.query_config.network === "sepolia") {
-                        setRpcUrl(RPC_CONFIG.sepolia.rpcUrl);
+                      const network = getNetworkConfig(
+                        bookmark.query_config.network
+                      );
+                      if (network) {
+                        setRpcUrl(network.rpcUrl);
                       }
                     }}
                     onSignUpClick={() => {
@@ -414,6 +449,8 @@ export default function StorageAnalysis() {
                 </div>
               </div>
 
+              <CapabilityNotice check={capabilityCheck} className="mb-4" />
+
               <div className="space-y-4">
                 <div className="space-y-2">
                   <div className="flex gap-3">
@@ -462,48 +499,13 @@ export default function StorageAnalysis() {
                     <label className="text-sm text-[#8b9dc3] font-medium">
                       Network
                     </label>
-                    <div className="flex gap-2">
-                      <Button
-                        variant={
-                          state.selectedNetwork === "mainnet"
-                            ? "default"
-                            : "outline"
-                        }
-                        size="sm"
-                        onClick={() => {
-                          handleInputChange("selectedNetwork", "mainnet");
-                          setRpcUrl(RPC_CONFIG.mainnet.rpcUrl);
-                        }}
-                        className={
-                          state.selectedNetwork === "mainnet"
-                            ? "bg-[#00bfff] text-[#0f1419]"
-                            : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                        }
-                      >
-                        <Network className="h-3 w-3 mr-1" />
-                        Mainnet
-                      </Button>
-                      <Button
-                        variant={
-                          state.selectedNetwork === "sepolia"
-                            ? "default"
-                            : "outline"
-                        }
-                        size="sm"
-                        onClick={() => {
-                          handleInputChange("selectedNetwork", "sepolia");
-                          setRpcUrl(RPC_CONFIG.sepolia.rpcUrl);
-                        }}
-                        className={
-                          state.selectedNetwork === "sepolia"
-                            ? "bg-[#00bfff] text-[#0f1419]"
-                            : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                        }
-                      >
-                        <Network className="h-3 w-3 mr-1" />
-                        Sepolia
-                      </Button>
-                    </div>
+                    <NetworkSelector
+                      value={state.selectedNetwork}
+                      onChange={(network) => {
+                        handleInputChange("selectedNetwork", network.id);
+                        setRpcUrl(network.rpcUrl);
+                      }}
+                    />
                   </div>
 
                   <div className="space-y-2">
@@ -553,6 +555,25 @@ export default function StorageAnalysis() {
                   </div>
                 </div>
 
+                <StateAvailabilityNotice
+                  availability={blockState}
+                  label={
+                    state.analysisType === "comparison" ? "Block 1" : undefined
+                  }
+                  onUseBlock={(block) =>
+                    handleInputChange("blockIdentifier", block.toString())
+                  }
+                />
+                {state.analysisType === "comparison" && (
+                  <StateAvailabilityNotice
+                    availability={comparisonBlockState}
+                    label="Block 2"
+                    onUseBlock={(block) =>
+                      handleInputChange("comparisonBlock2", block.toString())
+                    }
+                  />
+                )}
+
                 {state.analysisType === "mapping" && (
                   <div className="border-t border-[rgba(0,191,255,0.1)] pt-4 space-y-3">
                     <h3 className="text-sm font-medium text-[#00bfff]">
@@ -1,6 +1,12 @@
 import React, { useEffect, useState } from "react";
-import { useParams } from "react-router-dom";
-import { Button, Input, Badge } from "@/components/global";
+import { useParams, useSearchParams } from "react-router-dom";
+import {
+  Button,
+  CapabilityNotice,
+  Input,
+  Badge,
+  NetworkSelector,
+} from "@/components/global";
 import {
   Activity,
   AlertCircle,
@@ -22,17 +28,23 @@ import Footer from "@/components/layout/Footer";
 import {
   useDataPersistence,
   useTraceTransactionAnalysis,
+  useTransactionSwaps,
 } from "@/hooks/tracetransaction";
+import { useCapabilityRequirements } from "@/hooks/blockchain";
+import { networkRegistry, type NetworkId } from "@/lib/networks";
 
 import {
   AdvancedFilters,
   AdvancedMevAnalysis,
+  DexSwapsPanel,
   FilteredTraceTable,
   TraceAnalysisResults,
   TransactionReplay,
   BookmarkManager,
   ComparativeAnalysis,
 } from "@/components/tracetransaction";
+import { SourceMapPanel } from "@/components/sourcemaps";
+import { StateDiffViewer } from "@/components/debugtrace";
 import type {
   AnalysisOptions,
   ExportFormat,
@@ -42,9 +54,15 @@ import type { TraceTransactionBookmark } from "@/lib/tracetransaction/bookmarks"
 
 function TraceTransactionContent() {
   const { txHash: urlTxHash } = useParams<{ txHash: string }>();
+  const [searchParams] = useSearchParams();
   const [inputTxHash, setInputTxHash] = useState(urlTxHash || "");
-  const [selectedNetwork, setSelectedNetwork] = useState<"mainnet" | "sepolia">(
-    "mainnet"
+  const [selectedNetwork, setSelectedNetwork] = useState<NetworkId>(() => {
+    const network = searchParams.get("network");
+    return network && networkRegistry.has(network) ? network : "mainnet";
+  });
+  const capabilityCheck = useCapabilityRequirements(
+    "traceTransaction",
+    selectedNetwork
   );
   const [validationError, setValidationError] = useState<string | null>(null);
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
@@ -60,7 +78,10 @@ function TraceTransactionContent() {
   const [filteredTraces, setFilteredTraces] = useState<ProcessedTraceAction[]>(
     []
   );
-  const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
+  // Shared links with a filter expression open with the filters applied.
+  const [showAdvancedFilters, setShowAdvancedFilters] = useState(() =>
+    searchParams.has("filter")
+  );
 
   const {
     results,
@@ -72,6 +93,10 @@ function TraceTransactionContent() {
   } = useTraceTransactionAnalysis();
 
   const { saveAnalysis } = useDataPersistence();
+  const swapQuery = useTransactionSwaps(
+    results?.transactionHash,
+    selectedNetwork
+  );
 
   // Generate analysis results summary for bookmarking
   const analysisResultsSummary = results
@@ -223,7 +248,7 @@ function TraceTransactionContent() {
                   onLoadBookmark={(bookmark: TraceTransactionBookmark) => {
                     setInputTxHash(bookmark.query_config.tx_hash);
                     setSelectedNetwork(
-                      bookmark.query_config.network as "mainnet" | "sepolia"
+                      bookmark.query_config.network as NetworkId
                     );
                     window.history.pushState(
                       {},
@@ -251,6 +276,8 @@ function TraceTransactionContent() {
               </div>
             </div>
 
+            <CapabilityNotice check={capabilityCheck} className="mb-4" />
+
             <div className="space-y-4">
               <div className="space-y-2">
                 <div className="flex gap-3">
@@ -291,7 +318,7 @@ function TraceTransactionContent() {
                   </div>
                   <Button
                     onClick={handleAnalyze}
-                    disabled={isAnalyzing}
+                    disabled={isAnalyzing || !capabilityCheck.satisfied}
                     className="bg-[#00bfff] hover:bg-[#0099cc] text-[#0f1419] font-medium px-6 transition-all duration-200 hover:shadow-[0_0_12px_rgba(0,191,255,0.5)]"
                   >
                     {isAnalyzing ? (
@@ -309,38 +336,12 @@ function TraceTransactionContent() {
                   <label className="text-sm text-[#8b9dc3] font-medium">
                     Network
                   </label>
-                  <div className="flex gap-2">
-                    <Button
-                      variant={
-                        selectedNetwork === "mainnet" ? "default" : "outline"
-                      }
-                      size="sm"
-                      onClick={() => setSelectedNetwork("mainnet")}
-                      className={
-                        selectedNetwork === "mainnet"
-                          ? "bg-[#00bfff] text-[#0f1419]"
-                          : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                      }
-                    >
-                      <Network className="h-3 w-3 mr-1" />
-                      Mainnet
-                    </Button>
-                    <Button
-                      variant={
-                        selectedNetwork === "sepolia" ? "default" : "outline"
-                      }
-                      size="sm"
-                      onClick={() => setSelectedNetwork("sepolia")}
-                      className={
-                        selectedNetwork === "sepolia"
-                          ? "bg-[#00bfff] text-[#0f1419]"
-                          : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                      }
-                    >
-                      <Network className="h-3 w-3 mr-1" />
-                      Sepolia
-                    </Button>
-                  </div>
+                  <NetworkSelector
+                    value={selectedNetwork}
+                    onChange={(network) => {
+                      setSelectedNetwork(network.id);
+                    }}
+                  />
                 </div>
 
                 <Dropdown
@@ -530,13 +531,19 @@ function TraceTransactionContent() {
           {results && !isAnalyzing && (
             <div className="bg-[rgba(25,28,40,0.8)] backdrop-blur-[10px] border border-[rgba(0,191,255,0.2)] rounded-lg p-6">
               <Tabs defaultValue="analytics" className="w-full">
-                <TabsList className="grid w-full grid-cols-3 bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)]">
+                <TabsList className="grid w-full grid-cols-6 bg-[rgba(15,20,25,0.8)] border border-[rgba(0,191,255,0.2)]">
                   <TabsTrigger
                     value="analytics"
                     className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
                   >
                     Analytics
                   </TabsTrigger>
+                  <TabsTrigger
+                    value="swaps"
+                    className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
+                  >
+                    Swaps
+                  </TabsTrigger>
                   <TabsTrigger
                     value="compare"
                     className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
@@ -549,6 +556,18 @@ function TraceTransactionContent() {
                   >
                     Replay Transaction
                   </TabsTrigger>
+                  <TabsTrigger
+                    value="source"
+                    className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
+                  >
+                    Source Gas
+                  </TabsTrigger>
+                  <TabsTrigger
+                    value="state-diff"
+                    className="data-[state=active]:bg-[#00bfff] data-[state=active]:text-[#0f1419] text-[#8b9dc3] hover:text-[#00bfff] transition-all duration-200"
+                  >
+                    State Diff
+                  </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="analytics" className="space-y-6 mt-6">
@@ -558,7 +577,10 @@ function TraceTransactionContent() {
                   />
 
                   {/* Always visible MEV Analysis */}
-                  <AdvancedMevAnalysis traceAnalysis={results} />
+                  <AdvancedMevAnalysis
+                    traceAnalysis={results}
+                    swaps={swapQuery.data}
+                  />
 
                   {results.processedActions.length > 0 && (
                     <div className="space-y-6">
@@ -596,6 +618,14 @@ function TraceTransactionContent() {
                   )}
                 </TabsContent>
 
+                <TabsContent value="swaps" className="space-y-6 mt-6">
+                  <DexSwapsPanel
+                    swaps={swapQuery.data}
+                    isLoading={swapQuery.isLoading}
+                    error={swapQuery.error}
+                  />
+                </TabsContent>
+
                 <TabsContent value="compare" className="space-y-6 mt-6">
                   <ComparativeAnalysis
                     primaryTransaction={results}
@@ -613,6 +643,20 @@ function TraceTransactionContent() {
                     </div>
                   )}
                 </TabsContent>
+
+                <TabsContent value="source" className="space-y-6 mt-6">
+                  <SourceMapPanel
+                    txHash={results.transactionHash}
+                    network={selectedNetwork}
+                  />
+                </TabsContent>
+
+                <TabsContent value="state-diff" className="space-y-6 mt-6">
+                  <StateDiffViewer
+                    txHash={results.transactionHash}
+                    network={selectedNetwork}
+                  />
+                </TabsContent>
               </Tabs>
             </div>
           )}
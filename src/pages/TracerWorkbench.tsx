@@ -0,0 +1,52 @@
+import { useSearchParams } from "react-router-dom";
+import { CapabilityNotice, NetworkSelector } from "@/components/global";
+import { TracerWorkbench as Workbench } from "@/components/customtracers";
+import Navbar from "@/components/layout/Navbar";
+import Footer from "@/components/layout/Footer";
+import Statusbar from "@/components/status/Statusbar";
+import { useCapabilityRequirements } from "@/hooks/blockchain";
+import { networkRegistry } from "@/lib/networks";
+
+export default function TracerWorkbench() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requested = searchParams.get("network");
+  const network =
+    requested && networkRegistry.has(requested) ? requested : "mainnet";
+  const capabilityCheck = useCapabilityRequirements("tracerWorkbench", network);
+
+  return (
+    <div className="bg-bg-dark-primary text-text-primary min-h-screen overflow-x-hidden flex flex-col bg-gradient-to-br from-bg-dark-primary to-bg-dark-secondary">
+      <header className="fixed top-0 left-0 w-full z-20 border-b border-border-color bg-[repeating-linear-gradient(90deg,transparent,transparent_2px,rgba(0,191,255,0.03)_2px,rgba(0,191,255,0.03)_4px)]">
+        <Statusbar />
+        <Navbar />
+      </header>
+
+      <main className="flex-1 pt-40 pb-16 px-6">
+        <div className="container mx-auto space-y-6">
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl font-bold text-[#00bfff] tracking-wide">
+              Tracer Workbench
+            </h1>
+            <p className="text-[#8b9dc3] text-lg">
+              Write, save and run custom JavaScript tracers on your node
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm text-[#8b9dc3] font-medium">Network</span>
+            <NetworkSelector
+              value={network}
+              onChange={(selected) => setSearchParams({ network: selected.id })}
+            />
+          </div>
+
+          <CapabilityNotice check={capabilityCheck} />
+
+          <Workbench network={network} />
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
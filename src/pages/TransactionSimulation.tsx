@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { useSearchParams } from "react-router-dom";
 import {
   Button,
+  CapabilityNotice,
   Input,
   Badge,
   Alert,
@@ -9,6 +10,7 @@ import {
   TabsContent,
   TabsList,
   TabsTrigger,
+  NetworkSelector,
 } from "@/components/global";
 import {
   AlertCircle,
@@ -20,10 +22,10 @@ import {
   Settings,
   Zap,
 } from "lucide-react";
-import { RPC_CONFIG } from "@/lib/config";
 import Statusbar from "@/components/status/Statusbar";
 import Navbar from "@/components/layout/Navbar";
 import Footer from "@/components/layout/Footer";
+import type { NetworkId } from "@/lib/networks";
 
 import {
   BatchResults,
@@ -41,6 +43,7 @@ import {
   useSimulationComparison,
   useTransactionSimulation,
 } from "@/hooks/transactionsimulation";
+import { useCapabilityRequirements } from "@/hooks/blockchain";
 
 import type {
   BatchOperation,
@@ -50,9 +53,13 @@ import type {
 export default function TransactionSimulation() {
   const [searchParams] = useSearchParams();
 
-  const [selectedNetwork, setSelectedNetwork] = useState<"mainnet" | "sepolia">(
+  const [selectedNetwork, setSelectedNetwork] = useState<NetworkId>(
     "mainnet"
   );
+  const capabilityCheck = useCapabilityRequirements(
+    "transactionSimulation",
+    selectedNetwork
+  );
   const [fromAddress, setFromAddress] = useState<string>(
     searchParams.get("from") || "0xf845a0A05Cbd91Ac15C3E59D126DE5dFbC2aAbb7"
   );
@@ -304,50 +311,21 @@ export default function TransactionSimulation() {
                 </div>
               </div>
 
+              <CapabilityNotice check={capabilityCheck} className="mb-4" />
+
               <div className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="space-y-2">
                     <label className="text-sm text-[#8b9dc3] font-medium">
                       Network
                     </label>
-                    <div className="flex gap-2">
-                      <Button
-                        variant={
-                          selectedNetwork === "mainnet" ? "default" : "outline"
-                        }
-                        size="sm"
-                        onClick={() => {
-                          setSelectedNetwork("mainnet");
-                          setRpcUrl("");
-                        }}
-                        className={
-                          selectedNetwork === "mainnet"
-                            ? "bg-[#00bfff] text-[#0f1419]"
-                            : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                        }
-                      >
-                        <Network className="h-3 w-3 mr-1" />
-                        Mainnet
-                      </Button>
-                      <Button
-                        variant={
-                          selectedNetwork === "sepolia" ? "default" : "outline"
-                        }
-                        size="sm"
-                        onClick={() => {
-                          setSelectedNetwork("sepolia");
-                          setRpcUrl("");
-                        }}
-                        className={
-                          selectedNetwork === "sepolia"
-                            ? "bg-[#00bfff] text-[#0f1419]"
-                            : "border-[rgba(0,191,255,0.3)] text-[#00bfff] hover:bg-[rgba(0,191,255,0.1)]"
-                        }
-                      >
-                        <Network className="h-3 w-3 mr-1" />
-                        Sepolia
-                      </Button>
-                    </div>
+                    <NetworkSelector
+                      value={selectedNetwork}
+                      onChange={(network) => {
+                        setSelectedNetwork(network.id);
+                        setRpcUrl("");
+                      }}
+                    />
                   </div>
 
                   <div className="space-y-2">
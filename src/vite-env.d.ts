@@ -4,6 +4,14 @@ interface ImportMetaEnv {
   readonly VITE_API_URL: string;
   readonly VITE_MAINNET_RPC_URL: string;
   readonly VITE_SEPOLIA_RPC_URL: string;
+  readonly VITE_HOLESKY_RPC_URL: string;
+  readonly VITE_MAINNET_FALLBACK_RPC_URLS?: string;
+  readonly VITE_SEPOLIA_FALLBACK_RPC_URLS?: string;
+  readonly VITE_HOLESKY_FALLBACK_RPC_URLS?: string;
+  readonly VITE_LOCAL_RPC_URL?: string;
+  readonly VITE_MAINNET_WS_URL?: string;
+  readonly VITE_SEPOLIA_WS_URL?: string;
+  readonly VITE_HOLESKY_WS_URL?: string;
   readonly DATABASE_URL: string;
   readonly BETTER_AUTH_SECRET: string;
   readonly GITHUB_CLIENT_ID: string;